@@ -6,6 +6,7 @@ using System.Security.Claims;
 using Xunit;
 using FluentAssertions;
 using IncomeMeter.Api.Controllers;
+using IncomeMeter.Api.DTOs;
 using IncomeMeter.Api.Models;
 using IncomeMeter.Api.Services;
 
@@ -15,6 +16,8 @@ public class DashboardControllerTests
 {
     private readonly Mock<IRouteService> _mockRouteService;
     private readonly Mock<ITransactionService> _mockTransactionService;
+    private readonly Mock<IExpenseService> _mockExpenseService;
+    private readonly Mock<ILocationService> _mockLocationService;
     private readonly Mock<ILogger<DashboardController>> _mockLogger;
     private readonly DashboardController _controller;
 
@@ -22,8 +25,15 @@ public class DashboardControllerTests
     {
         _mockRouteService = new Mock<IRouteService>();
         _mockTransactionService = new Mock<ITransactionService>();
+        _mockExpenseService = new Mock<IExpenseService>();
+        _mockLocationService = new Mock<ILocationService>();
         _mockLogger = new Mock<ILogger<DashboardController>>();
-        _controller = new DashboardController(_mockRouteService.Object, _mockTransactionService.Object, _mockLogger.Object);
+        _controller = new DashboardController(_mockRouteService.Object, _mockTransactionService.Object, _mockExpenseService.Object, _mockLocationService.Object, _mockLogger.Object);
+
+        _mockExpenseService.Setup(x => x.GetExpensesByUserIdAsync(It.IsAny<string>()))
+            .ReturnsAsync(new List<Expense>());
+        _mockLocationService.Setup(x => x.GetRouteStopsByRouteIdsAsync(It.IsAny<IEnumerable<string>>(), It.IsAny<string>()))
+            .ReturnsAsync(new Dictionary<string, RouteStopsDto>());
 
         // Setup HttpContext with authenticated user
         var claims = new List<Claim>
@@ -135,6 +145,57 @@ public class DashboardControllerTests
         currentMonthMileage.Should().Be(56.3); // route1 + route4 (both completed and in current month)
     }
 
+    [Fact]
+    public async Task GetDashboardStats_ShouldSubtractCurrentMonthExpenses_FromNetIncome()
+    {
+        // Arrange
+        var userId = "user-123";
+        var now = DateTime.UtcNow;
+        var startOfMonth = new DateTime(now.Year, now.Month, 1);
+
+        var allRoutes = new List<Route>
+        {
+            new Route
+            {
+                Id = "route1",
+                UserId = userId,
+                WorkType = "Delivery",
+                Status = "completed",
+                ScheduleStart = startOfMonth,
+                ScheduleEnd = startOfMonth.AddHours(4),
+                TotalIncome = 200.00m,
+                Distance = 40.0
+            }
+        };
+
+        var expenses = new List<Expense>
+        {
+            // Linked to route1, counts towards Delivery
+            new Expense { Id = "expense1", UserId = userId, RouteId = "route1", Category = ExpenseCategories.Fuel, Amount = 30.00m, Date = startOfMonth },
+            // Unlinked, counts towards the month only
+            new Expense { Id = "expense2", UserId = userId, Category = ExpenseCategories.Phone, Amount = 15.00m, Date = startOfMonth },
+            // Last month, ignored
+            new Expense { Id = "expense3", UserId = userId, RouteId = "route1", Category = ExpenseCategories.Parking, Amount = 99.00m, Date = startOfMonth.AddDays(-1) }
+        };
+
+        _mockRouteService.Setup(x => x.GetRoutesByUserIdAsync(userId))
+            .ReturnsAsync(allRoutes);
+        _mockExpenseService.Setup(x => x.GetExpensesByUserIdAsync(userId))
+            .ReturnsAsync(expenses);
+
+        // Act
+        var result = await _controller.GetDashboardStats();
+
+        // Assert
+        var stats = (result as OkObjectResult)!.Value as DashboardStatsDto;
+        stats.Should().NotBeNull();
+        stats!.CurrentMonthIncome.Should().Be(200.00m);
+        stats.CurrentMonthExpenses.Should().Be(45.00m);
+        stats.NetIncome.Should().Be(155.00m);
+        stats.IncomeBySource["Delivery"].Expenses.Should().Be(30.00m);
+        stats.IncomeBySource["Delivery"].NetIncome.Should().Be(170.00m);
+    }
+
     [Fact]
     public async Task GetDashboardStats_ShouldCalculateIncomeBySource_WithTimeAndMileage()
     {
@@ -402,6 +463,78 @@ public class DashboardControllerTests
         errorMessage.Should().Be("Failed to fetch dashboard stats");
     }
 
+    [Fact]
+    public async Task GetRangeStats_ShouldBucketByDay_AndIncludeTheEndDate()
+    {
+        // Arrange
+        var userId = "user-123";
+        var start = new DateTime(2026, 3, 1);
+
+        var allRoutes = new List<Route>
+        {
+            new Route { Id = "route1", UserId = userId, WorkType = "Delivery", Status = "completed", ScheduleStart = start.AddHours(9), ScheduleEnd = start.AddHours(13), TotalIncome = 80.00m, Distance = 20.0 },
+            // Last day of the range, late evening
+            new Route { Id = "route2", UserId = userId, WorkType = "Delivery", Status = "completed", ScheduleStart = start.AddDays(9).AddHours(22), ScheduleEnd = start.AddDays(9).AddHours(23), TotalIncome = 40.00m, Distance = 10.0 },
+            // Outside the range
+            new Route { Id = "route3", UserId = userId, WorkType = "Delivery", Status = "completed", ScheduleStart = start.AddDays(10), ScheduleEnd = start.AddDays(10).AddHours(2), TotalIncome = 999.00m, Distance = 5.0 },
+            // Not completed
+            new Route { Id = "route4", UserId = userId, WorkType = "Delivery", Status = "scheduled", ScheduleStart = start.AddDays(2), ScheduleEnd = start.AddDays(2).AddHours(2), TotalIncome = 50.00m, Distance = 5.0 }
+        };
+
+        _mockRouteService.Setup(x => x.GetRoutesByUserIdAsync(userId))
+            .ReturnsAsync(allRoutes);
+
+        // Act
+        var result = await _controller.GetRangeStats(new RangeIncomeRequestDto { StartDate = start, EndDate = start.AddDays(9) });
+
+        // Assert
+        var stats = (result as OkObjectResult)!.Value as CustomRangeIncomeResponseDto;
+        stats.Should().NotBeNull();
+        stats!.Period.Should().Be("custom");
+        stats.Granularity.Should().Be("daily");
+        stats.ChartData.Should().HaveCount(10);
+        stats.ChartData.First().Income.Should().Be(80.00m);
+        stats.ChartData.Last().Income.Should().Be(40.00m);
+        stats.TotalIncome.Should().Be(120.00m);
+        stats.CompletedRoutes.Should().Be(2);
+    }
+
+    [Fact]
+    public async Task GetRangeStats_ShouldUseMonthlyBuckets_ForLongRanges()
+    {
+        // Arrange
+        _mockRouteService.Setup(x => x.GetRoutesByUserIdAsync("user-123"))
+            .ReturnsAsync(new List<Route>());
+
+        // Act
+        var result = await _controller.GetRangeStats(new RangeIncomeRequestDto
+        {
+            StartDate = new DateTime(2025, 4, 6),
+            EndDate = new DateTime(2026, 4, 5)
+        });
+
+        // Assert
+        var stats = (result as OkObjectResult)!.Value as CustomRangeIncomeResponseDto;
+        stats!.Granularity.Should().Be("monthly");
+        stats.ChartData.Should().HaveCount(13); // partial April at both ends
+        stats.ChartData[1].Date.Should().Be(new DateTime(2025, 5, 1));
+    }
+
+    [Fact]
+    public async Task GetRangeStats_WithEndBeforeStart_ShouldReturnBadRequest()
+    {
+        // Act
+        var result = await _controller.GetRangeStats(new RangeIncomeRequestDto
+        {
+            StartDate = new DateTime(2026, 3, 10),
+            EndDate = new DateTime(2026, 3, 1)
+        });
+
+        // Assert
+        result.Should().BeOfType<BadRequestObjectResult>();
+        _mockRouteService.Verify(x => x.GetRoutesByUserIdAsync(It.IsAny<string>()), Times.Never);
+    }
+
     [Fact]
     public async Task GetTodaysRoutes_ShouldReturnTodaysRoutesLimitedTo10()
     {
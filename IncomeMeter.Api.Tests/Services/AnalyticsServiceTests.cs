@@ -0,0 +1,121 @@
+using Xunit;
+using FluentAssertions;
+using IncomeMeter.Api.Models;
+using IncomeMeter.Api.Services;
+
+namespace IncomeMeter.Api.Tests.Services;
+
+public class AnalyticsServiceTests
+{
+    private static readonly DateTime ShiftStart = new(2026, 10, 19, 18, 0, 0, DateTimeKind.Utc);
+
+    private static Route CreateRoute(string id, decimal income, double hours) => new()
+    {
+        Id = id,
+        UserId = "user-123",
+        WorkType = "Delivery",
+        Status = "completed",
+        ScheduleStart = ShiftStart,
+        ScheduleEnd = ShiftStart.AddHours(hours),
+        TotalIncome = income
+    };
+
+    private static Location CreateLocation(string routeId, int minute, double latitude, double longitude, double timezoneOffset = 0) => new()
+    {
+        RouteId = routeId,
+        UserId = "user-123",
+        Latitude = latitude,
+        Longitude = longitude,
+        Timestamp = ShiftStart.AddMinutes(minute),
+        TimezoneOffset = timezoneOffset
+    };
+
+    [Fact]
+    public void BuildEarningsHeatmap_ShouldCreditTimeToTheCellOfTheEarlierFix()
+    {
+        // Arrange - £20/h route, 30 minutes in one cell then 30 minutes in the next
+        var routes = new List<Route> { CreateRoute("route-1", 20m, 1) };
+        var locations = new List<Location>
+        {
+            CreateLocation("route-1", 0, 51.505, -0.095),
+            CreateLocation("route-1", 30, 51.515, -0.095),
+            CreateLocation("route-1", 60, 51.525, -0.095)
+        };
+
+        // Act
+        var heatmap = AnalyticsService.BuildEarningsHeatmap(routes, locations);
+
+        // Assert
+        heatmap.RouteCount.Should().Be(1);
+        heatmap.Cells.Should().HaveCount(2);
+        heatmap.Cells.Should().OnlyContain(c => c.Hours == 0.5 && c.Income == 10m && c.IncomePerHour == 20m);
+        heatmap.Cells.Select(c => c.Latitude).Should().BeEquivalentTo(new[] { 51.50, 51.51 });
+    }
+
+    [Fact]
+    public void BuildEarningsHeatmap_ShouldAverageIncomePerHourAcrossRoutesByTimeSpent()
+    {
+        // Arrange - an hour at £10/h and half an hour at £40/h in the same cell
+        var routes = new List<Route> { CreateRoute("route-1", 10m, 1), CreateRoute("route-2", 20m, 0.5) };
+        var locations = new List<Location>
+        {
+            CreateLocation("route-1", 0, 51.501, -0.091),
+            CreateLocation("route-1", 15, 51.502, -0.092),
+            CreateLocation("route-1", 30, 51.503, -0.093),
+            CreateLocation("route-1", 45, 51.504, -0.094),
+            CreateLocation("route-1", 60, 51.505, -0.095),
+            CreateLocation("route-2", 0, 51.506, -0.096),
+            CreateLocation("route-2", 15, 51.507, -0.097),
+            CreateLocation("route-2", 30, 51.508, -0.098)
+        };
+
+        // Act
+        var heatmap = AnalyticsService.BuildEarningsHeatmap(routes, locations);
+
+        // Assert
+        heatmap.Cells.Should().ContainSingle();
+        heatmap.Cells[0].Hours.Should().Be(1.5);
+        heatmap.Cells[0].Income.Should().Be(30m);
+        heatmap.Cells[0].IncomePerHour.Should().Be(20m);
+        heatmap.Cells[0].RouteCount.Should().Be(2);
+    }
+
+    [Fact]
+    public void BuildEarningsHeatmap_ShouldFilterByLocalHourAndWrapPastMidnight()
+    {
+        // Arrange - 18:00 UTC is 02:00 at UTC+8, inside a 22:00-04:00 window
+        var routes = new List<Route> { CreateRoute("route-1", 20m, 1) };
+        var locations = new List<Location>
+        {
+            CreateLocation("route-1", 0, 22.30, 114.17, timezoneOffset: 8),
+            CreateLocation("route-1", 10, 22.30, 114.17, timezoneOffset: 8)
+        };
+
+        // Act
+        var inside = AnalyticsService.BuildEarningsHeatmap(routes, locations, startHour: 22, endHour: 4);
+        var outside = AnalyticsService.BuildEarningsHeatmap(routes, locations, startHour: 18, endHour: 19);
+
+        // Assert
+        inside.Cells.Should().ContainSingle();
+        outside.Cells.Should().BeEmpty();
+    }
+
+    [Fact]
+    public void BuildEarningsHeatmap_ShouldCapLongGapsBetweenFixes()
+    {
+        // Arrange - tracking paused for two hours
+        var routes = new List<Route> { CreateRoute("route-1", 30m, 3) };
+        var locations = new List<Location>
+        {
+            CreateLocation("route-1", 0, 51.505, -0.095),
+            CreateLocation("route-1", 120, 51.505, -0.095)
+        };
+
+        // Act
+        var heatmap = AnalyticsService.BuildEarningsHeatmap(routes, locations);
+
+        // Assert
+        heatmap.Cells.Should().ContainSingle();
+        heatmap.Cells[0].Hours.Should().Be(0.25);
+    }
+}
@@ -0,0 +1,135 @@
+using Xunit;
+using FluentAssertions;
+using IncomeMeter.Api.Models;
+using IncomeMeter.Api.Services;
+
+namespace IncomeMeter.Api.Tests.Services;
+
+public class RecurringScheduleServiceTests
+{
+    private static readonly Func<DateTime, DateTime> AsUtc = local => DateTime.SpecifyKind(local, DateTimeKind.Utc);
+
+    private static DateTime Utc(int year, int month, int day, int hour = 0, int minute = 0) =>
+        new(year, month, day, hour, minute, 0, DateTimeKind.Utc);
+
+    private static RecurringSchedule CreateSchedule(Action<RecurringSchedule>? configure = null)
+    {
+        var schedule = new RecurringSchedule
+        {
+            UserId = "user-123",
+            WorkTypeId = "worktype-1",
+            WorkType = "Delivery",
+            Frequency = ScheduleFrequencies.Weekly,
+            DaysOfWeek = new List<int> { 1, 3, 5 },
+            StartTime = "09:00",
+            EndTime = "17:00",
+            StartDate = Utc(2026, 10, 19)
+        };
+        configure?.Invoke(schedule);
+        return schedule;
+    }
+
+    [Fact]
+    public void GenerateOccurrences_Weekly_ShouldUseSelectedDaysOfWeek()
+    {
+        // Arrange - Monday, Wednesday and Friday from Monday 19 October 2026
+        var schedule = CreateSchedule();
+
+        // Act
+        var occurrences = RecurringScheduleService.GenerateOccurrences(schedule, Utc(2026, 10, 19), Utc(2026, 10, 26), AsUtc);
+
+        // Assert
+        occurrences.Select(o => o.StartUtc).Should().Equal(
+            Utc(2026, 10, 19, 9), Utc(2026, 10, 21, 9), Utc(2026, 10, 23, 9));
+        occurrences.Should().OnlyContain(o => o.EndUtc - o.StartUtc == TimeSpan.FromHours(8));
+    }
+
+    [Fact]
+    public void GenerateOccurrences_WithInterval_ShouldSkipWeeks()
+    {
+        // Arrange
+        var schedule = CreateSchedule(s =>
+        {
+            s.Interval = 2;
+            s.DaysOfWeek = new List<int> { 1 };
+        });
+
+        // Act
+        var occurrences = RecurringScheduleService.GenerateOccurrences(schedule, Utc(2026, 10, 19), Utc(2026, 11, 16), AsUtc);
+
+        // Assert
+        occurrences.Select(o => o.LocalDate).Should().Equal(Utc(2026, 10, 19).Date, Utc(2026, 11, 2).Date);
+    }
+
+    [Fact]
+    public void GenerateOccurrences_ShouldSkipExceptionDates_AndStopAtEndDate()
+    {
+        // Arrange
+        var schedule = CreateSchedule(s =>
+        {
+            s.Frequency = ScheduleFrequencies.Daily;
+            s.ExceptionDates = new List<DateTime> { Utc(2026, 10, 20) };
+            s.EndDate = Utc(2026, 10, 22);
+        });
+
+        // Act
+        var occurrences = RecurringScheduleService.GenerateOccurrences(schedule, Utc(2026, 10, 19), Utc(2026, 11, 19), AsUtc);
+
+        // Assert
+        occurrences.Select(o => o.LocalDate.Day).Should().Equal(19, 21, 22);
+    }
+
+    [Fact]
+    public void GenerateOccurrences_ShouldExcludeShiftsStartingBeforeTheWindow()
+    {
+        // Arrange
+        var schedule = CreateSchedule(s => s.Frequency = ScheduleFrequencies.Daily);
+
+        // Act
+        var occurrences = RecurringScheduleService.GenerateOccurrences(schedule, Utc(2026, 10, 21, 12), Utc(2026, 10, 23, 12), AsUtc);
+
+        // Assert
+        occurrences.Select(o => o.StartUtc).Should().Equal(Utc(2026, 10, 22, 9), Utc(2026, 10, 23, 9));
+    }
+
+    [Fact]
+    public void GenerateOccurrences_WithEndBeforeStart_ShouldFinishNextDay()
+    {
+        // Arrange
+        var schedule = CreateSchedule(s =>
+        {
+            s.DaysOfWeek = new List<int> { 5 };
+            s.StartTime = "22:00";
+            s.EndTime = "02:00";
+        });
+
+        // Act
+        var occurrences = RecurringScheduleService.GenerateOccurrences(schedule, Utc(2026, 10, 19), Utc(2026, 10, 26), AsUtc);
+
+        // Assert
+        occurrences.Should().ContainSingle();
+        occurrences[0].StartUtc.Should().Be(Utc(2026, 10, 23, 22));
+        occurrences[0].EndUtc.Should().Be(Utc(2026, 10, 24, 2));
+    }
+
+    [Fact]
+    public void GenerateOccurrences_ShouldKeepLocalTimeAcrossDaylightSavingChange()
+    {
+        // Arrange - UK clocks go back on Sunday 25 October 2026
+        var london = TimeZoneInfo.FindSystemTimeZoneById("Europe/London");
+        var schedule = CreateSchedule(s =>
+        {
+            s.Frequency = ScheduleFrequencies.Daily;
+            s.StartDate = Utc(2026, 10, 24);
+            s.TimeZone = "Europe/London";
+        });
+
+        // Act
+        var occurrences = RecurringScheduleService.GenerateOccurrences(schedule, Utc(2026, 10, 24), Utc(2026, 10, 27),
+            local => TimeZoneInfo.ConvertTimeToUtc(local, london));
+
+        // Assert
+        occurrences.Select(o => o.StartUtc).Should().Equal(
+            Utc(2026, 10, 24, 8), Utc(2026, 10, 25, 9), Utc(2026, 10, 26, 9));
+    }
+}
@@ -0,0 +1,66 @@
+using Xunit;
+using FluentAssertions;
+using IncomeMeter.Api.DTOs;
+using IncomeMeter.Api.Services;
+using MongoDB.Bson;
+
+namespace IncomeMeter.Api.Tests.Services;
+
+public class RoutePageCursorTests
+{
+    private static readonly ObjectId LastId = ObjectId.Parse("507f1f77bcf86cd799439011");
+
+    [Fact]
+    public void RouteCursor_ShouldRoundTripDateSortKeys()
+    {
+        // Arrange
+        var scheduleStart = new DateTime(2026, 10, 19, 9, 30, 0, DateTimeKind.Utc);
+
+        // Act
+        var cursor = RouteService.EncodeRouteCursor(RouteSortOptions.Newest, new BsonDateTime(scheduleStart), LastId);
+        var (sortKey, lastId) = RouteService.DecodeRouteCursor(cursor, RouteSortOptions.Newest);
+
+        // Assert
+        sortKey.ToUniversalTime().Should().Be(scheduleStart);
+        lastId.Should().Be(LastId);
+    }
+
+    [Fact]
+    public void RouteCursor_ShouldKeepDecimalSortKeysExact()
+    {
+        // Arrange - earnings are stored as Decimal128, so the next page must compare against the same type
+        var earnings = new BsonDecimal128(123.45m);
+
+        // Act
+        var cursor = RouteService.EncodeRouteCursor(RouteSortOptions.HighestEarn, earnings, LastId);
+        var (sortKey, _) = RouteService.DecodeRouteCursor(cursor, RouteSortOptions.HighestEarn);
+
+        // Assert
+        sortKey.Should().Be(earnings);
+    }
+
+    [Fact]
+    public void DecodeRouteCursor_ForDifferentSort_ShouldThrow()
+    {
+        // Arrange
+        var cursor = RouteService.EncodeRouteCursor(RouteSortOptions.WorkTypeAZ, "delivery", LastId);
+
+        // Act
+        var act = () => RouteService.DecodeRouteCursor(cursor, RouteSortOptions.Newest);
+
+        // Assert
+        act.Should().Throw<ArgumentException>().WithMessage("*different sort order*");
+    }
+
+    [Theory]
+    [InlineData("not a cursor")]
+    [InlineData("e30")] // "{}"
+    public void DecodeRouteCursor_WithMalformedCursor_ShouldThrow(string cursor)
+    {
+        // Act
+        var act = () => RouteService.DecodeRouteCursor(cursor, RouteSortOptions.Newest);
+
+        // Assert
+        act.Should().Throw<ArgumentException>();
+    }
+}
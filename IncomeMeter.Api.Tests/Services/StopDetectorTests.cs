@@ -0,0 +1,113 @@
+using Xunit;
+using FluentAssertions;
+using IncomeMeter.Api.Models;
+using IncomeMeter.Api.Services;
+
+namespace IncomeMeter.Api.Tests.Services;
+
+public class StopDetectorTests
+{
+    private static readonly DateTime ShiftStart = new(2026, 10, 19, 18, 0, 0, DateTimeKind.Utc);
+
+    // Roughly 0.0009 degrees of latitude is 100 metres
+    private static Location CreateLocation(int minute, double latitude, double longitude = -0.1, double? speed = null, string? address = null) => new()
+    {
+        RouteId = "route-1",
+        UserId = "user-123",
+        Latitude = latitude,
+        Longitude = longitude,
+        Timestamp = ShiftStart.AddMinutes(minute),
+        Speed = speed,
+        Address = address
+    };
+
+    [Fact]
+    public void DetectStops_ShouldFindPointsThatStayWithinTheRadius()
+    {
+        // Arrange - drive, wait six minutes at a restaurant, drive on
+        var locations = new List<Location>
+        {
+            CreateLocation(0, 51.5000, speed: 30),
+            CreateLocation(2, 51.5100, speed: 2, address: "Pizza Place"),
+            CreateLocation(4, 51.5101, speed: 0),
+            CreateLocation(6, 51.5100, speed: 1),
+            CreateLocation(8, 51.5102, speed: 0),
+            CreateLocation(10, 51.5200, speed: 35),
+            CreateLocation(12, 51.5300, speed: 40)
+        };
+
+        // Act
+        var stops = StopDetector.DetectStops(locations);
+
+        // Assert
+        stops.Should().ContainSingle();
+        stops[0].StartTime.Should().Be(ShiftStart.AddMinutes(2));
+        stops[0].EndTime.Should().Be(ShiftStart.AddMinutes(8));
+        stops[0].DurationMinutes.Should().Be(6);
+        stops[0].PointCount.Should().Be(4);
+        stops[0].Address.Should().Be("Pizza Place");
+    }
+
+    [Fact]
+    public void DetectStops_ShouldIgnoreShortPausesAndSlowMovingPoints()
+    {
+        // Arrange - a two minute red light, then crawling through traffic
+        var locations = new List<Location>
+        {
+            CreateLocation(0, 51.5000),
+            CreateLocation(2, 51.5001),
+            CreateLocation(4, 51.5020),
+            CreateLocation(6, 51.5040),
+            CreateLocation(8, 51.5060)
+        };
+
+        // Act
+        var stops = StopDetector.DetectStops(locations);
+
+        // Assert
+        stops.Should().BeEmpty();
+    }
+
+    [Fact]
+    public void DetectStops_ShouldEndAStopWhenAPointReportsAMovingSpeed()
+    {
+        // Arrange - a fix inside the radius that is already pulling away
+        var locations = new List<Location>
+        {
+            CreateLocation(0, 51.5000, speed: 0),
+            CreateLocation(2, 51.5000, speed: 0),
+            CreateLocation(4, 51.5001, speed: 25),
+            CreateLocation(6, 51.5001, speed: 0)
+        };
+
+        // Act
+        var stops = StopDetector.DetectStops(locations);
+
+        // Assert
+        stops.Should().BeEmpty();
+    }
+
+    [Fact]
+    public void Analyze_ShouldSplitTheTrailTimeIntoDrivingAndWaiting()
+    {
+        // Arrange - 20 minutes of trail with a 5 minute wait in the middle
+        var locations = new List<Location>
+        {
+            CreateLocation(20, 51.5400),
+            CreateLocation(0, 51.5000),
+            CreateLocation(5, 51.5100),
+            CreateLocation(8, 51.5100),
+            CreateLocation(10, 51.5101),
+            CreateLocation(15, 51.5250)
+        };
+
+        // Act
+        var result = StopDetector.Analyze("route-1", locations);
+
+        // Assert
+        result.RouteId.Should().Be("route-1");
+        result.Stops.Should().ContainSingle();
+        result.WaitingMinutes.Should().Be(5);
+        result.DrivingMinutes.Should().Be(15);
+    }
+}
@@ -0,0 +1,67 @@
+using IncomeMeter.Api.DTOs;
+using IncomeMeter.Api.Middleware;
+using IncomeMeter.Api.Services;
+using Microsoft.AspNetCore.Authorization;
+using Microsoft.AspNetCore.Mvc;
+using System.Security.Claims;
+using Serilog;
+
+namespace IncomeMeter.Api.Controllers;
+
+[ApiController]
+[Route("api/analytics")]
+[Authorize(AuthenticationSchemes = "Bearer")]
+public class AnalyticsController : ControllerBase
+{
+    private readonly IAnalyticsService _analyticsService;
+
+    public AnalyticsController(IAnalyticsService analyticsService)
+    {
+        _analyticsService = analyticsService;
+    }
+
+    // A year of trails is about as much as the heatmap can aggregate in one request
+    private const int MaxHeatmapRangeDays = 366;
+
+    private string? GetCurrentUserId() => User.FindFirst(ClaimTypes.NameIdentifier)?.Value;
+
+    /// <summary>
+    /// Income per hour by map area, from the location trails of completed routes in the date range
+    /// </summary>
+    [HttpGet("earnings-heatmap")]
+    [RequireScopes("read:dashboard")]
+    public async Task<IActionResult> GetEarningsHeatmap([FromQuery] EarningsHeatmapQueryDto query)
+    {
+        var userId = GetCurrentUserId();
+        if (string.IsNullOrEmpty(userId))
+        {
+            return Unauthorized();
+        }
+
+        if (query.EndDate.Date < query.StartDate.Date)
+        {
+            return BadRequest(new { error = "End date must be on or after the start date" });
+        }
+
+        if ((query.EndDate.Date - query.StartDate.Date).Days + 1 > MaxHeatmapRangeDays)
+        {
+            return BadRequest(new { error = $"Date range cannot be longer than {MaxHeatmapRangeDays} days" });
+        }
+
+        if (query.StartHour is < 0 or > 23 || query.EndHour is < 1 or > 24)
+        {
+            return BadRequest(new { error = "Start hour must be 0-23 and end hour 1-24" });
+        }
+
+        var heatmap = await _analyticsService.GetEarningsHeatmapAsync(userId, query);
+
+        Log.Logger
+            .ForContext("EventType", "EarningsHeatmapCalculated")
+            .ForContext("UserId", userId[..Math.Min(8, userId.Length)] + "***")
+            .ForContext("RouteCount", heatmap.RouteCount)
+            .ForContext("CellCount", heatmap.Cells.Count)
+            .Information("Earnings heatmap calculated");
+
+        return Ok(heatmap);
+    }
+}
@@ -0,0 +1,160 @@
+using IncomeMeter.Api.DTOs;
+using IncomeMeter.Api.Middleware;
+using IncomeMeter.Api.Models;
+using IncomeMeter.Api.Services;
+using Microsoft.AspNetCore.Authorization;
+using Microsoft.AspNetCore.Mvc;
+using Serilog;
+using System.Security.Claims;
+
+namespace IncomeMeter.Api.Controllers;
+
+[ApiController]
+[Route("api/[controller]")]
+[Authorize(AuthenticationSchemes = "Bearer")]
+public class AttachmentsController : ControllerBase
+{
+    private readonly IAttachmentService _attachmentService;
+    private readonly ILogger<AttachmentsController> _logger;
+
+    public AttachmentsController(IAttachmentService attachmentService, ILogger<AttachmentsController> logger)
+    {
+        _attachmentService = attachmentService;
+        _logger = logger;
+    }
+
+    private string? GetCurrentUserId() => User.FindFirst(ClaimTypes.NameIdentifier)?.Value;
+
+    [HttpGet("route/{routeId}")]
+    [RequireScopes("read:routes")]
+    public async Task<IActionResult> GetAttachmentsByRouteId(string routeId)
+    {
+        var userId = GetCurrentUserId();
+        if (string.IsNullOrEmpty(userId))
+        {
+            return Unauthorized();
+        }
+
+        var attachments = await _attachmentService.GetAttachmentsByRouteIdAsync(routeId, userId);
+        return Ok(attachments);
+    }
+
+    /// <summary>
+    /// Full-size image
+    /// </summary>
+    [HttpGet("{id}/content")]
+    [RequireScopes("read:routes")]
+    public async Task<IActionResult> GetAttachmentContent(string id)
+    {
+        var userId = GetCurrentUserId();
+        if (string.IsNullOrEmpty(userId))
+        {
+            return Unauthorized();
+        }
+
+        var attachment = await _attachmentService.GetAttachmentByIdAsync(id, userId);
+        if (attachment == null)
+        {
+            return NotFound();
+        }
+
+        return File(attachment.Data, attachment.ContentType, attachment.FileName);
+    }
+
+    /// <summary>
+    /// Thumbnail image, falling back to the full-size image for uploads without one
+    /// </summary>
+    [HttpGet("{id}/thumbnail")]
+    [RequireScopes("read:routes")]
+    public async Task<IActionResult> GetAttachmentThumbnail(string id)
+    {
+        var userId = GetCurrentUserId();
+        if (string.IsNullOrEmpty(userId))
+        {
+            return Unauthorized();
+        }
+
+        var attachment = await _attachmentService.GetAttachmentByIdAsync(id, userId);
+        if (attachment == null)
+        {
+            return NotFound();
+        }
+
+        // Thumbnails uploaded before their type was stored were all JPEG
+        return attachment.Thumbnail != null
+            ? File(attachment.Thumbnail, attachment.ThumbnailContentType ?? "image/jpeg")
+            : File(attachment.Data, attachment.ContentType);
+    }
+
+    [HttpPost]
+    [RequireScopes("write:routes")]
+    [RequestSizeLimit(AttachmentLimits.MaxFileSizeBytes + AttachmentLimits.MaxThumbnailSizeBytes + 64 * 1024)]
+    public async Task<IActionResult> UploadAttachment([FromForm] UploadAttachmentDto dto)
+    {
+        var userId = GetCurrentUserId();
+        var correlationId = HttpContext.Items["CorrelationId"]?.ToString();
+
+        if (string.IsNullOrEmpty(userId))
+        {
+            return Unauthorized();
+        }
+
+        try
+        {
+            var attachment = await _attachmentService.CreateAttachmentAsync(dto, userId);
+            if (attachment == null)
+            {
+                return StatusCode(403, new { error = "You do not have access to this route." });
+            }
+
+            Log.Logger
+                .ForContext("EventType", "AttachmentUploaded")
+                .ForContext("CorrelationId", correlationId)
+                .ForContext("UserId", userId[..Math.Min(8, userId.Length)] + "***")
+                .ForContext("AttachmentId", attachment.Id[..Math.Min(8, attachment.Id.Length)] + "***")
+                .ForContext("Size", attachment.Size)
+                .Information("Attachment uploaded successfully");
+
+            return CreatedAtAction(nameof(GetAttachmentContent), new { id = attachment.Id }, attachment);
+        }
+        catch (InvalidOperationException ex)
+        {
+            Log.Logger
+                .ForContext("EventType", "AttachmentValidationError")
+                .ForContext("CorrelationId", correlationId)
+                .ForContext("UserId", userId[..Math.Min(8, userId.Length)] + "***")
+                .ForContext("ValidationError", ex.Message)
+                .Warning("Attachment upload failed validation: {ValidationError}", ex.Message);
+
+            return BadRequest(new { error = ex.Message });
+        }
+    }
+
+    [HttpDelete("{id}")]
+    [RequireScopes("delete:routes")]
+    public async Task<IActionResult> DeleteAttachment(string id)
+    {
+        var userId = GetCurrentUserId();
+        var correlationId = HttpContext.Items["CorrelationId"]?.ToString();
+
+        if (string.IsNullOrEmpty(userId))
+        {
+            return Unauthorized();
+        }
+
+        var success = await _attachmentService.DeleteAttachmentAsync(id, userId);
+        if (!success)
+        {
+            return NotFound();
+        }
+
+        Log.Logger
+            .ForContext("EventType", "AttachmentDeleted")
+            .ForContext("CorrelationId", correlationId)
+            .ForContext("UserId", userId[..Math.Min(8, userId.Length)] + "***")
+            .ForContext("AttachmentId", id[..Math.Min(8, id.Length)] + "***")
+            .Information("Attachment deleted successfully");
+
+        return NoContent();
+    }
+}
@@ -24,6 +24,13 @@ namespace IncomeMeter.Api.Controllers
         private readonly ILogger<AuthController> _logger;
         private readonly AppSettings _appSettings;
 
+        public static readonly TimeSpan AccessTokenLifetime = TimeSpan.FromHours(1);
+
+        // The web session's refresh token travels in an HttpOnly cookie that is only sent to the refresh
+        // endpoints, so it never appears in a URL or where page scripts can read it
+        private const string RefreshTokenCookieName = "IncomeMeter.Refresh";
+        private const string RefreshTokenCookiePath = "/api/auth/refresh";
+
         public AuthController(IConfiguration configuration, IUserService userService, ILogger<AuthController> logger, IOptions<AppSettings> appSettings)
         {
             _configuration = configuration;
@@ -130,20 +137,10 @@ namespace IncomeMeter.Api.Controllers
                 .ForContext("GoogleId", sanitizedGoogleId)
                 .Information("Existing user successfully authenticated via Google OAuth");
 
-            // Create custom claims including user ID from database
-            var claims = new List<Claim>
-            {
-                new(ClaimTypes.NameIdentifier, user.Id!),
-                new(ClaimTypes.Name, user.DisplayName),
-                new(ClaimTypes.Email, user.Email),
-                new("google_id", user.GoogleId)
-            };
-
-            var identity = new ClaimsIdentity(claims);
-            var principal = new ClaimsPrincipal(identity);
-
-            // Generate JWT token for API access
-            var token = GenerateJwtToken(principal);
+            // Generate JWT token for API access, plus a refresh token cookie so the web app can renew it silently
+            var token = GenerateJwtToken(CreatePrincipal(user));
+            var refreshToken = await _userService.IssueRefreshTokenAsync(user.Id!, HttpContext.Connection.RemoteIpAddress?.ToString());
+            SetRefreshTokenCookie(refreshToken);
 
             var returnUrl = result.Properties?.Items.ContainsKey("returnUrl") == true
                 ? result.Properties.Items["returnUrl"]
@@ -155,7 +152,7 @@ namespace IncomeMeter.Api.Controllers
                 .ForContext("CorrelationId", correlationId)
                 .ForContext("Provider", "Google")
                 .ForContext("UserId", user.Id?[..Math.Min(8, user.Id.Length)] + "***")
-                .ForContext("TokenExpiry", DateTime.UtcNow.AddHours(1).ToString("O"))
+                .ForContext("TokenExpiry", DateTime.UtcNow.Add(AccessTokenLifetime).ToString("O"))
                 .Information("User authentication completed successfully, JWT token generated");
                 
             // Redirect to frontend with token
@@ -282,24 +279,16 @@ namespace IncomeMeter.Api.Controllers
                     .ForContext("GoogleId", sanitizedGoogleId)
                     .Information("New user registered successfully");
 
-                // Create claims and generate JWT token
-                var claims = new List<Claim>
-                {
-                    new(ClaimTypes.NameIdentifier, user.Id!),
-                    new(ClaimTypes.Name, user.DisplayName),
-                    new(ClaimTypes.Email, user.Email),
-                    new("google_id", user.GoogleId)
-                };
-
-                var identity = new ClaimsIdentity(claims);
-                var principal = new ClaimsPrincipal(identity);
-                var token = GenerateJwtToken(principal);
+                var token = GenerateJwtToken(CreatePrincipal(user));
+                var refreshToken = await _userService.IssueRefreshTokenAsync(user.Id!, HttpContext.Connection.RemoteIpAddress?.ToString());
+                SetRefreshTokenCookie(refreshToken);
 
                 return Ok(new DTOs.AuthResponse
                 {
                     Success = true,
                     Message = "Registration successful",
                     Token = token,
+                    ExpiresAt = DateTime.UtcNow.Add(AccessTokenLifetime),
                     User = new
                     {
                         Id = user.Id,
@@ -329,6 +318,95 @@ namespace IncomeMeter.Api.Controllers
             }
         }
 
+        /// <summary>
+        /// Exchange the web session's refresh token cookie for a new access token. The refresh token is rotated,
+        /// so the one presented stops working once this succeeds
+        /// </summary>
+        [HttpPost("refresh")]
+        [AllowAnonymous]
+        public async Task<IActionResult> Refresh()
+        {
+            var correlationId = HttpContext.Items["CorrelationId"]?.ToString();
+            var remoteIp = HttpContext.Connection.RemoteIpAddress?.ToString();
+
+            var presentedToken = Request.Cookies[RefreshTokenCookieName];
+            var rotation = string.IsNullOrEmpty(presentedToken)
+                ? null
+                : await _userService.RotateRefreshTokenAsync(presentedToken, remoteIp);
+            if (rotation == null)
+            {
+                DeleteRefreshTokenCookie();
+                Log.Logger
+                    .ForContext("EventType", "SessionRefreshRejected")
+                    .ForContext("CorrelationId", correlationId)
+                    .ForContext("RemoteIP", remoteIp)
+                    .Warning("Session refresh rejected: unknown, expired or already used refresh token");
+
+                return Unauthorized(new DTOs.AuthResponse
+                {
+                    Success = false,
+                    Message = "Session expired"
+                });
+            }
+
+            var user = rotation.User;
+            Log.Logger
+                .ForContext("EventType", "SessionRefreshed")
+                .ForContext("CorrelationId", correlationId)
+                .ForContext("UserId", user.Id?[..Math.Min(8, user.Id.Length)] + "***")
+                .Information("Access token renewed from refresh token");
+
+            SetRefreshTokenCookie(rotation.RefreshToken);
+            return Ok(new DTOs.AuthResponse
+            {
+                Success = true,
+                Message = "Session renewed",
+                Token = GenerateJwtToken(CreatePrincipal(user)),
+                ExpiresAt = DateTime.UtcNow.Add(AccessTokenLifetime)
+            });
+        }
+
+        /// <summary>
+        /// End the web session: revoke the refresh token cookie and remove it. Called on sign-out next to logout,
+        /// which the cookie isn't sent to
+        /// </summary>
+        [HttpDelete("refresh")]
+        [AllowAnonymous]
+        public async Task<IActionResult> RevokeRefreshToken()
+        {
+            var presentedToken = Request.Cookies[RefreshTokenCookieName];
+            if (!string.IsNullOrEmpty(presentedToken))
+            {
+                await _userService.RevokeRefreshTokenAsync(presentedToken);
+            }
+
+            DeleteRefreshTokenCookie();
+            return NoContent();
+        }
+
+        private void SetRefreshTokenCookie(SessionRefreshToken refreshToken)
+        {
+            Response.Cookies.Append(RefreshTokenCookieName, refreshToken.Token, new CookieOptions
+            {
+                HttpOnly = true,
+                Secure = true,
+                SameSite = SameSiteMode.Strict,
+                Path = RefreshTokenCookiePath,
+                Expires = refreshToken.ExpiresAt,
+                IsEssential = true
+            });
+        }
+
+        private void DeleteRefreshTokenCookie()
+        {
+            Response.Cookies.Delete(RefreshTokenCookieName, new CookieOptions
+            {
+                Secure = true,
+                SameSite = SameSiteMode.Strict,
+                Path = RefreshTokenCookiePath
+            });
+        }
+
         [HttpGet("debug/user-info")]
         [Authorize(AuthenticationSchemes = "Bearer")]
         public IActionResult GetUserInfo()
@@ -348,6 +426,20 @@ namespace IncomeMeter.Api.Controllers
             });
         }
 
+        private static ClaimsPrincipal CreatePrincipal(User user)
+        {
+            // Custom claims including user ID from database
+            var claims = new List<Claim>
+            {
+                new(ClaimTypes.NameIdentifier, user.Id!),
+                new(ClaimTypes.Name, user.DisplayName),
+                new(ClaimTypes.Email, user.Email),
+                new("google_id", user.GoogleId)
+            };
+
+            return new ClaimsPrincipal(new ClaimsIdentity(claims));
+        }
+
         private string GenerateJwtToken(ClaimsPrincipal user)
         {
             // Use same configuration key as JwtApiTokenService
@@ -363,7 +455,7 @@ namespace IncomeMeter.Api.Controllers
             var tokenDescriptor = new SecurityTokenDescriptor
             {
                 Subject = new ClaimsIdentity(user.Claims),
-                Expires = DateTime.UtcNow.AddHours(1),
+                Expires = DateTime.UtcNow.Add(AccessTokenLifetime),
                 Issuer = issuer,
                 Audience = audience,
                 SigningCredentials = new SigningCredentials(new SymmetricSecurityKey(key),
@@ -16,18 +16,26 @@ public class DashboardController : ControllerBase
 {
     private readonly IRouteService _routeService;
     private readonly ITransactionService _transactionService;
+    private readonly IExpenseService _expenseService;
+    private readonly ILocationService _locationService;
     private readonly ILogger<DashboardController> _logger;
 
-    public DashboardController(IRouteService routeService, ITransactionService transactionService, ILogger<DashboardController> logger)
+    public DashboardController(IRouteService routeService, ITransactionService transactionService, IExpenseService expenseService, ILocationService locationService, ILogger<DashboardController> logger)
     {
         _routeService = routeService;
         _transactionService = transactionService;
+        _expenseService = expenseService;
+        _locationService = locationService;
         _logger = logger;
     }
 
+    // Three years of monthly bars is the longest range the chart stays readable for
+    private const int MaxRangeDays = 3 * 366;
+
     private string? GetCurrentUserId() => User.FindFirst(ClaimTypes.NameIdentifier)?.Value;
 
     [HttpGet("stats")]
+    [ProducesResponseType(typeof(DashboardStatsDto), 200)]
     [RequireScopes("read:dashboard")]
     public async Task<IActionResult> GetDashboardStats()
     {
@@ -47,8 +55,9 @@ public class DashboardController : ControllerBase
 
         try
         {
-            // Get all user routes
+            // Get all user routes and expenses
             var allRoutes = await _routeService.GetRoutesByUserIdAsync(userId);
+            var allExpenses = await _expenseService.GetExpensesByUserIdAsync(userId) ?? new List<Expense>();
             
             var now = DateTime.UtcNow;
             var startOfWeek = now.AddDays(-7);
@@ -67,6 +76,9 @@ public class DashboardController : ControllerBase
             
             var last7DaysMileage = last7DaysRoutes.Where(r => r.Status == "completed").Sum(r => r.Distance);
             var currentMonthMileage = currentMonthRoutes.Where(r => r.Status == "completed").Sum(r => r.Distance);
+
+            var currentMonthExpenseList = allExpenses.Where(e => e.Date >= startOfMonth).ToList();
+            var currentMonthExpenses = currentMonthExpenseList.Sum(e => e.Amount);
             
             // Calculate income, scheduled time, and mileage by work type from current month's routes
             var incomeBySource = currentMonthRoutes
@@ -77,6 +89,8 @@ public class DashboardController : ControllerBase
                     g => new WorkTypeStatsDto
                     {
                         Income = g.Sum(r => r.TotalIncome),
+                        Expenses = SumRouteExpenses(g, currentMonthExpenseList),
+                        NetIncome = g.Sum(r => r.TotalIncome) - SumRouteExpenses(g, currentMonthExpenseList),
                         Routes = g.Count(),
                         TotalWorkingHours = g.Sum(r => (r.ScheduleEnd - r.ScheduleStart).TotalHours),
                         TotalMileage = g.Sum(r => r.Distance),
@@ -88,6 +102,7 @@ public class DashboardController : ControllerBase
                             : 0
                     }
                 );
+            await AddTrailTimesAsync(incomeBySource, currentMonthRoutes.Where(r => r.Status == "completed"), userId);
 
             // Generate daily income data for the last 7 days
             var dailyIncomeData = new List<DailyIncomeDto>();
@@ -113,7 +128,8 @@ public class DashboardController : ControllerBase
                 Last7DaysIncome = last7DaysIncome,
                 Previous7DaysIncome = previous7DaysIncome,
                 CurrentMonthIncome = currentMonthIncome,
-                NetIncome = currentMonthIncome, // For now, same as gross income
+                CurrentMonthExpenses = currentMonthExpenses,
+                NetIncome = currentMonthIncome - currentMonthExpenses,
                 Last7DaysMileage = last7DaysMileage,
                 CurrentMonthMileage = currentMonthMileage,
                 IncomeBySource = incomeBySource,
@@ -126,6 +142,7 @@ public class DashboardController : ControllerBase
                 .ForContext("UserId", userId[..Math.Min(8, userId.Length)] + "***")
                 .ForContext("Last7DaysIncome", last7DaysIncome)
                 .ForContext("CurrentMonthIncome", currentMonthIncome)
+                .ForContext("CurrentMonthExpenses", currentMonthExpenses)
                 .ForContext("IncomeSourcesCount", incomeBySource.Count)
                 .ForContext("TotalRoutesAnalyzed", allRoutes.Count())
                 .ForContext("CompletedRoutesCount", completedRoutes.Count)
@@ -146,6 +163,7 @@ public class DashboardController : ControllerBase
     }
 
     [HttpGet("todays-routes")]
+    [ProducesResponseType(typeof(List<IncomeMeter.Api.Models.Route>), 200)]
     [RequireScopes("read:dashboard")]
     public async Task<IActionResult> GetTodaysRoutes()
     {
@@ -224,17 +242,19 @@ public class DashboardController : ControllerBase
             var fiscalStartDate = request.FiscalStartDate ?? "04-06"; // UK default
             var baseDate = DateTime.UtcNow;
             
-            // Get all user routes
+            // Get all user routes and expenses
             var allRoutes = await _routeService.GetRoutesByUserIdAsync(userId);
             var completedRoutes = allRoutes.Where(r => r.Status == "completed").ToList();
+            var expenses = await _expenseService.GetExpensesByUserIdAsync(userId) ?? new List<Expense>();
 
             PeriodIncomeResponseDto response = request.Period.ToLower() switch
             {
-                "weekly" => await GenerateWeeklyStatsAsync(completedRoutes, request.Offset, fiscalStartDate, baseDate),
-                "monthly" => await GenerateMonthlyStatsAsync(completedRoutes, request.Offset, fiscalStartDate, baseDate),
-                "annual" => await GenerateAnnualStatsAsync(completedRoutes, request.Offset, fiscalStartDate, baseDate),
+                "weekly" => await GenerateWeeklyStatsAsync(completedRoutes, expenses, request.Offset, fiscalStartDate, baseDate),
+                "monthly" => await GenerateMonthlyStatsAsync(completedRoutes, expenses, request.Offset, fiscalStartDate, baseDate),
+                "annual" => await GenerateAnnualStatsAsync(completedRoutes, expenses, request.Offset, fiscalStartDate, baseDate),
                 _ => throw new ArgumentException($"Unsupported period type: {request.Period}")
             };
+            await AddTrailTimesAsync(response.IncomeBySource, completedRoutes.Where(r => r.ScheduleStart >= response.StartDate && r.ScheduleStart <= response.EndDate), userId);
 
             Log.Logger
                 .ForContext("EventType", "PeriodStatsCalculated")
@@ -242,6 +262,7 @@ public class DashboardController : ControllerBase
                 .ForContext("UserId", userId[..Math.Min(8, userId.Length)] + "***")
                 .ForContext("Period", request.Period)
                 .ForContext("TotalIncome", response.TotalIncome)
+                .ForContext("TotalExpenses", response.TotalExpenses)
                 .ForContext("CompletedRoutes", response.CompletedRoutes)
                 .Information("Period statistics calculated successfully");
 
@@ -260,8 +281,73 @@ public class DashboardController : ControllerBase
         }
     }
 
+    [HttpPost("range-stats")]
+    [RequireScopes("read:dashboard")]
+    public async Task<IActionResult> GetRangeStats([FromBody] RangeIncomeRequestDto request)
+    {
+        var userId = GetCurrentUserId();
+        var correlationId = HttpContext.Items["CorrelationId"]?.ToString();
+        
+        if (string.IsNullOrEmpty(userId))
+        {
+            return Unauthorized();
+        }
+
+        var rangeStart = request.StartDate.Date;
+        var rangeEnd = request.EndDate.Date.AddDays(1).AddTicks(-1);
+
+        if (rangeEnd < rangeStart)
+        {
+            return BadRequest(new { error = "End date must be on or after the start date" });
+        }
+
+        if ((rangeEnd.Date - rangeStart).Days + 1 > MaxRangeDays)
+        {
+            return BadRequest(new { error = $"Date range cannot be longer than {MaxRangeDays} days" });
+        }
+
+        Log.Logger
+            .ForContext("EventType", "RangeStatsRequested")
+            .ForContext("CorrelationId", correlationId)
+            .ForContext("UserId", userId[..Math.Min(8, userId.Length)] + "***")
+            .ForContext("StartDate", rangeStart.ToString("yyyy-MM-dd"))
+            .ForContext("EndDate", rangeEnd.ToString("yyyy-MM-dd"))
+            .Information("User requested custom range statistics");
+
+        try
+        {
+            var allRoutes = await _routeService.GetRoutesByUserIdAsync(userId);
+            var completedRoutes = allRoutes.Where(r => r.Status == "completed").ToList();
+            var expenses = await _expenseService.GetExpensesByUserIdAsync(userId) ?? new List<Expense>();
+
+            var response = GenerateRangeStats(completedRoutes, expenses, rangeStart, rangeEnd);
+            await AddTrailTimesAsync(response.IncomeBySource, completedRoutes.Where(r => r.ScheduleStart >= rangeStart && r.ScheduleStart <= rangeEnd), userId);
+
+            Log.Logger
+                .ForContext("EventType", "RangeStatsCalculated")
+                .ForContext("CorrelationId", correlationId)
+                .ForContext("UserId", userId[..Math.Min(8, userId.Length)] + "***")
+                .ForContext("Granularity", response.Granularity)
+                .ForContext("TotalIncome", response.TotalIncome)
+                .ForContext("CompletedRoutes", response.CompletedRoutes)
+                .Information("Custom range statistics calculated successfully");
+
+            return Ok(response);
+        }
+        catch (Exception ex)
+        {
+            Log.Logger
+                .ForContext("EventType", "RangeStatsError")
+                .ForContext("CorrelationId", correlationId)
+                .ForContext("UserId", userId[..Math.Min(8, userId.Length)] + "***")
+                .Error(ex, "Failed to calculate custom range statistics");
+                
+            return StatusCode(500, new { error = "Failed to fetch range stats", details = ex.Message });
+        }
+    }
+
     private async Task<WeeklyIncomeResponseDto> GenerateWeeklyStatsAsync(
-        List<IncomeMeter.Api.Models.Route> routes, int offset, string fiscalStartDate, DateTime baseDate)
+        List<IncomeMeter.Api.Models.Route> routes, List<Expense> expenses, int offset, string fiscalStartDate, DateTime baseDate)
     {
         // Calculate target date with offset
         var targetDate = baseDate.AddDays(offset * 7);
@@ -292,6 +378,7 @@ public class DashboardController : ControllerBase
         // Filter routes for this week
         var weekRoutes = routes.Where(r => 
             r.ScheduleStart >= weekStart && r.ScheduleStart <= weekEnd).ToList();
+        var weekExpenses = FilterExpenses(expenses, weekStart, weekEnd);
         
         // Generate daily chart data (Monday to Sunday)
         var chartData = new List<PeriodChartDataDto>();
@@ -303,12 +390,16 @@ public class DashboardController : ControllerBase
                 r.ScheduleStart >= day && r.ScheduleStart <= dayEnd).ToList();
             
             var dayName = day.ToString("ddd"); // Mon, Tue, Wed, etc.
+            var dayIncome = dayRoutes.Sum(r => r.TotalIncome);
+            var dayExpenses = FilterExpenses(weekExpenses, day, dayEnd).Sum(e => e.Amount);
             
             chartData.Add(new PeriodChartDataDto
             {
                 Label = dayName,
                 Date = day,
-                Income = dayRoutes.Sum(r => r.TotalIncome),
+                Income = dayIncome,
+                Expenses = dayExpenses,
+                NetIncome = dayIncome - dayExpenses,
                 Routes = dayRoutes.Count,
                 Distance = dayRoutes.Sum(r => r.Distance)
             });
@@ -316,7 +407,8 @@ public class DashboardController : ControllerBase
         
         // Calculate totals
         var totalIncome = weekRoutes.Sum(r => r.TotalIncome);
-        var incomeBySource = CalculateWorkTypeStats(weekRoutes);
+        var totalExpenses = weekExpenses.Sum(e => e.Amount);
+        var incomeBySource = CalculateWorkTypeStats(weekRoutes, weekExpenses);
         
         return new WeeklyIncomeResponseDto
         {
@@ -324,9 +416,12 @@ public class DashboardController : ControllerBase
             StartDate = weekStart,
             EndDate = weekEnd,
             TotalIncome = totalIncome,
+            TotalExpenses = totalExpenses,
+            NetIncome = totalIncome - totalExpenses,
             CompletedRoutes = weekRoutes.Count,
             TotalDistance = weekRoutes.Sum(r => r.Distance),
             IncomeBySource = incomeBySource,
+            ExpensesByCategory = CalculateExpensesByCategory(weekExpenses),
             ChartData = chartData,
             WeekNumber = weekNumber,
             FiscalYear = fiscalYear,
@@ -342,7 +437,7 @@ public class DashboardController : ControllerBase
     }
 
     private async Task<MonthlyIncomeResponseDto> GenerateMonthlyStatsAsync(
-        List<IncomeMeter.Api.Models.Route> routes, int offset, string fiscalStartDate, DateTime baseDate)
+        List<IncomeMeter.Api.Models.Route> routes, List<Expense> expenses, int offset, string fiscalStartDate, DateTime baseDate)
     {
         var targetDate = baseDate.AddMonths(offset);
         var monthStart = new DateTime(targetDate.Year, targetDate.Month, 1);
@@ -351,6 +446,7 @@ public class DashboardController : ControllerBase
         // Filter routes for this month
         var monthRoutes = routes.Where(r => 
             r.ScheduleStart >= monthStart && r.ScheduleStart <= monthEnd).ToList();
+        var monthExpenses = FilterExpenses(expenses, monthStart, monthEnd);
         
         // Parse fiscal start date for week calculations
         var fiscalParts = fiscalStartDate.Split('-');
@@ -379,6 +475,7 @@ public class DashboardController : ControllerBase
                     r.ScheduleStart >= weekStart && r.ScheduleStart <= weekEnd).ToList();
                 
                 var weekIncome = weekRoutes.Sum(r => r.TotalIncome);
+                var weekExpenses = FilterExpenses(monthExpenses, weekStart, weekEnd).Sum(e => e.Amount);
                 var isPartialWeek = weekStart < monthStart || weekEnd > monthEnd;
                 
                 chartData.Add(new PeriodChartDataDto
@@ -386,6 +483,8 @@ public class DashboardController : ControllerBase
                     Label = $"Week {weekNumber}",
                     Date = weekStart,
                     Income = weekIncome,
+                    Expenses = weekExpenses,
+                    NetIncome = weekIncome - weekExpenses,
                     Routes = weekRoutes.Count,
                     Distance = weekRoutes.Sum(r => r.Distance)
                 });
@@ -405,7 +504,8 @@ public class DashboardController : ControllerBase
         }
         
         var totalIncome = monthRoutes.Sum(r => r.TotalIncome);
-        var incomeBySource = CalculateWorkTypeStats(monthRoutes);
+        var totalExpenses = monthExpenses.Sum(e => e.Amount);
+        var incomeBySource = CalculateWorkTypeStats(monthRoutes, monthExpenses);
         
         return new MonthlyIncomeResponseDto
         {
@@ -413,9 +513,12 @@ public class DashboardController : ControllerBase
             StartDate = monthStart,
             EndDate = monthEnd,
             TotalIncome = totalIncome,
+            TotalExpenses = totalExpenses,
+            NetIncome = totalIncome - totalExpenses,
             CompletedRoutes = monthRoutes.Count,
             TotalDistance = monthRoutes.Sum(r => r.Distance),
             IncomeBySource = incomeBySource,
+            ExpensesByCategory = CalculateExpensesByCategory(monthExpenses),
             ChartData = chartData,
             Month = targetDate.Month,
             Year = targetDate.Year,
@@ -432,7 +535,7 @@ public class DashboardController : ControllerBase
     }
 
     private async Task<AnnualIncomeResponseDto> GenerateAnnualStatsAsync(
-        List<IncomeMeter.Api.Models.Route> routes, int offset, string fiscalStartDate, DateTime baseDate)
+        List<IncomeMeter.Api.Models.Route> routes, List<Expense> expenses, int offset, string fiscalStartDate, DateTime baseDate)
     {
         // Parse fiscal start date
         var fiscalParts = fiscalStartDate.Split('-');
@@ -452,6 +555,7 @@ public class DashboardController : ControllerBase
         // Filter routes for this fiscal year
         var yearRoutes = routes.Where(r => 
             r.ScheduleStart >= fiscalYearStart && r.ScheduleStart <= fiscalYearEnd).ToList();
+        var yearExpenses = FilterExpenses(expenses, fiscalYearStart, fiscalYearEnd);
         
         // Generate monthly chart data for the fiscal year
         var chartData = new List<PeriodChartDataDto>();
@@ -466,6 +570,7 @@ public class DashboardController : ControllerBase
                 r.ScheduleStart >= monthStart && r.ScheduleStart <= monthEnd).ToList();
             
             var monthIncome = monthRoutes.Sum(r => r.TotalIncome);
+            var monthExpenses = FilterExpenses(yearExpenses, monthStart, monthEnd).Sum(e => e.Amount);
             var monthName = monthStart.ToString("MMM");
             
             chartData.Add(new PeriodChartDataDto
@@ -473,6 +578,8 @@ public class DashboardController : ControllerBase
                 Label = monthName,
                 Date = monthStart,
                 Income = monthIncome,
+                Expenses = monthExpenses,
+                NetIncome = monthIncome - monthExpenses,
                 Routes = monthRoutes.Count,
                 Distance = monthRoutes.Sum(r => r.Distance)
             });
@@ -488,7 +595,8 @@ public class DashboardController : ControllerBase
         }
         
         var totalIncome = yearRoutes.Sum(r => r.TotalIncome);
-        var incomeBySource = CalculateWorkTypeStats(yearRoutes);
+        var totalExpenses = yearExpenses.Sum(e => e.Amount);
+        var incomeBySource = CalculateWorkTypeStats(yearRoutes, yearExpenses);
         
         return new AnnualIncomeResponseDto
         {
@@ -496,9 +604,12 @@ public class DashboardController : ControllerBase
             StartDate = fiscalYearStart,
             EndDate = fiscalYearEnd,
             TotalIncome = totalIncome,
+            TotalExpenses = totalExpenses,
+            NetIncome = totalIncome - totalExpenses,
             CompletedRoutes = yearRoutes.Count,
             TotalDistance = yearRoutes.Sum(r => r.Distance),
             IncomeBySource = incomeBySource,
+            ExpensesByCategory = CalculateExpensesByCategory(yearExpenses),
             ChartData = chartData,
             FiscalYear = targetFiscalYear,
             MonthsInFiscalYear = monthsInFiscalYear,
@@ -513,13 +624,122 @@ public class DashboardController : ControllerBase
         };
     }
 
-    private static Dictionary<string, WorkTypeStatsDto> CalculateWorkTypeStats(List<IncomeMeter.Api.Models.Route> routes)
+    private static CustomRangeIncomeResponseDto GenerateRangeStats(
+        List<IncomeMeter.Api.Models.Route> routes, List<Expense> expenses, DateTime rangeStart, DateTime rangeEnd)
+    {
+        var rangeRoutes = routes.Where(r => 
+            r.ScheduleStart >= rangeStart && r.ScheduleStart <= rangeEnd).ToList();
+        var rangeExpenses = FilterExpenses(expenses, rangeStart, rangeEnd);
+        
+        // Daily bars for up to a month, weekly bars up to six months, monthly bars beyond that
+        var days = (rangeEnd.Date - rangeStart).Days + 1;
+        var granularity = days <= 31 ? "daily" : days <= 183 ? "weekly" : "monthly";
+        
+        var chartData = new List<PeriodChartDataDto>();
+        var bucketStart = rangeStart;
+        
+        while (bucketStart <= rangeEnd)
+        {
+            // Weekly buckets count from the range start; monthly buckets follow calendar months
+            var nextBucketStart = granularity switch
+            {
+                "daily" => bucketStart.AddDays(1),
+                "weekly" => bucketStart.AddDays(7),
+                _ => new DateTime(bucketStart.Year, bucketStart.Month, 1).AddMonths(1)
+            };
+            var bucketEnd = nextBucketStart.AddTicks(-1) < rangeEnd ? nextBucketStart.AddTicks(-1) : rangeEnd;
+            
+            var bucketRoutes = rangeRoutes.Where(r => 
+                r.ScheduleStart >= bucketStart && r.ScheduleStart <= bucketEnd).ToList();
+            var bucketIncome = bucketRoutes.Sum(r => r.TotalIncome);
+            var bucketExpenses = FilterExpenses(rangeExpenses, bucketStart, bucketEnd).Sum(e => e.Amount);
+            
+            chartData.Add(new PeriodChartDataDto
+            {
+                Label = granularity == "monthly" ? bucketStart.ToString("MMM yyyy") : bucketStart.ToString("dd MMM"),
+                Date = bucketStart,
+                Income = bucketIncome,
+                Expenses = bucketExpenses,
+                NetIncome = bucketIncome - bucketExpenses,
+                Routes = bucketRoutes.Count,
+                Distance = bucketRoutes.Sum(r => r.Distance)
+            });
+            
+            bucketStart = nextBucketStart;
+        }
+        
+        var totalIncome = rangeRoutes.Sum(r => r.TotalIncome);
+        var totalExpenses = rangeExpenses.Sum(e => e.Amount);
+        
+        return new CustomRangeIncomeResponseDto
+        {
+            Period = "custom",
+            Granularity = granularity,
+            StartDate = rangeStart,
+            EndDate = rangeEnd,
+            TotalIncome = totalIncome,
+            TotalExpenses = totalExpenses,
+            NetIncome = totalIncome - totalExpenses,
+            CompletedRoutes = rangeRoutes.Count,
+            TotalDistance = rangeRoutes.Sum(r => r.Distance),
+            IncomeBySource = CalculateWorkTypeStats(rangeRoutes, rangeExpenses),
+            ExpensesByCategory = CalculateExpensesByCategory(rangeExpenses),
+            ChartData = chartData,
+            Navigation = new PeriodNavigationDto
+            {
+                CurrentPeriodDisplay = $"{rangeStart:dd MMM yyyy} - {rangeEnd:dd MMM yyyy}",
+                PreviousPeriodDisplay = string.Empty,
+                NextPeriodDisplay = string.Empty,
+                CanGoPrevious = false,
+                CanGoNext = false
+            }
+        };
+    }
+
+    private static List<Expense> FilterExpenses(IEnumerable<Expense> expenses, DateTime start, DateTime end) =>
+        expenses.Where(e => e.Date >= start && e.Date <= end).ToList();
+
+    // Expenses linked to one of the given routes; unlinked expenses only count towards period totals
+    private static decimal SumRouteExpenses(IEnumerable<IncomeMeter.Api.Models.Route> routes, IEnumerable<Expense> expenses)
+    {
+        var routeIds = routes.Where(r => r.Id != null).Select(r => r.Id!).ToHashSet();
+        return expenses.Where(e => e.RouteId != null && routeIds.Contains(e.RouteId)).Sum(e => e.Amount);
+    }
+
+    private static Dictionary<string, decimal> CalculateExpensesByCategory(List<Expense> expenses)
+    {
+        return expenses.GroupBy(e => e.Category)
+            .ToDictionary(g => g.Key, g => g.Sum(e => e.Amount));
+    }
+
+    // Driving and waiting time come from the routes' location trails, so only routes that recorded one count
+    private async Task AddTrailTimesAsync(Dictionary<string, WorkTypeStatsDto> statsByWorkType, IEnumerable<IncomeMeter.Api.Models.Route> routes, string userId)
+    {
+        var trackedRoutes = routes.Where(r => r.Id != null).ToList();
+        var trailTimes = await _locationService.GetRouteStopsByRouteIdsAsync(trackedRoutes.Select(r => r.Id!), userId);
+
+        foreach (var route in trackedRoutes)
+        {
+            if (!trailTimes.TryGetValue(route.Id!, out var times) ||
+                !statsByWorkType.TryGetValue(route.WorkType ?? "Other", out var stats))
+            {
+                continue;
+            }
+
+            stats.DrivingHours += times.DrivingMinutes / 60;
+            stats.WaitingHours += times.WaitingMinutes / 60;
+            stats.TrackedRoutes++;
+        }
+    }
+
+    private static Dictionary<string, WorkTypeStatsDto> CalculateWorkTypeStats(List<IncomeMeter.Api.Models.Route> routes, List<Expense> expenses)
     {
         return routes.GroupBy(r => r.WorkType ?? "Other")
             .ToDictionary(g => g.Key, g =>
             {
                 var groupRoutes = g.ToList();
                 var totalIncome = groupRoutes.Sum(r => r.TotalIncome);
+                var totalExpenses = SumRouteExpenses(groupRoutes, expenses);
                 var totalDistance = groupRoutes.Sum(r => r.Distance);
                 
                 // Calculate total working hours
@@ -548,6 +768,8 @@ public class DashboardController : ControllerBase
                 return new WorkTypeStatsDto
                 {
                     Income = totalIncome,
+                    Expenses = totalExpenses,
+                    NetIncome = totalIncome - totalExpenses,
                     Routes = groupRoutes.Count,
                     TotalWorkingHours = totalWorkingHours,
                     TotalMileage = totalDistance,
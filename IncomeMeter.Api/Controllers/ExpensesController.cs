@@ -0,0 +1,187 @@
+using IncomeMeter.Api.DTOs;
+using IncomeMeter.Api.Middleware;
+using IncomeMeter.Api.Services;
+using Microsoft.AspNetCore.Authorization;
+using Microsoft.AspNetCore.Mvc;
+using Serilog;
+using System.Security.Claims;
+
+namespace IncomeMeter.Api.Controllers;
+
+[ApiController]
+[Route("api/[controller]")]
+[Authorize(AuthenticationSchemes = "Bearer")]
+public class ExpensesController : ControllerBase
+{
+    private readonly IExpenseService _expenseService;
+    private readonly ILogger<ExpensesController> _logger;
+
+    public ExpensesController(IExpenseService expenseService, ILogger<ExpensesController> logger)
+    {
+        _expenseService = expenseService;
+        _logger = logger;
+    }
+
+    private string? GetCurrentUserId() => User.FindFirst(ClaimTypes.NameIdentifier)?.Value;
+
+    /// <summary>
+    /// List the user's expenses, optionally limited to an inclusive date range (YYYY-MM-DD)
+    /// </summary>
+    [HttpGet]
+    [RequireScopes("read:routes")]
+    public async Task<IActionResult> GetExpenses([FromQuery] DateTime? startDate, [FromQuery] DateTime? endDate)
+    {
+        var userId = GetCurrentUserId();
+        if (string.IsNullOrEmpty(userId))
+        {
+            return Unauthorized();
+        }
+
+        var expenses = startDate.HasValue && endDate.HasValue
+            ? await _expenseService.GetExpensesByDateRangeAsync(userId, startDate.Value, endDate.Value)
+            : await _expenseService.GetExpensesByUserIdAsync(userId);
+        return Ok(expenses);
+    }
+
+    [HttpGet("route/{routeId}")]
+    [RequireScopes("read:routes")]
+    public async Task<IActionResult> GetExpensesByRouteId(string routeId)
+    {
+        var userId = GetCurrentUserId();
+        if (string.IsNullOrEmpty(userId))
+        {
+            return Unauthorized();
+        }
+
+        var expenses = await _expenseService.GetExpensesByRouteIdAsync(routeId, userId);
+        return Ok(expenses);
+    }
+
+    [HttpGet("{id}")]
+    [RequireScopes("read:routes")]
+    public async Task<IActionResult> GetExpenseById(string id)
+    {
+        var userId = GetCurrentUserId();
+        if (string.IsNullOrEmpty(userId))
+        {
+            return Unauthorized();
+        }
+
+        var expense = await _expenseService.GetExpenseByIdAsync(id, userId);
+        if (expense == null)
+        {
+            return NotFound();
+        }
+
+        return Ok(expense);
+    }
+
+    [HttpPost]
+    [RequireScopes("write:routes")]
+    public async Task<IActionResult> CreateExpense([FromBody] CreateExpenseDto dto)
+    {
+        var userId = GetCurrentUserId();
+        var correlationId = HttpContext.Items["CorrelationId"]?.ToString();
+
+        if (string.IsNullOrEmpty(userId))
+        {
+            return Unauthorized();
+        }
+
+        try
+        {
+            var expense = await _expenseService.CreateExpenseAsync(dto, userId);
+
+            Log.Logger
+                .ForContext("EventType", "ExpenseCreated")
+                .ForContext("CorrelationId", correlationId)
+                .ForContext("UserId", userId[..Math.Min(8, userId.Length)] + "***")
+                .ForContext("ExpenseId", expense.Id?[..Math.Min(8, expense.Id.Length)] + "***")
+                .ForContext("Category", expense.Category)
+                .Information("Expense created successfully");
+
+            return CreatedAtAction(nameof(GetExpenseById), new { id = expense.Id }, expense);
+        }
+        catch (InvalidOperationException ex)
+        {
+            Log.Logger
+                .ForContext("EventType", "ExpenseValidationError")
+                .ForContext("CorrelationId", correlationId)
+                .ForContext("UserId", userId[..Math.Min(8, userId.Length)] + "***")
+                .ForContext("ValidationError", ex.Message)
+                .Warning("Expense creation failed validation: {ValidationError}", ex.Message);
+
+            return BadRequest(new { error = ex.Message });
+        }
+        catch (UnauthorizedAccessException ex)
+        {
+            return StatusCode(403, new { error = ex.Message });
+        }
+    }
+
+    [HttpPut("{id}")]
+    [RequireScopes("write:routes")]
+    public async Task<IActionResult> UpdateExpense(string id, [FromBody] UpdateExpenseDto dto)
+    {
+        var userId = GetCurrentUserId();
+        var correlationId = HttpContext.Items["CorrelationId"]?.ToString();
+
+        if (string.IsNullOrEmpty(userId))
+        {
+            return Unauthorized();
+        }
+
+        try
+        {
+            var expense = await _expenseService.UpdateExpenseAsync(id, dto, userId);
+            if (expense == null)
+            {
+                Log.Logger
+                    .ForContext("EventType", "ExpenseUpdateNotFound")
+                    .ForContext("CorrelationId", correlationId)
+                    .ForContext("UserId", userId[..Math.Min(8, userId.Length)] + "***")
+                    .ForContext("ExpenseId", id[..Math.Min(8, id.Length)] + "***")
+                    .Warning("Expense not found when attempting to update");
+                return NotFound();
+            }
+
+            return Ok(expense);
+        }
+        catch (InvalidOperationException ex)
+        {
+            return BadRequest(new { error = ex.Message });
+        }
+        catch (UnauthorizedAccessException ex)
+        {
+            return StatusCode(403, new { error = ex.Message });
+        }
+    }
+
+    [HttpDelete("{id}")]
+    [RequireScopes("delete:routes")]
+    public async Task<IActionResult> DeleteExpense(string id)
+    {
+        var userId = GetCurrentUserId();
+        var correlationId = HttpContext.Items["CorrelationId"]?.ToString();
+
+        if (string.IsNullOrEmpty(userId))
+        {
+            return Unauthorized();
+        }
+
+        var success = await _expenseService.DeleteExpenseAsync(id, userId);
+        if (!success)
+        {
+            return NotFound();
+        }
+
+        Log.Logger
+            .ForContext("EventType", "ExpenseDeleted")
+            .ForContext("CorrelationId", correlationId)
+            .ForContext("UserId", userId[..Math.Min(8, userId.Length)] + "***")
+            .ForContext("ExpenseId", id[..Math.Min(8, id.Length)] + "***")
+            .Information("Expense deleted successfully");
+
+        return NoContent();
+    }
+}
@@ -339,6 +339,79 @@ public class LocationsController : ControllerBase
         }
     }
 
+    [HttpPost("route/{routeId}/import")]
+    [Authorize(AuthenticationSchemes = "Bearer")]
+    public async Task<IActionResult> ImportLocations(string routeId, [FromBody] ImportLocationsDto dto)
+    {
+        var userId = GetCurrentUserId();
+        var correlationId = HttpContext.Items["CorrelationId"]?.ToString();
+
+        if (string.IsNullOrEmpty(userId))
+        {
+            return Unauthorized();
+        }
+
+        Log.Logger
+            .ForContext("EventType", "LocationImportRequest")
+            .ForContext("CorrelationId", correlationId)
+            .ForContext("UserId", userId[..Math.Min(8, userId.Length)] + "***")
+            .ForContext("RouteId", routeId[..Math.Min(8, routeId.Length)] + "***")
+            .ForContext("PointCount", dto.Points.Count)
+            .ForContext("ReplaceExisting", dto.ReplaceExisting)
+            .Information("User requested to import a location trail");
+
+        try
+        {
+            var result = await _locationService.ImportLocationsAsync(routeId, dto, userId);
+            if (result == null)
+            {
+                return NotFound();
+            }
+
+            return Ok(result);
+        }
+        catch (InvalidOperationException ex)
+        {
+            Log.Logger
+                .ForContext("EventType", "LocationImportValidationError")
+                .ForContext("CorrelationId", correlationId)
+                .ForContext("UserId", userId[..Math.Min(8, userId.Length)] + "***")
+                .ForContext("ValidationError", ex.Message)
+                .Warning("Location import failed validation: {ValidationError}", ex.Message);
+
+            return BadRequest(new { error = ex.Message });
+        }
+        catch (Exception ex)
+        {
+            Log.Logger
+                .ForContext("EventType", "LocationImportError")
+                .ForContext("CorrelationId", correlationId)
+                .ForContext("UserId", userId[..Math.Min(8, userId.Length)] + "***")
+                .Error(ex, "Unexpected error during location import");
+
+            return StatusCode(500, new { error = "An unexpected error occurred while importing locations." });
+        }
+    }
+
+    [HttpGet("route/{routeId}/stops")]
+    [Authorize(AuthenticationSchemes = "Bearer")]
+    public async Task<IActionResult> GetRouteStops(string routeId)
+    {
+        var userId = GetCurrentUserId();
+        if (string.IsNullOrEmpty(userId))
+        {
+            return Unauthorized();
+        }
+
+        var stops = await _locationService.GetRouteStopsAsync(routeId, userId);
+        if (stops == null)
+        {
+            return NotFound();
+        }
+
+        return Ok(stops);
+    }
+
     // API Key compatible endpoint for iOS shortcuts - Add location
     [HttpPost("add-with-apikey")]
     [Authorize(AuthenticationSchemes = "Bearer")]
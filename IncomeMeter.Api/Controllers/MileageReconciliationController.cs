@@ -0,0 +1,69 @@
+using IncomeMeter.Api.DTOs;
+using IncomeMeter.Api.Middleware;
+using IncomeMeter.Api.Services;
+using Microsoft.AspNetCore.Authorization;
+using Microsoft.AspNetCore.Mvc;
+using System.Security.Claims;
+
+namespace IncomeMeter.Api.Controllers;
+
+[ApiController]
+[Route("api/mileage-reconciliation")]
+[Authorize(AuthenticationSchemes = "Bearer")]
+public class MileageReconciliationController : ControllerBase
+{
+    private readonly IMileageReconciliationService _reconciliationService;
+
+    public MileageReconciliationController(IMileageReconciliationService reconciliationService)
+    {
+        _reconciliationService = reconciliationService;
+    }
+
+    private string? GetCurrentUserId() => User.FindFirst(ClaimTypes.NameIdentifier)?.Value;
+
+    /// <summary>
+    /// Odometer and GPS mileage for completed routes in the date range that recorded both
+    /// </summary>
+    [HttpGet]
+    [RequireScopes("read:routes")]
+    public async Task<IActionResult> GetReconciliation([FromQuery] DateTime startDate, [FromQuery] DateTime endDate)
+    {
+        var userId = GetCurrentUserId();
+        if (string.IsNullOrEmpty(userId))
+        {
+            return Unauthorized();
+        }
+
+        var routes = await _reconciliationService.GetReconciliationAsync(userId, startDate, endDate);
+        return Ok(routes);
+    }
+
+    /// <summary>
+    /// Record whether the odometer or the GPS trail is the route's tax mileage
+    /// </summary>
+    [HttpPut("{routeId}")]
+    [RequireScopes("write:routes")]
+    public async Task<IActionResult> SetMileageSource(string routeId, [FromBody] SetMileageSourceDto dto)
+    {
+        var userId = GetCurrentUserId();
+        if (string.IsNullOrEmpty(userId))
+        {
+            return Unauthorized();
+        }
+
+        try
+        {
+            var result = await _reconciliationService.SetMileageSourceAsync(routeId, dto.Source, userId);
+            if (result == null)
+            {
+                return NotFound();
+            }
+
+            return Ok(result);
+        }
+        catch (InvalidOperationException ex)
+        {
+            return BadRequest(new { error = ex.Message });
+        }
+    }
+}
@@ -0,0 +1,177 @@
+using IncomeMeter.Api.DTOs;
+using IncomeMeter.Api.Middleware;
+using IncomeMeter.Api.Services;
+using Microsoft.AspNetCore.Authorization;
+using Microsoft.AspNetCore.Mvc;
+using Serilog;
+using System.Security.Claims;
+
+namespace IncomeMeter.Api.Controllers;
+
+[ApiController]
+[Route("api/recurring-schedules")]
+[Authorize(AuthenticationSchemes = "Bearer")]
+public class RecurringSchedulesController : ControllerBase
+{
+    private readonly IRecurringScheduleService _scheduleService;
+
+    public RecurringSchedulesController(IRecurringScheduleService scheduleService)
+    {
+        _scheduleService = scheduleService;
+    }
+
+    private string? GetCurrentUserId() => User.FindFirst(ClaimTypes.NameIdentifier)?.Value;
+
+    [HttpGet]
+    [RequireScopes("read:routes")]
+    public async Task<IActionResult> GetSchedules()
+    {
+        var userId = GetCurrentUserId();
+        if (string.IsNullOrEmpty(userId))
+        {
+            return Unauthorized();
+        }
+
+        var schedules = await _scheduleService.GetSchedulesByUserIdAsync(userId);
+        return Ok(schedules);
+    }
+
+    [HttpGet("{id}")]
+    [RequireScopes("read:routes")]
+    public async Task<IActionResult> GetScheduleById(string id)
+    {
+        var userId = GetCurrentUserId();
+        if (string.IsNullOrEmpty(userId))
+        {
+            return Unauthorized();
+        }
+
+        var schedule = await _scheduleService.GetScheduleByIdAsync(id, userId);
+        if (schedule == null)
+        {
+            return NotFound();
+        }
+
+        return Ok(schedule);
+    }
+
+    /// <summary>
+    /// Create a recurring schedule and generate its upcoming scheduled routes
+    /// </summary>
+    [HttpPost]
+    [RequireScopes("write:routes")]
+    public async Task<IActionResult> CreateSchedule([FromBody] CreateRecurringScheduleDto dto)
+    {
+        var userId = GetCurrentUserId();
+        var correlationId = HttpContext.Items["CorrelationId"]?.ToString();
+
+        if (string.IsNullOrEmpty(userId))
+        {
+            return Unauthorized();
+        }
+
+        try
+        {
+            var schedule = await _scheduleService.CreateScheduleAsync(dto, userId);
+
+            Log.Logger
+                .ForContext("EventType", "RecurringScheduleCreated")
+                .ForContext("CorrelationId", correlationId)
+                .ForContext("UserId", userId[..Math.Min(8, userId.Length)] + "***")
+                .ForContext("ScheduleId", schedule.Id?[..Math.Min(8, schedule.Id.Length)] + "***")
+                .ForContext("Frequency", schedule.Frequency)
+                .Information("Recurring schedule created successfully");
+
+            return CreatedAtAction(nameof(GetScheduleById), new { id = schedule.Id }, schedule);
+        }
+        catch (InvalidOperationException ex)
+        {
+            Log.Logger
+                .ForContext("EventType", "RecurringScheduleValidationError")
+                .ForContext("CorrelationId", correlationId)
+                .ForContext("UserId", userId[..Math.Min(8, userId.Length)] + "***")
+                .ForContext("ValidationError", ex.Message)
+                .Warning("Recurring schedule creation failed validation: {ValidationError}", ex.Message);
+
+            return BadRequest(new { error = ex.Message });
+        }
+    }
+
+    /// <summary>
+    /// Update a recurring schedule; its upcoming scheduled routes are regenerated
+    /// </summary>
+    [HttpPut("{id}")]
+    [RequireScopes("write:routes")]
+    public async Task<IActionResult> UpdateSchedule(string id, [FromBody] UpdateRecurringScheduleDto dto)
+    {
+        var userId = GetCurrentUserId();
+
+        if (string.IsNullOrEmpty(userId))
+        {
+            return Unauthorized();
+        }
+
+        try
+        {
+            var schedule = await _scheduleService.UpdateScheduleAsync(id, dto, userId);
+            if (schedule == null)
+            {
+                return NotFound();
+            }
+
+            return Ok(schedule);
+        }
+        catch (InvalidOperationException ex)
+        {
+            return BadRequest(new { error = ex.Message });
+        }
+    }
+
+    /// <summary>
+    /// Delete a recurring schedule along with its upcoming scheduled routes
+    /// </summary>
+    [HttpDelete("{id}")]
+    [RequireScopes("delete:routes")]
+    public async Task<IActionResult> DeleteSchedule(string id)
+    {
+        var userId = GetCurrentUserId();
+        var correlationId = HttpContext.Items["CorrelationId"]?.ToString();
+
+        if (string.IsNullOrEmpty(userId))
+        {
+            return Unauthorized();
+        }
+
+        var success = await _scheduleService.DeleteScheduleAsync(id, userId);
+        if (!success)
+        {
+            return NotFound();
+        }
+
+        Log.Logger
+            .ForContext("EventType", "RecurringScheduleDeleted")
+            .ForContext("CorrelationId", correlationId)
+            .ForContext("UserId", userId[..Math.Min(8, userId.Length)] + "***")
+            .ForContext("ScheduleId", id[..Math.Min(8, id.Length)] + "***")
+            .Information("Recurring schedule deleted successfully");
+
+        return NoContent();
+    }
+
+    /// <summary>
+    /// Generate any scheduled routes that are due from the user's active schedules
+    /// </summary>
+    [HttpPost("materialize")]
+    [RequireScopes("write:routes")]
+    public async Task<IActionResult> MaterializeSchedules()
+    {
+        var userId = GetCurrentUserId();
+        if (string.IsNullOrEmpty(userId))
+        {
+            return Unauthorized();
+        }
+
+        var created = await _scheduleService.MaterializeForUserAsync(userId);
+        return Ok(new MaterializeSchedulesResponseDto { RoutesCreated = created });
+    }
+}
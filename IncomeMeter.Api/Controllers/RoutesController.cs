@@ -14,11 +14,15 @@ namespace IncomeMeter.Api.Controllers;
 public class RoutesController : ControllerBase
 {
     private readonly IRouteService _routeService;
+    private readonly IExpenseService _expenseService;
+    private readonly IAttachmentService _attachmentService;
     private readonly ILogger<RoutesController> _logger;
 
-    public RoutesController(IRouteService routeService, ILogger<RoutesController> logger)
+    public RoutesController(IRouteService routeService, IExpenseService expenseService, IAttachmentService attachmentService, ILogger<RoutesController> logger)
     {
         _routeService = routeService;
+        _expenseService = expenseService;
+        _attachmentService = attachmentService;
         _logger = logger;
     }
 
@@ -26,6 +30,7 @@ public class RoutesController : ControllerBase
     private string? GetCurrentUserId() => User.FindFirst(ClaimTypes.NameIdentifier)?.Value;
 
     [HttpGet]
+    [ProducesResponseType(typeof(List<IncomeMeter.Api.Models.Route>), 200)]
     [Authorize(AuthenticationSchemes = "Bearer")]
     [RequireScopes("read:routes")]
     public async Task<IActionResult> GetRoutes()
@@ -75,6 +80,7 @@ public class RoutesController : ControllerBase
     }
 
     [HttpGet("{id}")]
+    [ProducesResponseType(typeof(IncomeMeter.Api.Models.Route), 200)]
     [Authorize(AuthenticationSchemes = "Bearer")]
     [RequireScopes("read:routes")]
     public async Task<IActionResult> GetRouteById(string id)
@@ -250,17 +256,24 @@ public class RoutesController : ControllerBase
             return NotFound();
         }
 
+        // Expenses and receipt photos recorded against the route go with it
+        var deletedExpenses = await _expenseService.DeleteExpensesByRouteIdAsync(id, userId);
+        var deletedAttachments = await _attachmentService.DeleteAttachmentsByRouteIdAsync(id, userId);
+
         Log.Logger
             .ForContext("EventType", "RouteDeleted")
             .ForContext("CorrelationId", correlationId)
             .ForContext("UserId", userId[..Math.Min(8, userId.Length)] + "***")
             .ForContext("RouteId", id[..Math.Min(8, id.Length)] + "***")
+            .ForContext("DeletedExpenses", deletedExpenses)
+            .ForContext("DeletedAttachments", deletedAttachments)
             .Information("Route deleted successfully");
 
         return NoContent();
     }
 
     [HttpGet("status/{status}")]
+    [ProducesResponseType(typeof(List<IncomeMeter.Api.Models.Route>), 200)]
     [Authorize(AuthenticationSchemes = "Bearer")]
     [RequireScopes("read:routes")]
     public async Task<IActionResult> GetRoutesByStatus(string status)
@@ -276,6 +289,7 @@ public class RoutesController : ControllerBase
     }
 
     [HttpGet("date-range")]
+    [ProducesResponseType(typeof(List<IncomeMeter.Api.Models.Route>), 200)]
     [Authorize(AuthenticationSchemes = "Bearer")]
     [RequireScopes("read:routes")]
     public async Task<IActionResult> GetRoutesByDateRange([FromQuery] DateTime startDate, [FromQuery] DateTime endDate)
@@ -290,6 +304,33 @@ public class RoutesController : ControllerBase
         return Ok(routes);
     }
 
+    /// <summary>
+    /// One page of the user's routes, filtered, searched and sorted by the database. Pass the returned
+    /// nextCursor with the same query to get the following page.
+    /// </summary>
+    [HttpGet("page")]
+    [ProducesResponseType(typeof(RoutePageDto), 200)]
+    [Authorize(AuthenticationSchemes = "Bearer")]
+    [RequireScopes("read:routes")]
+    public async Task<IActionResult> GetRoutePage([FromQuery] RouteQueryDto query)
+    {
+        var userId = GetCurrentUserId();
+        if (string.IsNullOrEmpty(userId))
+        {
+            return Unauthorized();
+        }
+
+        try
+        {
+            var page = await _routeService.GetRoutePageAsync(userId, query);
+            return Ok(page);
+        }
+        catch (ArgumentException ex)
+        {
+            return BadRequest(new { error = ex.Message });
+        }
+    }
+
     /// <summary>
     /// Start a new route using API key authentication (compatible with iOS shortcuts)
     /// </summary>
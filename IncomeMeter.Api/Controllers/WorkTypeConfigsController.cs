@@ -62,6 +62,7 @@ public class WorkTypeConfigsController : ControllerBase
     }
 
     [HttpGet]
+    [ProducesResponseType(typeof(List<WorkTypeConfigResponseDto>), 200)]
     public async Task<IActionResult> GetWorkTypeConfigs()
     {
         var userId = GetCurrentUserId();
@@ -104,6 +105,7 @@ public class WorkTypeConfigsController : ControllerBase
     }
 
     [HttpGet("active")]
+    [ProducesResponseType(typeof(List<WorkTypeConfigResponseDto>), 200)]
     public async Task<IActionResult> GetActiveWorkTypeConfigs()
     {
         var userId = GetCurrentUserId();
@@ -146,6 +148,7 @@ public class WorkTypeConfigsController : ControllerBase
     }
 
     [HttpGet("{id}")]
+    [ProducesResponseType(typeof(WorkTypeConfigResponseDto), 200)]
     public async Task<IActionResult> GetWorkTypeConfigById(string id)
     {
         var userId = GetCurrentUserId();
@@ -0,0 +1,30 @@
+namespace IncomeMeter.Api.DTOs;
+
+// Filters for the earnings heatmap; hours are local to each location point, and StartHour > EndHour wraps past midnight
+public class EarningsHeatmapQueryDto
+{
+    public DateTime StartDate { get; set; } // inclusive, time of day ignored
+    public DateTime EndDate { get; set; }   // inclusive, time of day ignored
+    public string? WorkType { get; set; }
+    public int? StartHour { get; set; }     // 0-23
+    public int? EndHour { get; set; }       // 1-24, exclusive
+}
+
+// One grid square of the map, with the time spent in it and the income that time earned
+public class EarningsHeatmapCellDto
+{
+    public double Latitude { get; set; }    // south-west corner
+    public double Longitude { get; set; }
+    public double Hours { get; set; }
+    public decimal Income { get; set; }
+    public decimal IncomePerHour { get; set; }
+    public int RouteCount { get; set; }
+}
+
+public class EarningsHeatmapDto
+{
+    public double CellSizeDegrees { get; set; }
+    public List<EarningsHeatmapCellDto> Cells { get; set; } = new();
+    public int RouteCount { get; set; }     // routes in the range that recorded a trail
+    public List<string> WorkTypes { get; set; } = new();
+}
@@ -0,0 +1,35 @@
+using System.ComponentModel.DataAnnotations;
+
+namespace IncomeMeter.Api.DTOs;
+
+// Multipart form for uploading a receipt photo
+public class UploadAttachmentDto
+{
+    [Required]
+    public IFormFile File { get; set; } = null!;
+
+    // Optional small preview generated on the client alongside the compressed image
+    public IFormFile? Thumbnail { get; set; }
+
+    [Required]
+    public string RouteId { get; set; } = null!;
+
+    [StringLength(100)]
+    public string? IncomeSource { get; set; }
+
+    public string? ExpenseId { get; set; }
+}
+
+// Attachment metadata - the image itself is fetched from the content/thumbnail endpoints
+public class AttachmentResponseDto
+{
+    public string Id { get; set; } = null!;
+    public string RouteId { get; set; } = null!;
+    public string? IncomeSource { get; set; }
+    public string? ExpenseId { get; set; }
+    public string FileName { get; set; } = null!;
+    public string ContentType { get; set; } = null!;
+    public long Size { get; set; }
+    public bool HasThumbnail { get; set; }
+    public DateTime CreatedAt { get; set; }
+}
@@ -7,15 +7,24 @@ public class PeriodIncomeRequestDto
     public string? FiscalStartDate { get; set; } // MM-DD format, e.g., "04-06"
 }
 
+public class RangeIncomeRequestDto
+{
+    public DateTime StartDate { get; set; } // inclusive, time of day ignored
+    public DateTime EndDate { get; set; }   // inclusive, time of day ignored
+}
+
 public class PeriodIncomeResponseDto
 {
     public string Period { get; set; } = null!;
     public DateTime StartDate { get; set; }
     public DateTime EndDate { get; set; }
     public decimal TotalIncome { get; set; }
+    public decimal TotalExpenses { get; set; }
+    public decimal NetIncome { get; set; }
     public int CompletedRoutes { get; set; }
     public double TotalDistance { get; set; }
     public Dictionary<string, WorkTypeStatsDto> IncomeBySource { get; set; } = new();
+    public Dictionary<string, decimal> ExpensesByCategory { get; set; } = new();
     public List<PeriodChartDataDto> ChartData { get; set; } = new();
     public PeriodNavigationDto Navigation { get; set; } = new();
 }
@@ -25,6 +34,8 @@ public class PeriodChartDataDto
     public string Label { get; set; } = null!;
     public DateTime Date { get; set; }
     public decimal Income { get; set; }
+    public decimal Expenses { get; set; }
+    public decimal NetIncome { get; set; }
     public int Routes { get; set; }
     public double Distance { get; set; }
 }
@@ -57,6 +68,11 @@ public class AnnualIncomeResponseDto : PeriodIncomeResponseDto
     public List<MonthInFiscalYearDto> MonthsInFiscalYear { get; set; } = new();
 }
 
+public class CustomRangeIncomeResponseDto : PeriodIncomeResponseDto
+{
+    public string Granularity { get; set; } = "daily"; // daily, weekly, monthly - size of each chart bucket
+}
+
 public class WeekInMonthDto
 {
     public int WeekNumber { get; set; }
@@ -80,7 +96,8 @@ public class DashboardStatsDto
     public decimal Last7DaysIncome { get; set; }
     public decimal Previous7DaysIncome { get; set; }
     public decimal CurrentMonthIncome { get; set; }
-    public decimal NetIncome { get; set; }
+    public decimal CurrentMonthExpenses { get; set; }
+    public decimal NetIncome { get; set; } // Current month income less current month expenses
     public double Last7DaysMileage { get; set; }
     public double CurrentMonthMileage { get; set; }
     public Dictionary<string, WorkTypeStatsDto> IncomeBySource { get; set; } = new();
@@ -90,11 +107,16 @@ public class DashboardStatsDto
 public class WorkTypeStatsDto
 {
     public decimal Income { get; set; }
+    public decimal Expenses { get; set; } // Expenses recorded against this work type's routes
+    public decimal NetIncome { get; set; }
     public int Routes { get; set; }
     public double TotalWorkingHours { get; set; }
     public double TotalMileage { get; set; }
     public decimal HourlyRate { get; set; }
     public decimal EarningsPerMile { get; set; }
+    public double DrivingHours { get; set; } // From the location trails of TrackedRoutes, split by stop detection
+    public double WaitingHours { get; set; }
+    public int TrackedRoutes { get; set; }
     public Dictionary<string, decimal> IncomeBySource { get; set; } = new();
 }
 
@@ -0,0 +1,38 @@
+using System.ComponentModel.DataAnnotations;
+
+namespace IncomeMeter.Api.DTOs;
+
+// DTO for recording a new expense, optionally against a route
+public class CreateExpenseDto
+{
+    public string? RouteId { get; set; }
+
+    [Required]
+    public string Category { get; set; } = null!; // fuel, parking, tolls, maintenance, phone
+
+    [Required]
+    [Range(0.01, double.MaxValue)]
+    public decimal Amount { get; set; }
+
+    [Required]
+    public DateTime Date { get; set; }
+
+    [StringLength(500)]
+    public string? Description { get; set; }
+}
+
+// DTO for updating an expense
+public class UpdateExpenseDto
+{
+    public string? RouteId { get; set; }
+
+    public string? Category { get; set; }
+
+    [Range(0.01, double.MaxValue)]
+    public decimal? Amount { get; set; }
+
+    public DateTime? Date { get; set; }
+
+    [StringLength(500)]
+    public string? Description { get; set; }
+}
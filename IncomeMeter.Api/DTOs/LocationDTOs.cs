@@ -101,4 +101,59 @@ public class CreateLocationIOSDto
             return "Longitude must be between -180 and 180 degrees";
         return "";
     }
+}
+
+// DTO for importing a location trail recorded by another tracker app (e.g. from a GPX file)
+public class ImportLocationsDto
+{
+    [Required]
+    [MinLength(1, ErrorMessage = "At least one point is required")]
+    public List<ImportLocationPointDto> Points { get; set; } = new();
+
+    // Delete the route's existing locations first instead of merging the imported points into them
+    public bool ReplaceExisting { get; set; }
+}
+
+public class ImportLocationPointDto
+{
+    [Range(-90, 90)]
+    public double Latitude { get; set; }
+
+    [Range(-180, 180)]
+    public double Longitude { get; set; }
+
+    [Required]
+    public DateTime Timestamp { get; set; }
+
+    public double? Accuracy { get; set; }
+
+    public double? Speed { get; set; }
+}
+
+public class LocationImportResultDto
+{
+    public int Imported { get; set; }
+    public int Skipped { get; set; }
+    public double TrailDistanceKm { get; set; }
+    public double TrailDistanceMi { get; set; }
+    public bool RouteDistanceUpdated { get; set; }
+}
+
+public class DwellSegmentDto
+{
+    public DateTime StartTime { get; set; }
+    public DateTime EndTime { get; set; }
+    public double DurationMinutes { get; set; }
+    public double Latitude { get; set; }  // centre of the points that make up the stop
+    public double Longitude { get; set; }
+    public int PointCount { get; set; }
+    public string? Address { get; set; }
+}
+
+public class RouteStopsDto
+{
+    public string RouteId { get; set; } = null!;
+    public List<DwellSegmentDto> Stops { get; set; } = new();
+    public double DrivingMinutes { get; set; }
+    public double WaitingMinutes { get; set; }
 }
\ No newline at end of file
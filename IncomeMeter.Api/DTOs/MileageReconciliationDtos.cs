@@ -0,0 +1,25 @@
+using System.ComponentModel.DataAnnotations;
+
+namespace IncomeMeter.Api.DTOs;
+
+// A completed route with both an odometer reading and a recorded GPS trail
+public class MileageReconciliationDto
+{
+    public string RouteId { get; set; } = null!;
+    public string? WorkType { get; set; }
+    public DateTime ScheduleStart { get; set; }
+    public double OdometerMiles { get; set; }
+    public double GpsMiles { get; set; }
+    public int LocationCount { get; set; }
+    public string? MileageSource { get; set; }
+    public double? TaxMiles { get; set; }
+    public DateTime? MileageReconciledAt { get; set; }
+}
+
+// DTO for recording which reading is authoritative for a route's tax mileage
+public class SetMileageSourceDto
+{
+    [Required]
+    [RegularExpression("^(odometer|gps)$", ErrorMessage = "Source must be odometer or gps")]
+    public string Source { get; set; } = null!;
+}
@@ -0,0 +1,83 @@
+using System.ComponentModel.DataAnnotations;
+
+namespace IncomeMeter.Api.DTOs;
+
+// DTO for creating a recurring shift schedule
+public class CreateRecurringScheduleDto
+{
+    [Required]
+    public string WorkTypeId { get; set; } = null!;
+
+    [Required]
+    public string Frequency { get; set; } = null!; // daily, weekly
+
+    [Range(1, 52)]
+    public int Interval { get; set; } = 1;
+
+    public List<int> DaysOfWeek { get; set; } = new(); // 0 = Sunday ... 6 = Saturday
+
+    [Required]
+    [RegularExpression(@"^([01]\d|2[0-3]):[0-5]\d$")]
+    public string StartTime { get; set; } = null!;
+
+    [Required]
+    [RegularExpression(@"^([01]\d|2[0-3]):[0-5]\d$")]
+    public string EndTime { get; set; } = null!;
+
+    [Required]
+    public DateTime StartDate { get; set; }
+
+    public DateTime? EndDate { get; set; }
+
+    public List<DateTime> ExceptionDates { get; set; } = new();
+
+    [Range(0, double.MaxValue)]
+    public decimal? EstimatedIncome { get; set; }
+
+    [Range(1, 12)]
+    public int WeeksAhead { get; set; } = 4;
+
+    public bool IsActive { get; set; } = true;
+}
+
+// DTO for updating a recurring shift schedule
+public class UpdateRecurringScheduleDto
+{
+    public string? WorkTypeId { get; set; }
+
+    public string? Frequency { get; set; }
+
+    [Range(1, 52)]
+    public int? Interval { get; set; }
+
+    public List<int>? DaysOfWeek { get; set; }
+
+    [RegularExpression(@"^([01]\d|2[0-3]):[0-5]\d$")]
+    public string? StartTime { get; set; }
+
+    [RegularExpression(@"^([01]\d|2[0-3]):[0-5]\d$")]
+    public string? EndTime { get; set; }
+
+    public DateTime? StartDate { get; set; }
+
+    // Send ClearEndDate to make an end-dated schedule open-ended again
+    public DateTime? EndDate { get; set; }
+
+    public bool ClearEndDate { get; set; }
+
+    public List<DateTime>? ExceptionDates { get; set; }
+
+    [Range(0, double.MaxValue)]
+    public decimal? EstimatedIncome { get; set; }
+
+    [Range(1, 12)]
+    public int? WeeksAhead { get; set; }
+
+    public bool? IsActive { get; set; }
+}
+
+// Result of generating scheduled routes from recurring schedules
+public class MaterializeSchedulesResponseDto
+{
+    public int RoutesCreated { get; set; }
+}
@@ -19,7 +19,9 @@ public class CreateRouteDto
     public double? EndMile { get; set; }
     public decimal? EstimatedIncome { get; set; }
     public string? Description { get; set; }
+    public string? Notes { get; set; }
     public string? Status { get; set; }
+    public string? CalendarUid { get; set; }
 }
 
 // DTO for updating a route
@@ -35,6 +37,10 @@ public class UpdateRouteDto
     public decimal? EstimatedIncome { get; set; }
     public double? StartMile { get; set; }
     public double? EndMile { get; set; }
+    // Miles from a source other than the odometer, e.g. a cleaned GPS trail; start and end miles in the same update win
+    [Range(0, double.MaxValue)]
+    public double? Distance { get; set; }
+    public string? Notes { get; set; }
     public string? Status { get; set; }
 }
 
@@ -82,6 +88,53 @@ public class RouteResponseDto
     public DateTime UpdatedAt { get; set; }
 }
 
+// Sort orders for the paginated route list, named as the frontend's sort options
+public static class RouteSortOptions
+{
+    public const string Newest = "newest";
+    public const string Oldest = "oldest";
+    public const string HighestEarn = "highestEarn";
+    public const string LowestEarn = "lowestEarn";
+    public const string StatusAsc = "statusAsc";
+    public const string StatusDesc = "statusDesc";
+    public const string WorkTypeAZ = "workTypeAZ";
+    public const string WorkTypeZA = "workTypeZA";
+
+    public static readonly string[] All =
+    {
+        Newest, Oldest, HighestEarn, LowestEarn, StatusAsc, StatusDesc, WorkTypeAZ, WorkTypeZA
+    };
+}
+
+// Query string for one page of the route list. Filters, search and sort run in the database;
+// Cursor is the NextCursor of the previous page and must be used with the same filters and sort.
+public class RouteQueryDto
+{
+    public const int DefaultLimit = 50;
+    public const int MaxLimit = 200;
+
+    public string? Status { get; set; }
+    public DateTime? StartDate { get; set; }
+    public DateTime? EndDate { get; set; }
+    public List<string> WorkTypes { get; set; } = new();
+    public List<string> IncomeSources { get; set; } = new();
+    // Matched case-insensitively against the work type, income sources and notes
+    public string? Search { get; set; }
+    public string Sort { get; set; } = RouteSortOptions.Newest;
+    public string? Cursor { get; set; }
+    [Range(1, MaxLimit)]
+    public int Limit { get; set; } = DefaultLimit;
+}
+
+public class RoutePageDto
+{
+    public List<IncomeMeter.Api.Models.Route> Items { get; set; } = new();
+    // Null on the last page
+    public string? NextCursor { get; set; }
+    // Only counted for the first page
+    public long? TotalCount { get; set; }
+}
+
 public class IncomeItemDto
 {
     [Required]
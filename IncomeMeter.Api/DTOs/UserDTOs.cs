@@ -60,5 +60,21 @@ public class AuthResponse
     public bool Success { get; set; }
     public string Message { get; set; } = null!;
     public string? Token { get; set; }
+    public DateTime? ExpiresAt { get; set; }
     public object? User { get; set; }
+}
+
+/// <summary>
+/// A web session refresh token as handed to the client - only its hash is kept on the user
+/// </summary>
+public class SessionRefreshToken
+{
+    public string Token { get; set; } = null!;
+    public DateTime ExpiresAt { get; set; }
+}
+
+public class RefreshTokenRotationResult
+{
+    public Models.User User { get; set; } = null!;
+    public SessionRefreshToken RefreshToken { get; set; } = null!;
 }
\ No newline at end of file
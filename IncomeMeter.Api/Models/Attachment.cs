@@ -0,0 +1,61 @@
+using MongoDB.Bson;
+using MongoDB.Bson.Serialization.Attributes;
+
+namespace IncomeMeter.Api.Models;
+
+// Receipt or pay-slip photo attached to a route, optionally to one of its income items or expenses
+public class Attachment
+{
+    [BsonId]
+    [BsonRepresentation(BsonType.ObjectId)]
+    public string? Id { get; set; }
+
+    [BsonRepresentation(BsonType.ObjectId)]
+    [BsonElement("userId")]
+    public string UserId { get; set; } = null!;
+
+    [BsonRepresentation(BsonType.ObjectId)]
+    [BsonElement("routeId")]
+    public string RouteId { get; set; } = null!;
+
+    // Income items have no id of their own, so they are matched by source name
+    [BsonElement("incomeSource")]
+    public string? IncomeSource { get; set; }
+
+    [BsonRepresentation(BsonType.ObjectId)]
+    [BsonElement("expenseId")]
+    public string? ExpenseId { get; set; }
+
+    [BsonElement("fileName")]
+    public string FileName { get; set; } = null!;
+
+    [BsonElement("contentType")]
+    public string ContentType { get; set; } = null!;
+
+    [BsonElement("size")]
+    public long Size { get; set; }
+
+    // Images are compressed on the client before upload, so they fit comfortably in a document
+    [BsonElement("data")]
+    public byte[] Data { get; set; } = Array.Empty<byte>();
+
+    [BsonElement("thumbnail")]
+    public byte[]? Thumbnail { get; set; }
+
+    [BsonElement("thumbnailContentType")]
+    public string? ThumbnailContentType { get; set; }
+
+    [BsonElement("createTS")]
+    public DateTime CreatedAt { get; set; } = DateTime.UtcNow;
+}
+
+public static class AttachmentLimits
+{
+    public const long MaxFileSizeBytes = 5 * 1024 * 1024;
+    public const long MaxThumbnailSizeBytes = 256 * 1024;
+
+    public static readonly string[] AllowedContentTypes = { "image/jpeg", "image/png", "image/webp" };
+
+    public static bool IsAllowedContentType(string? contentType) =>
+        contentType != null && AllowedContentTypes.Contains(contentType.ToLowerInvariant());
+}
@@ -0,0 +1,52 @@
+using MongoDB.Bson;
+using MongoDB.Bson.Serialization.Attributes;
+
+namespace IncomeMeter.Api.Models;
+
+public class Expense
+{
+    [BsonId]
+    [BsonRepresentation(BsonType.ObjectId)]
+    public string? Id { get; set; }
+
+    [BsonRepresentation(BsonType.ObjectId)]
+    [BsonElement("userId")]
+    public string UserId { get; set; } = null!;
+
+    // Optional - phone bills and servicing are often not tied to a single route
+    [BsonRepresentation(BsonType.ObjectId)]
+    [BsonElement("routeId")]
+    public string? RouteId { get; set; }
+
+    [BsonElement("category")]
+    public string Category { get; set; } = ExpenseCategories.Fuel;
+
+    [BsonElement("amount")]
+    public decimal Amount { get; set; }
+
+    [BsonElement("date")]
+    public DateTime Date { get; set; }
+
+    [BsonElement("description")]
+    public string? Description { get; set; }
+
+    [BsonElement("createTS")]
+    public DateTime CreatedAt { get; set; } = DateTime.UtcNow;
+
+    [BsonElement("amendTS")]
+    public DateTime UpdatedAt { get; set; } = DateTime.UtcNow;
+}
+
+public static class ExpenseCategories
+{
+    public const string Fuel = "fuel";
+    public const string Parking = "parking";
+    public const string Tolls = "tolls";
+    public const string Maintenance = "maintenance";
+    public const string Phone = "phone";
+
+    public static readonly string[] All = { Fuel, Parking, Tolls, Maintenance, Phone };
+
+    public static bool IsValid(string? category) =>
+        category != null && All.Contains(category);
+}
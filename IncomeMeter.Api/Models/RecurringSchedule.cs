@@ -0,0 +1,90 @@
+using MongoDB.Bson;
+using MongoDB.Bson.Serialization.Attributes;
+
+namespace IncomeMeter.Api.Models;
+
+// A repeating shift pattern (e.g. Mon-Fri 17:00-22:00) that scheduled routes are generated from
+public class RecurringSchedule
+{
+    [BsonId]
+    [BsonRepresentation(BsonType.ObjectId)]
+    public string? Id { get; set; }
+
+    [BsonRepresentation(BsonType.ObjectId)]
+    [BsonElement("userId")]
+    public string UserId { get; set; } = null!;
+
+    [BsonRepresentation(BsonType.ObjectId)]
+    [BsonElement("workTypeId")]
+    public string WorkTypeId { get; set; } = null!;
+
+    // Work type name, copied onto the generated routes
+    [BsonElement("workType")]
+    public string WorkType { get; set; } = null!;
+
+    [BsonElement("frequency")]
+    public string Frequency { get; set; } = ScheduleFrequencies.Weekly;
+
+    // Repeat every N days or weeks
+    [BsonElement("interval")]
+    public int Interval { get; set; } = 1;
+
+    // Weekly schedules only; 0 = Sunday ... 6 = Saturday, matching both DayOfWeek and JavaScript's getDay()
+    [BsonElement("daysOfWeek")]
+    public List<int> DaysOfWeek { get; set; } = new();
+
+    // Local wall-clock times (HH:mm) in TimeZone; an end time at or before the start finishes the next day
+    [BsonElement("startTime")]
+    public string StartTime { get; set; } = "09:00";
+
+    [BsonElement("endTime")]
+    public string EndTime { get; set; } = "17:00";
+
+    [BsonElement("timeZone")]
+    public string TimeZone { get; set; } = "UTC";
+
+    // First and (optionally) last local date the pattern applies to
+    [BsonElement("startDate")]
+    public DateTime StartDate { get; set; }
+
+    [BsonElement("endDate")]
+    public DateTime? EndDate { get; set; }
+
+    // Local dates to skip, e.g. holidays
+    [BsonElement("exceptionDates")]
+    public List<DateTime> ExceptionDates { get; set; } = new();
+
+    [BsonElement("estimatedIncome")]
+    public decimal? EstimatedIncome { get; set; }
+
+    // How far ahead scheduled routes are generated
+    [BsonElement("weeksAhead")]
+    public int WeeksAhead { get; set; } = 4;
+
+    [BsonElement("isActive")]
+    public bool IsActive { get; set; } = true;
+
+    // Routes have been generated for every occurrence starting before this (UTC), so deleted ones aren't recreated
+    [BsonElement("materializedThrough")]
+    public DateTime? MaterializedThrough { get; set; }
+
+    [BsonElement("createTS")]
+    public DateTime CreatedAt { get; set; } = DateTime.UtcNow;
+
+    [BsonElement("amendTS")]
+    public DateTime UpdatedAt { get; set; } = DateTime.UtcNow;
+}
+
+public static class ScheduleFrequencies
+{
+    public const string Daily = "daily";
+    public const string Weekly = "weekly";
+
+    public static readonly string[] All = { Daily, Weekly };
+
+    public static bool IsValid(string? frequency) =>
+        frequency != null && All.Contains(frequency);
+}
+
+// One generated shift of a recurring schedule
+public record ScheduleOccurrence(DateTime LocalDate, DateTime StartUtc, DateTime EndUtc);
@@ -18,6 +18,15 @@ public class Route
     [BsonElement("workTypeId")]
     [BsonRepresentation(BsonType.ObjectId)]
     public string? WorkTypeId { get; set; }
+
+    // Set when the route was generated from a recurring schedule
+    [BsonElement("recurringScheduleId")]
+    [BsonRepresentation(BsonType.ObjectId)]
+    public string? RecurringScheduleId { get; set; }
+
+    // UID of the calendar event the route was imported from, so re-importing a feed can skip it
+    [BsonElement("calendarUid")]
+    public string? CalendarUid { get; set; }
     
     [BsonElement("status")]
     public string Status { get; set; } = "scheduled";
@@ -52,6 +61,19 @@ public class Route
     [BsonElement("endMile")]
     public double? EndMile { get; set; }
 
+    // Which reading the user chose as the route's tax mileage when odometer and GPS disagreed: odometer, gps
+    [BsonElement("mileageSource")]
+    public string? MileageSource { get; set; }
+
+    [BsonElement("taxMiles")]
+    public double? TaxMiles { get; set; }
+
+    [BsonElement("mileageReconciledAt")]
+    public DateTime? MileageReconciledAt { get; set; }
+
+    [BsonElement("notes")]
+    public string? Notes { get; set; }
+
     [BsonElement("createTS")]
     public DateTime CreatedAt { get; set; } = DateTime.UtcNow;
 
@@ -70,7 +70,12 @@ if (builder.Environment.IsDevelopment())
     builder.Services.AddScoped<IRouteService, RouteService>();
     builder.Services.AddScoped<ILocationService, LocationService>();
     builder.Services.AddScoped<ITransactionService, TransactionService>();
+    builder.Services.AddScoped<IExpenseService, ExpenseService>();
+    builder.Services.AddScoped<IAttachmentService, AttachmentService>();
     builder.Services.AddScoped<IWorkTypeConfigService, WorkTypeConfigService>();
+    builder.Services.AddScoped<IRecurringScheduleService, RecurringScheduleService>();
+    builder.Services.AddScoped<IMileageReconciliationService, MileageReconciliationService>();
+    builder.Services.AddScoped<IAnalyticsService, AnalyticsService>();
     // Phase 1: Register DefaultWorkTypeService and MigrationService for development
     builder.Services.AddScoped<DefaultWorkTypeService>();
     builder.Services.AddScoped<MigrationService>();
@@ -82,13 +87,21 @@ else
     builder.Services.AddScoped<IRouteService, RouteService>();
     builder.Services.AddScoped<ILocationService, LocationService>();
     builder.Services.AddScoped<ITransactionService, TransactionService>();
+    builder.Services.AddScoped<IExpenseService, ExpenseService>();
+    builder.Services.AddScoped<IAttachmentService, AttachmentService>();
     builder.Services.AddScoped<IWorkTypeConfigService, WorkTypeConfigService>();
+    builder.Services.AddScoped<IRecurringScheduleService, RecurringScheduleService>();
+    builder.Services.AddScoped<IMileageReconciliationService, MileageReconciliationService>();
+    builder.Services.AddScoped<IAnalyticsService, AnalyticsService>();
 }
 
 // Phase 1: Register DefaultWorkTypeService and MigrationService (needed for both dev and prod)
 builder.Services.AddScoped<DefaultWorkTypeService>();
 builder.Services.AddScoped<MigrationService>();
 
+// Generate upcoming routes from recurring schedules in the background
+builder.Services.AddHostedService<RecurringScheduleMaterializer>();
+
 // JWT Configuration
 builder.Services.Configure<IncomeMeter.Api.Models.JwtSettings>(builder.Configuration.GetSection("Jwt"));
 
@@ -142,7 +155,13 @@ builder.Services.AddControllers()
         options.JsonSerializerOptions.NumberHandling = System.Text.Json.Serialization.JsonNumberHandling.AllowNamedFloatingPointLiterals;
     });
 builder.Services.AddEndpointsApiExplorer();
-builder.Services.AddSwaggerGen();
+builder.Services.AddSwaggerGen(options =>
+{
+    // shared/api-client is generated from this document - action names become its method names
+    // and non-nullable reference types stay non-nullable in the generated types
+    options.CustomOperationIds(api => api.ActionDescriptor.RouteValues["action"]);
+    options.SupportNonNullableReferenceTypes();
+});
 builder.Services.AddHttpContextAccessor();
 
 // Add configuration endpoint for frontend
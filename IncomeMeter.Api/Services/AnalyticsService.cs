@@ -0,0 +1,148 @@
+using IncomeMeter.Api.DTOs;
+using IncomeMeter.Api.Models;
+using MongoDB.Driver;
+
+namespace IncomeMeter.Api.Services;
+
+public class AnalyticsService : IAnalyticsService
+{
+    // About 1.1 km north to south - small enough to tell a town centre from its ring road
+    public const double HeatmapCellSizeDegrees = 0.01;
+
+    // Longer gaps between fixes are tracking pauses rather than time spent where the last fix was
+    public static readonly TimeSpan MaxTrailStep = TimeSpan.FromMinutes(15);
+
+    private readonly IMongoCollection<IncomeMeter.Api.Models.Route> _routes;
+    private readonly IMongoCollection<Location> _locations;
+
+    public AnalyticsService(MongoDbContext context)
+    {
+        _routes = context.Routes;
+        _locations = context.Locations;
+    }
+
+    public async Task<EarningsHeatmapDto> GetEarningsHeatmapAsync(string userId, EarningsHeatmapQueryDto query)
+    {
+        var startOfStartDate = query.StartDate.Date;
+        var endOfEndDate = query.EndDate.Date.AddDays(1).AddTicks(-1);
+
+        var routes = await _routes.Find(r => r.UserId == userId &&
+                                             r.Status == "completed" &&
+                                             r.ScheduleStart >= startOfStartDate &&
+                                             r.ScheduleStart <= endOfEndDate)
+            .ToListAsync();
+
+        var workTypes = routes
+            .Select(r => r.WorkType ?? "Other")
+            .Distinct()
+            .OrderBy(w => w)
+            .ToList();
+
+        var selectedRoutes = string.IsNullOrEmpty(query.WorkType)
+            ? routes
+            : routes.Where(r => (r.WorkType ?? "Other") == query.WorkType).ToList();
+
+        var locations = new List<Location>();
+        if (selectedRoutes.Count > 0)
+        {
+            var filter = Builders<Location>.Filter.And(
+                Builders<Location>.Filter.In(l => l.RouteId, selectedRoutes.Select(r => r.Id!)),
+                Builders<Location>.Filter.Eq(l => l.UserId, userId)
+            );
+            var projection = Builders<Location>.Projection
+                .Include(l => l.RouteId)
+                .Include(l => l.Latitude)
+                .Include(l => l.Longitude)
+                .Include(l => l.Timestamp)
+                .Include(l => l.TimezoneOffset);
+
+            locations = await _locations.Find(filter).Project<Location>(projection).ToListAsync();
+        }
+
+        var heatmap = BuildEarningsHeatmap(selectedRoutes, locations, query.StartHour, query.EndHour);
+        heatmap.WorkTypes = workTypes;
+        return heatmap;
+    }
+
+    /// <summary>
+    /// Spreads each route's income over its trail at the route's income per hour: every step between two
+    /// fixes credits the grid cell of the earlier fix with the step's time and what that time earned
+    /// </summary>
+    public static EarningsHeatmapDto BuildEarningsHeatmap(
+        IEnumerable<IncomeMeter.Api.Models.Route> routes, IEnumerable<Location> locations, int? startHour = null, int? endHour = null)
+    {
+        var locationsByRoute = locations
+            .GroupBy(l => l.RouteId)
+            .ToDictionary(g => g.Key, g => g.OrderBy(l => l.Timestamp).ToList());
+
+        var cells = new Dictionary<(long, long), (double Hours, decimal Income, HashSet<string> RouteIds)>();
+        var routeCount = 0;
+
+        foreach (var route in routes)
+        {
+            if (route.Id == null || !locationsByRoute.TryGetValue(route.Id, out var trail) || trail.Count < 2)
+            {
+                continue;
+            }
+
+            routeCount++;
+            var routeHours = GetRouteHours(route);
+            var incomePerHour = routeHours > 0 ? route.TotalIncome / (decimal)routeHours : 0;
+
+            for (var i = 1; i < trail.Count; i++)
+            {
+                var from = trail[i - 1];
+                var step = trail[i].Timestamp - from.Timestamp;
+                if (step <= TimeSpan.Zero)
+                {
+                    continue;
+                }
+
+                var localHour = from.Timestamp.AddHours(from.TimezoneOffset ?? 0).Hour;
+                if (!IsWithinHours(localHour, startHour, endHour))
+                {
+                    continue;
+                }
+
+                var hours = (step < MaxTrailStep ? step : MaxTrailStep).TotalHours;
+                var key = ((long)Math.Floor(from.Latitude / HeatmapCellSizeDegrees), (long)Math.Floor(from.Longitude / HeatmapCellSizeDegrees));
+                var cell = cells.TryGetValue(key, out var existing) ? existing : (0.0, 0m, new HashSet<string>());
+                cell.RouteIds.Add(route.Id);
+                cells[key] = (cell.Hours + hours, cell.Income + incomePerHour * (decimal)hours, cell.RouteIds);
+            }
+        }
+
+        return new EarningsHeatmapDto
+        {
+            CellSizeDegrees = HeatmapCellSizeDegrees,
+            RouteCount = routeCount,
+            Cells = cells
+                .Select(c => new EarningsHeatmapCellDto
+                {
+                    Latitude = Math.Round(c.Key.Item1 * HeatmapCellSizeDegrees, 6),
+                    Longitude = Math.Round(c.Key.Item2 * HeatmapCellSizeDegrees, 6),
+                    Hours = Math.Round(c.Value.Hours, 2),
+                    Income = Math.Round(c.Value.Income, 2),
+                    IncomePerHour = c.Value.Hours > 0 ? Math.Round(c.Value.Income / (decimal)c.Value.Hours, 2) : 0,
+                    RouteCount = c.Value.RouteIds.Count
+                })
+                .OrderByDescending(c => c.Hours)
+                .ToList()
+        };
+    }
+
+    // Actual times when the route was started and ended, otherwise the scheduled slot
+    private static double GetRouteHours(IncomeMeter.Api.Models.Route route) =>
+        route.ActualStartTime.HasValue && route.ActualEndTime.HasValue
+            ? (route.ActualEndTime.Value - route.ActualStartTime.Value).TotalHours
+            : (route.ScheduleEnd - route.ScheduleStart).TotalHours;
+
+    private static bool IsWithinHours(int hour, int? startHour, int? endHour)
+    {
+        var start = startHour ?? 0;
+        var end = endHour ?? 24;
+        return start <= end
+            ? hour >= start && hour < end
+            : hour >= start || hour < end;
+    }
+}
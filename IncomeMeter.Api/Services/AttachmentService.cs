@@ -0,0 +1,126 @@
+using IncomeMeter.Api.DTOs;
+using IncomeMeter.Api.Models;
+using MongoDB.Driver;
+using Serilog;
+
+namespace IncomeMeter.Api.Services;
+
+public class AttachmentService : IAttachmentService
+{
+    private readonly IMongoCollection<Attachment> _attachments;
+    private readonly IRouteService _routeService;
+    private readonly IExpenseService _expenseService;
+
+    public AttachmentService(MongoDbContext context, IRouteService routeService, IExpenseService expenseService)
+    {
+        _attachments = context.Attachments;
+        _routeService = routeService;
+        _expenseService = expenseService;
+    }
+
+    public async Task<List<AttachmentResponseDto>> GetAttachmentsByRouteIdAsync(string routeId, string userId)
+    {
+        // Listing only needs metadata, so leave the full-size image behind
+        var attachments = await _attachments.Find(a => a.RouteId == routeId && a.UserId == userId)
+            .Project<Attachment>(Builders<Attachment>.Projection.Exclude(a => a.Data))
+            .SortBy(a => a.CreatedAt)
+            .ToListAsync();
+
+        return attachments.Select(ToResponseDto).ToList();
+    }
+
+    public async Task<Attachment?> GetAttachmentByIdAsync(string id, string userId) =>
+        await _attachments.Find(a => a.Id == id && a.UserId == userId).FirstOrDefaultAsync();
+
+    public async Task<AttachmentResponseDto?> CreateAttachmentAsync(UploadAttachmentDto uploadDto, string userId)
+    {
+        ValidateImage(uploadDto.File, AttachmentLimits.MaxFileSizeBytes);
+        if (uploadDto.Thumbnail != null)
+        {
+            ValidateImage(uploadDto.Thumbnail, AttachmentLimits.MaxThumbnailSizeBytes);
+        }
+
+        if (await _routeService.GetRouteByIdAsync(uploadDto.RouteId, userId) == null)
+        {
+            Log.Logger
+                .ForContext("EventType", "AttachmentUploadUnauthorized")
+                .ForContext("RouteId", uploadDto.RouteId[..Math.Min(8, uploadDto.RouteId.Length)] + "***")
+                .ForContext("UserId", userId[..Math.Min(8, userId.Length)] + "***")
+                .Warning("Route not found or user unauthorized for attachment upload");
+            return null;
+        }
+
+        if (!string.IsNullOrEmpty(uploadDto.ExpenseId))
+        {
+            var expense = await _expenseService.GetExpenseByIdAsync(uploadDto.ExpenseId, userId);
+            if (expense == null || expense.RouteId != uploadDto.RouteId)
+            {
+                throw new InvalidOperationException("Expense does not belong to this route.");
+            }
+        }
+
+        var attachment = new Attachment
+        {
+            UserId = userId,
+            RouteId = uploadDto.RouteId,
+            IncomeSource = string.IsNullOrWhiteSpace(uploadDto.IncomeSource) ? null : uploadDto.IncomeSource,
+            ExpenseId = string.IsNullOrEmpty(uploadDto.ExpenseId) ? null : uploadDto.ExpenseId,
+            FileName = Path.GetFileName(uploadDto.File.FileName),
+            ContentType = uploadDto.File.ContentType.ToLowerInvariant(),
+            Size = uploadDto.File.Length,
+            Data = await ReadBytesAsync(uploadDto.File),
+            Thumbnail = uploadDto.Thumbnail != null ? await ReadBytesAsync(uploadDto.Thumbnail) : null,
+            ThumbnailContentType = uploadDto.Thumbnail?.ContentType.ToLowerInvariant(),
+            CreatedAt = DateTime.UtcNow
+        };
+
+        await _attachments.InsertOneAsync(attachment);
+        return ToResponseDto(attachment);
+    }
+
+    public async Task<bool> DeleteAttachmentAsync(string id, string userId)
+    {
+        var result = await _attachments.DeleteOneAsync(a => a.Id == id && a.UserId == userId);
+        return result.DeletedCount > 0;
+    }
+
+    public async Task<long> DeleteAttachmentsByRouteIdAsync(string routeId, string userId)
+    {
+        var result = await _attachments.DeleteManyAsync(a => a.RouteId == routeId && a.UserId == userId);
+        return result.DeletedCount;
+    }
+
+    private static void ValidateImage(IFormFile file, long maxSizeBytes)
+    {
+        if (!AttachmentLimits.IsAllowedContentType(file.ContentType))
+        {
+            throw new InvalidOperationException(
+                $"Unsupported image type '{file.ContentType}'. Expected one of: {string.Join(", ", AttachmentLimits.AllowedContentTypes)}.");
+        }
+
+        if (file.Length == 0 || file.Length > maxSizeBytes)
+        {
+            throw new InvalidOperationException($"Image must be between 1 byte and {maxSizeBytes / 1024} KB.");
+        }
+    }
+
+    private static async Task<byte[]> ReadBytesAsync(IFormFile file)
+    {
+        using var stream = new MemoryStream();
+        await file.CopyToAsync(stream);
+        return stream.ToArray();
+    }
+
+    private static AttachmentResponseDto ToResponseDto(Attachment attachment) => new()
+    {
+        Id = attachment.Id!,
+        RouteId = attachment.RouteId,
+        IncomeSource = attachment.IncomeSource,
+        ExpenseId = attachment.ExpenseId,
+        FileName = attachment.FileName,
+        ContentType = attachment.ContentType,
+        Size = attachment.Size,
+        HasThumbnail = attachment.Thumbnail != null,
+        CreatedAt = attachment.CreatedAt
+    };
+}
@@ -0,0 +1,153 @@
+using IncomeMeter.Api.DTOs;
+using IncomeMeter.Api.Models;
+using MongoDB.Driver;
+using Serilog;
+
+namespace IncomeMeter.Api.Services;
+
+public class ExpenseService : IExpenseService
+{
+    private readonly IMongoCollection<Expense> _expenses;
+    private readonly IRouteService _routeService;
+
+    public ExpenseService(MongoDbContext context, IRouteService routeService)
+    {
+        _expenses = context.Expenses;
+        _routeService = routeService;
+    }
+
+    public async Task<List<Expense>> GetExpensesByUserIdAsync(string userId) =>
+        await _expenses.Find(e => e.UserId == userId)
+            .SortByDescending(e => e.Date)
+            .ToListAsync();
+
+    public async Task<List<Expense>> GetExpensesByDateRangeAsync(string userId, DateTime startDate, DateTime endDate)
+    {
+        // Same whole-day semantics as the route date-range lookup
+        var startOfStartDate = startDate.Date;
+        var endOfEndDate = endDate.Date.AddDays(1).AddTicks(-1);
+
+        return await _expenses.Find(e => e.UserId == userId &&
+                                         e.Date >= startOfStartDate &&
+                                         e.Date <= endOfEndDate)
+            .SortByDescending(e => e.Date)
+            .ToListAsync();
+    }
+
+    public async Task<List<Expense>> GetExpensesByRouteIdAsync(string routeId, string userId) =>
+        await _expenses.Find(e => e.RouteId == routeId && e.UserId == userId)
+            .SortBy(e => e.Date)
+            .ToListAsync();
+
+    public async Task<Expense?> GetExpenseByIdAsync(string id, string userId) =>
+        await _expenses.Find(e => e.Id == id && e.UserId == userId).FirstOrDefaultAsync();
+
+    public async Task<Expense> CreateExpenseAsync(CreateExpenseDto dto, string userId)
+    {
+        ValidateCategory(dto.Category);
+
+        // Route-linked expenses must belong to one of the user's routes
+        if (!string.IsNullOrEmpty(dto.RouteId))
+        {
+            await EnsureRouteAccessAsync(dto.RouteId, userId);
+        }
+
+        var expense = new Expense
+        {
+            UserId = userId,
+            RouteId = string.IsNullOrEmpty(dto.RouteId) ? null : dto.RouteId,
+            Category = dto.Category,
+            Amount = dto.Amount,
+            Date = dto.Date,
+            Description = dto.Description,
+            CreatedAt = DateTime.UtcNow,
+            UpdatedAt = DateTime.UtcNow
+        };
+
+        await _expenses.InsertOneAsync(expense);
+        return expense;
+    }
+
+    public async Task<Expense?> UpdateExpenseAsync(string id, UpdateExpenseDto dto, string userId)
+    {
+        var filter = Builders<Expense>.Filter.And(
+            Builders<Expense>.Filter.Eq(e => e.Id, id),
+            Builders<Expense>.Filter.Eq(e => e.UserId, userId)
+        );
+
+        var updateBuilder = Builders<Expense>.Update;
+        var updates = new List<UpdateDefinition<Expense>>();
+
+        if (!string.IsNullOrEmpty(dto.Category))
+        {
+            ValidateCategory(dto.Category);
+            updates.Add(updateBuilder.Set(e => e.Category, dto.Category));
+        }
+
+        // An empty route id unlinks the expense from its route
+        if (dto.RouteId != null)
+        {
+            if (dto.RouteId != string.Empty)
+            {
+                await EnsureRouteAccessAsync(dto.RouteId, userId);
+            }
+            updates.Add(updateBuilder.Set(e => e.RouteId, dto.RouteId == string.Empty ? null : dto.RouteId));
+        }
+
+        if (dto.Amount.HasValue)
+            updates.Add(updateBuilder.Set(e => e.Amount, dto.Amount.Value));
+
+        if (dto.Date.HasValue)
+            updates.Add(updateBuilder.Set(e => e.Date, dto.Date.Value));
+
+        if (dto.Description != null)
+            updates.Add(updateBuilder.Set(e => e.Description, dto.Description));
+
+        if (updates.Count == 0)
+        {
+            return await GetExpenseByIdAsync(id, userId);
+        }
+
+        updates.Add(updateBuilder.Set(e => e.UpdatedAt, DateTime.UtcNow));
+
+        return await _expenses.FindOneAndUpdateAsync(filter, updateBuilder.Combine(updates),
+            new FindOneAndUpdateOptions<Expense> { ReturnDocument = ReturnDocument.After });
+    }
+
+    public async Task<bool> DeleteExpenseAsync(string id, string userId)
+    {
+        var result = await _expenses.DeleteOneAsync(e => e.Id == id && e.UserId == userId);
+        return result.DeletedCount > 0;
+    }
+
+    public async Task<long> DeleteExpensesByRouteIdAsync(string routeId, string userId)
+    {
+        var result = await _expenses.DeleteManyAsync(e => e.RouteId == routeId && e.UserId == userId);
+        return result.DeletedCount;
+    }
+
+    // Thrown rather than returned as null so the controller can tell it apart from a missing expense
+    private async Task EnsureRouteAccessAsync(string routeId, string userId)
+    {
+        if (await _routeService.GetRouteByIdAsync(routeId, userId) != null)
+        {
+            return;
+        }
+
+        Log.Logger
+            .ForContext("EventType", "ExpenseRouteUnauthorized")
+            .ForContext("RouteId", routeId[..Math.Min(8, routeId.Length)] + "***")
+            .ForContext("UserId", userId[..Math.Min(8, userId.Length)] + "***")
+            .Warning("Route not found or user unauthorized for expense");
+        throw new UnauthorizedAccessException("You do not have access to this route.");
+    }
+
+    private static void ValidateCategory(string category)
+    {
+        if (!ExpenseCategories.IsValid(category))
+        {
+            throw new InvalidOperationException(
+                $"Unsupported expense category '{category}'. Expected one of: {string.Join(", ", ExpenseCategories.All)}.");
+        }
+    }
+}
@@ -104,4 +104,44 @@ public class InMemoryUserService : IUserService
         // InMemoryUserService placeholder - OAuth system doesn't use password validation
         return Task.FromResult<User?>(null);
     }
+
+    public Task<SessionRefreshToken> IssueRefreshTokenAsync(string userId, string? ipAddress = null)
+    {
+        if (!_users.TryGetValue(userId, out var user))
+        {
+            throw new KeyNotFoundException("User not found.");
+        }
+
+        // Tokens are kept as issued - fine for development, the Mongo service stores hashes
+        var issued = new SessionRefreshToken
+        {
+            Token = Convert.ToBase64String(Guid.NewGuid().ToByteArray()),
+            ExpiresAt = DateTime.UtcNow.Add(UserService.RefreshTokenLifetime)
+        };
+
+        user.RefreshTokens.RemoveAll(rt => !rt.IsActive);
+        user.RefreshTokens.Add(new RefreshToken { Token = issued.Token, ExpiresAt = issued.ExpiresAt, CreatedByIp = ipAddress });
+
+        return Task.FromResult(issued);
+    }
+
+    public async Task<RefreshTokenRotationResult?> RotateRefreshTokenAsync(string refreshToken, string? ipAddress = null)
+    {
+        var user = _users.Values.FirstOrDefault(u => u.RefreshTokens.Any(rt => rt.Token == refreshToken && rt.IsActive));
+        if (user == null)
+        {
+            return null;
+        }
+
+        user.RefreshTokens.RemoveAll(rt => rt.Token == refreshToken);
+        var issued = await IssueRefreshTokenAsync(user.Id!, ipAddress);
+
+        return new RefreshTokenRotationResult { User = user, RefreshToken = issued };
+    }
+
+    public Task<bool> RevokeRefreshTokenAsync(string refreshToken)
+    {
+        var user = _users.Values.FirstOrDefault(u => u.RefreshTokens.Any(rt => rt.Token == refreshToken));
+        return Task.FromResult(user != null && user.RefreshTokens.RemoveAll(rt => rt.Token == refreshToken) > 0);
+    }
 }
\ No newline at end of file
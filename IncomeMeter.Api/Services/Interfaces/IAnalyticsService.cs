@@ -0,0 +1,8 @@
+using IncomeMeter.Api.DTOs;
+
+namespace IncomeMeter.Api.Services;
+
+public interface IAnalyticsService
+{
+    Task<EarningsHeatmapDto> GetEarningsHeatmapAsync(string userId, EarningsHeatmapQueryDto query);
+}
@@ -0,0 +1,13 @@
+using IncomeMeter.Api.DTOs;
+using IncomeMeter.Api.Models;
+
+namespace IncomeMeter.Api.Services;
+
+public interface IAttachmentService
+{
+    Task<List<AttachmentResponseDto>> GetAttachmentsByRouteIdAsync(string routeId, string userId);
+    Task<Attachment?> GetAttachmentByIdAsync(string id, string userId);
+    Task<AttachmentResponseDto?> CreateAttachmentAsync(UploadAttachmentDto uploadDto, string userId);
+    Task<bool> DeleteAttachmentAsync(string id, string userId);
+    Task<long> DeleteAttachmentsByRouteIdAsync(string routeId, string userId);
+}
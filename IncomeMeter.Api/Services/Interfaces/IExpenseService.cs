@@ -0,0 +1,16 @@
+using IncomeMeter.Api.DTOs;
+using IncomeMeter.Api.Models;
+
+namespace IncomeMeter.Api.Services;
+
+public interface IExpenseService
+{
+    Task<List<Expense>> GetExpensesByUserIdAsync(string userId);
+    Task<List<Expense>> GetExpensesByDateRangeAsync(string userId, DateTime startDate, DateTime endDate);
+    Task<List<Expense>> GetExpensesByRouteIdAsync(string routeId, string userId);
+    Task<Expense?> GetExpenseByIdAsync(string id, string userId);
+    Task<Expense> CreateExpenseAsync(CreateExpenseDto expenseDto, string userId);
+    Task<Expense?> UpdateExpenseAsync(string id, UpdateExpenseDto expenseDto, string userId);
+    Task<bool> DeleteExpenseAsync(string id, string userId);
+    Task<long> DeleteExpensesByRouteIdAsync(string routeId, string userId);
+}
@@ -9,6 +9,9 @@ public interface ILocationService
     Task<Location?> GetLocationByIdAsync(string id, string userId);
     Task<Location?> AddLocationAsync(CreateLocationDto locationDto, string userId);
     Task<Location?> AddLocationFromIOSAsync(CreateLocationIOSDto locationDto, string userId);
+    Task<LocationImportResultDto?> ImportLocationsAsync(string routeId, ImportLocationsDto importDto, string userId);
+    Task<RouteStopsDto?> GetRouteStopsAsync(string routeId, string userId);
+    Task<Dictionary<string, RouteStopsDto>> GetRouteStopsByRouteIdsAsync(IEnumerable<string> routeIds, string userId);
     Task<Location?> UpdateLocationAsync(string id, UpdateLocationDto locationDto, string userId);
     Task<bool> DeleteLocationAsync(string id, string userId);
     Task<bool> DeleteLocationsByRouteIdAsync(string routeId, string userId);
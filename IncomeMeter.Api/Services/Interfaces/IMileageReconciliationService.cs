@@ -0,0 +1,9 @@
+using IncomeMeter.Api.DTOs;
+
+namespace IncomeMeter.Api.Services;
+
+public interface IMileageReconciliationService
+{
+    Task<List<MileageReconciliationDto>> GetReconciliationAsync(string userId, DateTime startDate, DateTime endDate);
+    Task<MileageReconciliationDto?> SetMileageSourceAsync(string routeId, string source, string userId);
+}
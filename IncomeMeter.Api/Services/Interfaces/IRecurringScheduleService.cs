@@ -0,0 +1,15 @@
+using IncomeMeter.Api.DTOs;
+using IncomeMeter.Api.Models;
+
+namespace IncomeMeter.Api.Services;
+
+public interface IRecurringScheduleService
+{
+    Task<List<RecurringSchedule>> GetSchedulesByUserIdAsync(string userId);
+    Task<RecurringSchedule?> GetScheduleByIdAsync(string id, string userId);
+    Task<RecurringSchedule> CreateScheduleAsync(CreateRecurringScheduleDto scheduleDto, string userId);
+    Task<RecurringSchedule?> UpdateScheduleAsync(string id, UpdateRecurringScheduleDto scheduleDto, string userId);
+    Task<bool> DeleteScheduleAsync(string id, string userId);
+    Task<int> MaterializeForUserAsync(string userId);
+    Task<int> MaterializeAllAsync();
+}
@@ -12,7 +12,9 @@ public interface IRouteService
     Task<IncomeMeter.Api.Models.Route?> StartRouteAsync(StartRouteDto routeDto, string userId);
     Task<IncomeMeter.Api.Models.Route?> EndRouteAsync(EndRouteDto routeDto, string userId);
     Task<IncomeMeter.Api.Models.Route?> EndRouteFromIOSAsync(EndRouteIOSDto routeDto, string userId);
+    Task<IncomeMeter.Api.Models.Route?> UpdateRouteDistanceAsync(string id, double distance, string userId);
     Task<bool> DeleteRouteAsync(string id, string userId);
     Task<List<IncomeMeter.Api.Models.Route>> GetRoutesByStatusAsync(string userId, string status);
     Task<List<IncomeMeter.Api.Models.Route>> GetRoutesByDateRangeAsync(string userId, DateTime startDate, DateTime endDate);
+    Task<RoutePageDto> GetRoutePageAsync(string userId, RouteQueryDto query);
 }
\ No newline at end of file
@@ -13,4 +13,7 @@ public interface IUserService
     Task<CreateApiKeyResponseDto> GenerateAndAddApiKeyAsync(string userId, string description);
     Task<User> UpdateUserAsync(User user);
     Task<User?> ValidateUserCredentialsAsync(string email, string password);
+    Task<SessionRefreshToken> IssueRefreshTokenAsync(string userId, string? ipAddress = null);
+    Task<RefreshTokenRotationResult?> RotateRefreshTokenAsync(string refreshToken, string? ipAddress = null);
+    Task<bool> RevokeRefreshTokenAsync(string refreshToken);
 }
\ No newline at end of file
@@ -10,6 +10,10 @@ namespace IncomeMeter.Api.Services;
 
 public class LocationService : ILocationService
 {
+    private const int MaxImportPoints = 20000;
+    // Imported points share one timezone lookup per cell of about 11 km
+    private const int ImportTimezoneCellPrecision = 1;
+
     private readonly IMongoCollection<Location> _locations;
     private readonly IRouteService _routeService;
     private readonly IGeoCodingService _geoCodingService;
@@ -314,6 +318,208 @@ public class LocationService : ILocationService
         return await AddLocationAsync(createLocationDto, userId);
     }
 
+    public async Task<LocationImportResultDto?> ImportLocationsAsync(string routeId, ImportLocationsDto importDto, string userId)
+    {
+        var correlationId = Guid.NewGuid().ToString("N")[..8];
+
+        Log.Logger
+            .ForContext("EventType", "LocationImportStarted")
+            .ForContext("CorrelationId", correlationId)
+            .ForContext("RouteId", routeId[..Math.Min(8, routeId.Length)] + "***")
+            .ForContext("UserId", userId[..Math.Min(8, userId.Length)] + "***")
+            .ForContext("PointCount", importDto.Points.Count)
+            .Information("Starting location trail import");
+
+        var route = await _routeService.GetRouteByIdAsync(routeId, userId);
+        if (route == null)
+        {
+            Log.Logger
+                .ForContext("EventType", "LocationImportUnauthorized")
+                .ForContext("CorrelationId", correlationId)
+                .ForContext("RouteId", routeId[..Math.Min(8, routeId.Length)] + "***")
+                .ForContext("UserId", userId[..Math.Min(8, userId.Length)] + "***")
+                .Warning("Route not found or user unauthorized for location import");
+            return null;
+        }
+
+        if (importDto.Points.Count > MaxImportPoints)
+        {
+            throw new InvalidOperationException(
+                $"The trail has {importDto.Points.Count} points. At most {MaxImportPoints} points can be imported at once.");
+        }
+
+        if (importDto.ReplaceExisting)
+        {
+            await _locations.DeleteManyAsync(l => l.RouteId == routeId && l.UserId == userId);
+        }
+
+        var existing = await _locations.Find(l => l.RouteId == routeId).SortBy(l => l.Timestamp).ToListAsync();
+        var seenTimestamps = existing.Select(l => l.Timestamp).ToHashSet();
+
+        // Imported points are not geocoded one by one - a recorded trail can have thousands of them
+        // and the address lookups are rate limited. Distances use the straight line between points.
+        var timezoneCells = new Dictionary<(double Latitude, double Longitude), string>();
+        foreach (var point in importDto.Points)
+        {
+            var cell = ImportTimezoneCell(point);
+            if (!timezoneCells.ContainsKey(cell))
+            {
+                timezoneCells[cell] = await _timezoneService.GetTimezoneFromCoordinatesAsync(cell.Latitude, cell.Longitude);
+            }
+        }
+
+        var imported = new List<Location>();
+        var skipped = 0;
+        // Points are walked in time order, so the existing points before each one only ever grow
+        var existingBefore = 0;
+        foreach (var point in importDto.Points.OrderBy(p => p.Timestamp))
+        {
+            var timestamp = point.Timestamp.ToUniversalTime();
+            while (existingBefore < existing.Count && existing[existingBefore].Timestamp < timestamp)
+            {
+                existingBefore++;
+            }
+
+            if (!seenTimestamps.Add(timestamp))
+            {
+                skipped++;
+                continue;
+            }
+
+            var latitude = Math.Round(point.Latitude, _settings.CoordinatePrecision);
+            var longitude = Math.Round(point.Longitude, _settings.CoordinatePrecision);
+            var lastImported = imported.LastOrDefault();
+            var lastExisting = existingBefore > 0 ? existing[existingBefore - 1] : null;
+            var previous = lastExisting != null && (lastImported == null || lastExisting.Timestamp > lastImported.Timestamp)
+                ? lastExisting
+                : lastImported;
+
+            double? distanceKm = null;
+            if (previous != null)
+            {
+                distanceKm = CalculateDistanceKm(previous.Latitude, previous.Longitude, latitude, longitude);
+
+                // Same rule as a single posted location: a jump this big is a bad fix, not a drive
+                if (distanceKm > _settings.MaxDistanceKm)
+                {
+                    skipped++;
+                    continue;
+                }
+            }
+
+            var timezoneId = timezoneCells[ImportTimezoneCell(point)];
+
+            imported.Add(new Location
+            {
+                RouteId = routeId,
+                UserId = userId,
+                Latitude = latitude,
+                Longitude = longitude,
+                Timestamp = timestamp,
+                Accuracy = point.Accuracy,
+                Speed = point.Speed,
+                DistanceFromLastKm = distanceKm.HasValue ? Math.Round(distanceKm.Value, 2) : null,
+                DistanceFromLastMi = distanceKm.HasValue ? Math.Round(distanceKm.Value * 0.621371, 2) : null,
+                TimezoneId = timezoneId,
+                TimezoneOffset = _timezoneService.GetTimezoneOffset(timezoneId, timestamp)
+            });
+        }
+
+        if (imported.Count > 0)
+        {
+            await _locations.InsertManyAsync(imported);
+        }
+
+        // An existing point that now follows an imported one has a new previous point, so its step is
+        // recalculated; the other existing steps keep the distance worked out when they were posted
+        var importedIds = imported.Select(l => l.Id).ToHashSet();
+        var trail = await _locations.Find(l => l.RouteId == routeId).SortBy(l => l.Timestamp).ToListAsync();
+        var trailDistanceKm = 0.0;
+        for (var i = 1; i < trail.Count; i++)
+        {
+            var location = trail[i];
+            if (!importedIds.Contains(location.Id) && importedIds.Contains(trail[i - 1].Id))
+            {
+                var stepKm = Math.Round(CalculateDistanceKm(trail[i - 1].Latitude, trail[i - 1].Longitude, location.Latitude, location.Longitude), 2);
+                var stepUpdate = Builders<Location>.Update
+                    .Set(l => l.DistanceFromLastKm, stepKm)
+                    .Set(l => l.DistanceFromLastMi, Math.Round(stepKm * 0.621371, 2));
+                await _locations.UpdateOneAsync(l => l.Id == location.Id, stepUpdate);
+                location.DistanceFromLastKm = stepKm;
+            }
+
+            trailDistanceKm += location.DistanceFromLastKm ?? 0;
+        }
+
+        var trailDistanceMi = Math.Round(trailDistanceKm * 0.621371, 2);
+
+        // Odometer readings stay the source of the route distance when both were recorded
+        var routeDistanceUpdated = false;
+        if (!(route.StartMile.HasValue && route.EndMile.HasValue))
+        {
+            routeDistanceUpdated = await _routeService.UpdateRouteDistanceAsync(routeId, trailDistanceMi, userId) != null;
+        }
+
+        Log.Logger
+            .ForContext("EventType", "LocationImportSuccess")
+            .ForContext("CorrelationId", correlationId)
+            .ForContext("RouteId", routeId[..Math.Min(8, routeId.Length)] + "***")
+            .ForContext("ImportedCount", imported.Count)
+            .ForContext("SkippedCount", skipped)
+            .ForContext("TrailDistanceKm", Math.Round(trailDistanceKm, 2))
+            .ForContext("RouteDistanceUpdated", routeDistanceUpdated)
+            .Information("Location trail imported");
+
+        return new LocationImportResultDto
+        {
+            Imported = imported.Count,
+            Skipped = skipped,
+            TrailDistanceKm = Math.Round(trailDistanceKm, 2),
+            TrailDistanceMi = trailDistanceMi,
+            RouteDistanceUpdated = routeDistanceUpdated
+        };
+    }
+
+    public async Task<RouteStopsDto?> GetRouteStopsAsync(string routeId, string userId)
+    {
+        var route = await _routeService.GetRouteByIdAsync(routeId, userId);
+        if (route == null)
+        {
+            return null;
+        }
+
+        var locations = await _locations.Find(l => l.RouteId == routeId).SortBy(l => l.Timestamp).ToListAsync();
+        return StopDetector.Analyze(routeId, locations);
+    }
+
+    public async Task<Dictionary<string, RouteStopsDto>> GetRouteStopsByRouteIdsAsync(IEnumerable<string> routeIds, string userId)
+    {
+        var ids = routeIds.ToList();
+        if (ids.Count == 0)
+        {
+            return new Dictionary<string, RouteStopsDto>();
+        }
+
+        var filter = Builders<Location>.Filter.And(
+            Builders<Location>.Filter.In(l => l.RouteId, ids),
+            Builders<Location>.Filter.Eq(l => l.UserId, userId)
+        );
+        var projection = Builders<Location>.Projection
+            .Include(l => l.RouteId)
+            .Include(l => l.Latitude)
+            .Include(l => l.Longitude)
+            .Include(l => l.Timestamp)
+            .Include(l => l.Speed);
+
+        var locations = await _locations.Find(filter).Project<Location>(projection).ToListAsync();
+
+        // Routes without a trail of at least two points have no time to split
+        return locations
+            .GroupBy(l => l.RouteId)
+            .Where(g => g.Count() > 1)
+            .ToDictionary(g => g.Key, g => StopDetector.Analyze(g.Key, g));
+    }
+
     public async Task<Location?> GetLocationByIdAsync(string id, string userId)
     {
         var correlationId = Guid.NewGuid().ToString("N")[..8];
@@ -570,4 +776,19 @@ public class LocationService : ILocationService
             throw;
         }
     }
+
+    private static (double Latitude, double Longitude) ImportTimezoneCell(ImportLocationPointDto point) =>
+        (Math.Round(point.Latitude, ImportTimezoneCellPrecision), Math.Round(point.Longitude, ImportTimezoneCellPrecision));
+
+    // Haversine distance, used for bulk imports and stop detection where a routing API call per point is not practical
+    internal static double CalculateDistanceKm(double startLat, double startLon, double endLat, double endLon)
+    {
+        const double earthRadiusKm = 6371;
+        var dLat = (endLat - startLat) * (Math.PI / 180);
+        var dLon = (endLon - startLon) * (Math.PI / 180);
+        var a = Math.Sin(dLat / 2) * Math.Sin(dLat / 2) +
+                Math.Cos(startLat * (Math.PI / 180)) * Math.Cos(endLat * (Math.PI / 180)) *
+                Math.Sin(dLon / 2) * Math.Sin(dLon / 2);
+        return earthRadiusKm * 2 * Math.Atan2(Math.Sqrt(a), Math.Sqrt(1 - a));
+    }
 }
\ No newline at end of file
@@ -0,0 +1,134 @@
+using IncomeMeter.Api.DTOs;
+using IncomeMeter.Api.Models;
+using MongoDB.Driver;
+using Serilog;
+
+namespace IncomeMeter.Api.Services;
+
+public class MileageReconciliationService : IMileageReconciliationService
+{
+    public const string OdometerSource = "odometer";
+    public const string GpsSource = "gps";
+
+    private readonly IMongoCollection<IncomeMeter.Api.Models.Route> _routes;
+    private readonly IMongoCollection<Location> _locations;
+
+    public MileageReconciliationService(MongoDbContext context)
+    {
+        _routes = context.Routes;
+        _locations = context.Locations;
+    }
+
+    public async Task<List<MileageReconciliationDto>> GetReconciliationAsync(string userId, DateTime startDate, DateTime endDate)
+    {
+        // Same inclusive whole-day range as the routes date-range endpoint
+        var startOfStartDate = startDate.Date;
+        var endOfEndDate = endDate.Date.AddDays(1).AddTicks(-1);
+
+        var routes = await _routes.Find(r => r.UserId == userId &&
+                                             r.Status == "completed" &&
+                                             r.StartMile != null &&
+                                             r.EndMile != null &&
+                                             r.ScheduleStart >= startOfStartDate &&
+                                             r.ScheduleStart <= endOfEndDate)
+            .SortByDescending(r => r.ScheduleStart)
+            .ToListAsync();
+
+        if (routes.Count == 0)
+        {
+            return new List<MileageReconciliationDto>();
+        }
+
+        var gpsByRoute = await GetGpsMilesAsync(routes.Select(r => r.Id!).ToList(), userId);
+
+        // A route needs at least two points for the trail to have a distance at all
+        return routes
+            .Where(r => gpsByRoute.TryGetValue(r.Id!, out var gps) && gps.Count > 1)
+            .Select(r => ToDto(r, gpsByRoute[r.Id!]))
+            .ToList();
+    }
+
+    public async Task<MileageReconciliationDto?> SetMileageSourceAsync(string routeId, string source, string userId)
+    {
+        if (source != OdometerSource && source != GpsSource)
+        {
+            throw new InvalidOperationException("Mileage source must be odometer or gps.");
+        }
+
+        var route = await _routes.Find(r => r.Id == routeId && r.UserId == userId).FirstOrDefaultAsync();
+        if (route == null)
+        {
+            return null;
+        }
+
+        if (!route.StartMile.HasValue || !route.EndMile.HasValue)
+        {
+            throw new InvalidOperationException("The route has no odometer readings to reconcile.");
+        }
+
+        var gpsByRoute = await GetGpsMilesAsync(new List<string> { routeId }, userId);
+        var gps = gpsByRoute.GetValueOrDefault(routeId);
+        if (source == GpsSource && gps.Count < 2)
+        {
+            throw new InvalidOperationException("The route has no GPS trail to use for its mileage.");
+        }
+
+        var taxMiles = source == GpsSource ? gps.Miles : GetOdometerMiles(route);
+        var reconciledAt = DateTime.UtcNow;
+
+        var update = Builders<IncomeMeter.Api.Models.Route>.Update
+            .Set(r => r.MileageSource, source)
+            .Set(r => r.TaxMiles, taxMiles)
+            .Set(r => r.MileageReconciledAt, reconciledAt)
+            .Set(r => r.UpdatedAt, reconciledAt);
+        await _routes.UpdateOneAsync(r => r.Id == routeId && r.UserId == userId, update);
+
+        route.MileageSource = source;
+        route.TaxMiles = taxMiles;
+        route.MileageReconciledAt = reconciledAt;
+
+        Log.Logger
+            .ForContext("EventType", "MileageSourceRecorded")
+            .ForContext("RouteId", routeId[..Math.Min(8, routeId.Length)] + "***")
+            .ForContext("UserId", userId[..Math.Min(8, userId.Length)] + "***")
+            .ForContext("MileageSource", source)
+            .ForContext("TaxMiles", taxMiles)
+            .Information("Tax mileage source recorded for route");
+
+        return ToDto(route, gps);
+    }
+
+    private static double GetOdometerMiles(IncomeMeter.Api.Models.Route route) =>
+        Math.Round(Math.Abs(route.EndMile!.Value - route.StartMile!.Value), 2);
+
+    private static MileageReconciliationDto ToDto(IncomeMeter.Api.Models.Route route, (double Miles, int Count) gps) => new()
+    {
+        RouteId = route.Id!,
+        WorkType = route.WorkType,
+        ScheduleStart = route.ScheduleStart,
+        OdometerMiles = GetOdometerMiles(route),
+        GpsMiles = gps.Miles,
+        LocationCount = gps.Count,
+        MileageSource = route.MileageSource,
+        TaxMiles = route.TaxMiles,
+        MileageReconciledAt = route.MileageReconciledAt
+    };
+
+    // Sum of the per-point distances stored when each location was posted
+    private async Task<Dictionary<string, (double Miles, int Count)>> GetGpsMilesAsync(List<string> routeIds, string userId)
+    {
+        var filter = Builders<Location>.Filter.And(
+            Builders<Location>.Filter.In(l => l.RouteId, routeIds),
+            Builders<Location>.Filter.Eq(l => l.UserId, userId)
+        );
+        var projection = Builders<Location>.Projection
+            .Include(l => l.RouteId)
+            .Include(l => l.DistanceFromLastMi);
+
+        var locations = await _locations.Find(filter).Project<Location>(projection).ToListAsync();
+
+        return locations
+            .GroupBy(l => l.RouteId)
+            .ToDictionary(g => g.Key, g => (Math.Round(g.Sum(l => l.DistanceFromLastMi ?? 0), 2), g.Count()));
+    }
+}
@@ -0,0 +1,45 @@
+using Serilog;
+
+namespace IncomeMeter.Api.Services;
+
+/// <summary>
+/// Keeps every active recurring schedule's scheduled routes generated the configured number of weeks ahead
+/// </summary>
+public class RecurringScheduleMaterializer : BackgroundService
+{
+    private static readonly TimeSpan RunInterval = TimeSpan.FromHours(6);
+
+    private readonly IServiceScopeFactory _scopeFactory;
+
+    public RecurringScheduleMaterializer(IServiceScopeFactory scopeFactory)
+    {
+        _scopeFactory = scopeFactory;
+    }
+
+    protected override async Task ExecuteAsync(CancellationToken stoppingToken)
+    {
+        using var timer = new PeriodicTimer(RunInterval);
+
+        do
+        {
+            try
+            {
+                using var scope = _scopeFactory.CreateScope();
+                var scheduleService = scope.ServiceProvider.GetRequiredService<IRecurringScheduleService>();
+                var created = await scheduleService.MaterializeAllAsync();
+
+                Log.Logger
+                    .ForContext("EventType", "RecurringSchedulesMaterialized")
+                    .ForContext("RoutesCreated", created)
+                    .Information("Recurring schedule run generated {RoutesCreated} scheduled routes", created);
+            }
+            catch (Exception ex)
+            {
+                Log.Logger
+                    .ForContext("EventType", "RecurringSchedulesMaterializeError")
+                    .Error(ex, "Recurring schedule run failed");
+            }
+        }
+        while (await timer.WaitForNextTickAsync(stoppingToken));
+    }
+}
@@ -0,0 +1,357 @@
+using System.Globalization;
+using IncomeMeter.Api.DTOs;
+using IncomeMeter.Api.Models;
+using IncomeMeter.Api.Services.Interfaces;
+using MongoDB.Driver;
+using Serilog;
+
+namespace IncomeMeter.Api.Services;
+
+public class RecurringScheduleService : IRecurringScheduleService
+{
+    private readonly IMongoCollection<RecurringSchedule> _schedules;
+    private readonly IMongoCollection<IncomeMeter.Api.Models.Route> _routes;
+    private readonly IWorkTypeConfigService _workTypeConfigService;
+    private readonly IUserService _userService;
+    private readonly ITimezoneService _timezoneService;
+
+    public RecurringScheduleService(
+        MongoDbContext context,
+        IWorkTypeConfigService workTypeConfigService,
+        IUserService userService,
+        ITimezoneService timezoneService)
+    {
+        _schedules = context.RecurringSchedules;
+        _routes = context.Routes;
+        _workTypeConfigService = workTypeConfigService;
+        _userService = userService;
+        _timezoneService = timezoneService;
+    }
+
+    public async Task<List<RecurringSchedule>> GetSchedulesByUserIdAsync(string userId) =>
+        await _schedules.Find(s => s.UserId == userId)
+            .SortBy(s => s.CreatedAt)
+            .ToListAsync();
+
+    public async Task<RecurringSchedule?> GetScheduleByIdAsync(string id, string userId) =>
+        await _schedules.Find(s => s.Id == id && s.UserId == userId).FirstOrDefaultAsync();
+
+    public async Task<RecurringSchedule> CreateScheduleAsync(CreateRecurringScheduleDto dto, string userId)
+    {
+        var workType = await _workTypeConfigService.GetWorkTypeConfigByIdAsync(dto.WorkTypeId, userId)
+            ?? throw new InvalidOperationException("Work type not found.");
+
+        var schedule = new RecurringSchedule
+        {
+            UserId = userId,
+            WorkTypeId = workType.Id,
+            WorkType = workType.Name,
+            Frequency = dto.Frequency,
+            Interval = dto.Interval,
+            DaysOfWeek = dto.DaysOfWeek.Distinct().OrderBy(d => d).ToList(),
+            StartTime = dto.StartTime,
+            EndTime = dto.EndTime,
+            TimeZone = await GetUserTimezoneAsync(userId),
+            StartDate = AsDate(dto.StartDate),
+            EndDate = dto.EndDate.HasValue ? AsDate(dto.EndDate.Value) : null,
+            ExceptionDates = dto.ExceptionDates.Select(AsDate).Distinct().OrderBy(d => d).ToList(),
+            EstimatedIncome = dto.EstimatedIncome,
+            WeeksAhead = dto.WeeksAhead,
+            IsActive = dto.IsActive,
+            CreatedAt = DateTime.UtcNow,
+            UpdatedAt = DateTime.UtcNow
+        };
+
+        Validate(schedule);
+        await _schedules.InsertOneAsync(schedule);
+        await MaterializeScheduleAsync(schedule, DateTime.UtcNow);
+        return schedule;
+    }
+
+    /// <summary>
+    /// Applies the changes and regenerates the schedule's upcoming routes. Upcoming routes that are still
+    /// "scheduled" are replaced, so changes to the pattern, exceptions or estimate reach them.
+    /// </summary>
+    public async Task<RecurringSchedule?> UpdateScheduleAsync(string id, UpdateRecurringScheduleDto dto, string userId)
+    {
+        var schedule = await GetScheduleByIdAsync(id, userId);
+        if (schedule == null)
+        {
+            return null;
+        }
+
+        if (!string.IsNullOrEmpty(dto.WorkTypeId) && dto.WorkTypeId != schedule.WorkTypeId)
+        {
+            var workType = await _workTypeConfigService.GetWorkTypeConfigByIdAsync(dto.WorkTypeId, userId)
+                ?? throw new InvalidOperationException("Work type not found.");
+            schedule.WorkTypeId = workType.Id;
+            schedule.WorkType = workType.Name;
+        }
+
+        if (dto.Frequency != null) schedule.Frequency = dto.Frequency;
+        if (dto.Interval.HasValue) schedule.Interval = dto.Interval.Value;
+        if (dto.DaysOfWeek != null) schedule.DaysOfWeek = dto.DaysOfWeek.Distinct().OrderBy(d => d).ToList();
+        if (dto.StartTime != null) schedule.StartTime = dto.StartTime;
+        if (dto.EndTime != null) schedule.EndTime = dto.EndTime;
+        if (dto.StartDate.HasValue) schedule.StartDate = AsDate(dto.StartDate.Value);
+        if (dto.EndDate.HasValue) schedule.EndDate = AsDate(dto.EndDate.Value);
+        if (dto.ClearEndDate) schedule.EndDate = null;
+        if (dto.ExceptionDates != null) schedule.ExceptionDates = dto.ExceptionDates.Select(AsDate).Distinct().OrderBy(d => d).ToList();
+        if (dto.EstimatedIncome.HasValue) schedule.EstimatedIncome = dto.EstimatedIncome.Value;
+        if (dto.WeeksAhead.HasValue) schedule.WeeksAhead = dto.WeeksAhead.Value;
+        if (dto.IsActive.HasValue) schedule.IsActive = dto.IsActive.Value;
+
+        // Pick up a change to the user's timezone
+        schedule.TimeZone = await GetUserTimezoneAsync(userId);
+        Validate(schedule);
+
+        var nowUtc = DateTime.UtcNow;
+        await RemoveUpcomingRoutesAsync(schedule, nowUtc);
+        schedule.MaterializedThrough = null;
+        schedule.UpdatedAt = nowUtc;
+
+        await _schedules.ReplaceOneAsync(s => s.Id == id && s.UserId == userId, schedule);
+        await MaterializeScheduleAsync(schedule, nowUtc);
+        return schedule;
+    }
+
+    /// <summary>
+    /// Deletes the schedule and its upcoming routes that haven't been started; past routes are kept
+    /// </summary>
+    public async Task<bool> DeleteScheduleAsync(string id, string userId)
+    {
+        var schedule = await GetScheduleByIdAsync(id, userId);
+        if (schedule == null)
+        {
+            return false;
+        }
+
+        await RemoveUpcomingRoutesAsync(schedule, DateTime.UtcNow);
+        var result = await _schedules.DeleteOneAsync(s => s.Id == id && s.UserId == userId);
+        return result.DeletedCount > 0;
+    }
+
+    public async Task<int> MaterializeForUserAsync(string userId)
+    {
+        var schedules = await _schedules.Find(s => s.UserId == userId && s.IsActive).ToListAsync();
+        var nowUtc = DateTime.UtcNow;
+        var created = 0;
+
+        foreach (var schedule in schedules)
+        {
+            created += await MaterializeScheduleAsync(schedule, nowUtc);
+        }
+
+        return created;
+    }
+
+    public async Task<int> MaterializeAllAsync()
+    {
+        var schedules = await _schedules.Find(s => s.IsActive).ToListAsync();
+        var nowUtc = DateTime.UtcNow;
+        var created = 0;
+
+        foreach (var schedule in schedules)
+        {
+            try
+            {
+                created += await MaterializeScheduleAsync(schedule, nowUtc);
+            }
+            catch (Exception ex)
+            {
+                // One bad schedule shouldn't stop everyone else's routes being generated
+                Log.Logger
+                    .ForContext("EventType", "RecurringScheduleMaterializeError")
+                    .ForContext("ScheduleId", schedule.Id?[..Math.Min(8, schedule.Id.Length)] + "***")
+                    .ForContext("UserId", schedule.UserId[..Math.Min(8, schedule.UserId.Length)] + "***")
+                    .Error(ex, "Failed to generate routes for recurring schedule");
+            }
+        }
+
+        return created;
+    }
+
+    /// <summary>
+    /// Occurrences of the schedule starting in [fromUtc, toUtc). Times are local to the schedule's
+    /// timezone, converted with toUtcTime so each occurrence gets the right offset across DST changes.
+    /// </summary>
+    public static List<ScheduleOccurrence> GenerateOccurrences(
+        RecurringSchedule schedule,
+        DateTime fromUtc,
+        DateTime toUtc,
+        Func<DateTime, DateTime> toUtcTime)
+    {
+        var occurrences = new List<ScheduleOccurrence>();
+        var startTime = ParseTime(schedule.StartTime);
+        var endTime = ParseTime(schedule.EndTime);
+        var exceptions = schedule.ExceptionDates.Select(d => d.Date).ToHashSet();
+
+        // Local dates can fall a day either side of the UTC window
+        var firstDate = schedule.StartDate.Date > fromUtc.Date.AddDays(-1) ? schedule.StartDate.Date : fromUtc.Date.AddDays(-1);
+        var lastDate = toUtc.Date.AddDays(1);
+        if (schedule.EndDate.HasValue && schedule.EndDate.Value.Date < lastDate)
+        {
+            lastDate = schedule.EndDate.Value.Date;
+        }
+
+        for (var date = firstDate; date <= lastDate; date = date.AddDays(1))
+        {
+            if (exceptions.Contains(date) || !MatchesPattern(schedule, date))
+            {
+                continue;
+            }
+
+            var localStart = DateTime.SpecifyKind(date + startTime, DateTimeKind.Unspecified);
+            var localEnd = DateTime.SpecifyKind(date.AddDays(endTime <= startTime ? 1 : 0) + endTime, DateTimeKind.Unspecified);
+            var startUtc = toUtcTime(localStart);
+
+            if (startUtc >= fromUtc && startUtc < toUtc)
+            {
+                occurrences.Add(new ScheduleOccurrence(date, startUtc, toUtcTime(localEnd)));
+            }
+        }
+
+        return occurrences;
+    }
+
+    private static bool MatchesPattern(RecurringSchedule schedule, DateTime date)
+    {
+        var startDate = schedule.StartDate.Date;
+        if (date < startDate)
+        {
+            return false;
+        }
+
+        if (schedule.Frequency == ScheduleFrequencies.Daily)
+        {
+            return (date - startDate).Days % schedule.Interval == 0;
+        }
+
+        if (!schedule.DaysOfWeek.Contains((int)date.DayOfWeek))
+        {
+            return false;
+        }
+
+        // Weeks run Monday to Sunday, counted from the week the schedule starts in
+        var weeks = (StartOfWeek(date) - StartOfWeek(startDate)).Days / 7;
+        return weeks % schedule.Interval == 0;
+    }
+
+    private static DateTime StartOfWeek(DateTime date) =>
+        date.AddDays(-(((int)date.DayOfWeek + 6) % 7));
+
+    private static TimeSpan ParseTime(string time) =>
+        TimeSpan.ParseExact(time, @"hh\:mm", CultureInfo.InvariantCulture);
+
+    // Calendar dates are stored as midnight UTC so they don't shift with the server's timezone
+    private static DateTime AsDate(DateTime date) =>
+        DateTime.SpecifyKind(date.Date, DateTimeKind.Utc);
+
+    private async Task<int> MaterializeScheduleAsync(RecurringSchedule schedule, DateTime nowUtc)
+    {
+        if (!schedule.IsActive)
+        {
+            return 0;
+        }
+
+        var fromUtc = schedule.MaterializedThrough > nowUtc ? schedule.MaterializedThrough.Value : nowUtc;
+        var toUtc = nowUtc.AddDays(7 * schedule.WeeksAhead);
+        if (toUtc <= fromUtc)
+        {
+            return 0;
+        }
+
+        var occurrences = GenerateOccurrences(schedule, fromUtc, toUtc,
+            local => _timezoneService.ConvertToUtc(local, schedule.TimeZone));
+
+        // Skip any occurrence a concurrent run has already created
+        var existingStarts = (await _routes
+            .Find(r => r.UserId == schedule.UserId &&
+                       r.RecurringScheduleId == schedule.Id &&
+                       r.ScheduleStart >= fromUtc &&
+                       r.ScheduleStart < toUtc)
+            .Project(r => r.ScheduleStart)
+            .ToListAsync()).ToHashSet();
+
+        var routes = occurrences
+            .Where(o => !existingStarts.Contains(o.StartUtc))
+            .Select(o => new IncomeMeter.Api.Models.Route
+            {
+                UserId = schedule.UserId,
+                WorkType = schedule.WorkType,
+                WorkTypeId = schedule.WorkTypeId,
+                RecurringScheduleId = schedule.Id,
+                Status = "scheduled",
+                ScheduleStart = o.StartUtc,
+                ScheduleEnd = o.EndUtc,
+                EstimatedIncome = schedule.EstimatedIncome ?? 0,
+                CreatedAt = nowUtc,
+                UpdatedAt = nowUtc
+            })
+            .ToList();
+
+        if (routes.Count > 0)
+        {
+            await _routes.InsertManyAsync(routes);
+        }
+
+        schedule.MaterializedThrough = toUtc;
+        await _schedules.UpdateOneAsync(s => s.Id == schedule.Id,
+            Builders<RecurringSchedule>.Update.Set(s => s.MaterializedThrough, toUtc));
+
+        if (routes.Count > 0)
+        {
+            Log.Logger
+                .ForContext("EventType", "RecurringScheduleMaterialized")
+                .ForContext("ScheduleId", schedule.Id?[..Math.Min(8, schedule.Id.Length)] + "***")
+                .ForContext("UserId", schedule.UserId[..Math.Min(8, schedule.UserId.Length)] + "***")
+                .ForContext("RoutesCreated", routes.Count)
+                .Information("Generated scheduled routes from recurring schedule");
+        }
+
+        return routes.Count;
+    }
+
+    // Routes already started, completed or cancelled are history and stay put
+    private async Task RemoveUpcomingRoutesAsync(RecurringSchedule schedule, DateTime nowUtc) =>
+        await _routes.DeleteManyAsync(r => r.UserId == schedule.UserId &&
+                                           r.RecurringScheduleId == schedule.Id &&
+                                           r.Status == "scheduled" &&
+                                           r.ScheduleStart > nowUtc);
+
+    private async Task<string> GetUserTimezoneAsync(string userId)
+    {
+        var user = await _userService.GetUserByIdAsync(userId);
+        return user?.Settings?.TimeZone ?? "UTC";
+    }
+
+    private static void Validate(RecurringSchedule schedule)
+    {
+        if (!ScheduleFrequencies.IsValid(schedule.Frequency))
+        {
+            throw new InvalidOperationException(
+                $"Unsupported frequency '{schedule.Frequency}'. Expected one of: {string.Join(", ", ScheduleFrequencies.All)}.");
+        }
+
+        if (schedule.Interval < 1)
+        {
+            throw new InvalidOperationException("Interval must be at least 1.");
+        }
+
+        if (schedule.Frequency == ScheduleFrequencies.Weekly &&
+            (schedule.DaysOfWeek.Count == 0 || schedule.DaysOfWeek.Any(d => d < 0 || d > 6)))
+        {
+            throw new InvalidOperationException("Weekly schedules need at least one day of the week (0 = Sunday to 6 = Saturday).");
+        }
+
+        if (schedule.StartTime == schedule.EndTime)
+        {
+            throw new InvalidOperationException("Start and end times must be different.");
+        }
+
+        if (schedule.EndDate.HasValue && schedule.EndDate.Value < schedule.StartDate)
+        {
+            throw new InvalidOperationException("End date must be on or after the start date.");
+        }
+    }
+}
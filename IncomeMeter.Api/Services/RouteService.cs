@@ -1,4 +1,10 @@
-﻿using MongoDB.Driver;
+﻿using System.Text;
+using System.Text.RegularExpressions;
+using Microsoft.AspNetCore.WebUtilities;
+using MongoDB.Bson;
+using MongoDB.Bson.IO;
+using MongoDB.Bson.Serialization;
+using MongoDB.Driver;
 using IncomeMeter.Api.DTOs;
 using IncomeMeter.Api.Models;
 using IncomeMeter.Api.Services.Interfaces;
@@ -11,6 +17,10 @@ public class RouteService : IRouteService
     private readonly ITimezoneService _timezoneService;
     private readonly IUserService _userService;
 
+    // Computed per document so every sort order, including earnings, can be paged by one field
+    private const string SortKeyField = "sortKey";
+    private static readonly BsonArray StatusSortOrder = new() { "scheduled", "in_progress", "completed", "cancelled" };
+
     public RouteService(MongoDbContext context, ITimezoneService timezoneService, IUserService userService)
     {
         _routes = context.Routes;// Initialize the routes collection from the context
@@ -64,6 +74,8 @@ public class RouteService : IRouteService
             TotalIncome = routeDto.Incomes.Sum(i => i.Amount),
             Distance = ((routeDto.StartMile.HasValue && routeDto.EndMile.HasValue) ? Math.Abs(routeDto.EndMile.Value - routeDto.StartMile.Value): 0),
             EstimatedIncome = routeDto.EstimatedIncome ?? 0,
+            Notes = string.IsNullOrWhiteSpace(routeDto.Notes) ? null : routeDto.Notes.Trim(),
+            CalendarUid = string.IsNullOrWhiteSpace(routeDto.CalendarUid) ? null : routeDto.CalendarUid,
             CreatedAt = DateTime.UtcNow,
             UpdatedAt = DateTime.UtcNow
         };
@@ -400,9 +412,16 @@ public class RouteService : IRouteService
         if (routeDto.EndMile.HasValue)
             updates.Add(updateBuilder.Set(r => r.EndMile, routeDto.EndMile.Value));
 
+        if (routeDto.Distance.HasValue && !(routeDto.StartMile.HasValue && routeDto.EndMile.HasValue))
+            updates.Add(updateBuilder.Set(r => r.Distance, routeDto.Distance.Value));
+
         if (!string.IsNullOrEmpty(routeDto.Status))
             updates.Add(updateBuilder.Set(r => r.Status, routeDto.Status));
 
+        // An empty string clears the notes
+        if (routeDto.Notes != null)
+            updates.Add(updateBuilder.Set(r => r.Notes, string.IsNullOrWhiteSpace(routeDto.Notes) ? null : routeDto.Notes.Trim()));
+
         if (updates.Count == 0)
         {
             // No changes to make
@@ -425,6 +444,22 @@ public class RouteService : IRouteService
         return result;
     }
 
+    // Sets the distance from a source other than the odometer, e.g. a GPS trail imported for a route without mileage readings
+    public async Task<Models.Route?> UpdateRouteDistanceAsync(string id, double distance, string userId)
+    {
+        var filter = Builders<Models.Route>.Filter.And(
+            Builders<Models.Route>.Filter.Eq(r => r.Id, id),
+            Builders<Models.Route>.Filter.Eq(r => r.UserId, userId)
+        );
+
+        var update = Builders<Models.Route>.Update
+            .Set(r => r.Distance, distance)
+            .Set(r => r.UpdatedAt, DateTime.UtcNow);
+
+        return await _routes.FindOneAndUpdateAsync(filter, update,
+            new FindOneAndUpdateOptions<Models.Route> { ReturnDocument = ReturnDocument.After });
+    }
+
     public async Task<bool> DeleteRouteAsync(string id, string userId)
     {
         var filter = Builders<Models.Route>.Filter.And(
@@ -455,4 +490,135 @@ public class RouteService : IRouteService
             .SortByDescending(r => r.ScheduleStart)
             .ToListAsync();
     }
-}
\ No newline at end of file
+
+    public async Task<RoutePageDto> GetRoutePageAsync(string userId, RouteQueryDto query)
+    {
+        if (!RouteSortOptions.All.Contains(query.Sort))
+            throw new ArgumentException($"Unknown sort '{query.Sort}'");
+
+        var limit = Math.Clamp(query.Limit, 1, RouteQueryDto.MaxLimit);
+        var filter = BuildRouteFilter(userId, query);
+        var descending = query.Sort is RouteSortOptions.Newest or RouteSortOptions.HighestEarn
+            or RouteSortOptions.StatusDesc or RouteSortOptions.WorkTypeZA;
+        var direction = descending ? -1 : 1;
+
+        var pipeline = _routes.Aggregate()
+            .Match(filter)
+            .AppendStage<BsonDocument>(new BsonDocument("$addFields", new BsonDocument(SortKeyField, GetSortKeyExpression(query.Sort))));
+
+        if (!string.IsNullOrEmpty(query.Cursor))
+        {
+            // Continue after the last route of the previous page; the id breaks ties between equal sort keys
+            var (sortKey, lastId) = DecodeRouteCursor(query.Cursor, query.Sort);
+            var comparison = descending ? "$lt" : "$gt";
+            pipeline = pipeline.Match(new BsonDocument("$or", new BsonArray
+            {
+                new BsonDocument(SortKeyField, new BsonDocument(comparison, sortKey)),
+                new BsonDocument { { SortKeyField, sortKey }, { "_id", new BsonDocument(comparison, lastId) } }
+            }));
+        }
+
+        // One document more than the page tells whether another page follows
+        var documents = await pipeline
+            .Sort(new BsonDocument { { SortKeyField, direction }, { "_id", direction } })
+            .Limit(limit + 1)
+            .ToListAsync();
+
+        var pageDocuments = documents.Take(limit).ToList();
+        var nextCursor = documents.Count > limit
+            ? EncodeRouteCursor(query.Sort, pageDocuments[^1][SortKeyField], pageDocuments[^1]["_id"].AsObjectId)
+            : null;
+
+        return new RoutePageDto
+        {
+            Items = pageDocuments.Select(document =>
+            {
+                document.Remove(SortKeyField);
+                return BsonSerializer.Deserialize<Models.Route>(document);
+            }).ToList(),
+            NextCursor = nextCursor,
+            TotalCount = string.IsNullOrEmpty(query.Cursor) ? await _routes.CountDocumentsAsync(filter) : null
+        };
+    }
+
+    private static FilterDefinition<Models.Route> BuildRouteFilter(string userId, RouteQueryDto query)
+    {
+        var builder = Builders<Models.Route>.Filter;
+        var filters = new List<FilterDefinition<Models.Route>> { builder.Eq(r => r.UserId, userId) };
+
+        if (!string.IsNullOrEmpty(query.Status) && query.Status != "all")
+            filters.Add(builder.Eq(r => r.Status, query.Status));
+
+        // Whole days, as in GetRoutesByDateRangeAsync
+        if (query.StartDate.HasValue)
+            filters.Add(builder.Gte(r => r.ScheduleStart, query.StartDate.Value.Date));
+
+        if (query.EndDate.HasValue)
+            filters.Add(builder.Lte(r => r.ScheduleStart, query.EndDate.Value.Date.AddDays(1).AddTicks(-1)));
+
+        if (query.WorkTypes.Count > 0)
+            filters.Add(builder.In(r => r.WorkType, query.WorkTypes));
+
+        if (query.IncomeSources.Count > 0)
+            filters.Add(builder.ElemMatch(r => r.Incomes, Builders<IncomeItem>.Filter.In(i => i.Source, query.IncomeSources)));
+
+        if (!string.IsNullOrWhiteSpace(query.Search))
+        {
+            var pattern = new BsonRegularExpression(Regex.Escape(query.Search.Trim()), "i");
+            filters.Add(builder.Or(
+                builder.Regex(r => r.WorkType, pattern),
+                builder.ElemMatch(r => r.Incomes, Builders<IncomeItem>.Filter.Regex(i => i.Source, pattern)),
+                builder.Regex(r => r.Notes, pattern)));
+        }
+
+        return builder.And(filters);
+    }
+
+    // Mirrors sortRoutes in the frontend: earnings fall back to the estimate, statuses follow the route lifecycle
+    private static BsonValue GetSortKeyExpression(string sort) => sort switch
+    {
+        RouteSortOptions.HighestEarn or RouteSortOptions.LowestEarn => new BsonDocument("$cond", new BsonArray
+        {
+            new BsonDocument("$gt", new BsonArray { "$totalIncome", 0 }),
+            "$totalIncome",
+            new BsonDocument("$ifNull", new BsonArray { "$estimatedIncome", 0 })
+        }),
+        RouteSortOptions.StatusAsc or RouteSortOptions.StatusDesc =>
+            new BsonDocument("$indexOfArray", new BsonArray { StatusSortOrder, "$status" }),
+        RouteSortOptions.WorkTypeAZ or RouteSortOptions.WorkTypeZA =>
+            new BsonDocument("$toLower", new BsonDocument("$ifNull", new BsonArray { "$workType", "" })),
+        _ => "$scheduleStart"
+    };
+
+    /// <summary>
+    /// Opaque cursor holding the sort key and id of the last route on a page
+    /// </summary>
+    public static string EncodeRouteCursor(string sort, BsonValue sortKey, ObjectId lastId)
+    {
+        var cursor = new BsonDocument { { "sort", sort }, { "key", sortKey }, { "id", lastId } };
+        // Canonical JSON keeps dates and decimals as their BSON types
+        var json = cursor.ToJson(new JsonWriterSettings { OutputMode = JsonOutputMode.CanonicalExtendedJson });
+        return Base64UrlTextEncoder.Encode(Encoding.UTF8.GetBytes(json));
+    }
+
+    public static (BsonValue SortKey, ObjectId LastId) DecodeRouteCursor(string cursor, string sort)
+    {
+        BsonDocument document;
+        try
+        {
+            document = BsonDocument.Parse(Encoding.UTF8.GetString(Base64UrlTextEncoder.Decode(cursor)));
+        }
+        catch (Exception ex) when (ex is FormatException or BsonException)
+        {
+            throw new ArgumentException("Invalid cursor", ex);
+        }
+
+        if (!document.TryGetValue("sort", out var cursorSort) || !cursorSort.IsString || cursorSort.AsString != sort)
+            throw new ArgumentException("Cursor was issued for a different sort order");
+
+        if (!document.TryGetValue("key", out var sortKey) || !document.TryGetValue("id", out var lastId) || !lastId.IsObjectId)
+            throw new ArgumentException("Invalid cursor");
+
+        return (sortKey, lastId.AsObjectId);
+    }
+}
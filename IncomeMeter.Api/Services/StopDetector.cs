@@ -0,0 +1,94 @@
+using IncomeMeter.Api.DTOs;
+using IncomeMeter.Api.Models;
+
+namespace IncomeMeter.Api.Services;
+
+/// <summary>
+/// Finds the places a route's location trail stayed put - waiting at a restaurant, a pickup point or
+/// a red light that went on too long - and splits the trail's time into driving and waiting
+/// </summary>
+public static class StopDetector
+{
+    public const double StopRadiusMeters = 75;
+    public const double MovingSpeedKmh = 8;
+    public static readonly TimeSpan MinDwellTime = TimeSpan.FromMinutes(3);
+
+    /// <summary>
+    /// Consecutive fixes that stay within <see cref="StopRadiusMeters"/> of their running centre, none of
+    /// them reporting a moving speed, form a stop once they span at least <see cref="MinDwellTime"/>
+    /// </summary>
+    public static List<DwellSegmentDto> DetectStops(IEnumerable<Location> locations)
+    {
+        var points = locations.OrderBy(l => l.Timestamp).ToList();
+        var stops = new List<DwellSegmentDto>();
+
+        var start = 0;
+        while (start < points.Count)
+        {
+            if (IsMoving(points[start]))
+            {
+                start++;
+                continue;
+            }
+
+            var latitude = points[start].Latitude;
+            var longitude = points[start].Longitude;
+            var end = start + 1;
+            while (end < points.Count && !IsMoving(points[end]) &&
+                   LocationService.CalculateDistanceKm(latitude, longitude, points[end].Latitude, points[end].Longitude) * 1000 <= StopRadiusMeters)
+            {
+                var count = end - start + 1;
+                latitude += (points[end].Latitude - latitude) / count;
+                longitude += (points[end].Longitude - longitude) / count;
+                end++;
+            }
+
+            var first = points[start];
+            var last = points[end - 1];
+            if (last.Timestamp - first.Timestamp < MinDwellTime)
+            {
+                start++;
+                continue;
+            }
+
+            stops.Add(new DwellSegmentDto
+            {
+                StartTime = first.Timestamp,
+                EndTime = last.Timestamp,
+                DurationMinutes = Math.Round((last.Timestamp - first.Timestamp).TotalMinutes, 1),
+                Latitude = Math.Round(latitude, 6),
+                Longitude = Math.Round(longitude, 6),
+                PointCount = end - start,
+                Address = points.Skip(start).Take(end - start).Select(l => l.Address).FirstOrDefault(a => !string.IsNullOrEmpty(a))
+            });
+            start = end;
+        }
+
+        return stops;
+    }
+
+    /// <summary>
+    /// Stops along with the trail's time split between them and driving, from the first fix to the last
+    /// </summary>
+    public static RouteStopsDto Analyze(string routeId, IEnumerable<Location> locations)
+    {
+        var points = locations.ToList();
+        var stops = DetectStops(points);
+
+        var trailMinutes = points.Count > 1
+            ? (points.Max(l => l.Timestamp) - points.Min(l => l.Timestamp)).TotalMinutes
+            : 0;
+        var waitingMinutes = stops.Sum(s => s.DurationMinutes);
+
+        return new RouteStopsDto
+        {
+            RouteId = routeId,
+            Stops = stops,
+            DrivingMinutes = Math.Round(Math.Max(0, trailMinutes - waitingMinutes), 1),
+            WaitingMinutes = Math.Round(waitingMinutes, 1)
+        };
+    }
+
+    // Speed is in km/h; fixes without one are judged by position alone
+    private static bool IsMoving(Location location) => location.Speed.HasValue && location.Speed.Value > MovingSpeedKmh;
+}
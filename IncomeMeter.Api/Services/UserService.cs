@@ -9,6 +9,9 @@ namespace IncomeMeter.Api.Services;
 
 public class UserService : IUserService
 {
+    // Matches the refresh tokens issued to mobile clients
+    public static readonly TimeSpan RefreshTokenLifetime = TimeSpan.FromDays(30);
+
     private readonly IMongoCollection<User> _users;
     private readonly DefaultWorkTypeService _defaultWorkTypeService;
 
@@ -78,8 +81,7 @@ public class UserService : IUserService
 
         // Generate key and its hash
         var apiKey = Convert.ToBase64String(RandomNumberGenerator.GetBytes(32));
-        using var sha256 = SHA256.Create();
-        var keyHash = BitConverter.ToString(sha256.ComputeHash(Encoding.UTF8.GetBytes(apiKey))).Replace("-", "").ToLower();
+        var keyHash = HashToken(apiKey);
 
         var newApiKey = new ApiKey
         {
@@ -109,6 +111,77 @@ public class UserService : IUserService
         return null;
     }
 
+    public async Task<SessionRefreshToken> IssueRefreshTokenAsync(string userId, string? ipAddress = null)
+    {
+        var user = await _users.Find(u => u.Id == userId).FirstOrDefaultAsync();
+        if (user == null) throw new KeyNotFoundException("User not found.");
+
+        var (issued, stored) = CreateRefreshToken(ipAddress);
+
+        // Drop expired and revoked sessions while we're here so the list doesn't grow with every login
+        var refreshTokens = user.RefreshTokens.Where(rt => rt.IsActive).Append(stored).ToList();
+        var update = Builders<User>.Update.Set(u => u.RefreshTokens, refreshTokens);
+        await _users.UpdateOneAsync(u => u.Id == userId, update);
+
+        return issued;
+    }
+
+    public async Task<RefreshTokenRotationResult?> RotateRefreshTokenAsync(string refreshToken, string? ipAddress = null)
+    {
+        var tokenHash = HashToken(refreshToken);
+        var user = await _users.Find(u => u.RefreshTokens.Any(rt => rt.Token == tokenHash)).FirstOrDefaultAsync();
+        var current = user?.RefreshTokens.FirstOrDefault(rt => rt.Token == tokenHash);
+        if (user == null || current == null || !current.IsActive)
+        {
+            return null;
+        }
+
+        var (issued, stored) = CreateRefreshToken(ipAddress);
+        var refreshTokens = user.RefreshTokens
+            .Where(rt => rt.Token != tokenHash && rt.IsActive)
+            .Append(stored)
+            .ToList();
+
+        // Only replace the list if the presented token is still in it, so two renewals racing on one token can't both succeed
+        var filter = Builders<User>.Filter.And(
+            Builders<User>.Filter.Eq(u => u.Id, user.Id),
+            Builders<User>.Filter.ElemMatch(u => u.RefreshTokens, rt => rt.Token == tokenHash)
+        );
+        var result = await _users.UpdateOneAsync(filter, Builders<User>.Update.Set(u => u.RefreshTokens, refreshTokens));
+        if (result.ModifiedCount == 0)
+        {
+            return null;
+        }
+
+        user.RefreshTokens = refreshTokens;
+        return new RefreshTokenRotationResult { User = user, RefreshToken = issued };
+    }
+
+    public async Task<bool> RevokeRefreshTokenAsync(string refreshToken)
+    {
+        var tokenHash = HashToken(refreshToken);
+        var update = Builders<User>.Update.PullFilter(u => u.RefreshTokens, rt => rt.Token == tokenHash);
+        var result = await _users.UpdateOneAsync(u => u.RefreshTokens.Any(rt => rt.Token == tokenHash), update);
+        return result.ModifiedCount > 0;
+    }
+
+    private static (SessionRefreshToken Issued, RefreshToken Stored) CreateRefreshToken(string? ipAddress)
+    {
+        var token = Convert.ToBase64String(RandomNumberGenerator.GetBytes(64));
+        var expiresAt = DateTime.UtcNow.Add(RefreshTokenLifetime);
+
+        return (
+            new SessionRefreshToken { Token = token, ExpiresAt = expiresAt },
+            new RefreshToken { Token = HashToken(token), ExpiresAt = expiresAt, CreatedByIp = ipAddress }
+        );
+    }
+
+    private static string HashToken(string token)
+    {
+        using var sha256 = SHA256.Create();
+        return BitConverter.ToString(sha256.ComputeHash(Encoding.UTF8.GetBytes(token))).Replace("-", "").ToLower();
+    }
+
     // Phase 1: Helper method to update user's assigned work type IDs
     private async Task UpdateUserWorkTypeIdsAsync(string userId, List<string> workTypeIds)
     {
@@ -2,6 +2,7 @@ import { BrowserRouter as Router, Routes, Route, Navigate } from 'react-router-d
 import { AuthProvider } from './contexts/AuthContext';
 import { SettingsProvider } from './contexts/SettingsContext';
 import { LanguageProvider } from './contexts/LanguageContext';
+import { OutboxProvider } from './contexts/OutboxContext';
 import Layout from './components/Layout/Layout';
 import Dashboard from './components/Pages/Dashboard';
 import Login from './components/Pages/Login';
@@ -11,8 +12,16 @@ import Profile from './components/Pages/Profile';
 import RouteList from './components/Pages/RouteList';
 import RouteDetails from './components/Pages/RouteDetails';
 import EnhancedRouteList from './components/Pages/EnhancedRouteList';
+import TaxSummary from './components/Pages/TaxSummary';
+import MileageReconciliation from './components/Pages/MileageReconciliation';
+import EarningsMap from './components/Pages/EarningsMap';
+import ExpenseList from './components/Pages/ExpenseList';
+import GoalHistory from './components/Pages/GoalHistory';
+import RouteCalendar from './components/Pages/RouteCalendar';
+import LiveTracker from './components/Pages/LiveTracker';
 import ProtectedRoute from './components/Auth/ProtectedRoute';
 import AuthCallback from './components/Auth/AuthCallback';
+import SessionExpiredModal from './components/Auth/SessionExpiredModal';
 import './i18n';
 // import TokenDisplay from './components/Debug/TokenDisplay';
 
@@ -21,26 +30,37 @@ function App() {
     <AuthProvider>
       <SettingsProvider>
         <LanguageProvider>
-          <Router>
-            <div className="min-h-screen bg-gray-50">
-              <Routes>
-                <Route path="/login" element={<Login />} />
-                <Route path="/register" element={<Register />} />
-                <Route path="/auth-callback" element={<AuthCallback />} />
-                <Route path="/" element={<ProtectedRoute><Layout /></ProtectedRoute>}>
-                  <Route index element={<Navigate to="/dashboard" replace />} />
-                  <Route path="dashboard" element={<Dashboard />} />
-                  <Route path="routes" element={<RouteList />} />
-                  <Route path="routes/manage" element={<EnhancedRouteList />} />
-                  <Route path="routes/:id" element={<RouteDetails />} />
-                  <Route path="profile" element={<Profile />} />
-                  <Route path="settings" element={<Settings />} />
-                </Route>
-                <Route path="*" element={<Navigate to="/dashboard" replace />} />
-              </Routes>
-              {/* <TokenDisplay /> */}
-            </div>
-          </Router>
+          <OutboxProvider>
+            <Router>
+              <div className="min-h-screen bg-gray-50">
+                <Routes>
+                  <Route path="/login" element={<Login />} />
+                  <Route path="/register" element={<Register />} />
+                  <Route path="/auth-callback" element={<AuthCallback />} />
+                  <Route path="/" element={<ProtectedRoute><Layout /></ProtectedRoute>}>
+                    <Route index element={<Navigate to="/dashboard" replace />} />
+                    <Route path="dashboard" element={<Dashboard />} />
+                    <Route path="routes" element={<RouteList />} />
+                    <Route path="routes/manage" element={<EnhancedRouteList />} />
+                    <Route path="routes/calendar" element={<RouteCalendar />} />
+                    <Route path="routes/live" element={<LiveTracker />} />
+                    <Route path="routes/:id" element={<RouteDetails />} />
+                    <Route path="routes/:id/live" element={<LiveTracker />} />
+                    <Route path="expenses" element={<ExpenseList />} />
+                    <Route path="tax-summary" element={<TaxSummary />} />
+                    <Route path="tax-summary/mileage" element={<MileageReconciliation />} />
+                    <Route path="earnings-map" element={<EarningsMap />} />
+                    <Route path="goals" element={<GoalHistory />} />
+                    <Route path="profile" element={<Profile />} />
+                    <Route path="settings" element={<Settings />} />
+                  </Route>
+                  <Route path="*" element={<Navigate to="/dashboard" replace />} />
+                </Routes>
+                <SessionExpiredModal />
+                {/* <TokenDisplay /> */}
+              </div>
+            </Router>
+          </OutboxProvider>
         </LanguageProvider>
       </SettingsProvider>
     </AuthProvider>
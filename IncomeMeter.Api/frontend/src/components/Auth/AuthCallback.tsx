@@ -3,6 +3,7 @@ import { useNavigate, useSearchParams } from 'react-router-dom';
 import { useAuth } from '../../contexts/AuthContext';
 import { useLanguage } from '../../contexts/LanguageContext';
 import { API_BASE_URL } from '../../utils/api';
+import { SIGN_IN_WINDOW_NAME, storeSession } from '../../utils/session';
 
 const AuthCallback: React.FC = () => {
   const navigate = useNavigate();
@@ -29,7 +30,13 @@ const AuthCallback: React.FC = () => {
         console.log('==================================');
         
         // Store the token
-        localStorage.setItem('accessToken', token);
+        storeSession(token);
+
+        // Signed in again from the session-expired prompt: the opener picks the tokens up from storage
+        if (window.name === SIGN_IN_WINDOW_NAME && window.opener) {
+          window.close();
+          return;
+        }
         
         // Fetch user profile and update auth context
         try {
@@ -0,0 +1,45 @@
+import React from 'react';
+import { useAuth } from '../../contexts/AuthContext';
+import { useLanguage } from '../../contexts/LanguageContext';
+
+/**
+ * Shown over the current page when the session can't be renewed. Requests made meanwhile are held
+ * and sent once the user has signed in again, so nothing typed into the page is lost.
+ */
+const SessionExpiredModal: React.FC = () => {
+  const { sessionExpired, signInAgain, endExpiredSession } = useAuth();
+  const { t } = useLanguage();
+
+  if (!sessionExpired) return null;
+
+  return (
+    <div className="fixed inset-0 bg-gray-600 bg-opacity-50 overflow-y-auto h-full w-full z-[2000]" role="dialog" aria-modal="true">
+      <div className="relative top-20 mx-auto p-5 border w-96 max-w-[calc(100%-2rem)] shadow-lg rounded-md bg-white">
+        <div className="mt-3 text-center">
+          <h3 className="text-lg font-medium text-gray-900">{t('auth.sessionExpired.title')}</h3>
+          <div className="mt-2 px-7 py-3">
+            <p className="text-sm text-gray-500">{t('auth.sessionExpired.message')}</p>
+          </div>
+          <div className="flex flex-col gap-2 px-4 py-3">
+            <button
+              type="button"
+              onClick={signInAgain}
+              className="w-full px-4 py-2 bg-blue-600 text-white text-sm font-medium rounded-md shadow-sm hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              {t('auth.sessionExpired.signIn')}
+            </button>
+            <button
+              type="button"
+              onClick={endExpiredSession}
+              className="w-full px-4 py-2 bg-white text-gray-700 text-sm font-medium rounded-md border border-gray-300 hover:bg-gray-50"
+            >
+              {t('auth.sessionExpired.leave')}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SessionExpiredModal;
@@ -0,0 +1,70 @@
+import React from 'react';
+import { useLanguage } from '../../contexts/LanguageContext';
+import { useSettings } from '../../contexts/SettingsContext';
+import { getDisplayDistance } from '../../utils/distance';
+import type { MetricDelta, PeriodComparison } from '../../utils/periodComparison';
+
+interface ComparisonSummaryProps {
+  comparison: PeriodComparison;
+  comparisonLabel: string;
+  comparisonDisplay: string;
+  className?: string;
+}
+
+const ComparisonSummary: React.FC<ComparisonSummaryProps> = ({
+  comparison,
+  comparisonLabel,
+  comparisonDisplay,
+  className = '',
+}) => {
+  const { t } = useLanguage();
+  const { formatCurrency, settings } = useSettings();
+
+  const formatDistance = (distance: number) => getDisplayDistance(distance, 'km', settings.mileageUnit).formatted;
+
+  const metrics: Array<{ key: keyof PeriodComparison; label: string; format: (value: number) => string }> = [
+    { key: 'income', label: t('dashboard.stats.income'), format: formatCurrency },
+    { key: 'routes', label: t('routes.title'), format: (value) => String(value) },
+    { key: 'distance', label: t('routes.details.distance'), format: formatDistance },
+    { key: 'hourlyRate', label: t('dashboard.stats.hourlyRate'), format: (value) => `${formatCurrency(value)}/h` },
+  ];
+
+  const renderChange = (delta: MetricDelta) => {
+    if (delta.difference === 0) {
+      return <span className="text-gray-500">{t('dashboard.comparison.noChange')}</span>;
+    }
+
+    const isUp = delta.difference > 0;
+    return (
+      <span className={isUp ? 'text-green-600' : 'text-red-600'}>
+        {isUp ? '▲' : '▼'} {delta.percentChange !== null ? `${Math.abs(delta.percentChange).toFixed(1)}%` : t('dashboard.comparison.new')}
+      </span>
+    );
+  };
+
+  return (
+    <div className={`dashboard-card ${className}`}>
+      <div className="flex flex-col sm:flex-row sm:items-baseline sm:justify-between mb-4 gap-1">
+        <h3 className="text-lg font-semibold text-gray-900">{t('dashboard.comparison.title', { label: comparisonLabel.toLowerCase() })}</h3>
+        <span className="text-sm text-gray-500">{comparisonDisplay}</span>
+      </div>
+      <div className="grid grid-cols-2 lg:grid-cols-4 gap-4">
+        {metrics.map(({ key, label, format }) => {
+          const delta = comparison[key];
+          return (
+            <div key={key} className="p-3 bg-gray-50 rounded-lg border border-gray-200">
+              <p className="text-xs text-gray-600 uppercase tracking-wide">{label}</p>
+              <p className="text-lg font-bold text-gray-900 mt-1">{format(delta.current)}</p>
+              <p className="text-xs mt-1">
+                {renderChange(delta)}
+                <span className="text-gray-500 ml-1">{t('dashboard.comparison.vs', { value: format(delta.previous) })}</span>
+              </p>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default ComparisonSummary;
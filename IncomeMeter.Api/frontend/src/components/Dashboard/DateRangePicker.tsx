@@ -0,0 +1,66 @@
+import React, { useState, useEffect } from 'react';
+import { useLanguage } from '../../contexts/LanguageContext';
+import { getDateRangeFromSelection, type CustomDateRange } from '../../utils/timeRangeUtils';
+
+interface DateRangePickerProps {
+  value: CustomDateRange;
+  onApply: (range: CustomDateRange) => void;
+  className?: string;
+}
+
+const DateRangePicker: React.FC<DateRangePickerProps> = ({ value, onApply, className = '' }) => {
+  const { t } = useLanguage();
+  const [draft, setDraft] = useState<CustomDateRange>(value);
+
+  useEffect(() => {
+    setDraft(value);
+  }, [value]);
+
+  const isValid = getDateRangeFromSelection('custom', draft) !== null;
+  const isChanged = draft.from !== value.from || draft.to !== value.to;
+
+  const inputClass = 'px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent';
+
+  return (
+    <form
+      className={`flex flex-wrap items-end gap-3 ${className}`}
+      onSubmit={(e) => {
+        e.preventDefault();
+        if (isValid) onApply(draft);
+      }}
+    >
+      <label className="text-sm text-gray-700">
+        <span className="block mb-1">{t('dashboard.customRange.from')}</span>
+        <input
+          type="date"
+          value={draft.from}
+          max={draft.to}
+          onChange={(e) => setDraft(prev => ({ ...prev, from: e.target.value }))}
+          className={inputClass}
+        />
+      </label>
+      <label className="text-sm text-gray-700">
+        <span className="block mb-1">{t('dashboard.customRange.to')}</span>
+        <input
+          type="date"
+          value={draft.to}
+          min={draft.from}
+          onChange={(e) => setDraft(prev => ({ ...prev, to: e.target.value }))}
+          className={inputClass}
+        />
+      </label>
+      <button
+        type="submit"
+        disabled={!isValid || !isChanged}
+        className="px-4 py-2 text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 disabled:bg-blue-300 rounded-md"
+      >
+        {t('dashboard.customRange.apply')}
+      </button>
+      {!isValid && (
+        <p className="w-full text-xs text-red-600">{t('dashboard.customRange.invalid')}</p>
+      )}
+    </form>
+  );
+};
+
+export default DateRangePicker;
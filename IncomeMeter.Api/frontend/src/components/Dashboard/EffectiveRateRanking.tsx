@@ -0,0 +1,96 @@
+import React, { useState, useMemo } from 'react';
+import { Link } from 'react-router-dom';
+import { useLanguage } from '../../contexts/LanguageContext';
+import { useSettings } from '../../contexts/SettingsContext';
+import { formatHoursCompact } from '../../utils/time';
+import { getCostPerMile, getIncomeSourceRates, getWorkTypeRates, isVehicleCostModelSet } from '../../utils/vehicleCosts';
+import type { PeriodIncomeData } from '../../types';
+
+interface EffectiveRateRankingProps {
+  incomeBySource: PeriodIncomeData['incomeBySource'];
+  className?: string;
+}
+
+type RankingGroup = 'workType' | 'incomeSource';
+
+const EffectiveRateRanking: React.FC<EffectiveRateRankingProps> = ({ incomeBySource, className = '' }) => {
+  const { t } = useLanguage();
+  const { settings, formatCurrency } = useSettings();
+  const [group, setGroup] = useState<RankingGroup>('workType');
+
+  const costPerMile = getCostPerMile(settings.vehicleCosts);
+  const rates = useMemo(
+    () => group === 'workType'
+      ? getWorkTypeRates(incomeBySource, costPerMile)
+      : getIncomeSourceRates(incomeBySource, costPerMile),
+    [group, incomeBySource, costPerMile]
+  );
+
+  if (Object.keys(incomeBySource).length === 0) return null;
+
+  return (
+    <div className={`dashboard-card ${className}`}>
+      <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+        <h3 className="text-lg font-semibold text-gray-900">{t('vehicleCosts.ranking.title')}</h3>
+        <div className="inline-flex rounded-md border border-gray-300 overflow-hidden text-sm">
+          {(['workType', 'incomeSource'] as RankingGroup[]).map(option => (
+            <button
+              key={option}
+              type="button"
+              onClick={() => setGroup(option)}
+              className={`px-3 py-1 ${group === option ? 'bg-blue-600 text-white' : 'bg-white text-gray-700 hover:bg-gray-50'}`}
+            >
+              {t(`vehicleCosts.ranking.${option}`)}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {!isVehicleCostModelSet(settings.vehicleCosts) && (
+        <p className="mb-4 text-sm text-amber-700 bg-amber-50 border border-amber-200 rounded-md px-3 py-2">
+          {t('vehicleCosts.ranking.noModel')}{' '}
+          <Link to="/settings" className="font-medium underline">{t('vehicleCosts.ranking.setUp')}</Link>
+        </p>
+      )}
+
+      <div className="overflow-x-auto">
+        <table className="min-w-full text-sm">
+          <thead>
+            <tr className="text-left text-gray-600 border-b border-gray-200">
+              <th className="py-2 pr-3 font-medium">#</th>
+              <th className="py-2 pr-3 font-medium">{t(`vehicleCosts.ranking.${group}`)}</th>
+              <th className="py-2 pr-3 font-medium text-right">{t('vehicleCosts.ranking.income')}</th>
+              <th className="py-2 pr-3 font-medium text-right">{t('vehicleCosts.ranking.hours')}</th>
+              <th className="py-2 pr-3 font-medium text-right">{t('vehicleCosts.ranking.expenses')}</th>
+              <th className="py-2 pr-3 font-medium text-right">{t('vehicleCosts.ranking.vehicleCost')}</th>
+              <th className="py-2 pr-3 font-medium text-right">{t('vehicleCosts.ranking.grossRate')}</th>
+              <th className="py-2 font-medium text-right">{t('vehicleCosts.ranking.netRate')}</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-100">
+            {rates.map((rate, index) => (
+              <tr key={rate.name}>
+                <td className="py-2 pr-3 text-gray-500">{index + 1}</td>
+                <td className="py-2 pr-3 font-medium text-gray-900 capitalize">{rate.name}</td>
+                <td className="py-2 pr-3 text-right">{formatCurrency(rate.income)}</td>
+                <td className="py-2 pr-3 text-right">{formatHoursCompact(rate.hours)}</td>
+                <td className="py-2 pr-3 text-right text-red-600">{rate.expenses > 0 ? formatCurrency(-rate.expenses) : '–'}</td>
+                <td className="py-2 pr-3 text-right text-red-600">{rate.vehicleCost > 0 ? formatCurrency(-rate.vehicleCost) : '–'}</td>
+                <td className="py-2 pr-3 text-right text-gray-600">{formatCurrency(rate.grossHourlyRate)}/h</td>
+                <td className={`py-2 text-right font-semibold ${rate.netHourlyRate >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                  {formatCurrency(rate.netHourlyRate)}/h
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {group === 'incomeSource' && (
+        <p className="mt-3 text-xs text-gray-500">{t('vehicleCosts.ranking.sourceNote')}</p>
+      )}
+    </div>
+  );
+};
+
+export default EffectiveRateRanking;
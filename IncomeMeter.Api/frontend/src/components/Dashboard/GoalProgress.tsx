@@ -0,0 +1,98 @@
+import React from 'react';
+import { Link } from 'react-router-dom';
+import { useLanguage } from '../../contexts/LanguageContext';
+import { useSettings } from '../../contexts/SettingsContext';
+import type { PeriodIncomeData, PeriodType } from '../../types';
+import { calculateGoalProgress, getGoalsForPeriod, type GoalProgress as GoalProgressData } from '../../utils/goals';
+
+interface GoalProgressProps {
+  period: PeriodType;
+  data: PeriodIncomeData;
+  isCurrentPeriod: boolean;
+  className?: string;
+}
+
+const ProgressRing: React.FC<{ percent: number; hit: boolean; size?: number }> = ({ percent, hit, size = 96 }) => {
+  const strokeWidth = size / 10;
+  const radius = (size - strokeWidth) / 2;
+  const circumference = 2 * Math.PI * radius;
+
+  return (
+    <svg width={size} height={size} className="-rotate-90" aria-hidden="true">
+      <circle cx={size / 2} cy={size / 2} r={radius} fill="none" stroke="#e5e7eb" strokeWidth={strokeWidth} />
+      <circle
+        cx={size / 2}
+        cy={size / 2}
+        r={radius}
+        fill="none"
+        stroke={hit ? '#16a34a' : '#2563eb'}
+        strokeWidth={strokeWidth}
+        strokeLinecap="round"
+        strokeDasharray={circumference}
+        strokeDashoffset={circumference * (1 - percent / 100)}
+        className="transition-all duration-500"
+      />
+    </svg>
+  );
+};
+
+const GoalProgress: React.FC<GoalProgressProps> = ({ period, data, isCurrentPeriod, className = '' }) => {
+  const { t } = useLanguage();
+  const { settings, formatCurrency } = useSettings();
+  const goals = getGoalsForPeriod(settings.earningsGoals, period);
+
+  const getStatusText = (progress: GoalProgressData): string => {
+    if (progress.hit) return t('goals.status.hit');
+    if (!isCurrentPeriod) return t('goals.status.missed', { amount: formatCurrency(progress.remaining) });
+    return progress.onPace
+      ? t('goals.status.onPace', { amount: formatCurrency(progress.projected) })
+      : t('goals.status.behindPace', { amount: formatCurrency(progress.projected) });
+  };
+
+  return (
+    <div className={`dashboard-card ${className}`}>
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-lg font-semibold text-gray-900">{t('goals.title')}</h3>
+        <div className="flex items-center space-x-3 text-sm">
+          <Link to="/goals" className="text-blue-600 hover:underline">{t('goals.viewHistory')}</Link>
+          <Link to="/settings" className="text-gray-500 hover:text-gray-700">{t('goals.edit')}</Link>
+        </div>
+      </div>
+
+      {goals.length === 0 ? (
+        <p className="text-sm text-gray-500">
+          {t('goals.noGoals', { period: t(`dashboard.periods.${period}`).toLowerCase() })}
+        </p>
+      ) : (
+        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-6">
+          {goals.map(goal => {
+            const progress = calculateGoalProgress(goal, data);
+
+            return (
+              <div key={goal.id} className="flex items-center space-x-4">
+                <div className="relative flex-shrink-0">
+                  <ProgressRing percent={progress.percent} hit={progress.hit} />
+                  <span className="absolute inset-0 flex items-center justify-center text-sm font-semibold text-gray-900">
+                    {Math.round((progress.earned / goal.amount) * 100)}%
+                  </span>
+                </div>
+                <div className="min-w-0">
+                  <p className="text-sm font-medium text-gray-800 truncate">{goal.workType ?? t('goals.allWorkTypes')}</p>
+                  <p className="text-lg font-bold text-gray-900">
+                    {formatCurrency(progress.earned)}
+                    <span className="text-sm font-normal text-gray-500"> / {formatCurrency(goal.amount)}</span>
+                  </p>
+                  <p className={`text-xs ${progress.hit || progress.onPace ? 'text-green-600' : 'text-amber-600'}`}>
+                    {getStatusText(progress)}
+                  </p>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default GoalProgress;
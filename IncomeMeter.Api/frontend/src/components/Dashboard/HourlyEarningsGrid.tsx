@@ -0,0 +1,128 @@
+import React, { useMemo } from 'react';
+import { useLanguage } from '../../contexts/LanguageContext';
+import { useSettings } from '../../contexts/SettingsContext';
+import { useQuery } from '../../hooks/useQuery';
+import { fetchRouteList, routeKeys } from '../../utils/routeQueries';
+import { formatHours } from '../../utils/time';
+import { getHeatColor } from '../../utils/earningsHeatmap';
+import { buildHourlyEarningsGrid, getAverageRange, getBestSlots, getSlotAverage } from '../../utils/hourlyEarnings';
+
+interface HourlyEarningsGridProps {
+  startDate: string; // YYYY-MM-DD
+  endDate: string;   // YYYY-MM-DD
+  className?: string;
+}
+
+const WEEKDAY_KEYS = ['monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday', 'sunday'];
+const HOURS = Array.from({ length: 24 }, (_, hour) => hour);
+const BEST_SLOT_COUNT = 3;
+
+const formatHourOfDay = (hour: number) => `${String(hour).padStart(2, '0')}:00`;
+
+const HourlyEarningsGrid: React.FC<HourlyEarningsGridProps> = ({ startDate, endDate, className = '' }) => {
+  const { t } = useLanguage();
+  const { settings, formatCurrency } = useSettings();
+  // Shares the cached route list for the range, so route edits invalidate the grid too
+  const { data: routes, error } = useQuery(
+    routeKeys.list({ startDate, endDate }),
+    () => fetchRouteList({ startDate, endDate }),
+    { keepPreviousData: true }
+  );
+
+  const grid = useMemo(
+    () => routes ? buildHourlyEarningsGrid(routes, settings.timeZone) : null,
+    [routes, settings.timeZone]
+  );
+  const averageRange = useMemo(() => grid ? getAverageRange(grid) : null, [grid]);
+  const bestSlots = useMemo(() => grid ? getBestSlots(grid, BEST_SLOT_COUNT) : [], [grid]);
+
+  return (
+    <div className={`dashboard-card ${className}`}>
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-lg font-semibold text-gray-900">{t('dashboard.hourlyGrid.title')}</h3>
+        {grid && (
+          <span className="text-sm text-gray-500">{t('dashboard.hourlyGrid.routes', { count: grid.routeCount })}</span>
+        )}
+      </div>
+
+      {error && !routes ? (
+        <p className="text-sm text-red-600">{t('dashboard.hourlyGrid.error')}</p>
+      ) : !grid ? (
+        <div className="h-32 flex items-center justify-center">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+        </div>
+      ) : !averageRange ? (
+        <p className="text-sm text-gray-500 py-4 text-center">{t('dashboard.hourlyGrid.empty')}</p>
+      ) : (
+        <>
+          <div className="overflow-x-auto">
+            <table className="border-separate" style={{ borderSpacing: 2 }}>
+              <thead>
+                <tr>
+                  <th></th>
+                  {HOURS.map(hour => (
+                    <th key={hour} className="text-[10px] font-normal text-gray-500 w-6">
+                      {hour % 3 === 0 ? String(hour).padStart(2, '0') : ''}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {grid.slots.map((hours, weekday) => (
+                  <tr key={WEEKDAY_KEYS[weekday]}>
+                    <th className="pr-2 text-xs font-medium text-gray-600 text-left">
+                      {t(`dashboard.charts.weekdays.${WEEKDAY_KEYS[weekday]}`)}
+                    </th>
+                    {hours.map((slot, hour) => {
+                      const average = getSlotAverage(slot);
+                      const label = `${t(`dashboard.charts.weekdays.${WEEKDAY_KEYS[weekday]}`)} ${formatHourOfDay(hour)}`;
+                      return (
+                        <td
+                          key={hour}
+                          className="h-6 w-6 rounded-sm"
+                          style={{ backgroundColor: average === null ? '#f3f4f6' : getHeatColor(average, averageRange) }}
+                          title={average === null
+                            ? `${label} · ${t('dashboard.hourlyGrid.noWork')}`
+                            : `${label} · ${formatCurrency(average)}/h · ${t('dashboard.hourlyGrid.worked', { hours: formatHours(slot.hours), count: slot.routes })}`}
+                        ></td>
+                      );
+                    })}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <div className="mt-4 flex flex-wrap items-center justify-between gap-4 text-xs text-gray-600">
+            <div className="flex items-center gap-2">
+              <span>{formatCurrency(averageRange.min)}/h</span>
+              <div
+                className="h-2 w-24 rounded"
+                style={{ background: `linear-gradient(to right, ${getHeatColor(averageRange.min, averageRange)}, ${getHeatColor((averageRange.min + averageRange.max) / 2, averageRange)}, ${getHeatColor(averageRange.max, averageRange)})` }}
+              ></div>
+              <span>{formatCurrency(averageRange.max)}/h</span>
+            </div>
+            {grid.skippedRoutes > 0 && (
+              <span>{t('dashboard.hourlyGrid.skipped', { count: grid.skippedRoutes })}</span>
+            )}
+          </div>
+
+          {bestSlots.length > 0 && (
+            <div className="mt-4">
+              <p className="text-sm font-medium text-gray-900 mb-2">{t('dashboard.hourlyGrid.bestSlots')}</p>
+              <ul className="flex flex-wrap gap-2 text-sm">
+                {bestSlots.map(slot => (
+                  <li key={`${slot.weekday}:${slot.hour}`} className="px-3 py-1 rounded-full bg-green-50 text-green-700">
+                    {t(`dashboard.charts.weekdays.${WEEKDAY_KEYS[slot.weekday]}`)} {formatHourOfDay(slot.hour)}–{formatHourOfDay((slot.hour + 1) % 24)} · {formatCurrency(slot.average)}/h
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default HourlyEarningsGrid;
@@ -12,7 +12,7 @@ import { Bar } from 'react-chartjs-2';
 import { useLanguage } from '../../contexts/LanguageContext';
 import { useSettings } from '../../contexts/SettingsContext';
 import { getDisplayDistance } from '../../utils/distance';
-import type { PeriodType, ChartDataPoint } from '../../types';
+import type { ChartPeriod, ChartDataPoint } from '../../types';
 
 ChartJS.register(
   CategoryScale,
@@ -25,23 +25,27 @@ ChartJS.register(
 
 
 interface PeriodChartProps {
-  period: PeriodType;
+  period: ChartPeriod;
+  granularity?: 'daily' | 'weekly' | 'monthly'; // bucket size for custom ranges
   data: ChartDataPoint[];
   currentPeriodDisplay: string;
+  comparison?: { label: string; data: ChartDataPoint[] }; // overlaid bar by bar, matched by position
   className?: string;
 }
 
 const PeriodChart: React.FC<PeriodChartProps> = ({
   period,
+  granularity = 'daily',
   data,
   currentPeriodDisplay,
+  comparison,
   className = '',
 }) => {
   const { t, language } = useLanguage();
   const { formatCurrency, settings } = useSettings();
 
   // Helper function to get localized labels
-  const getLocalizedLabel = React.useCallback((item: ChartDataPoint, periodType: PeriodType, lang: string): string => {
+  const getLocalizedLabel = React.useCallback((item: ChartDataPoint, periodType: ChartPeriod, lang: string): string => {
     const date = new Date(item.date);
     
     switch (periodType) {
@@ -67,23 +71,31 @@ const PeriodChart: React.FC<PeriodChartProps> = ({
         const monthIndex = date.getMonth();
         return monthNames[lang as keyof typeof monthNames]?.[monthIndex] || item.label;
         
+      case 'custom':
+        // Custom ranges label each bucket by its first day, or by month for long ranges
+        return granularity === 'monthly'
+          ? date.toLocaleDateString(lang, { month: 'short', year: 'numeric' })
+          : date.toLocaleDateString(lang, { day: 'numeric', month: 'short' });
+        
       default:
         return item.label;
     }
-  }, []);
+  }, [granularity]);
 
   // Helper function to get chart title
-  const getChartTitle = React.useCallback((periodType: PeriodType, display: string, lang: string): string => {
+  const getChartTitle = React.useCallback((periodType: ChartPeriod, display: string, lang: string): string => {
     const periodTranslations = {
       'en-GB': {
         weekly: 'Weekly Income',
         monthly: 'Monthly Income by Week',
-        annual: 'Annual Income by Month'
+        annual: 'Annual Income by Month',
+        custom: 'Income'
       },
       'zh-HK': {
         weekly: '每週收入',
         monthly: '每月收入（按週）',
-        annual: '年度收入（按月）'
+        annual: '年度收入（按月）',
+        custom: '收入'
       }
     };
     
@@ -102,11 +114,16 @@ const PeriodChart: React.FC<PeriodChartProps> = ({
     }));
   }, [data, period, language, getLocalizedLabel]);
 
+  const totalIncome = data.reduce((sum, item) => sum + item.income, 0);
+  const totalExpenses = data.reduce((sum, item) => sum + (item.expenses || 0), 0);
+  const hasExpenses = totalExpenses > 0;
+  const comparisonIncome = processedData.map((_, index) => comparison?.data[index]?.income ?? 0);
+
   const chartData = {
     labels: processedData.map(item => item.localizedLabel),
     datasets: [
       {
-        label: t('dashboard.stats.netIncome'),
+        label: t('dashboard.stats.income'),
         data: processedData.map(item => item.income),
         backgroundColor: 'rgba(59, 130, 246, 0.6)',
         borderColor: 'rgba(59, 130, 246, 1)',
@@ -114,6 +131,25 @@ const PeriodChart: React.FC<PeriodChartProps> = ({
         borderRadius: 4,
         borderSkipped: false,
       },
+      // Expenses sit beside income only when the period has any, so income-only users see the original chart
+      ...(hasExpenses ? [{
+        label: t('expenses.title'),
+        data: processedData.map(item => item.expenses || 0),
+        backgroundColor: 'rgba(239, 68, 68, 0.6)',
+        borderColor: 'rgba(239, 68, 68, 1)',
+        borderWidth: 1,
+        borderRadius: 4,
+        borderSkipped: false,
+      }] : []),
+      ...(comparison ? [{
+        label: comparison.label,
+        data: comparisonIncome,
+        backgroundColor: 'rgba(156, 163, 175, 0.5)',
+        borderColor: 'rgba(107, 114, 128, 1)',
+        borderWidth: 1,
+        borderRadius: 4,
+        borderSkipped: false,
+      }] : []),
     ],
   };
 
@@ -122,7 +158,7 @@ const PeriodChart: React.FC<PeriodChartProps> = ({
     maintainAspectRatio: false,
     plugins: {
       legend: {
-        display: false, // Hide legend for cleaner look
+        display: hasExpenses || !!comparison, // Only needed when there is more than one series
       },
       title: {
         display: true,
@@ -151,8 +187,17 @@ const PeriodChart: React.FC<PeriodChartProps> = ({
           },
           label: (context: any) => {
             const dataPoint = processedData[context.dataIndex];
+            // Both bars share one tooltip body, so only add it to the first dataset
+            if (context.datasetIndex > 0) return [];
             return [
               `${t('routes.details.income')}: ${formatCurrency(dataPoint.income)}`,
+              ...(hasExpenses ? [
+                `${t('expenses.title')}: ${formatCurrency(dataPoint.expenses || 0)}`,
+                `${t('dashboard.stats.netIncome')}: ${formatCurrency(dataPoint.netIncome ?? dataPoint.income)}`,
+              ] : []),
+              ...(comparison ? [
+                `${comparison.label}: ${formatCurrency(comparisonIncome[context.dataIndex])}`,
+              ] : []),
               `${t('routes.title')}: ${dataPoint.routes}`,
               `${t('routes.details.distance')}: ${getDisplayDistance(dataPoint.distance, 'km', settings.mileageUnit).formatted}`
             ];
@@ -207,6 +252,7 @@ const PeriodChart: React.FC<PeriodChartProps> = ({
             {period === 'weekly' && 'No routes completed this week'}
             {period === 'monthly' && 'No routes completed this month'}
             {period === 'annual' && 'No routes completed this fiscal year'}
+            {period === 'custom' && 'No routes completed in this date range'}
           </p>
         </div>
       </div>
@@ -221,13 +267,19 @@ const PeriodChart: React.FC<PeriodChartProps> = ({
       
       {/* Chart Summary */}
       <div className="mt-6 pt-4 border-t border-gray-200">
-        <div className="grid grid-cols-3 gap-2 sm:gap-4 text-center">
+        <div className="grid grid-cols-2 sm:grid-cols-4 gap-2 sm:gap-4 text-center">
           <div className="min-w-0">
-            <div className="text-lg sm:text-2xl font-bold text-blue-600 truncate" title={formatCurrency(data.reduce((sum, item) => sum + item.income, 0))}>
-              {formatCurrency(data.reduce((sum, item) => sum + item.income, 0))}
+            <div className="text-lg sm:text-2xl font-bold text-blue-600 truncate" title={formatCurrency(totalIncome - totalExpenses)}>
+              {formatCurrency(totalIncome - totalExpenses)}
             </div>
             <div className="text-xs sm:text-sm text-gray-600 truncate">{t('dashboard.stats.netIncome')}</div>
           </div>
+          <div className="min-w-0">
+            <div className="text-lg sm:text-2xl font-bold text-red-600 truncate" title={formatCurrency(totalExpenses)}>
+              {formatCurrency(totalExpenses)}
+            </div>
+            <div className="text-xs sm:text-sm text-gray-600 truncate">{t('expenses.title')}</div>
+          </div>
           <div className="min-w-0">
             <div className="text-lg sm:text-2xl font-bold text-green-600">
               {data.reduce((sum, item) => sum + item.routes, 0)}
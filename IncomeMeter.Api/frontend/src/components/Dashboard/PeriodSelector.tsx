@@ -5,12 +5,16 @@ import type { PeriodType } from '../../types';
 interface PeriodSelectorProps {
   selectedPeriod: PeriodType;
   onPeriodChange: (period: PeriodType) => void;
+  onCustomSelect?: () => void; // shows a "Custom" option when provided
+  isCustomSelected?: boolean;
   className?: string;
 }
 
 const PeriodSelector: React.FC<PeriodSelectorProps> = ({ 
   selectedPeriod, 
   onPeriodChange, 
+  onCustomSelect,
+  isCustomSelected = false,
   className = '' 
 }) => {
   const { t } = useLanguage();
@@ -21,26 +25,37 @@ const PeriodSelector: React.FC<PeriodSelectorProps> = ({
     { key: 'annual', label: t('dashboard.periods.annual'), shortLabel: 'Year' },
   ];
 
+  const getButtonClass = (isSelected: boolean) => `
+    flex-1 sm:flex-none px-2 sm:px-4 py-1.5 sm:py-2 text-xs sm:text-sm font-medium rounded-md transition-colors duration-200 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-1 whitespace-nowrap
+    ${
+      isSelected
+        ? 'bg-white text-blue-700 shadow-sm ring-1 ring-black ring-opacity-5'
+        : 'text-gray-600 hover:text-gray-900 hover:bg-gray-50'
+    }
+  `;
+
   return (
     <div className={`flex space-x-0.5 sm:space-x-1 bg-gray-100 rounded-lg p-0.5 sm:p-1 w-full sm:w-auto ${className}`}>
       {periods.map((period) => (
         <button
           key={period.key}
           onClick={() => onPeriodChange(period.key)}
-          className={`
-            flex-1 sm:flex-none px-2 sm:px-4 py-1.5 sm:py-2 text-xs sm:text-sm font-medium rounded-md transition-colors duration-200 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-1 whitespace-nowrap
-            ${
-              selectedPeriod === period.key
-                ? 'bg-white text-blue-700 shadow-sm ring-1 ring-black ring-opacity-5'
-                : 'text-gray-600 hover:text-gray-900 hover:bg-gray-50'
-            }
-          `}
+          className={getButtonClass(!isCustomSelected && selectedPeriod === period.key)}
           type="button"
         >
           <span className="hidden sm:inline">{period.label}</span>
           <span className="sm:hidden">{period.shortLabel}</span>
         </button>
       ))}
+      {onCustomSelect && (
+        <button
+          onClick={onCustomSelect}
+          className={getButtonClass(isCustomSelected)}
+          type="button"
+        >
+          {t('dashboard.periods.custom')}
+        </button>
+      )}
     </div>
   );
 };
@@ -44,7 +44,7 @@ const NavBar: React.FC = () => {
   };
 
   return (
-    <nav className="bg-white shadow-lg">
+    <nav className="bg-white shadow-lg print:hidden">
       <div className="w-full px-2 sm:px-4">
         <div className="flex justify-between items-center h-14 sm:h-16">
           {/* Mobile menu button (left) */}
@@ -79,6 +79,21 @@ const NavBar: React.FC = () => {
             <Link to="/routes/manage" className={getLinkClass('/routes/manage')}>
               {t('navigation.routeManagement')}
             </Link>
+            <Link to="/routes/calendar" className={getLinkClass('/routes/calendar')}>
+              {t('navigation.calendar')}
+            </Link>
+            <Link to="/routes/live" className={getLinkClass('/routes/live')}>
+              {t('navigation.liveTracker')}
+            </Link>
+            <Link to="/expenses" className={getLinkClass('/expenses')}>
+              {t('navigation.expenses')}
+            </Link>
+            <Link to="/tax-summary" className={getLinkClass('/tax-summary')}>
+              {t('navigation.taxSummary')}
+            </Link>
+            <Link to="/earnings-map" className={getLinkClass('/earnings-map')}>
+              {t('navigation.earningsMap')}
+            </Link>
             <Link to="/profile" className={getLinkClass('/profile')}>
               {t('navigation.profile')}
             </Link>
@@ -163,6 +178,71 @@ const NavBar: React.FC = () => {
                     </div>
                   </Link>
 
+                  <Link
+                    to="/routes/calendar"
+                    onClick={closeMobileMenu}
+                    className={getLinkClass('/routes/calendar', true)}
+                  >
+                    <div className="flex items-center">
+                      <svg className="w-4 h-4 sm:w-5 sm:h-5 mr-2 sm:mr-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 7V3m8 4V3m-9 8h10M5 21h14a2 2 0 002-2V7a2 2 0 00-2-2H5a2 2 0 00-2 2v12a2 2 0 002 2z" />
+                      </svg>
+                      <span className="text-sm sm:text-base">{t('navigation.calendar')}</span>
+                    </div>
+                  </Link>
+
+                  <Link
+                    to="/routes/live"
+                    onClick={closeMobileMenu}
+                    className={getLinkClass('/routes/live', true)}
+                  >
+                    <div className="flex items-center">
+                      <svg className="w-4 h-4 sm:w-5 sm:h-5 mr-2 sm:mr-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" />
+                      </svg>
+                      <span className="text-sm sm:text-base">{t('navigation.liveTracker')}</span>
+                    </div>
+                  </Link>
+
+                  <Link
+                    to="/expenses"
+                    onClick={closeMobileMenu}
+                    className={getLinkClass('/expenses', true)}
+                  >
+                    <div className="flex items-center">
+                      <svg className="w-4 h-4 sm:w-5 sm:h-5 mr-2 sm:mr-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 14l6-6m-5.5.5h.01m4.99 5h.01M19 21V5a2 2 0 00-2-2H7a2 2 0 00-2 2v16l3.5-2 3.5 2 3.5-2 3.5 2z" />
+                      </svg>
+                      <span className="text-sm sm:text-base">{t('navigation.expenses')}</span>
+                    </div>
+                  </Link>
+
+                  <Link
+                    to="/tax-summary"
+                    onClick={closeMobileMenu}
+                    className={getLinkClass('/tax-summary', true)}
+                  >
+                    <div className="flex items-center">
+                      <svg className="w-4 h-4 sm:w-5 sm:h-5 mr-2 sm:mr-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 17v-2m3 2v-4m3 4v-6m2 10H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" />
+                      </svg>
+                      <span className="text-sm sm:text-base">{t('navigation.taxSummary')}</span>
+                    </div>
+                  </Link>
+
+                  <Link
+                    to="/earnings-map"
+                    onClick={closeMobileMenu}
+                    className={getLinkClass('/earnings-map', true)}
+                  >
+                    <div className="flex items-center">
+                      <svg className="w-4 h-4 sm:w-5 sm:h-5 mr-2 sm:mr-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 20l-5.447-2.724A1 1 0 013 16.382V5.618a1 1 0 011.447-.894L9 7m0 13l6-3m-6 3V7m6 10l4.553 2.276A1 1 0 0021 18.382V7.618a1 1 0 00-.553-.894L15 4m0 13V4m0 0L9 7" />
+                      </svg>
+                      <span className="text-sm sm:text-base">{t('navigation.earningsMap')}</span>
+                    </div>
+                  </Link>
+
                   <Link
                     to="/profile"
                     onClick={closeMobileMenu}
@@ -0,0 +1,99 @@
+import React, { useMemo, useRef, useEffect } from 'react';
+import { MapContainer, TileLayer, Rectangle, Tooltip } from 'react-leaflet';
+import L from 'leaflet';
+import { useSettings } from '../../contexts/SettingsContext';
+import { useLanguage } from '../../contexts/LanguageContext';
+import { formatHours } from '../../utils/time';
+import { getCellBounds, getHeatColor, getHeatOpacity, getRateRange } from '../../utils/earningsHeatmap';
+import type { EarningsHeatmapCell } from '../../types';
+
+import 'leaflet/dist/leaflet.css';
+
+interface EarningsHeatmapMapProps {
+  cells: EarningsHeatmapCell[];
+  cellSizeDegrees: number;
+  height?: string;
+  className?: string;
+}
+
+const EarningsHeatmapMap: React.FC<EarningsHeatmapMapProps> = ({
+  cells,
+  cellSizeDegrees,
+  height = '500px',
+  className = ''
+}) => {
+  const { formatCurrency } = useSettings();
+  const { t } = useLanguage();
+  const mapRef = useRef<L.Map | null>(null);
+
+  const rateRange = useMemo(() => getRateRange(cells), [cells]);
+  const maxHours = useMemo(() => Math.max(0, ...cells.map(cell => cell.hours)), [cells]);
+
+  const bounds = useMemo(() => {
+    if (cells.length === 0) return null;
+    return L.latLngBounds(cells.flatMap(cell => getCellBounds(cell, cellSizeDegrees)));
+  }, [cells, cellSizeDegrees]);
+
+  // Fit bounds when the cells change
+  useEffect(() => {
+    if (mapRef.current && bounds) {
+      setTimeout(() => {
+        mapRef.current?.fitBounds(bounds, { padding: [20, 20] });
+      }, 100);
+    }
+  }, [bounds]);
+
+  return (
+    <div className={className} style={{ height, position: 'relative' }}>
+      <MapContainer
+        center={bounds ? bounds.getCenter() : [51.505, -0.09]}
+        zoom={12}
+        style={{ height: '100%', width: '100%', borderRadius: '0.5rem' }}
+        ref={mapRef}
+      >
+        <TileLayer
+          attribution='&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors'
+          url="https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png"
+        />
+
+        {rateRange && cells.map(cell => (
+          <Rectangle
+            key={`${cell.latitude}:${cell.longitude}`}
+            bounds={getCellBounds(cell, cellSizeDegrees)}
+            pathOptions={{
+              color: getHeatColor(cell.incomePerHour, rateRange),
+              weight: 0,
+              fillOpacity: getHeatOpacity(cell.hours, maxHours),
+            }}
+          >
+            <Tooltip>
+              <div className="text-sm">
+                <div className="font-semibold">{formatCurrency(cell.incomePerHour)}/h</div>
+                <div>{t('earningsMap.cell.time', { hours: formatHours(cell.hours) })}</div>
+                <div>{t('earningsMap.cell.income', { income: formatCurrency(cell.income) })}</div>
+                <div>{t('earningsMap.cell.routes', { count: cell.routeCount })}</div>
+              </div>
+            </Tooltip>
+          </Rectangle>
+        ))}
+      </MapContainer>
+
+      {/* Colour scale */}
+      {rateRange && (
+        <div className="absolute top-2 right-2 bg-white rounded-lg shadow-md p-2 text-xs z-[1000]">
+          <div className="font-semibold mb-1">{t('earningsMap.legend')}</div>
+          <div
+            className="h-2 w-32 rounded"
+            style={{ background: `linear-gradient(to right, ${getHeatColor(rateRange.min, rateRange)}, ${getHeatColor((rateRange.min + rateRange.max) / 2, rateRange)}, ${getHeatColor(rateRange.max, rateRange)})` }}
+          ></div>
+          <div className="flex justify-between mt-1">
+            <span>{formatCurrency(rateRange.min)}</span>
+            <span>{formatCurrency(rateRange.max)}</span>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default EarningsHeatmapMap;
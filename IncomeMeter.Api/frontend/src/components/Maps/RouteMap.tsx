@@ -1,9 +1,11 @@
 import React, { useMemo, useRef, useEffect } from 'react';
-import { MapContainer, TileLayer, Marker, Popup, Polyline } from 'react-leaflet';
+import { MapContainer, TileLayer, Marker, Popup, Polyline, CircleMarker } from 'react-leaflet';
 import L from 'leaflet';
 import { useSettings } from '../../contexts/SettingsContext';
+import { useLanguage } from '../../contexts/LanguageContext';
 import { getDisplayDistance, getDisplaySpeed } from '../../utils/distance';
-import type { Location } from '../../types';
+import type { DwellSegment, Location } from '../../types';
+import type { ProcessedTrail } from '../../utils/trailProcessing';
 
 // Fix for default markers in React-Leaflet
 import 'leaflet/dist/leaflet.css';
@@ -45,6 +47,8 @@ interface RouteMapProps {
   showRoute?: boolean;
   onLocationClick?: (location: Location) => void;
   className?: string;
+  cleanedTrail?: ProcessedTrail<Location>; // when set, drawn over the raw trail for comparison
+  stops?: DwellSegment[];
 }
 
 const RouteMap: React.FC<RouteMapProps> = ({ 
@@ -52,9 +56,12 @@ const RouteMap: React.FC<RouteMapProps> = ({
   height = '400px', 
   showRoute = true, 
   onLocationClick,
-  className = '' 
+  className = '',
+  cleanedTrail,
+  stops = []
 }) => {
   const { settings } = useSettings();
+  const { t } = useLanguage();
   const mapRef = useRef<L.Map | null>(null);
 
   // Calculate bounds and center
@@ -78,6 +85,11 @@ const RouteMap: React.FC<RouteMapProps> = ({
     };
   }, [locations]);
 
+  const cleanedPositions = useMemo(
+    () => cleanedTrail?.points.map(loc => [loc.latitude, loc.longitude] as [number, number]) ?? [],
+    [cleanedTrail]
+  );
+
   // Fit bounds when locations change
   useEffect(() => {
     if (mapRef.current && bounds && locations.length > 1) {
@@ -131,7 +143,7 @@ const RouteMap: React.FC<RouteMapProps> = ({
           <Polyline
             positions={polylinePositions}
             pathOptions={{ 
-              color: '#3b82f6', 
+              color: cleanedTrail ? '#9ca3af' : '#3b82f6', 
               weight: 3, 
               opacity: 0.8,
               dashArray: '5, 5'
@@ -139,6 +151,51 @@ const RouteMap: React.FC<RouteMapProps> = ({
           />
         )}
 
+        {/* Cleaned trail and the points it dropped */}
+        {cleanedTrail && cleanedPositions.length > 1 && (
+          <Polyline
+            positions={cleanedPositions}
+            pathOptions={{ color: '#2563eb', weight: 4, opacity: 0.9 }}
+          />
+        )}
+        {cleanedTrail?.rejected.map(({ point, reason }) => (
+          <CircleMarker
+            key={`rejected-${point.id}-${point.timestamp}`}
+            center={[point.latitude, point.longitude]}
+            radius={6}
+            pathOptions={{ color: '#ef4444', weight: 2, fillOpacity: 0.1 }}
+          >
+            <Popup>
+              <div className="text-sm">
+                <div className="font-semibold mb-1">{t(`trailCleanup.rejected.${reason}`)}</div>
+                <div>{formatTimestamp(point.timestamp)}</div>
+                {point.accuracy !== null && point.accuracy !== undefined && (
+                  <div><strong>GPS Accuracy:</strong> {point.accuracy.toFixed(0)}m</div>
+                )}
+              </div>
+            </Popup>
+          </CircleMarker>
+        ))}
+
+        {/* Dwell segments, sized by how long the trail stayed there */}
+        {stops.map((stop, index) => (
+          <CircleMarker
+            key={`stop-${stop.startTime}`}
+            center={[stop.latitude, stop.longitude]}
+            radius={Math.min(8 + stop.durationMinutes / 2, 20)}
+            pathOptions={{ color: '#d97706', weight: 2, fillColor: '#fbbf24', fillOpacity: 0.4 }}
+          >
+            <Popup>
+              <div className="text-sm">
+                <div className="font-semibold mb-1">{t('routeStops.stopNumber', { number: index + 1 })}</div>
+                <div>{formatTimestamp(stop.startTime)} – {formatTimestamp(stop.endTime)}</div>
+                <div>{t('routeStops.minutes', { minutes: Math.round(stop.durationMinutes) })}</div>
+                {stop.address && <div>{stop.address}</div>}
+              </div>
+            </Popup>
+          </CircleMarker>
+        ))}
+
         {/* Location markers */}
         {locations.map((location, index) => {
           const isStart = index === 0;
@@ -202,6 +259,28 @@ const RouteMap: React.FC<RouteMapProps> = ({
           <div className="w-3 h-3 bg-blue-500 rounded-full mr-2"></div>
           <span>Waypoints</span>
         </div>
+        {stops.length > 0 && (
+          <div className="flex items-center mt-1">
+            <div className="w-3 h-3 bg-amber-300 border-2 border-amber-600 rounded-full mr-2"></div>
+            <span>{t('routeStops.legend')}</span>
+          </div>
+        )}
+        {cleanedTrail && (
+          <>
+            <div className="flex items-center mt-1">
+              <div className="w-3 h-0.5 bg-blue-600 mr-2"></div>
+              <span>{t('trailCleanup.legend.cleaned')}</span>
+            </div>
+            <div className="flex items-center mt-1">
+              <div className="w-3 h-0.5 border-t-2 border-dashed border-gray-400 mr-2"></div>
+              <span>{t('trailCleanup.legend.raw')}</span>
+            </div>
+            <div className="flex items-center mt-1">
+              <div className="w-3 h-3 border-2 border-red-500 rounded-full mr-2"></div>
+              <span>{t('trailCleanup.legend.rejected')}</span>
+            </div>
+          </>
+        )}
       </div>
 
       {/* Map info */}
@@ -210,6 +289,14 @@ const RouteMap: React.FC<RouteMapProps> = ({
         {locations.length > 1 && showRoute && (
           <div>Route displayed</div>
         )}
+        {cleanedTrail && (
+          <div>
+            {t('trailCleanup.comparison', {
+              before: getDisplayDistance(cleanedTrail.rawDistanceKm, 'km', settings.mileageUnit).formatted,
+              after: getDisplayDistance(cleanedTrail.cleanedDistanceKm, 'km', settings.mileageUnit).formatted,
+            })}
+          </div>
+        )}
       </div>
     </div>
   );
@@ -1,157 +1,113 @@
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { useSwipeable } from 'react-swipeable';
 import { useSettings } from '../../contexts/SettingsContext';
 import { useLanguage } from '../../contexts/LanguageContext';
-import type { DashboardStats, Route, PeriodIncomeData, PeriodType } from '../../types';
-import { getDashboardStats, getTodaysRoutes, getPeriodStats } from '../../utils/api';
+import type { Route, PeriodIncomeData, PeriodType, ComparisonMode } from '../../types';
+import { getDashboardStats, getTodaysRoutes, getPeriodStats, getRangeStats } from '../../utils/api';
+import { useQuery } from '../../hooks/useQuery';
+import { invalidateQueries, type QueryKey } from '../../utils/queryCache';
+import { dashboardKeys } from '../../utils/routeQueries';
 import { getDisplayDistance } from '../../utils/distance';
 import { formatHoursCompact } from '../../utils/time';
 import { formatPeriodDisplay } from '../../utils/fiscalYear';
+import { getDateRangeFromSelection, type CustomDateRange } from '../../utils/timeRangeUtils';
+import { comparePeriods, getComparisonOffset, getComparisonRange } from '../../utils/periodComparison';
 import PeriodSelector from '../Dashboard/PeriodSelector';
 import PeriodNavigation from '../Dashboard/PeriodNavigation';
 import PeriodChart from '../Dashboard/PeriodChart';
+import GoalProgress from '../Dashboard/GoalProgress';
+import DateRangePicker from '../Dashboard/DateRangePicker';
+import ComparisonSummary from '../Dashboard/ComparisonSummary';
+import HourlyEarningsGrid from '../Dashboard/HourlyEarningsGrid';
+import EffectiveRateRanking from '../Dashboard/EffectiveRateRanking';
+
+// Local calendar date as YYYY-MM-DD, which the range-stats endpoint treats inclusively
+const toDateParam = (date: Date): string =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+const NO_ROUTES: Route[] = [];
+
+interface PeriodRequest {
+  key: QueryKey;
+  fetch: () => Promise<PeriodIncomeData>;
+}
 
 const Dashboard: React.FC = () => {
   const navigate = useNavigate();
-  const { formatCurrency, settings } = useSettings();
+  const { formatCurrency, formatDate, settings } = useSettings();
   const { t, language } = useLanguage();
   
-  // Legacy stats for overview cards
-  const [stats, setStats] = useState<DashboardStats | null>(null);
-  const [todaysRoutes, setTodaysRoutes] = useState<Route[]>([]);
-  
   // New period-based state
   const [selectedPeriod, setSelectedPeriod] = useState<PeriodType>('weekly');
   const [periodOffset, setPeriodOffset] = useState<number>(0);
-  const [periodData, setPeriodData] = useState<PeriodIncomeData | null>(null);
-  const [loading, setLoading] = useState(true);
-  const [periodLoading, setPeriodLoading] = useState(false);
   const [expandedWorkTypes, setExpandedWorkTypes] = useState<Set<string>>(new Set());
+
+  // Custom from/to range (replaces the period selection while set) and comparison overlay
+  const [customRange, setCustomRange] = useState<CustomDateRange | null>(null);
+  const [comparisonMode, setComparisonMode] = useState<ComparisonMode>('none');
   
   // Swipe gesture state
   const [isSwipeAnimating, setIsSwipeAnimating] = useState(false);
   const [swipeDirection, setSwipeDirection] = useState<'left' | 'right' | null>(null);
   const [showSwipeHint, setShowSwipeHint] = useState(true);
 
-  // Period data cache
-  const [periodCache, setPeriodCache] = useState<Map<string, PeriodIncomeData>>(new Map());
-  const MAX_CACHE_SIZE = 50;
-
-  // Load legacy data on mount
-  useEffect(() => {
-    loadOverviewData();
-  }, []);
-
-  // Cache utility functions
-  const getCacheKey = useCallback((period: PeriodType, offset: number, fiscalStart: string): string => {
-    return `${period}-${offset}-${fiscalStart}`;
-  }, []);
-
-  const addToCache = useCallback((key: string, data: PeriodIncomeData) => {
-    setPeriodCache(prev => {
-      const newCache = new Map(prev);
-      
-      // Remove oldest entries if cache is full (LRU eviction)
-      if (newCache.size >= MAX_CACHE_SIZE) {
-        const firstKey = newCache.keys().next().value;
-        if (firstKey) {
-          newCache.delete(firstKey);
-        }
-        console.log('🗑️ Cache evicted oldest entry:', firstKey ?? 'unknown');
-      }
-      
-      newCache.set(key, data);
-      console.log('💾 Cached data:', key, `(${newCache.size}/${MAX_CACHE_SIZE})`);
-      return newCache;
-    });
-  }, [MAX_CACHE_SIZE]);
-
-  const getCachedData = useCallback((key: string): PeriodIncomeData | null => {
-    const cached = periodCache.get(key);
-    if (cached) {
-      console.log('📦 Cache hit:', key);
-      return cached;
-    }
-    console.log('❌ Cache miss:', key);
-    return null;
-  }, [periodCache]);
-
-  const invalidateCache = useCallback(() => {
-    setPeriodCache(new Map());
-    console.log('🗑️ Period cache invalidated');
-  }, []);
+  const fiscalStartDate = settings.fiscalYearStartDate ?? '04-06';
 
-  // Load period data when period or offset changes
-  useEffect(() => {
-    loadPeriodData();
-  }, [selectedPeriod, periodOffset, settings.fiscalYearStartDate]);
-
-  const loadOverviewData = async () => {
-    try {
-      console.log('Loading overview dashboard data...');
-      
-      const [dashboardStats, routes] = await Promise.all([
-        getDashboardStats().catch(err => {
-          console.error('Dashboard stats error:', err);
-          throw err;
-        }),
-        getTodaysRoutes().catch(err => {
-          console.error('Today\'s routes error:', err);
-          throw err;
-        }),
-      ]);
-      
-      setStats(dashboardStats);
-      setTodaysRoutes(routes);
-    } catch (error) {
-      console.error('Error loading overview data:', error);
-      setStats(null);
-      setTodaysRoutes([]);
-    } finally {
-      setLoading(false);
-    }
-  };
-
-  const loadPeriodData = useCallback(async () => {
-    const cacheKey = getCacheKey(selectedPeriod, periodOffset, settings.fiscalYearStartDate ?? '04-06');
-    
-    // Check cache first
-    const cachedData = getCachedData(cacheKey);
-    if (cachedData) {
-      setPeriodData(cachedData);
-      return; // Exit early - no API call needed!
-    }
-    
-    // Not in cache - fetch from API
-    setPeriodLoading(true);
-    try {
-      console.log('🌐 Loading period data from API:', { selectedPeriod, periodOffset, fiscalStartDate: settings.fiscalYearStartDate });
-      
-      const data = await getPeriodStats(
-        selectedPeriod,
-        periodOffset,
-        settings.fiscalYearStartDate ?? '04-06'
-      );
-      
-      console.log('✅ Period data loaded:', data);
-      
-      // Store in cache
-      addToCache(cacheKey, data);
-      
-      // Update state
-      setPeriodData(data);
-    } catch (error) {
-      console.error('❌ Error loading period data:', error);
-      setPeriodData(null);
-    } finally {
-      setPeriodLoading(false);
+  // Legacy stats for overview cards
+  const statsQuery = useQuery(dashboardKeys.stats, getDashboardStats);
+  const todaysRoutesQuery = useQuery(dashboardKeys.todaysRoutes, getTodaysRoutes);
+  const stats = statsQuery.data ?? null;
+  const todaysRoutes = todaysRoutesQuery.data ?? NO_ROUTES;
+  const loading = statsQuery.isLoading || todaysRoutesQuery.isLoading;
+
+  // Periods already visited come straight from the shared cache
+  const periodRequest = useMemo((): PeriodRequest => customRange
+    ? { key: dashboardKeys.range(customRange.from, customRange.to), fetch: () => getRangeStats(customRange.from, customRange.to) }
+    : {
+        key: dashboardKeys.period(selectedPeriod, periodOffset, fiscalStartDate),
+        fetch: () => getPeriodStats(selectedPeriod, periodOffset, fiscalStartDate),
+      },
+  [customRange, selectedPeriod, periodOffset, fiscalStartDate]);
+  const periodQuery = useQuery(periodRequest.key, periodRequest.fetch, { keepPreviousData: true });
+  const periodData = periodQuery.data ?? null;
+  const periodLoading = periodQuery.isLoading;
+
+  // The period being compared against, for the current selection and comparison mode
+  const comparisonRequest = useMemo((): PeriodRequest | null => {
+    if (comparisonMode === 'none') return null;
+
+    const range = customRange ? getDateRangeFromSelection('custom', customRange) : null;
+    if (range) {
+      const comparisonRange = getComparisonRange(range, comparisonMode);
+      const from = toDateParam(comparisonRange.start);
+      const to = toDateParam(comparisonRange.end);
+      return { key: dashboardKeys.range(from, to), fetch: () => getRangeStats(from, to) };
     }
-  }, [selectedPeriod, periodOffset, settings.fiscalYearStartDate, getCacheKey, getCachedData, addToCache]);
+    const offset = getComparisonOffset(selectedPeriod, periodOffset, comparisonMode);
+    return {
+      key: dashboardKeys.period(selectedPeriod, offset, fiscalStartDate),
+      fetch: () => getPeriodStats(selectedPeriod, offset, fiscalStartDate),
+    };
+  }, [comparisonMode, customRange, selectedPeriod, periodOffset, fiscalStartDate]);
+  const comparisonQuery = useQuery(
+    comparisonRequest?.key ?? ['dashboard', 'comparison', 'none'],
+    comparisonRequest?.fetch ?? (() => Promise.reject(new Error('No comparison selected'))),
+    { enabled: comparisonRequest !== null }
+  );
+  const comparisonData = comparisonRequest ? comparisonQuery.data ?? null : null;
 
   const handlePeriodChange = (newPeriod: PeriodType) => {
     setSelectedPeriod(newPeriod);
     setPeriodOffset(0); // Reset to current period when changing period type
+    setCustomRange(null);
+  };
+
+  const handleCustomSelect = () => {
+    if (customRange) return;
+    // Start from the last 30 days, which the user can then adjust
+    const defaultRange = getDateRangeFromSelection('30_days')!;
+    setCustomRange({ from: toDateParam(defaultRange.start), to: toDateParam(defaultRange.end) });
   };
 
   const handlePreviousPeriod = useCallback(() => {
@@ -182,7 +138,7 @@ const Dashboard: React.FC = () => {
   }, [isSwipeAnimating, periodData, handleNextPeriod]);
 
   const handleSwipeRight = useCallback(() => {
-    if (isSwipeAnimating) return;
+    if (isSwipeAnimating || customRange) return;
     
     setSwipeDirection('right');
     setIsSwipeAnimating(true);
@@ -193,7 +149,7 @@ const Dashboard: React.FC = () => {
       setSwipeDirection(null);
       setIsSwipeAnimating(false);
     }, 200);
-  }, [isSwipeAnimating, handlePreviousPeriod]);
+  }, [isSwipeAnimating, customRange, handlePreviousPeriod]);
 
   const handleDoubleTap = useCallback(() => {
     // Only allow double-tap to return to today if we're not already on current period
@@ -229,49 +185,39 @@ const Dashboard: React.FC = () => {
     touchEventOptions: { passive: false },
   });
 
-  // Refresh data and clear cache
-  const handleRefresh = useCallback(async () => {
-    console.log('🔄 Manual refresh triggered');
-    invalidateCache();
-    await loadOverviewData();
-    await loadPeriodData();
-  }, [invalidateCache, loadPeriodData]);
+  // Refetch everything on the dashboard; cached periods are refetched when next shown
+  const handleRefresh = useCallback(() => {
+    invalidateQueries(dashboardKeys.all);
+  }, []);
 
-  // Add keyboard shortcut for cache debugging and auto-invalidation on visibility change
+  // Ctrl+Shift+R refreshes the dashboard data
   useEffect(() => {
     const handleKeyDown = (event: KeyboardEvent) => {
-      // Ctrl+Shift+C to log cache contents
-      if (event.ctrlKey && event.shiftKey && event.key === 'C') {
-        console.log('📊 Cache contents:', Array.from(periodCache.entries()));
-        console.log('📊 Cache size:', periodCache.size);
-      }
-      // Ctrl+Shift+R to force refresh and clear cache
       if (event.ctrlKey && event.shiftKey && event.key === 'R') {
         event.preventDefault();
         handleRefresh();
       }
     };
 
-    // Auto-refresh when page becomes visible again (user may have modified data elsewhere)
-    const handleVisibilityChange = () => {
-      if (document.visibilityState === 'visible') {
-        // Optionally clear cache when user returns to dashboard
-        // This ensures fresh data if they modified routes in another tab
-        console.log('👁️ Dashboard became visible - consider refreshing cache');
-      }
-    };
-
     window.addEventListener('keydown', handleKeyDown);
-    document.addEventListener('visibilitychange', handleVisibilityChange);
-    
-    return () => {
-      window.removeEventListener('keydown', handleKeyDown);
-      document.removeEventListener('visibilitychange', handleVisibilityChange);
-    };
-  }, [periodCache, handleRefresh]);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [handleRefresh]);
+
+  const formatRangeDisplay = (data: PeriodIncomeData): string =>
+    `${formatDate(new Date(data.startDate))} – ${formatDate(new Date(data.endDate))}`;
+
+  const getComparisonDisplay = (data: PeriodIncomeData): string =>
+    data.period === 'custom'
+      ? formatRangeDisplay(data)
+      : formatPeriodDisplay(selectedPeriod, new Date(data.startDate), settings.fiscalYearStartDate ?? '04-06', language);
+
+  const comparisonLabel = comparisonMode === 'lastYear'
+    ? t('dashboard.comparison.lastYear')
+    : t('dashboard.comparison.previous');
 
   const getCurrentPeriodDisplay = (): string => {
     if (!periodData) return '';
+    if (periodData.period === 'custom') return formatRangeDisplay(periodData);
     return formatPeriodDisplay(
       selectedPeriod,
       new Date(periodData.startDate ?? new Date()),
@@ -390,6 +336,9 @@ const Dashboard: React.FC = () => {
                 <p className="text-2xl font-bold text-gray-900 mt-2">
                   {formatCurrency(stats.netIncome)}
                 </p>
+                <p className="text-xs text-gray-500 mt-1">
+                  {t('dashboard.stats.monthExpenses', { amount: formatCurrency(stats.currentMonthExpenses ?? 0) })}
+                </p>
               </div>
               <div className="p-3 bg-purple-100 rounded-full">
                 <svg className="w-6 h-6 text-purple-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -408,12 +357,6 @@ const Dashboard: React.FC = () => {
           <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
             <div className="flex items-center space-x-3">
                           <h2 className="text-xl font-semibold text-gray-900">{t('dashboard.incomeAnalysis')}</h2>
-              {periodCache.size > 0 && (
-                <span className="text-xs text-blue-600 bg-blue-50 px-2 py-1 rounded-full" 
-                      title={`${periodCache.size} periods cached for instant access`}>
-                  📦 {periodCache.size} cached
-                </span>
-              )}
             </div>
           </div>
           
@@ -422,12 +365,24 @@ const Dashboard: React.FC = () => {
             <PeriodSelector 
               selectedPeriod={selectedPeriod}
               onPeriodChange={handlePeriodChange}
+              onCustomSelect={handleCustomSelect}
+              isCustomSelected={customRange !== null}
               className="flex-shrink-0"
             />
+            <select
+              value={comparisonMode}
+              onChange={(e) => setComparisonMode(e.target.value as ComparisonMode)}
+              className="px-3 py-2 text-sm border border-gray-300 rounded-md bg-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+              aria-label={t('dashboard.comparison.mode')}
+            >
+              <option value="none">{t('dashboard.comparison.none')}</option>
+              <option value="previous">{t('dashboard.comparison.previous')}</option>
+              <option value="lastYear">{t('dashboard.comparison.lastYear')}</option>
+            </select>
             <button
               onClick={handleRefresh}
               className="flex items-center justify-center sm:justify-start px-3 py-2 text-sm text-gray-600 hover:text-gray-900 hover:bg-gray-100 rounded-md transition-colors duration-200 flex-shrink-0"
-              title="Refresh data and clear cache (Ctrl+Shift+R)"
+              title="Refresh data (Ctrl+Shift+R)"
             >
               <svg className="w-4 h-4 mr-1" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                 <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" />
@@ -436,11 +391,14 @@ const Dashboard: React.FC = () => {
                           <span className="sm:hidden">{t('dashboard.refresh')}</span>
             </button>
           </div>
+          {customRange && (
+            <DateRangePicker value={customRange} onApply={setCustomRange} />
+          )}
         </div>
       </div>
 
-      {/* Period Navigation */}
-      {periodData && (
+      {/* Period Navigation - custom ranges are changed with the date picker instead */}
+      {periodData && !customRange && (
         <PeriodNavigation
           period={selectedPeriod}
           currentPeriodDisplay={getCurrentPeriodDisplay()}
@@ -452,6 +410,15 @@ const Dashboard: React.FC = () => {
         />
       )}
 
+      {/* Earnings Goals - future periods have nothing to measure yet */}
+      {periodData && !periodLoading && periodData.period === selectedPeriod && periodOffset <= 0 && (
+        <GoalProgress
+          period={selectedPeriod}
+          data={periodData}
+          isCurrentPeriod={periodOffset === 0}
+        />
+      )}
+
       {/* Period Chart */}
       <div className="grid grid-cols-1 xl:grid-cols-3 gap-6">
         <div className="xl:col-span-2">
@@ -463,22 +430,26 @@ const Dashboard: React.FC = () => {
             </div>
           ) : periodData ? (
             <PeriodChart
-              period={selectedPeriod}
-              data={periodData.chartData?.map((item: { label: string; date: string; income: number; routes: number; distance: number }) => ({
+              period={periodData.period === 'custom' ? 'custom' : selectedPeriod}
+              granularity={periodData.granularity}
+              data={periodData.chartData?.map((item: { label: string; date: string; income: number; expenses?: number; netIncome?: number; routes: number; distance: number }) => ({
                 label: item.label,
                 date: item.date,
                 income: item.income,
+                expenses: item.expenses ?? 0,
+                netIncome: item.netIncome ?? item.income,
                 routes: item.routes,
                 distance: item.distance
               })) ?? []}
               currentPeriodDisplay={getCurrentPeriodDisplay()}
+              comparison={comparisonData ? { label: comparisonLabel, data: comparisonData.chartData } : undefined}
             />
           ) : (
             <div className="bg-white rounded-lg border border-gray-200 p-6">
               <div className="text-center py-12">
                 <p className="text-gray-500">{t('errors.generic')}</p>
                 <button
-                  onClick={loadPeriodData}
+                  onClick={() => periodQuery.refetch()}
                   className="mt-4 px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700"
                 >
                   {t('common.retry')}
@@ -500,15 +471,24 @@ const Dashboard: React.FC = () => {
                   const colorClass = colors[index % colors.length];
                   const workTypeStats = stats as { 
                     income: number; 
+                    expenses?: number;
+                    netIncome?: number;
                     routes: number; 
                     totalWorkingHours: number; 
                     hourlyRate: number; 
                     totalMileage: number; 
                     earningsPerMile: number; 
+                    drivingHours?: number;
+                    waitingHours?: number;
+                    trackedRoutes?: number;
                     incomeBySource?: Record<string, number>; 
                   };
                   const isExpanded = expandedWorkTypes.has(workType);
                   const hasIncomeSources = workTypeStats.incomeBySource && Object.keys(workTypeStats.incomeBySource).length > 0;
+                  const trackedRoutes = workTypeStats.trackedRoutes ?? 0;
+                  const drivingHours = workTypeStats.drivingHours ?? 0;
+                  const waitingHours = workTypeStats.waitingHours ?? 0;
+                  const waitingShare = drivingHours + waitingHours > 0 ? waitingHours / (drivingHours + waitingHours) * 100 : 0;
                   
                   const toggleExpanded = () => {
                     setExpandedWorkTypes(prev => {
@@ -551,6 +531,15 @@ const Dashboard: React.FC = () => {
                         <div className="text-2xl font-bold text-gray-900">
                           {formatCurrency(workTypeStats.income || 0)}
                         </div>
+                        {(workTypeStats.expenses ?? 0) > 0 && (
+                          <div className="text-sm text-gray-600 mt-1">
+                            {t('dashboard.stats.lessExpenses', { amount: formatCurrency(workTypeStats.expenses ?? 0) })}
+                            {' · '}
+                            <span className="font-medium text-gray-900">
+                              {t('dashboard.stats.netAmount', { amount: formatCurrency(workTypeStats.netIncome ?? workTypeStats.income) })}
+                            </span>
+                          </div>
+                        )}
                       </div>
                       
                       {/* Metrics grid */}
@@ -581,6 +570,21 @@ const Dashboard: React.FC = () => {
                         </div>
                       </div>
                       
+                      {/* Driving vs waiting, from the routes that recorded a location trail */}
+                      {trackedRoutes > 0 && (
+                        <div className="mb-4 text-sm">
+                          <div className="flex justify-between items-center">
+                            <span className="text-gray-600">
+                              {t('dashboard.stats.drivingVsWaiting', { driving: formatHoursCompact(drivingHours), waiting: formatHoursCompact(waitingHours) })}
+                            </span>
+                            <span className="text-xs text-gray-500">{t('dashboard.stats.trackedRoutes', { count: trackedRoutes })}</span>
+                          </div>
+                          <div className="mt-1 flex h-2 rounded-full overflow-hidden bg-blue-500">
+                            <div className="bg-amber-400" style={{ width: `${waitingShare}%` }}></div>
+                          </div>
+                        </div>
+                      )}
+
                       {/* Expandable Income Sources Section */}
                       {hasIncomeSources && isExpanded && (
                         <div className="pt-4 border-t border-gray-300">
@@ -632,6 +636,28 @@ const Dashboard: React.FC = () => {
         </div>
       </div>
 
+      {/* Comparison deltas */}
+      {periodData && comparisonData && !periodLoading && (
+        <ComparisonSummary
+          comparison={comparePeriods(periodData, comparisonData)}
+          comparisonLabel={comparisonLabel}
+          comparisonDisplay={getComparisonDisplay(comparisonData)}
+        />
+      )}
+
+      {/* Net hourly rate after vehicle costs */}
+      {periodData && !periodLoading && (
+        <EffectiveRateRanking incomeBySource={periodData.incomeBySource} />
+      )}
+
+      {/* Weekday × hour earnings */}
+      {periodData && !periodLoading && (
+        <HourlyEarningsGrid
+          startDate={toDateParam(new Date(periodData.startDate))}
+          endDate={toDateParam(new Date(periodData.endDate))}
+        />
+      )}
+
       {/* Today's Routes */}
       <div className="dashboard-card">
         <div className="flex items-center justify-between mb-6">
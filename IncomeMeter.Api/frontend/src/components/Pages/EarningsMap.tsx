@@ -0,0 +1,193 @@
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import { useSettings } from '../../contexts/SettingsContext';
+import { useLanguage } from '../../contexts/LanguageContext';
+import { getEarningsHeatmap } from '../../utils/api';
+import { formatHours } from '../../utils/time';
+import { DEFAULT_MIN_CELL_HOURS, getTopCells, getVisibleCells } from '../../utils/earningsHeatmap';
+import EarningsHeatmapMap from '../Maps/EarningsHeatmapMap';
+import type { EarningsHeatmap } from '../../types';
+
+const DEFAULT_RANGE_DAYS = 90;
+const TOP_CELL_COUNT = 5;
+const HOURS = Array.from({ length: 24 }, (_, hour) => hour);
+
+// Local calendar date as YYYY-MM-DD, which the heatmap endpoint treats inclusively
+const toDateParam = (date: Date): string =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+const getErrorMessage = (err: unknown): string | undefined =>
+  (err as { response?: { data?: { error?: string } } })?.response?.data?.error;
+
+const formatHourOfDay = (hour: number) => `${String(hour % 24).padStart(2, '0')}:00`;
+
+const EarningsMap: React.FC = () => {
+  const { formatCurrency } = useSettings();
+  const { t } = useLanguage();
+  const [startDate, setStartDate] = useState(() => {
+    const start = new Date();
+    start.setDate(start.getDate() - DEFAULT_RANGE_DAYS + 1);
+    return toDateParam(start);
+  });
+  const [endDate, setEndDate] = useState(() => toDateParam(new Date()));
+  const [workType, setWorkType] = useState('');
+  const [startHour, setStartHour] = useState<number | ''>('');
+  const [endHour, setEndHour] = useState<number | ''>('');
+  const [minHours, setMinHours] = useState(DEFAULT_MIN_CELL_HOURS);
+  const [heatmap, setHeatmap] = useState<EarningsHeatmap | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadHeatmap = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      // A time-of-day window needs both ends; either alone means the whole day
+      const hasHours = startHour !== '' && endHour !== '';
+      setHeatmap(await getEarningsHeatmap({
+        startDate,
+        endDate,
+        workType: workType || undefined,
+        startHour: hasHours ? startHour : undefined,
+        endHour: hasHours ? endHour : undefined,
+      }));
+    } catch (err) {
+      console.error('Error loading earnings heatmap:', err);
+      setError(getErrorMessage(err) || t('earningsMap.error'));
+    } finally {
+      setLoading(false);
+    }
+  }, [startDate, endDate, workType, startHour, endHour, t]);
+
+  useEffect(() => {
+    loadHeatmap();
+  }, [loadHeatmap]);
+
+  const visibleCells = useMemo(() => getVisibleCells(heatmap?.cells ?? [], minHours), [heatmap, minHours]);
+  const topCells = useMemo(() => getTopCells(visibleCells, TOP_CELL_COUNT), [visibleCells]);
+
+  const inputClass = 'px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 bg-white text-sm';
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="bg-white rounded-lg shadow p-6">
+        <h1 className="text-2xl font-bold text-gray-900">{t('earningsMap.title')}</h1>
+        <p className="text-sm text-gray-500 mt-1">{t('earningsMap.subtitle')}</p>
+      </div>
+
+      {/* Filters */}
+      <div className="bg-white rounded-lg shadow p-4 flex flex-wrap items-end gap-3">
+        <label className="text-sm text-gray-700">
+          <span className="block mb-1">{t('earningsMap.filters.from')}</span>
+          <input type="date" value={startDate} max={endDate} onChange={(e) => setStartDate(e.target.value)} className={inputClass} />
+        </label>
+        <label className="text-sm text-gray-700">
+          <span className="block mb-1">{t('earningsMap.filters.to')}</span>
+          <input type="date" value={endDate} min={startDate} onChange={(e) => setEndDate(e.target.value)} className={inputClass} />
+        </label>
+        <label className="text-sm text-gray-700">
+          <span className="block mb-1">{t('earningsMap.filters.workType')}</span>
+          <select value={workType} onChange={(e) => setWorkType(e.target.value)} className={inputClass}>
+            <option value="">{t('earningsMap.filters.allWorkTypes')}</option>
+            {heatmap?.workTypes.map(type => (
+              <option key={type} value={type}>{type}</option>
+            ))}
+          </select>
+        </label>
+        <label className="text-sm text-gray-700">
+          <span className="block mb-1">{t('earningsMap.filters.startHour')}</span>
+          <select
+            value={startHour}
+            onChange={(e) => setStartHour(e.target.value === '' ? '' : Number(e.target.value))}
+            className={inputClass}
+          >
+            <option value="">{t('earningsMap.filters.anyTime')}</option>
+            {HOURS.map(hour => <option key={hour} value={hour}>{formatHourOfDay(hour)}</option>)}
+          </select>
+        </label>
+        <label className="text-sm text-gray-700">
+          <span className="block mb-1">{t('earningsMap.filters.endHour')}</span>
+          <select
+            value={endHour}
+            onChange={(e) => setEndHour(e.target.value === '' ? '' : Number(e.target.value))}
+            className={inputClass}
+          >
+            <option value="">{t('earningsMap.filters.anyTime')}</option>
+            {HOURS.map(hour => <option key={hour} value={hour + 1}>{formatHourOfDay(hour + 1)}</option>)}
+          </select>
+        </label>
+        <label className="text-sm text-gray-700">
+          <span className="block mb-1">{t('earningsMap.filters.minHours')}</span>
+          <input
+            type="number"
+            min="0"
+            step="0.25"
+            value={minHours}
+            onChange={(e) => setMinHours(Math.max(0, parseFloat(e.target.value) || 0))}
+            className={`${inputClass} w-24`}
+          />
+        </label>
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-md p-4">
+          <p className="text-sm text-red-700">{error}</p>
+          <button
+            onClick={loadHeatmap}
+            className="mt-3 bg-red-100 hover:bg-red-200 text-red-800 px-4 py-2 rounded-md text-sm font-medium"
+          >
+            {t('common.retry')}
+          </button>
+        </div>
+      )}
+
+      {loading ? (
+        <div className="flex items-center justify-center min-h-64">
+          <div className="text-center">
+            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600 mx-auto mb-4"></div>
+            <p className="text-gray-600">{t('earningsMap.loading')}</p>
+          </div>
+        </div>
+      ) : heatmap && (
+        <div className="grid grid-cols-1 xl:grid-cols-3 gap-6">
+          <div className="xl:col-span-2 bg-white rounded-lg shadow p-4">
+            <p className="text-sm text-gray-600 mb-3">
+              {t('earningsMap.summary', { routes: heatmap.routeCount, cells: visibleCells.length })}
+            </p>
+            {visibleCells.length === 0 ? (
+              <div className="h-64 flex items-center justify-center text-gray-500">{t('earningsMap.empty')}</div>
+            ) : (
+              <EarningsHeatmapMap cells={visibleCells} cellSizeDegrees={heatmap.cellSizeDegrees} />
+            )}
+          </div>
+
+          <div className="bg-white rounded-lg shadow p-6">
+            <h2 className="text-lg font-semibold text-gray-900 mb-4">{t('earningsMap.topAreas')}</h2>
+            {topCells.length === 0 ? (
+              <p className="text-sm text-gray-500">{t('earningsMap.empty')}</p>
+            ) : (
+              <ol className="space-y-3 text-sm">
+                {topCells.map((cell, index) => (
+                  <li key={`${cell.latitude}:${cell.longitude}`} className="flex justify-between gap-3">
+                    <div>
+                      <p className="font-medium text-gray-900">
+                        {index + 1}. {(cell.latitude + heatmap.cellSizeDegrees / 2).toFixed(3)}, {(cell.longitude + heatmap.cellSizeDegrees / 2).toFixed(3)}
+                      </p>
+                      <p className="text-gray-500">
+                        {t('earningsMap.cell.time', { hours: formatHours(cell.hours) })} · {t('earningsMap.cell.routes', { count: cell.routeCount })}
+                      </p>
+                    </div>
+                    <span className="font-semibold text-green-600 shrink-0">{formatCurrency(cell.incomePerHour)}/h</span>
+                  </li>
+                ))}
+              </ol>
+            )}
+            <p className="mt-4 text-xs text-gray-500">{t('earningsMap.note')}</p>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default EarningsMap;
@@ -1,20 +1,44 @@
 import React, { useState, useEffect, useCallback, useMemo } from 'react';
 import { useTranslation } from 'react-i18next';
 import RouteForm from './RouteForm';
-import { getRoutes, getRoutesByStatus, getRoutesByDateRange, deleteRoute, getActiveWorkTypeConfigs } from '../../utils/api';
+import RouteImportWizard from './RouteImportWizard';
+import { getActiveWorkTypeConfigs } from '../../utils/api';
 import MultiSelectDropdown from '../UI/MultiSelectDropdown';
 import TimeRangeFilter from '../UI/TimeRangeFilter';
 import { getDateRangeFromSelection } from '../../utils/timeRangeUtils';
-import { sortRoutes, getSortingOptions, type SortOption } from '../../utils/routeSorting';
-import CompactRouteItem from '../UI/CompactRouteItem';
-import type { Route, WorkTypeConfig, FilterOption } from '../../types';
+import { getSortingOptions, type SortOption } from '../../utils/routeSorting';
+import VirtualRouteList from '../UI/VirtualRouteList';
+import OfflineQueuePanel from '../UI/OfflineQueuePanel';
+import { useOutbox } from '../../contexts/OutboxContext';
+import { useSettings } from '../../contexts/SettingsContext';
+import { useRouteFeed } from '../../hooks/useRouteFeed';
+import { deleteCachedRoute, fetchAllRoutes } from '../../utils/routeQueries';
+import { buildRouteExportRows, formatExportDateTime } from '../../utils/routeExport';
+import { downloadSpreadsheet } from '../../utils/spreadsheetExport';
+import type { Route, RoutePageQuery, WorkTypeConfig, FilterOption, OutboxEntry } from '../../types';
 
+const NO_ROUTES: Route[] = [];
+
+const SEARCH_DELAY_MS = 300;
+
+const getLoadErrorMessage = (err: unknown): string => {
+  if (err instanceof Error) {
+    if (err.message.includes('<!doctype')) {
+      return 'API server returned HTML instead of JSON. Please check if the backend server is running on https://localhost:7079';
+    }
+    if (err.message.includes('Network Error') || err.message.includes('fetch')) {
+      return 'Cannot connect to API server. Please ensure the backend is running on https://localhost:7079';
+    }
+    return err.message;
+  }
+  return 'An error occurred while loading routes';
+};
 
 const EnhancedRouteList: React.FC = () => {
   const { t } = useTranslation();
-  const [routes, setRoutes] = useState<Route[]>([]);
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
+  const { entries: outboxEntries } = useOutbox();
+  const { settings } = useSettings();
+  const [actionError, setActionError] = useState<string | null>(null);
   const [showCreateForm, setShowCreateForm] = useState(false);
   const [editingRoute, setEditingRoute] = useState<Route | null>(null);
   const [deletingRoute, setDeletingRoute] = useState<Route | null>(null);
@@ -26,91 +50,43 @@ const EnhancedRouteList: React.FC = () => {
   const [selectedIncomeSources, setSelectedIncomeSources] = useState<string[]>([]);
   const [showFilters, setShowFilters] = useState(false);
   const [sortOption, setSortOption] = useState<SortOption>('newest'); // Default to newest first
+  const [searchInput, setSearchInput] = useState('');
+  const [search, setSearch] = useState('');
+  const [showExportMenu, setShowExportMenu] = useState(false);
+  const [showImportWizard, setShowImportWizard] = useState(false);
   
   // Filter data
   const [availableWorkTypes, setAvailableWorkTypes] = useState<WorkTypeConfig[]>([]);
-  const [availableIncomeSources, setAvailableIncomeSources] = useState<FilterOption[]>([]);
 
-  const fetchRoutes = useCallback(async () => {
-    try {
-      setLoading(true);
-      setError(null);
-      
-      let data: Route[] = [];
-      
-      console.log('Fetching routes with filters:', { filterStatus, timeRange, selectedWorkTypes, selectedIncomeSources });
-      
-      // Apply API filters (status and date range)
-      const dateRangeFilter = getDateRangeFromSelection(timeRange);
-      
-      if (filterStatus !== 'all') {
-        console.log(`Fetching routes by status: ${filterStatus}`);
-        data = await getRoutesByStatus(filterStatus);
-      } else if (dateRangeFilter) {
-        console.log(`Fetching routes by date range: ${dateRangeFilter.start} to ${dateRangeFilter.end}`);
-        const startStr = dateRangeFilter.start.toISOString().split('T')[0];
-        const endStr = dateRangeFilter.end.toISOString().split('T')[0];
-        data = await getRoutesByDateRange(startStr, endStr);
-      } else {
-        console.log('Fetching all routes');
-        data = await getRoutes();
-      }
+  // Every filter, the search and the sort are applied by the API, and each combination is cached as its own feed
+  const routeQuery = useMemo<RoutePageQuery>(() => {
+    const dateRangeFilter = getDateRangeFromSelection(timeRange);
+    return {
+      status: filterStatus !== 'all' ? filterStatus : undefined,
+      startDate: dateRangeFilter?.start.toISOString().split('T')[0],
+      endDate: dateRangeFilter?.end.toISOString().split('T')[0],
+      workTypes: selectedWorkTypes,
+      incomeSources: selectedIncomeSources,
+      search: search || undefined,
+      sort: sortOption,
+    };
+  }, [filterStatus, timeRange, selectedWorkTypes, selectedIncomeSources, search, sortOption]);
 
-      console.log('Raw API response:', data);
+  const { data, error: loadError, isLoading: loading, refetch, hasMore, isFetchingMore, loadMoreError, loadMore } = useRouteFeed(routeQuery);
+  const routes = data?.routes ?? NO_ROUTES;
+  // Cached routes are still shown if a background refresh fails
+  const error = actionError ?? (loadError && !data ? getLoadErrorMessage(loadError) : null);
 
-      let processedRoutes: Route[] = data.map((route: Route) => ({
-        ...route,
-        scheduleStart: new Date(route.scheduleStart),
-        scheduleEnd: new Date(route.scheduleEnd),
-        actualStartTime: route.actualStartTime ? new Date(route.actualStartTime) : undefined,
-        actualEndTime: route.actualEndTime ? new Date(route.actualEndTime) : undefined,
-        createdAt: new Date(route.createdAt),
-        updatedAt: new Date(route.updatedAt),
-      }));
-      
-      // Apply client-side filters for work types and income sources
-      if (selectedWorkTypes.length > 0) {
-        processedRoutes = processedRoutes.filter(route => 
-          route.workType && selectedWorkTypes.includes(route.workType)
-        );
-      }
-      
-      if (selectedIncomeSources.length > 0) {
-        processedRoutes = processedRoutes.filter(route => 
-          route.incomes.some(income => selectedIncomeSources.includes(income.source))
-        );
-      }
-      
-      // Apply sorting
-      processedRoutes = sortRoutes(processedRoutes, sortOption);
-      
-      console.log('Filtered and sorted routes:', processedRoutes);
-      setRoutes(processedRoutes);
-    } catch (err) {
-      console.error('Error fetching routes:', err);
-      console.error('Error details:', {
-        message: err instanceof Error ? err.message : 'Unknown error',
-        stack: err instanceof Error ? err.stack : undefined,
-        name: err instanceof Error ? err.name : undefined
-      });
-      
-      // Provide more detailed error message
-      let errorMessage = 'An error occurred while loading routes';
-      if (err instanceof Error) {
-        if (err.message.includes('<!doctype')) {
-          errorMessage = 'API server returned HTML instead of JSON. Please check if the backend server is running on https://localhost:7079';
-        } else if (err.message.includes('Network Error') || err.message.includes('fetch')) {
-          errorMessage = 'Cannot connect to API server. Please ensure the backend is running on https://localhost:7079';
-        } else {
-          errorMessage = err.message;
-        }
-      }
-      
-      setError(errorMessage);
-    } finally {
-      setLoading(false);
-    }
-  }, [filterStatus, timeRange, selectedWorkTypes, selectedIncomeSources, sortOption]);
+  // Wait for a pause in typing before searching
+  useEffect(() => {
+    const timer = setTimeout(() => setSearch(searchInput.trim()), SEARCH_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [searchInput]);
+
+  const retryFetch = () => {
+    setActionError(null);
+    refetch().catch(() => undefined);
+  };
 
   // Fetch work types on component mount
   const fetchWorkTypes = useCallback(async () => {
@@ -122,9 +98,13 @@ const EnhancedRouteList: React.FC = () => {
     }
   }, []);
 
-  // Build unique income sources from all routes
-  const buildIncomeSourcesOptions = useMemo(() => {
-    const sources = new Set<string>();
+  // Only some routes are loaded, so income sources also come from the work type templates,
+  // and selected sources stay listed even when no loaded route uses them
+  const availableIncomeSources = useMemo<FilterOption[]>(() => {
+    const sources = new Set<string>(selectedIncomeSources);
+    availableWorkTypes.forEach(workType => {
+      workType.incomeSourceTemplates.forEach(template => sources.add(template.name));
+    });
     routes.forEach(route => {
       route.incomes.forEach(income => {
         if (income.source.trim()) {
@@ -139,20 +119,31 @@ const EnhancedRouteList: React.FC = () => {
         id: source,
         label: source
       }));
-  }, [routes]);
-
-  useEffect(() => {
-    setAvailableIncomeSources(buildIncomeSourcesOptions);
-  }, [buildIncomeSourcesOptions]);
-
-  useEffect(() => {
-    fetchRoutes();
-  }, [fetchRoutes]);
+  }, [availableWorkTypes, routes, selectedIncomeSources]);
 
   useEffect(() => {
     fetchWorkTypes();
   }, [fetchWorkTypes]);
 
+  // Routes created while offline live in the outbox until they are synced
+  const queuedRoutes = useMemo(() => outboxEntries
+    .filter(entry => (entry.type === 'createRoute' || entry.type === 'startRoute') && entry.placeholder)
+    .map(entry => entry.placeholder as Route),
+    [outboxEntries]
+  );
+  const displayedRoutes = useMemo(() => [...queuedRoutes, ...routes], [queuedRoutes, routes]);
+
+  const syncStatusByRoute = useMemo(() => {
+    const statuses = new Map<string, OutboxEntry['status']>();
+    outboxEntries.forEach(entry => {
+      const routeId = entry.routeId ?? entry.tempId;
+      if (statuses.get(routeId) !== 'failed') {
+        statuses.set(routeId, entry.status);
+      }
+    });
+    return statuses;
+  }, [outboxEntries]);
+
   // Memoized filter options
   const workTypeOptions = useMemo(() => 
     availableWorkTypes.map(workType => ({
@@ -173,6 +164,7 @@ const EnhancedRouteList: React.FC = () => {
     if (selectedWorkTypes.length > 0) count++;
     if (selectedIncomeSources.length > 0) count++;
     if (sortOption !== 'newest') count++; // Count non-default sorting as active filter
+    if (search) count++;
     return count;
   };
 
@@ -182,28 +174,54 @@ const EnhancedRouteList: React.FC = () => {
     setSelectedWorkTypes([]);
     setSelectedIncomeSources([]);
     setSortOption('newest'); // Reset to default
+    setSearchInput('');
+    setSearch('');
   };
 
-  const handleCreateRoute = (route: Route) => {
-    setRoutes(prev => [route, ...prev]);
+  // Export exactly what the current filters and sorting produce, including pages not scrolled to yet
+  const handleExport = async (format: 'csv' | 'xlsx') => {
+    setShowExportMenu(false);
+    setActionError(null);
+    let routesToExport: Route[];
+    try {
+      routesToExport = await fetchAllRoutes(routeQuery);
+    } catch (err) {
+      console.error('Error loading routes to export:', err);
+      setActionError(err instanceof Error ? err.message : 'Failed to load routes to export');
+      return;
+    }
+    const rows = buildRouteExportRows(routesToExport, {
+      t,
+      currency: settings.currency,
+      timeZone: settings.timeZone,
+      mileageUnit: settings.mileageUnit,
+    });
+    const today = formatExportDateTime(new Date(), settings.timeZone).split(' ')[0];
+    downloadSpreadsheet(rows, format, `${t('routes.export.filename')}-${today}`, t('routes.export.sheetName'));
+  };
+
+  const handleImportComplete = () => {
+    setShowImportWizard(false);
+  };
+
+  // RouteForm saves through the route cache, which already updates this list
+  const handleCreateRoute = () => {
     setShowCreateForm(false);
   };
 
-  const handleUpdateRoute = (updatedRoute: Route) => {
-    setRoutes(prev => prev.map(route => 
-      route.id === updatedRoute.id ? updatedRoute : route
-    ));
+  const handleUpdateRoute = () => {
     setEditingRoute(null);
   };
 
+  // The route leaves the list straight away and comes back if the delete fails
   const handleDeleteRoute = async (routeId: string) => {
+    setDeletingRoute(null);
+    setActionError(null);
     try {
-      await deleteRoute(routeId);
-      setRoutes(prev => prev.filter(route => route.id !== routeId));
-      setDeletingRoute(null);
+      await deleteCachedRoute(routeId);
     } catch (err) {
       console.error('Error deleting route:', err);
-      setError(err instanceof Error ? err.message : 'Failed to delete route');
+      setActionError(err instanceof Error ? err.message : 'Failed to delete route');
     }
   };
 
@@ -229,7 +247,7 @@ const EnhancedRouteList: React.FC = () => {
           <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between">
             <div>
               <h1 className="text-2xl font-bold text-gray-900">{t('routes.list.title')}</h1>
-              <p className="text-gray-600 mt-1">{routes.length} {t('routes.title').toLowerCase()}</p>
+              <p className="text-gray-600 mt-1">{queuedRoutes.length + (data?.totalCount ?? 0)} {t('routes.title').toLowerCase()}</p>
             </div>
             <div className="flex items-center space-x-2">
               {/* Mobile Filter Toggle */}
@@ -247,6 +265,46 @@ const EnhancedRouteList: React.FC = () => {
                   </span>
                 )}
               </button>
+
+              <button
+                onClick={() => setShowImportWizard(true)}
+                className="flex items-center space-x-2 bg-gray-100 hover:bg-gray-200 text-gray-700 px-3 py-2 rounded-md text-sm font-medium"
+              >
+                <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-8l-4-4m0 0L8 8m4-4v12" />
+                </svg>
+                <span>{t('routes.import.button')}</span>
+              </button>
+
+              <div className="relative">
+                <button
+                  onClick={() => setShowExportMenu(!showExportMenu)}
+                  disabled={routes.length === 0}
+                  title={routes.length === 0 ? t('routes.export.empty') : undefined}
+                  className="flex items-center space-x-2 bg-gray-100 hover:bg-gray-200 text-gray-700 px-3 py-2 rounded-md text-sm font-medium disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4" />
+                  </svg>
+                  <span>{t('routes.export.button')}</span>
+                </button>
+                {showExportMenu && (
+                  <div className="absolute right-0 mt-2 w-56 bg-white border border-gray-200 rounded-md shadow-lg z-10">
+                    <button
+                      onClick={() => handleExport('csv')}
+                      className="block w-full text-left px-4 py-2 text-sm text-gray-700 hover:bg-gray-100"
+                    >
+                      {t('routes.export.csv')}
+                    </button>
+                    <button
+                      onClick={() => handleExport('xlsx')}
+                      className="block w-full text-left px-4 py-2 text-sm text-gray-700 hover:bg-gray-100"
+                    >
+                      {t('routes.export.xlsx')}
+                    </button>
+                  </div>
+                )}
+              </div>
               
               <button
                 onClick={() => setShowCreateForm(true)}
@@ -260,6 +318,20 @@ const EnhancedRouteList: React.FC = () => {
           {/* Filters - Always visible on desktop, toggleable on mobile */}
           <div className={`${showFilters ? 'block' : 'hidden'} md:block`}>
             <div className="bg-gray-50 rounded-lg p-4 space-y-4">
+              <div>
+                <label htmlFor="route-search" className="block text-sm font-medium text-gray-700 mb-1">
+                  {t('routes.filters.search.label')}
+                </label>
+                <input
+                  id="route-search"
+                  type="search"
+                  value={searchInput}
+                  onChange={(e) => setSearchInput(e.target.value)}
+                  placeholder={t('routes.filters.search.placeholder')}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 bg-white text-sm"
+                />
+              </div>
+
               {/* First row: Status, Time Range, Work Types, Income Sources, and Sorting */}
               <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-5 gap-4">
                 <div>
@@ -335,6 +407,8 @@ const EnhancedRouteList: React.FC = () => {
         </div>
       </div>
 
+      <OfflineQueuePanel entries={outboxEntries} />
+
       {error && (
         <div className="bg-red-50 border border-red-200 rounded-md p-4">
           <div className="flex">
@@ -362,7 +436,7 @@ const EnhancedRouteList: React.FC = () => {
               </div>
               <div className="mt-4">
                 <button
-                  onClick={fetchRoutes}
+                  onClick={retryFetch}
                   className="bg-red-100 hover:bg-red-200 text-red-800 px-4 py-2 rounded-md text-sm font-medium"
                 >
                   {t('common.retry')}
@@ -374,22 +448,22 @@ const EnhancedRouteList: React.FC = () => {
       )}
 
       {/* Route List */}
-      {routes.length === 0 ? (
+      {displayedRoutes.length === 0 ? (
         <div className="bg-white rounded-lg shadow p-12 text-center">
           <div className="text-gray-500 text-lg">{t('routes.list.empty.title')}</div>
           <p className="text-gray-400 mt-2">{t('routes.list.empty.message')}</p>
         </div>
       ) : (
-        <div className="space-y-4">
-          {routes.map((route) => (
-            <CompactRouteItem
-              key={route.id}
-              route={route}
-              onEdit={setEditingRoute}
-              onDelete={setDeletingRoute}
-            />
-          ))}
-        </div>
+        <VirtualRouteList
+          routes={displayedRoutes}
+          syncStatusByRoute={syncStatusByRoute}
+          onEdit={setEditingRoute}
+          onDelete={setDeletingRoute}
+          hasMore={hasMore}
+          isFetchingMore={isFetchingMore}
+          loadMoreFailed={Boolean(loadMoreError)}
+          onLoadMore={loadMore}
+        />
       )}
 
       {/* Create Route Form */}
@@ -400,6 +474,14 @@ const EnhancedRouteList: React.FC = () => {
         />
       )}
 
+      {/* CSV Import Wizard */}
+      {showImportWizard && (
+        <RouteImportWizard
+          onComplete={handleImportComplete}
+          onCancel={() => setShowImportWizard(false)}
+        />
+      )}
+
       {/* Edit Route Form */}
       {editingRoute && (
         <RouteForm
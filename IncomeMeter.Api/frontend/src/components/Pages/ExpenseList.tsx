@@ -0,0 +1,247 @@
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import { Link } from 'react-router-dom';
+import { useSettings } from '../../contexts/SettingsContext';
+import { useLanguage } from '../../contexts/LanguageContext';
+import { getExpenses, createExpense, deleteExpense } from '../../utils/api';
+import { EXPENSE_CATEGORIES, sumExpenses, summarizeExpensesByCategory } from '../../utils/expenses';
+import type { Expense, ExpenseCategory } from '../../types';
+
+// Local calendar date as YYYY-MM-DD, which the expenses endpoint treats inclusively
+const toDateParam = (date: Date): string =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+const ExpenseList: React.FC = () => {
+  const { formatCurrency, formatDate } = useSettings();
+  const { t } = useLanguage();
+  const today = toDateParam(new Date());
+  const [startDate, setStartDate] = useState(() => {
+    const now = new Date();
+    return toDateParam(new Date(now.getFullYear(), now.getMonth(), 1));
+  });
+  const [endDate, setEndDate] = useState(today);
+  const [categoryFilter, setCategoryFilter] = useState<ExpenseCategory | ''>('');
+  const [expenses, setExpenses] = useState<Expense[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const [newCategory, setNewCategory] = useState<ExpenseCategory>('fuel');
+  const [newAmount, setNewAmount] = useState<number | ''>('');
+  const [newDate, setNewDate] = useState(today);
+  const [newDescription, setNewDescription] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const loadExpenses = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      setExpenses(await getExpenses(startDate, endDate));
+    } catch (err) {
+      console.error('Error loading expenses:', err);
+      setError(t('expenses.error.load'));
+    } finally {
+      setLoading(false);
+    }
+  }, [startDate, endDate, t]);
+
+  useEffect(() => {
+    loadExpenses();
+  }, [loadExpenses]);
+
+  const visibleExpenses = useMemo(
+    () => categoryFilter ? expenses.filter(expense => expense.category === categoryFilter) : expenses,
+    [expenses, categoryFilter]
+  );
+  const categoryTotals = useMemo(() => summarizeExpensesByCategory(expenses), [expenses]);
+
+  const handleAddExpense = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (newAmount === '' || newAmount <= 0) return;
+
+    try {
+      setSaving(true);
+      setError(null);
+      await createExpense({
+        category: newCategory,
+        amount: Number(newAmount),
+        date: newDate,
+        description: newDescription.trim() || undefined,
+      });
+      setNewAmount('');
+      setNewDescription('');
+      await loadExpenses();
+    } catch (err) {
+      console.error('Error adding expense:', err);
+      setError(t('expenses.error.save'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDeleteExpense = async (expenseId: string) => {
+    if (!window.confirm(t('expenses.confirmDelete'))) return;
+
+    try {
+      setError(null);
+      await deleteExpense(expenseId);
+      setExpenses(prev => prev.filter(expense => expense.id !== expenseId));
+    } catch (err) {
+      console.error('Error deleting expense:', err);
+      setError(t('expenses.error.delete'));
+    }
+  };
+
+  const inputClass = 'px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 bg-white text-sm';
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="bg-white rounded-lg shadow p-6">
+        <h1 className="text-2xl font-bold text-gray-900">{t('expenses.title')}</h1>
+        <p className="text-gray-600 mt-1">{t('expenses.subtitle')}</p>
+      </div>
+
+      {/* Add expense */}
+      <form onSubmit={handleAddExpense} className="bg-white rounded-lg shadow p-6">
+        <h2 className="text-lg font-semibold text-gray-900 mb-4">{t('expenses.addTitle')}</h2>
+        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-5 gap-3">
+          <select value={newCategory} onChange={(e) => setNewCategory(e.target.value as ExpenseCategory)} className={inputClass}>
+            {EXPENSE_CATEGORIES.map(category => (
+              <option key={category} value={category}>{t(`expenses.categories.${category}`)}</option>
+            ))}
+          </select>
+          <input
+            type="number"
+            step="0.01"
+            min="0"
+            placeholder={t('expenses.amount')}
+            value={newAmount}
+            onChange={(e) => setNewAmount(e.target.value === '' ? '' : Number(e.target.value))}
+            className={inputClass}
+          />
+          <input type="date" value={newDate} onChange={(e) => setNewDate(e.target.value)} required className={inputClass} />
+          <input
+            type="text"
+            placeholder={t('expenses.description')}
+            value={newDescription}
+            onChange={(e) => setNewDescription(e.target.value)}
+            className={inputClass}
+          />
+          <button
+            type="submit"
+            disabled={saving || newAmount === '' || newAmount <= 0}
+            className="bg-blue-600 hover:bg-blue-700 disabled:bg-blue-400 text-white px-4 py-2 rounded-md text-sm font-medium"
+          >
+            {t('expenses.add')}
+          </button>
+        </div>
+        <p className="mt-2 text-xs text-gray-500">{t('expenses.unlinkedNote')}</p>
+      </form>
+
+      {/* Filters */}
+      <div className="bg-white rounded-lg shadow p-4 flex flex-wrap items-end gap-3">
+        <label className="text-sm text-gray-700">
+          <span className="block mb-1">{t('expenses.filters.from')}</span>
+          <input type="date" value={startDate} max={endDate} onChange={(e) => setStartDate(e.target.value)} className={inputClass} />
+        </label>
+        <label className="text-sm text-gray-700">
+          <span className="block mb-1">{t('expenses.filters.to')}</span>
+          <input type="date" value={endDate} min={startDate} onChange={(e) => setEndDate(e.target.value)} className={inputClass} />
+        </label>
+        <label className="text-sm text-gray-700">
+          <span className="block mb-1">{t('expenses.filters.category')}</span>
+          <select value={categoryFilter} onChange={(e) => setCategoryFilter(e.target.value as ExpenseCategory | '')} className={inputClass}>
+            <option value="">{t('expenses.filters.allCategories')}</option>
+            {EXPENSE_CATEGORIES.map(category => (
+              <option key={category} value={category}>{t(`expenses.categories.${category}`)}</option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-md p-4">
+          <p className="text-sm text-red-700">{error}</p>
+        </div>
+      )}
+
+      {loading ? (
+        <div className="flex items-center justify-center min-h-64">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 xl:grid-cols-3 gap-6">
+          {/* Expense table */}
+          <div className="xl:col-span-2 bg-white rounded-lg shadow p-6">
+            {visibleExpenses.length === 0 ? (
+              <p className="text-gray-500 text-center py-8">{t('expenses.noExpenses')}</p>
+            ) : (
+              <table className="min-w-full text-sm">
+                <thead>
+                  <tr className="border-b text-gray-600">
+                    <th className="py-2 text-left font-medium">{t('expenses.columns.date')}</th>
+                    <th className="py-2 text-left font-medium">{t('expenses.columns.category')}</th>
+                    <th className="py-2 text-left font-medium">{t('expenses.columns.description')}</th>
+                    <th className="py-2 text-right font-medium">{t('expenses.columns.amount')}</th>
+                    <th className="py-2"></th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {visibleExpenses.map(expense => (
+                    <tr key={expense.id} className="border-b last:border-b-0">
+                      <td className="py-2 text-gray-700">{formatDate(new Date(expense.date))}</td>
+                      <td className="py-2 text-gray-900">{t(`expenses.categories.${expense.category}`)}</td>
+                      <td className="py-2 text-gray-700">
+                        {expense.description}
+                        {expense.routeId && (
+                          <Link to={`/routes/${expense.routeId}`} className="ml-2 text-blue-600 hover:underline">
+                            {t('expenses.viewRoute')}
+                          </Link>
+                        )}
+                      </td>
+                      <td className="py-2 text-right font-medium text-red-600">{formatCurrency(expense.amount)}</td>
+                      <td className="py-2 text-right">
+                        <button
+                          onClick={() => handleDeleteExpense(expense.id)}
+                          className="text-gray-400 hover:text-red-600"
+                          aria-label={t('expenses.delete')}
+                        >
+                          ×
+                        </button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+                <tfoot>
+                  <tr className="border-t-2 font-semibold">
+                    <td className="py-2" colSpan={3}>{t('expenses.totalExpenses')}</td>
+                    <td className="py-2 text-right text-red-600">{formatCurrency(sumExpenses(visibleExpenses))}</td>
+                    <td></td>
+                  </tr>
+                </tfoot>
+              </table>
+            )}
+          </div>
+
+          {/* Totals by category */}
+          <div className="bg-white rounded-lg shadow p-6">
+            <h2 className="text-lg font-semibold text-gray-900 mb-4">{t('expenses.byCategory')}</h2>
+            {categoryTotals.length === 0 ? (
+              <p className="text-sm text-gray-500">{t('expenses.noExpenses')}</p>
+            ) : (
+              <div className="space-y-3">
+                {categoryTotals.map(line => (
+                  <div key={line.category} className="flex items-center justify-between text-sm">
+                    <span className="text-gray-700">{t(`expenses.categories.${line.category}`)}</span>
+                    <span className="font-medium">{formatCurrency(line.amount)}</span>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ExpenseList;
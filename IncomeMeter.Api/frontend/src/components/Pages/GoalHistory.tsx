@@ -0,0 +1,184 @@
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import { Link } from 'react-router-dom';
+import { useSettings } from '../../contexts/SettingsContext';
+import { useLanguage } from '../../contexts/LanguageContext';
+import { getPeriodStats } from '../../utils/api';
+import { formatPeriodDisplay } from '../../utils/fiscalYear';
+import { calculateGoalProgress, getGoalsForPeriod, summarizeGoalHistory } from '../../utils/goals';
+import PeriodSelector from '../Dashboard/PeriodSelector';
+import PeriodNavigation from '../Dashboard/PeriodNavigation';
+import type { EarningsGoal, PeriodIncomeData, PeriodType } from '../../types';
+
+// Periods per page of history; page 0 ends with the current period
+const HISTORY_PAGE_SIZE = 6;
+
+const GoalHistory: React.FC = () => {
+  const { settings, formatCurrency } = useSettings();
+  const { t, language } = useLanguage();
+  const fiscalStartDate = settings.fiscalYearStartDate || '04-06';
+  const [selectedPeriod, setSelectedPeriod] = useState<PeriodType>('weekly');
+  const [page, setPage] = useState(0);
+  const [periods, setPeriods] = useState<Array<{ offset: number; data: PeriodIncomeData }>>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const goals = useMemo(
+    () => getGoalsForPeriod(settings.earningsGoals, selectedPeriod),
+    [settings.earningsGoals, selectedPeriod]
+  );
+
+  const loadHistory = useCallback(async () => {
+    const newestOffset = page * HISTORY_PAGE_SIZE;
+    const offsets = Array.from({ length: HISTORY_PAGE_SIZE }, (_, index) => newestOffset - index);
+
+    try {
+      setLoading(true);
+      setError(null);
+      const results = await Promise.all(
+        offsets.map(offset => getPeriodStats(selectedPeriod, offset, fiscalStartDate))
+      );
+      setPeriods(offsets.map((offset, index) => ({ offset, data: results[index] })));
+    } catch (err) {
+      console.error('Error loading goal history:', err);
+      setError(t('goals.history.error'));
+    } finally {
+      setLoading(false);
+    }
+  }, [page, selectedPeriod, fiscalStartDate, t]);
+
+  useEffect(() => {
+    loadHistory();
+  }, [loadHistory]);
+
+  const handlePeriodChange = (period: PeriodType) => {
+    setSelectedPeriod(period);
+    setPage(0);
+  };
+
+  const formatPeriod = (data: PeriodIncomeData) =>
+    formatPeriodDisplay(selectedPeriod, new Date(data.startDate), fiscalStartDate, language);
+
+  const pageDisplay = periods.length > 0
+    ? `${formatPeriod(periods[periods.length - 1].data)} – ${formatPeriod(periods[0].data)}`
+    : '';
+
+  // The current period is still in progress, so it only counts once the goal is already hit
+  const getResults = (goal: EarningsGoal) =>
+    periods
+      .map(({ offset, data }) => ({ offset, hit: calculateGoalProgress(goal, data).hit }))
+      .filter(result => result.offset < 0 || result.hit)
+      .map(result => result.hit)
+      .reverse();
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="bg-white rounded-lg shadow p-6">
+        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900">{t('goals.history.title')}</h1>
+            <p className="text-gray-600 mt-1">{t('goals.history.subtitle')}</p>
+          </div>
+          <PeriodSelector selectedPeriod={selectedPeriod} onPeriodChange={handlePeriodChange} />
+        </div>
+      </div>
+
+      <PeriodNavigation
+        period={selectedPeriod}
+        currentPeriodDisplay={pageDisplay}
+        canGoPrevious={!loading}
+        canGoNext={!loading && page < 0}
+        onPrevious={() => setPage(current => current - 1)}
+        onNext={() => setPage(current => current + 1)}
+        onToday={() => setPage(0)}
+      />
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-md p-4">
+          <p className="text-sm text-red-700">{error}</p>
+        </div>
+      )}
+
+      {goals.length === 0 ? (
+        <div className="bg-white rounded-lg shadow p-6 text-center">
+          <p className="text-gray-500">
+            {t('goals.noGoals', { period: t(`dashboard.periods.${selectedPeriod}`).toLowerCase() })}
+          </p>
+          <Link to="/settings" className="inline-block mt-3 text-blue-600 hover:underline">{t('goals.edit')}</Link>
+        </div>
+      ) : loading ? (
+        <div className="flex items-center justify-center min-h-64">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+        </div>
+      ) : (
+        <>
+          {/* Hit rate per goal for the periods on this page */}
+          <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-6">
+            {goals.map(goal => {
+              const summary = summarizeGoalHistory(getResults(goal));
+              return (
+                <div key={goal.id} className="bg-white rounded-lg shadow p-6">
+                  <p className="text-sm font-medium text-gray-600">{goal.workType ?? t('goals.allWorkTypes')}</p>
+                  <p className="text-2xl font-bold text-gray-900 mt-1">{formatCurrency(goal.amount)}</p>
+                  <p className="text-sm text-gray-700 mt-2">
+                    {t('goals.history.hitRate', { hits: summary.hits, periods: summary.periods })}
+                  </p>
+                  <p className="text-xs text-gray-500 mt-1">
+                    {t('goals.history.streaks', { current: summary.currentStreak, best: summary.bestStreak })}
+                  </p>
+                </div>
+              );
+            })}
+          </div>
+
+          {/* Period by period results */}
+          <div className="bg-white rounded-lg shadow p-6 overflow-x-auto">
+            <table className="min-w-full text-sm">
+              <thead>
+                <tr className="border-b text-gray-600">
+                  <th className="py-2 text-left font-medium">{t('goals.history.period')}</th>
+                  {goals.map(goal => (
+                    <th key={goal.id} className="py-2 text-right font-medium">
+                      {goal.workType ?? t('goals.allWorkTypes')} ({formatCurrency(goal.amount)})
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {periods.map(({ offset, data }) => (
+                  <tr key={offset} className="border-b last:border-b-0">
+                    <td className="py-2 text-gray-900">{formatPeriod(data)}</td>
+                    {goals.map(goal => {
+                      const progress = calculateGoalProgress(goal, data);
+                      const inProgress = offset === 0 && !progress.hit;
+                      return (
+                        <td key={goal.id} className="py-2 text-right">
+                          <span className="text-gray-900">{formatCurrency(progress.earned)}</span>
+                          <span className={`ml-2 px-2 py-0.5 rounded-full text-xs ${
+                            progress.hit
+                              ? 'bg-green-100 text-green-700'
+                              : inProgress
+                                ? 'bg-blue-100 text-blue-700'
+                                : 'bg-gray-100 text-gray-600'
+                          }`}>
+                            {progress.hit
+                              ? t('goals.history.hit')
+                              : inProgress
+                                ? t('goals.history.inProgress')
+                                : t('goals.history.missed')}
+                          </span>
+                        </td>
+                      );
+                    })}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default GoalHistory;
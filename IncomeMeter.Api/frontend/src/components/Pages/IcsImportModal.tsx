@@ -0,0 +1,261 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { useLanguage } from '../../contexts/LanguageContext';
+import { useSettings } from '../../contexts/SettingsContext';
+import { useTimezone } from '../../hooks/useTimezone';
+import { getActiveWorkTypeConfigs, getRoutesByDateRange, createRoute } from '../../utils/api';
+import { invalidateRouteQueries } from '../../utils/routeQueries';
+import { parseICalendar, buildRoutesFromEvents, getImportedUids, isImportableEvent, type ICalendarEvent } from '../../utils/icalendar';
+import type { Route, WorkTypeConfig } from '../../types';
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+interface IcsImportModalProps {
+  onComplete: (createdRoutes: Route[]) => void;
+  onCancel: () => void;
+}
+
+const IcsImportModal: React.FC<IcsImportModalProps> = ({ onComplete, onCancel }) => {
+  const { t } = useLanguage();
+  const { settings } = useSettings();
+  const { timezone, formatDate, formatDateTime, formatTime } = useTimezone(settings.timeZone);
+  const [workTypes, setWorkTypes] = useState<WorkTypeConfig[]>([]);
+  const [workTypeId, setWorkTypeId] = useState('');
+  const [fileName, setFileName] = useState('');
+  const [events, setEvents] = useState<ICalendarEvent[]>([]);
+  const [importedUids, setImportedUids] = useState<Set<string>>(new Set());
+  const [selected, setSelected] = useState<Set<number>>(new Set());
+  const [error, setError] = useState<string | null>(null);
+  const [importing, setImporting] = useState(false);
+  const [progress, setProgress] = useState(0);
+  const [createdRoutes, setCreatedRoutes] = useState<Route[] | null>(null);
+  const [failedCount, setFailedCount] = useState(0);
+
+  useEffect(() => {
+    const fetchWorkTypes = async () => {
+      try {
+        setWorkTypes(await getActiveWorkTypeConfigs());
+      } catch (err) {
+        console.error('Failed to fetch work types:', err);
+      }
+    };
+    fetchWorkTypes();
+  }, []);
+
+  const workType = workTypes.find(item => item.id === workTypeId);
+  const isImported = (event: ICalendarEvent) => event.uid !== undefined && importedUids.has(event.uid);
+  const selectedEvents = useMemo(() => events.filter((_, index) => selected.has(index)), [events, selected]);
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    setError(null);
+    try {
+      const parsed = parseICalendar(await file.text(), timezone);
+      if (parsed.length === 0) {
+        setError(t('calendar.ics.import.noEvents'));
+        return;
+      }
+
+      // Routes already imported from these events, padded by a day either side for timezones
+      const toDateKey = (date: Date, offsetDays: number) => new Date(date.getTime() + offsetDays * MS_PER_DAY).toISOString().split('T')[0];
+      const existing = await getRoutesByDateRange(toDateKey(parsed[0].start, -1), toDateKey(parsed[parsed.length - 1].start, 1));
+      const imported = getImportedUids(existing);
+
+      // Upcoming shifts are picked by default; past ones can still be ticked
+      const now = new Date();
+      setFileName(file.name);
+      setEvents(parsed);
+      setImportedUids(imported);
+      setSelected(new Set(parsed
+        .map((event, index) => (isImportableEvent(event) && !(event.uid && imported.has(event.uid)) && event.end > now ? index : -1))
+        .filter(index => index >= 0)));
+    } catch (err) {
+      console.error('Error reading calendar file:', err);
+      setError(t('calendar.ics.import.readError'));
+    }
+  };
+
+  const toggleEvent = (index: number) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (next.has(index)) {
+        next.delete(index);
+      } else {
+        next.add(index);
+      }
+      return next;
+    });
+  };
+
+  const handleImport = async () => {
+    if (!workType) return;
+
+    setImporting(true);
+    setProgress(0);
+    const created: Route[] = [];
+    let failed = 0;
+
+    // Create sequentially so the API isn't flooded
+    for (const route of buildRoutesFromEvents(selectedEvents, workType)) {
+      try {
+        created.push(await createRoute(route));
+      } catch (err) {
+        console.error('Error importing calendar event:', err);
+        failed++;
+      }
+      setProgress(prev => prev + 1);
+    }
+
+    if (created.length > 0) {
+      invalidateRouteQueries();
+    }
+    setCreatedRoutes(created);
+    setFailedCount(failed);
+    setImporting(false);
+  };
+
+  const handleClose = () => {
+    if (createdRoutes && createdRoutes.length > 0) {
+      onComplete(createdRoutes);
+    } else {
+      onCancel();
+    }
+  };
+
+  const formatEventTime = (event: ICalendarEvent) =>
+    event.allDay
+      ? t('calendar.ics.import.allDay', { date: formatDate(event.start) })
+      : `${formatDateTime(event.start)} – ${formatTime(event.end)}`;
+
+  return (
+    <div className="fixed inset-0 bg-gray-600 bg-opacity-50 overflow-y-auto h-full w-full z-50">
+      <div className="relative top-10 mx-auto p-5 border w-full max-w-3xl shadow-lg rounded-md bg-white mb-10">
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-lg font-medium text-gray-900">{t('calendar.ics.import.title')}</h3>
+          {!importing && (
+            <button onClick={handleClose} className="text-gray-400 hover:text-gray-600">
+              <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+              </svg>
+            </button>
+          )}
+        </div>
+
+        {error && (
+          <div className="mb-4 bg-red-50 border border-red-200 rounded-md p-3 text-sm text-red-700">{error}</div>
+        )}
+
+        {createdRoutes || importing ? (
+          <div className="space-y-4">
+            {importing ? (
+              <div className="flex items-center space-x-3">
+                <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-blue-600"></div>
+                <p className="text-sm text-gray-700">
+                  {t('calendar.ics.import.importing', { done: progress, total: selectedEvents.length })}
+                </p>
+              </div>
+            ) : (
+              <p className="text-sm text-gray-700">
+                {t('calendar.ics.import.summary', { created: createdRoutes?.length ?? 0, failed: failedCount })}
+              </p>
+            )}
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <p className="text-sm text-gray-600">{t('calendar.ics.import.description')}</p>
+
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">{t('calendar.ics.import.chooseFile')}</label>
+                <input
+                  type="file"
+                  accept=".ics,text/calendar"
+                  onChange={handleFileChange}
+                  className="block w-full text-sm text-gray-700 file:mr-4 file:py-2 file:px-4 file:rounded-md file:border-0 file:text-sm file:font-medium file:bg-blue-50 file:text-blue-700 hover:file:bg-blue-100"
+                />
+                {fileName && <p className="mt-1 text-xs text-gray-500">{fileName} · {events.length}</p>}
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">{t('calendar.ics.import.workType')}</label>
+                <select
+                  value={workTypeId}
+                  onChange={(e) => setWorkTypeId(e.target.value)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 bg-white text-sm"
+                >
+                  <option value="">{t('calendar.ics.import.selectWorkType')}</option>
+                  {workTypes.map(item => (
+                    <option key={item.id} value={item.id}>{item.name}</option>
+                  ))}
+                </select>
+              </div>
+            </div>
+
+            {events.length > 0 && (
+              <div className="overflow-y-auto max-h-96 border rounded-md divide-y divide-gray-100">
+                {events.map((event, index) => {
+                  const importable = isImportableEvent(event) && !isImported(event);
+                  return (
+                    <label
+                      key={`${event.uid ?? ''}-${index}`}
+                      className={`flex items-start space-x-3 px-3 py-2 text-sm ${importable ? 'cursor-pointer hover:bg-gray-50' : 'opacity-50'}`}
+                    >
+                      <input
+                        type="checkbox"
+                        checked={selected.has(index)}
+                        disabled={!importable}
+                        onChange={() => toggleEvent(index)}
+                        className="mt-0.5 rounded border-gray-300"
+                      />
+                      <span className="min-w-0">
+                        <span className="block font-medium text-gray-900 truncate">{event.summary || t('calendar.untitled')}</span>
+                        <span className="block text-xs text-gray-500">
+                          {formatEventTime(event)}
+                          {event.recurring
+                            ? ` · ${t('calendar.ics.import.recurringUnsupported')}`
+                            : isImported(event)
+                              ? ` · ${t('calendar.ics.import.alreadyImported')}`
+                              : !importable && ` · ${t('calendar.ics.import.noDuration')}`}
+                        </span>
+                      </span>
+                    </label>
+                  );
+                })}
+              </div>
+            )}
+          </div>
+        )}
+
+        <div className="flex justify-end space-x-3 mt-6">
+          {!createdRoutes && !importing && (
+            <>
+              <button
+                onClick={onCancel}
+                className="bg-gray-300 hover:bg-gray-400 text-gray-800 px-4 py-2 rounded-md text-sm font-medium"
+              >
+                {t('calendar.ics.import.cancel')}
+              </button>
+              <button
+                onClick={handleImport}
+                disabled={!workType || selectedEvents.length === 0}
+                className="bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded-md text-sm font-medium disabled:opacity-50"
+              >
+                {t('calendar.ics.import.import', { count: selectedEvents.length })}
+              </button>
+            </>
+          )}
+          {createdRoutes && (
+            <button
+              onClick={handleClose}
+              className="bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded-md text-sm font-medium"
+            >
+              {t('calendar.ics.import.close')}
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default IcsImportModal;
@@ -0,0 +1,587 @@
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import { useParams, useNavigate, Link } from 'react-router-dom';
+import { useSettings } from '../../contexts/SettingsContext';
+import { useLanguage } from '../../contexts/LanguageContext';
+import { useOutbox } from '../../contexts/OutboxContext';
+import {
+  getRouteById,
+  getRoutesByStatus,
+  getLocationsByRouteId,
+  getWorkTypeConfigById,
+  getActiveWorkTypeConfigs,
+  startRoute,
+  endRoute,
+} from '../../utils/api';
+import { getOutboxEntries, getResolvedRouteId, isOfflineId } from '../../utils/offlineOutbox';
+import { getDisplayDistance } from '../../utils/distance';
+import { invalidateRouteQueries } from '../../utils/routeQueries';
+import { useLocationTracking } from '../../hooks/useLocationTracking';
+import { isTrackingRoute, loadTrackingProfile, saveTrackingProfile, setTrackingRoute, type TrackingProfile } from '../../utils/geoTracking';
+import LocationTrackingPanel from '../UI/LocationTrackingPanel';
+import {
+  getElapsedMs,
+  formatElapsed,
+  getHourlyRate,
+  getTrackedDistanceKm,
+  addIncome,
+  sumIncomes,
+  loadIncomeDraft,
+  saveIncomeDraft,
+  clearIncomeDraft,
+  type IncomeEntry,
+} from '../../utils/liveTracker';
+import type { Location, OutboxEntry, Route, WorkTypeConfig } from '../../types';
+
+const LOCATION_POLL_MS = 30 * 1000;
+
+const toRoute = (route: Route): Route => ({
+  ...route,
+  scheduleStart: new Date(route.scheduleStart),
+  scheduleEnd: new Date(route.scheduleEnd),
+  actualStartTime: route.actualStartTime ? new Date(route.actualStartTime) : undefined,
+});
+
+// A shift started offline only exists in the outbox until it syncs
+const findQueuedRoute = async (routeId: string): Promise<Route | undefined> => {
+  const entries = await getOutboxEntries().catch((): OutboxEntry[] => []);
+  return entries.find(entry => entry.tempId === routeId)?.placeholder as Route | undefined;
+};
+
+const LiveTracker: React.FC = () => {
+  const { id } = useParams<{ id: string }>();
+  const navigate = useNavigate();
+  const { formatCurrency, settings } = useSettings();
+  const { t } = useLanguage();
+  const { lastSyncAt } = useOutbox();
+  const [route, setRoute] = useState<Route | null>(null);
+  const [locations, setLocations] = useState<Location[]>([]);
+  const [workType, setWorkType] = useState<WorkTypeConfig | null>(null);
+  const [workTypes, setWorkTypes] = useState<WorkTypeConfig[]>([]);
+  const [incomes, setIncomes] = useState<IncomeEntry[]>([]);
+  const [quickAmounts, setQuickAmounts] = useState<Record<string, string>>({});
+  const [customSource, setCustomSource] = useState('');
+  const [customAmount, setCustomAmount] = useState('');
+  const [now, setNow] = useState(() => new Date());
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  // Start-shift form, shown when there's no shift running
+  const [startWorkTypeId, setStartWorkTypeId] = useState('');
+  const [startMile, setStartMile] = useState('');
+  const [estimatedIncome, setEstimatedIncome] = useState('');
+  const [starting, setStarting] = useState(false);
+
+  // End-shift flow
+  const [showEndForm, setShowEndForm] = useState(false);
+  const [endMile, setEndMile] = useState('');
+  const [finalIncomes, setFinalIncomes] = useState<IncomeEntry[]>([]);
+  const [ending, setEnding] = useState(false);
+  const [endError, setEndError] = useState<string | null>(null);
+
+  // Opt-in continuous location tracking from this device
+  const [trackingEnabled, setTrackingEnabled] = useState(() => !!id && isTrackingRoute(id));
+  const [trackingProfile, setTrackingProfile] = useState<TrackingProfile>(loadTrackingProfile);
+
+  const loadShift = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+
+      if (!id) {
+        // No route given - pick up the shift that's already running, or offer to start one
+        const running = await getRoutesByStatus('in_progress');
+        const latest = running.sort((a, b) =>
+          new Date(b.actualStartTime ?? b.scheduleStart).getTime() - new Date(a.actualStartTime ?? a.scheduleStart).getTime())[0];
+        if (latest) {
+          navigate(`/routes/${latest.id}/live`, { replace: true });
+          return;
+        }
+        setRoute(null);
+        setWorkTypes(await getActiveWorkTypeConfigs());
+        return;
+      }
+
+      // A shift started offline gets its server id once synced - follow it there
+      const resolvedId = isOfflineId(id) ? getResolvedRouteId(id) : undefined;
+      if (resolvedId) {
+        navigate(`/routes/${resolvedId}/live`, { replace: true });
+        return;
+      }
+
+      const routeData = isOfflineId(id) ? await findQueuedRoute(id) : await getRouteById(id);
+      if (!routeData) {
+        setRoute(null);
+        return;
+      }
+      if (routeData.status !== 'in_progress') {
+        navigate(`/routes/${routeData.id}`, { replace: true });
+        return;
+      }
+
+      setRoute(toRoute(routeData));
+      setIncomes(loadIncomeDraft(routeData.id) ?? routeData.incomes ?? []);
+
+      const config = routeData.workTypeId
+        ? await getWorkTypeConfigById(routeData.workTypeId).catch(() => null)
+        : (await getActiveWorkTypeConfigs().catch((): WorkTypeConfig[] => [])).find(item => item.name === routeData.workType) ?? null;
+      setWorkType(config);
+    } catch (err) {
+      console.error('Error loading live shift:', err);
+      setError(t('liveTracker.errors.load'));
+    } finally {
+      setLoading(false);
+    }
+  }, [id, navigate, t]);
+
+  useEffect(() => {
+    loadShift();
+  }, [loadShift, lastSyncAt]);
+
+  // Running clock
+  useEffect(() => {
+    if (!route) return;
+    const timer = window.setInterval(() => setNow(new Date()), 1000);
+    return () => window.clearInterval(timer);
+  }, [route]);
+
+  const refreshLocations = useCallback(async () => {
+    if (!route || isOfflineId(route.id)) return;
+    try {
+      setLocations(await getLocationsByRouteId(route.id));
+    } catch (err) {
+      console.error('Error loading shift locations:', err);
+    }
+  }, [route]);
+
+  // Location points are posted by the phone while driving, so keep polling for new ones
+  useEffect(() => {
+    refreshLocations();
+    const timer = window.setInterval(refreshLocations, LOCATION_POLL_MS);
+    return () => window.clearInterval(timer);
+  }, [refreshLocations]);
+
+  const tracking = useLocationTracking(route?.id, trackingEnabled, trackingProfile, refreshLocations);
+
+  const toggleTracking = () => {
+    if (!route) return;
+    setTrackingRoute(trackingEnabled ? null : route.id);
+    setTrackingEnabled(!trackingEnabled);
+  };
+
+  const changeTrackingProfile = (profile: TrackingProfile) => {
+    saveTrackingProfile(profile);
+    setTrackingProfile(profile);
+  };
+
+  const updateIncomes = (next: IncomeEntry[]) => {
+    setIncomes(next);
+    if (route) saveIncomeDraft(route.id, next);
+  };
+
+  const handleQuickAdd = (source: string, amount: number) => {
+    if (!Number.isFinite(amount) || amount <= 0) return;
+    updateIncomes(addIncome(incomes, source, amount));
+  };
+
+  const handleCustomAdd = (e: React.FormEvent) => {
+    e.preventDefault();
+    const source = customSource.trim();
+    if (!source) return;
+    handleQuickAdd(source, Number(customAmount));
+    setCustomSource('');
+    setCustomAmount('');
+  };
+
+  const handleStart = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const selected = workTypes.find(item => item.id === startWorkTypeId);
+    if (!selected || startMile === '') return;
+
+    try {
+      setStarting(true);
+      setError(null);
+      const started = await startRoute({
+        workType: selected.name,
+        workTypeId: selected.id,
+        startMile: Number(startMile),
+        estimatedIncome: estimatedIncome === '' ? undefined : Number(estimatedIncome),
+      });
+      invalidateRouteQueries();
+      navigate(`/routes/${started.id}/live`);
+    } catch (err) {
+      console.error('Error starting shift:', err);
+      setError(t('liveTracker.errors.start'));
+    } finally {
+      setStarting(false);
+    }
+  };
+
+  const openEndForm = () => {
+    // Every template source is listed so amounts only known at the end can still be filled in
+    const templateSources = (workType?.incomeSourceTemplates ?? [])
+      .filter(template => !incomes.some(income => income.source === template.name))
+      .map(template => ({ source: template.name, amount: 0 }));
+    setFinalIncomes([...incomes, ...templateSources]);
+    setEndMile('');
+    setEndError(null);
+    setShowEndForm(true);
+  };
+
+  const updateFinalIncome = (index: number, amount: number) => {
+    setFinalIncomes(prev => prev.map((income, i) => (i === index ? { ...income, amount } : income)));
+  };
+
+  const handleEnd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!route) return;
+
+    const endReading = Number(endMile);
+    if (endMile === '' || (route.startMile != null && endReading < route.startMile)) {
+      setEndError(t('liveTracker.end.invalidMileage'));
+      return;
+    }
+
+    try {
+      setEnding(true);
+      setEndError(null);
+      // Send the last tracked points before the route is closed
+      await tracking.flush();
+      setTrackingRoute(null);
+      setTrackingEnabled(false);
+      await endRoute({
+        id: route.id,
+        endMile: endReading,
+        incomes: finalIncomes.filter(income => income.amount > 0),
+      });
+      clearIncomeDraft(route.id);
+      invalidateRouteQueries();
+      navigate(`/routes/${route.id}`);
+    } catch (err) {
+      console.error('Error ending shift:', err);
+      setEndError(t('liveTracker.errors.end'));
+      setEnding(false);
+    }
+  };
+
+  const elapsedMs = route ? getElapsedMs(route, now) : 0;
+  const totalIncome = sumIncomes(incomes);
+  const trackedDistance = useMemo(() => getTrackedDistanceKm(locations), [locations]);
+  const templates = useMemo(
+    () => [...(workType?.incomeSourceTemplates ?? [])].sort((a, b) => a.displayOrder - b.displayOrder),
+    [workType]
+  );
+  const missingRequired = templates
+    .filter(template => template.isRequired && !finalIncomes.some(income => income.source === template.name && income.amount > 0))
+    .map(template => template.name);
+
+  const inputClass = 'px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 text-sm';
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center min-h-96">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+      </div>
+    );
+  }
+
+  if (!route) {
+    return (
+      <div className="max-w-lg mx-auto space-y-6">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">{t('liveTracker.title')}</h1>
+          <p className="text-gray-600 mt-1">{id ? t('liveTracker.notFound') : t('liveTracker.noShift')}</p>
+        </div>
+
+        {error && (
+          <div className="bg-red-50 border border-red-200 rounded-md p-3 text-sm text-red-700">{error}</div>
+        )}
+
+        {!id && (
+          <form onSubmit={handleStart} className="bg-white rounded-lg shadow p-6 space-y-4">
+            <h2 className="text-lg font-semibold text-gray-900">{t('liveTracker.start.title')}</h2>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">{t('liveTracker.start.workType')}</label>
+              <select
+                value={startWorkTypeId}
+                onChange={(e) => setStartWorkTypeId(e.target.value)}
+                className={`${inputClass} w-full bg-white`}
+                required
+              >
+                <option value="">{t('liveTracker.start.selectWorkType')}</option>
+                {workTypes.map(item => (
+                  <option key={item.id} value={item.id}>{item.name}</option>
+                ))}
+              </select>
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  {t('liveTracker.start.startMile', { unit: settings.mileageUnit })}
+                </label>
+                <input
+                  type="number"
+                  min="0"
+                  step="0.1"
+                  value={startMile}
+                  onChange={(e) => setStartMile(e.target.value)}
+                  className={`${inputClass} w-full`}
+                  required
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">{t('liveTracker.start.estimatedIncome')}</label>
+                <input
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={estimatedIncome}
+                  onChange={(e) => setEstimatedIncome(e.target.value)}
+                  className={`${inputClass} w-full`}
+                />
+              </div>
+            </div>
+            <button
+              type="submit"
+              disabled={starting || !startWorkTypeId || startMile === ''}
+              className="w-full px-4 py-3 bg-green-600 text-white rounded-md font-medium hover:bg-green-700 disabled:opacity-50"
+            >
+              {starting ? t('liveTracker.start.starting') : t('liveTracker.start.submit')}
+            </button>
+          </form>
+        )}
+      </div>
+    );
+  }
+
+  return (
+    <div className="max-w-3xl mx-auto space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">{t('liveTracker.title')}</h1>
+          <p className="text-gray-600 mt-1">{route.workType || t('calendar.untitled')}</p>
+        </div>
+        <Link to={`/routes/${route.id}`} className="text-sm text-blue-600 hover:text-blue-800 font-medium">
+          {t('liveTracker.viewDetails')}
+        </Link>
+      </div>
+
+      {isOfflineId(route.id) && (
+        <p className="text-sm text-yellow-700">{t('routes.offline.queuedRoute')}</p>
+      )}
+
+      {/* Running totals */}
+      <div className="grid grid-cols-2 lg:grid-cols-4 gap-4">
+        <div className="bg-white rounded-lg shadow p-4">
+          <p className="text-sm text-gray-600">{t('liveTracker.stats.elapsed')}</p>
+          <p className="text-2xl font-bold text-gray-900 tabular-nums">{formatElapsed(elapsedMs)}</p>
+        </div>
+        <div className="bg-white rounded-lg shadow p-4">
+          <p className="text-sm text-gray-600">{t('liveTracker.stats.income')}</p>
+          <p className="text-2xl font-bold text-green-600">{formatCurrency(totalIncome)}</p>
+          {route.estimatedIncome ? (
+            <p className="text-xs text-gray-500">{t('liveTracker.stats.estimated', { amount: formatCurrency(route.estimatedIncome) })}</p>
+          ) : null}
+        </div>
+        <div className="bg-white rounded-lg shadow p-4">
+          <p className="text-sm text-gray-600">{t('liveTracker.stats.hourlyRate')}</p>
+          <p className="text-2xl font-bold text-gray-900">{formatCurrency(getHourlyRate(totalIncome, elapsedMs))}</p>
+        </div>
+        <div className="bg-white rounded-lg shadow p-4">
+          <p className="text-sm text-gray-600">{t('liveTracker.stats.distance')}</p>
+          <p className="text-2xl font-bold text-gray-900">{getDisplayDistance(trackedDistance, 'km', settings.mileageUnit).formatted}</p>
+          <p className="text-xs text-gray-500">{t('liveTracker.stats.points', { count: locations.length })}</p>
+        </div>
+      </div>
+
+      <LocationTrackingPanel
+        tracking={tracking}
+        enabled={trackingEnabled}
+        profile={trackingProfile}
+        onToggle={toggleTracking}
+        onProfileChange={changeTrackingProfile}
+      />
+
+      {/* Quick-add income */}
+      <div className="bg-white rounded-lg shadow p-6">
+        <h2 className="text-lg font-semibold text-gray-900 mb-4">{t('liveTracker.quickAdd.title')}</h2>
+
+        {templates.length > 0 && (
+          <div className="space-y-2 mb-4">
+            {templates.map(template => {
+              const value = quickAmounts[template.name] ?? (template.defaultAmount != null ? String(template.defaultAmount) : '');
+              return (
+                <div key={template.name} className="flex items-center gap-2">
+                  <span className="flex-1 text-sm text-gray-700 truncate">
+                    {template.name}
+                    {template.isRequired && <span className="text-red-500"> *</span>}
+                  </span>
+                  <input
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    value={value}
+                    onChange={(e) => setQuickAmounts(prev => ({ ...prev, [template.name]: e.target.value }))}
+                    className={`${inputClass} w-28`}
+                    aria-label={t('liveTracker.quickAdd.amountFor', { source: template.name })}
+                  />
+                  <button
+                    type="button"
+                    onClick={() => handleQuickAdd(template.name, Number(value))}
+                    disabled={!value || Number(value) <= 0}
+                    className="px-4 py-2 bg-blue-600 text-white rounded-md text-sm font-medium hover:bg-blue-700 disabled:opacity-50"
+                  >
+                    +
+                  </button>
+                </div>
+              );
+            })}
+          </div>
+        )}
+
+        <form onSubmit={handleCustomAdd} className="flex flex-wrap items-center gap-2">
+          <input
+            type="text"
+            value={customSource}
+            placeholder={t('liveTracker.quickAdd.otherSource')}
+            onChange={(e) => setCustomSource(e.target.value)}
+            className={`${inputClass} flex-1 min-w-[8rem]`}
+          />
+          <input
+            type="number"
+            min="0"
+            step="0.01"
+            value={customAmount}
+            placeholder={t('expenses.amount')}
+            onChange={(e) => setCustomAmount(e.target.value)}
+            className={`${inputClass} w-28`}
+          />
+          <button
+            type="submit"
+            disabled={!customSource.trim() || !customAmount || Number(customAmount) <= 0}
+            className="px-4 py-2 bg-gray-600 text-white rounded-md text-sm font-medium hover:bg-gray-700 disabled:opacity-50"
+          >
+            +
+          </button>
+        </form>
+
+        {incomes.length > 0 && (
+          <div className="mt-4 pt-4 border-t space-y-2">
+            {incomes.map(income => (
+              <div key={income.source} className="flex items-center justify-between text-sm">
+                <span className="text-gray-700">{income.source}</span>
+                <div className="flex items-center space-x-3">
+                  <span className="font-medium">{formatCurrency(income.amount)}</span>
+                  <button
+                    type="button"
+                    onClick={() => updateIncomes(incomes.filter(item => item.source !== income.source))}
+                    className="text-gray-400 hover:text-red-600"
+                    aria-label={t('liveTracker.quickAdd.remove', { source: income.source })}
+                  >
+                    ×
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <button
+        type="button"
+        onClick={openEndForm}
+        className="w-full px-4 py-3 bg-red-600 text-white rounded-md font-medium hover:bg-red-700"
+      >
+        {t('liveTracker.end.button')}
+      </button>
+
+      {showEndForm && (
+        <div className="fixed inset-0 bg-gray-600 bg-opacity-50 overflow-y-auto h-full w-full z-50">
+          <div className="relative top-10 mx-auto p-5 border w-11/12 md:w-2/3 lg:w-1/2 shadow-lg rounded-md bg-white mb-10">
+            <h3 className="text-lg font-medium text-gray-900 mb-4">{t('liveTracker.end.title')}</h3>
+
+            {endError && (
+              <div className="mb-4 bg-red-50 border border-red-200 rounded-md p-3 text-sm text-red-700">{endError}</div>
+            )}
+
+            <form onSubmit={handleEnd} className="space-y-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  {t('liveTracker.end.endMile', { unit: settings.mileageUnit })}
+                </label>
+                <input
+                  type="number"
+                  min={route.startMile ?? 0}
+                  step="0.1"
+                  value={endMile}
+                  onChange={(e) => setEndMile(e.target.value)}
+                  className={`${inputClass} w-full`}
+                  required
+                />
+                {route.startMile != null && (
+                  <p className="mt-1 text-xs text-gray-500">
+                    {t('liveTracker.end.startedAt', { mileage: route.startMile })}
+                    {endMile !== '' && Number(endMile) >= route.startMile && ` · ${t('liveTracker.end.driven', {
+                      distance: (Number(endMile) - route.startMile).toFixed(1),
+                      unit: settings.mileageUnit,
+                    })}`}
+                  </p>
+                )}
+              </div>
+
+              <div>
+                <p className="block text-sm font-medium text-gray-700 mb-2">{t('liveTracker.end.incomes')}</p>
+                {finalIncomes.length === 0 ? (
+                  <p className="text-sm text-gray-500">{t('liveTracker.end.noIncomes')}</p>
+                ) : (
+                  <div className="space-y-2">
+                    {finalIncomes.map((income, index) => (
+                      <div key={income.source} className="flex items-center gap-2">
+                        <span className="flex-1 text-sm text-gray-700 truncate">{income.source}</span>
+                        <input
+                          type="number"
+                          min="0"
+                          step="0.01"
+                          value={income.amount || ''}
+                          onChange={(e) => updateFinalIncome(index, Number(e.target.value) || 0)}
+                          className={`${inputClass} w-28`}
+                          aria-label={t('liveTracker.quickAdd.amountFor', { source: income.source })}
+                        />
+                      </div>
+                    ))}
+                  </div>
+                )}
+                <div className="flex items-center justify-between mt-3 pt-3 border-t font-semibold">
+                  <span>{t('liveTracker.end.total')}</span>
+                  <span className="text-green-600">{formatCurrency(sumIncomes(finalIncomes))}</span>
+                </div>
+                {missingRequired.length > 0 && (
+                  <p className="mt-2 text-xs text-yellow-700">{t('liveTracker.end.missingRequired', { sources: missingRequired.join(', ') })}</p>
+                )}
+              </div>
+
+              <div className="flex justify-end space-x-3 pt-2">
+                <button
+                  type="button"
+                  onClick={() => setShowEndForm(false)}
+                  disabled={ending}
+                  className="px-4 py-2 text-sm font-medium text-gray-700 bg-gray-100 hover:bg-gray-200 rounded-md"
+                >
+                  {t('liveTracker.end.cancel')}
+                </button>
+                <button
+                  type="submit"
+                  disabled={ending || endMile === ''}
+                  className="px-4 py-2 text-sm font-medium text-white bg-red-600 hover:bg-red-700 rounded-md disabled:opacity-50"
+                >
+                  {ending ? t('liveTracker.end.ending') : t('liveTracker.end.confirm')}
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default LiveTracker;
@@ -1,5 +1,8 @@
 import React, { useState, useEffect } from 'react';
 import { useTranslation } from 'react-i18next';
+import { createLocation, updateLocation } from '../../utils/api';
+import { getApiErrorKind, getApiErrorMessage } from '../../utils/apiErrors';
+import type { Location } from '../../types';
 
 interface LocationFormData {
   routeId: string;
@@ -11,20 +14,6 @@ interface LocationFormData {
   address?: string;
 }
 
-interface Location {
-  id?: string;
-  routeId: string;
-  userId: string;
-  latitude: number;
-  longitude: number;
-  timestamp: string;
-  address?: string;
-  speed?: number;
-  accuracy?: number;
-  distanceFromLastKm?: number;
-  distanceFromLastMi?: number;
-}
-
 interface LocationFormProps {
   routeId: string;
   location?: Location;
@@ -54,8 +43,8 @@ const LocationForm: React.FC<LocationFormProps> = ({ routeId, location, onSave,
         latitude: location.latitude,
         longitude: location.longitude,
         timestamp: new Date(location.timestamp).toISOString().slice(0, 16),
-        accuracy: location.accuracy,
-        speed: location.speed,
+        accuracy: location.accuracy ?? undefined,
+        speed: location.speed ?? undefined,
         address: location.address,
       });
     }
@@ -100,49 +89,28 @@ const LocationForm: React.FC<LocationFormProps> = ({ routeId, location, onSave,
     setError(null);
 
     try {
-      const token = localStorage.getItem('token');
-      const url = location 
-        ? `/api/locations/${location.id}` 
-        : '/api/locations';
-      
-      const method = location ? 'PUT' : 'POST';
-      
-      const requestBody = location 
-        ? {
+      const timestamp = new Date(formData.timestamp).toISOString();
+      const savedLocation = location
+        ? await updateLocation(location.id, {
             latitude: formData.latitude,
             longitude: formData.longitude,
-            timestamp: new Date(formData.timestamp).toISOString(),
+            timestamp,
             accuracy: formData.accuracy,
             speed: formData.speed,
             address: formData.address,
-          }
-        : {
+          })
+        : await createLocation({
             routeId: formData.routeId,
             latitude: formData.latitude,
             longitude: formData.longitude,
-            timestamp: new Date(formData.timestamp).toISOString(),
+            timestamp,
             accuracy: formData.accuracy,
             speed: formData.speed,
-          };
-
-      const response = await fetch(url, {
-        method,
-        headers: {
-          'Authorization': `Bearer ${token}`,
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify(requestBody),
-      });
-
-      if (!response.ok) {
-        const errorData = await response.json().catch(() => ({}));
-        throw new Error(errorData.error || 'Failed to save location');
-      }
+          });
 
-      const savedLocation = await response.json();
       onSave(savedLocation);
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'An error occurred');
+      setError(getApiErrorKind(err) === 'network' ? t('errors.network') : getApiErrorMessage(err) ?? t('locations.crud.error'));
     } finally {
       setLoading(false);
     }
@@ -1,23 +1,15 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import { useTranslation } from 'react-i18next';
 import { useSettings } from '../../contexts/SettingsContext';
 import { getDisplayDistance, getDisplaySpeed } from '../../utils/distance';
+import { useTrailCleanup } from '../../hooks/useTrailCleanup';
+import { deleteLocation, getLocationsByRouteId } from '../../utils/api';
+import { getApiErrorKind, getApiErrorMessage } from '../../utils/apiErrors';
+import type { RejectionReason } from '../../utils/trailProcessing';
+import type { Location } from '../../types';
+import TrailCleanupPanel from '../UI/TrailCleanupPanel';
 // import { useNavigate } from 'react-router-dom'; // Commented out as unused
 
-interface Location {
-  id?: string;
-  routeId: string;
-  userId: string;
-  latitude: number;
-  longitude: number;
-  timestamp: string;
-  address?: string;
-  speed?: number;
-  accuracy?: number;
-  distanceFromLastKm?: number;
-  distanceFromLastMi?: number;
-}
-
 interface LocationListProps {
   routeId: string;
 }
@@ -32,6 +24,15 @@ const LocationList: React.FC<LocationListProps> = ({ routeId }) => {
   // const [showCreateModal, setShowCreateModal] = useState(false); // TODO: Implement create modal
   const [selectedLocation, setSelectedLocation] = useState<Location | null>(null);
   const [showDeleteModal, setShowDeleteModal] = useState(false);
+  const trailCleanup = useTrailCleanup(locations);
+
+  const rejectedReasons = useMemo(
+    () => new Map<string, RejectionReason>(trailCleanup.trail.rejected.map(({ point, reason }) => [point.id, reason])),
+    [trailCleanup.trail]
+  );
+
+  const describeError = (err: unknown, fallbackKey: string) =>
+    getApiErrorKind(err) === 'network' ? t('errors.network') : getApiErrorMessage(err) ?? t(fallbackKey);
 
   useEffect(() => {
     fetchLocations();
@@ -41,23 +42,9 @@ const LocationList: React.FC<LocationListProps> = ({ routeId }) => {
     try {
       setLoading(true);
       setError(null);
-      
-      const token = localStorage.getItem('token');
-      const response = await fetch(`/api/locations?routeId=${routeId}`, {
-        headers: {
-          'Authorization': `Bearer ${token}`,
-          'Content-Type': 'application/json',
-        },
-      });
-
-      if (!response.ok) {
-        throw new Error('Failed to fetch locations');
-      }
-
-      const data = await response.json();
-      setLocations(data);
+      setLocations(await getLocationsByRouteId(routeId));
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'An error occurred');
+      setError(describeError(err, 'locations.list.error.message'));
     } finally {
       setLoading(false);
     }
@@ -65,23 +52,12 @@ const LocationList: React.FC<LocationListProps> = ({ routeId }) => {
 
   const handleDeleteLocation = async (locationId: string) => {
     try {
-      const token = localStorage.getItem('token');
-      const response = await fetch(`/api/locations/${locationId}`, {
-        method: 'DELETE',
-        headers: {
-          'Authorization': `Bearer ${token}`,
-        },
-      });
-
-      if (!response.ok) {
-        throw new Error('Failed to delete location');
-      }
-
+      await deleteLocation(locationId);
       setLocations(locations.filter(loc => loc.id !== locationId));
       setShowDeleteModal(false);
       setSelectedLocation(null);
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'Failed to delete location');
+      setError(describeError(err, 'locations.list.error.delete'));
     }
   };
 
@@ -142,6 +118,8 @@ const LocationList: React.FC<LocationListProps> = ({ routeId }) => {
         </button>
       </div>
 
+      {locations.length > 0 && <TrailCleanupPanel cleanup={trailCleanup} />}
+
       {locations.length === 0 ? (
         <div className="text-center py-12">
           <div className="text-gray-500 text-lg">{t('locations.list.empty.title')}</div>
@@ -150,57 +128,63 @@ const LocationList: React.FC<LocationListProps> = ({ routeId }) => {
       ) : (
         <div className="bg-white shadow overflow-hidden sm:rounded-md">
           <ul className="divide-y divide-gray-200">
-            {locations.map((location) => (
-              <li key={location.id} className="px-6 py-4">
-                <div className="flex items-center justify-between">
-                  <div className="flex-1 min-w-0">
-                    <div className="flex items-center space-x-4">
-                      <div>
-                        <p className="text-sm font-medium text-gray-900">
-                          {t('locations.details.coordinates')}: {formatCoordinates(location.latitude, location.longitude)}
-                        </p>
-                        <p className="text-sm text-gray-500">
-                          {t('locations.details.timestamp')}: {formatTimestamp(location.timestamp)}
-                        </p>
-                        {location.address && (
+            {locations.map((location) => {
+              const rejectedReason = trailCleanup.options.enabled ? rejectedReasons.get(location.id) : undefined;
+              return (
+                <li key={location.id} className={`px-6 py-4 ${rejectedReason ? 'bg-red-50' : ''}`}>
+                  <div className="flex items-center justify-between">
+                    <div className="flex-1 min-w-0">
+                      <div className="flex items-center space-x-4">
+                        <div>
+                          <p className="text-sm font-medium text-gray-900">
+                            {t('locations.details.coordinates')}: {formatCoordinates(location.latitude, location.longitude)}
+                          </p>
                           <p className="text-sm text-gray-500">
-                            {t('locations.details.address')}: {location.address}
+                            {t('locations.details.timestamp')}: {formatTimestamp(location.timestamp)}
                           </p>
+                          {location.address && (
+                            <p className="text-sm text-gray-500">
+                              {t('locations.details.address')}: {location.address}
+                            </p>
+                          )}
+                          {rejectedReason && (
+                            <p className="text-xs font-medium text-red-600">{t(`trailCleanup.rejected.${rejectedReason}`)}</p>
+                          )}
+                        </div>
+                      </div>
+                      <div className="mt-2 flex items-center space-x-4 text-sm text-gray-500">
+                        {location.speed && (
+                          <span>{t('locations.details.speed')}: {getDisplaySpeed(location.speed, 'km', settings.mileageUnit).formatted}</span>
+                        )}
+                        {location.accuracy && (
+                          <span>{t('locations.details.accuracy')}: {location.accuracy.toFixed(1)}m</span>
+                        )}
+                        {location.distanceFromLastKm && (
+                          <span>{t('locations.details.distance')}: {getDisplayDistance(location.distanceFromLastKm || 0, 'km', settings.mileageUnit).formatted}</span>
                         )}
                       </div>
                     </div>
-                    <div className="mt-2 flex items-center space-x-4 text-sm text-gray-500">
-                      {location.speed && (
-                        <span>{t('locations.details.speed')}: {getDisplaySpeed(location.speed, 'km', settings.mileageUnit).formatted}</span>
-                      )}
-                      {location.accuracy && (
-                        <span>{t('locations.details.accuracy')}: {location.accuracy.toFixed(1)}m</span>
-                      )}
-                      {location.distanceFromLastKm && (
-                        <span>{t('locations.details.distance')}: {getDisplayDistance(location.distanceFromLastKm || 0, 'km', settings.mileageUnit).formatted}</span>
-                      )}
+                    <div className="flex items-center space-x-2">
+                      <button
+                        onClick={() => setSelectedLocation(location)}
+                        className="text-blue-600 hover:text-blue-800 text-sm font-medium"
+                      >
+                        {t('locations.actions.edit')}
+                      </button>
+                      <button
+                        onClick={() => {
+                          setSelectedLocation(location);
+                          setShowDeleteModal(true);
+                        }}
+                        className="text-red-600 hover:text-red-800 text-sm font-medium"
+                      >
+                        {t('locations.actions.delete')}
+                      </button>
                     </div>
                   </div>
-                  <div className="flex items-center space-x-2">
-                    <button
-                      onClick={() => setSelectedLocation(location)}
-                      className="text-blue-600 hover:text-blue-800 text-sm font-medium"
-                    >
-                      {t('locations.actions.edit')}
-                    </button>
-                    <button
-                      onClick={() => {
-                        setSelectedLocation(location);
-                        setShowDeleteModal(true);
-                      }}
-                      className="text-red-600 hover:text-red-800 text-sm font-medium"
-                    >
-                      {t('locations.actions.delete')}
-                    </button>
-                  </div>
-                </div>
-              </li>
-            ))}
+                </li>
+              );
+            })}
           </ul>
         </div>
       )}
@@ -0,0 +1,262 @@
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import { Link } from 'react-router-dom';
+import { useSettings } from '../../contexts/SettingsContext';
+import { useLanguage } from '../../contexts/LanguageContext';
+import { useTimezone } from '../../hooks/useTimezone';
+import { getMileageReconciliation, setMileageSource } from '../../utils/api';
+import { convertDistance, getDisplayDistance } from '../../utils/distance';
+import { getCurrentFiscalYear, getFiscalYearRange, formatFiscalYearLabel } from '../../utils/fiscalYear';
+import {
+  getMileageDifference,
+  isDiverging,
+  loadMileageTolerance,
+  saveMileageTolerance,
+  type MileageTolerance,
+} from '../../utils/mileageReconciliation';
+import type { MileageReconciliation as MileageReconciliationItem, MileageSource } from '../../types';
+
+const YEARS_TO_SHOW = 6;
+
+// Local calendar date as YYYY-MM-DD, which the date-range endpoint treats inclusively
+const toDateParam = (date: Date): string =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+const getErrorMessage = (err: unknown): string | undefined =>
+  (err as { response?: { data?: { error?: string } } })?.response?.data?.error;
+
+const MileageReconciliation: React.FC = () => {
+  const { settings } = useSettings();
+  const { t } = useLanguage();
+  const { formatDate } = useTimezone(settings.timeZone);
+  const unit = settings.mileageUnit;
+  const fiscalStartDate = settings.fiscalYearStartDate || '04-06';
+  const currentFiscalYear = getCurrentFiscalYear(fiscalStartDate).fiscalYear;
+  const [selectedYear, setSelectedYear] = useState(currentFiscalYear);
+  const [items, setItems] = useState<MileageReconciliationItem[]>([]);
+  const [tolerance, setTolerance] = useState<MileageTolerance>(loadMileageTolerance);
+  const [showAll, setShowAll] = useState(false);
+  const [savingRouteId, setSavingRouteId] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const yearRange = useMemo(
+    () => getFiscalYearRange(selectedYear, fiscalStartDate),
+    [selectedYear, fiscalStartDate]
+  );
+
+  const loadItems = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      setItems(await getMileageReconciliation(toDateParam(yearRange.startDate), toDateParam(yearRange.endDate)));
+    } catch (err) {
+      console.error('Error loading mileage reconciliation:', err);
+      setError(t('mileageReconciliation.error'));
+    } finally {
+      setLoading(false);
+    }
+  }, [yearRange, t]);
+
+  useEffect(() => {
+    loadItems();
+  }, [loadItems]);
+
+  const updateTolerance = (next: MileageTolerance) => {
+    setTolerance(next);
+    saveMileageTolerance(next);
+  };
+
+  const updateToleranceNumber = (key: 'distance' | 'percent', value: string) => {
+    const parsed = parseFloat(value);
+    if (Number.isFinite(parsed) && parsed >= 0) {
+      // Store the distance in the unit it was typed in, so switching units later doesn't round it
+      updateTolerance({ ...tolerance, [key]: parsed, ...(key === 'distance' ? { unit } : {}) });
+    }
+  };
+
+  const handleSetSource = async (routeId: string, source: MileageSource) => {
+    setSavingRouteId(routeId);
+    setError(null);
+    try {
+      const updated = await setMileageSource(routeId, source);
+      setItems(current => current.map(item => (item.routeId === routeId ? updated : item)));
+    } catch (err) {
+      console.error('Error recording mileage source:', err);
+      setError(getErrorMessage(err) || t('mileageReconciliation.saveError'));
+    } finally {
+      setSavingRouteId(null);
+    }
+  };
+
+  const diverging = useMemo(() => items.filter(item => isDiverging(item, tolerance)), [items, tolerance]);
+  const visibleItems = showAll ? items : diverging;
+  const unresolvedCount = diverging.filter(item => !item.mileageSource).length;
+
+  const formatMiles = (miles: number) => getDisplayDistance(miles, 'mi', unit).formatted;
+  const toleranceDistance = tolerance.unit === unit
+    ? tolerance.distance
+    : Number(convertDistance(tolerance.distance, tolerance.unit, unit).toFixed(2));
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="bg-white rounded-lg shadow p-6">
+        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900">{t('mileageReconciliation.title')}</h1>
+            <p className="text-sm text-gray-500 mt-1">{t('mileageReconciliation.subtitle')}</p>
+          </div>
+          <div className="flex items-center space-x-2">
+            <label className="text-sm font-medium text-gray-700">{t('taxSummary.fiscalYear')}</label>
+            <select
+              value={selectedYear}
+              onChange={(e) => setSelectedYear(Number(e.target.value))}
+              className="px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 bg-white text-sm"
+            >
+              {Array.from({ length: YEARS_TO_SHOW }, (_, i) => currentFiscalYear - i).map(year => (
+                <option key={year} value={year}>{formatFiscalYearLabel(year, fiscalStartDate)}</option>
+              ))}
+            </select>
+          </div>
+        </div>
+
+        <div className="mt-4 flex flex-wrap items-end gap-4 text-sm">
+          <label className="block">
+            <span className="text-gray-700">{t(unit === 'km' ? 'mileageReconciliation.toleranceKm' : 'mileageReconciliation.toleranceMi')}</span>
+            <input
+              type="number"
+              min="0"
+              step="0.1"
+              value={toleranceDistance}
+              onChange={(e) => updateToleranceNumber('distance', e.target.value)}
+              className="mt-1 block w-24 px-2 py-1 border border-gray-300 rounded-md"
+            />
+          </label>
+          <label className="block">
+            <span className="text-gray-700">{t('mileageReconciliation.tolerancePercent')}</span>
+            <input
+              type="number"
+              min="0"
+              step="1"
+              value={tolerance.percent}
+              onChange={(e) => updateToleranceNumber('percent', e.target.value)}
+              className="mt-1 block w-24 px-2 py-1 border border-gray-300 rounded-md"
+            />
+          </label>
+          <label className="flex items-center space-x-2 text-gray-700 pb-1">
+            <input
+              type="checkbox"
+              checked={showAll}
+              onChange={(e) => setShowAll(e.target.checked)}
+              className="rounded border-gray-300"
+            />
+            <span>{t('mileageReconciliation.showAll')}</span>
+          </label>
+        </div>
+        <p className="mt-2 text-xs text-gray-500">{t('mileageReconciliation.toleranceNote')}</p>
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-md p-4">
+          <p className="text-sm text-red-700">{error}</p>
+          <button
+            onClick={loadItems}
+            className="mt-3 bg-red-100 hover:bg-red-200 text-red-800 px-4 py-2 rounded-md text-sm font-medium"
+          >
+            {t('common.retry')}
+          </button>
+        </div>
+      )}
+
+      {loading ? (
+        <div className="flex items-center justify-center min-h-64">
+          <div className="text-center">
+            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600 mx-auto mb-4"></div>
+            <p className="text-gray-600">{t('mileageReconciliation.loading')}</p>
+          </div>
+        </div>
+      ) : (
+        <div className="bg-white rounded-lg shadow p-6">
+          <p className="text-sm text-gray-600 mb-4">
+            {t('mileageReconciliation.summary', { checked: items.length, diverging: diverging.length, unresolved: unresolvedCount })}
+          </p>
+
+          {visibleItems.length === 0 ? (
+            <p className="text-center text-gray-500 py-8">
+              {t(items.length === 0 ? 'mileageReconciliation.empty' : 'mileageReconciliation.noneDiverging')}
+            </p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="min-w-full text-sm">
+                <thead>
+                  <tr className="border-b text-gray-600">
+                    <th className="py-2 text-left font-medium">{t('mileageReconciliation.columns.date')}</th>
+                    <th className="py-2 text-left font-medium">{t('mileageReconciliation.columns.workType')}</th>
+                    <th className="py-2 text-right font-medium">{t('mileageReconciliation.columns.odometer')}</th>
+                    <th className="py-2 text-right font-medium">{t('mileageReconciliation.columns.gps')}</th>
+                    <th className="py-2 text-right font-medium">{t('mileageReconciliation.columns.difference')}</th>
+                    <th className="py-2 text-right font-medium">{t('mileageReconciliation.columns.taxMileage')}</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {visibleItems.map(item => {
+                    const difference = getMileageDifference(item);
+                    const saving = savingRouteId === item.routeId;
+                    return (
+                      <tr key={item.routeId} className="border-b last:border-b-0">
+                        <td className="py-2">
+                          <Link to={`/routes/${item.routeId}`} className="text-blue-600 hover:text-blue-800">
+                            {formatDate(item.scheduleStart)}
+                          </Link>
+                        </td>
+                        <td className="py-2 text-gray-700">{item.workType || '-'}</td>
+                        <td className="py-2 text-right text-gray-700">{formatMiles(item.odometerMiles)}</td>
+                        <td className="py-2 text-right text-gray-700">
+                          {formatMiles(item.gpsMiles)}
+                          <span className="block text-xs text-gray-400">{t('mileageReconciliation.points', { count: item.locationCount })}</span>
+                        </td>
+                        <td className={`py-2 text-right ${isDiverging(item, tolerance) ? 'text-red-600 font-medium' : 'text-gray-700'}`}>
+                          {difference.miles > 0 ? '+' : ''}{formatMiles(difference.miles)}
+                          <span className="block text-xs">{difference.percent.toFixed(1)}%</span>
+                        </td>
+                        <td className="py-2 text-right">
+                          <div className="inline-flex rounded-md shadow-sm">
+                            {(['odometer', 'gps'] as const).map(source => (
+                              <button
+                                key={source}
+                                type="button"
+                                onClick={() => handleSetSource(item.routeId, source)}
+                                disabled={saving}
+                                className={`px-3 py-1 text-xs font-medium border first:rounded-l-md last:rounded-r-md disabled:opacity-50 ${
+                                  item.mileageSource === source
+                                    ? 'bg-blue-600 text-white border-blue-600'
+                                    : 'bg-white text-gray-700 border-gray-300 hover:bg-gray-50'
+                                }`}
+                              >
+                                {t(`mileageReconciliation.source.${source}`)}
+                              </button>
+                            ))}
+                          </div>
+                          {item.mileageSource && item.taxMiles !== null && item.taxMiles !== undefined && (
+                            <span className="block text-xs text-gray-500 mt-1">
+                              {t('mileageReconciliation.recorded', {
+                                distance: formatMiles(item.taxMiles),
+                                date: item.mileageReconciledAt ? formatDate(item.mileageReconciledAt) : '',
+                              })}
+                            </span>
+                          )}
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default MileageReconciliation;
@@ -1,44 +1,25 @@
-import React, { useState, useEffect } from 'react';
+import React from 'react';
 import { useAuth } from '../../contexts/AuthContext';
 import { useSettings } from '../../contexts/SettingsContext';
 import { useLanguage } from '../../contexts/LanguageContext';
-import { getDashboardStats, getRoutes } from '../../utils/api';
-import type { DashboardStats, Route } from '../../types';
+import { getDashboardStats } from '../../utils/api';
+import { useQuery } from '../../hooks/useQuery';
+import { dashboardKeys, fetchRouteList, routeKeys } from '../../utils/routeQueries';
 
 const Profile: React.FC = () => {
   const { user } = useAuth();
   const { settings, formatCurrency } = useSettings();
   const { t } = useLanguage();
 
-  const [dashboardStats, setDashboardStats] = useState<DashboardStats | null>(null);
-  const [routes, setRoutes] = useState<Route[]>([]);
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
-
-  // Load dashboard stats and routes data
-  useEffect(() => {
-    const loadProfileData = async () => {
-      try {
-        setLoading(true);
-        setError(null);
-        
-        const [statsData, routesData] = await Promise.all([
-          getDashboardStats(),
-          getRoutes()
-        ]);
-        
-        setDashboardStats(statsData);
-        setRoutes(routesData);
-      } catch (err) {
-        console.error('Error loading profile data:', err);
-        setError('Failed to load profile statistics');
-      } finally {
-        setLoading(false);
-      }
-    };
-
-    loadProfileData();
-  }, []);
+  // Shares its cached stats and routes with the dashboard and route list
+  const statsQuery = useQuery(dashboardKeys.stats, getDashboardStats);
+  const routesQuery = useQuery(routeKeys.list(), () => fetchRouteList());
+  const dashboardStats = statsQuery.data ?? null;
+  const routes = routesQuery.data;
+  const loading = statsQuery.isLoading || routesQuery.isLoading;
+  const error = (statsQuery.error && !statsQuery.data) || (routesQuery.error && !routesQuery.data)
+    ? 'Failed to load profile statistics'
+    : null;
 
   // Calculate quick stats from real data
   const quickStats = React.useMemo(() => {
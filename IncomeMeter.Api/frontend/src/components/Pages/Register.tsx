@@ -2,6 +2,7 @@ import React, { useState } from 'react';
 import { useNavigate, useSearchParams } from 'react-router-dom';
 import type { RegisterFormData } from '../../types';
 import { register, registerWithGoogle } from '../../utils/api';
+import { storeSession } from '../../utils/session';
 
 const Register: React.FC = () => {
   const navigate = useNavigate();
@@ -46,7 +47,7 @@ const Register: React.FC = () => {
         
         if (result.success && result.token) {
           // Store the token and redirect to dashboard
-          localStorage.setItem('accessToken', result.token);
+          storeSession(result.token);
           navigate('/dashboard');
         } else {
           setError(result.message || 'Registration failed. Please try again.');
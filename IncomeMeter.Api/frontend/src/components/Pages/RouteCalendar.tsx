@@ -0,0 +1,476 @@
+import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import RouteForm from './RouteForm';
+import IcsImportModal from './IcsImportModal';
+import { useSettings } from '../../contexts/SettingsContext';
+import { useLanguage } from '../../contexts/LanguageContext';
+import { useTimezone } from '../../hooks/useTimezone';
+import { getRoutesByDateRange, getRoutesByStatus } from '../../utils/api';
+import { buildRouteCalendar } from '../../utils/icalendar';
+import { downloadFile } from '../../utils/spreadsheetExport';
+import { isOfflineId } from '../../utils/offlineOutbox';
+import { updateCachedRoute } from '../../utils/routeQueries';
+import {
+  addDays,
+  getSlotSchedule,
+  getTodayKey,
+  getVisibleDays,
+  getWorkTypeColor,
+  isSameMonth,
+  layoutRoutes,
+  rescheduleRoute,
+  shiftAnchor,
+  STATUS_COLORS,
+  MINUTES_PER_DAY,
+  type CalendarEvent,
+  type CalendarView,
+} from '../../utils/calendar';
+import type { Route } from '../../types';
+
+const HOUR_HEIGHT = 48; // px per hour in the week and day views
+const MONTH_EVENTS_PER_DAY = 3; // further routes collapse into "+N more"
+const SCROLL_TO_HOUR = 7;
+
+const CALENDAR_VIEWS: CalendarView[] = ['month', 'week', 'day'];
+
+const STATUS_KEYS: Record<Route['status'], string> = {
+  scheduled: 'scheduled',
+  in_progress: 'inProgress',
+  completed: 'completed',
+  cancelled: 'cancelled',
+};
+
+const pad = (value: number): string => String(value).padStart(2, '0');
+
+const formatMinutes = (minutes: number): string => `${pad(Math.floor(minutes / 60) % 24)}:${pad(minutes % 60)}`;
+
+// Day keys are calendar days, so format them as UTC to avoid shifting across the browser's timezone
+const formatDayKey = (dayKey: string, language: string, options: Intl.DateTimeFormatOptions): string =>
+  new Date(`${dayKey}T00:00:00Z`).toLocaleDateString(language, { ...options, timeZone: 'UTC' });
+
+const RouteCalendar: React.FC = () => {
+  const { settings } = useSettings();
+  const { t, language } = useLanguage();
+  const { timezone } = useTimezone(settings.timeZone);
+  const [view, setView] = useState<CalendarView>('week');
+  const [anchorKey, setAnchorKey] = useState(() => getTodayKey(timezone));
+  const [routes, setRoutes] = useState<Route[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [draggingRouteId, setDraggingRouteId] = useState<string | null>(null);
+  const [newRouteSchedule, setNewRouteSchedule] = useState<{ scheduleStart: string; scheduleEnd: string } | null>(null);
+  const [editingRoute, setEditingRoute] = useState<Route | null>(null);
+  const [showIcsImport, setShowIcsImport] = useState(false);
+  const [exporting, setExporting] = useState(false);
+  const timeGridRef = useRef<HTMLDivElement>(null);
+
+  const todayKey = getTodayKey(timezone);
+  const days = useMemo(() => getVisibleDays(view, anchorKey), [view, anchorKey]);
+  const eventsByDay = useMemo(() => layoutRoutes(routes, days, timezone), [routes, days, timezone]);
+
+  const fetchRoutes = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      // Pad by a day either side so routes near midnight in the user's timezone aren't missed
+      const data = await getRoutesByDateRange(addDays(days[0], -1), addDays(days[days.length - 1], 1));
+      setRoutes(data.map(route => ({
+        ...route,
+        scheduleStart: new Date(route.scheduleStart),
+        scheduleEnd: new Date(route.scheduleEnd),
+        actualStartTime: route.actualStartTime ? new Date(route.actualStartTime) : undefined,
+        actualEndTime: route.actualEndTime ? new Date(route.actualEndTime) : undefined,
+      })));
+    } catch (err) {
+      console.error('Error loading calendar routes:', err);
+      setError(t('calendar.errors.load'));
+    } finally {
+      setLoading(false);
+    }
+  }, [days, t]);
+
+  useEffect(() => {
+    fetchRoutes();
+  }, [fetchRoutes]);
+
+  // Start the time grid at the beginning of a typical working day
+  useEffect(() => {
+    if (view !== 'month' && timeGridRef.current) {
+      timeGridRef.current.scrollTop = SCROLL_TO_HOUR * HOUR_HEIGHT;
+    }
+  }, [view]);
+
+  const canReschedule = (route: Route) => route.status === 'scheduled' && !isOfflineId(route.id);
+
+  const handleDrop = async (event: React.DragEvent, dayKey: string, minutes: number | null) => {
+    event.preventDefault();
+    const routeId = event.dataTransfer.getData('text/plain');
+    setDraggingRouteId(null);
+
+    const route = routes.find(item => item.id === routeId);
+    if (!route) return;
+
+    const schedule = rescheduleRoute(route, dayKey, minutes, timezone);
+    if (schedule.scheduleStart.getTime() === new Date(route.scheduleStart).getTime()) return;
+
+    // Move it straight away and put it back if the save fails
+    setRoutes(prev => prev.map(item => item.id === routeId ? { ...item, ...schedule } : item));
+    try {
+      await updateCachedRoute(routeId, schedule);
+    } catch (err) {
+      console.error('Error rescheduling route:', err);
+      setRoutes(prev => prev.map(item => item.id === routeId ? route : item));
+      setError(t('calendar.errors.reschedule'));
+    }
+  };
+
+  const allowDrop = (event: React.DragEvent) => {
+    if (draggingRouteId) {
+      event.preventDefault();
+      event.dataTransfer.dropEffect = 'move';
+    }
+  };
+
+  const handleCreated = (route: Route) => {
+    if (!isOfflineId(route.id)) {
+      setRoutes(prev => [...prev, { ...route, scheduleStart: new Date(route.scheduleStart), scheduleEnd: new Date(route.scheduleEnd) }]);
+    }
+    setNewRouteSchedule(null);
+  };
+
+  const handleUpdated = (updatedRoute: Route) => {
+    setRoutes(prev => prev.map(route => route.id === updatedRoute.id
+      ? { ...updatedRoute, scheduleStart: new Date(updatedRoute.scheduleStart), scheduleEnd: new Date(updatedRoute.scheduleEnd) }
+      : route));
+    setEditingRoute(null);
+  };
+
+  // Exports every scheduled route, not just the ones in view, so the phone calendar has all upcoming shifts
+  const handleIcsExport = async () => {
+    try {
+      setExporting(true);
+      setError(null);
+      const scheduled = await getRoutesByStatus('scheduled');
+      if (scheduled.length === 0) {
+        setError(t('calendar.ics.export.empty'));
+        return;
+      }
+
+      const ics = buildRouteCalendar(scheduled, {
+        timeZone: timezone,
+        calendarName: t('calendar.ics.export.calendarName'),
+        untitled: t('calendar.untitled'),
+      });
+      downloadFile(ics, `${t('calendar.ics.export.filename')}-${todayKey}.ics`, 'text/calendar;charset=utf-8');
+    } catch (err) {
+      console.error('Error exporting calendar:', err);
+      setError(t('calendar.ics.export.error'));
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const handleIcsImportComplete = () => {
+    setShowIcsImport(false);
+    fetchRoutes();
+  };
+
+  const openDay = (dayKey: string) => {
+    setAnchorKey(dayKey);
+    setView('day');
+  };
+
+  const getRangeDisplay = (): string => {
+    if (view === 'month') {
+      return formatDayKey(anchorKey, language, { month: 'long', year: 'numeric' });
+    }
+    if (view === 'day') {
+      return formatDayKey(anchorKey, language, { weekday: 'long', day: 'numeric', month: 'long', year: 'numeric' });
+    }
+    return `${formatDayKey(days[0], language, { day: 'numeric', month: 'short' })} – ${formatDayKey(days[days.length - 1], language, { day: 'numeric', month: 'short', year: 'numeric' })}`;
+  };
+
+  const renderEventContent = (calendarEvent: CalendarEvent, compact: boolean) => {
+    const { route } = calendarEvent;
+    const time = calendarEvent.continuesBefore
+      ? t('calendar.continued')
+      : formatMinutes(calendarEvent.startMinutes);
+
+    return (
+      <>
+        <span className="font-semibold">{time}</span>{' '}
+        <span className={compact ? '' : 'block truncate'}>
+          {route.recurringScheduleId && <span aria-label={t('calendar.recurring')}>↻ </span>}
+          {route.workType || t('calendar.untitled')}
+        </span>
+      </>
+    );
+  };
+
+  const getEventProps = (calendarEvent: CalendarEvent) => {
+    const { route } = calendarEvent;
+    const draggable = canReschedule(route);
+
+    return {
+      draggable,
+      title: `${route.workType || t('calendar.untitled')} · ${t(`routes.status.${STATUS_KEYS[route.status]}`)}`,
+      onDragStart: (event: React.DragEvent) => {
+        event.dataTransfer.setData('text/plain', route.id);
+        event.dataTransfer.effectAllowed = 'move';
+        setDraggingRouteId(route.id);
+      },
+      onDragEnd: () => setDraggingRouteId(null),
+      onClick: (event: React.MouseEvent) => {
+        event.stopPropagation();
+        setEditingRoute(route);
+      },
+      className: `rounded border-l-4 px-1.5 py-0.5 text-xs text-left overflow-hidden ${STATUS_COLORS[route.status]} ${getWorkTypeColor(route.workType)} ${
+        draggable ? 'cursor-move' : 'cursor-pointer'
+      } ${draggingRouteId === route.id ? 'opacity-50' : ''}`,
+    };
+  };
+
+  const renderMonthView = () => (
+    <div className="grid grid-cols-7 border-t border-l border-gray-200">
+      {days.slice(0, 7).map(day => (
+        <div key={day} className="border-r border-b border-gray-200 bg-gray-50 px-2 py-1 text-xs font-medium text-gray-600 text-center">
+          {formatDayKey(day, language, { weekday: 'short' })}
+        </div>
+      ))}
+      {days.map(day => {
+        const dayEvents = eventsByDay.get(day) ?? [];
+        const hiddenCount = dayEvents.length - MONTH_EVENTS_PER_DAY;
+
+        return (
+          <div
+            key={day}
+            onClick={() => setNewRouteSchedule(getSlotSchedule(day))}
+            onDragOver={allowDrop}
+            onDrop={(event) => handleDrop(event, day, null)}
+            className={`min-h-24 border-r border-b border-gray-200 p-1 cursor-pointer hover:bg-blue-50 ${
+              isSameMonth(day, anchorKey) ? 'bg-white' : 'bg-gray-50'
+            }`}
+          >
+            <button
+              type="button"
+              onClick={(event) => {
+                event.stopPropagation();
+                openDay(day);
+              }}
+              className={`text-xs mb-1 w-6 h-6 rounded-full ${
+                day === todayKey
+                  ? 'bg-blue-600 text-white'
+                  : isSameMonth(day, anchorKey) ? 'text-gray-900 hover:bg-gray-200' : 'text-gray-400 hover:bg-gray-200'
+              }`}
+            >
+              {Number(day.slice(8))}
+            </button>
+            <div className="space-y-1">
+              {dayEvents.slice(0, MONTH_EVENTS_PER_DAY).map(calendarEvent => (
+                <div key={calendarEvent.route.id} {...getEventProps(calendarEvent)}>
+                  <div className="truncate">{renderEventContent(calendarEvent, true)}</div>
+                </div>
+              ))}
+              {hiddenCount > 0 && (
+                <button
+                  type="button"
+                  onClick={(event) => {
+                    event.stopPropagation();
+                    openDay(day);
+                  }}
+                  className="text-xs text-blue-600 hover:underline"
+                >
+                  {t('calendar.more', { count: hiddenCount })}
+                </button>
+              )}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+
+  const renderTimeGrid = () => (
+    <div>
+      <div className="flex border-b border-gray-200">
+        <div className="w-14 flex-shrink-0" />
+        {days.map(day => (
+          <button
+            key={day}
+            type="button"
+            onClick={() => openDay(day)}
+            disabled={view === 'day'}
+            className={`flex-1 py-2 text-center text-sm border-l border-gray-200 ${
+              day === todayKey ? 'text-blue-600 font-semibold' : 'text-gray-700'
+            }`}
+          >
+            {formatDayKey(day, language, { weekday: 'short', day: 'numeric' })}
+          </button>
+        ))}
+      </div>
+      <div ref={timeGridRef} className="flex overflow-y-auto max-h-[70vh]">
+        <div className="w-14 flex-shrink-0">
+          {Array.from({ length: 24 }, (_, hour) => (
+            <div key={hour} style={{ height: HOUR_HEIGHT }} className="pr-2 text-right text-xs text-gray-500 -translate-y-2">
+              {hour > 0 ? formatMinutes(hour * 60) : ''}
+            </div>
+          ))}
+        </div>
+        {days.map(day => (
+          <div key={day} className="relative flex-1 border-l border-gray-200" style={{ height: 24 * HOUR_HEIGHT }}>
+            {Array.from({ length: 24 }, (_, hour) => (
+              <div
+                key={hour}
+                style={{ height: HOUR_HEIGHT }}
+                onClick={() => setNewRouteSchedule(getSlotSchedule(day, hour * 60))}
+                onDragOver={allowDrop}
+                onDrop={(event) => handleDrop(event, day, hour * 60)}
+                className={`border-b border-gray-100 cursor-pointer hover:bg-blue-50 ${day === todayKey ? 'bg-blue-50/30' : ''}`}
+              />
+            ))}
+            {(eventsByDay.get(day) ?? []).map(calendarEvent => {
+              const height = Math.max(((calendarEvent.endMinutes - calendarEvent.startMinutes) / 60) * HOUR_HEIGHT, HOUR_HEIGHT / 2);
+              const width = 100 / calendarEvent.columns;
+              const props = getEventProps(calendarEvent);
+
+              return (
+                <div
+                  key={calendarEvent.route.id}
+                  {...props}
+                  // Let drops through to the hour slots underneath while something is being dragged
+                  className={`absolute ${props.className} ${draggingRouteId ? 'pointer-events-none' : ''}`}
+                  style={{
+                    top: (calendarEvent.startMinutes / 60) * HOUR_HEIGHT,
+                    height: Math.min(height, ((MINUTES_PER_DAY - calendarEvent.startMinutes) / 60) * HOUR_HEIGHT),
+                    left: `calc(${calendarEvent.column * width}% + 2px)`,
+                    width: `calc(${width}% - 4px)`,
+                  }}
+                >
+                  {renderEventContent(calendarEvent, false)}
+                </div>
+              );
+            })}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="bg-white rounded-lg shadow p-6">
+        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900">{t('calendar.title')}</h1>
+            <p className="text-gray-600 mt-1">{t('calendar.subtitle')}</p>
+          </div>
+          <div className="flex flex-wrap items-center gap-2">
+            <button
+              type="button"
+              onClick={() => setShowIcsImport(true)}
+              className="bg-gray-100 hover:bg-gray-200 text-gray-700 px-3 py-2 rounded-md text-sm font-medium"
+            >
+              {t('calendar.ics.import.button')}
+            </button>
+            <button
+              type="button"
+              onClick={handleIcsExport}
+              disabled={exporting}
+              className="bg-gray-100 hover:bg-gray-200 text-gray-700 px-3 py-2 rounded-md text-sm font-medium disabled:opacity-50"
+            >
+              {exporting ? t('calendar.ics.export.exporting') : t('calendar.ics.export.button')}
+            </button>
+          </div>
+          <div className="flex bg-gray-100 rounded-lg p-1">
+            {CALENDAR_VIEWS.map(option => (
+              <button
+                key={option}
+                type="button"
+                onClick={() => setView(option)}
+                className={`px-4 py-2 text-sm font-medium rounded-md transition-colors ${
+                  view === option ? 'bg-white text-blue-600 shadow-sm' : 'text-gray-600 hover:text-gray-900'
+                }`}
+              >
+                {t(`calendar.views.${option}`)}
+              </button>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-md p-4">
+          <p className="text-sm text-red-700">{error}</p>
+        </div>
+      )}
+
+      <div className="bg-white rounded-lg shadow p-4">
+        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3 mb-4">
+          <div className="flex items-center space-x-2">
+            <button
+              type="button"
+              onClick={() => setAnchorKey(current => shiftAnchor(view, current, -1))}
+              className="px-3 py-1.5 text-sm border border-gray-300 rounded-md hover:bg-gray-50"
+              aria-label={t('calendar.previous')}
+            >
+              ‹
+            </button>
+            <button
+              type="button"
+              onClick={() => setAnchorKey(todayKey)}
+              className="px-3 py-1.5 text-sm border border-gray-300 rounded-md hover:bg-gray-50"
+            >
+              {t('calendar.today')}
+            </button>
+            <button
+              type="button"
+              onClick={() => setAnchorKey(current => shiftAnchor(view, current, 1))}
+              className="px-3 py-1.5 text-sm border border-gray-300 rounded-md hover:bg-gray-50"
+              aria-label={t('calendar.next')}
+            >
+              ›
+            </button>
+            <h2 className="text-lg font-semibold text-gray-900 ml-2">{getRangeDisplay()}</h2>
+            {loading && <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-blue-600"></div>}
+          </div>
+          <div className="flex flex-wrap items-center gap-3 text-xs">
+            {(Object.keys(STATUS_COLORS) as Route['status'][]).map(status => (
+              <span key={status} className={`px-2 py-0.5 rounded ${STATUS_COLORS[status]}`}>
+                {t(`routes.status.${STATUS_KEYS[status]}`)}
+              </span>
+            ))}
+          </div>
+        </div>
+
+        {view === 'month' ? renderMonthView() : renderTimeGrid()}
+
+        <p className="text-xs text-gray-500 mt-3">{t('calendar.hint', { timezone })}</p>
+      </div>
+
+      {newRouteSchedule && (
+        <RouteForm
+          initialSchedule={newRouteSchedule}
+          onSave={handleCreated}
+          onCancel={() => setNewRouteSchedule(null)}
+        />
+      )}
+
+      {showIcsImport && (
+        <IcsImportModal
+          onComplete={handleIcsImportComplete}
+          onCancel={() => setShowIcsImport(false)}
+        />
+      )}
+
+      {editingRoute && (
+        <RouteForm
+          route={editingRoute}
+          onSave={handleUpdated}
+          onCancel={() => setEditingRoute(null)}
+        />
+      )}
+    </div>
+  );
+};
+
+export default RouteCalendar;
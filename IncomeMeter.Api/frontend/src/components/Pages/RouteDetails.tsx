@@ -2,35 +2,97 @@ import React, { useState, useEffect, useCallback } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
 import { useSettings } from '../../contexts/SettingsContext';
 import { useLanguage } from '../../contexts/LanguageContext';
-import type { Route, Location } from '../../types';
-import { getDisplayDistance } from '../../utils/distance';
-import { getRouteById, getLocationsByRouteId } from '../../utils/api';
+import { useOutbox } from '../../contexts/OutboxContext';
+import type { Route, Location, OutboxEntry, Expense, ExpenseCategory, RouteStops } from '../../types';
+import { convertDistance, getDisplayDistance } from '../../utils/distance';
+import { getRouteById, updateRoute, getLocationsByRouteId, getRouteStops, getExpensesByRouteId, createExpense, deleteExpense } from '../../utils/api';
+import { EXPENSE_CATEGORIES, sumExpenses } from '../../utils/expenses';
+import { getOutboxEntries, getResolvedRouteId, isOfflineId } from '../../utils/offlineOutbox';
+import { fetchQuery, invalidateQueries } from '../../utils/queryCache';
+import { dashboardKeys, invalidateRouteQueries, routeKeys, withRouteDates } from '../../utils/routeQueries';
+import { useTrailCleanup } from '../../hooks/useTrailCleanup';
 import RouteMap from '../Maps/RouteMap';
+import OfflineQueuePanel from '../UI/OfflineQueuePanel';
+import ReceiptAttachments from '../UI/ReceiptAttachments';
+import LocationTrailFiles from '../UI/LocationTrailFiles';
+import TrailCleanupPanel from '../UI/TrailCleanupPanel';
+import RouteStopsPanel from '../UI/RouteStopsPanel';
 
 
 interface RouteWithLocations extends Route {
   locations?: Location[];
 }
 
+const NO_LOCATIONS: Location[] = [];
+
 const RouteDetails: React.FC = () => {
   const { id } = useParams<{ id: string }>();
   const navigate = useNavigate();
   const { formatCurrency, settings } = useSettings();
   const { t } = useLanguage();
+  const { getEntriesForRoute, lastSyncAt } = useOutbox();
   const [route, setRoute] = useState<RouteWithLocations | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [expenses, setExpenses] = useState<Expense[]>([]);
+  const [routeStops, setRouteStops] = useState<RouteStops | null>(null);
+  const [newExpenseCategory, setNewExpenseCategory] = useState<ExpenseCategory>('fuel');
+  const [newExpenseAmount, setNewExpenseAmount] = useState<number | ''>('');
+  const [newExpenseDescription, setNewExpenseDescription] = useState('');
+  const [savingExpense, setSavingExpense] = useState(false);
+  const [expenseError, setExpenseError] = useState<string | null>(null);
+  const trailCleanup = useTrailCleanup(route?.locations ?? NO_LOCATIONS);
 
   const loadRouteDetails = useCallback(async (routeId: string) => {
     try {
       setLoading(true);
       setError(null);
 
-      // Fetch route details from API
-      const routeData = await getRouteById(routeId);
-      
-      // Fetch locations for this route
-      const locationsData = await getLocationsByRouteId(routeId);
+      // A route created offline gets its server id once synced - follow it there
+      const resolvedId = isOfflineId(routeId) ? getResolvedRouteId(routeId) : undefined;
+      if (resolvedId) {
+        navigate(`/routes/${resolvedId}`, { replace: true });
+        return;
+      }
+
+      const queuedEntries = (await getOutboxEntries().catch((): OutboxEntry[] => []))
+        .filter(entry => entry.routeId === routeId || entry.tempId === routeId);
+
+      let routeData: Route;
+      let locationsData: Location[] = [];
+      let expensesData: Expense[] = [];
+      let stopsData: RouteStops | null = null;
+
+      if (isOfflineId(routeId)) {
+        // Created offline - the route only exists in the outbox until it syncs
+        const queuedRoute = queuedEntries.find(entry => entry.tempId === routeId)?.placeholder as Route | undefined;
+        if (!queuedRoute) {
+          setRoute(null);
+          return;
+        }
+        routeData = queuedRoute;
+      } else {
+        // A copy cached by the route list or a recent edit is used while still fresh
+        routeData = await fetchQuery(routeKeys.detail(routeId), () => getRouteById(routeId).then(withRouteDates));
+
+        // Fetch locations for this route
+        locationsData = await getLocationsByRouteId(routeId);
+
+        expensesData = await getExpensesByRouteId(routeId);
+
+        // Stops are extra detail - the page still works without them
+        stopsData = await getRouteStops(routeId).catch(() => null);
+      }
+
+      // Show queued changes on top of the last known server state
+      const queuedEnd = queuedEntries.find(entry => entry.type === 'endRoute')?.placeholder as Route | undefined;
+      if (queuedEnd) {
+        const { status, endMile, incomes, totalIncome, actualEndTime } = queuedEnd;
+        routeData = { ...routeData, status, endMile, incomes, totalIncome, actualEndTime };
+      }
+      const queuedLocations = queuedEntries
+        .filter(entry => entry.type === 'createLocation' && entry.placeholder)
+        .map(entry => entry.placeholder as Location);
       
       // Transform API data with proper date conversion
       const processedRoute: RouteWithLocations = {
@@ -39,23 +101,93 @@ const RouteDetails: React.FC = () => {
         scheduleEnd: new Date(routeData.scheduleEnd),
         actualStartTime: routeData.actualStartTime ? new Date(routeData.actualStartTime) : undefined,
         actualEndTime: routeData.actualEndTime ? new Date(routeData.actualEndTime) : undefined,
-        locations: locationsData || [],
+        locations: [...(locationsData || []), ...queuedLocations],
       };
 
       setRoute(processedRoute);
+      setExpenses(expensesData);
+      setRouteStops(stopsData);
     } catch (err) {
       setError(t('routes.details.error.message'));
       console.error('Error loading route details:', err);
     } finally {
       setLoading(false);
     }
-  }, [t]);
+  }, [t, navigate]);
 
+  // Reload after an outbox sync so queued changes are replaced by the server copy
   useEffect(() => {
     if (id) {
       loadRouteDetails(id);
     }
-  }, [id, loadRouteDetails]);
+  }, [id, loadRouteDetails, lastSyncAt]);
+
+  // Refresh the route distance and trail after a GPX import without swapping the page for the spinner
+  const handleTrailImported = async () => {
+    if (!route) return;
+    try {
+      const [routeData, locationsData, stopsData] = await Promise.all([
+        fetchQuery(routeKeys.detail(route.id), () => getRouteById(route.id).then(withRouteDates), { force: true }),
+        getLocationsByRouteId(route.id),
+        getRouteStops(route.id).catch(() => null),
+      ]);
+      setRoute(prev => prev && { ...prev, distance: routeData.distance, updatedAt: routeData.updatedAt, locations: locationsData || [] });
+      setRouteStops(stopsData);
+      invalidateRouteQueries();
+    } catch (err) {
+      console.error('Error refreshing route after import:', err);
+    }
+  };
+
+  // Route distances are stored in miles
+  const handleApplyCleanedDistance = async (distanceKm: number) => {
+    if (!route) return;
+    const updated = await updateRoute(route.id, { distance: Math.round(convertDistance(distanceKm, 'km', 'mi') * 100) / 100 });
+    setRoute(prev => prev && { ...prev, distance: updated.distance, updatedAt: updated.updatedAt });
+    invalidateRouteQueries();
+  };
+
+  // Odometer readings stay the route distance when both were recorded, as for imported trails
+  const canApplyCleanedDistance = !!route && !isOfflineId(route.id)
+    && !(typeof route.startMile === 'number' && typeof route.endMile === 'number');
+
+  const handleAddExpense = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!route || newExpenseAmount === '' || newExpenseAmount <= 0) return;
+
+    try {
+      setSavingExpense(true);
+      setExpenseError(null);
+      const expense = await createExpense({
+        routeId: route.id,
+        category: newExpenseCategory,
+        amount: Number(newExpenseAmount),
+        date: new Date(route.actualEndTime || route.scheduleStart).toISOString(),
+        description: newExpenseDescription.trim() || undefined,
+      });
+      setExpenses(prev => [...prev, expense]);
+      invalidateQueries(dashboardKeys.all);
+      setNewExpenseAmount('');
+      setNewExpenseDescription('');
+    } catch (err) {
+      console.error('Error adding expense:', err);
+      setExpenseError(t('expenses.error.save'));
+    } finally {
+      setSavingExpense(false);
+    }
+  };
+
+  const handleDeleteExpense = async (expenseId: string) => {
+    try {
+      setExpenseError(null);
+      await deleteExpense(expenseId);
+      setExpenses(prev => prev.filter(expense => expense.id !== expenseId));
+      invalidateQueries(dashboardKeys.all);
+    } catch (err) {
+      console.error('Error deleting expense:', err);
+      setExpenseError(t('expenses.error.delete'));
+    }
+  };
 
   const getStatusColor = (status: string = 'unknown') => {
     switch (status.toLowerCase()) {
@@ -171,12 +303,25 @@ const RouteDetails: React.FC = () => {
             <h1 className="text-2xl font-bold text-gray-900">{t('routes.details.title')}</h1>
             <p className="text-gray-600 mt-1">{route.workType || 'Route'}</p>
           </div>
+          {route.status === 'in_progress' && (
+            <button
+              onClick={() => navigate(`/routes/${route.id}/live`)}
+              className="px-3 py-1 bg-orange-500 text-white rounded-md text-sm font-medium hover:bg-orange-600 transition-colors"
+            >
+              {t('liveTracker.open')}
+            </button>
+          )}
           <span className={`inline-flex items-center px-3 py-1 rounded-full text-xs font-medium text-white ${getStatusColor(route.status)}`}>
             {getStatusText(route.status)}
           </span>
         </div>
+        {isOfflineId(route.id) && (
+          <p className="text-sm text-yellow-700">{t('routes.offline.queuedRoute')}</p>
+        )}
       </div>
 
+      <OfflineQueuePanel entries={getEntriesForRoute(route.id)} />
+
       {/* Desktop 2-Column Layout / Mobile Stacked */}
       <div className="grid grid-cols-1 xl:grid-cols-3 gap-6">
         {/* Left Column - Main Content (2/3 width on desktop) */}
@@ -272,6 +417,95 @@ const RouteDetails: React.FC = () => {
             </div>
           )}
 
+          {/* Expenses - queued routes get theirs once they have a server id */}
+          {!isOfflineId(route.id) && (
+            <div className="bg-white rounded-lg shadow p-6">
+              <h2 className="text-lg font-semibold text-gray-900 mb-4">{t('expenses.title')}</h2>
+
+              {expenseError && (
+                <p className="text-sm text-red-600 mb-3">{expenseError}</p>
+              )}
+
+              <form onSubmit={handleAddExpense} className="flex flex-wrap gap-2 mb-4">
+                <select
+                  value={newExpenseCategory}
+                  onChange={(e) => setNewExpenseCategory(e.target.value as ExpenseCategory)}
+                  className="px-3 py-2 border border-gray-300 rounded-md text-sm"
+                >
+                  {EXPENSE_CATEGORIES.map(category => (
+                    <option key={category} value={category}>{t(`expenses.categories.${category}`)}</option>
+                  ))}
+                </select>
+                <input
+                  type="number"
+                  step="0.01"
+                  min="0"
+                  placeholder={t('expenses.amount')}
+                  value={newExpenseAmount}
+                  onChange={(e) => setNewExpenseAmount(e.target.value === '' ? '' : Number(e.target.value))}
+                  className="w-28 px-3 py-2 border border-gray-300 rounded-md text-sm"
+                />
+                <input
+                  type="text"
+                  placeholder={t('expenses.description')}
+                  value={newExpenseDescription}
+                  onChange={(e) => setNewExpenseDescription(e.target.value)}
+                  className="flex-1 min-w-[8rem] px-3 py-2 border border-gray-300 rounded-md text-sm"
+                />
+                <button
+                  type="submit"
+                  disabled={savingExpense || newExpenseAmount === '' || newExpenseAmount <= 0}
+                  className="px-4 py-2 bg-blue-600 text-white rounded-md text-sm hover:bg-blue-700 disabled:bg-blue-400"
+                >
+                  {t('expenses.add')}
+                </button>
+              </form>
+
+              {expenses.length === 0 ? (
+                <p className="text-sm text-gray-500">{t('expenses.noExpenses')}</p>
+              ) : (
+                <div className="space-y-3">
+                  {expenses.map(expense => (
+                    <div key={expense.id} className="flex items-center justify-between py-2 border-b last:border-b-0">
+                      <div>
+                        <span className="text-gray-700">{t(`expenses.categories.${expense.category}`)}</span>
+                        {expense.description && (
+                          <span className="text-sm text-gray-500 ml-2">{expense.description}</span>
+                        )}
+                      </div>
+                      <div className="flex items-center space-x-3">
+                        <span className="font-medium text-red-600">{formatCurrency(expense.amount)}</span>
+                        <button
+                          onClick={() => handleDeleteExpense(expense.id)}
+                          className="text-gray-400 hover:text-red-600"
+                          aria-label={t('expenses.delete')}
+                        >
+                          ×
+                        </button>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              <div className="mt-4 pt-4 border-t-2 space-y-2">
+                <div className="flex items-center justify-between">
+                  <span className="text-gray-600">{t('expenses.totalExpenses')}</span>
+                  <span className="font-medium text-red-600">{formatCurrency(sumExpenses(expenses))}</span>
+                </div>
+                <div className="flex items-center justify-between font-semibold text-lg">
+                  <span className="text-gray-900">{t('expenses.netIncome')}</span>
+                  <span className="text-green-600">{formatCurrency((route.totalIncome || 0) - sumExpenses(expenses))}</span>
+                </div>
+              </div>
+            </div>
+          )}
+
+          {/* Receipt photos */}
+          {!isOfflineId(route.id) && (
+            <ReceiptAttachments routeId={route.id} incomes={route.incomes || []} expenses={expenses} />
+          )}
+
           {/* Route Information */}
           <div className="bg-white rounded-lg shadow p-6">
             <h2 className="text-lg font-semibold text-gray-900 mb-4">{t('routes.details.routeInfo')}</h2>
@@ -299,6 +533,17 @@ const RouteDetails: React.FC = () => {
         {/* Right Column - Map & Locations (1/3 width on desktop) */}
         <div className="xl:col-span-1 space-y-6">
 
+          {/* GPX / KML Export and GPX Import */}
+          {!isOfflineId(route.id) && (
+            <LocationTrailFiles
+              routeId={route.id}
+              trailName={`${route.workType || 'Route'} – ${formatDateTime(route.scheduleStart)}`}
+              fileName={`route-${new Date(route.scheduleStart).toISOString().slice(0, 10)}`}
+              locations={route.locations || []}
+              onImported={handleTrailImported}
+            />
+          )}
+
           {/* Route Map */}
           {route.locations && route.locations.length > 0 && (
             <div className="bg-white rounded-lg shadow p-6">
@@ -307,10 +552,25 @@ const RouteDetails: React.FC = () => {
                 <span className="text-sm text-gray-600">{route.locations.length} {t('routes.details.location(s)')}</span>
               </div>
               
-              <RouteMap locations={route.locations} className="h-80" />
+              <RouteMap
+                locations={route.locations}
+                className="h-80"
+                cleanedTrail={trailCleanup.options.enabled ? trailCleanup.trail : undefined}
+                stops={routeStops?.stops}
+              />
+              <TrailCleanupPanel
+                cleanup={trailCleanup}
+                onApplyDistance={canApplyCleanedDistance ? handleApplyCleanedDistance : undefined}
+                className="mt-4"
+              />
             </div>
           )}
 
+          {/* Stops and waiting time */}
+          {routeStops && route.locations && route.locations.length > 1 && (
+            <RouteStopsPanel routeStops={routeStops} />
+          )}
+
           {/* Locations */}
           {route.locations && route.locations.length > 0 && (
             <div className="bg-white rounded-lg shadow p-6">
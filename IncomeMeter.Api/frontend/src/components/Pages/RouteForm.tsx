@@ -3,14 +3,23 @@ import { useTranslation } from 'react-i18next';
 import { useSettings } from '../../contexts/SettingsContext';
 import { useTimezone } from '../../hooks/useTimezone';
 import { createDateInTimezone, toUserTimezone } from '../../utils/timezoneUtils';
-import { getActiveWorkTypeConfigs, createRoute, updateRoute } from '../../utils/api';
-import type { WorkTypeConfig, Route } from '../../types';
+import { getActiveWorkTypeConfigs, getExpensesByRouteId, createExpense, updateExpense, deleteExpense } from '../../utils/api';
+import { isOfflineId } from '../../utils/offlineOutbox';
+import { createCachedRoute, invalidateRouteQueries, updateCachedRoute } from '../../utils/routeQueries';
+import { EXPENSE_CATEGORIES, sumExpenses } from '../../utils/expenses';
+import type { WorkTypeConfig, Route, ExpenseCategory } from '../../types';
 
 interface IncomeItem {
     source: string;
     amount: number;
 }
 
+interface ExpenseItem {
+    id?: string; // set once the expense has been saved
+    category: ExpenseCategory;
+    amount: number;
+}
+
 interface RouteFormData {
     workType: string;
     workTypeId?: string;
@@ -22,8 +31,9 @@ interface RouteFormData {
     startMile?: number;
     endMile?: number;
     status: 'completed' | 'in_progress' | 'scheduled' | 'cancelled';
-    description?: string;
+    notes?: string;
     incomes: IncomeItem[];
+    expenses: ExpenseItem[];
 }
 
 // Using imported Route type from '../../types' instead of local definition
@@ -32,9 +42,10 @@ interface RouteFormProps {
     route?: Route;
     onSave: (route: Route) => void;
     onCancel: () => void;
+    initialSchedule?: { scheduleStart: string; scheduleEnd: string }; // datetime-local values for a new route, e.g. a calendar slot
 }
 
-const RouteForm: React.FC<RouteFormProps> = ({ route, onSave, onCancel }) => {
+const RouteForm: React.FC<RouteFormProps> = ({ route, onSave, onCancel, initialSchedule }) => {
     const { t } = useTranslation();
     const { settings, formatCurrency } = useSettings();
     const { timezone } = useTimezone(settings.timeZone);
@@ -49,6 +60,10 @@ const RouteForm: React.FC<RouteFormProps> = ({ route, onSave, onCancel }) => {
 
     // Helper function to create initial dates in user's timezone
     const getInitialScheduleDates = useCallback(() => {
+        if (initialSchedule) {
+            return initialSchedule;
+        }
+
         // Get current time formatted in user's timezone
         const now = new Date();
         
@@ -75,7 +90,7 @@ const RouteForm: React.FC<RouteFormProps> = ({ route, onSave, onCancel }) => {
             scheduleStart,
             scheduleEnd
         };
-    }, [timezone]);
+    }, [timezone, initialSchedule]);
     const [formData, setFormData] = useState<RouteFormData>({
         workType: '',
         workTypeId: undefined,
@@ -87,8 +102,9 @@ const RouteForm: React.FC<RouteFormProps> = ({ route, onSave, onCancel }) => {
         startMile: undefined,
         endMile: undefined,
         status: 'scheduled',
-        description: undefined,
+        notes: undefined,
         incomes: [],
+        expenses: [],
     });
     const [workTypeConfigs, setWorkTypeConfigs] = useState<WorkTypeConfig[]>([]);
     const [loading, setLoading] = useState(false);
@@ -96,6 +112,8 @@ const RouteForm: React.FC<RouteFormProps> = ({ route, onSave, onCancel }) => {
     const [error, setError] = useState<string | null>(null);
     const [newIncomeSource, setNewIncomeSource] = useState('');
     const [newIncomeAmount, setNewIncomeAmount] = useState<number | ''>('');
+    const [newExpenseCategory, setNewExpenseCategory] = useState<ExpenseCategory>('fuel');
+    const [newExpenseAmount, setNewExpenseAmount] = useState<number | ''>('');
     const [initialFormData, setInitialFormData] = useState<RouteFormData | null>(null);
     const modalRef = useRef<HTMLDivElement>(null);
 
@@ -116,14 +134,34 @@ const RouteForm: React.FC<RouteFormProps> = ({ route, onSave, onCancel }) => {
                 startMile: route.startMile,
                 endMile: route.endMile,
                 status: route.status,
-                description: undefined, // Not in the route model
+                notes: route.notes,
                 incomes: route.incomes || [],
             };
-            setFormData(editFormData);
-            setInitialFormData(editFormData);
+            // Expenses are loaded separately below, so keep whatever has arrived
+            setFormData(prev => ({ ...editFormData, expenses: prev.expenses }));
+            setInitialFormData(prev => ({ ...editFormData, expenses: prev?.expenses ?? [] }));
         }
     }, [route, formatForDateTimeInput]);
 
+    // Expenses live in their own collection, so load them separately when editing
+    useEffect(() => {
+        if (!route?.id || isOfflineId(route.id)) return;
+
+        let cancelled = false;
+        getExpensesByRouteId(route.id)
+            .then(expenses => {
+                if (cancelled) return;
+                const items = expenses.map(expense => ({ id: expense.id, category: expense.category, amount: expense.amount }));
+                setFormData(prev => ({ ...prev, expenses: items }));
+                setInitialFormData(prev => prev ? { ...prev, expenses: items } : prev);
+            })
+            .catch(err => console.error('Error loading route expenses:', err));
+
+        return () => {
+            cancelled = true;
+        };
+    }, [route?.id]);
+
     // Set initial form data for new routes - only run once when component mounts
     useEffect(() => {
         if (!route && !initialFormData) {
@@ -139,8 +177,9 @@ const RouteForm: React.FC<RouteFormProps> = ({ route, onSave, onCancel }) => {
                 startMile: undefined,
                 endMile: undefined,
                 status: 'scheduled' as const,
-                description: undefined,
+                notes: undefined,
                 incomes: [],
+                expenses: [],
             };
             setFormData(newRouteFormData);
             setInitialFormData(newRouteFormData);
@@ -155,7 +194,7 @@ const RouteForm: React.FC<RouteFormProps> = ({ route, onSave, onCancel }) => {
         const fieldsToCompare: (keyof RouteFormData)[] = [
             'workType', 'workTypeId', 'scheduleStart', 'scheduleEnd', 
             'actualStartTime', 'actualEndTime', 'estimatedIncome', 
-            'startMile', 'endMile', 'status', 'description'
+            'startMile', 'endMile', 'status', 'notes'
         ];
         
         for (const field of fieldsToCompare) {
@@ -175,6 +214,18 @@ const RouteForm: React.FC<RouteFormProps> = ({ route, onSave, onCancel }) => {
                 return true;
             }
         }
+
+        // Compare expenses array
+        if (formData.expenses.length !== initialFormData.expenses.length) {
+            return true;
+        }
+
+        for (let i = 0; i < formData.expenses.length; i++) {
+            if (formData.expenses[i].category !== initialFormData.expenses[i].category ||
+                formData.expenses[i].amount !== initialFormData.expenses[i].amount) {
+                return true;
+            }
+        }
         
         return false;
     };
@@ -249,6 +300,12 @@ const RouteForm: React.FC<RouteFormProps> = ({ route, onSave, onCancel }) => {
             return;
         }
 
+        if (newExpenseAmount !== '') {
+            setError(t('expenses.validation.unsavedExpense'));
+            setLoading(false);
+            return;
+        }
+
         try {
             // Calculate total income from incomes array
             const totalIncome = formData.incomes.reduce((sum, item) => sum + item.amount, 0);
@@ -266,30 +323,22 @@ const RouteForm: React.FC<RouteFormProps> = ({ route, onSave, onCancel }) => {
                 startMile: formData.startMile,
                 endMile: formData.endMile,
                 status: formData.status,
+                // An empty string clears notes on an existing route
+                notes: formData.notes ?? '',
                 incomes: formData.incomes,
             };
 
-            let result;
-            if (route) {
-                // Update existing route
-                result = await updateRoute(route.id!, requestData);
-            } else {
-                // Create new route
-                result = await createRoute(requestData);
-            }
+            // The cached variants return the route with Date fields and update every page showing it
+            const result = route
+                ? await updateCachedRoute(route.id!, requestData)
+                : await createCachedRoute(requestData);
 
-            // Convert dates from strings to Date objects to match Route interface
-            const routeWithDates = {
-                ...result,
-                scheduleStart: new Date(result.scheduleStart),
-                scheduleEnd: new Date(result.scheduleEnd),
-                actualStartTime: result.actualStartTime ? new Date(result.actualStartTime) : undefined,
-                actualEndTime: result.actualEndTime ? new Date(result.actualEndTime) : undefined,
-                createdAt: new Date(result.createdAt),
-                updatedAt: new Date(result.updatedAt)
-            } as Route;
-
-            onSave(routeWithDates);
+            // Expenses for a queued route are queued behind it and linked to it once it reaches the server
+            await saveExpenses(result.id, formData.actualEndTime || formData.scheduleStart);
+            // Expenses feed the dashboard's net figures
+            invalidateRouteQueries();
+
+            onSave(result);
         } catch (err) {
             console.error('Error saving route:', err);
             setError(err instanceof Error ? err.message : 'Failed to save route');
@@ -298,6 +347,30 @@ const RouteForm: React.FC<RouteFormProps> = ({ route, onSave, onCancel }) => {
         }
     };
 
+    // Create, update and delete expenses so the server matches the form
+    const saveExpenses = async (routeId: string, dateInput: string) => {
+        const date = createDateInTimezone(dateInput, timezone).toISOString();
+        const initialExpenses = initialFormData?.expenses ?? [];
+        const keptIds = new Set(formData.expenses.map(expense => expense.id).filter(Boolean));
+
+        for (const expense of initialExpenses) {
+            if (expense.id && !keptIds.has(expense.id)) {
+                await deleteExpense(expense.id);
+            }
+        }
+
+        for (const expense of formData.expenses) {
+            if (!expense.id) {
+                await createExpense({ routeId, category: expense.category, amount: expense.amount, date });
+                continue;
+            }
+            const initial = initialExpenses.find(item => item.id === expense.id);
+            if (!initial || initial.category !== expense.category || initial.amount !== expense.amount) {
+                await updateExpense(expense.id, { category: expense.category, amount: expense.amount });
+            }
+        }
+    };
+
     // State to track if the checkbox is checked
     const [isSameAsSchedule, setIsSameAsSchedule] = useState(true);
 
@@ -375,8 +448,35 @@ const RouteForm: React.FC<RouteFormProps> = ({ route, onSave, onCancel }) => {
     };
 
 
+    const addExpenseItem = () => {
+        if (newExpenseAmount !== '' && newExpenseAmount > 0) {
+            setFormData(prev => ({
+                ...prev,
+                expenses: [...prev.expenses, { category: newExpenseCategory, amount: Number(newExpenseAmount) }]
+            }));
+            setNewExpenseAmount('');
+        }
+    };
+
+    const removeExpenseItem = (index: number) => {
+        setFormData(prev => ({
+            ...prev,
+            expenses: prev.expenses.filter((_, i) => i !== index)
+        }));
+    };
+
+    const updateExpenseItem = (index: number, field: 'category' | 'amount', value: string | number) => {
+        setFormData(prev => ({
+            ...prev,
+            expenses: prev.expenses.map((item, i) =>
+                i === index ? { ...item, [field]: value } : item
+            )
+        }));
+    };
+
     const isEdit = !!route;
     const totalEstimatedIncome = formData.incomes.reduce((sum, item) => sum + item.amount, 0);
+    const totalExpenses = sumExpenses(formData.expenses);
 
     return (
         <div>
@@ -631,22 +731,20 @@ const RouteForm: React.FC<RouteFormProps> = ({ route, onSave, onCancel }) => {
                                     </div>
                                 </div>
 
-                                {/* Description */}
-                                {!isEdit && (
-                                    <div>
-                                        <label htmlFor="description" className="block text-sm font-medium text-gray-700">
-                                            {t('routes.crud.create.description')}
-                                        </label>
-                                        <textarea
-                                            id="description"
-                                            name="description"
-                                            rows={3}
-                                            value={formData.description || ''}
-                                            onChange={handleInputChange}
-                                            className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
-                                        />
-                                    </div>
-                                )}
+                                {/* Notes - searchable from the route list */}
+                                <div>
+                                    <label htmlFor="notes" className="block text-sm font-medium text-gray-700">
+                                        {t('routes.crud.create.notes')}
+                                    </label>
+                                    <textarea
+                                        id="notes"
+                                        name="notes"
+                                        rows={3}
+                                        value={formData.notes || ''}
+                                        onChange={handleInputChange}
+                                        className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                                    />
+                                </div>
                             </div>
                         </div>
 
@@ -719,6 +817,81 @@ const RouteForm: React.FC<RouteFormProps> = ({ route, onSave, onCancel }) => {
                             )}
                         </div>
 
+                        {/* Expenses Section - spans full width */}
+                        <div className="mt-6">
+                            <label className="block text-sm font-medium text-gray-700 mb-3">
+                                {t('expenses.title')}
+                            </label>
+
+                            {/* Add New Expense Item */}
+                            <div className="flex gap-2 mb-3">
+                                <select
+                                    value={newExpenseCategory}
+                                    onChange={(e) => setNewExpenseCategory(e.target.value as ExpenseCategory)}
+                                    className="flex-1 px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                                >
+                                    {EXPENSE_CATEGORIES.map(category => (
+                                        <option key={category} value={category}>{t(`expenses.categories.${category}`)}</option>
+                                    ))}
+                                </select>
+                                <input
+                                    type="number"
+                                    placeholder={t('routes.crud.create.amountPlaceholder')}
+                                    step="0.01"
+                                    min="0"
+                                    value={newExpenseAmount}
+                                    onChange={(e) => setNewExpenseAmount(e.target.value === '' ? '' : Number(e.target.value))}
+                                    className="w-24 px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                                />
+                                <button
+                                    type="button"
+                                    onClick={addExpenseItem}
+                                    disabled={newExpenseAmount === '' || newExpenseAmount <= 0}
+                                    className="bg-blue-600 hover:bg-blue-700 disabled:bg-blue-400 text-white px-3 py-2 rounded-md text-sm font-medium"
+                                >
+                                    +
+                                </button>
+                            </div>
+
+                            {/* Existing Expense Items */}
+                            {formData.expenses.length > 0 && (
+                                <div className="space-y-2">
+                                    {formData.expenses.map((expense, index) => (
+                                        <div key={expense.id ?? `new-${index}`} className="flex gap-2 items-center">
+                                            <select
+                                                value={expense.category}
+                                                onChange={(e) => updateExpenseItem(index, 'category', e.target.value)}
+                                                className="flex-1 px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                                            >
+                                                {EXPENSE_CATEGORIES.map(category => (
+                                                    <option key={category} value={category}>{t(`expenses.categories.${category}`)}</option>
+                                                ))}
+                                            </select>
+                                            <input
+                                                type="number"
+                                                value={expense.amount}
+                                                onChange={(e) => updateExpenseItem(index, 'amount', Number(e.target.value))}
+                                                step="0.01"
+                                                min="0"
+                                                className="w-24 px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                                            />
+                                            <button
+                                                type="button"
+                                                onClick={() => removeExpenseItem(index)}
+                                                className="bg-red-600 hover:bg-red-700 text-white px-2 py-2 rounded-md text-sm"
+                                            >
+                                                ×
+                                            </button>
+                                        </div>
+                                    ))}
+                                    <div className="text-right text-sm text-gray-600 space-y-1">
+                                        <div className="font-medium">{t('expenses.totalExpenses')}: {formatCurrency(totalExpenses)}</div>
+                                        <div className="font-medium">{t('expenses.netIncome')}: {formatCurrency(totalEstimatedIncome - totalExpenses)}</div>
+                                    </div>
+                                </div>
+                            )}
+                        </div>
+
                         <div className="flex justify-end space-x-3 pt-4">
                             <button
                                 type="button"
@@ -0,0 +1,449 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { useTranslation } from 'react-i18next';
+import { useSettings } from '../../contexts/SettingsContext';
+import { getActiveWorkTypeConfigs, createRoute } from '../../utils/api';
+import { invalidateRouteQueries } from '../../utils/routeQueries';
+import {
+  parseCsv,
+  autoDetectMapping,
+  validateImportRows,
+  type ColumnMapping,
+  type CsvRow,
+  type ImportIssue,
+  type RouteImportField,
+} from '../../utils/routeImport';
+import { formatExportDateTime } from '../../utils/routeExport';
+import type { Route, WorkTypeConfig } from '../../types';
+
+interface RouteImportWizardProps {
+  onComplete: (createdRoutes: Route[]) => void;
+  onCancel: () => void;
+}
+
+type WizardStep = 'upload' | 'mapping' | 'preview' | 'result';
+
+const STEPS: WizardStep[] = ['upload', 'mapping', 'preview', 'result'];
+
+const FIELD_OPTIONS: RouteImportField[] = [
+  'ignore',
+  'scheduleStart',
+  'scheduleEnd',
+  'workType',
+  'startMile',
+  'endMile',
+  'estimatedIncome',
+  'income',
+];
+
+interface ImportFailure {
+  rowNumber: number;
+  message: string;
+}
+
+const RouteImportWizard: React.FC<RouteImportWizardProps> = ({ onComplete, onCancel }) => {
+  const { t } = useTranslation();
+  const { settings, formatCurrency } = useSettings();
+  const [step, setStep] = useState<WizardStep>('upload');
+  const [workTypes, setWorkTypes] = useState<WorkTypeConfig[]>([]);
+  const [defaultWorkTypeId, setDefaultWorkTypeId] = useState('');
+  const [fileName, setFileName] = useState('');
+  const [headers, setHeaders] = useState<string[]>([]);
+  const [dataRows, setDataRows] = useState<CsvRow[]>([]);
+  const [mapping, setMapping] = useState<ColumnMapping[]>([]);
+  const [showErrorsOnly, setShowErrorsOnly] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [importing, setImporting] = useState(false);
+  const [progress, setProgress] = useState(0);
+  const [createdRoutes, setCreatedRoutes] = useState<Route[]>([]);
+  const [failures, setFailures] = useState<ImportFailure[]>([]);
+
+  useEffect(() => {
+    const fetchWorkTypes = async () => {
+      try {
+        setWorkTypes(await getActiveWorkTypeConfigs());
+      } catch (err) {
+        console.error('Failed to fetch work types:', err);
+      }
+    };
+    fetchWorkTypes();
+  }, []);
+
+  const results = useMemo(() => {
+    if (step !== 'preview' && step !== 'result') return [];
+    return validateImportRows(dataRows, mapping, {
+      workTypes,
+      defaultWorkTypeId: defaultWorkTypeId || undefined,
+      timeZone: settings.timeZone,
+      dateFormat: settings.dateFormat,
+      mileageUnit: settings.mileageUnit,
+    });
+  }, [step, dataRows, mapping, workTypes, defaultWorkTypeId, settings.timeZone, settings.dateFormat, settings.mileageUnit]);
+
+  const validResults = results.filter(result => result.route);
+  const visibleResults = showErrorsOnly ? results.filter(result => result.errors.length > 0) : results;
+  const hasRequiredMapping = ['scheduleStart', 'scheduleEnd'].every(field =>
+    mapping.some(column => column.field === field)
+  );
+
+  const formatIssue = (issue: ImportIssue) => t(`routes.import.errors.${issue.key}`, issue.params);
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    setError(null);
+    try {
+      const rows = parseCsv(await file.text());
+      if (rows.length < 2) {
+        setError(t('routes.import.upload.emptyFile'));
+        return;
+      }
+
+      setFileName(file.name);
+      setHeaders(rows[0].values);
+      setDataRows(rows.slice(1));
+      setMapping(autoDetectMapping(rows[0].values, workTypes));
+    } catch (err) {
+      console.error('Error reading import file:', err);
+      setError(t('routes.import.upload.readError'));
+    }
+  };
+
+  const updateMapping = (index: number, changes: Partial<ColumnMapping>) => {
+    setMapping(prev => prev.map((column, i) => {
+      if (i !== index) return column;
+      const updated = { ...column, ...changes };
+      if (updated.field === 'income' && !updated.incomeSource) {
+        updated.incomeSource = headers[index].replace(/\s*\([^)]*\)\s*$/, '').trim();
+      }
+      return updated;
+    }));
+  };
+
+  const handleImport = async () => {
+    setStep('result');
+    setImporting(true);
+    setProgress(0);
+
+    const created: Route[] = [];
+    const failed: ImportFailure[] = [];
+
+    // Create sequentially so routes keep their CSV order and the API isn't flooded
+    for (const result of validResults) {
+      try {
+        created.push(await createRoute(result.route!));
+      } catch (err) {
+        console.error(`Error importing row ${result.rowNumber}:`, err);
+        failed.push({
+          rowNumber: result.rowNumber,
+          message: err instanceof Error ? err.message : 'Failed to save route',
+        });
+      }
+      setProgress(prev => prev + 1);
+    }
+
+    // Refresh cached lists once at the end rather than after every row
+    if (created.length > 0) {
+      invalidateRouteQueries();
+    }
+    setCreatedRoutes(created);
+    setFailures(failed);
+    setImporting(false);
+  };
+
+  const handleClose = () => {
+    if (createdRoutes.length > 0) {
+      onComplete(createdRoutes);
+    } else {
+      onCancel();
+    }
+  };
+
+  const renderUploadStep = () => (
+    <div className="space-y-4">
+      <p className="text-sm text-gray-600">{t('routes.import.upload.description')}</p>
+
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-1">
+          {t('routes.import.upload.chooseFile')}
+        </label>
+        <input
+          type="file"
+          accept=".csv,text/csv"
+          onChange={handleFileChange}
+          className="block w-full text-sm text-gray-700 file:mr-4 file:py-2 file:px-4 file:rounded-md file:border-0 file:text-sm file:font-medium file:bg-blue-50 file:text-blue-700 hover:file:bg-blue-100"
+        />
+        {fileName && (
+          <p className="mt-1 text-xs text-gray-500">{fileName} · {dataRows.length}</p>
+        )}
+      </div>
+
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-1">
+          {t('routes.import.upload.defaultWorkType')}
+        </label>
+        <select
+          value={defaultWorkTypeId}
+          onChange={(e) => setDefaultWorkTypeId(e.target.value)}
+          className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 bg-white text-sm"
+        >
+          <option value="">{t('routes.import.upload.none')}</option>
+          {workTypes.map(workType => (
+            <option key={workType.id} value={workType.id}>{workType.name}</option>
+          ))}
+        </select>
+        <p className="mt-1 text-xs text-gray-500">{t('routes.import.upload.defaultWorkTypeHelp')}</p>
+      </div>
+    </div>
+  );
+
+  const renderMappingStep = () => (
+    <div className="space-y-4">
+      <p className="text-sm text-gray-600">{t('routes.import.mapping.description')}</p>
+      <div className="overflow-x-auto">
+        <table className="min-w-full divide-y divide-gray-200 text-sm">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-3 py-2 text-left font-medium text-gray-700">{t('routes.import.mapping.column')}</th>
+              <th className="px-3 py-2 text-left font-medium text-gray-700">{t('routes.import.mapping.sample')}</th>
+              <th className="px-3 py-2 text-left font-medium text-gray-700">{t('routes.import.mapping.field')}</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-100">
+            {headers.map((header, index) => (
+              <tr key={index}>
+                <td className="px-3 py-2 font-medium text-gray-900">{header}</td>
+                <td className="px-3 py-2 text-gray-500 truncate max-w-xs">{dataRows[0]?.values[index]}</td>
+                <td className="px-3 py-2 space-y-2">
+                  <select
+                    value={mapping[index]?.field ?? 'ignore'}
+                    onChange={(e) => updateMapping(index, { field: e.target.value as RouteImportField })}
+                    className="w-full px-2 py-1 border border-gray-300 rounded-md bg-white text-sm"
+                  >
+                    {FIELD_OPTIONS.map(field => (
+                      <option key={field} value={field}>{t(`routes.import.mapping.fields.${field}`)}</option>
+                    ))}
+                  </select>
+                  {mapping[index]?.field === 'income' && (
+                    <input
+                      type="text"
+                      value={mapping[index].incomeSource ?? ''}
+                      onChange={(e) => updateMapping(index, { incomeSource: e.target.value })}
+                      placeholder={t('routes.import.mapping.incomeSource')}
+                      className="w-full px-2 py-1 border border-gray-300 rounded-md text-sm"
+                    />
+                  )}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      {!hasRequiredMapping && (
+        <p className="text-sm text-red-600">{t('routes.import.mapping.missingRequired')}</p>
+      )}
+    </div>
+  );
+
+  const renderPreviewStep = () => (
+    <div className="space-y-4">
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2">
+        <p className="text-sm text-gray-700">
+          {t('routes.import.preview.summary', { valid: validResults.length, total: results.length })}
+        </p>
+        <label className="flex items-center space-x-2 text-sm text-gray-600">
+          <input
+            type="checkbox"
+            checked={showErrorsOnly}
+            onChange={(e) => setShowErrorsOnly(e.target.checked)}
+            className="rounded border-gray-300"
+          />
+          <span>{t('routes.import.preview.showErrorsOnly')}</span>
+        </label>
+      </div>
+      <div className="overflow-x-auto max-h-96 overflow-y-auto border rounded-md">
+        <table className="min-w-full divide-y divide-gray-200 text-sm">
+          <thead className="bg-gray-50 sticky top-0">
+            <tr>
+              <th className="px-3 py-2 text-left font-medium text-gray-700">{t('routes.import.preview.row')}</th>
+              <th className="px-3 py-2 text-left font-medium text-gray-700">{t('routes.import.preview.status')}</th>
+              <th className="px-3 py-2 text-left font-medium text-gray-700">{t('routes.import.mapping.fields.workType')}</th>
+              <th className="px-3 py-2 text-left font-medium text-gray-700">{t('routes.import.mapping.fields.scheduleStart')}</th>
+              <th className="px-3 py-2 text-right font-medium text-gray-700">{t('routes.details.totalIncome')}</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-100">
+            {visibleResults.map(result => (
+              <tr key={result.rowNumber} className={result.errors.length > 0 ? 'bg-red-50' : undefined}>
+                <td className="px-3 py-2 text-gray-500">{result.rowNumber}</td>
+                <td className="px-3 py-2">
+                  {result.errors.length === 0 ? (
+                    <span className="inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-green-100 text-green-800">
+                      {t('routes.import.preview.valid')}
+                    </span>
+                  ) : (
+                    <div>
+                      <span className="inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-red-100 text-red-800">
+                        {t('routes.import.preview.invalid')}
+                      </span>
+                      <ul className="mt-1 text-xs text-red-700 list-disc list-inside">
+                        {result.errors.map((issue, index) => (
+                          <li key={index}>{formatIssue(issue)}</li>
+                        ))}
+                      </ul>
+                    </div>
+                  )}
+                </td>
+                <td className="px-3 py-2 text-gray-900">{result.route?.workType}</td>
+                <td className="px-3 py-2 text-gray-900">
+                  {result.route?.scheduleStart && formatExportDateTime(result.route.scheduleStart, settings.timeZone)}
+                </td>
+                <td className="px-3 py-2 text-right text-green-600">
+                  {result.route && formatCurrency(result.route.totalIncome || 0)}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+
+  const renderResultStep = () => (
+    <div className="space-y-4">
+      {importing ? (
+        <div className="flex items-center space-x-3">
+          <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-blue-600"></div>
+          <p className="text-sm text-gray-700">
+            {t('routes.import.result.importing', { done: progress, total: validResults.length })}
+          </p>
+        </div>
+      ) : (
+        <>
+          <p className="text-sm text-gray-700">
+            {t('routes.import.result.summary', { created: createdRoutes.length, failed: failures.length })}
+          </p>
+          {failures.length > 0 && (
+            <ul className="text-sm text-red-700 list-disc list-inside max-h-60 overflow-y-auto">
+              {failures.map(failure => (
+                <li key={failure.rowNumber}>
+                  {t('routes.import.result.rowFailed', { row: failure.rowNumber, message: failure.message })}
+                </li>
+              ))}
+            </ul>
+          )}
+        </>
+      )}
+    </div>
+  );
+
+  const currentStepIndex = STEPS.indexOf(step);
+
+  return (
+    <div className="fixed inset-0 bg-gray-600 bg-opacity-50 overflow-y-auto h-full w-full z-50">
+      <div className="relative top-10 mx-auto p-5 border w-full max-w-4xl shadow-lg rounded-md bg-white mb-10">
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-lg font-medium text-gray-900">{t('routes.import.title')}</h3>
+          {!importing && (
+            <button onClick={handleClose} className="text-gray-400 hover:text-gray-600">
+              <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+              </svg>
+            </button>
+          )}
+        </div>
+
+        {/* Step indicator */}
+        <ol className="flex items-center space-x-2 mb-6 text-xs">
+          {STEPS.map((item, index) => (
+            <li key={item} className="flex items-center space-x-2">
+              <span className={`inline-flex items-center justify-center w-6 h-6 rounded-full font-medium ${
+                index <= currentStepIndex ? 'bg-blue-600 text-white' : 'bg-gray-200 text-gray-600'
+              }`}>
+                {index + 1}
+              </span>
+              <span className={index === currentStepIndex ? 'font-medium text-gray-900' : 'text-gray-500'}>
+                {t(`routes.import.steps.${item}`)}
+              </span>
+              {index < STEPS.length - 1 && <span className="text-gray-300">›</span>}
+            </li>
+          ))}
+        </ol>
+
+        {error && (
+          <div className="mb-4 bg-red-50 border border-red-200 rounded-md p-3 text-sm text-red-700">{error}</div>
+        )}
+
+        {step === 'upload' && renderUploadStep()}
+        {step === 'mapping' && renderMappingStep()}
+        {step === 'preview' && renderPreviewStep()}
+        {step === 'result' && renderResultStep()}
+
+        {/* Navigation */}
+        <div className="flex justify-end space-x-3 mt-6">
+          {step === 'upload' && (
+            <>
+              <button
+                onClick={onCancel}
+                className="bg-gray-300 hover:bg-gray-400 text-gray-800 px-4 py-2 rounded-md text-sm font-medium"
+              >
+                {t('routes.import.actions.cancel')}
+              </button>
+              <button
+                onClick={() => setStep('mapping')}
+                disabled={dataRows.length === 0}
+                className="bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded-md text-sm font-medium disabled:opacity-50"
+              >
+                {t('routes.import.actions.next')}
+              </button>
+            </>
+          )}
+          {step === 'mapping' && (
+            <>
+              <button
+                onClick={() => setStep('upload')}
+                className="bg-gray-300 hover:bg-gray-400 text-gray-800 px-4 py-2 rounded-md text-sm font-medium"
+              >
+                {t('routes.import.actions.back')}
+              </button>
+              <button
+                onClick={() => setStep('preview')}
+                disabled={!hasRequiredMapping}
+                className="bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded-md text-sm font-medium disabled:opacity-50"
+              >
+                {t('routes.import.actions.next')}
+              </button>
+            </>
+          )}
+          {step === 'preview' && (
+            <>
+              <button
+                onClick={() => setStep('mapping')}
+                className="bg-gray-300 hover:bg-gray-400 text-gray-800 px-4 py-2 rounded-md text-sm font-medium"
+              >
+                {t('routes.import.actions.back')}
+              </button>
+              <button
+                onClick={handleImport}
+                disabled={validResults.length === 0}
+                className="bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded-md text-sm font-medium disabled:opacity-50"
+              >
+                {t('routes.import.actions.import', { count: validResults.length })}
+              </button>
+            </>
+          )}
+          {step === 'result' && !importing && (
+            <button
+              onClick={handleClose}
+              className="bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded-md text-sm font-medium"
+            >
+              {t('routes.import.actions.close')}
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default RouteImportWizard;
@@ -1,48 +1,22 @@
-import React, { useState, useEffect, useCallback } from 'react';
+import React from 'react';
 import { useNavigate } from 'react-router-dom';
 import { useSettings } from '../../contexts/SettingsContext';
 import { useLanguage } from '../../contexts/LanguageContext';
 import type { Route } from '../../types';
 import { getDisplayDistance } from '../../utils/distance';
-import { getRoutes } from '../../utils/api';
+import { useQuery } from '../../hooks/useQuery';
+import { fetchRouteList, routeKeys } from '../../utils/routeQueries';
+
+const NO_ROUTES: Route[] = [];
 
 const RouteList: React.FC = () => {
   const navigate = useNavigate();
   const { formatCurrency, settings } = useSettings();
   const { t } = useLanguage();
-  const [routes, setRoutes] = useState<Route[]>([]);
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
-
-  const loadRoutes = useCallback(async () => {
-    try {
-      setLoading(true);
-      setError(null);
-      
-      // Fetch routes from API
-      const routesData = await getRoutes();
-      
-      // Convert date strings to Date objects if needed
-      const processedRoutes: Route[] = routesData.map(route => ({
-        ...route,
-        scheduleStart: new Date(route.scheduleStart),
-        scheduleEnd: new Date(route.scheduleEnd),
-        actualStartTime: route.actualStartTime ? new Date(route.actualStartTime) : undefined,
-        actualEndTime: route.actualEndTime ? new Date(route.actualEndTime) : undefined,
-      }));
-      
-      setRoutes(processedRoutes);
-    } catch (err) {
-      setError(t('routes.list.error.message'));
-      console.error('Error loading routes:', err);
-    } finally {
-      setLoading(false);
-    }
-  }, [t]);
-
-  useEffect(() => {
-    loadRoutes();
-  }, [loadRoutes]);
+  const { data, error: loadError, isLoading: loading, refetch } = useQuery(routeKeys.list(), () => fetchRouteList());
+  const routes = data ?? NO_ROUTES;
+  // A failed background refresh keeps showing the cached routes
+  const error = loadError && !data ? t('routes.list.error.message') : null;
 
   const getStatusColor = (status: string = 'unknown') => {
     switch (status.toLowerCase()) {
@@ -105,7 +79,7 @@ const RouteList: React.FC = () => {
         <h2 className="text-xl font-semibold text-gray-900 mb-2">{t('routes.list.error.title')}</h2>
         <p className="text-gray-600 mb-4">{error}</p>
         <button
-          onClick={loadRoutes}
+          onClick={() => refetch()}
           className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors"
         >
           {t('common.retry')}
@@ -4,7 +4,10 @@ import { useLanguage } from '../../contexts/LanguageContext';
 import WorkTypeConfigSection from '../Settings/WorkTypeConfig';
 import ApiKeyGenerator from '../Settings/ApiKeyGenerator';
 import JwtApiTokenGenerator from '../Settings/JwtApiTokenGenerator';
-import type { UserSettings } from '../../types';
+import EarningsGoalsSection from '../Settings/EarningsGoals';
+import VehicleCostsSection from '../Settings/VehicleCosts';
+import RecurringSchedulesSection from '../Settings/RecurringSchedules';
+import type { EarningsGoal, UserSettings, VehicleCostModel } from '../../types';
 
 const Settings: React.FC = () => {
   const { settings, updateSettings } = useSettings();
@@ -88,6 +91,17 @@ const Settings: React.FC = () => {
     debouncedSave(newFormData);
   };
 
+  const handleGoalsChange = (earningsGoals: EarningsGoal[]) => {
+    const newFormData = { ...formData, earningsGoals };
+    setFormData(newFormData);
+    debouncedSave(newFormData);
+  };
+
+  const handleVehicleCostsChange = (vehicleCosts: VehicleCostModel) => {
+    const newFormData = { ...formData, vehicleCosts };
+    setFormData(newFormData);
+    debouncedSave(newFormData);
+  };
 
   const handleReset = () => {
     const defaultSettings: UserSettings = {
@@ -372,6 +386,12 @@ const Settings: React.FC = () => {
                 </div>
               </div>
 
+              {/* Earnings Goals */}
+              <EarningsGoalsSection goals={formData.earningsGoals ?? []} onChange={handleGoalsChange} />
+
+              {/* Vehicle Costs */}
+              <VehicleCostsSection model={formData.vehicleCosts} onChange={handleVehicleCostsChange} />
+
               {/* API Access Section */}
               <div>
                 <h2 className="text-xl font-semibold text-gray-900 mb-6">{t('settings.apiAccess.title', 'API Access')}</h2>
@@ -397,6 +417,11 @@ const Settings: React.FC = () => {
               <div>
                 <WorkTypeConfigSection />
               </div>
+
+              {/* Recurring Shift Schedules Section */}
+              <div>
+                <RecurringSchedulesSection />
+              </div>
             </div>
 
 
@@ -0,0 +1,258 @@
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import { Link } from 'react-router-dom';
+import { useSettings } from '../../contexts/SettingsContext';
+import { useLanguage } from '../../contexts/LanguageContext';
+import { getExpenses, getRoutesByDateRange } from '../../utils/api';
+import { getCurrentFiscalYear, getFiscalYearRange, formatFiscalYearLabel } from '../../utils/fiscalYear';
+import { buildTaxSummary, type TaxSummaryLine } from '../../utils/taxSummary';
+import type { Expense, Route } from '../../types';
+
+const YEARS_TO_SHOW = 6;
+
+// Local calendar date as YYYY-MM-DD, which the date-range endpoint treats inclusively
+const toDateParam = (date: Date): string =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+const TaxSummary: React.FC = () => {
+  const { settings, formatCurrency } = useSettings();
+  const { t } = useLanguage();
+  const fiscalStartDate = settings.fiscalYearStartDate || '04-06';
+  const currentFiscalYear = getCurrentFiscalYear(fiscalStartDate).fiscalYear;
+  const [selectedYear, setSelectedYear] = useState(currentFiscalYear);
+  const [routes, setRoutes] = useState<Route[]>([]);
+  const [expenses, setExpenses] = useState<Expense[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const yearRange = useMemo(
+    () => getFiscalYearRange(selectedYear, fiscalStartDate),
+    [selectedYear, fiscalStartDate]
+  );
+
+  const loadRoutes = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      const startDate = toDateParam(yearRange.startDate);
+      const endDate = toDateParam(yearRange.endDate);
+      const [routeData, expenseData] = await Promise.all([
+        getRoutesByDateRange(startDate, endDate),
+        getExpenses(startDate, endDate),
+      ]);
+      setRoutes(routeData);
+      setExpenses(expenseData);
+    } catch (err) {
+      console.error('Error loading tax summary routes:', err);
+      setError(t('taxSummary.error'));
+    } finally {
+      setLoading(false);
+    }
+  }, [yearRange, t]);
+
+  useEffect(() => {
+    loadRoutes();
+  }, [loadRoutes]);
+
+  const summary = useMemo(() => buildTaxSummary(routes, expenses), [routes, expenses]);
+
+  const formatLongDate = (date: Date) =>
+    date.toLocaleDateString(settings.language, { day: 'numeric', month: 'long', year: 'numeric' });
+
+  const formatMiles = (miles: number) =>
+    miles.toLocaleString(settings.language, { maximumFractionDigits: 1 });
+
+  const formatGbp = (amount: number) =>
+    new Intl.NumberFormat(settings.language, { style: 'currency', currency: 'GBP' }).format(amount);
+
+  const renderBreakdownTable = (title: string, lines: TaxSummaryLine[], showMiles: boolean) => (
+    <div className="bg-white rounded-lg shadow p-6 print:shadow-none print:border print:break-inside-avoid">
+      <h2 className="text-lg font-semibold text-gray-900 mb-4">{title}</h2>
+      <table className="min-w-full text-sm">
+        <thead>
+          <tr className="border-b text-gray-600">
+            <th className="py-2 text-left font-medium">{t('taxSummary.columns.name')}</th>
+            <th className="py-2 text-right font-medium">{t('taxSummary.columns.routes')}</th>
+            {showMiles && <th className="py-2 text-right font-medium">{t('taxSummary.columns.miles')}</th>}
+            <th className="py-2 text-right font-medium">{t('taxSummary.columns.share')}</th>
+            <th className="py-2 text-right font-medium">{t('taxSummary.columns.income')}</th>
+          </tr>
+        </thead>
+        <tbody>
+          {lines.map(line => (
+            <tr key={line.name} className="border-b last:border-b-0">
+              <td className="py-2 text-gray-900">{line.name}</td>
+              <td className="py-2 text-right text-gray-700">{line.routes}</td>
+              {showMiles && <td className="py-2 text-right text-gray-700">{formatMiles(line.miles)}</td>}
+              <td className="py-2 text-right text-gray-700">
+                {summary.grossIncome > 0 ? `${((line.income / summary.grossIncome) * 100).toFixed(1)}%` : '-'}
+              </td>
+              <td className="py-2 text-right font-medium">{formatCurrency(line.income)}</td>
+            </tr>
+          ))}
+        </tbody>
+        <tfoot>
+          <tr className="border-t-2 font-semibold">
+            <td className="py-2 text-gray-900">{t('routes.details.total')}</td>
+            <td className="py-2 text-right">{summary.totalRoutes}</td>
+            {showMiles && <td className="py-2 text-right">{formatMiles(summary.mileageAllowance.totalMiles)}</td>}
+            <td className="py-2 text-right">{summary.grossIncome > 0 ? '100%' : '-'}</td>
+            <td className="py-2 text-right text-green-600">{formatCurrency(summary.grossIncome)}</td>
+          </tr>
+        </tfoot>
+      </table>
+    </div>
+  );
+
+  const { mileageAllowance } = summary;
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="bg-white rounded-lg shadow p-6 print:shadow-none print:p-0">
+        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900">
+              {t('taxSummary.title')} {formatFiscalYearLabel(selectedYear, fiscalStartDate)}
+            </h1>
+            <p className="text-gray-600 mt-1">
+              {t('taxSummary.period', { start: formatLongDate(yearRange.startDate), end: formatLongDate(yearRange.endDate) })}
+            </p>
+            <p className="text-sm text-gray-500 mt-1 print:hidden">{t('taxSummary.subtitle')}</p>
+          </div>
+          <div className="flex items-center space-x-2 print:hidden">
+            <label className="text-sm font-medium text-gray-700">{t('taxSummary.fiscalYear')}</label>
+            <select
+              value={selectedYear}
+              onChange={(e) => setSelectedYear(Number(e.target.value))}
+              className="px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 bg-white text-sm"
+            >
+              {Array.from({ length: YEARS_TO_SHOW }, (_, i) => currentFiscalYear - i).map(year => (
+                <option key={year} value={year}>{formatFiscalYearLabel(year, fiscalStartDate)}</option>
+              ))}
+            </select>
+            <button
+              onClick={() => window.print()}
+              disabled={loading || summary.totalRoutes === 0}
+              className="bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded-md text-sm font-medium disabled:opacity-50"
+            >
+              {t('taxSummary.print')}
+            </button>
+          </div>
+        </div>
+      </div>
+
+      {loading ? (
+        <div className="flex items-center justify-center min-h-64">
+          <div className="text-center">
+            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600 mx-auto mb-4"></div>
+            <p className="text-gray-600">{t('taxSummary.loading')}</p>
+          </div>
+        </div>
+      ) : error ? (
+        <div className="bg-red-50 border border-red-200 rounded-md p-4">
+          <p className="text-sm text-red-700">{error}</p>
+          <button
+            onClick={loadRoutes}
+            className="mt-3 bg-red-100 hover:bg-red-200 text-red-800 px-4 py-2 rounded-md text-sm font-medium"
+          >
+            {t('common.retry')}
+          </button>
+        </div>
+      ) : summary.totalRoutes === 0 ? (
+        <div className="bg-white rounded-lg shadow p-12 text-center">
+          <p className="text-gray-500 text-lg">{t('taxSummary.empty')}</p>
+        </div>
+      ) : (
+        <>
+          {/* Headline figures */}
+          <div className="grid grid-cols-2 lg:grid-cols-4 gap-4">
+            {[
+              { label: t('taxSummary.cards.grossIncome'), value: formatCurrency(summary.grossIncome), className: 'text-green-600' },
+              { label: t('taxSummary.cards.businessMiles'), value: formatMiles(mileageAllowance.totalMiles), className: 'text-gray-900' },
+              { label: t('taxSummary.cards.mileageAllowance'), value: formatGbp(mileageAllowance.totalAllowance), className: 'text-blue-600' },
+              { label: t('taxSummary.cards.netProfit'), value: formatCurrency(summary.netProfit), className: 'text-gray-900' },
+            ].map(card => (
+              <div key={card.label} className="bg-white rounded-lg shadow p-4 print:shadow-none print:border">
+                <p className="text-sm text-gray-600">{card.label}</p>
+                <p className={`text-xl font-bold mt-1 ${card.className}`}>{card.value}</p>
+              </div>
+            ))}
+          </div>
+          <p className="text-sm text-gray-500">{t('taxSummary.basedOn', { count: summary.totalRoutes })}</p>
+
+          {/* Self-employment figures */}
+          <div className="bg-white rounded-lg shadow p-6 print:shadow-none print:border print:break-inside-avoid">
+            <h2 className="text-lg font-semibold text-gray-900 mb-4">{t('taxSummary.selfEmployment.title')}</h2>
+            <dl className="divide-y text-sm">
+              <div className="flex justify-between py-2">
+                <dt className="text-gray-700">{t('taxSummary.selfEmployment.turnover')}</dt>
+                <dd className="font-medium">{formatCurrency(summary.grossIncome)}</dd>
+              </div>
+              <div className="flex justify-between py-2">
+                <dt className="text-gray-700">{t('taxSummary.selfEmployment.carVanTravel')}</dt>
+                <dd className="font-medium">{formatGbp(mileageAllowance.totalAllowance)}</dd>
+              </div>
+              <div className="flex justify-between py-2">
+                <dt className="text-gray-700">{t('taxSummary.selfEmployment.otherExpenses')}</dt>
+                <dd className="font-medium">{formatCurrency(summary.allowableExpenses)}</dd>
+              </div>
+              <div className="flex justify-between py-2 font-semibold">
+                <dt className="text-gray-900">{t('taxSummary.selfEmployment.netProfit')}</dt>
+                <dd>{formatCurrency(summary.netProfit)}</dd>
+              </div>
+            </dl>
+            <p className="mt-3 text-xs text-gray-500">{t('taxSummary.selfEmployment.note')}</p>
+            {summary.vehicleExpenses > 0 && (
+              <p className="mt-1 text-xs text-gray-500">
+                {t('taxSummary.selfEmployment.vehicleExpensesExcluded', { amount: formatCurrency(summary.vehicleExpenses) })}
+              </p>
+            )}
+            {settings.currency !== 'GBP' && (
+              <p className="mt-1 text-xs text-yellow-700">{t('taxSummary.currencyNote', { currency: settings.currency })}</p>
+            )}
+          </div>
+
+          {/* Mileage allowance */}
+          <div className="bg-white rounded-lg shadow p-6 print:shadow-none print:border print:break-inside-avoid">
+            <h2 className="text-lg font-semibold text-gray-900 mb-2">{t('taxSummary.mileage.title')}</h2>
+            <p className="text-sm text-gray-600 mb-4">
+              {t('taxSummary.mileage.description')}{' '}
+              <Link to="/tax-summary/mileage" className="text-blue-600 hover:text-blue-800 print:hidden">
+                {t('taxSummary.mileage.reconcile')}
+              </Link>
+            </p>
+            <dl className="divide-y text-sm">
+              <div className="flex justify-between py-2">
+                <dt className="text-gray-700">
+                  {t('taxSummary.mileage.firstTier', { miles: formatMiles(mileageAllowance.firstTierMiles) })}
+                </dt>
+                <dd className="font-medium">{formatGbp(mileageAllowance.firstTierAmount)}</dd>
+              </div>
+              {mileageAllowance.secondTierMiles > 0 && (
+                <div className="flex justify-between py-2">
+                  <dt className="text-gray-700">
+                    {t('taxSummary.mileage.secondTier', { miles: formatMiles(mileageAllowance.secondTierMiles) })}
+                  </dt>
+                  <dd className="font-medium">{formatGbp(mileageAllowance.secondTierAmount)}</dd>
+                </div>
+              )}
+              <div className="flex justify-between py-2 font-semibold">
+                <dt className="text-gray-900">{t('taxSummary.mileage.total')}</dt>
+                <dd className="text-blue-600">{formatGbp(mileageAllowance.totalAllowance)}</dd>
+              </div>
+            </dl>
+          </div>
+
+          <div className="grid grid-cols-1 xl:grid-cols-2 gap-6">
+            {renderBreakdownTable(t('taxSummary.bySource'), summary.incomeBySource, false)}
+            {renderBreakdownTable(t('taxSummary.byWorkType'), summary.incomeByWorkType, true)}
+          </div>
+
+          <p className="text-xs text-gray-500">{t('taxSummary.disclaimer')}</p>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default TaxSummary;
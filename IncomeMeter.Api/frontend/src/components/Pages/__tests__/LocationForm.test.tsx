@@ -2,9 +2,15 @@ import { render, screen, fireEvent, waitFor } from '@testing-library/react';
 import { I18nextProvider } from 'react-i18next';
 import i18n from '../../../i18n';
 import LocationForm from '../LocationForm';
+import { createLocation, updateLocation } from '../../../utils/api';
 
-// Mock fetch
-global.fetch = jest.fn();
+jest.mock('../../../utils/api', () => ({
+  createLocation: jest.fn(),
+  updateLocation: jest.fn(),
+}));
+
+const mockCreateLocation = createLocation as jest.Mock;
+const mockUpdateLocation = updateLocation as jest.Mock;
 
 // Mock localStorage
 const localStorageMock = {
@@ -56,7 +62,6 @@ const renderLocationForm = (location?: typeof mockLocation) => {
 describe('LocationForm Component', () => {
   beforeEach(() => {
     localStorageMock.getItem.mockReturnValue('fake-token');
-    (fetch as jest.Mock).mockClear();
     mockOnSave.mockClear();
     mockOnCancel.mockClear();
   });
@@ -123,10 +128,7 @@ describe('LocationForm Component', () => {
   });
 
   it('submits create form with correct data', async () => {
-    (fetch as jest.Mock).mockResolvedValueOnce({
-      ok: true,
-      json: async () => ({ ...mockLocation, id: 'new-id' }),
-    });
+    mockCreateLocation.mockResolvedValueOnce({ ...mockLocation, id: 'new-id' });
 
     renderLocationForm();
     
@@ -138,24 +140,14 @@ describe('LocationForm Component', () => {
     fireEvent.click(screen.getByText('Add Location'));
     
     await waitFor(() => {
-      expect(fetch).toHaveBeenCalledWith('/api/locations', {
-        method: 'POST',
-        headers: {
-          'Authorization': 'Bearer fake-token',
-          'Content-Type': 'application/json',
-        },
-        body: expect.stringContaining('"routeId":"route-1"'),
-      });
+      expect(mockCreateLocation).toHaveBeenCalledWith(expect.objectContaining({ routeId: 'route-1', latitude: 51.5074 }));
     });
     
     expect(mockOnSave).toHaveBeenCalled();
   });
 
   it('submits edit form with correct data', async () => {
-    (fetch as jest.Mock).mockResolvedValueOnce({
-      ok: true,
-      json: async () => mockLocation,
-    });
+    mockUpdateLocation.mockResolvedValueOnce(mockLocation);
 
     renderLocationForm(mockLocation);
     
@@ -164,14 +156,7 @@ describe('LocationForm Component', () => {
     fireEvent.click(screen.getByText('Update Location'));
     
     await waitFor(() => {
-      expect(fetch).toHaveBeenCalledWith('/api/locations/1', {
-        method: 'PUT',
-        headers: {
-          'Authorization': 'Bearer fake-token',
-          'Content-Type': 'application/json',
-        },
-        body: expect.stringContaining('"latitude":52.5074'),
-      });
+      expect(mockUpdateLocation).toHaveBeenCalledWith('1', expect.objectContaining({ latitude: 52.5074 }));
     });
     
     expect(mockOnSave).toHaveBeenCalled();
@@ -226,7 +211,7 @@ describe('LocationForm Component', () => {
   });
 
   it('shows loading state during form submission', async () => {
-    (fetch as jest.Mock).mockImplementation(() => new Promise(() => {}));
+    mockCreateLocation.mockImplementation(() => new Promise(() => {}));
 
     renderLocationForm();
     
@@ -239,9 +224,9 @@ describe('LocationForm Component', () => {
   });
 
   it('handles form submission error', async () => {
-    (fetch as jest.Mock).mockResolvedValueOnce({
-      ok: false,
-      json: async () => ({ error: 'Validation failed' }),
+    mockCreateLocation.mockRejectedValueOnce({
+      isAxiosError: true,
+      response: { status: 400, data: { error: 'Validation failed' } },
     });
 
     renderLocationForm();
@@ -3,9 +3,15 @@ import { BrowserRouter } from 'react-router-dom';
 import { I18nextProvider } from 'react-i18next';
 import i18n from '../../../i18n';
 import LocationList from '../LocationList';
+import { deleteLocation, getLocationsByRouteId } from '../../../utils/api';
 
-// Mock fetch
-global.fetch = jest.fn();
+jest.mock('../../../utils/api', () => ({
+  getLocationsByRouteId: jest.fn(),
+  deleteLocation: jest.fn(),
+}));
+
+const mockGetLocationsByRouteId = getLocationsByRouteId as jest.Mock;
+const mockDeleteLocation = deleteLocation as jest.Mock;
 
 // Mock localStorage
 const localStorageMock = {
@@ -66,7 +72,6 @@ const renderLocationList = (routeId: string = 'route-1') => {
 describe('LocationList Component', () => {
   beforeEach(() => {
     localStorageMock.getItem.mockReturnValue('fake-token');
-    (fetch as jest.Mock).mockClear();
   });
 
   afterEach(() => {
@@ -74,7 +79,7 @@ describe('LocationList Component', () => {
   });
 
   it('renders loading state initially', () => {
-    (fetch as jest.Mock).mockImplementation(() => new Promise(() => {}));
+    mockGetLocationsByRouteId.mockImplementation(() => new Promise(() => {}));
     
     renderLocationList();
     
@@ -83,10 +88,7 @@ describe('LocationList Component', () => {
   });
 
   it('renders locations list when data is loaded', async () => {
-    (fetch as jest.Mock).mockResolvedValueOnce({
-      ok: true,
-      json: async () => mockLocations,
-    });
+    mockGetLocationsByRouteId.mockResolvedValueOnce(mockLocations);
 
     renderLocationList();
 
@@ -101,10 +103,7 @@ describe('LocationList Component', () => {
   });
 
   it('renders empty state when no locations', async () => {
-    (fetch as jest.Mock).mockResolvedValueOnce({
-      ok: true,
-      json: async () => [],
-    });
+    mockGetLocationsByRouteId.mockResolvedValueOnce([]);
 
     renderLocationList();
 
@@ -116,7 +115,7 @@ describe('LocationList Component', () => {
   });
 
   it('renders error state when fetch fails', async () => {
-    (fetch as jest.Mock).mockRejectedValueOnce(new Error('Network error'));
+    mockGetLocationsByRouteId.mockRejectedValueOnce(new Error('Network error'));
 
     renderLocationList();
 
@@ -124,17 +123,14 @@ describe('LocationList Component', () => {
       expect(screen.getByText('Error Loading Locations')).toBeInTheDocument();
     });
 
-    expect(screen.getByText('Network error')).toBeInTheDocument();
+    expect(screen.getByText('Failed to load locations')).toBeInTheDocument();
     expect(screen.getByText('Retry')).toBeInTheDocument();
   });
 
   it('handles retry on error', async () => {
-    (fetch as jest.Mock)
+    mockGetLocationsByRouteId
       .mockRejectedValueOnce(new Error('Network error'))
-      .mockResolvedValueOnce({
-        ok: true,
-        json: async () => mockLocations,
-      });
+      .mockResolvedValueOnce(mockLocations);
 
     renderLocationList();
 
@@ -150,10 +146,7 @@ describe('LocationList Component', () => {
   });
 
   it('opens add location modal when add button is clicked', async () => {
-    (fetch as jest.Mock).mockResolvedValueOnce({
-      ok: true,
-      json: async () => mockLocations,
-    });
+    mockGetLocationsByRouteId.mockResolvedValueOnce(mockLocations);
 
     renderLocationList();
 
@@ -169,14 +162,8 @@ describe('LocationList Component', () => {
   });
 
   it('handles delete location', async () => {
-    (fetch as jest.Mock)
-      .mockResolvedValueOnce({
-        ok: true,
-        json: async () => mockLocations,
-      })
-      .mockResolvedValueOnce({
-        ok: true,
-      });
+    mockGetLocationsByRouteId.mockResolvedValueOnce(mockLocations);
+    mockDeleteLocation.mockResolvedValueOnce(undefined);
 
     renderLocationList();
 
@@ -196,20 +183,12 @@ describe('LocationList Component', () => {
     fireEvent.click(screen.getByText('Delete', { selector: 'button' }));
 
     await waitFor(() => {
-      expect(fetch).toHaveBeenCalledWith('/api/locations/1', {
-        method: 'DELETE',
-        headers: {
-          'Authorization': 'Bearer fake-token',
-        },
-      });
+      expect(mockDeleteLocation).toHaveBeenCalledWith('1');
     });
   });
 
   it('formats coordinates correctly', async () => {
-    (fetch as jest.Mock).mockResolvedValueOnce({
-      ok: true,
-      json: async () => mockLocations,
-    });
+    mockGetLocationsByRouteId.mockResolvedValueOnce(mockLocations);
 
     renderLocationList();
 
@@ -220,10 +199,7 @@ describe('LocationList Component', () => {
   });
 
   it('formats timestamp correctly', async () => {
-    (fetch as jest.Mock).mockResolvedValueOnce({
-      ok: true,
-      json: async () => mockLocations,
-    });
+    mockGetLocationsByRouteId.mockResolvedValueOnce(mockLocations);
 
     renderLocationList();
 
@@ -234,10 +210,7 @@ describe('LocationList Component', () => {
   });
 
   it('displays distance information when available', async () => {
-    (fetch as jest.Mock).mockResolvedValueOnce({
-      ok: true,
-      json: async () => mockLocations,
-    });
+    mockGetLocationsByRouteId.mockResolvedValueOnce(mockLocations);
 
     renderLocationList();
 
@@ -248,20 +221,12 @@ describe('LocationList Component', () => {
   });
 
   it('makes correct API call with route ID', async () => {
-    (fetch as jest.Mock).mockResolvedValueOnce({
-      ok: true,
-      json: async () => mockLocations,
-    });
+    mockGetLocationsByRouteId.mockResolvedValueOnce(mockLocations);
 
     renderLocationList('test-route-id');
 
     await waitFor(() => {
-      expect(fetch).toHaveBeenCalledWith('/api/locations?routeId=test-route-id', {
-        headers: {
-          'Authorization': 'Bearer fake-token',
-          'Content-Type': 'application/json',
-        },
-      });
+      expect(mockGetLocationsByRouteId).toHaveBeenCalledWith('test-route-id');
     });
   });
 });
\ No newline at end of file
@@ -0,0 +1,105 @@
+import React, { useState, useEffect } from 'react';
+import { useLanguage } from '../../contexts/LanguageContext';
+import { getActiveWorkTypeConfigs } from '../../utils/api';
+import type { EarningsGoal, PeriodType, WorkTypeConfig } from '../../types';
+
+interface EarningsGoalsSectionProps {
+  goals: EarningsGoal[];
+  onChange: (goals: EarningsGoal[]) => void;
+}
+
+const GOAL_PERIODS: PeriodType[] = ['weekly', 'monthly', 'annual'];
+
+const createGoalId = (): string => `goal-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+const EarningsGoalsSection: React.FC<EarningsGoalsSectionProps> = ({ goals, onChange }) => {
+  const { t } = useLanguage();
+  const [workTypes, setWorkTypes] = useState<WorkTypeConfig[]>([]);
+
+  useEffect(() => {
+    getActiveWorkTypeConfigs()
+      .then(setWorkTypes)
+      .catch(err => console.error('Error loading work types for goals:', err));
+  }, []);
+
+  const updateGoal = (id: string, changes: Partial<EarningsGoal>) => {
+    onChange(goals.map(goal => goal.id === id ? { ...goal, ...changes } : goal));
+  };
+
+  const addGoal = () => {
+    onChange([...goals, { id: createGoalId(), period: 'weekly', amount: 0 }]);
+  };
+
+  const removeGoal = (id: string) => {
+    onChange(goals.filter(goal => goal.id !== id));
+  };
+
+  const inputClass = 'px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent text-sm';
+
+  return (
+    <div>
+      <h3 className="text-lg font-semibold text-gray-800 mb-2">{t('goals.settings.title')}</h3>
+      <p className="text-sm text-gray-500 mb-4">{t('goals.settings.description')}</p>
+
+      <div className="space-y-3">
+        {goals.map(goal => (
+          <div key={goal.id} className="flex flex-wrap items-center gap-2">
+            <select
+              value={goal.period}
+              onChange={(e) => updateGoal(goal.id, { period: e.target.value as PeriodType })}
+              className={inputClass}
+              aria-label={t('goals.settings.period')}
+            >
+              {GOAL_PERIODS.map(period => (
+                <option key={period} value={period}>{t(`dashboard.periods.${period}`)}</option>
+              ))}
+            </select>
+            <select
+              value={goal.workType ?? ''}
+              onChange={(e) => updateGoal(goal.id, { workType: e.target.value || undefined })}
+              className={inputClass}
+              aria-label={t('goals.settings.workType')}
+            >
+              <option value="">{t('goals.allWorkTypes')}</option>
+              {workTypes.map(workType => (
+                <option key={workType.id} value={workType.name}>{workType.name}</option>
+              ))}
+              {/* Keep goals for work types that have since been deactivated */}
+              {goal.workType && !workTypes.some(workType => workType.name === goal.workType) && (
+                <option value={goal.workType}>{goal.workType}</option>
+              )}
+            </select>
+            <input
+              type="number"
+              min="0"
+              step="1"
+              value={goal.amount || ''}
+              placeholder={t('goals.settings.amount')}
+              onChange={(e) => updateGoal(goal.id, { amount: Number(e.target.value) || 0 })}
+              className={`${inputClass} w-32`}
+              aria-label={t('goals.settings.amount')}
+            />
+            <button
+              type="button"
+              onClick={() => removeGoal(goal.id)}
+              className="px-2 py-1 text-gray-400 hover:text-red-600"
+              aria-label={t('goals.settings.remove')}
+            >
+              ×
+            </button>
+          </div>
+        ))}
+      </div>
+
+      <button
+        type="button"
+        onClick={addGoal}
+        className="mt-3 px-3 py-2 text-sm font-medium text-blue-600 bg-blue-50 hover:bg-blue-100 rounded-md"
+      >
+        {t('goals.settings.add')}
+      </button>
+    </div>
+  );
+};
+
+export default EarningsGoalsSection;
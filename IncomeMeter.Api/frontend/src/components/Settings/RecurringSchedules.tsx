@@ -0,0 +1,450 @@
+import React, { useState, useEffect } from 'react';
+import { createPortal } from 'react-dom';
+import { useLanguage } from '../../contexts/LanguageContext';
+import { useSettings } from '../../contexts/SettingsContext';
+import { useTimezone } from '../../hooks/useTimezone';
+import {
+  getRecurringSchedules,
+  createRecurringSchedule,
+  updateRecurringSchedule,
+  deleteRecurringSchedule,
+  getActiveWorkTypeConfigs,
+} from '../../utils/api';
+import { getTodayKey } from '../../utils/calendar';
+import type { CreateRecurringScheduleRequest, RecurringSchedule, ScheduleFrequency, WorkTypeConfig } from '../../types';
+
+// Monday first, matching the route calendar; values are JavaScript getDay() numbers
+const WEEKDAYS = [1, 2, 3, 4, 5, 6, 0];
+
+// 4 January 2026 was a Sunday, so day d of the week is 4 + d January
+const formatWeekday = (day: number, language: string): string =>
+  new Date(Date.UTC(2026, 0, 4 + day)).toLocaleDateString(language, { weekday: 'short', timeZone: 'UTC' });
+
+const toDayKey = (value?: string | null): string => (value ? value.slice(0, 10) : '');
+
+// Schedule dates are calendar dates, so format them without shifting into a timezone
+const formatDayKey = (dayKey: string, language: string): string =>
+  new Date(`${dayKey}T00:00:00Z`).toLocaleDateString(language, { day: 'numeric', month: 'short', year: 'numeric', timeZone: 'UTC' });
+
+const getErrorMessage = (err: unknown): string | undefined =>
+  (err as { response?: { data?: { error?: string } } })?.response?.data?.error;
+
+const RecurringSchedulesSection: React.FC = () => {
+  const { t, language } = useLanguage();
+  const { settings, formatCurrency } = useSettings();
+  const { timezone } = useTimezone(settings.timeZone);
+  const [schedules, setSchedules] = useState<RecurringSchedule[]>([]);
+  const [workTypes, setWorkTypes] = useState<WorkTypeConfig[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [formError, setFormError] = useState<string | null>(null);
+  const [editing, setEditing] = useState<RecurringSchedule | null>(null);
+  const [showForm, setShowForm] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [formData, setFormData] = useState<CreateRecurringScheduleRequest | null>(null);
+  const [exceptionInput, setExceptionInput] = useState('');
+
+  useEffect(() => {
+    const load = async () => {
+      try {
+        const [loadedSchedules, loadedWorkTypes] = await Promise.all([getRecurringSchedules(), getActiveWorkTypeConfigs()]);
+        setSchedules(loadedSchedules);
+        setWorkTypes(loadedWorkTypes);
+      } catch (err) {
+        console.error('Error loading recurring schedules:', err);
+        setError(t('recurringSchedules.errors.load'));
+      } finally {
+        setLoading(false);
+      }
+    };
+    load();
+  }, [t]);
+
+  const openCreate = () => {
+    setEditing(null);
+    setFormData({
+      workTypeId: workTypes[0]?.id ?? '',
+      frequency: 'weekly',
+      interval: 1,
+      daysOfWeek: [1, 2, 3, 4, 5],
+      startTime: '09:00',
+      endTime: '17:00',
+      startDate: getTodayKey(timezone),
+      exceptionDates: [],
+      weeksAhead: 4,
+      isActive: true,
+    });
+    setFormError(null);
+    setShowForm(true);
+  };
+
+  const openEdit = (schedule: RecurringSchedule) => {
+    setEditing(schedule);
+    setFormData({
+      workTypeId: schedule.workTypeId,
+      frequency: schedule.frequency,
+      interval: schedule.interval,
+      daysOfWeek: schedule.daysOfWeek,
+      startTime: schedule.startTime,
+      endTime: schedule.endTime,
+      startDate: toDayKey(schedule.startDate),
+      endDate: toDayKey(schedule.endDate) || undefined,
+      exceptionDates: schedule.exceptionDates.map(toDayKey),
+      estimatedIncome: schedule.estimatedIncome ?? undefined,
+      weeksAhead: schedule.weeksAhead,
+      isActive: schedule.isActive,
+    });
+    setFormError(null);
+    setShowForm(true);
+  };
+
+  const closeForm = () => {
+    setShowForm(false);
+    setEditing(null);
+    setFormData(null);
+    setExceptionInput('');
+  };
+
+  const updateForm = (changes: Partial<CreateRecurringScheduleRequest>) => {
+    setFormData(prev => (prev ? { ...prev, ...changes } : prev));
+  };
+
+  const toggleDay = (day: number) => {
+    if (!formData) return;
+    const days = formData.daysOfWeek.includes(day)
+      ? formData.daysOfWeek.filter(item => item !== day)
+      : [...formData.daysOfWeek, day].sort();
+    updateForm({ daysOfWeek: days });
+  };
+
+  const addException = () => {
+    if (!formData || !exceptionInput || formData.exceptionDates.includes(exceptionInput)) return;
+    updateForm({ exceptionDates: [...formData.exceptionDates, exceptionInput].sort() });
+    setExceptionInput('');
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!formData) return;
+
+    if (formData.frequency === 'weekly' && formData.daysOfWeek.length === 0) {
+      setFormError(t('recurringSchedules.errors.noDays'));
+      return;
+    }
+
+    setSaving(true);
+    setFormError(null);
+    try {
+      if (editing) {
+        const updated = await updateRecurringSchedule(editing.id, { ...formData, clearEndDate: !formData.endDate });
+        setSchedules(prev => prev.map(schedule => (schedule.id === updated.id ? updated : schedule)));
+      } else {
+        const created = await createRecurringSchedule(formData);
+        setSchedules(prev => [...prev, created]);
+      }
+      closeForm();
+    } catch (err) {
+      console.error('Error saving recurring schedule:', err);
+      setFormError(getErrorMessage(err) ?? t('recurringSchedules.errors.save'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (schedule: RecurringSchedule) => {
+    if (!confirm(t('recurringSchedules.confirmDelete'))) return;
+
+    try {
+      await deleteRecurringSchedule(schedule.id);
+      setSchedules(prev => prev.filter(item => item.id !== schedule.id));
+    } catch (err) {
+      console.error('Error deleting recurring schedule:', err);
+      setError(t('recurringSchedules.errors.delete'));
+    }
+  };
+
+  const describePattern = (schedule: RecurringSchedule): string => {
+    const days = schedule.frequency === 'weekly'
+      ? WEEKDAYS.filter(day => schedule.daysOfWeek.includes(day)).map(day => formatWeekday(day, language)).join(', ')
+      : '';
+    const key = schedule.interval > 1 ? `${schedule.frequency}Interval` : schedule.frequency;
+    const repeat = t(`recurringSchedules.pattern.${key}`, { count: schedule.interval, days });
+    return `${repeat} · ${schedule.startTime}–${schedule.endTime}`;
+  };
+
+  const inputClass = 'w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 text-sm';
+  const labelClass = 'block text-sm font-medium text-gray-700 mb-1';
+
+  if (loading) {
+    return (
+      <div className="animate-pulse">
+        <div className="h-8 bg-gray-200 rounded w-64 mb-4"></div>
+        <div className="h-4 bg-gray-200 rounded w-full"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-4">
+        <div>
+          <h3 className="text-lg font-semibold text-gray-800">{t('recurringSchedules.title')}</h3>
+          <p className="text-sm text-gray-500 mt-1">{t('recurringSchedules.description')}</p>
+        </div>
+        <button
+          type="button"
+          onClick={openCreate}
+          disabled={workTypes.length === 0}
+          className="bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded-md text-sm font-medium disabled:opacity-50"
+        >
+          {t('recurringSchedules.add')}
+        </button>
+      </div>
+
+      {error && (
+        <div className="mb-4 bg-red-50 border border-red-200 rounded-md p-3 text-sm text-red-700">{error}</div>
+      )}
+
+      {schedules.length === 0 ? (
+        <p className="text-sm text-gray-500 bg-gray-50 rounded-lg p-4 text-center">
+          {workTypes.length === 0 ? t('recurringSchedules.noWorkTypes') : t('recurringSchedules.empty')}
+        </p>
+      ) : (
+        <div className="space-y-3">
+          {schedules.map(schedule => (
+            <div key={schedule.id} className="border border-gray-200 rounded-lg p-4 flex items-start justify-between">
+              <div className="min-w-0">
+                <div className="flex items-center gap-2 mb-1">
+                  <h4 className="font-medium text-gray-900">{schedule.workType}</h4>
+                  <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${
+                    schedule.isActive ? 'bg-green-100 text-green-800' : 'bg-gray-100 text-gray-800'
+                  }`}>
+                    {schedule.isActive ? t('recurringSchedules.active') : t('recurringSchedules.paused')}
+                  </span>
+                </div>
+                <p className="text-sm text-gray-700">{describePattern(schedule)}</p>
+                <p className="text-xs text-gray-500 mt-1">
+                  {schedule.endDate
+                    ? t('recurringSchedules.dateRange', { start: formatDayKey(toDayKey(schedule.startDate), language), end: formatDayKey(toDayKey(schedule.endDate), language) })
+                    : t('recurringSchedules.from', { start: formatDayKey(toDayKey(schedule.startDate), language) })}
+                  {schedule.exceptionDates.length > 0 && ` · ${t('recurringSchedules.exceptionCount', { count: schedule.exceptionDates.length })}`}
+                  {schedule.estimatedIncome != null && ` · ${formatCurrency(schedule.estimatedIncome)}`}
+                </p>
+              </div>
+              <div className="flex items-center gap-3 ml-4">
+                <button type="button" onClick={() => openEdit(schedule)} className="text-blue-600 hover:text-blue-800 text-sm font-medium">
+                  {t('recurringSchedules.edit')}
+                </button>
+                <button type="button" onClick={() => handleDelete(schedule)} className="text-red-600 hover:text-red-800 text-sm font-medium">
+                  {t('recurringSchedules.delete')}
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {showForm && formData && createPortal(
+        <div className="fixed inset-0 bg-gray-600 bg-opacity-50 overflow-y-auto h-full w-full z-50">
+          <div className="relative top-10 mx-auto p-5 border w-11/12 md:w-3/4 lg:w-1/2 shadow-lg rounded-md bg-white mb-10">
+            <h3 className="text-lg font-medium text-gray-900 mb-4">
+              {editing ? t('recurringSchedules.form.editTitle') : t('recurringSchedules.form.createTitle')}
+            </h3>
+
+            {formError && (
+              <div className="mb-4 bg-red-50 border border-red-200 rounded-md p-3 text-sm text-red-700">{formError}</div>
+            )}
+
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                <div>
+                  <label className={labelClass}>{t('recurringSchedules.form.workType')}</label>
+                  <select
+                    value={formData.workTypeId}
+                    onChange={(e) => updateForm({ workTypeId: e.target.value })}
+                    className={`${inputClass} bg-white`}
+                    required
+                  >
+                    {workTypes.map(workType => (
+                      <option key={workType.id} value={workType.id}>{workType.name}</option>
+                    ))}
+                    {/* Keep schedules for work types that have since been deactivated */}
+                    {editing && !workTypes.some(workType => workType.id === editing.workTypeId) && (
+                      <option value={editing.workTypeId}>{editing.workType}</option>
+                    )}
+                  </select>
+                </div>
+                <div className="grid grid-cols-2 gap-2">
+                  <div>
+                    <label className={labelClass}>{t('recurringSchedules.form.frequency')}</label>
+                    <select
+                      value={formData.frequency}
+                      onChange={(e) => updateForm({ frequency: e.target.value as ScheduleFrequency })}
+                      className={`${inputClass} bg-white`}
+                    >
+                      <option value="weekly">{t('recurringSchedules.form.weekly')}</option>
+                      <option value="daily">{t('recurringSchedules.form.daily')}</option>
+                    </select>
+                  </div>
+                  <div>
+                    <label className={labelClass}>{t('recurringSchedules.form.interval')}</label>
+                    <input
+                      type="number"
+                      min="1"
+                      max="52"
+                      value={formData.interval}
+                      onChange={(e) => updateForm({ interval: Math.max(1, Number(e.target.value) || 1) })}
+                      className={inputClass}
+                    />
+                  </div>
+                </div>
+              </div>
+
+              {formData.frequency === 'weekly' && (
+                <div>
+                  <label className={labelClass}>{t('recurringSchedules.form.days')}</label>
+                  <div className="flex flex-wrap gap-2">
+                    {WEEKDAYS.map(day => (
+                      <button
+                        key={day}
+                        type="button"
+                        onClick={() => toggleDay(day)}
+                        aria-pressed={formData.daysOfWeek.includes(day)}
+                        className={`px-3 py-1 rounded-full text-sm font-medium border ${
+                          formData.daysOfWeek.includes(day)
+                            ? 'bg-blue-600 border-blue-600 text-white'
+                            : 'bg-white border-gray-300 text-gray-700 hover:bg-gray-50'
+                        }`}
+                      >
+                        {formatWeekday(day, language)}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className={labelClass}>{t('recurringSchedules.form.startTime')}</label>
+                  <input type="time" value={formData.startTime} onChange={(e) => updateForm({ startTime: e.target.value })} className={inputClass} required />
+                </div>
+                <div>
+                  <label className={labelClass}>{t('recurringSchedules.form.endTime')}</label>
+                  <input type="time" value={formData.endTime} onChange={(e) => updateForm({ endTime: e.target.value })} className={inputClass} required />
+                  {formData.endTime <= formData.startTime && (
+                    <p className="mt-1 text-xs text-gray-500">{t('recurringSchedules.form.overnight')}</p>
+                  )}
+                </div>
+                <div>
+                  <label className={labelClass}>{t('recurringSchedules.form.startDate')}</label>
+                  <input type="date" value={formData.startDate} onChange={(e) => updateForm({ startDate: e.target.value })} className={inputClass} required />
+                </div>
+                <div>
+                  <label className={labelClass}>{t('recurringSchedules.form.endDate')}</label>
+                  <input
+                    type="date"
+                    value={formData.endDate ?? ''}
+                    min={formData.startDate}
+                    onChange={(e) => updateForm({ endDate: e.target.value || undefined })}
+                    className={inputClass}
+                  />
+                </div>
+              </div>
+
+              <div>
+                <label className={labelClass}>{t('recurringSchedules.form.exceptions')}</label>
+                <div className="flex gap-2">
+                  <input type="date" value={exceptionInput} onChange={(e) => setExceptionInput(e.target.value)} className={inputClass} />
+                  <button
+                    type="button"
+                    onClick={addException}
+                    disabled={!exceptionInput}
+                    className="px-3 py-2 text-sm font-medium text-gray-700 bg-gray-100 hover:bg-gray-200 rounded-md disabled:opacity-50"
+                  >
+                    {t('recurringSchedules.form.addException')}
+                  </button>
+                </div>
+                {formData.exceptionDates.length > 0 && (
+                  <div className="flex flex-wrap gap-2 mt-2">
+                    {formData.exceptionDates.map(date => (
+                      <span key={date} className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-gray-100 text-gray-800">
+                        {formatDayKey(date, language)}
+                        <button
+                          type="button"
+                          onClick={() => updateForm({ exceptionDates: formData.exceptionDates.filter(item => item !== date) })}
+                          className="ml-1 text-gray-500 hover:text-gray-700"
+                          aria-label={t('recurringSchedules.form.removeException')}
+                        >
+                          ×
+                        </button>
+                      </span>
+                    ))}
+                  </div>
+                )}
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className={labelClass}>{t('recurringSchedules.form.estimatedIncome')}</label>
+                  <input
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    value={formData.estimatedIncome ?? ''}
+                    onChange={(e) => updateForm({ estimatedIncome: e.target.value === '' ? undefined : Number(e.target.value) })}
+                    className={inputClass}
+                  />
+                </div>
+                <div>
+                  <label className={labelClass}>{t('recurringSchedules.form.weeksAhead')}</label>
+                  <input
+                    type="number"
+                    min="1"
+                    max="12"
+                    value={formData.weeksAhead}
+                    onChange={(e) => updateForm({ weeksAhead: Math.min(12, Math.max(1, Number(e.target.value) || 1)) })}
+                    className={inputClass}
+                  />
+                </div>
+              </div>
+
+              <label className="flex items-center text-sm font-medium text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={formData.isActive}
+                  onChange={(e) => updateForm({ isActive: e.target.checked })}
+                  className="h-4 w-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500 mr-2"
+                />
+                {t('recurringSchedules.form.active')}
+              </label>
+
+              <p className="text-xs text-gray-500">
+                {editing ? t('recurringSchedules.form.regenerateNote') : t('recurringSchedules.form.generateNote', { weeks: formData.weeksAhead })}
+              </p>
+
+              <div className="flex justify-end space-x-3 pt-2">
+                <button
+                  type="button"
+                  onClick={closeForm}
+                  className="px-4 py-2 text-sm font-medium text-gray-700 bg-gray-100 hover:bg-gray-200 rounded-md"
+                >
+                  {t('recurringSchedules.form.cancel')}
+                </button>
+                <button
+                  type="submit"
+                  disabled={saving || !formData.workTypeId}
+                  className="px-4 py-2 text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 rounded-md disabled:opacity-50"
+                >
+                  {saving ? t('recurringSchedules.form.saving') : t('recurringSchedules.form.save')}
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>,
+        document.body
+      )}
+    </div>
+  );
+};
+
+export default RecurringSchedulesSection;
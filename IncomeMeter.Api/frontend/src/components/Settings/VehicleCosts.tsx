@@ -0,0 +1,80 @@
+import React from 'react';
+import { useLanguage } from '../../contexts/LanguageContext';
+import { useSettings } from '../../contexts/SettingsContext';
+import { convertDistance } from '../../utils/distance';
+import { getCostPerMile, getFuelCostPerMile } from '../../utils/vehicleCosts';
+import type { VehicleCostModel } from '../../types';
+
+interface VehicleCostsSectionProps {
+  model?: VehicleCostModel;
+  onChange: (model: VehicleCostModel) => void;
+}
+
+const EMPTY_MODEL: VehicleCostModel = { fuelPricePerLitre: 0, milesPerGallon: 0, depreciationPerMile: 0 };
+
+const VehicleCostsSection: React.FC<VehicleCostsSectionProps> = ({ model = EMPTY_MODEL, onChange }) => {
+  const { t } = useLanguage();
+  const { settings, formatCurrency } = useSettings();
+
+  const updateModel = (changes: Partial<VehicleCostModel>) => {
+    onChange({ ...model, ...changes });
+  };
+
+  // Costs are modelled per mile; km users see the same figure per km
+  const perUnit = (costPerMile: number) => costPerMile / convertDistance(1, 'mi', settings.mileageUnit);
+
+  const inputClass = 'px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent text-sm w-32';
+
+  return (
+    <div>
+      <h3 className="text-lg font-semibold text-gray-800 mb-2">{t('vehicleCosts.settings.title')}</h3>
+      <p className="text-sm text-gray-500 mb-4">{t('vehicleCosts.settings.description')}</p>
+
+      <div className="flex flex-wrap gap-4">
+        <label className="text-sm text-gray-700">
+          <span className="block mb-1">{t('vehicleCosts.settings.fuelPrice')}</span>
+          <input
+            type="number"
+            min="0"
+            step="0.01"
+            value={model.fuelPricePerLitre || ''}
+            onChange={(e) => updateModel({ fuelPricePerLitre: Math.max(0, Number(e.target.value) || 0) })}
+            className={inputClass}
+          />
+        </label>
+        <label className="text-sm text-gray-700">
+          <span className="block mb-1">{t('vehicleCosts.settings.mpg')}</span>
+          <input
+            type="number"
+            min="0"
+            step="0.1"
+            value={model.milesPerGallon || ''}
+            onChange={(e) => updateModel({ milesPerGallon: Math.max(0, Number(e.target.value) || 0) })}
+            className={inputClass}
+          />
+        </label>
+        <label className="text-sm text-gray-700">
+          <span className="block mb-1">{t('vehicleCosts.settings.depreciation')}</span>
+          <input
+            type="number"
+            min="0"
+            step="0.01"
+            value={model.depreciationPerMile || ''}
+            onChange={(e) => updateModel({ depreciationPerMile: Math.max(0, Number(e.target.value) || 0) })}
+            className={inputClass}
+          />
+        </label>
+      </div>
+
+      <p className="mt-3 text-sm text-gray-700">
+        {t('vehicleCosts.settings.summary', {
+          fuel: formatCurrency(perUnit(getFuelCostPerMile(model))),
+          total: formatCurrency(perUnit(getCostPerMile(model))),
+          unit: settings.mileageUnit,
+        })}
+      </p>
+    </div>
+  );
+};
+
+export default VehicleCostsSection;
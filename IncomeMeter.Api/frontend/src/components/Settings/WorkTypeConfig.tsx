@@ -114,7 +114,7 @@ const WorkTypeConfigSection: React.FC = () => {
     setEditingConfig(config);
     setFormData({
       name: config.name,
-      description: config.description,
+      description: config.description ?? undefined,
       incomeSourceTemplates: config.incomeSourceTemplates.map(template => ({
         name: template.name,
         category: template.category,
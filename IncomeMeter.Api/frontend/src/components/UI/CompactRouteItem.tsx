@@ -3,18 +3,22 @@ import { useNavigate } from 'react-router-dom';
 import { useTranslation } from 'react-i18next';
 import { useSettings } from '../../contexts/SettingsContext';
 import { getDisplayDistance } from '../../utils/distance';
-import type { Route } from '../../types';
+import { isOfflineId } from '../../utils/offlineOutbox';
+import type { Route, OutboxEntry } from '../../types';
 
 interface CompactRouteItemProps {
   route: Route;
   onEdit: (route: Route) => void;
   onDelete: (route: Route) => void;
+  syncStatus?: OutboxEntry['status'];
 }
 
-const CompactRouteItem: React.FC<CompactRouteItemProps> = ({ route, onEdit, onDelete }) => {
+const CompactRouteItem: React.FC<CompactRouteItemProps> = ({ route, onEdit, onDelete, syncStatus }) => {
   const { t } = useTranslation();
   const navigate = useNavigate();
   const { formatCurrency, settings } = useSettings();
+  // Routes created offline only exist locally until synced, so they can't be edited or deleted yet
+  const isQueued = isOfflineId(route.id);
 
   const getStatusColor = (status: string = 'unknown') => {
     switch (status.toLowerCase()) {
@@ -72,6 +76,14 @@ const CompactRouteItem: React.FC<CompactRouteItemProps> = ({ route, onEdit, onDe
     return `${startTime} - ${endTime}`;
   };
 
+  const syncBadge = syncStatus && (
+    <span className={`inline-flex items-center px-2 py-1 rounded-full text-xs font-medium ${
+      syncStatus === 'failed' ? 'bg-red-100 text-red-800' : 'bg-yellow-100 text-yellow-800'
+    }`}>
+      {t(`routes.offline.status.${syncStatus}`)}
+    </span>
+  );
+
   return (
     <div className="bg-white border border-gray-200 rounded-lg hover:shadow-md transition-shadow duration-200 px-4">
       {/* Mobile Layout - Tappable Area */}
@@ -89,6 +101,7 @@ const CompactRouteItem: React.FC<CompactRouteItemProps> = ({ route, onEdit, onDe
               <span className={`inline-flex items-center px-2 py-1 rounded-full text-xs font-medium text-white ${getStatusColor(route.status)}`}>
                 {getStatusText(route.status)}
               </span>
+              {syncBadge}
             </div>
             <div className="text-sm font-semibold text-green-600">
               {formatCurrency(route.totalIncome || route.estimatedIncome || 0)}
@@ -120,28 +133,30 @@ const CompactRouteItem: React.FC<CompactRouteItemProps> = ({ route, onEdit, onDe
         </div>
         
         {/* Action buttons row - separated from tappable area */}
-        <div className="px-3 pb-3 border-t border-gray-100">
-          <div className="flex justify-end space-x-2 mt-2">
-            <button
-              onClick={(e) => {
-                e.stopPropagation();
-                onEdit(route);
-              }}
-              className="bg-gray-50 hover:bg-gray-100 text-gray-700 px-3 py-1 rounded text-xs font-medium transition-colors duration-200"
-            >
-              {t('routes.actions.edit')}
-            </button>
-            <button
-              onClick={(e) => {
-                e.stopPropagation();
-                onDelete(route);
-              }}
-              className="bg-red-50 hover:bg-red-100 text-red-700 px-3 py-1 rounded text-xs font-medium transition-colors duration-200"
-            >
-              {t('routes.actions.delete')}
-            </button>
+        {!isQueued && (
+          <div className="px-3 pb-3 border-t border-gray-100">
+            <div className="flex justify-end space-x-2 mt-2">
+              <button
+                onClick={(e) => {
+                  e.stopPropagation();
+                  onEdit(route);
+                }}
+                className="bg-gray-50 hover:bg-gray-100 text-gray-700 px-3 py-1 rounded text-xs font-medium transition-colors duration-200"
+              >
+                {t('routes.actions.edit')}
+              </button>
+              <button
+                onClick={(e) => {
+                  e.stopPropagation();
+                  onDelete(route);
+                }}
+                className="bg-red-50 hover:bg-red-100 text-red-700 px-3 py-1 rounded text-xs font-medium transition-colors duration-200"
+              >
+                {t('routes.actions.delete')}
+              </button>
+            </div>
           </div>
-        </div>
+        )}
       </div>
 
       {/* Desktop Layout - Horizontal Grid */}
@@ -155,6 +170,7 @@ const CompactRouteItem: React.FC<CompactRouteItemProps> = ({ route, onEdit, onDe
             <span className={`inline-flex items-center px-2 py-1 rounded-full text-xs font-medium text-white ${getStatusColor(route.status)}`}>
               {getStatusText(route.status)}
             </span>
+            {syncBadge}
           </div>
         </div>
 
@@ -196,18 +212,22 @@ const CompactRouteItem: React.FC<CompactRouteItemProps> = ({ route, onEdit, onDe
             >
               {t('routes.actions.view')}
             </button>
-            <button
-              onClick={() => onEdit(route)}
-              className="bg-gray-50 hover:bg-gray-100 text-gray-700 px-2 py-1 rounded text-xs font-medium transition-colors duration-200"
-            >
-              {t('routes.actions.edit')}
-            </button>
-            <button
-              onClick={() => onDelete(route)}
-              className="bg-red-50 hover:bg-red-100 text-red-700 px-2 py-1 rounded text-xs font-medium transition-colors duration-200"
-            >
-              {t('routes.actions.delete')}
-            </button>
+            {!isQueued && (
+              <>
+                <button
+                  onClick={() => onEdit(route)}
+                  className="bg-gray-50 hover:bg-gray-100 text-gray-700 px-2 py-1 rounded text-xs font-medium transition-colors duration-200"
+                >
+                  {t('routes.actions.edit')}
+                </button>
+                <button
+                  onClick={() => onDelete(route)}
+                  className="bg-red-50 hover:bg-red-100 text-red-700 px-2 py-1 rounded text-xs font-medium transition-colors duration-200"
+                >
+                  {t('routes.actions.delete')}
+                </button>
+              </>
+            )}
           </div>
         </div>
       </div>
@@ -0,0 +1,109 @@
+import React from 'react';
+import { useLanguage } from '../../contexts/LanguageContext';
+import { useSettings } from '../../contexts/SettingsContext';
+import { useTimezone } from '../../hooks/useTimezone';
+import type { LocationTracking, TrackingStatus } from '../../hooks/useLocationTracking';
+import { TRACKING_PROFILES, type TrackingProfile } from '../../utils/geoTracking';
+
+interface LocationTrackingPanelProps {
+  tracking: LocationTracking;
+  enabled: boolean;
+  profile: TrackingProfile;
+  onToggle: () => void;
+  onProfileChange: (profile: TrackingProfile) => void;
+}
+
+const STATUS_STYLES: Record<TrackingStatus, string> = {
+  off: 'bg-gray-400',
+  waiting: 'bg-yellow-400 animate-pulse',
+  tracking: 'bg-green-500',
+  error: 'bg-red-500',
+  unsupported: 'bg-gray-400',
+};
+
+const LocationTrackingPanel: React.FC<LocationTrackingPanelProps> = ({ tracking, enabled, profile, onToggle, onProfileChange }) => {
+  const { t } = useLanguage();
+  const { settings } = useSettings();
+  const { formatTime } = useTimezone(settings.timeZone);
+  const { status, error, lastFix, lastDecision, stats, flush } = tracking;
+
+  return (
+    <div className="bg-white rounded-lg shadow p-6">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center space-x-2">
+          <span className={`inline-block w-2.5 h-2.5 rounded-full ${STATUS_STYLES[status]}`} aria-hidden="true"></span>
+          <h2 className="text-lg font-semibold text-gray-900">{t('locationTracking.title')}</h2>
+        </div>
+        <button
+          type="button"
+          role="switch"
+          aria-checked={enabled}
+          onClick={onToggle}
+          disabled={status === 'unsupported'}
+          className={`relative inline-flex h-6 w-11 items-center rounded-full transition-colors disabled:opacity-50 ${enabled ? 'bg-green-600' : 'bg-gray-300'}`}
+        >
+          <span className="sr-only">{t('locationTracking.toggle')}</span>
+          <span className={`inline-block h-4 w-4 transform rounded-full bg-white transition-transform ${enabled ? 'translate-x-6' : 'translate-x-1'}`}></span>
+        </button>
+      </div>
+
+      <p className="text-sm text-gray-700">{t(`locationTracking.status.${status}`)}</p>
+      {error && status === 'error' && (
+        <p className="text-sm text-red-600 mt-1">{t(`locationTracking.errors.${error}`)}</p>
+      )}
+      {!enabled && status !== 'unsupported' && (
+        <p className="text-xs text-gray-500 mt-1">{t('locationTracking.description')}</p>
+      )}
+
+      {enabled && (
+        <div className="mt-4 space-y-3">
+          <div className="grid grid-cols-3 gap-2 text-center">
+            <div className="bg-gray-50 rounded-md p-2">
+              <p className="text-lg font-semibold text-gray-900">{stats.recorded}</p>
+              <p className="text-xs text-gray-500">{t('locationTracking.stats.recorded')}</p>
+            </div>
+            <div className="bg-gray-50 rounded-md p-2">
+              <p className="text-lg font-semibold text-gray-900">{stats.sent}</p>
+              <p className="text-xs text-gray-500">{t('locationTracking.stats.sent')}</p>
+            </div>
+            <div className="bg-gray-50 rounded-md p-2">
+              <p className="text-lg font-semibold text-gray-900">{stats.pending}</p>
+              <p className="text-xs text-gray-500">{t('locationTracking.stats.pending')}</p>
+            </div>
+          </div>
+
+          {lastFix && (
+            <p className="text-xs text-gray-500">
+              {t('locationTracking.lastFix', { time: formatTime(lastFix.timestamp), accuracy: Math.round(lastFix.accuracy) })}
+              {lastDecision && lastDecision !== 'accepted' && ` · ${t(`locationTracking.skipped.${lastDecision}`)}`}
+            </p>
+          )}
+
+          <div className="flex items-center gap-2">
+            <select
+              value={profile}
+              onChange={(e) => onProfileChange(e.target.value as TrackingProfile)}
+              className="flex-1 px-3 py-2 border border-gray-300 rounded-md text-sm bg-white"
+              aria-label={t('locationTracking.profile.label')}
+            >
+              {(Object.keys(TRACKING_PROFILES) as TrackingProfile[]).map(option => (
+                <option key={option} value={option}>{t(`locationTracking.profile.${option}`)}</option>
+              ))}
+            </select>
+            <button
+              type="button"
+              onClick={flush}
+              disabled={stats.pending === 0}
+              className="px-3 py-2 text-sm font-medium text-gray-700 bg-gray-100 hover:bg-gray-200 rounded-md disabled:opacity-50"
+            >
+              {t('locationTracking.sendNow')}
+            </button>
+          </div>
+          <p className="text-xs text-gray-500">{t(`locationTracking.profile.${profile}Hint`)}</p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default LocationTrackingPanel;
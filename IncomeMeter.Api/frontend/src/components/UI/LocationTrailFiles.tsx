@@ -0,0 +1,196 @@
+import React, { useState, useRef } from 'react';
+import { useLanguage } from '../../contexts/LanguageContext';
+import { useSettings } from '../../contexts/SettingsContext';
+import { useTimezone } from '../../hooks/useTimezone';
+import { importRouteLocations } from '../../utils/api';
+import { getDisplayDistance } from '../../utils/distance';
+import { downloadFile } from '../../utils/spreadsheetExport';
+import { buildGpx, buildKml, parseGpx, TRAIL_MIME_TYPES, type ParsedTrail } from '../../utils/locationTrail';
+import type { Location, LocationImportResult } from '../../types';
+
+interface LocationTrailFilesProps {
+  routeId: string;
+  trailName: string;
+  fileName: string; // without extension
+  locations: Location[];
+  onImported: () => void;
+  className?: string;
+}
+
+const getErrorMessage = (err: unknown): string | undefined =>
+  (err as { response?: { data?: { error?: string } } })?.response?.data?.error;
+
+const LocationTrailFiles: React.FC<LocationTrailFilesProps> = ({ routeId, trailName, fileName, locations, onImported, className = '' }) => {
+  const { t } = useLanguage();
+  const { settings } = useSettings();
+  const { formatDateTime } = useTimezone(settings.timeZone);
+  const [trail, setTrail] = useState<ParsedTrail | null>(null);
+  const [trailFileName, setTrailFileName] = useState('');
+  const [replaceExisting, setReplaceExisting] = useState(false);
+  const [importing, setImporting] = useState(false);
+  const [result, setResult] = useState<LocationImportResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleExport = (format: 'gpx' | 'kml') => {
+    const content = format === 'gpx'
+      ? buildGpx(locations, { name: trailName })
+      : buildKml(locations, { name: trailName });
+    downloadFile(content, `${fileName}.${format}`, TRAIL_MIME_TYPES[format]);
+  };
+
+  const resetImport = () => {
+    setTrail(null);
+    setTrailFileName('');
+    setReplaceExisting(false);
+    if (fileInputRef.current) fileInputRef.current.value = '';
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    setError(null);
+    setResult(null);
+    try {
+      const parsed = parseGpx(await file.text());
+      if (!parsed) {
+        setError(t('locationTrail.import.invalidFile'));
+        resetImport();
+        return;
+      }
+      if (parsed.points.length === 0) {
+        setError(t('locationTrail.import.noPoints'));
+        resetImport();
+        return;
+      }
+      setTrail(parsed);
+      setTrailFileName(file.name);
+    } catch (err) {
+      console.error('Error reading GPX file:', err);
+      setError(t('locationTrail.import.readError'));
+      resetImport();
+    }
+  };
+
+  const handleImport = async () => {
+    if (!trail) return;
+
+    setImporting(true);
+    setError(null);
+    try {
+      setResult(await importRouteLocations(routeId, trail.points, replaceExisting));
+      resetImport();
+      onImported();
+    } catch (err) {
+      console.error('Error importing location trail:', err);
+      setError(getErrorMessage(err) || t('locationTrail.import.error'));
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  const hasLocations = locations.length > 0;
+
+  return (
+    <div className={`bg-white rounded-lg shadow p-6 ${className}`}>
+      <h2 className="text-lg font-semibold text-gray-900 mb-4">{t('locationTrail.title')}</h2>
+
+      <div className="space-y-4">
+        <div>
+          <p className="text-sm text-gray-600 mb-2">{t('locationTrail.export.description')}</p>
+          <div className="flex gap-2">
+            <button
+              type="button"
+              onClick={() => handleExport('gpx')}
+              disabled={!hasLocations}
+              className="flex-1 px-3 py-2 text-sm font-medium text-gray-700 bg-gray-100 hover:bg-gray-200 rounded-md disabled:opacity-50"
+            >
+              {t('locationTrail.export.gpx')}
+            </button>
+            <button
+              type="button"
+              onClick={() => handleExport('kml')}
+              disabled={!hasLocations}
+              className="flex-1 px-3 py-2 text-sm font-medium text-gray-700 bg-gray-100 hover:bg-gray-200 rounded-md disabled:opacity-50"
+            >
+              {t('locationTrail.export.kml')}
+            </button>
+          </div>
+        </div>
+
+        <div className="border-t pt-4">
+          <p className="text-sm text-gray-600 mb-2">{t('locationTrail.import.description')}</p>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".gpx,application/gpx+xml"
+            onChange={handleFileChange}
+            disabled={importing}
+            className="block w-full text-sm text-gray-700 file:mr-3 file:py-2 file:px-3 file:rounded-md file:border-0 file:text-sm file:font-medium file:bg-blue-50 file:text-blue-700 hover:file:bg-blue-100"
+          />
+
+          {trail && (
+            <div className="mt-3 p-3 bg-gray-50 rounded-md space-y-2 text-sm">
+              <p className="font-medium text-gray-900">{trail.name || trailFileName}</p>
+              <p className="text-gray-600">
+                {t('locationTrail.import.summary', {
+                  count: trail.points.length,
+                  start: formatDateTime(trail.points[0].timestamp),
+                  end: formatDateTime(trail.points[trail.points.length - 1].timestamp),
+                })}
+              </p>
+              {trail.skipped > 0 && (
+                <p className="text-yellow-700">{t('locationTrail.import.skippedInFile', { count: trail.skipped })}</p>
+              )}
+              {hasLocations && (
+                <label className="flex items-center space-x-2 text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={replaceExisting}
+                    onChange={(e) => setReplaceExisting(e.target.checked)}
+                    className="rounded border-gray-300"
+                  />
+                  <span>{t('locationTrail.import.replaceExisting', { count: locations.length })}</span>
+                </label>
+              )}
+              <div className="flex justify-end gap-2">
+                <button
+                  type="button"
+                  onClick={resetImport}
+                  disabled={importing}
+                  className="px-3 py-1 text-sm text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50"
+                >
+                  {t('common.cancel')}
+                </button>
+                <button
+                  type="button"
+                  onClick={handleImport}
+                  disabled={importing}
+                  className="px-3 py-1 text-sm text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50"
+                >
+                  {importing ? t('locationTrail.import.importing') : t('locationTrail.import.submit')}
+                </button>
+              </div>
+            </div>
+          )}
+
+          {result && (
+            <div className="mt-3 text-sm text-green-700 space-y-1">
+              <p>{t('locationTrail.import.success', { imported: result.imported, skipped: result.skipped })}</p>
+              <p>
+                {t(result.routeDistanceUpdated ? 'locationTrail.import.distanceUpdated' : 'locationTrail.import.distanceKept', {
+                  distance: getDisplayDistance(result.trailDistanceKm, 'km', settings.mileageUnit).formatted,
+                })}
+              </p>
+            </div>
+          )}
+
+          {error && <p className="mt-3 text-sm text-red-600">{error}</p>}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default LocationTrailFiles;
@@ -0,0 +1,107 @@
+import React from 'react';
+import { useTranslation } from 'react-i18next';
+import { useOutbox } from '../../contexts/OutboxContext';
+import type { OutboxEntry } from '../../types';
+
+interface OfflineQueuePanelProps {
+  entries: OutboxEntry[];
+  className?: string;
+}
+
+/**
+ * Lists queued offline mutations with their sync state, plus retry/discard actions
+ */
+const OfflineQueuePanel: React.FC<OfflineQueuePanelProps> = ({ entries, className = '' }) => {
+  const { t } = useTranslation();
+  const { isOnline, isSyncing, syncNow, retryEntry, discardEntry } = useOutbox();
+
+  if (entries.length === 0 && isOnline) {
+    return null;
+  }
+
+  const pendingCount = entries.filter(entry => entry.status === 'pending').length;
+  const failedCount = entries.filter(entry => entry.status === 'failed').length;
+
+  const handleDiscard = async (entry: OutboxEntry) => {
+    if (entry.id === undefined || !window.confirm(t('routes.offline.confirmDiscard'))) return;
+    await discardEntry(entry.id);
+  };
+
+  const formatEntryTime = (createdAt: string) => {
+    return new Date(createdAt).toLocaleTimeString('en-US', {
+      hour: '2-digit',
+      minute: '2-digit',
+      hour12: false
+    });
+  };
+
+  return (
+    <div className={`bg-yellow-50 border border-yellow-200 rounded-lg p-4 ${className}`}>
+      <div className="flex items-start justify-between">
+        <div className="flex items-start">
+          <svg className="h-5 w-5 text-yellow-500 mt-0.5 flex-shrink-0" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" />
+          </svg>
+          <div className="ml-3">
+            <h3 className="text-sm font-medium text-yellow-800">{t('routes.offline.title')}</h3>
+            <div className="mt-1 text-sm text-yellow-700 space-y-1">
+              {!isOnline && <p>{t('routes.offline.offlineNotice')}</p>}
+              {pendingCount > 0 && <p>{t('routes.offline.pendingSummary', { count: pendingCount })}</p>}
+              {failedCount > 0 && <p className="text-red-700">{t('routes.offline.failedSummary', { count: failedCount })}</p>}
+            </div>
+          </div>
+        </div>
+        {isOnline && pendingCount > 0 && (
+          <button
+            onClick={syncNow}
+            disabled={isSyncing}
+            className="bg-yellow-100 hover:bg-yellow-200 text-yellow-800 px-3 py-1 rounded text-xs font-medium transition-colors duration-200 disabled:opacity-50"
+          >
+            {isSyncing ? t('routes.offline.syncing') : t('routes.offline.syncNow')}
+          </button>
+        )}
+      </div>
+
+      {entries.length > 0 && (
+        <ul className="mt-3 divide-y divide-yellow-100">
+          {entries.map(entry => (
+            <li key={entry.id} className="py-2 flex items-center justify-between">
+              <div className="min-w-0">
+                <div className="flex items-center space-x-2">
+                  <span className="text-sm text-gray-900">{t(`routes.offline.types.${entry.type}`)}</span>
+                  <span className={`inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium ${
+                    entry.status === 'failed' ? 'bg-red-100 text-red-800' : 'bg-yellow-100 text-yellow-800'
+                  }`}>
+                    {t(`routes.offline.status.${entry.status}`)}
+                  </span>
+                  <span className="text-xs text-gray-500">{formatEntryTime(entry.createdAt)}</span>
+                </div>
+                {entry.lastError && (
+                  <p className="text-xs text-red-600 truncate">{entry.lastError}</p>
+                )}
+              </div>
+              <div className="flex space-x-1 ml-2 flex-shrink-0">
+                {entry.status === 'failed' && (
+                  <button
+                    onClick={() => entry.id !== undefined && retryEntry(entry.id)}
+                    className="bg-blue-50 hover:bg-blue-100 text-blue-700 px-2 py-1 rounded text-xs font-medium transition-colors duration-200"
+                  >
+                    {t('routes.offline.retry')}
+                  </button>
+                )}
+                <button
+                  onClick={() => handleDiscard(entry)}
+                  className="bg-red-50 hover:bg-red-100 text-red-700 px-2 py-1 rounded text-xs font-medium transition-colors duration-200"
+                >
+                  {t('routes.offline.discard')}
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default OfflineQueuePanel;
@@ -0,0 +1,257 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { useTranslation } from 'react-i18next';
+import type { Attachment, Expense } from '../../types';
+import { getAttachmentsByRouteId, uploadAttachment, getAttachmentImage, deleteAttachment } from '../../utils/api';
+import { compressReceiptImage } from '../../utils/imageCompression';
+
+interface ReceiptAttachmentsProps {
+  routeId: string;
+  incomes: Array<{ source: string; amount: number }>;
+  expenses?: Expense[];
+  className?: string;
+}
+
+// Object URL for an authenticated attachment image, revoked when no longer shown
+const useAttachmentImage = (attachmentId: string | null, size: 'thumbnail' | 'content') => {
+  const [url, setUrl] = useState<string | null>(null);
+  const [failed, setFailed] = useState(false);
+
+  useEffect(() => {
+    if (!attachmentId) return;
+
+    let objectUrl: string | null = null;
+    let cancelled = false;
+    setUrl(null);
+    setFailed(false);
+
+    getAttachmentImage(attachmentId, size)
+      .then(blob => {
+        if (cancelled) return;
+        objectUrl = URL.createObjectURL(blob);
+        setUrl(objectUrl);
+      })
+      .catch(() => !cancelled && setFailed(true));
+
+    return () => {
+      cancelled = true;
+      if (objectUrl) URL.revokeObjectURL(objectUrl);
+    };
+  }, [attachmentId, size]);
+
+  return { url, failed };
+};
+
+const AttachmentThumbnail: React.FC<{
+  attachment: Attachment;
+  onOpen: () => void;
+  onDelete: () => void;
+}> = ({ attachment, onOpen, onDelete }) => {
+  const { t } = useTranslation();
+  const { url, failed } = useAttachmentImage(attachment.id, 'thumbnail');
+
+  return (
+    <div className="relative group w-24 h-24">
+      <button
+        type="button"
+        onClick={onOpen}
+        className="w-full h-full rounded-md border border-gray-200 overflow-hidden bg-gray-100 flex items-center justify-center"
+        title={attachment.fileName}
+      >
+        {url ? (
+          <img src={url} alt={attachment.fileName} className="w-full h-full object-cover" />
+        ) : (
+          <span className="text-xs text-gray-400">{failed ? t('receipts.unavailable') : t('common.loading')}</span>
+        )}
+      </button>
+      <button
+        type="button"
+        onClick={onDelete}
+        className="absolute -top-2 -right-2 w-6 h-6 rounded-full bg-red-600 text-white text-xs opacity-0 group-hover:opacity-100 focus:opacity-100"
+        aria-label={t('receipts.delete')}
+      >
+        ×
+      </button>
+    </div>
+  );
+};
+
+const AttachmentViewer: React.FC<{ attachment: Attachment; onClose: () => void }> = ({ attachment, onClose }) => {
+  const { t } = useTranslation();
+  const { url, failed } = useAttachmentImage(attachment.id, 'content');
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') onClose();
+    };
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, [onClose]);
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black bg-opacity-80 flex items-center justify-center p-4" onClick={onClose}>
+      <div className="relative max-w-4xl max-h-full" onClick={(e) => e.stopPropagation()}>
+        <button
+          type="button"
+          onClick={onClose}
+          className="absolute -top-10 right-0 text-white text-2xl"
+          aria-label={t('common.close')}
+        >
+          ×
+        </button>
+        {url ? (
+          <img src={url} alt={attachment.fileName} className="max-w-full max-h-[85vh] rounded-md" />
+        ) : (
+          <p className="text-white">{failed ? t('receipts.unavailable') : t('common.loading')}</p>
+        )}
+        {url && (
+          <a href={url} download={attachment.fileName} className="block mt-2 text-center text-sm text-blue-200 hover:text-white">
+            {t('receipts.download')}
+          </a>
+        )}
+      </div>
+    </div>
+  );
+};
+
+/**
+ * Receipt and pay-slip photos for a route, grouped by the income item or expense they belong to
+ */
+const ReceiptAttachments: React.FC<ReceiptAttachmentsProps> = ({ routeId, incomes, expenses = [], className = '' }) => {
+  const { t } = useTranslation();
+  const [attachments, setAttachments] = useState<Attachment[]>([]);
+  const [target, setTarget] = useState('route');
+  const [uploading, setUploading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [viewing, setViewing] = useState<Attachment | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    getAttachmentsByRouteId(routeId)
+      .then(setAttachments)
+      .catch(err => {
+        console.error('Error loading attachments:', err);
+        setError(t('receipts.error.load'));
+      });
+  }, [routeId, t]);
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      setUploading(true);
+      setError(null);
+      const { image, thumbnail } = await compressReceiptImage(file);
+      const attachment = await uploadAttachment({
+        routeId,
+        file: image,
+        thumbnail,
+        incomeSource: target.startsWith('income:') ? target.slice('income:'.length) : undefined,
+        expenseId: target.startsWith('expense:') ? target.slice('expense:'.length) : undefined,
+      });
+      setAttachments(prev => [...prev, attachment]);
+    } catch (err) {
+      console.error('Error uploading attachment:', err);
+      setError(t('receipts.error.upload'));
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  const handleDelete = async (attachment: Attachment) => {
+    if (!window.confirm(t('receipts.confirmDelete'))) return;
+
+    try {
+      await deleteAttachment(attachment.id);
+      setAttachments(prev => prev.filter(item => item.id !== attachment.id));
+    } catch (err) {
+      console.error('Error deleting attachment:', err);
+      setError(t('receipts.error.delete'));
+    }
+  };
+
+  const getGroupLabel = (attachment: Attachment) => {
+    if (attachment.incomeSource) return attachment.incomeSource;
+    if (attachment.expenseId) {
+      const expense = expenses.find(item => item.id === attachment.expenseId);
+      return expense ? t(`expenses.categories.${expense.category}`) : t('expenses.title');
+    }
+    return t('receipts.wholeRoute');
+  };
+
+  const groups = attachments.reduce<Record<string, Attachment[]>>((acc, attachment) => {
+    const label = getGroupLabel(attachment);
+    (acc[label] ||= []).push(attachment);
+    return acc;
+  }, {});
+
+  return (
+    <div className={`bg-white rounded-lg shadow p-6 ${className}`}>
+      <h2 className="text-lg font-semibold text-gray-900 mb-4">{t('receipts.title')}</h2>
+
+      {error && <p className="text-sm text-red-600 mb-3">{error}</p>}
+
+      <div className="flex flex-wrap gap-2 mb-4">
+        <select
+          value={target}
+          onChange={(e) => setTarget(e.target.value)}
+          className="flex-1 min-w-[10rem] px-3 py-2 border border-gray-300 rounded-md text-sm"
+          aria-label={t('receipts.attachTo')}
+        >
+          <option value="route">{t('receipts.wholeRoute')}</option>
+          {incomes.map(income => (
+            <option key={`income:${income.source}`} value={`income:${income.source}`}>{income.source}</option>
+          ))}
+          {expenses.map(expense => (
+            <option key={`expense:${expense.id}`} value={`expense:${expense.id}`}>
+              {t(`expenses.categories.${expense.category}`)}{expense.description ? ` - ${expense.description}` : ''}
+            </option>
+          ))}
+        </select>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept="image/*"
+          capture="environment"
+          onChange={handleFileChange}
+          className="hidden"
+        />
+        <button
+          type="button"
+          onClick={() => fileInputRef.current?.click()}
+          disabled={uploading}
+          className="px-4 py-2 bg-blue-600 text-white rounded-md text-sm hover:bg-blue-700 disabled:bg-blue-400"
+        >
+          {uploading ? t('receipts.uploading') : t('receipts.add')}
+        </button>
+      </div>
+
+      {attachments.length === 0 ? (
+        <p className="text-sm text-gray-500">{t('receipts.empty')}</p>
+      ) : (
+        <div className="space-y-4">
+          {Object.entries(groups).map(([label, items]) => (
+            <div key={label}>
+              <p className="text-sm text-gray-600 mb-2">{label}</p>
+              <div className="flex flex-wrap gap-3">
+                {items.map(attachment => (
+                  <AttachmentThumbnail
+                    key={attachment.id}
+                    attachment={attachment}
+                    onOpen={() => setViewing(attachment)}
+                    onDelete={() => handleDelete(attachment)}
+                  />
+                ))}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {viewing && <AttachmentViewer attachment={viewing} onClose={() => setViewing(null)} />}
+    </div>
+  );
+};
+
+export default ReceiptAttachments;
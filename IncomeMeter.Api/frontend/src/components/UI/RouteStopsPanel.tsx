@@ -0,0 +1,72 @@
+import React from 'react';
+import { useLanguage } from '../../contexts/LanguageContext';
+import { useSettings } from '../../contexts/SettingsContext';
+import { useTimezone } from '../../hooks/useTimezone';
+import { formatHours } from '../../utils/time';
+import type { RouteStops } from '../../types';
+
+interface RouteStopsPanelProps {
+  routeStops: RouteStops;
+  className?: string;
+}
+
+const RouteStopsPanel: React.FC<RouteStopsPanelProps> = ({ routeStops, className = '' }) => {
+  const { t } = useLanguage();
+  const { settings } = useSettings();
+  const { formatTime } = useTimezone(settings.timeZone);
+  const { stops, drivingMinutes, waitingMinutes } = routeStops;
+  const trailMinutes = drivingMinutes + waitingMinutes;
+  const waitingShare = trailMinutes > 0 ? waitingMinutes / trailMinutes * 100 : 0;
+
+  return (
+    <div className={`bg-white rounded-lg shadow p-6 ${className}`}>
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-lg font-semibold text-gray-900">{t('routeStops.title')}</h2>
+        <span className="text-sm text-gray-600">{t('routeStops.count', { count: stops.length })}</span>
+      </div>
+
+      <div className="grid grid-cols-2 gap-3 text-sm">
+        <div>
+          <p className="text-gray-600">{t('routeStops.driving')}</p>
+          <p className="font-semibold text-gray-900">{formatHours(drivingMinutes / 60)}</p>
+        </div>
+        <div>
+          <p className="text-gray-600">{t('routeStops.waiting')}</p>
+          <p className="font-semibold text-amber-600">
+            {formatHours(waitingMinutes / 60)}
+            {trailMinutes > 0 && <span className="ml-1 text-xs text-gray-500">({waitingShare.toFixed(0)}%)</span>}
+          </p>
+        </div>
+      </div>
+      {trailMinutes > 0 && (
+        <div className="mt-2 flex h-2 rounded-full overflow-hidden bg-blue-500">
+          <div className="bg-amber-400" style={{ width: `${waitingShare}%` }}></div>
+        </div>
+      )}
+
+      {stops.length === 0 ? (
+        <p className="mt-4 text-sm text-gray-500">{t('routeStops.empty')}</p>
+      ) : (
+        <ul className="mt-4 divide-y divide-gray-200 text-sm">
+          {stops.map((stop, index) => (
+            <li key={stop.startTime} className="py-2 flex items-start justify-between gap-3">
+              <div className="min-w-0">
+                <p className="font-medium text-gray-900">
+                  {index + 1}. {formatTime(stop.startTime)} – {formatTime(stop.endTime)}
+                </p>
+                <p className="text-gray-500 truncate">
+                  {stop.address || `${stop.latitude.toFixed(5)}, ${stop.longitude.toFixed(5)}`}
+                </p>
+              </div>
+              <span className="shrink-0 font-medium text-amber-600">
+                {t('routeStops.minutes', { minutes: Math.round(stop.durationMinutes) })}
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default RouteStopsPanel;
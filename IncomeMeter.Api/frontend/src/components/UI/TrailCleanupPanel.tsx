@@ -0,0 +1,179 @@
+import React, { useState } from 'react';
+import { useLanguage } from '../../contexts/LanguageContext';
+import { useSettings } from '../../contexts/SettingsContext';
+import type { TrailCleanup } from '../../hooks/useTrailCleanup';
+import { convertSpeed, getDisplayDistance } from '../../utils/distance';
+import type { RejectionReason } from '../../utils/trailProcessing';
+
+interface TrailCleanupPanelProps {
+  cleanup: TrailCleanup;
+  // Saves the cleaned distance as the route's distance; without it the panel only compares
+  onApplyDistance?: (distanceKm: number) => Promise<void>;
+  className?: string;
+}
+
+const TrailCleanupPanel: React.FC<TrailCleanupPanelProps> = ({ cleanup, onApplyDistance, className = '' }) => {
+  const { t } = useLanguage();
+  const { settings } = useSettings();
+  const { options, setOptions, trail } = cleanup;
+  const unit = settings.mileageUnit;
+  const [applying, setApplying] = useState(false);
+  const [applyResult, setApplyResult] = useState<'applied' | 'error' | null>(null);
+
+  const rejectedBy = (reason: RejectionReason) => trail.rejected.filter(item => item.reason === reason).length;
+  const difference = trail.rawDistanceKm > 0 ? (trail.cleanedDistanceKm - trail.rawDistanceKm) / trail.rawDistanceKm * 100 : 0;
+  const pointCount = trail.points.length + trail.rejected.length + trail.simplifiedCount;
+
+  const updateNumber = (key: 'maxAccuracyMeters' | 'simplifyToleranceMeters', value: string) => {
+    const parsed = parseFloat(value);
+    if (Number.isFinite(parsed) && parsed > 0) setOptions({ ...options, [key]: parsed });
+  };
+
+  const updateMaxSpeed = (value: string) => {
+    const parsed = parseFloat(value);
+    if (Number.isFinite(parsed) && parsed > 0) setOptions({ ...options, maxSpeedKmh: convertSpeed(parsed, unit, 'km') });
+  };
+
+  const applyDistance = async () => {
+    if (!onApplyDistance) return;
+    setApplying(true);
+    setApplyResult(null);
+    try {
+      await onApplyDistance(trail.cleanedDistanceKm);
+      setApplyResult('applied');
+    } catch (err) {
+      console.error('Error applying cleaned distance:', err);
+      setApplyResult('error');
+    } finally {
+      setApplying(false);
+    }
+  };
+
+  return (
+    <div className={`bg-gray-50 rounded-lg p-4 text-sm ${className}`}>
+      <label className="flex items-center justify-between">
+        <span className="font-medium text-gray-900">{t('trailCleanup.title')}</span>
+        <input
+          type="checkbox"
+          checked={options.enabled}
+          onChange={(e) => setOptions({ ...options, enabled: e.target.checked })}
+          className="rounded border-gray-300"
+        />
+      </label>
+
+      {!options.enabled ? (
+        <p className="text-xs text-gray-500 mt-1">{t('trailCleanup.description')}</p>
+      ) : (
+        <div className="mt-3 space-y-3">
+          <div className="grid grid-cols-2 gap-3">
+            <div className="bg-white rounded-md p-2 border">
+              <p className="text-xs text-gray-500">{t('trailCleanup.before')}</p>
+              <p className="font-semibold text-gray-900">{getDisplayDistance(trail.rawDistanceKm, 'km', unit).formatted}</p>
+              <p className="text-xs text-gray-500">{t('trailCleanup.points', { count: pointCount })}</p>
+            </div>
+            <div className="bg-white rounded-md p-2 border">
+              <p className="text-xs text-gray-500">{t('trailCleanup.after')}</p>
+              <p className="font-semibold text-gray-900">
+                {getDisplayDistance(trail.cleanedDistanceKm, 'km', unit).formatted}
+                {trail.rawDistanceKm > 0 && (
+                  <span className={`ml-1 text-xs ${difference < 0 ? 'text-green-600' : 'text-gray-500'}`}>
+                    {difference > 0 ? '+' : ''}{difference.toFixed(1)}%
+                  </span>
+                )}
+              </p>
+              <p className="text-xs text-gray-500">{t('trailCleanup.points', { count: trail.points.length })}</p>
+            </div>
+          </div>
+
+          {onApplyDistance && trail.points.length > 1 && (
+            <div className="flex items-center justify-between gap-3">
+              <button
+                type="button"
+                onClick={applyDistance}
+                disabled={applying}
+                className="bg-blue-600 hover:bg-blue-700 text-white px-3 py-1 rounded-md text-xs font-medium disabled:opacity-50"
+              >
+                {t(applying ? 'trailCleanup.applying' : 'trailCleanup.apply')}
+              </button>
+              {applyResult && (
+                <span className={`text-xs ${applyResult === 'error' ? 'text-red-600' : 'text-green-600'}`}>
+                  {applyResult === 'error'
+                    ? t('trailCleanup.applyError')
+                    : t('trailCleanup.applied', { distance: getDisplayDistance(trail.cleanedDistanceKm, 'km', unit).formatted })}
+                </span>
+              )}
+            </div>
+          )}
+
+          <p className="text-xs text-gray-600">
+            {t('trailCleanup.removed', {
+              inaccurate: rejectedBy('inaccurate'),
+              impossibleSpeed: rejectedBy('impossibleSpeed'),
+              simplified: trail.simplifiedCount,
+            })}
+          </p>
+
+          <div className="grid grid-cols-2 gap-3">
+            <label className="block">
+              <span className="text-xs text-gray-600">{t('trailCleanup.maxAccuracy')}</span>
+              <input
+                type="number"
+                min="1"
+                value={options.maxAccuracyMeters}
+                onChange={(e) => updateNumber('maxAccuracyMeters', e.target.value)}
+                className="mt-1 w-full px-2 py-1 border border-gray-300 rounded-md"
+              />
+            </label>
+            <label className="block">
+              <span className="text-xs text-gray-600">{t(unit === 'km' ? 'trailCleanup.maxSpeedKmh' : 'trailCleanup.maxSpeedMph')}</span>
+              <input
+                type="number"
+                min="1"
+                value={Math.round(convertSpeed(options.maxSpeedKmh, 'km', unit))}
+                onChange={(e) => updateMaxSpeed(e.target.value)}
+                className="mt-1 w-full px-2 py-1 border border-gray-300 rounded-md"
+              />
+            </label>
+          </div>
+
+          <label className="flex items-center space-x-2 text-gray-700">
+            <input
+              type="checkbox"
+              checked={options.kalman}
+              onChange={(e) => setOptions({ ...options, kalman: e.target.checked })}
+              className="rounded border-gray-300"
+            />
+            <span>{t('trailCleanup.kalman')}</span>
+          </label>
+
+          <div className="flex items-center justify-between gap-3">
+            <label className="flex items-center space-x-2 text-gray-700">
+              <input
+                type="checkbox"
+                checked={options.simplify}
+                onChange={(e) => setOptions({ ...options, simplify: e.target.checked })}
+                className="rounded border-gray-300"
+              />
+              <span>{t('trailCleanup.simplify')}</span>
+            </label>
+            {options.simplify && (
+              <label className="flex items-center space-x-1 text-xs text-gray-600">
+                <input
+                  type="number"
+                  min="1"
+                  value={options.simplifyToleranceMeters}
+                  onChange={(e) => updateNumber('simplifyToleranceMeters', e.target.value)}
+                  className="w-16 px-2 py-1 border border-gray-300 rounded-md"
+                  aria-label={t('trailCleanup.tolerance')}
+                />
+                <span>m</span>
+              </label>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TrailCleanupPanel;
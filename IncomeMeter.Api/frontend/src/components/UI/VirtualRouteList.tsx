@@ -0,0 +1,135 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import CompactRouteItem from './CompactRouteItem';
+import { getVirtualWindow } from '../../utils/virtualList';
+import type { Route, OutboxEntry } from '../../types';
+
+interface VirtualRouteListProps {
+  routes: Route[];
+  syncStatusByRoute: Map<string, OutboxEntry['status']>;
+  onEdit: (route: Route) => void;
+  onDelete: (route: Route) => void;
+  hasMore: boolean;
+  isFetchingMore: boolean;
+  loadMoreFailed: boolean;
+  onLoadMore: () => void;
+}
+
+// Rows count as this tall (a desktop row plus the gap below it) until they have been rendered and measured
+const ESTIMATED_ROW_HEIGHT = 88;
+
+/**
+ * Route list that only renders the rows near the viewport, so thousands of routes stay cheap to scroll.
+ * The page itself scrolls; the next page is requested once the last loaded row comes into range.
+ */
+const VirtualRouteList: React.FC<VirtualRouteListProps> = ({
+  routes,
+  syncStatusByRoute,
+  onEdit,
+  onDelete,
+  hasMore,
+  isFetchingMore,
+  loadMoreFailed,
+  onLoadMore,
+}) => {
+  const { t } = useTranslation();
+  const listRef = useRef<HTMLDivElement>(null);
+  const rowHeights = useRef(new Map<string, number>());
+  const [, setMeasuredRows] = useState(0);
+  const [viewport, setViewport] = useState({ scrollOffset: 0, height: window.innerHeight });
+
+  useEffect(() => {
+    let frame = 0;
+    const updateViewport = () => {
+      cancelAnimationFrame(frame);
+      frame = requestAnimationFrame(() => {
+        const listTop = listRef.current?.getBoundingClientRect().top ?? 0;
+        setViewport({ scrollOffset: -listTop, height: window.innerHeight });
+      });
+    };
+
+    updateViewport();
+    window.addEventListener('scroll', updateViewport, { passive: true });
+    window.addEventListener('resize', updateViewport);
+    return () => {
+      cancelAnimationFrame(frame);
+      window.removeEventListener('scroll', updateViewport);
+      window.removeEventListener('resize', updateViewport);
+    };
+  }, []);
+
+  // Rows are re-measured on every render, which also picks up the switch between mobile and desktop layouts
+  const measureRow = useCallback((routeId: string, node: HTMLDivElement | null) => {
+    if (!node) return;
+    const height = node.offsetHeight;
+    if (height > 0 && rowHeights.current.get(routeId) !== height) {
+      rowHeights.current.set(routeId, height);
+      setMeasuredRows(count => count + 1);
+    }
+  }, []);
+
+  const visible = getVirtualWindow({
+    itemCount: routes.length,
+    getItemHeight: index => rowHeights.current.get(routes[index].id) ?? ESTIMATED_ROW_HEIGHT,
+    scrollOffset: viewport.scrollOffset,
+    viewportHeight: viewport.height,
+  });
+
+  // A failed page waits for the retry button rather than being requested again on every scroll
+  const reachedEnd = visible.end >= routes.length;
+  useEffect(() => {
+    if (reachedEnd && hasMore && !isFetchingMore && !loadMoreFailed) {
+      onLoadMore();
+    }
+  }, [reachedEnd, hasMore, isFetchingMore, loadMoreFailed, onLoadMore]);
+
+  return (
+    <div ref={listRef}>
+      <div style={{ paddingTop: visible.paddingTop, paddingBottom: visible.paddingBottom }}>
+        {routes.slice(visible.start, visible.end).map(route => (
+          <div key={route.id} ref={node => measureRow(route.id, node)} className="pb-4">
+            <CompactRouteItem
+              route={route}
+              onEdit={onEdit}
+              onDelete={onDelete}
+              syncStatus={syncStatusByRoute.get(route.id)}
+            />
+          </div>
+        ))}
+      </div>
+
+      {isFetchingMore && (
+        <div className="flex items-center justify-center py-4 text-sm text-gray-600">
+          <div className="animate-spin rounded-full h-5 w-5 border-b-2 border-blue-600 mr-2"></div>
+          {t('routes.list.loadingMore')}
+        </div>
+      )}
+
+      {loadMoreFailed && !isFetchingMore && (
+        <div className="flex items-center justify-center py-4 space-x-3 text-sm text-red-700">
+          <span>{t('routes.list.loadMoreError')}</span>
+          <button
+            onClick={onLoadMore}
+            className="bg-red-100 hover:bg-red-200 text-red-800 px-3 py-1 rounded-md font-medium"
+          >
+            {t('common.retry')}
+          </button>
+        </div>
+      )}
+
+      {/* Keyboard and screen reader users can't rely on scrolling to reach the next page */}
+      {hasMore && !isFetchingMore && !loadMoreFailed && (
+        <div className="flex justify-center py-4">
+          <button
+            onClick={onLoadMore}
+            className="bg-gray-100 hover:bg-gray-200 text-gray-700 px-4 py-2 rounded-md text-sm font-medium"
+          >
+            {t('routes.list.loadMore')}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default VirtualRouteList;
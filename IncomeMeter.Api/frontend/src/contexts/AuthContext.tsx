@@ -1,8 +1,21 @@
 /* eslint-disable react-refresh/only-export-components */
-import React, { createContext, useContext, useState, useEffect, type ReactNode } from 'react';
+import React, { createContext, useContext, useState, useEffect, useRef, type ReactNode } from 'react';
 import type { User } from '../types';
 import * as authApi from '../utils/api';
 import { API_BASE_URL } from '../utils/api';
+import { clearQueryCache } from '../utils/queryCache';
+import {
+  REFRESH_LEEWAY_MS,
+  SIGN_IN_WINDOW_NAME,
+  abandonSession,
+  clearSession,
+  getAccessToken,
+  getTokenExpiry,
+  handleSessionStorageEvent,
+  isTokenExpiring,
+  subscribeToSession,
+  type SessionStatus,
+} from '../utils/session';
 
 interface AuthContextType {
   user: User | null;
@@ -11,6 +24,9 @@ interface AuthContextType {
   logout: () => Promise<void>;
   setUser: (user: User | null) => void;
   isAuthenticated: boolean;
+  sessionExpired: boolean;
+  signInAgain: () => void;
+  endExpiredSession: () => void;
 }
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
@@ -30,11 +46,70 @@ interface AuthProviderProps {
 export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
   const [user, setUser] = useState<User | null>(null);
   const [loading, setLoading] = useState(true);
+  const [sessionStatus, setSessionStatus] = useState<SessionStatus>('active');
+  const userRef = useRef<User | null>(null);
+  userRef.current = user;
+  const sessionStatusRef = useRef<SessionStatus>('active');
 
   useEffect(() => {
     checkAuthStatus();
   }, []);
 
+  useEffect(() => {
+    const unsubscribe = subscribeToSession(status => {
+      // Nobody is signed in to keep anything for (e.g. the startup profile check), so fail straight away
+      if (status === 'expired' && !userRef.current) {
+        abandonSession();
+        return;
+      }
+      // Signing in again may have been as someone else, whose pages must not be served from the previous user's cache
+      if (status === 'active' && sessionStatusRef.current === 'expired' && getAccessToken()) {
+        authApi.getProfile()
+          .then(profile => {
+            if (profile.id !== userRef.current?.id) {
+              clearQueryCache();
+              setUser(profile);
+            }
+          })
+          .catch(error => console.warn('Could not load the signed-in profile:', error));
+      }
+      sessionStatusRef.current = status;
+      setSessionStatus(status);
+    });
+    window.addEventListener('storage', handleSessionStorageEvent);
+    return () => {
+      unsubscribe();
+      window.removeEventListener('storage', handleSessionStorageEvent);
+    };
+  }, []);
+
+  // Renew the access token shortly before it expires; requests also renew on demand if this timer was throttled
+  useEffect(() => {
+    if (!user || sessionStatus !== 'active') return;
+
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const scheduleRenewal = () => {
+      const token = getAccessToken();
+      const expiry = token ? getTokenExpiry(token) : null;
+      if (expiry === null) return;
+
+      timer = setTimeout(() => {
+        // Another tab may already have renewed the shared token
+        const current = getAccessToken();
+        if (current && !isTokenExpiring(current)) {
+          scheduleRenewal();
+          return;
+        }
+        authApi.renewAccessToken()
+          .then(scheduleRenewal)
+          .catch(error => console.warn('Scheduled session renewal failed:', error));
+      }, Math.max(0, expiry - REFRESH_LEEWAY_MS - Date.now()));
+    };
+
+    scheduleRenewal();
+    return () => clearTimeout(timer);
+  }, [user, sessionStatus]);
+
   const checkAuthStatus = async () => {
     try {
       const token = localStorage.getItem('accessToken');
@@ -43,7 +118,7 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
         setUser(userData);
       }
     } catch (error) {
-      localStorage.removeItem('accessToken');
+      clearSession();
       console.error('Auth check failed:', error);
     } finally {
       setLoading(false);
@@ -67,12 +142,30 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     } catch (error) {
       console.error('Logout error:', error);
     } finally {
-      localStorage.removeItem('accessToken');
+      clearSession();
+      clearQueryCache();
       setUser(null);
       window.location.href = '/login';
     }
   };
 
+  // Sign in through a popup so the page behind the session-expired prompt keeps its unsaved state
+  const signInAgain = () => {
+    const params = new URLSearchParams({ returnUrl: window.location.pathname });
+    const popup = window.open(`${API_BASE_URL}/api/auth/login?${params}`, SIGN_IN_WINDOW_NAME, 'width=500,height=650');
+    if (!popup) {
+      // Popups blocked - a full redirect is the only way left to sign in
+      login(window.location.pathname);
+    }
+  };
+
+  const endExpiredSession = () => {
+    abandonSession();
+    clearQueryCache();
+    setUser(null);
+    window.location.href = '/login';
+  };
+
   const value: AuthContextType = {
     user,
     loading,
@@ -80,6 +173,9 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     logout,
     setUser,
     isAuthenticated: !!user,
+    sessionExpired: sessionStatus === 'expired',
+    signInAgain,
+    endExpiredSession,
   };
 
   return (
@@ -0,0 +1,132 @@
+/* eslint-disable react-refresh/only-export-components */
+import React, { createContext, useContext, useState, useEffect, useCallback, type ReactNode } from 'react';
+import type { OutboxEntry } from '../types';
+import { useAuth } from './AuthContext';
+import { syncOfflineOutbox } from '../utils/api';
+import { invalidateRouteQueries } from '../utils/routeQueries';
+import {
+  getOutboxEntries,
+  subscribeToOutbox,
+  retryOutboxEntry,
+  discardOutboxEntry,
+} from '../utils/offlineOutbox';
+
+interface OutboxContextType {
+  entries: OutboxEntry[];
+  pendingCount: number;
+  failedCount: number;
+  isOnline: boolean;
+  isSyncing: boolean;
+  lastSyncAt: Date | null;
+  syncNow: () => Promise<void>;
+  retryEntry: (id: number) => Promise<void>;
+  discardEntry: (id: number) => Promise<void>;
+  getEntriesForRoute: (routeId: string) => OutboxEntry[];
+}
+
+const OutboxContext = createContext<OutboxContextType | undefined>(undefined);
+
+export const useOutbox = () => {
+  const context = useContext(OutboxContext);
+  if (context === undefined) {
+    throw new Error('useOutbox must be used within an OutboxProvider');
+  }
+  return context;
+};
+
+interface OutboxProviderProps {
+  children: ReactNode;
+}
+
+export const OutboxProvider: React.FC<OutboxProviderProps> = ({ children }) => {
+  const { isAuthenticated } = useAuth();
+  const [entries, setEntries] = useState<OutboxEntry[]>([]);
+  const [isOnline, setIsOnline] = useState(() => navigator.onLine);
+  const [isSyncing, setIsSyncing] = useState(false);
+  const [lastSyncAt, setLastSyncAt] = useState<Date | null>(null);
+
+  const loadEntries = useCallback(async () => {
+    try {
+      setEntries(await getOutboxEntries());
+    } catch (error) {
+      // IndexedDB unavailable (e.g. private browsing) - the outbox simply stays empty
+      console.warn('Offline outbox unavailable:', error);
+    }
+  }, []);
+
+  const syncNow = useCallback(async () => {
+    if (!navigator.onLine || !isAuthenticated) return;
+
+    setIsSyncing(true);
+    try {
+      const result = await syncOfflineOutbox();
+      if (result.synced > 0) {
+        // Cached lists still hold the placeholders the synced routes replace
+        invalidateRouteQueries();
+        setLastSyncAt(new Date());
+      }
+    } catch (error) {
+      console.error('Offline outbox sync failed:', error);
+    } finally {
+      setIsSyncing(false);
+    }
+  }, [isAuthenticated]);
+
+  useEffect(() => {
+    loadEntries();
+    return subscribeToOutbox(loadEntries);
+  }, [loadEntries]);
+
+  // Replay anything left over from a previous session once the user is signed in
+  useEffect(() => {
+    syncNow();
+  }, [syncNow]);
+
+  useEffect(() => {
+    const handleOnline = () => {
+      setIsOnline(true);
+      syncNow();
+    };
+    const handleOffline = () => setIsOnline(false);
+
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+    };
+  }, [syncNow]);
+
+  const retryEntry = useCallback(async (id: number) => {
+    await retryOutboxEntry(id);
+    await syncNow();
+  }, [syncNow]);
+
+  const discardEntry = useCallback(async (id: number) => {
+    await discardOutboxEntry(id);
+  }, []);
+
+  const getEntriesForRoute = useCallback(
+    (routeId: string) => entries.filter(entry => entry.routeId === routeId || entry.tempId === routeId),
+    [entries]
+  );
+
+  const value: OutboxContextType = {
+    entries,
+    pendingCount: entries.filter(entry => entry.status === 'pending').length,
+    failedCount: entries.filter(entry => entry.status === 'failed').length,
+    isOnline,
+    isSyncing,
+    lastSyncAt,
+    syncNow,
+    retryEntry,
+    discardEntry,
+    getEntriesForRoute,
+  };
+
+  return (
+    <OutboxContext.Provider value={value}>
+      {children}
+    </OutboxContext.Provider>
+  );
+};
@@ -20,6 +20,7 @@ const defaultSettings: UserSettings = {
   showWeekends: true,
   mileageUnit: 'mi',
   fiscalYearStartDate: '04-06', // UK tax year default
+  earningsGoals: [],
 };
 
 const SettingsContext = createContext<SettingsContextType | undefined>(undefined);
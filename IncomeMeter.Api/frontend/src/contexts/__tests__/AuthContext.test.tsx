@@ -2,6 +2,7 @@
 import { render, screen, fireEvent, waitFor, act } from '@testing-library/react';
 import { AuthProvider, useAuth } from '../AuthContext';
 import * as authApi from '../../utils/api';
+import { getQueryData, setQueryData } from '../../utils/queryCache';
 
 // Mock API calls
 jest.mock('../../utils/api', () => ({
@@ -185,6 +186,7 @@ describe('AuthContext', () => {
       await waitFor(() => {
         expect(screen.getByTestId('authenticated')).toHaveTextContent('Authenticated');
       });
+      setQueryData(['routes', 'list', {}], [{ id: 'route-1' }]);
       
       const logoutButton = screen.getByText('Logout');
       fireEvent.click(logoutButton);
@@ -192,6 +194,7 @@ describe('AuthContext', () => {
       await waitFor(() => {
         expect(mockAuthApi.logout).toHaveBeenCalledTimes(1);
         expect(localStorage.getItem('accessToken')).toBeNull();
+        expect(getQueryData(['routes', 'list', {}])).toBeUndefined();
         expect(window.location.href).toBe('/login');
       });
     });
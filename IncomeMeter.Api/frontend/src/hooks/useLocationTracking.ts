@@ -0,0 +1,150 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { createLocation } from '../utils/api';
+import {
+  TRACKING_PROFILES,
+  evaluateFix,
+  shouldFlush,
+  toTrackedPoint,
+  type FixDecision,
+  type TrackedPoint,
+  type TrackingProfile,
+} from '../utils/geoTracking';
+
+export type TrackingStatus = 'off' | 'waiting' | 'tracking' | 'error' | 'unsupported';
+export type TrackingError = 'permissionDenied' | 'unavailable' | 'timeout';
+
+export interface TrackingStats {
+  recorded: number;
+  skipped: number;
+  sent: number;
+  pending: number;
+}
+
+export interface LocationTracking {
+  status: TrackingStatus;
+  error: TrackingError | null;
+  lastFix: TrackedPoint | null;
+  lastDecision: FixDecision | null;
+  stats: TrackingStats;
+  flush: () => Promise<void>;
+}
+
+const FLUSH_CHECK_MS = 15 * 1000;
+
+const toTrackingError = (error: GeolocationPositionError): TrackingError => {
+  if (error.code === error.PERMISSION_DENIED) return 'permissionDenied';
+  if (error.code === error.TIMEOUT) return 'timeout';
+  return 'unavailable';
+};
+
+/**
+ * Records the device position with watchPosition while enabled, keeping only accurate fixes that
+ * moved far enough, and posts them to the route in batches. Points are sent through createLocation,
+ * so batches flushed without a connection wait in the offline outbox.
+ */
+export const useLocationTracking = (
+  routeId: string | undefined,
+  enabled: boolean,
+  profile: TrackingProfile,
+  onSent?: () => void
+): LocationTracking => {
+  const supported = typeof navigator !== 'undefined' && 'geolocation' in navigator;
+  const [status, setStatus] = useState<TrackingStatus>(supported ? 'off' : 'unsupported');
+  const [error, setError] = useState<TrackingError | null>(null);
+  const [lastFix, setLastFix] = useState<TrackedPoint | null>(null);
+  const [lastDecision, setLastDecision] = useState<FixDecision | null>(null);
+  const [stats, setStats] = useState<TrackingStats>({ recorded: 0, skipped: 0, sent: 0, pending: 0 });
+  const pendingRef = useRef<TrackedPoint[]>([]);
+  const lastRecordedRef = useRef<TrackedPoint | null>(null);
+  const flushingRef = useRef(false);
+  const onSentRef = useRef(onSent);
+
+  useEffect(() => {
+    onSentRef.current = onSent;
+  }, [onSent]);
+
+  const flush = useCallback(async () => {
+    if (!routeId || flushingRef.current || pendingRef.current.length === 0) return;
+
+    flushingRef.current = true;
+    let sent = 0;
+    try {
+      // One at a time and in order, so the server's distance-from-last stays correct
+      while (pendingRef.current.length > 0) {
+        const point = pendingRef.current[0];
+        await createLocation({ routeId, ...point });
+        pendingRef.current = pendingRef.current.slice(1);
+        sent++;
+      }
+    } catch (err) {
+      // Left in the queue and retried on the next flush
+      console.error('Error sending tracked locations:', err);
+    } finally {
+      flushingRef.current = false;
+      setStats(prev => ({ ...prev, sent: prev.sent + sent, pending: pendingRef.current.length }));
+      if (sent > 0) onSentRef.current?.();
+    }
+  }, [routeId]);
+
+  useEffect(() => {
+    if (!supported || !enabled || !routeId) {
+      setStatus(supported ? 'off' : 'unsupported');
+      return;
+    }
+
+    const settings = TRACKING_PROFILES[profile];
+    setStatus('waiting');
+    setError(null);
+
+    const watchId = navigator.geolocation.watchPosition(
+      position => {
+        const point = toTrackedPoint(position);
+        const decision = evaluateFix(point, lastRecordedRef.current, settings);
+        setLastFix(point);
+        setLastDecision(decision);
+        setStatus('tracking');
+
+        if (decision !== 'accepted') {
+          setStats(prev => ({ ...prev, skipped: prev.skipped + 1 }));
+          return;
+        }
+
+        lastRecordedRef.current = point;
+        pendingRef.current = [...pendingRef.current, point];
+        setStats(prev => ({ ...prev, recorded: prev.recorded + 1, pending: pendingRef.current.length }));
+        if (shouldFlush(pendingRef.current, settings)) {
+          flush();
+        }
+      },
+      positionError => {
+        setError(toTrackingError(positionError));
+        setStatus('error');
+      },
+      {
+        enableHighAccuracy: settings.enableHighAccuracy,
+        maximumAge: settings.minIntervalMs / 2,
+        timeout: 60 * 1000,
+      }
+    );
+
+    // Time-based flushes, for slow-moving shifts that never fill a batch
+    const flushTimer = window.setInterval(() => {
+      if (shouldFlush(pendingRef.current, settings)) flush();
+    }, FLUSH_CHECK_MS);
+
+    // Mobile browsers may discard a hidden tab, so send what we have before that happens
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === 'hidden') flush();
+    };
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+
+    return () => {
+      navigator.geolocation.clearWatch(watchId);
+      window.clearInterval(flushTimer);
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+      flush();
+    };
+  }, [supported, enabled, routeId, profile, flush]);
+
+  return { status, error, lastFix, lastDecision, stats, flush };
+};
@@ -0,0 +1,75 @@
+import { useCallback, useEffect, useMemo, useRef, useSyncExternalStore } from 'react';
+import {
+  DEFAULT_STALE_TIME_MS,
+  fetchQuery,
+  getQueryState,
+  hashQueryKey,
+  subscribeToQuery,
+  type QueryKey,
+} from '../utils/queryCache';
+
+export interface QueryOptions {
+  enabled?: boolean;
+  staleTime?: number;
+  keepPreviousData?: boolean; // show the last key's data while a new key loads for the first time
+}
+
+export interface QueryResult<T> {
+  data: T | undefined;
+  error: unknown;
+  isLoading: boolean;   // no data for this key yet
+  isFetching: boolean;  // a request is in flight, possibly behind cached data
+  refetch: () => Promise<T>;
+}
+
+/**
+ * Read a query through the shared cache: cached data is returned straight away and refetched in the
+ * background when stale, on mount and whenever the tab becomes visible again
+ */
+export const useQuery = <T>(key: QueryKey, fetcher: () => Promise<T>, { enabled = true, staleTime = DEFAULT_STALE_TIME_MS, keepPreviousData = false }: QueryOptions = {}): QueryResult<T> => {
+  // Callers build a new key array every render, so it is only replaced when its contents change
+  const hash = hashQueryKey(key);
+  const queryKey = useMemo<QueryKey>(() => JSON.parse(hash), [hash]);
+  const fetcherRef = useRef(fetcher);
+  fetcherRef.current = fetcher;
+
+  const subscribe = useCallback((listener: () => void) => subscribeToQuery(queryKey, listener), [queryKey]);
+  const getSnapshot = useCallback(() => getQueryState<T>(queryKey), [queryKey]);
+  const state = useSyncExternalStore(subscribe, getSnapshot);
+
+  const load = useCallback(
+    (force: boolean) => fetchQuery(queryKey, () => fetcherRef.current(), { staleTime, force }),
+    [queryKey, staleTime]
+  );
+
+  const refetch = useCallback(() => load(true), [load]);
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    // Failures are kept in the query state, so there is nothing to do with them here
+    load(false).catch(() => undefined);
+
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === 'visible') {
+        load(false).catch(() => undefined);
+      }
+    };
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    return () => document.removeEventListener('visibilitychange', handleVisibilityChange);
+  }, [enabled, load]);
+
+  const previousData = useRef<T | undefined>(undefined);
+  if (state?.data !== undefined) {
+    previousData.current = state.data;
+  }
+  const isLoading = enabled && state?.data === undefined && (state?.isFetching || state?.error === undefined);
+
+  return {
+    data: state?.data ?? (keepPreviousData && isLoading ? previousData.current : undefined),
+    error: state?.error,
+    isLoading,
+    isFetching: state?.isFetching ?? false,
+    refetch,
+  };
+};
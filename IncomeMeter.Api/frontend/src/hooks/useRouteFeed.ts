@@ -0,0 +1,54 @@
+import { useCallback, useRef, useState } from 'react';
+import { useQuery, type QueryResult } from './useQuery';
+import { getQueryData, hashQueryKey } from '../utils/queryCache';
+import { fetchNextRoutePage, fetchRouteFeed, routeKeys, type RouteFeed } from '../utils/routeQueries';
+import type { RoutePageQuery } from '../types';
+
+export interface RouteFeedResult extends QueryResult<RouteFeed> {
+  hasMore: boolean;
+  isFetchingMore: boolean;
+  loadMoreError: unknown;
+  loadMore: () => Promise<void>;
+}
+
+/**
+ * Routes matching the query, a page at a time. The pages loaded so far are cached as one feed, so
+ * coming back to the list shows them straight away, and loadMore appends the next page.
+ */
+export const useRouteFeed = (query: RoutePageQuery): RouteFeedResult => {
+  const key = routeKeys.feed(query);
+  const feedQuery = useQuery(
+    key,
+    () => fetchRouteFeed(query, getQueryData<RouteFeed>(key)?.pageCount),
+    { keepPreviousData: true }
+  );
+  const [isFetchingMore, setIsFetchingMore] = useState(false);
+  // Kept per query so a failure doesn't stop the next search from paging
+  const [loadMoreFailure, setLoadMoreFailure] = useState<{ hash: string; error: unknown } | null>(null);
+
+  const queryRef = useRef(query);
+  queryRef.current = query;
+
+  const loadMore = useCallback(async () => {
+    const currentQuery = queryRef.current;
+    setIsFetchingMore(true);
+    setLoadMoreFailure(null);
+    try {
+      await fetchNextRoutePage(currentQuery);
+    } catch (error) {
+      console.error('Error loading more routes:', error);
+      setLoadMoreFailure({ hash: hashQueryKey(routeKeys.feed(currentQuery)), error });
+    } finally {
+      setIsFetchingMore(false);
+    }
+  }, []);
+
+  return {
+    ...feedQuery,
+    // The previous query's feed may still be showing while the new one loads
+    hasMore: !feedQuery.isLoading && Boolean(feedQuery.data?.nextCursor),
+    isFetchingMore,
+    loadMoreError: loadMoreFailure?.hash === hashQueryKey(key) ? loadMoreFailure.error : null,
+    loadMore,
+  };
+};
@@ -0,0 +1,32 @@
+import { useState, useMemo, useCallback } from 'react';
+import type { Location } from '../types';
+import {
+  loadTrailCleanupOptions,
+  saveTrailCleanupOptions,
+  processTrail,
+  type ProcessedTrail,
+  type TrailCleanupOptions,
+} from '../utils/trailProcessing';
+
+export interface TrailCleanup {
+  options: TrailCleanupOptions;
+  setOptions: (options: TrailCleanupOptions) => void;
+  trail: ProcessedTrail<Location>;
+}
+
+/**
+ * Processes a route's locations with the user's trail cleanup options, which are remembered
+ * so the map and the location list show the same cleaned trail
+ */
+export const useTrailCleanup = (locations: Location[]): TrailCleanup => {
+  const [options, setOptionsState] = useState<TrailCleanupOptions>(loadTrailCleanupOptions);
+
+  const setOptions = useCallback((next: TrailCleanupOptions) => {
+    setOptionsState(next);
+    saveTrailCleanupOptions(next);
+  }, []);
+
+  const trail = useMemo(() => processTrail(locations, options), [locations, options]);
+
+  return { options, setOptions, trail };
+};
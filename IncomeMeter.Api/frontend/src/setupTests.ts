@@ -1,5 +1,6 @@
 /* eslint-disable @typescript-eslint/no-explicit-any */
 import '@testing-library/jest-dom';
+import { deserialize, serialize } from 'v8';
 
 // Mock IntersectionObserver
 global.IntersectionObserver = class IntersectionObserver {
@@ -37,6 +38,11 @@ Object.defineProperty(window, 'matchMedia', {
   })),
 });
 
+// jsdom has no structuredClone, which fake-indexeddb uses to store records
+if (typeof global.structuredClone === 'undefined') {
+  global.structuredClone = ((value: unknown) => deserialize(serialize(value))) as typeof structuredClone;
+}
+
 // Mock localStorage
 const localStorageMock = {
   getItem: jest.fn(),
@@ -1,6 +1,13 @@
+import type { DashboardStatsDto, IncomeSourceTemplateDto, WorkTypeConfigResponseDto } from '@incomemeter/api-client';
+
 // Period types for dashboard
 export type PeriodType = 'weekly' | 'monthly' | 'annual';
 
+// A fixed period, or an arbitrary from/to range
+export type ChartPeriod = PeriodType | 'custom';
+
+export type ComparisonMode = 'none' | 'previous' | 'lastYear';
+
 export interface User {
   id: string;
   name: string;
@@ -22,6 +29,21 @@ export interface UserSettings {
   showWeekends: boolean;
   mileageUnit: 'km' | 'mi';
   fiscalYearStartDate: string; // Format: "MM-DD" (e.g., "04-06" for April 6th)
+  earningsGoals?: EarningsGoal[];
+  vehicleCosts?: VehicleCostModel;
+}
+
+export interface EarningsGoal {
+  id: string;
+  period: PeriodType;
+  amount: number;
+  workType?: string; // omitted for a goal on total income across all work types
+}
+
+export interface VehicleCostModel {
+  fuelPricePerLitre: number;   // in the user's currency
+  milesPerGallon: number;      // imperial gallons
+  depreciationPerMile: number; // wear, tyres, servicing and loss of value
 }
 
 export interface AuthResponse {
@@ -36,6 +58,8 @@ export interface Route {
   userId: string;
   workType?: string;
   workTypeId?: string;
+  recurringScheduleId?: string; // set on routes generated from a recurring schedule
+  calendarUid?: string; // UID of the .ics event the route was imported from
   status: 'completed' | 'in_progress' | 'scheduled' | 'cancelled';
   scheduleStart: Date;
   scheduleEnd: Date;
@@ -47,10 +71,45 @@ export interface Route {
   distance: number;
   startMile?: number;
   endMile?: number;
+  mileageSource?: MileageSource; // recorded when odometer and GPS mileage were reconciled
+  taxMiles?: number;
+  mileageReconciledAt?: string;
+  notes?: string;
   createdAt: Date | string;
   updatedAt: Date | string;
 }
 
+// Filters, search and sort for /api/routes/page, all applied by the API
+export interface RoutePageQuery {
+  status?: string;
+  startDate?: string; // YYYY-MM-DD
+  endDate?: string;
+  workTypes?: string[];
+  incomeSources?: string[];
+  search?: string; // matches work type, income sources and notes
+  sort?: string;   // one of the SortOption values
+}
+
+export interface RoutePage {
+  items: Route[];
+  nextCursor?: string | null; // null on the last page
+  totalCount?: number | null; // only sent with the first page
+}
+
+export type MileageSource = 'odometer' | 'gps';
+
+export interface MileageReconciliation {
+  routeId: string;
+  workType?: string;
+  scheduleStart: string;
+  odometerMiles: number;
+  gpsMiles: number;
+  locationCount: number;
+  mileageSource?: MileageSource | null;
+  taxMiles?: number | null;
+  mileageReconciledAt?: string | null;
+}
+
 export interface Transaction {
   id: string;
   amount: number;
@@ -61,24 +120,51 @@ export interface Transaction {
   userId: string;
 }
 
-export interface DashboardStats {
-  last7DaysIncome: number;
-  previous7DaysIncome: number;
-  currentMonthIncome: number;
-  netIncome: number;
-  last7DaysMileage: number;
-  currentMonthMileage: number;
-  incomeBySource: Record<string, {
-    income: number;
-    totalScheduledHours: number;
-    totalMileage: number;
-  }>;
-  dailyIncomeData: {
-    date: string;
-    income: number;
-  }[];
+export type ExpenseCategory = 'fuel' | 'parking' | 'tolls' | 'maintenance' | 'phone';
+
+export interface Expense {
+  id: string;
+  userId: string;
+  routeId?: string; // unlinked expenses (e.g. phone bills) only count towards period totals
+  category: ExpenseCategory;
+  amount: number;
+  date: Date | string;
+  description?: string;
+  createdAt: Date | string;
+  updatedAt: Date | string;
 }
 
+export interface CreateExpenseRequest {
+  routeId?: string;
+  category: ExpenseCategory;
+  amount: number;
+  date: string;
+  description?: string;
+}
+
+export interface UpdateExpenseRequest {
+  routeId?: string; // '' unlinks the expense from its route
+  category?: ExpenseCategory;
+  amount?: number;
+  date?: string;
+  description?: string;
+}
+
+export interface Attachment {
+  id: string;
+  routeId: string;
+  incomeSource?: string; // matches Route.incomes[].source
+  expenseId?: string;
+  fileName: string;
+  contentType: string;
+  size: number;
+  hasThumbnail: boolean;
+  createdAt: string;
+}
+
+// Generated from the API's OpenAPI document
+export type DashboardStats = DashboardStatsDto;
+
 export interface WeeklyIncomeData {
   period: 'weekly';
   weekNumber: number;
@@ -134,6 +220,8 @@ export interface ChartDataPoint {
   label: string;
   date: string;
   income: number;
+  expenses: number;
+  netIncome: number;
   routes: number;
   distance: number;
 }
@@ -147,21 +235,30 @@ export interface PeriodNavigation {
 
 // Unified period data interface
 export interface PeriodIncomeData {
-  period: PeriodType;
+  period: ChartPeriod;
+  granularity?: 'daily' | 'weekly' | 'monthly'; // custom ranges only
   startDate: string;
   endDate: string;
   totalIncome: number;
+  totalExpenses: number;
+  netIncome: number;
   totalRoutes: number;
   totalDistance: number;
   chartData: ChartDataPoint[];
   navigation: PeriodNavigation;
+  expensesByCategory: Partial<Record<ExpenseCategory, number>>;
   incomeBySource: Record<string, {
     income: number;
+    expenses: number;
+    netIncome: number;
     routes: number;
     totalWorkingHours: number;
     totalMileage: number;
     hourlyRate: number;
     earningsPerMile: number;
+    drivingHours?: number; // from the location trails of trackedRoutes
+    waitingHours?: number;
+    trackedRoutes?: number;
     incomeBySource: Record<string, number>;
   }>;
 }
@@ -179,24 +276,9 @@ export interface RegisterFormData {
   dateFormat: string;
 }
 
-export interface IncomeSourceTemplate {
-  name: string;
-  category?: string;
-  defaultAmount?: number;
-  isRequired: boolean;
-  description?: string;
-  displayOrder: number;
-}
+export type IncomeSourceTemplate = IncomeSourceTemplateDto;
 
-export interface WorkTypeConfig {
-  id: string;
-  name: string;
-  description?: string;
-  incomeSourceTemplates: IncomeSourceTemplate[];
-  isActive: boolean;
-  createdAt: string;
-  updatedAt: string;
-}
+export type WorkTypeConfig = WorkTypeConfigResponseDto;
 
 export interface CreateWorkTypeConfigRequest {
   name: string;
@@ -212,6 +294,49 @@ export interface UpdateWorkTypeConfigRequest {
   isActive?: boolean;
 }
 
+export type ScheduleFrequency = 'daily' | 'weekly';
+
+export interface RecurringSchedule {
+  id: string;
+  userId: string;
+  workTypeId: string;
+  workType: string;
+  frequency: ScheduleFrequency;
+  interval: number; // every N days or weeks
+  daysOfWeek: number[]; // 0 = Sunday ... 6 = Saturday, weekly only
+  startTime: string; // HH:mm local; an end at or before the start finishes the next day
+  endTime: string;
+  timeZone: string;
+  startDate: string;
+  endDate?: string | null;
+  exceptionDates: string[];
+  estimatedIncome?: number | null;
+  weeksAhead: number;
+  isActive: boolean;
+  materializedThrough?: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface CreateRecurringScheduleRequest {
+  workTypeId: string;
+  frequency: ScheduleFrequency;
+  interval: number;
+  daysOfWeek: number[];
+  startTime: string;
+  endTime: string;
+  startDate: string; // YYYY-MM-DD
+  endDate?: string;
+  exceptionDates: string[];
+  estimatedIncome?: number;
+  weeksAhead: number;
+  isActive: boolean;
+}
+
+export interface UpdateRecurringScheduleRequest extends Partial<CreateRecurringScheduleRequest> {
+  clearEndDate?: boolean;
+}
+
 export interface Location {
   id: string;
   routeId: string;
@@ -225,6 +350,65 @@ export interface Location {
   distanceFromLastKm?: number | null;
 }
 
+export interface ImportLocationPoint {
+  latitude: number;
+  longitude: number;
+  timestamp: string;
+  accuracy?: number;
+  speed?: number;
+}
+
+export interface LocationImportResult {
+  imported: number;
+  skipped: number;
+  trailDistanceKm: number;
+  trailDistanceMi: number;
+  routeDistanceUpdated: boolean;
+}
+
+// A place the trail stayed within a small radius for a few minutes or more
+export interface DwellSegment {
+  startTime: string;
+  endTime: string;
+  durationMinutes: number;
+  latitude: number;
+  longitude: number;
+  pointCount: number;
+  address?: string | null;
+}
+
+export interface RouteStops {
+  routeId: string;
+  stops: DwellSegment[];
+  drivingMinutes: number;
+  waitingMinutes: number;
+}
+
+export interface EarningsHeatmapQuery {
+  startDate: string; // YYYY-MM-DD, inclusive
+  endDate: string;
+  workType?: string;
+  startHour?: number; // local hour of day, 0-23
+  endHour?: number;   // exclusive, 1-24; below startHour wraps past midnight
+}
+
+// One grid square of the earnings map; latitude/longitude are its south-west corner
+export interface EarningsHeatmapCell {
+  latitude: number;
+  longitude: number;
+  hours: number;
+  income: number;
+  incomePerHour: number;
+  routeCount: number;
+}
+
+export interface EarningsHeatmap {
+  cellSizeDegrees: number;
+  cells: EarningsHeatmapCell[];
+  routeCount: number;
+  workTypes: string[];
+}
+
 export interface ConfigurationResponse {
   user: UserInfo;
   workTypes: WorkTypeConfigResponseDto[];
@@ -240,24 +424,7 @@ export interface UserInfo {
   timeZone: string;
 }
 
-export interface WorkTypeConfigResponseDto {
-  id: string;
-  name: string;
-  description?: string;
-  incomeSourceTemplates: IncomeSourceTemplateDto[];
-  isActive: boolean;
-  createdAt: string;
-  updatedAt: string;
-}
-
-export interface IncomeSourceTemplateDto {
-  name: string;
-  category?: string;
-  defaultAmount?: number;
-  isRequired: boolean;
-  description?: string;
-  displayOrder: number;
-}
+export type { IncomeSourceTemplateDto, WorkTypeConfigResponseDto };
 
 export interface ApiEndpoints {
   startRoute: string;
@@ -282,3 +449,19 @@ export interface FilterOption {
   count?: number;
 }
 
+
+// Offline outbox types
+export type OutboxMutationType = 'createRoute' | 'startRoute' | 'endRoute' | 'createLocation' | 'createExpense';
+
+export interface OutboxEntry {
+  id?: number; // IndexedDB auto-increment key, also the replay order
+  type: OutboxMutationType;
+  payload: Record<string, unknown>;
+  tempId: string; // placeholder id handed back to the UI while the mutation is queued
+  routeId?: string; // route the mutation belongs to (may itself be a temp id)
+  placeholder?: Route | Location | Expense;
+  status: 'pending' | 'failed';
+  attempts: number;
+  lastError?: string;
+  createdAt: string;
+}
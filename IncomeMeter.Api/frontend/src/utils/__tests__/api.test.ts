@@ -331,12 +331,14 @@ describe('API Utils', () => {
   });
 
   describe('User Logout', () => {
-    it('should call logout endpoint', async () => {
+    it('should call logout endpoint and revoke the refresh token cookie', async () => {
       mockAxiosInstance.post.mockResolvedValue({});
+      mockAxios.delete.mockResolvedValue({});
       
       await logout();
       
-      expect(mockAxiosInstance.post).toHaveBeenCalledWith('/api/auth/logout');
+      expect(mockAxiosInstance.post).toHaveBeenCalledWith('/api/auth/logout', undefined, { skipSessionRenewal: true });
+      expect(mockAxios.delete).toHaveBeenCalledWith(expect.stringMatching(/\/api\/auth\/refresh$/), { withCredentials: true });
     });
 
     it('should handle logout error gracefully', async () => {
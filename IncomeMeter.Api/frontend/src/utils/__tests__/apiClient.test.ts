@@ -0,0 +1,103 @@
+import { ApiValidationError, createApiClient, type HttpClient, type HttpRequest } from '@incomemeter/api-client';
+
+const workTypeConfig = {
+  id: 'config-1',
+  name: 'Delivery',
+  description: null,
+  incomeSourceTemplates: [
+    { name: 'Base pay', category: null, defaultAmount: 20, isRequired: true, description: null, displayOrder: 0 },
+  ],
+  isActive: true,
+  createdAt: '2026-10-19T08:00:00Z',
+  updatedAt: '2026-10-19T08:00:00Z',
+};
+
+const route = {
+  id: 'route-1',
+  userId: 'user-1',
+  workType: 'Delivery',
+  status: 'completed',
+  scheduleStart: '2026-10-19T18:00:00Z',
+  scheduleEnd: '2026-10-19T21:00:00Z',
+  actualStartTime: null,
+  incomes: [{ source: 'Base pay', amount: 45 }],
+  totalIncome: 45,
+  estimatedIncome: 40,
+  distance: 22.5,
+  createdAt: '2026-10-19T08:00:00Z',
+  updatedAt: '2026-10-19T21:05:00Z',
+};
+
+const createHttp = (data: unknown) => {
+  const requests: HttpRequest[] = [];
+  const http: HttpClient = {
+    request: async <T>(config: HttpRequest) => {
+      requests.push(config);
+      return { data: data as T };
+    },
+  };
+  return { http, requests };
+};
+
+describe('Generated API client', () => {
+  it('calls the paths from the OpenAPI document and returns the payload unwrapped', async () => {
+    const { http, requests } = createHttp([workTypeConfig]);
+
+    const configs = await createApiClient(http).workTypeConfigs.getActiveWorkTypeConfigs();
+
+    expect(configs).toEqual([workTypeConfig]);
+    expect(requests).toEqual([{ method: 'get', url: '/api/work-type-configs/active' }]);
+  });
+
+  it('encodes path parameters and passes query parameters through', async () => {
+    const { http, requests } = createHttp([route]);
+    const client = createApiClient(http);
+
+    await client.routes.getRoutesByDateRange({ startDate: '2026-10-01', endDate: '2026-10-19' });
+    await client.routes.getRoutesByStatus('in progress');
+
+    expect(requests).toEqual([
+      { method: 'get', url: '/api/Routes/date-range', params: { startDate: '2026-10-01', endDate: '2026-10-19' } },
+      { method: 'get', url: '/api/Routes/status/in%20progress' },
+    ]);
+  });
+
+  it('accepts missing nullable fields and fields the schema does not know about', async () => {
+    const { http } = createHttp({ ...route, endMile: undefined, addedLater: true });
+
+    await expect(createApiClient(http).routes.getRouteById('route-1')).resolves.toMatchObject({ id: 'route-1' });
+  });
+
+  it('rejects responses that do not match the schema, naming the field', async () => {
+    const { http } = createHttp([route, { ...route, scheduleStart: null }]);
+
+    const request = createApiClient(http).routes.getRoutes();
+
+    await expect(request).rejects.toBeInstanceOf(ApiValidationError);
+    await expect(request).rejects.toMatchObject({ path: 'response[1].scheduleStart' });
+  });
+
+  it('rejects a response wrapped in an envelope', async () => {
+    const { http } = createHttp({ success: true, data: [workTypeConfig] });
+
+    await expect(createApiClient(http).workTypeConfigs.getWorkTypeConfigs())
+      .rejects.toThrow('response: expected array, got object');
+  });
+
+  it('checks dictionary values against their schema', async () => {
+    const { http } = createHttp({
+      last7DaysIncome: 0,
+      previous7DaysIncome: 0,
+      currentMonthIncome: 0,
+      currentMonthExpenses: 0,
+      netIncome: 0,
+      last7DaysMileage: 0,
+      currentMonthMileage: 0,
+      incomeBySource: { Delivery: { income: 'lots' } },
+      dailyIncomeData: [],
+    });
+
+    await expect(createApiClient(http).dashboard.getDashboardStats())
+      .rejects.toMatchObject({ path: 'response.incomeBySource.Delivery.income' });
+  });
+});
@@ -0,0 +1,72 @@
+import { getApiErrorKind, getApiErrorMessage, isRetryableError, withRetry } from '../apiErrors';
+
+const httpError = (status: number, data?: unknown) =>
+  Object.assign(new Error(`Request failed with status code ${status}`), { isAxiosError: true, response: { status, data } });
+
+const networkError = () => Object.assign(new Error('Network Error'), { isAxiosError: true });
+
+describe('API errors', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('getApiErrorKind', () => {
+    it('sorts responses by status', () => {
+      expect(getApiErrorKind(httpError(401))).toBe('unauthorized');
+      expect(getApiErrorKind(httpError(404))).toBe('notFound');
+      expect(getApiErrorKind(httpError(400))).toBe('validation');
+      expect(getApiErrorKind(httpError(503))).toBe('server');
+    });
+
+    it('treats requests without a response as network failures', () => {
+      expect(getApiErrorKind(networkError())).toBe('network');
+      expect(getApiErrorKind(new Error('boom'))).toBe('unknown');
+    });
+  });
+
+  describe('getApiErrorMessage', () => {
+    it('reads the error or message the API sent back', () => {
+      expect(getApiErrorMessage(httpError(400, { error: 'Route not found' }))).toBe('Route not found');
+      expect(getApiErrorMessage(httpError(400, { success: false, message: 'Invalid code' }))).toBe('Invalid code');
+      expect(getApiErrorMessage(httpError(500, 'Database unavailable'))).toBe('Database unavailable');
+    });
+
+    it('returns nothing when the response carries no message', () => {
+      expect(getApiErrorMessage(httpError(500, {}))).toBeUndefined();
+      expect(getApiErrorMessage(networkError())).toBeUndefined();
+      expect(getApiErrorMessage(new Error('boom'))).toBeUndefined();
+    });
+  });
+
+  describe('withRetry', () => {
+    it('retries transient failures and returns the first success', async () => {
+      const request = jest.fn()
+        .mockRejectedValueOnce(networkError())
+        .mockRejectedValueOnce(httpError(503))
+        .mockResolvedValue(['location-1']);
+
+      await expect(withRetry(request, { baseDelayMs: 0 })).resolves.toEqual(['location-1']);
+      expect(request).toHaveBeenCalledTimes(3);
+    });
+
+    it('does not retry errors the server meant', async () => {
+      const request = jest.fn().mockRejectedValue(httpError(404));
+
+      await expect(withRetry(request, { baseDelayMs: 0 })).rejects.toMatchObject({ response: { status: 404 } });
+      expect(request).toHaveBeenCalledTimes(1);
+    });
+
+    it('gives up after the last attempt', async () => {
+      const request = jest.fn().mockRejectedValue(httpError(502));
+
+      await expect(withRetry(request, { attempts: 2, baseDelayMs: 0 })).rejects.toMatchObject({ response: { status: 502 } });
+      expect(request).toHaveBeenCalledTimes(2);
+    });
+
+    it('fails straight away while the browser is offline', () => {
+      jest.spyOn(navigator, 'onLine', 'get').mockReturnValue(false);
+
+      expect(isRetryableError(networkError())).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,129 @@
+import {
+  getZonedParts,
+  getVisibleDays,
+  shiftAnchor,
+  layoutRoutes,
+  getSlotSchedule,
+  rescheduleRoute,
+  getWorkTypeColor,
+} from '../calendar';
+import type { Route } from '../../types';
+
+const route = (id: string, scheduleStart: string, scheduleEnd: string): Route => ({
+  id,
+  userId: 'user-1',
+  workType: 'Delivery',
+  status: 'scheduled',
+  scheduleStart: new Date(scheduleStart),
+  scheduleEnd: new Date(scheduleEnd),
+  incomes: [],
+  totalIncome: 0,
+  distance: 0,
+  createdAt: '2026-10-01T00:00:00Z',
+  updatedAt: '2026-10-01T00:00:00Z',
+});
+
+describe('Route calendar', () => {
+  describe('getZonedParts', () => {
+    it('gives the day and minute of the day in the user timezone', () => {
+      expect(getZonedParts(new Date('2026-10-19T23:30:00Z'), 'Asia/Hong_Kong')).toEqual({ dayKey: '2026-10-20', minutes: 7 * 60 + 30 });
+      expect(getZonedParts(new Date('2026-07-01T08:15:00Z'), 'Europe/London')).toEqual({ dayKey: '2026-07-01', minutes: 9 * 60 + 15 });
+    });
+  });
+
+  describe('getVisibleDays', () => {
+    it('covers the month in whole Monday to Sunday weeks', () => {
+      const days = getVisibleDays('month', '2026-10-19');
+      expect(days[0]).toBe('2026-09-28');
+      expect(days[days.length - 1]).toBe('2026-11-01');
+      expect(days).toHaveLength(35);
+    });
+
+    it('covers Monday to Sunday for the week and just the day for the day view', () => {
+      expect(getVisibleDays('week', '2026-10-18')).toEqual([
+        '2026-10-12', '2026-10-13', '2026-10-14', '2026-10-15', '2026-10-16', '2026-10-17', '2026-10-18',
+      ]);
+      expect(getVisibleDays('day', '2026-10-18')).toEqual(['2026-10-18']);
+    });
+  });
+
+  describe('shiftAnchor', () => {
+    it('moves by a month, week or day', () => {
+      expect(shiftAnchor('month', '2026-01-31', 1)).toBe('2026-02-01');
+      expect(shiftAnchor('week', '2026-10-19', -1)).toBe('2026-10-12');
+      expect(shiftAnchor('day', '2026-12-31', 1)).toBe('2027-01-01');
+    });
+  });
+
+  describe('layoutRoutes', () => {
+    it('places routes by their schedule in the user timezone', () => {
+      const byDay = layoutRoutes(
+        [route('a', '2026-10-19T01:00:00Z', '2026-10-19T05:00:00Z')],
+        ['2026-10-19'],
+        'Asia/Hong_Kong'
+      );
+
+      expect(byDay.get('2026-10-19')).toEqual([
+        expect.objectContaining({ startMinutes: 9 * 60, endMinutes: 13 * 60, continuesBefore: false, continuesAfter: false }),
+      ]);
+    });
+
+    it('splits routes that run past midnight across both days', () => {
+      const byDay = layoutRoutes(
+        [route('a', '2026-10-19T20:00:00Z', '2026-10-20T02:00:00Z')],
+        ['2026-10-19', '2026-10-20'],
+        'UTC'
+      );
+
+      expect(byDay.get('2026-10-19')?.[0]).toMatchObject({ startMinutes: 20 * 60, endMinutes: 24 * 60, continuesAfter: true });
+      expect(byDay.get('2026-10-20')?.[0]).toMatchObject({ startMinutes: 0, endMinutes: 2 * 60, continuesBefore: true });
+    });
+
+    it('puts overlapping routes side by side', () => {
+      const events = layoutRoutes(
+        [
+          route('a', '2026-10-19T09:00:00Z', '2026-10-19T12:00:00Z'),
+          route('b', '2026-10-19T10:00:00Z', '2026-10-19T11:00:00Z'),
+          route('c', '2026-10-19T14:00:00Z', '2026-10-19T15:00:00Z'),
+        ],
+        ['2026-10-19'],
+        'UTC'
+      ).get('2026-10-19')!;
+
+      expect(events.map(event => [event.route.id, event.column, event.columns])).toEqual([
+        ['a', 0, 2],
+        ['b', 1, 2],
+        ['c', 0, 1],
+      ]);
+    });
+  });
+
+  describe('getSlotSchedule', () => {
+    it('prefills the slot start and the default route length', () => {
+      expect(getSlotSchedule('2026-10-19', 10 * 60)).toEqual({ scheduleStart: '2026-10-19T10:00', scheduleEnd: '2026-10-19T18:00' });
+      expect(getSlotSchedule('2026-10-19', 20 * 60)).toEqual({ scheduleStart: '2026-10-19T20:00', scheduleEnd: '2026-10-20T04:00' });
+    });
+  });
+
+  describe('rescheduleRoute', () => {
+    const original = route('a', '2026-10-19T01:00:00Z', '2026-10-19T05:00:00Z'); // 09:00-13:00 in Hong Kong
+
+    it('moves to the dropped time slot and keeps the duration', () => {
+      expect(rescheduleRoute(original, '2026-10-21', 14 * 60, 'Asia/Hong_Kong')).toEqual({
+        scheduleStart: new Date('2026-10-21T06:00:00Z'),
+        scheduleEnd: new Date('2026-10-21T10:00:00Z'),
+      });
+    });
+
+    it('keeps the time of day when dropped on a day', () => {
+      expect(rescheduleRoute(original, '2026-10-22', null, 'Asia/Hong_Kong').scheduleStart).toEqual(new Date('2026-10-22T01:00:00Z'));
+    });
+  });
+
+  describe('getWorkTypeColor', () => {
+    it('always gives a work type the same colour', () => {
+      expect(getWorkTypeColor('Delivery')).toBe(getWorkTypeColor('Delivery'));
+      expect(getWorkTypeColor(undefined)).toBe('border-gray-400');
+    });
+  });
+});
@@ -0,0 +1,54 @@
+import type { EarningsHeatmapCell } from '../../types';
+import { getCellBounds, getHeatColor, getHeatOpacity, getRateRange, getTopCells, getVisibleCells } from '../earningsHeatmap';
+
+const createCell = (overrides: Partial<EarningsHeatmapCell> = {}): EarningsHeatmapCell => ({
+  latitude: 51.5,
+  longitude: -0.1,
+  hours: 1,
+  income: 15,
+  incomePerHour: 15,
+  routeCount: 1,
+  ...overrides,
+});
+
+describe('Earnings heatmap', () => {
+  const cells = [
+    createCell({ incomePerHour: 10, hours: 2 }),
+    createCell({ incomePerHour: 25, hours: 0.2 }),
+    createCell({ incomePerHour: 20, hours: 1 }),
+  ];
+
+  it('hides cells with too little time in them', () => {
+    expect(getVisibleCells(cells).map(cell => cell.incomePerHour)).toEqual([10, 20]);
+    expect(getVisibleCells(cells, 0)).toHaveLength(3);
+  });
+
+  it('colours cells from red at the lowest rate to green at the highest', () => {
+    const range = getRateRange(getVisibleCells(cells))!;
+
+    expect(range).toEqual({ min: 10, max: 20 });
+    expect(getHeatColor(10, range)).toBe('hsl(0, 80%, 45%)');
+    expect(getHeatColor(15, range)).toBe('hsl(60, 80%, 45%)');
+    expect(getHeatColor(20, range)).toBe('hsl(120, 80%, 45%)');
+    expect(getHeatColor(12, { min: 12, max: 12 })).toBe('hsl(120, 80%, 45%)');
+    expect(getRateRange([])).toBeNull();
+  });
+
+  it('scales opacity with time spent', () => {
+    expect(getHeatOpacity(0, 2)).toBe(0.25);
+    expect(getHeatOpacity(1, 2)).toBe(0.5);
+    expect(getHeatOpacity(4, 2)).toBe(0.75);
+  });
+
+  it('gives the bounds of a cell from its south-west corner', () => {
+    const [southWest, northEast] = getCellBounds(createCell(), 0.01);
+
+    expect(southWest).toEqual([51.5, -0.1]);
+    expect(northEast[0]).toBeCloseTo(51.51);
+    expect(northEast[1]).toBeCloseTo(-0.09);
+  });
+
+  it('ranks cells by income per hour', () => {
+    expect(getTopCells(cells, 2).map(cell => cell.incomePerHour)).toEqual([25, 20]);
+  });
+});
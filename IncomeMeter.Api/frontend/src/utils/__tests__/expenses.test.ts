@@ -0,0 +1,37 @@
+import { EXPENSE_CATEGORIES, sumExpenses, summarizeExpensesByCategory } from '../expenses';
+import type { ExpenseCategory } from '../../types';
+
+const expense = (category: ExpenseCategory, amount: number) => ({ category, amount });
+
+describe('Expenses', () => {
+  describe('sumExpenses', () => {
+    it('returns 0 for no expenses', () => {
+      expect(sumExpenses([])).toBe(0);
+    });
+
+    it('rounds the total to pence', () => {
+      expect(sumExpenses([expense('fuel', 0.1), expense('parking', 0.2)])).toBe(0.3);
+    });
+  });
+
+  describe('summarizeExpensesByCategory', () => {
+    it('totals each category in the standard order and skips empty ones', () => {
+      const summary = summarizeExpensesByCategory([
+        expense('phone', 20),
+        expense('fuel', 35.5),
+        expense('fuel', 14.5),
+        expense('tolls', 2.5),
+      ]);
+
+      expect(summary).toEqual([
+        { category: 'fuel', amount: 50 },
+        { category: 'tolls', amount: 2.5 },
+        { category: 'phone', amount: 20 },
+      ]);
+    });
+
+    it('covers every category the API accepts', () => {
+      expect(EXPENSE_CATEGORIES).toEqual(['fuel', 'parking', 'tolls', 'maintenance', 'phone']);
+    });
+  });
+});
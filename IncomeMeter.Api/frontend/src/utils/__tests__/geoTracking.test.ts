@@ -0,0 +1,71 @@
+import {
+  TRACKING_PROFILES,
+  evaluateFix,
+  shouldFlush,
+  loadTrackingProfile,
+  saveTrackingProfile,
+  type TrackedPoint,
+} from '../geoTracking';
+
+const balanced = TRACKING_PROFILES.balanced;
+
+const point = (overrides: Partial<TrackedPoint> = {}): TrackedPoint => ({
+  latitude: 51.5,
+  longitude: -0.1,
+  accuracy: 10,
+  timestamp: '2026-10-19T09:00:00.000Z',
+  ...overrides,
+});
+
+describe('Location tracking', () => {
+  describe('evaluateFix', () => {
+    it('accepts the first accurate fix', () => {
+      expect(evaluateFix(point(), null, balanced)).toBe('accepted');
+    });
+
+    it('drops fixes less accurate than the profile allows', () => {
+      expect(evaluateFix(point({ accuracy: 80 }), null, balanced)).toBe('inaccurate');
+      expect(evaluateFix(point({ accuracy: 80 }), null, TRACKING_PROFILES.batterySaver)).toBe('accepted');
+    });
+
+    it('throttles by time and by distance moved', () => {
+      const last = point();
+
+      // 20 seconds later and about 1 km north
+      expect(evaluateFix(point({ latitude: 51.509, timestamp: '2026-10-19T09:00:20.000Z' }), last, balanced)).toBe('tooSoon');
+      expect(evaluateFix(point({ latitude: 51.509, timestamp: '2026-10-19T09:01:00.000Z' }), last, balanced)).toBe('accepted');
+      // a minute later but only about 20 m away
+      expect(evaluateFix(point({ latitude: 51.50018, timestamp: '2026-10-19T09:01:00.000Z' }), last, balanced)).toBe('notMoved');
+    });
+
+    it('still records a stationary point after the heartbeat interval', () => {
+      expect(evaluateFix(point({ timestamp: '2026-10-19T09:10:00.000Z' }), point(), balanced)).toBe('accepted');
+    });
+  });
+
+  describe('shouldFlush', () => {
+    it('flushes a full batch or once the oldest point has waited long enough', () => {
+      const now = new Date('2026-10-19T09:01:00.000Z');
+      const full = Array.from({ length: balanced.batchSize }, () => point({ timestamp: now.toISOString() }));
+
+      expect(shouldFlush([], balanced, now)).toBe(false);
+      expect(shouldFlush([point()], balanced, now)).toBe(false);
+      expect(shouldFlush(full, balanced, now)).toBe(true);
+      expect(shouldFlush([point()], balanced, new Date('2026-10-19T09:02:00.000Z'))).toBe(true);
+    });
+  });
+
+  describe('tracking profile preference', () => {
+    beforeEach(() => localStorage.clear());
+
+    it('defaults to balanced and ignores unknown stored values', () => {
+      expect(loadTrackingProfile()).toBe('balanced');
+
+      saveTrackingProfile('batterySaver');
+      expect(loadTrackingProfile()).toBe('batterySaver');
+
+      localStorage.setItem('locationTracking:profile', 'turbo');
+      expect(loadTrackingProfile()).toBe('balanced');
+    });
+  });
+});
@@ -0,0 +1,105 @@
+import {
+  getGoalsForPeriod,
+  getGoalEarnings,
+  getElapsedFraction,
+  projectPeriodIncome,
+  calculateGoalProgress,
+  summarizeGoalHistory,
+} from '../goals';
+import type { EarningsGoal } from '../../types';
+
+const weeklyGoal: EarningsGoal = { id: 'g1', period: 'weekly', amount: 500 };
+const deliveryGoal: EarningsGoal = { id: 'g2', period: 'weekly', amount: 300, workType: 'Delivery' };
+
+const periodData = {
+  startDate: '2026-10-12T00:00:00.000Z',
+  endDate: '2026-10-18T23:59:59.999Z',
+  totalIncome: 250,
+  incomeBySource: {
+    Delivery: {
+      income: 180, expenses: 0, netIncome: 180, routes: 3, totalWorkingHours: 10,
+      totalMileage: 40, hourlyRate: 18, earningsPerMile: 4.5, incomeBySource: {},
+    },
+  },
+};
+
+describe('Earnings goals', () => {
+  describe('getGoalsForPeriod', () => {
+    it('returns only goals for the period with a positive amount', () => {
+      const goals: EarningsGoal[] = [
+        weeklyGoal,
+        { id: 'g3', period: 'monthly', amount: 2000 },
+        { id: 'g4', period: 'weekly', amount: 0 },
+      ];
+      expect(getGoalsForPeriod(goals, 'weekly')).toEqual([weeklyGoal]);
+    });
+
+    it('handles settings saved before goals existed', () => {
+      expect(getGoalsForPeriod(undefined, 'monthly')).toEqual([]);
+    });
+  });
+
+  describe('getGoalEarnings', () => {
+    it('uses total income for goals without a work type', () => {
+      expect(getGoalEarnings(weeklyGoal, periodData)).toBe(250);
+    });
+
+    it('uses the work type income, or 0 when it has no routes', () => {
+      expect(getGoalEarnings(deliveryGoal, periodData)).toBe(180);
+      expect(getGoalEarnings({ ...deliveryGoal, workType: 'Taxi' }, periodData)).toBe(0);
+    });
+  });
+
+  describe('pace projection', () => {
+    const start = new Date(2026, 9, 12);
+    const end = new Date(2026, 9, 22);
+
+    it('clamps the elapsed fraction to the period', () => {
+      expect(getElapsedFraction(start, end, new Date(2026, 9, 17))).toBe(0.5);
+      expect(getElapsedFraction(start, end, new Date(2026, 9, 1))).toBe(0);
+      expect(getElapsedFraction(start, end, new Date(2026, 10, 1))).toBe(1);
+    });
+
+    it('extrapolates earnings so far over the whole period', () => {
+      expect(projectPeriodIncome(120, 0.25)).toBe(480);
+      expect(projectPeriodIncome(120, 1)).toBe(120);
+      expect(projectPeriodIncome(0, 0)).toBe(0);
+    });
+  });
+
+  describe('calculateGoalProgress', () => {
+    it('reports progress and pace part way through the period', () => {
+      const progress = calculateGoalProgress(weeklyGoal, periodData, new Date('2026-10-15T12:00:00.000Z'));
+
+      expect(progress.earned).toBe(250);
+      expect(progress.percent).toBe(50);
+      expect(progress.remaining).toBe(250);
+      expect(progress.hit).toBe(false);
+      expect(progress.onPace).toBe(true);
+    });
+
+    it('caps the percentage once the goal is hit', () => {
+      const progress = calculateGoalProgress({ ...weeklyGoal, amount: 200 }, periodData, new Date('2026-10-20'));
+
+      expect(progress.percent).toBe(100);
+      expect(progress.remaining).toBe(0);
+      expect(progress.projected).toBe(250);
+      expect(progress.hit).toBe(true);
+    });
+  });
+
+  describe('summarizeGoalHistory', () => {
+    it('counts hits and streaks from oldest to newest', () => {
+      expect(summarizeGoalHistory([true, true, true, false, true, true])).toEqual({
+        periods: 6,
+        hits: 5,
+        currentStreak: 2,
+        bestStreak: 3,
+      });
+    });
+
+    it('has no streak when the latest period was missed', () => {
+      expect(summarizeGoalHistory([true, false]).currentStreak).toBe(0);
+    });
+  });
+});
@@ -0,0 +1,65 @@
+import { buildHourlyEarningsGrid, getBestSlots, getSlotAverage } from '../hourlyEarnings';
+
+const createRoute = (start: string, end: string, totalIncome: number, status: 'completed' | 'scheduled' = 'completed') => ({
+  status,
+  actualStartTime: new Date(start),
+  actualEndTime: new Date(end),
+  totalIncome,
+});
+
+describe('Hourly earnings grid', () => {
+  it('spreads income evenly over the hours worked', () => {
+    // Monday 19 October 2026
+    const grid = buildHourlyEarningsGrid([createRoute('2026-10-19T09:00:00Z', '2026-10-19T11:00:00Z', 40)], 'UTC');
+
+    expect(grid.routeCount).toBe(1);
+    expect(grid.slots[0][9]).toEqual({ income: 20, hours: 1, routes: 1 });
+    expect(grid.slots[0][10]).toEqual({ income: 20, hours: 1, routes: 1 });
+    expect(grid.slots[0][11].hours).toBe(0);
+  });
+
+  it('places time in the user timezone, including half-hour offsets', () => {
+    // 01:30-02:30 UTC is 09:30-10:30 in Hong Kong and 07:00-08:00 in Kolkata
+    const route = createRoute('2026-10-19T01:30:00Z', '2026-10-19T02:30:00Z', 20);
+
+    const hongKong = buildHourlyEarningsGrid([route], 'Asia/Hong_Kong');
+    expect(hongKong.slots[0][9]).toEqual({ income: 10, hours: 0.5, routes: 1 });
+    expect(hongKong.slots[0][10]).toEqual({ income: 10, hours: 0.5, routes: 1 });
+
+    const kolkata = buildHourlyEarningsGrid([route], 'Asia/Kolkata');
+    expect(kolkata.slots[0][7]).toEqual({ income: 20, hours: 1, routes: 1 });
+  });
+
+  it('carries a late shift over midnight into the next weekday', () => {
+    // Sunday 23:00 to Monday 01:00 in London (UTC+1 in October)
+    const grid = buildHourlyEarningsGrid([createRoute('2026-10-18T22:00:00Z', '2026-10-19T00:00:00Z', 30)], 'Europe/London');
+
+    expect(grid.slots[6][23].income).toBe(15);
+    expect(grid.slots[0][0].income).toBe(15);
+  });
+
+  it('averages per hour worked across routes and skips routes without actual times', () => {
+    const grid = buildHourlyEarningsGrid([
+      createRoute('2026-10-19T18:00:00Z', '2026-10-19T19:00:00Z', 10),
+      createRoute('2026-10-26T18:00:00Z', '2026-10-26T18:30:00Z', 20),
+      createRoute('2026-10-19T18:00:00Z', '2026-10-19T19:00:00Z', 99, 'scheduled'),
+      { status: 'completed' as const, actualStartTime: undefined, actualEndTime: undefined, totalIncome: 50 },
+    ], 'UTC');
+
+    expect(grid.routeCount).toBe(2);
+    expect(grid.skippedRoutes).toBe(1);
+    expect(grid.slots[0][18].routes).toBe(2);
+    expect(getSlotAverage(grid.slots[0][18])).toBe(20);
+    expect(getSlotAverage(grid.slots[0][17])).toBeNull();
+  });
+
+  it('ranks slots with enough hours by average', () => {
+    const grid = buildHourlyEarningsGrid([
+      createRoute('2026-10-19T09:00:00Z', '2026-10-19T11:00:00Z', 20),
+      createRoute('2026-10-20T18:00:00Z', '2026-10-20T19:00:00Z', 25),
+      createRoute('2026-10-21T12:00:00Z', '2026-10-21T12:30:00Z', 50),
+    ], 'UTC');
+
+    expect(getBestSlots(grid, 2).map(slot => [slot.weekday, slot.hour, slot.average])).toEqual([[1, 18, 25], [0, 9, 10]]);
+  });
+});
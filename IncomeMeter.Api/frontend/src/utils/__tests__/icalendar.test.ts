@@ -0,0 +1,219 @@
+import {
+  escapeText,
+  foldLine,
+  buildTimezoneComponent,
+  buildRouteCalendar,
+  parseICalendar,
+  buildRoutesFromEvents,
+  getImportedUids,
+} from '../icalendar';
+import type { Route, WorkTypeConfig } from '../../types';
+
+const route = (overrides: Partial<Route> = {}): Route => ({
+  id: 'route-1',
+  userId: 'user-1',
+  workType: 'Delivery',
+  status: 'scheduled',
+  scheduleStart: new Date('2026-07-01T08:00:00Z'),
+  scheduleEnd: new Date('2026-07-01T16:00:00Z'),
+  incomes: [],
+  totalIncome: 0,
+  distance: 0,
+  createdAt: '2026-06-01T00:00:00Z',
+  updatedAt: '2026-06-01T00:00:00Z',
+  ...overrides,
+});
+
+const workType: WorkTypeConfig = {
+  id: 'wt-1',
+  name: 'Amazon Flex',
+  incomeSourceTemplates: [],
+  isActive: true,
+  createdAt: '2026-01-01T00:00:00Z',
+  updatedAt: '2026-01-01T00:00:00Z',
+};
+
+describe('iCalendar', () => {
+  describe('escapeText', () => {
+    it('escapes commas, semicolons, backslashes and newlines', () => {
+      expect(escapeText('Fuel, tolls; A\\B\nnext')).toBe('Fuel\\, tolls\\; A\\\\B\\nnext');
+    });
+  });
+
+  describe('foldLine', () => {
+    it('folds long lines at 75 octets without splitting characters', () => {
+      const folded = foldLine(`SUMMARY:${'送貨'.repeat(20)}`);
+      const lines = folded.split('\r\n');
+
+      expect(lines.length).toBeGreaterThan(1);
+      lines.forEach(line => expect(Buffer.byteLength(line, 'utf8')).toBeLessThanOrEqual(75));
+      expect(lines.slice(1).every(line => line.startsWith(' '))).toBe(true);
+      expect(folded.replace(/\r\n /g, '')).toBe(`SUMMARY:${'送貨'.repeat(20)}`);
+    });
+  });
+
+  describe('buildTimezoneComponent', () => {
+    it('describes daylight saving transitions for the year', () => {
+      const lines = buildTimezoneComponent('Europe/London', [2026]);
+
+      expect(lines).toEqual(expect.arrayContaining([
+        'TZID:Europe/London',
+        'BEGIN:DAYLIGHT', 'DTSTART:20260329T010000', 'TZOFFSETFROM:+0000', 'TZOFFSETTO:+0100',
+        'BEGIN:STANDARD', 'DTSTART:20261025T020000', 'TZOFFSETFROM:+0100', 'TZOFFSETTO:+0000',
+      ]));
+    });
+
+    it('uses a single standard offset for timezones without daylight saving', () => {
+      const lines = buildTimezoneComponent('Asia/Hong_Kong', [2026]);
+
+      expect(lines).toContain('TZOFFSETTO:+0800');
+      expect(lines).not.toContain('BEGIN:DAYLIGHT');
+    });
+  });
+
+  describe('buildRouteCalendar', () => {
+    it('writes each route as an event in the user timezone', () => {
+      const ics = buildRouteCalendar([route()], {
+        timeZone: 'Europe/London',
+        calendarName: 'Shifts',
+        untitled: 'Route',
+        now: new Date('2026-06-15T12:00:00Z'),
+      });
+
+      expect(ics.startsWith('BEGIN:VCALENDAR\r\n')).toBe(true);
+      expect(ics.endsWith('END:VCALENDAR\r\n')).toBe(true);
+      expect(ics).toContain('UID:route-1@incomemeter');
+      expect(ics).toContain('DTSTAMP:20260615T120000Z');
+      expect(ics).toContain('DTSTART;TZID=Europe/London:20260701T090000');
+      expect(ics).toContain('DTEND;TZID=Europe/London:20260701T170000');
+      expect(ics).toContain('SUMMARY:Delivery');
+    });
+  });
+
+  describe('parseICalendar', () => {
+    it('reads UTC, TZID, floating and all-day events', () => {
+      const ics = [
+        'BEGIN:VCALENDAR',
+        'BEGIN:VEVENT',
+        'UID:a',
+        'SUMMARY:Block\\, morning',
+        'DTSTART:20261020T080000Z',
+        'DTEND:20261020T120000Z',
+        'END:VEVENT',
+        'BEGIN:VEVENT',
+        'UID:b',
+        'SUMMARY:Evening',
+        'DTSTART;TZID=Asia/Hong_Kong:20261021T180000',
+        'DURATION:PT3H30M',
+        'END:VEVENT',
+        'BEGIN:VEVENT',
+        'UID:c',
+        'DTSTART:20261022T090000',
+        'DTEND:20261022T170000',
+        'END:VEVENT',
+        'BEGIN:VEVENT',
+        'UID:d',
+        'DTSTART;VALUE=DATE:20261023',
+        'END:VEVENT',
+        'END:VCALENDAR',
+      ].join('\r\n');
+
+      const events = parseICalendar(ics, 'Europe/London');
+
+      expect(events.map(event => [event.uid, event.start.toISOString(), event.end.toISOString(), event.allDay])).toEqual([
+        ['a', '2026-10-20T08:00:00.000Z', '2026-10-20T12:00:00.000Z', false],
+        ['b', '2026-10-21T10:00:00.000Z', '2026-10-21T13:30:00.000Z', false],
+        ['c', '2026-10-22T08:00:00.000Z', '2026-10-22T16:00:00.000Z', false],
+        ['d', '2026-10-22T23:00:00.000Z', '2026-10-23T23:00:00.000Z', true],
+      ]);
+      expect(events[0].summary).toBe('Block, morning');
+    });
+
+    it('unfolds long lines and skips cancelled events', () => {
+      const ics = [
+        'BEGIN:VEVENT',
+        'SUMMARY:Very long',
+        '  shift name',
+        'DTSTART:20261020T080000Z',
+        'DTEND:20261020T120000Z',
+        'END:VEVENT',
+        'BEGIN:VEVENT',
+        'STATUS:CANCELLED',
+        'DTSTART:20261021T080000Z',
+        'DTEND:20261021T120000Z',
+        'END:VEVENT',
+      ].join('\n');
+
+      const events = parseICalendar(ics, 'UTC');
+      expect(events).toHaveLength(1);
+      expect(events[0].summary).toBe('Very long shift name');
+    });
+
+    it('reads back an exported calendar', () => {
+      const ics = buildRouteCalendar([route()], { timeZone: 'Europe/London', calendarName: 'Shifts', untitled: 'Route' });
+      const [event] = parseICalendar(ics, 'Asia/Hong_Kong');
+
+      expect(event.start).toEqual(new Date('2026-07-01T08:00:00Z'));
+      expect(event.end).toEqual(new Date('2026-07-01T16:00:00Z'));
+    });
+
+    it('flags recurring events and the occurrences that override them', () => {
+      const ics = [
+        'BEGIN:VEVENT',
+        'UID:weekly',
+        'DTSTART:20261020T080000Z',
+        'DTEND:20261020T120000Z',
+        'RRULE:FREQ=WEEKLY;COUNT=4',
+        'END:VEVENT',
+        'BEGIN:VEVENT',
+        'UID:weekly',
+        'RECURRENCE-ID:20261027T080000Z',
+        'DTSTART:20261027T090000Z',
+        'DTEND:20261027T130000Z',
+        'END:VEVENT',
+        'BEGIN:VEVENT',
+        'UID:single',
+        'DTSTART:20261021T080000Z',
+        'DTEND:20261021T120000Z',
+        'END:VEVENT',
+      ].join('\r\n');
+
+      const events = parseICalendar(ics, 'UTC');
+
+      expect(events.map(event => [event.uid, event.recurring])).toEqual([
+        ['weekly', true],
+        ['single', false],
+        ['weekly', true],
+      ]);
+    });
+  });
+
+  describe('buildRoutesFromEvents', () => {
+    it('creates scheduled routes for the chosen work type and drops zero-length and recurring events', () => {
+      const start = new Date('2026-10-20T08:00:00Z');
+      const routes = buildRoutesFromEvents([
+        { uid: 'block-1', summary: 'Block', start, end: new Date('2026-10-20T12:00:00Z'), allDay: false, recurring: false },
+        { summary: 'Reminder', start, end: start, allDay: false, recurring: false },
+        { uid: 'weekly', summary: 'Weekly', start, end: new Date('2026-10-20T12:00:00Z'), allDay: false, recurring: true },
+      ], workType);
+
+      expect(routes).toEqual([{
+        workType: 'Amazon Flex',
+        workTypeId: 'wt-1',
+        status: 'scheduled',
+        scheduleStart: start,
+        scheduleEnd: new Date('2026-10-20T12:00:00Z'),
+        incomes: [],
+        calendarUid: 'block-1',
+      }]);
+    });
+  });
+
+  describe('getImportedUids', () => {
+    it('collects imported event UIDs and the UIDs of exported routes', () => {
+      const uids = getImportedUids([route({ id: 'route-1', calendarUid: 'block-1' }), route({ id: 'route-2' })]);
+
+      expect([...uids].sort()).toEqual(['block-1', 'route-1@incomemeter', 'route-2@incomemeter']);
+    });
+  });
+});
@@ -0,0 +1,35 @@
+import { calculateScaledDimensions, toJpegFileName } from '../imageCompression';
+
+describe('Image Compression', () => {
+  describe('calculateScaledDimensions', () => {
+    it('leaves images within the limit untouched', () => {
+      expect(calculateScaledDimensions(800, 600, 1600)).toEqual({ width: 800, height: 600 });
+    });
+
+    it('scales landscape images by their width', () => {
+      expect(calculateScaledDimensions(4032, 3024, 1600)).toEqual({ width: 1600, height: 1200 });
+    });
+
+    it('scales portrait images by their height', () => {
+      expect(calculateScaledDimensions(3024, 4032, 240)).toEqual({ width: 180, height: 240 });
+    });
+
+    it('never rounds a side down to zero', () => {
+      expect(calculateScaledDimensions(10000, 10, 100)).toEqual({ width: 100, height: 1 });
+    });
+  });
+
+  describe('toJpegFileName', () => {
+    it('replaces the extension with .jpg', () => {
+      expect(toJpegFileName('IMG_1234.HEIC')).toBe('IMG_1234.jpg');
+    });
+
+    it('adds the suffix before the extension', () => {
+      expect(toJpegFileName('payslip.png', '-thumb')).toBe('payslip-thumb.jpg');
+    });
+
+    it('falls back to a default name', () => {
+      expect(toJpegFileName('.png')).toBe('receipt.jpg');
+    });
+  });
+});
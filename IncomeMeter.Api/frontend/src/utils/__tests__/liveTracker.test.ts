@@ -0,0 +1,87 @@
+import {
+  getElapsedMs,
+  formatElapsed,
+  getHourlyRate,
+  getTrackedDistanceKm,
+  addIncome,
+  sumIncomes,
+  loadIncomeDraft,
+  saveIncomeDraft,
+  clearIncomeDraft,
+} from '../liveTracker';
+import type { Location } from '../../types';
+
+const location = (overrides: Partial<Location>): Location => ({
+  id: 'loc',
+  routeId: 'route-1',
+  userId: 'user-1',
+  timestamp: '2026-10-19T09:00:00Z',
+  latitude: 51.5,
+  longitude: -0.1,
+  ...overrides,
+});
+
+describe('Live shift tracker', () => {
+  describe('getElapsedMs', () => {
+    it('counts from the actual start time, falling back to the schedule start', () => {
+      const now = new Date('2026-10-19T11:30:00Z');
+
+      expect(getElapsedMs({ actualStartTime: new Date('2026-10-19T09:00:00Z'), scheduleStart: new Date('2026-10-19T08:00:00Z') }, now))
+        .toBe(2.5 * 3_600_000);
+      expect(getElapsedMs({ scheduleStart: new Date('2026-10-19T11:00:00Z') }, now)).toBe(30 * 60_000);
+      expect(getElapsedMs({ scheduleStart: new Date('2026-10-19T12:00:00Z') }, now)).toBe(0);
+    });
+  });
+
+  describe('formatElapsed', () => {
+    it('formats as hours, minutes and seconds', () => {
+      expect(formatElapsed(0)).toBe('0:00:00');
+      expect(formatElapsed((2 * 3600 + 5 * 60 + 9) * 1000 + 999)).toBe('2:05:09');
+    });
+  });
+
+  describe('getHourlyRate', () => {
+    it('divides income by elapsed hours once the shift has run for a minute', () => {
+      expect(getHourlyRate(45, 2.5 * 3_600_000)).toBe(18);
+      expect(getHourlyRate(10, 30_000)).toBe(0);
+    });
+  });
+
+  describe('getTrackedDistanceKm', () => {
+    it('sums server distances in time order and measures points without one', () => {
+      const locations = [
+        location({ id: 'b', timestamp: '2026-10-19T09:10:00Z', distanceFromLastKm: 2 }),
+        location({ id: 'a', timestamp: '2026-10-19T09:00:00Z', distanceFromLastKm: 0 }),
+        location({ id: 'c', timestamp: '2026-10-19T09:20:00Z', latitude: 51.509, distanceFromLastKm: null }),
+      ];
+
+      // 0.009 degrees of latitude is roughly 1 km
+      expect(getTrackedDistanceKm(locations)).toBeCloseTo(3, 1);
+      expect(getTrackedDistanceKm([])).toBe(0);
+    });
+  });
+
+  describe('addIncome', () => {
+    it('adds to an existing source or appends a new one', () => {
+      const incomes = addIncome(addIncome([], 'Base pay', 4.5), 'Tips', 2);
+      const updated = addIncome(incomes, 'Base pay', 4.1);
+
+      expect(updated).toEqual([{ source: 'Base pay', amount: 8.6 }, { source: 'Tips', amount: 2 }]);
+      expect(sumIncomes(updated)).toBe(10.6);
+    });
+  });
+
+  describe('income draft', () => {
+    beforeEach(() => localStorage.clear());
+
+    it('round-trips through localStorage per route', () => {
+      saveIncomeDraft('route-1', [{ source: 'Tips', amount: 3 }]);
+
+      expect(loadIncomeDraft('route-1')).toEqual([{ source: 'Tips', amount: 3 }]);
+      expect(loadIncomeDraft('route-2')).toBeNull();
+
+      clearIncomeDraft('route-1');
+      expect(loadIncomeDraft('route-1')).toBeNull();
+    });
+  });
+});
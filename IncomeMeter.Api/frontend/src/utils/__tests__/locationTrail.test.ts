@@ -0,0 +1,68 @@
+import { buildGpx, buildKml, parseGpx } from '../locationTrail';
+
+const locations = [
+  { latitude: 51.5081, longitude: -0.0759, timestamp: '2026-10-19T09:05:00.000Z', speed: 8.4, accuracy: 12 },
+  { latitude: 51.5007, longitude: -0.1246, timestamp: '2026-10-19T09:00:00.000Z', speed: null, accuracy: 5 },
+];
+
+const options = { name: 'Deliveries & more', now: new Date('2026-10-19T10:00:00.000Z') };
+
+describe('Location trail files', () => {
+  describe('buildGpx', () => {
+    it('writes time-ordered track points with speed and accuracy extensions', () => {
+      const gpx = buildGpx(locations, options);
+
+      expect(gpx).toContain('<name>Deliveries &amp; more</name>');
+      expect(gpx.indexOf('lat="51.5007"')).toBeLessThan(gpx.indexOf('lat="51.5081"'));
+      expect(gpx).toContain('<time>2026-10-19T09:05:00.000Z</time>');
+      expect(gpx).toContain('<gpxtpx:speed>8.4</gpxtpx:speed>');
+      expect(gpx).toContain('<im:accuracy>12</im:accuracy>');
+      expect(gpx.match(/<gpxtpx:speed>/g)).toHaveLength(1);
+    });
+
+    it('round-trips through parseGpx', () => {
+      const parsed = parseGpx(buildGpx(locations, options));
+
+      expect(parsed?.name).toBe('Deliveries & more');
+      expect(parsed?.skipped).toBe(0);
+      expect(parsed?.points).toEqual([
+        { latitude: 51.5007, longitude: -0.1246, timestamp: '2026-10-19T09:00:00.000Z', accuracy: 5 },
+        { latitude: 51.5081, longitude: -0.0759, timestamp: '2026-10-19T09:05:00.000Z', speed: 8.4, accuracy: 12 },
+      ]);
+    });
+  });
+
+  describe('buildKml', () => {
+    it('writes a timed track with lon/lat coordinates and per-point data arrays', () => {
+      const kml = buildKml(locations, options);
+
+      expect(kml).toContain('<when>2026-10-19T09:00:00.000Z</when>');
+      expect(kml).toContain('<gx:coord>-0.1246 51.5007 0</gx:coord>');
+      expect(kml).toMatch(/name="speed">\s*<gx:value\/>\s*<gx:value>8.4<\/gx:value>/);
+      expect(kml).toMatch(/name="accuracy">\s*<gx:value>5<\/gx:value>\s*<gx:value>12<\/gx:value>/);
+    });
+  });
+
+  describe('parseGpx', () => {
+    it('reads GPX 1.0 speed and skips points without a time', () => {
+      const gpx = `<?xml version="1.0"?>
+        <gpx version="1.0" xmlns="http://www.topografix.com/GPX/1/0">
+          <trk><name>Evening run</name><trkseg>
+            <trkpt lat="40.7128" lon="-74.006"><time>2026-10-18T18:00:00Z</time><speed>3.2</speed></trkpt>
+            <trkpt lat="40.713" lon="-74.007"></trkpt>
+          </trkseg></trk>
+        </gpx>`;
+
+      expect(parseGpx(gpx)).toEqual({
+        name: 'Evening run',
+        points: [{ latitude: 40.7128, longitude: -74.006, timestamp: '2026-10-18T18:00:00.000Z', speed: 3.2 }],
+        skipped: 1,
+      });
+    });
+
+    it('rejects files that are not GPX', () => {
+      expect(parseGpx('<kml xmlns="http://www.opengis.net/kml/2.2"></kml>')).toBeNull();
+      expect(parseGpx('not xml at all')).toBeNull();
+    });
+  });
+});
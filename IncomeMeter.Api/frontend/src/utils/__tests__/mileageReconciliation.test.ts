@@ -0,0 +1,44 @@
+import {
+  DEFAULT_MILEAGE_TOLERANCE,
+  getMileageDifference,
+  isDiverging,
+  loadMileageTolerance,
+  saveMileageTolerance,
+} from '../mileageReconciliation';
+
+describe('Mileage reconciliation', () => {
+  describe('getMileageDifference', () => {
+    it('reports GPS minus odometer and the share of the longer reading', () => {
+      expect(getMileageDifference({ odometerMiles: 40, gpsMiles: 50 })).toEqual({ miles: 10, percent: 20 });
+      expect(getMileageDifference({ odometerMiles: 0, gpsMiles: 0 })).toEqual({ miles: 0, percent: 0 });
+    });
+  });
+
+  describe('isDiverging', () => {
+    it('flags routes beyond both the distance and the percentage tolerance', () => {
+      // 1 mile and 5% by default
+      expect(isDiverging({ odometerMiles: 100, gpsMiles: 103 }, DEFAULT_MILEAGE_TOLERANCE)).toBe(false);
+      expect(isDiverging({ odometerMiles: 5, gpsMiles: 5.8 }, DEFAULT_MILEAGE_TOLERANCE)).toBe(false);
+      expect(isDiverging({ odometerMiles: 20, gpsMiles: 24 }, DEFAULT_MILEAGE_TOLERANCE)).toBe(true);
+    });
+
+    it('converts a kilometre tolerance to miles', () => {
+      const tolerance = { distance: 5, unit: 'km' as const, percent: 0 };
+
+      // 5 km is about 3.1 miles
+      expect(isDiverging({ odometerMiles: 20, gpsMiles: 23 }, tolerance)).toBe(false);
+      expect(isDiverging({ odometerMiles: 20, gpsMiles: 23.2 }, tolerance)).toBe(true);
+    });
+  });
+
+  describe('tolerance preference', () => {
+    beforeEach(() => localStorage.clear());
+
+    it('round-trips through localStorage and falls back to the default', () => {
+      expect(loadMileageTolerance()).toEqual(DEFAULT_MILEAGE_TOLERANCE);
+
+      saveMileageTolerance({ distance: 2, unit: 'km', percent: 10 });
+      expect(loadMileageTolerance()).toEqual({ distance: 2, unit: 'km', percent: 10 });
+    });
+  });
+});
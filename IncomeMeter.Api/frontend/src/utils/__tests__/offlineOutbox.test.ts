@@ -0,0 +1,257 @@
+import 'fake-indexeddb/auto';
+import { AxiosError, AxiosHeaders } from 'axios';
+import {
+  discardOutboxEntry,
+  executeOrQueue,
+  getOutboxEntries,
+  getResolvedRouteId,
+  isOfflineId,
+  replayOutbox,
+  retryOutboxEntry,
+  type OutboxExecutors,
+} from '../offlineOutbox';
+
+const networkError = () => new AxiosError('Network Error', AxiosError.ERR_NETWORK);
+
+const badRequest = (message: string) => {
+  const config = { headers: new AxiosHeaders() };
+  return new AxiosError('Request failed', AxiosError.ERR_BAD_REQUEST, config, null, {
+    status: 400,
+    statusText: 'Bad Request',
+    data: { message },
+    headers: {},
+    config,
+  });
+};
+
+const setOnline = (online: boolean) => {
+  jest.spyOn(navigator, 'onLine', 'get').mockReturnValue(online);
+};
+
+const createExecutors = (): jest.Mocked<OutboxExecutors> => {
+  let nextId = 1;
+  return {
+    createRoute: jest.fn().mockImplementation(async () => ({ id: `route-${nextId++}` })),
+    startRoute: jest.fn().mockImplementation(async () => ({ id: `route-${nextId++}` })),
+    endRoute: jest.fn().mockImplementation(async payload => ({ id: payload.id as string })),
+    createLocation: jest.fn().mockImplementation(async () => ({ id: `location-${nextId++}` })),
+    createExpense: jest.fn().mockImplementation(async () => ({ id: `expense-${nextId++}` })),
+  };
+};
+
+// Queue a mutation as the api.ts wrappers do while offline
+const queue = (type: keyof OutboxExecutors, payload: Record<string, unknown>, routeId?: string) =>
+  executeOrQueue({ type, payload, routeId }, jest.fn(), tempId => ({ id: tempId }));
+
+describe('Offline outbox', () => {
+  beforeEach(async () => {
+    setOnline(false);
+    for (const entry of await getOutboxEntries()) {
+      await discardOutboxEntry(entry.id!);
+    }
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('executeOrQueue', () => {
+    it('runs the mutation straight away while online', async () => {
+      setOnline(true);
+      const execute = jest.fn().mockResolvedValue({ id: 'route-1' });
+
+      const result = await executeOrQueue({ type: 'createRoute', payload: {} }, execute, tempId => ({ id: tempId }));
+
+      expect(result).toEqual({ id: 'route-1' });
+      expect(await getOutboxEntries()).toHaveLength(0);
+    });
+
+    it('queues the mutation and returns a placeholder while offline', async () => {
+      const execute = jest.fn();
+
+      const result = await executeOrQueue({ type: 'createRoute', payload: { workType: 'Delivery' } }, execute, tempId => ({ id: tempId }));
+
+      expect(execute).not.toHaveBeenCalled();
+      expect(isOfflineId(result.id)).toBe(true);
+      const [entry] = await getOutboxEntries();
+      expect(entry).toMatchObject({ type: 'createRoute', tempId: result.id, status: 'pending', payload: { workType: 'Delivery' } });
+    });
+
+    it('queues the mutation when the request fails with a network error', async () => {
+      setOnline(true);
+      const execute = jest.fn().mockRejectedValue(networkError());
+
+      const result = await executeOrQueue({ type: 'createRoute', payload: {} }, execute, tempId => ({ id: tempId }));
+
+      expect(isOfflineId(result.id)).toBe(true);
+      expect(await getOutboxEntries()).toHaveLength(1);
+    });
+
+    it('rethrows errors the server answered with instead of queueing', async () => {
+      setOnline(true);
+      const execute = jest.fn().mockRejectedValue(badRequest('Invalid route'));
+
+      await expect(executeOrQueue({ type: 'createRoute', payload: {} }, execute, tempId => ({ id: tempId }))).rejects.toThrow();
+      expect(await getOutboxEntries()).toHaveLength(0);
+    });
+
+    it('queues mutations against a route that is still queued', async () => {
+      const route = await queue('startRoute', {});
+      setOnline(true);
+      const execute = jest.fn();
+
+      await executeOrQueue({ type: 'createLocation', payload: { routeId: route.id }, routeId: route.id }, execute, tempId => ({ id: tempId }));
+
+      expect(execute).not.toHaveBeenCalled();
+      expect((await getOutboxEntries()).map(entry => entry.type)).toEqual(['startRoute', 'createLocation']);
+    });
+
+    it('queues mutations behind pending entries for the same route while online', async () => {
+      await queue('endRoute', { id: 'route-1' }, 'route-1');
+      setOnline(true);
+      const execute = jest.fn();
+
+      await executeOrQueue({ type: 'createLocation', payload: { routeId: 'route-1' }, routeId: 'route-1' }, execute, tempId => ({ id: tempId }));
+
+      expect(execute).not.toHaveBeenCalled();
+      expect((await getOutboxEntries()).map(entry => entry.type)).toEqual(['endRoute', 'createLocation']);
+    });
+
+    it('runs mutations for other routes straight away while entries are pending', async () => {
+      await queue('endRoute', { id: 'route-1' }, 'route-1');
+      setOnline(true);
+      const execute = jest.fn().mockResolvedValue({ id: 'location-1' });
+
+      const result = await executeOrQueue({ type: 'createLocation', payload: { routeId: 'route-2' }, routeId: 'route-2' }, execute, tempId => ({ id: tempId }));
+
+      expect(result).toEqual({ id: 'location-1' });
+      expect(await getOutboxEntries()).toHaveLength(1);
+    });
+  });
+
+  describe('replayOutbox', () => {
+    it('replays entries in the order they were queued', async () => {
+      await queue('createRoute', { workType: 'first' });
+      await queue('createRoute', { workType: 'second' });
+      await queue('endRoute', { id: 'route-9' }, 'route-9');
+      setOnline(true);
+      const executors = createExecutors();
+      const calls: string[] = [];
+      executors.createRoute.mockImplementation(async payload => {
+        calls.push(payload.workType as string);
+        return { id: `route-${calls.length}` };
+      });
+      executors.endRoute.mockImplementation(async payload => {
+        calls.push('end');
+        return { id: payload.id as string };
+      });
+
+      const result = await replayOutbox(executors);
+
+      expect(calls).toEqual(['first', 'second', 'end']);
+      expect(result).toEqual({ synced: 3, failed: 0, remaining: 0 });
+    });
+
+    it('points mutations queued against a temporary route at the created route', async () => {
+      const route = await queue('startRoute', {});
+      await queue('createLocation', { routeId: route.id, latitude: 51.5 }, route.id);
+      await queue('createExpense', { routeId: route.id, category: 'fuel', amount: 20 }, route.id);
+      await queue('endRoute', { id: route.id }, route.id);
+      setOnline(true);
+      const executors = createExecutors();
+
+      await replayOutbox(executors);
+
+      expect(executors.createLocation).toHaveBeenCalledWith({ routeId: 'route-1', latitude: 51.5 });
+      expect(executors.createExpense).toHaveBeenCalledWith({ routeId: 'route-1', category: 'fuel', amount: 20 });
+      expect(executors.endRoute).toHaveBeenCalledWith({ id: 'route-1' });
+      expect(getResolvedRouteId(route.id)).toBe('route-1');
+    });
+
+    it('fails the mutations queued against a route that could not be created', async () => {
+      const route = await queue('startRoute', {});
+      await queue('createLocation', { routeId: route.id }, route.id);
+      await queue('createRoute', { workType: 'unrelated' });
+      setOnline(true);
+      const executors = createExecutors();
+      executors.startRoute.mockRejectedValue(badRequest('Work type is required'));
+
+      const result = await replayOutbox(executors);
+
+      expect(result).toEqual({ synced: 1, failed: 2, remaining: 2 });
+      expect(executors.createLocation).not.toHaveBeenCalled();
+      const entries = await getOutboxEntries();
+      expect(entries.map(entry => [entry.type, entry.status, entry.lastError])).toEqual([
+        ['startRoute', 'failed', 'Work type is required'],
+        ['createLocation', 'failed', 'Route could not be created'],
+      ]);
+    });
+
+    it('stops at a network error and keeps the rest pending', async () => {
+      await queue('createRoute', { workType: 'first' });
+      await queue('createRoute', { workType: 'second' });
+      setOnline(true);
+      const executors = createExecutors();
+      executors.createRoute.mockRejectedValueOnce(networkError());
+
+      const result = await replayOutbox(executors);
+
+      expect(executors.createRoute).toHaveBeenCalledTimes(1);
+      expect(result).toEqual({ synced: 0, failed: 0, remaining: 2 });
+      expect((await getOutboxEntries()).every(entry => entry.status === 'pending' && entry.attempts === 0)).toBe(true);
+    });
+
+    it('shares one replay between concurrent callers', async () => {
+      await queue('createRoute', {});
+      setOnline(true);
+      const executors = createExecutors();
+
+      const [first, second] = await Promise.all([replayOutbox(executors), replayOutbox(executors)]);
+
+      expect(second).toBe(first);
+      expect(executors.createRoute).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('retryOutboxEntry', () => {
+    it('sends a failed entry again on the next replay', async () => {
+      await queue('createRoute', {});
+      setOnline(true);
+      const executors = createExecutors();
+      executors.createRoute.mockRejectedValueOnce(badRequest('Server busy'));
+      await replayOutbox(executors);
+      const [failed] = await getOutboxEntries();
+
+      await retryOutboxEntry(failed.id!);
+      const [retried] = await getOutboxEntries();
+      const result = await replayOutbox(executors);
+
+      expect(retried).toMatchObject({ status: 'pending', attempts: 1, lastError: undefined });
+      expect(result).toEqual({ synced: 1, failed: 0, remaining: 0 });
+    });
+  });
+
+  describe('discardOutboxEntry', () => {
+    it('drops a queued route together with the mutations queued against it', async () => {
+      const route = await queue('startRoute', {});
+      await queue('createLocation', { routeId: route.id }, route.id);
+      await queue('endRoute', { id: route.id }, route.id);
+      await queue('createRoute', { workType: 'unrelated' });
+      const [startEntry] = await getOutboxEntries();
+
+      await discardOutboxEntry(startEntry.id!);
+
+      expect((await getOutboxEntries()).map(entry => entry.type)).toEqual(['createRoute']);
+    });
+
+    it('drops only the entry itself when it does not create a route', async () => {
+      const route = await queue('startRoute', {});
+      await queue('createLocation', { routeId: route.id }, route.id);
+      const [, locationEntry] = await getOutboxEntries();
+
+      await discardOutboxEntry(locationEntry.id!);
+
+      expect((await getOutboxEntries()).map(entry => entry.type)).toEqual(['startRoute']);
+    });
+  });
+});
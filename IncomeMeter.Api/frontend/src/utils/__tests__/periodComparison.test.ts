@@ -0,0 +1,107 @@
+import {
+  getComparisonOffset,
+  getComparisonRange,
+  summarizePeriodMetrics,
+  calculateDelta,
+  comparePeriods,
+} from '../periodComparison';
+import { getDateRangeFromSelection } from '../timeRangeUtils';
+
+const point = (income: number, routes: number, distance: number) => ({
+  label: '', date: '2026-10-12T00:00:00.000Z', income, expenses: 0, netIncome: income, routes, distance,
+});
+
+const workType = (income: number, totalWorkingHours: number) => ({
+  income, expenses: 0, netIncome: income, routes: 1, totalWorkingHours,
+  totalMileage: 0, hourlyRate: 0, earningsPerMile: 0, incomeBySource: {},
+});
+
+describe('Period comparison', () => {
+  describe('getComparisonOffset', () => {
+    it('steps back one period for the previous period', () => {
+      expect(getComparisonOffset('weekly', 0, 'previous')).toBe(-1);
+      expect(getComparisonOffset('monthly', -3, 'previous')).toBe(-4);
+    });
+
+    it('steps back a year of periods for the same period last year', () => {
+      expect(getComparisonOffset('weekly', 0, 'lastYear')).toBe(-52);
+      expect(getComparisonOffset('monthly', -1, 'lastYear')).toBe(-13);
+      expect(getComparisonOffset('annual', 0, 'lastYear')).toBe(-1);
+    });
+  });
+
+  describe('getComparisonRange', () => {
+    const range = { start: new Date(2026, 9, 1), end: new Date(2026, 9, 10, 23, 59, 59, 999) };
+
+    it('uses the same number of days immediately before the range', () => {
+      expect(getComparisonRange(range, 'previous')).toEqual({
+        start: new Date(2026, 8, 21),
+        end: new Date(2026, 8, 30),
+      });
+    });
+
+    it('uses the same dates last year', () => {
+      expect(getComparisonRange(range, 'lastYear')).toEqual({
+        start: new Date(2025, 9, 1),
+        end: new Date(2025, 9, 10),
+      });
+    });
+
+    it('moves 29 February to the 28th', () => {
+      const leapDay = { start: new Date(2028, 1, 29), end: new Date(2028, 1, 29) };
+      expect(getComparisonRange(leapDay, 'lastYear').start).toEqual(new Date(2027, 1, 28));
+    });
+  });
+
+  describe('getDateRangeFromSelection', () => {
+    it('covers whole days for a custom range', () => {
+      expect(getDateRangeFromSelection('custom', { from: '2026-10-01', to: '2026-10-10' })).toEqual({
+        start: new Date(2026, 9, 1),
+        end: new Date(2026, 9, 10, 23, 59, 59, 999),
+      });
+    });
+
+    it('rejects custom ranges that end before they start or are incomplete', () => {
+      expect(getDateRangeFromSelection('custom', { from: '2026-10-10', to: '2026-10-01' })).toBeNull();
+      expect(getDateRangeFromSelection('custom', { from: '', to: '2026-10-01' })).toBeNull();
+      expect(getDateRangeFromSelection('custom')).toBeNull();
+    });
+  });
+
+  describe('summarizePeriodMetrics', () => {
+    it('totals routes and distance and works out the hourly rate across work types', () => {
+      const metrics = summarizePeriodMetrics({
+        totalIncome: 300,
+        chartData: [point(100, 2, 30), point(200, 3, 45)],
+        incomeBySource: { Delivery: workType(200, 10), Taxi: workType(100, 5) },
+      });
+
+      expect(metrics).toEqual({ income: 300, routes: 5, distance: 75, hourlyRate: 20 });
+    });
+  });
+
+  describe('calculateDelta', () => {
+    it('reports the change and percentage change', () => {
+      expect(calculateDelta(150, 120)).toEqual({ current: 150, previous: 120, difference: 30, percentChange: 25 });
+      expect(calculateDelta(90, 120).percentChange).toBe(-25);
+    });
+
+    it('has no percentage when the comparison was zero', () => {
+      expect(calculateDelta(50, 0).percentChange).toBeNull();
+    });
+  });
+
+  describe('comparePeriods', () => {
+    it('compares every headline metric', () => {
+      const comparison = comparePeriods(
+        { totalIncome: 200, chartData: [point(200, 4, 40)], incomeBySource: { Delivery: workType(200, 8) } },
+        { totalIncome: 100, chartData: [point(100, 2, 40)], incomeBySource: { Delivery: workType(100, 5) } }
+      );
+
+      expect(comparison.income.difference).toBe(100);
+      expect(comparison.routes.percentChange).toBe(100);
+      expect(comparison.distance.percentChange).toBe(0);
+      expect(comparison.hourlyRate).toEqual({ current: 25, previous: 20, difference: 5, percentChange: 25 });
+    });
+  });
+});
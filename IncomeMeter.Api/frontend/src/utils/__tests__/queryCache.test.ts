@@ -0,0 +1,120 @@
+import {
+  MAX_CACHED_QUERIES,
+  clearQueryCache,
+  fetchQuery,
+  getQueryData,
+  getQueryState,
+  invalidateQueries,
+  isQueryStale,
+  setQueriesData,
+  setQueryData,
+  subscribeToQuery,
+} from '../queryCache';
+
+const deferred = <T>() => {
+  let resolve!: (value: T) => void;
+  const promise = new Promise<T>(res => {
+    resolve = res;
+  });
+  return { promise, resolve };
+};
+
+describe('Query cache', () => {
+  beforeEach(() => {
+    clearQueryCache();
+  });
+
+  describe('fetchQuery', () => {
+    it('shares a fetch in flight between callers of the same key', async () => {
+      const fetcher = jest.fn().mockResolvedValue(['route-1']);
+
+      const [first, second] = await Promise.all([
+        fetchQuery(['routes', 'list', {}], fetcher),
+        fetchQuery(['routes', 'list', {}], fetcher),
+      ]);
+
+      expect(first).toEqual(['route-1']);
+      expect(second).toBe(first);
+      expect(fetcher).toHaveBeenCalledTimes(1);
+    });
+
+    it('serves fresh data from the cache and refetches once it is stale', async () => {
+      const fetcher = jest.fn().mockResolvedValueOnce('first').mockResolvedValueOnce('second');
+
+      await fetchQuery(['dashboard', 'stats'], fetcher);
+      await expect(fetchQuery(['dashboard', 'stats'], fetcher)).resolves.toBe('first');
+      await expect(fetchQuery(['dashboard', 'stats'], fetcher, { staleTime: -1 })).resolves.toBe('second');
+
+      expect(fetcher).toHaveBeenCalledTimes(2);
+    });
+
+    it('keeps the last data when a refetch fails', async () => {
+      await fetchQuery(['routes', 'detail', '1'], async () => 'route');
+
+      await expect(fetchQuery(['routes', 'detail', '1'], () => Promise.reject(new Error('offline')), { force: true }))
+        .rejects.toThrow('offline');
+
+      expect(getQueryState(['routes', 'detail', '1'])).toMatchObject({ data: 'route', error: new Error('offline'), isFetching: false });
+    });
+
+    it('drops a result that arrives after the data was written directly', async () => {
+      const response = deferred<string>();
+      const request = fetchQuery(['routes', 'detail', '1'], () => response.promise);
+
+      setQueryData(['routes', 'detail', '1'], 'saved copy');
+      response.resolve('older copy');
+      await request;
+
+      expect(getQueryData(['routes', 'detail', '1'])).toBe('saved copy');
+    });
+  });
+
+  describe('invalidateQueries', () => {
+    it('refetches subscribed queries under the prefix and marks the rest stale', async () => {
+      const listFetcher = jest.fn().mockResolvedValue(['route-1']);
+      const statsFetcher = jest.fn().mockResolvedValue({ netIncome: 10 });
+      await fetchQuery(['routes', 'list', {}], listFetcher);
+      await fetchQuery(['routes', 'detail', '1'], jest.fn().mockResolvedValue('route'));
+      await fetchQuery(['dashboard', 'stats'], statsFetcher);
+      const listener = jest.fn();
+      subscribeToQuery(['routes', 'list', {}], listener);
+
+      invalidateQueries(['routes']);
+
+      expect(listFetcher).toHaveBeenCalledTimes(2);
+      expect(listener).toHaveBeenCalled();
+      expect(isQueryStale(getQueryState(['routes', 'detail', '1']))).toBe(true);
+      expect(isQueryStale(getQueryState(['dashboard', 'stats']))).toBe(false);
+      expect(statsFetcher).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('setQueriesData', () => {
+    it('patches every query under the prefix and can roll the change back', async () => {
+      await fetchQuery(['routes', 'list', { status: 'completed' }], async () => ['a', 'b']);
+      await fetchQuery(['routes', 'list', {}], async () => ['a', 'b', 'c']);
+
+      const rollback = setQueriesData<string[]>(['routes', 'list'], routes => routes.filter(id => id !== 'b'));
+
+      expect(getQueryData(['routes', 'list', { status: 'completed' }])).toEqual(['a']);
+      expect(getQueryData(['routes', 'list', {}])).toEqual(['a', 'c']);
+
+      rollback();
+
+      expect(getQueryData(['routes', 'list', { status: 'completed' }])).toEqual(['a', 'b']);
+      expect(getQueryData(['routes', 'list', {}])).toEqual(['a', 'b', 'c']);
+    });
+  });
+
+  it('drops the least recently used queries nobody is subscribed to', async () => {
+    subscribeToQuery(['dashboard', 'period', 0], jest.fn());
+    await fetchQuery(['dashboard', 'period', 0], async () => 'shown');
+    for (let offset = 1; offset <= MAX_CACHED_QUERIES; offset++) {
+      await fetchQuery(['dashboard', 'period', offset], async () => offset);
+    }
+
+    expect(getQueryData(['dashboard', 'period', 0])).toBe('shown');
+    expect(getQueryData(['dashboard', 'period', 1])).toBeUndefined();
+    expect(getQueryData(['dashboard', 'period', MAX_CACHED_QUERIES])).toBe(MAX_CACHED_QUERIES);
+  });
+});
@@ -0,0 +1,108 @@
+import { buildRouteExportRows, formatExportDateTime, getIncomeSourceColumns } from '../routeExport';
+import { toCsv, getColumnName } from '../spreadsheetExport';
+import type { Route } from '../../types';
+
+const t = (key: string) => key.split('.').pop() || key;
+
+const createRoute = (overrides: Partial<Route> = {}): Route => ({
+  id: 'route-1',
+  userId: 'user-1',
+  workType: 'Delivery',
+  status: 'completed',
+  scheduleStart: new Date('2024-06-01T08:00:00Z'),
+  scheduleEnd: new Date('2024-06-01T16:00:00Z'),
+  actualStartTime: new Date('2024-06-01T08:15:00Z'),
+  actualEndTime: new Date('2024-06-01T15:45:00Z'),
+  incomes: [
+    { source: 'Uber Eats', amount: 45.5 },
+    { source: 'Tips', amount: 10 },
+  ],
+  totalIncome: 55.5,
+  estimatedIncome: 60,
+  distance: 100,
+  startMile: 1000,
+  endMile: 1100,
+  createdAt: new Date('2024-06-01T08:00:00Z'),
+  updatedAt: new Date('2024-06-01T16:00:00Z'),
+  ...overrides,
+});
+
+describe('Route Export', () => {
+  describe('formatExportDateTime', () => {
+    it('formats dates in the requested timezone', () => {
+      expect(formatExportDateTime(new Date('2024-06-01T08:00:00Z'), 'Europe/London')).toBe('2024-06-01 09:00');
+      expect(formatExportDateTime(new Date('2024-06-01T20:00:00Z'), 'Asia/Hong_Kong')).toBe('2024-06-02 04:00');
+    });
+
+    it('returns an empty string for missing or invalid dates', () => {
+      expect(formatExportDateTime(undefined, 'Europe/London')).toBe('');
+      expect(formatExportDateTime('not-a-date', 'Europe/London')).toBe('');
+    });
+  });
+
+  describe('getIncomeSourceColumns', () => {
+    it('collects unique sources across routes in alphabetical order', () => {
+      const routes = [
+        createRoute(),
+        createRoute({ id: 'route-2', incomes: [{ source: 'Deliveroo', amount: 20 }, { source: ' ', amount: 1 }] }),
+      ];
+
+      expect(getIncomeSourceColumns(routes)).toEqual(['Deliveroo', 'Tips', 'Uber Eats']);
+    });
+  });
+
+  describe('buildRouteExportRows', () => {
+    const options = { t, currency: 'GBP', timeZone: 'Europe/London', mileageUnit: 'mi' as const };
+
+    it('builds a header with one column per income source', () => {
+      const [header] = buildRouteExportRows([createRoute()], options);
+
+      expect(header).toEqual([
+        'workType', 'status', 'scheduleStart', 'scheduleEnd', 'actualStart', 'actualEnd',
+        'startOdometer (mi)', 'endOdometer (mi)', 'distance (mi)', 'estimatedIncome (GBP)',
+        'Tips (GBP)', 'Uber Eats (GBP)', 'totalIncome (GBP)',
+      ]);
+    });
+
+    it('keeps routes in the given order and leaves unused sources empty', () => {
+      const routes = [
+        createRoute({ id: 'a', incomes: [{ source: 'Tips', amount: 5 }, { source: 'Tips', amount: 2.5 }], totalIncome: 7.5 }),
+        createRoute({ id: 'b', workType: 'Taxi', status: 'in_progress' }),
+      ];
+
+      const [, first, second] = buildRouteExportRows(routes, options);
+
+      expect(first[0]).toBe('Delivery');
+      expect(first.slice(-3)).toEqual([7.5, null, 7.5]);
+      expect(second[0]).toBe('Taxi');
+      expect(second[1]).toBe('inProgress');
+      expect(second.slice(-3)).toEqual([10, 45.5, 55.5]);
+    });
+
+    it('converts distances to the user mileage unit', () => {
+      const [header, row] = buildRouteExportRows([createRoute()], { ...options, mileageUnit: 'km' });
+
+      expect(header[8]).toBe('distance (km)');
+      expect(row[8]).toBeCloseTo(160.93, 1);
+    });
+  });
+});
+
+describe('Spreadsheet Export', () => {
+  it('escapes CSV values containing commas, quotes and newlines', () => {
+    const csv = toCsv([
+      ['name', 'note'],
+      ['Smith, J', 'said "hi"\nthen left'],
+      [12.5, null],
+    ]);
+
+    expect(csv).toBe('name,note\r\n"Smith, J","said ""hi""\nthen left"\r\n12.5,');
+  });
+
+  it('converts column indexes to spreadsheet column names', () => {
+    expect(getColumnName(0)).toBe('A');
+    expect(getColumnName(25)).toBe('Z');
+    expect(getColumnName(26)).toBe('AA');
+    expect(getColumnName(701)).toBe('ZZ');
+  });
+});
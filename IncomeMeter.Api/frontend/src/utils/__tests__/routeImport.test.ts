@@ -0,0 +1,191 @@
+import {
+  parseCsv,
+  autoDetectMapping,
+  parseImportDateTime,
+  parseImportNumber,
+  validateImportRows,
+  type ColumnMapping,
+  type CsvRow,
+} from '../routeImport';
+import type { WorkTypeConfig } from '../../types';
+
+const workTypes: WorkTypeConfig[] = [
+  {
+    id: 'wt-1',
+    name: 'Food Delivery',
+    incomeSourceTemplates: [
+      { name: 'Uber Eats', isRequired: false, displayOrder: 1 },
+      { name: 'Tips', isRequired: false, displayOrder: 2 },
+    ],
+    isActive: true,
+    createdAt: '2024-01-01T00:00:00Z',
+    updatedAt: '2024-01-01T00:00:00Z',
+  },
+  {
+    id: 'wt-2',
+    name: 'Taxi',
+    incomeSourceTemplates: [],
+    isActive: true,
+    createdAt: '2024-01-01T00:00:00Z',
+    updatedAt: '2024-01-01T00:00:00Z',
+  },
+];
+
+const options = {
+  workTypes,
+  timeZone: 'Europe/London',
+  dateFormat: 'DD/MM/YYYY',
+  mileageUnit: 'mi' as const,
+};
+
+describe('Route Import', () => {
+  describe('parseCsv', () => {
+    it('parses quoted fields, escaped quotes and embedded newlines', () => {
+      const rows = parseCsv('\uFEFFname,note\r\n"Smith, J","said ""hi""\nthen left"\r\n\r\nplain,value\n');
+
+      expect(rows.map(row => row.values)).toEqual([
+        ['name', 'note'],
+        ['Smith, J', 'said "hi"\nthen left'],
+        ['plain', 'value'],
+      ]);
+    });
+
+    it('numbers rows by the line they start on, counting blank lines and multi-line fields', () => {
+      const rows = parseCsv('start,end\n\n"first\r\nnote",a\r\nsecond,b\rthird,c');
+
+      expect(rows.map(row => row.lineNumber)).toEqual([1, 3, 5, 6]);
+    });
+  });
+
+  describe('autoDetectMapping', () => {
+    it('maps headers produced by the route export', () => {
+      const mapping = autoDetectMapping(
+        ['Work Type', 'Status', 'Scheduled Start', 'Scheduled End', 'Start Odometer (mi)', 'End Odometer (mi)', 'Uber Eats (GBP)', 'Bonus (GBP)', 'Total Income (GBP)', 'Notes'],
+        workTypes
+      );
+
+      expect(mapping).toEqual([
+        { field: 'workType' },
+        { field: 'ignore' },
+        { field: 'scheduleStart' },
+        { field: 'scheduleEnd' },
+        { field: 'startMile' },
+        { field: 'endMile' },
+        { field: 'income', incomeSource: 'Uber Eats' },
+        { field: 'income', incomeSource: 'Bonus' },
+        { field: 'ignore' },
+        { field: 'ignore' },
+      ]);
+    });
+  });
+
+  describe('parseImportDateTime', () => {
+    it('parses ISO date-times in the user timezone', () => {
+      expect(parseImportDateTime('2024-06-01 09:00', 'DD/MM/YYYY', 'Europe/London')?.toISOString())
+        .toBe('2024-06-01T08:00:00.000Z');
+    });
+
+    it('orders slash dates by the user date format', () => {
+      expect(parseImportDateTime('02/03/2024 14:30', 'DD/MM/YYYY', 'UTC')?.toISOString())
+        .toBe('2024-03-02T14:30:00.000Z');
+      expect(parseImportDateTime('02/03/2024 2:30 pm', 'MM/DD/YYYY', 'UTC')?.toISOString())
+        .toBe('2024-02-03T14:30:00.000Z');
+    });
+
+    it('keeps timestamps with an explicit offset', () => {
+      expect(parseImportDateTime('2024-06-01T09:00:00Z', 'DD/MM/YYYY', 'Asia/Hong_Kong')?.toISOString())
+        .toBe('2024-06-01T09:00:00.000Z');
+    });
+
+    it('rejects impossible dates', () => {
+      expect(parseImportDateTime('31/02/2024 10:00', 'DD/MM/YYYY', 'UTC')).toBeNull();
+      expect(parseImportDateTime('tomorrow', 'DD/MM/YYYY', 'UTC')).toBeNull();
+    });
+  });
+
+  describe('parseImportNumber', () => {
+    it('ignores currency symbols and thousands separators', () => {
+      expect(parseImportNumber('£1,234.50')).toBe(1234.5);
+      expect(parseImportNumber('')).toBeUndefined();
+      expect(parseImportNumber('abc')).toBeNaN();
+    });
+  });
+
+  describe('validateImportRows', () => {
+    const row = (lineNumber: number, values: string[]): CsvRow => ({ lineNumber, values });
+    const mapping: ColumnMapping[] = [
+      { field: 'scheduleStart' },
+      { field: 'scheduleEnd' },
+      { field: 'workType' },
+      { field: 'startMile' },
+      { field: 'endMile' },
+      { field: 'income', incomeSource: 'uber eats' },
+      { field: 'income', incomeSource: 'Tips' },
+    ];
+
+    it('builds completed routes for valid rows', () => {
+      const [result] = validateImportRows(
+        [row(4, ['2024-06-01 09:00', '2024-06-01 17:00', 'food delivery', '1000', '1080', '45.50', ''])],
+        mapping,
+        options
+      );
+
+      expect(result.errors).toEqual([]);
+      expect(result.rowNumber).toBe(4);
+      expect(result.route).toMatchObject({
+        workType: 'Food Delivery',
+        workTypeId: 'wt-1',
+        status: 'completed',
+        startMile: 1000,
+        endMile: 1080,
+        incomes: [{ source: 'Uber Eats', amount: 45.5 }],
+        totalIncome: 45.5,
+      });
+    });
+
+    it('reports row-level errors', () => {
+      const [result] = validateImportRows(
+        [row(2, ['2024-06-01 17:00', '2024-06-01 09:00', 'Plumbing', '1080', '1000', 'ten', ''])],
+        mapping,
+        options
+      );
+
+      expect(result.route).toBeNull();
+      expect(result.errors.map(issue => issue.key)).toEqual([
+        'endBeforeStart',
+        'unknownWorkType',
+        'endMileBeforeStartMile',
+        'invalidAmount',
+      ]);
+    });
+
+    it('rejects income sources that are not in the work type template', () => {
+      const [result] = validateImportRows(
+        [row(2, ['2024-06-01 09:00', '2024-06-01 17:00', 'Food Delivery', '', '', '', ''])],
+        [...mapping.slice(0, 5), { field: 'income', incomeSource: 'Deliveroo' }],
+        options
+      );
+      const [withExtra] = validateImportRows(
+        [row(2, ['2024-06-01 09:00', '2024-06-01 17:00', 'Food Delivery', '', '', '12'])],
+        [...mapping.slice(0, 5), { field: 'income', incomeSource: 'Deliveroo' }],
+        options
+      );
+
+      expect(result.errors).toEqual([]);
+      expect(withExtra.errors).toEqual([
+        { key: 'unknownIncomeSource', params: { source: 'Deliveroo', workType: 'Food Delivery' } },
+      ]);
+    });
+
+    it('falls back to the default work type and converts kilometres to miles', () => {
+      const [result] = validateImportRows(
+        [row(2, ['2024-06-01 09:00', '2024-06-01 17:00', '', '160.934', ''])],
+        mapping.slice(0, 5),
+        { ...options, defaultWorkTypeId: 'wt-2', mileageUnit: 'km' }
+      );
+
+      expect(result.route?.workType).toBe('Taxi');
+      expect(result.route?.startMile).toBeCloseTo(100, 1);
+    });
+  });
+});
@@ -0,0 +1,146 @@
+import {
+  getAccessToken,
+  storeSession,
+  getTokenExpiry,
+  isTokenExpiring,
+  getSessionStatus,
+  subscribeToSession,
+  renewSession,
+  waitForSignIn,
+  completeSignIn,
+  abandonSession,
+  handleSessionStorageEvent,
+} from '../session';
+
+const createToken = (exp: number) =>
+  `header.${btoa(JSON.stringify({ sub: 'user-1', exp })).replace(/=+$/, '')}.signature`;
+
+describe('Web session', () => {
+  beforeEach(() => {
+    abandonSession();
+    storeSession('old-access');
+  });
+
+  describe('token expiry', () => {
+    it('reads the expiry from the JWT payload', () => {
+      expect(getTokenExpiry(createToken(1_800_000_000))).toBe(1_800_000_000_000);
+      expect(getTokenExpiry('not-a-jwt')).toBeNull();
+    });
+
+    it('treats tokens inside the leeway as expiring', () => {
+      const token = createToken(1_800_000_000);
+      expect(isTokenExpiring(token, 1_800_000_000_000 - 60_000)).toBe(true);
+      expect(isTokenExpiring(token, 1_800_000_000_000 - 10 * 60_000)).toBe(false);
+      expect(isTokenExpiring('not-a-jwt')).toBe(false);
+    });
+  });
+
+  describe('renewSession', () => {
+    it('shares one renewal between concurrent callers and stores the new access token', async () => {
+      const renew = jest.fn().mockResolvedValue({ accessToken: 'new-access' });
+
+      const tokens = await Promise.all([renewSession(renew), renewSession(renew), renewSession(renew)]);
+
+      expect(renew).toHaveBeenCalledTimes(1);
+      expect(tokens).toEqual(['new-access', 'new-access', 'new-access']);
+      expect(getAccessToken()).toBe('new-access');
+    });
+
+    it('drops a refresh token left in storage by an earlier build', async () => {
+      localStorage.setItem('refreshToken', 'legacy-refresh');
+
+      await renewSession(jest.fn().mockResolvedValue({ accessToken: 'new-access' }));
+
+      expect(localStorage.getItem('refreshToken')).toBeNull();
+    });
+
+    it('marks the session expired when the refresh token is refused', async () => {
+      const listener = jest.fn();
+      const unsubscribe = subscribeToSession(listener);
+      const renew = jest.fn().mockRejectedValue({ isAxiosError: true, response: { status: 401 } });
+
+      await expect(renewSession(renew)).rejects.toBeDefined();
+
+      expect(getSessionStatus()).toBe('expired');
+      expect(listener).toHaveBeenCalledWith('expired');
+      // Nothing more is sent until the user signs in again
+      await expect(renewSession(renew)).rejects.toThrow('Session expired');
+      expect(renew).toHaveBeenCalledTimes(1);
+      unsubscribe();
+    });
+
+    it('adopts the session another tab stored when its renewal rotated the refresh token first', async () => {
+      const renew = jest.fn().mockImplementation(async () => {
+        storeSession('tab-access');
+        throw { isAxiosError: true, response: { status: 401 } };
+      });
+
+      await expect(renewSession(renew)).resolves.toBe('tab-access');
+
+      expect(getSessionStatus()).toBe('active');
+    });
+
+    it('uses the token another tab renewed while this one waited for the renewal lock', async () => {
+      Object.defineProperty(navigator, 'locks', {
+        configurable: true,
+        value: {
+          request: async (_name: string, task: () => Promise<string>) => {
+            storeSession('tab-access');
+            return task();
+          },
+        },
+      });
+      const renew = jest.fn();
+
+      try {
+        await expect(renewSession(renew)).resolves.toBe('tab-access');
+        expect(renew).not.toHaveBeenCalled();
+      } finally {
+        delete (navigator as { locks?: unknown }).locks;
+      }
+    });
+
+    it('keeps the session active when renewal fails for lack of a connection', async () => {
+      const networkError = Object.assign(new Error('Network Error'), { isAxiosError: true });
+      const renew = jest.fn().mockRejectedValue(networkError);
+
+      await expect(renewSession(renew)).rejects.toBe(networkError);
+
+      expect(getSessionStatus()).toBe('active');
+    });
+  });
+
+  describe('signing in again', () => {
+    const expireSession = () => renewSession(jest.fn().mockRejectedValue(new Error('401'))).catch(() => undefined);
+
+    it('holds requests until the user signs in, then hands them the new token', async () => {
+      await expireSession();
+      const waiting = waitForSignIn();
+
+      completeSignIn('fresh-access');
+
+      await expect(waiting).resolves.toBe('fresh-access');
+      expect(getSessionStatus()).toBe('active');
+    });
+
+    it('picks up a sign-in from another tab', async () => {
+      await expireSession();
+      const waiting = waitForSignIn();
+
+      handleSessionStorageEvent({ key: 'refreshToken', newValue: 'other' });
+      handleSessionStorageEvent({ key: 'accessToken', newValue: 'tab-access' });
+
+      await expect(waiting).resolves.toBe('tab-access');
+    });
+
+    it('fails waiting requests and drops the tokens when the session is abandoned', async () => {
+      await expireSession();
+      const waiting = waitForSignIn();
+
+      abandonSession();
+
+      await expect(waiting).rejects.toThrow('Session expired');
+      expect(getAccessToken()).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,136 @@
+import { buildTaxSummary, calculateMileageAllowance } from '../taxSummary';
+import { getFiscalYearRange, formatFiscalYearLabel } from '../fiscalYear';
+import type { Route } from '../../types';
+
+const createRoute = (overrides: Partial<Route> = {}): Route => ({
+  id: 'route-1',
+  userId: 'user-1',
+  workType: 'Delivery',
+  status: 'completed',
+  scheduleStart: new Date('2024-06-01T08:00:00Z'),
+  scheduleEnd: new Date('2024-06-01T16:00:00Z'),
+  incomes: [],
+  totalIncome: 0,
+  estimatedIncome: 0,
+  distance: 0,
+  createdAt: new Date('2024-06-01T08:00:00Z'),
+  updatedAt: new Date('2024-06-01T16:00:00Z'),
+  ...overrides,
+});
+
+describe('Tax Summary', () => {
+  describe('calculateMileageAllowance', () => {
+    it('applies 45p per mile up to the threshold', () => {
+      expect(calculateMileageAllowance(8000)).toEqual({
+        totalMiles: 8000,
+        firstTierMiles: 8000,
+        secondTierMiles: 0,
+        firstTierAmount: 3600,
+        secondTierAmount: 0,
+        totalAllowance: 3600,
+      });
+    });
+
+    it('applies 25p per mile above 10,000 miles', () => {
+      const allowance = calculateMileageAllowance(12000);
+
+      expect(allowance.firstTierAmount).toBe(4500);
+      expect(allowance.secondTierMiles).toBe(2000);
+      expect(allowance.secondTierAmount).toBe(500);
+      expect(allowance.totalAllowance).toBe(5000);
+    });
+  });
+
+  describe('buildTaxSummary', () => {
+    const routes = [
+      createRoute({
+        id: 'r1',
+        distance: 50,
+        incomes: [
+          { source: 'Uber Eats', amount: 40 },
+          { source: 'Tips', amount: 5 },
+          { source: 'Tips', amount: 2.5 },
+        ],
+      }),
+      createRoute({
+        id: 'r2',
+        workType: 'Taxi',
+        distance: 30,
+        incomes: [{ source: 'Uber', amount: 100 }],
+      }),
+      createRoute({
+        id: 'r3',
+        workType: undefined,
+        distance: 20,
+        incomes: [{ source: 'Tips', amount: 10 }],
+      }),
+      createRoute({
+        id: 'r4',
+        status: 'scheduled',
+        distance: 500,
+        incomes: [{ source: 'Uber', amount: 999 }],
+      }),
+    ];
+
+    it('totals completed routes only', () => {
+      const summary = buildTaxSummary(routes);
+
+      expect(summary.totalRoutes).toBe(3);
+      expect(summary.grossIncome).toBe(157.5);
+      expect(summary.mileageAllowance.totalMiles).toBe(100);
+      expect(summary.mileageAllowance.totalAllowance).toBe(45);
+      expect(summary.netProfit).toBe(112.5);
+    });
+
+    it('deducts recorded expenses except the vehicle running costs the mileage allowance covers', () => {
+      const summary = buildTaxSummary(routes, [
+        { category: 'parking', amount: 6 },
+        { category: 'phone', amount: 15.5 },
+        { category: 'fuel', amount: 40 },
+        { category: 'maintenance', amount: 120 },
+      ]);
+
+      expect(summary.allowableExpenses).toBe(21.5);
+      expect(summary.vehicleExpenses).toBe(160);
+      expect(summary.netProfit).toBe(91);
+    });
+
+    it('groups income by source and work type, largest first', () => {
+      const summary = buildTaxSummary(routes);
+
+      expect(summary.incomeBySource).toEqual([
+        { name: 'Uber', income: 100, routes: 1, miles: 0 },
+        { name: 'Uber Eats', income: 40, routes: 1, miles: 0 },
+        { name: 'Tips', income: 17.5, routes: 2, miles: 0 },
+      ]);
+      expect(summary.incomeByWorkType).toEqual([
+        { name: 'Taxi', income: 100, routes: 1, miles: 30 },
+        { name: 'Delivery', income: 47.5, routes: 1, miles: 50 },
+        { name: 'Other', income: 10, routes: 1, miles: 20 },
+      ]);
+    });
+
+    it('uses the reconciled tax miles in place of the odometer distance', () => {
+      const reconciled = routes.map(route => (route.id === 'r1' ? { ...route, mileageSource: 'gps' as const, taxMiles: 42.5 } : route));
+
+      expect(buildTaxSummary(reconciled).mileageAllowance.totalMiles).toBe(92.5);
+    });
+  });
+
+  describe('fiscal year helpers', () => {
+    it('returns the UK tax year boundaries', () => {
+      const range = getFiscalYearRange(2024, '04-06');
+
+      expect(range.startDate).toEqual(new Date(2024, 3, 6));
+      expect(range.endDate.getFullYear()).toBe(2025);
+      expect(range.endDate.getMonth()).toBe(3);
+      expect(range.endDate.getDate()).toBe(5);
+    });
+
+    it('labels split and calendar fiscal years', () => {
+      expect(formatFiscalYearLabel(2024, '04-06')).toBe('2024/25');
+      expect(formatFiscalYearLabel(2099, '04-06')).toBe('2099/00');
+      expect(formatFiscalYearLabel(2024, '01-01')).toBe('2024');
+    });
+  });
+});
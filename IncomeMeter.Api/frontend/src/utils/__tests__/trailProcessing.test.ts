@@ -0,0 +1,97 @@
+import {
+  DEFAULT_TRAIL_CLEANUP,
+  rejectOutliers,
+  kalmanSmooth,
+  simplifyTrail,
+  processTrail,
+  getTrailDistanceKm,
+  loadTrailCleanupOptions,
+  saveTrailCleanupOptions,
+} from '../trailProcessing';
+
+// A straight drive north at roughly 36 km/h: 0.0009° of latitude (~100 m) every 10 seconds
+const drive = (count: number) =>
+  Array.from({ length: count }, (_, index) => ({
+    id: String(index),
+    latitude: Number((51.5 + index * 0.0009).toFixed(6)),
+    longitude: -0.1,
+    accuracy: 10,
+    timestamp: new Date(Date.UTC(2026, 9, 19, 9, 0, index * 10)).toISOString(),
+    distanceFromLastKm: null as number | null,
+  }));
+
+describe('Trail processing', () => {
+  describe('rejectOutliers', () => {
+    it('drops inaccurate fixes and impossible-speed jumps', () => {
+      const trail = drive(5);
+      trail[1] = { ...trail[1], accuracy: 120 };
+      trail[3] = { ...trail[3], latitude: 51.6 }; // ~11 km in 10 seconds
+
+      const { kept, rejected } = rejectOutliers(trail, DEFAULT_TRAIL_CLEANUP);
+
+      expect(kept.map(point => point.id)).toEqual(['0', '2', '4']);
+      expect(rejected.map(({ point, reason }) => [point.id, reason])).toEqual([
+        ['1', 'inaccurate'],
+        ['3', 'impossibleSpeed'],
+      ]);
+    });
+
+    it('keeps points without a reported accuracy', () => {
+      const trail = drive(2).map(point => ({ ...point, accuracy: null }));
+      expect(rejectOutliers(trail, DEFAULT_TRAIL_CLEANUP).kept).toHaveLength(2);
+    });
+  });
+
+  describe('kalmanSmooth', () => {
+    it('pulls a jittery fix back towards the line, more so when it is less accurate', () => {
+      const trail = drive(3);
+      const offLine = { ...trail[1], longitude: -0.1005 };
+
+      const precise = kalmanSmooth([trail[0], { ...offLine, accuracy: 5 }, trail[2]]);
+      const rough = kalmanSmooth([trail[0], { ...offLine, accuracy: 40 }, trail[2]]);
+
+      expect(precise[1].longitude).toBeLessThan(-0.1);
+      expect(rough[1].longitude).toBeGreaterThan(precise[1].longitude);
+      expect(rough[0]).toEqual(trail[0]);
+    });
+  });
+
+  describe('simplifyTrail', () => {
+    it('removes points that lie on the line and keeps corners', () => {
+      const straight = drive(6);
+      expect(simplifyTrail(straight).map(point => point.id)).toEqual(['0', '5']);
+
+      const corner = { ...straight[5], id: 'corner', longitude: -0.095, timestamp: '2026-10-19T09:01:00.000Z' };
+      expect(simplifyTrail([...straight, corner]).map(point => point.id)).toEqual(['0', '5', 'corner']);
+    });
+  });
+
+  describe('processTrail', () => {
+    it('compares the stored distance with the recomputed one', () => {
+      // Server distances inflated by a spike that went ~11 km out and back
+      const trail = drive(4).map((point, index) => ({ ...point, distanceFromLastKm: index === 0 ? null : 0.1 }));
+      const spiked = [...trail.slice(0, 2), { ...trail[2], latitude: 51.6, distanceFromLastKm: 11 }, { ...trail[3], distanceFromLastKm: 11 }];
+
+      const result = processTrail(spiked, { ...DEFAULT_TRAIL_CLEANUP, enabled: true });
+
+      expect(result.rawDistanceKm).toBeCloseTo(22.1, 1);
+      expect(result.rejected).toHaveLength(1);
+      expect(result.cleanedDistanceKm).toBeCloseTo(getTrailDistanceKm([trail[0], trail[1], trail[3]]), 6);
+      expect(result.cleanedDistanceKm).toBeCloseTo(0.3, 1);
+    });
+  });
+
+  describe('cleanup options preference', () => {
+    beforeEach(() => localStorage.clear());
+
+    it('fills in defaults for missing or unreadable stored options', () => {
+      expect(loadTrailCleanupOptions()).toEqual(DEFAULT_TRAIL_CLEANUP);
+
+      saveTrailCleanupOptions({ ...DEFAULT_TRAIL_CLEANUP, enabled: true, kalman: true });
+      expect(loadTrailCleanupOptions()).toEqual({ ...DEFAULT_TRAIL_CLEANUP, enabled: true, kalman: true });
+
+      localStorage.setItem('trailCleanup:options', '{not json');
+      expect(loadTrailCleanupOptions()).toEqual(DEFAULT_TRAIL_CLEANUP);
+    });
+  });
+});
@@ -0,0 +1,60 @@
+import {
+  isVehicleCostModelSet,
+  getFuelCostPerMile,
+  getCostPerMile,
+  getWorkTypeRates,
+  getIncomeSourceRates,
+} from '../vehicleCosts';
+import type { VehicleCostModel } from '../../types';
+
+// £1.45/L at 45.4609 MPG is 14.5p a mile in fuel
+const model: VehicleCostModel = { fuelPricePerLitre: 1.45, milesPerGallon: 45.4609, depreciationPerMile: 0.105 };
+
+const incomeBySource = {
+  Delivery: {
+    income: 200, expenses: 20, netIncome: 180, routes: 4, totalWorkingHours: 10,
+    totalMileage: 100, hourlyRate: 20, earningsPerMile: 2,
+    incomeBySource: { 'Uber Eats': 150, Deliveroo: 50 },
+  },
+  Rideshare: {
+    income: 150, expenses: 0, netIncome: 150, routes: 2, totalWorkingHours: 5,
+    totalMileage: 300, hourlyRate: 30, earningsPerMile: 0.5,
+    incomeBySource: { 'Uber Eats': 150 },
+  },
+};
+
+describe('Vehicle costs', () => {
+  it('derives the cost per mile from fuel price, MPG and depreciation', () => {
+    expect(getFuelCostPerMile(model)).toBeCloseTo(0.145);
+    expect(getCostPerMile(model)).toBeCloseTo(0.25);
+    expect(getCostPerMile(undefined)).toBe(0);
+    expect(getFuelCostPerMile({ ...model, milesPerGallon: 0 })).toBe(0);
+  });
+
+  it('treats a model with no fuel economy and no depreciation as not set', () => {
+    expect(isVehicleCostModelSet(undefined)).toBe(false);
+    expect(isVehicleCostModelSet({ fuelPricePerLitre: 1.45, milesPerGallon: 0, depreciationPerMile: 0 })).toBe(false);
+    expect(isVehicleCostModelSet({ fuelPricePerLitre: 0, milesPerGallon: 0, depreciationPerMile: 0.1 })).toBe(true);
+    expect(isVehicleCostModelSet(model)).toBe(true);
+  });
+
+  it('ranks work types by hourly rate after expenses and vehicle cost', () => {
+    const rates = getWorkTypeRates(incomeBySource, 0.25);
+
+    // Rideshare pays more per hour gross but loses more to mileage
+    expect(rates.map(rate => rate.name)).toEqual(['Delivery', 'Rideshare']);
+    expect(rates[0]).toMatchObject({ vehicleCost: 25, netIncome: 155, grossHourlyRate: 20, netHourlyRate: 15.5 });
+    expect(rates[1]).toMatchObject({ vehicleCost: 75, netIncome: 75, grossHourlyRate: 30, netHourlyRate: 15 });
+  });
+
+  it('apportions hours, miles and expenses to income sources by income share', () => {
+    const rates = getIncomeSourceRates(incomeBySource, 0.25);
+    const uberEats = rates.find(rate => rate.name === 'Uber Eats');
+    const deliveroo = rates.find(rate => rate.name === 'Deliveroo');
+
+    // Three quarters of Delivery plus all of Rideshare
+    expect(uberEats).toMatchObject({ income: 300, expenses: 15, hours: 12.5, miles: 375, vehicleCost: 93.75 });
+    expect(uberEats?.netHourlyRate).toBeCloseTo(15.3);
+    expect(deliveroo).toMatchObject({ income: 50, expenses: 5, hours: 2.5, miles: 25, netIncome: 38.75, netHourlyRate: 15.5 });
+  });
+});
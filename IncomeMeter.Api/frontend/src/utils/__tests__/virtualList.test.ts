@@ -0,0 +1,32 @@
+import { getVirtualWindow } from '../virtualList';
+
+const fixedHeight = () => 100;
+
+describe('Virtual list window', () => {
+  it('renders the rows in view plus the overscan and pads the rest', () => {
+    const range = getVirtualWindow({ itemCount: 1000, getItemHeight: fixedHeight, scrollOffset: 2050, viewportHeight: 500, overscan: 2 });
+
+    // Rows 20-25 are in view
+    expect(range).toEqual({ start: 18, end: 28, paddingTop: 1800, paddingBottom: 97200 });
+  });
+
+  it('starts at the first row while the list is still below the viewport top', () => {
+    const range = getVirtualWindow({ itemCount: 1000, getItemHeight: fixedHeight, scrollOffset: -300, viewportHeight: 500, overscan: 2 });
+
+    expect(range).toEqual({ start: 0, end: 4, paddingTop: 0, paddingBottom: 99600 });
+  });
+
+  it('uses each row height, so measured rows shift the window', () => {
+    const heights = [40, 300, 40, 40, 40, 40];
+
+    const range = getVirtualWindow({ itemCount: heights.length, getItemHeight: index => heights[index], scrollOffset: 350, viewportHeight: 60, overscan: 0 });
+
+    expect(range).toEqual({ start: 2, end: 4, paddingTop: 340, paddingBottom: 80 });
+  });
+
+  it('reaches the end of a short list', () => {
+    const range = getVirtualWindow({ itemCount: 3, getItemHeight: fixedHeight, scrollOffset: 0, viewportHeight: 800 });
+
+    expect(range).toEqual({ start: 0, end: 3, paddingTop: 0, paddingBottom: 0 });
+  });
+});
@@ -1,5 +1,15 @@
-import axios from 'axios';
-import type { DashboardStats, RegisterFormData, Route, User, UserSettings, WorkTypeConfig, CreateWorkTypeConfigRequest, UpdateWorkTypeConfigRequest, ConfigurationResponse, WorkTypeConfigResponseDto, ApiEndpoints, PeriodIncomeData } from "../types";
+import axios, { type InternalAxiosRequestConfig } from 'axios';
+import { createApiClient } from '@incomemeter/api-client';
+import type { DashboardStats, RegisterFormData, Route, RoutePage, RoutePageQuery, User, UserSettings, WorkTypeConfig, CreateWorkTypeConfigRequest, UpdateWorkTypeConfigRequest, ConfigurationResponse, WorkTypeConfigResponseDto, ApiEndpoints, PeriodIncomeData, Location, ImportLocationPoint, LocationImportResult, RouteStops, Expense, CreateExpenseRequest, UpdateExpenseRequest, Attachment, RecurringSchedule, CreateRecurringScheduleRequest, UpdateRecurringScheduleRequest, MileageReconciliation, MileageSource, EarningsHeatmap, EarningsHeatmapQuery } from "../types";
+import { withRetry } from './apiErrors';
+import { executeOrQueue, replayOutbox, type OutboxExecutors, type OutboxReplayResult } from './offlineOutbox';
+import { getAccessToken, getSessionStatus, isTokenExpiring, renewSession, waitForSignIn, type RenewedSession } from './session';
+
+declare module 'axios' {
+  interface AxiosRequestConfig {
+    skipSessionRenewal?: boolean; // for calls that must not wait on a renewal or a fresh sign-in, like logout
+  }
+}
 
 // Get API URL from backend config endpoint
 /*const _getApiUrl = async (): Promise<string> => {
@@ -42,9 +52,25 @@ const api = axios.create({
   },
 });
 
+// Calls generated from the API's OpenAPI document - they go through the interceptors below and
+// check each response against its schema
+const apiClient = createApiClient(api);
+
+// Exchange the refresh token cookie for a new access token. Plain axios, so it bypasses the interceptors below
+const requestSessionRenewal = async (): Promise<RenewedSession> => {
+  const response = await axios.post<{ token: string }>(`${API_BASE_URL}/api/auth/refresh`, null, { withCredentials: true });
+  return { accessToken: response.data.token };
+};
+
 // Request interceptor to add auth token
-api.interceptors.request.use((config) => {
-  const token = localStorage.getItem('accessToken');
+api.interceptors.request.use(async (config) => {
+  let token = getAccessToken();
+
+  // Renew shortly before the access token runs out instead of waiting for a 401
+  if (token && !config.skipSessionRenewal && isTokenExpiring(token)) {
+    token = await renewSession(requestSessionRenewal).catch(() => token);
+  }
+
   console.log('API Request:', config.method?.toUpperCase(), config.url);
   console.log('Token present:', !!token);
   
@@ -62,7 +88,7 @@ api.interceptors.response.use(
     console.log('API Response:', response.status, response.config?.url);
     return response;
   },
-  (error) => {
+  async (error) => {
     console.error('API Error:', {
       status: error.response?.status,
       statusText: error.response?.statusText,
@@ -70,23 +96,41 @@ api.interceptors.response.use(
       data: error.response?.data
     });
     
-    if (error.response?.status === 401) {
-      console.warn('Unauthorized - removing token and redirecting to login');
-      localStorage.removeItem('accessToken');
-      window.location.href = '/login';
+    const config = error.config as (InternalAxiosRequestConfig & { sessionRetried?: boolean }) | undefined;
+    if (error.response?.status === 401 && config && !config.skipSessionRenewal && !config.sessionRetried) {
+      config.sessionRetried = true;
+      try {
+        // Another request may already have renewed the token this one was sent with
+        const currentToken = getAccessToken();
+        const token = currentToken && config.headers.Authorization !== `Bearer ${currentToken}`
+          ? currentToken
+          : await renewSession(requestSessionRenewal)
+            .catch(renewError => getSessionStatus() === 'expired' ? waitForSignIn() : Promise.reject(renewError));
+
+        config.headers.Authorization = `Bearer ${token}`;
+        return api(config);
+      } catch {
+        console.warn('Unauthorized - session could not be renewed');
+      }
     }
     return Promise.reject(error);
   }
 );
 
 // Auth endpoints
+export const renewAccessToken = (): Promise<string> => renewSession(requestSessionRenewal);
+
 export const getProfile = async (): Promise<User> => {
   const response = await api.get<User>('/api/auth/profile');
   return response.data;
 };
 
+// The refresh token cookie is only sent to the refresh endpoint, so it is revoked there
 export const logout = async (): Promise<void> => {
-  await api.post('/api/auth/logout');
+  await Promise.all([
+    axios.delete(`${API_BASE_URL}/api/auth/refresh`, { withCredentials: true }),
+    api.post('/api/auth/logout', undefined, { skipSessionRenewal: true }),
+  ]);
 };
 
 export const register = async (data: RegisterFormData): Promise<User> => {
@@ -104,10 +148,7 @@ export const registerWithGoogle = async (googleId: string, email: string, displa
 };
 
 // Dashboard endpoints
-export const getDashboardStats = async (): Promise<DashboardStats> => {
-  const response = await api.get<DashboardStats>('/api/dashboard/stats');
-  return response.data;
-};
+export const getDashboardStats = (): Promise<DashboardStats> => apiClient.dashboard.getDashboardStats();
 
 export const getTodaysRoutes = async (): Promise<Route[]> => {
   const response = await api.get<Route[]>('/api/dashboard/todays-routes');
@@ -145,6 +186,22 @@ export const getPeriodStats = async (
   };
 };
 
+// Inclusive YYYY-MM-DD dates; the API picks daily, weekly or monthly buckets from the range length
+export const getRangeStats = async (startDate: string, endDate: string): Promise<PeriodIncomeData> => {
+  const response = await api.post<PeriodIncomeData>('/api/dashboard/range-stats', {
+    startDate,
+    endDate
+  });
+
+  return {
+    ...response.data,
+    chartData: response.data.chartData.map(item => ({
+      ...item,
+      date: new Date(item.date).toISOString()
+    }))
+  };
+};
+
 // Settings endpoints
 export const getUserSettings = async (): Promise<UserSettings> => {
   const response = await api.get<UserSettings>('/api/users/settings');
@@ -177,11 +234,24 @@ export const getRoutesByDateRange = async (startDate: string, endDate: string):
   return response.data;
 };
 
-export const createRoute = async (routeData: Partial<Route>): Promise<Route> => {
-  const response = await api.post<Route>('/api/routes', routeData);
+// Pass the previous page's nextCursor with the same query for the page after it.
+// Lists go as repeated keys (workTypes=a&workTypes=b), which is what ASP.NET binds
+export const getRoutePage = async (query: RoutePageQuery, cursor?: string, limit?: number): Promise<RoutePage> => {
+  const response = await api.get<RoutePage>('/api/routes/page', {
+    params: { ...query, cursor, limit },
+    paramsSerializer: { indexes: null },
+  });
   return response.data;
 };
 
+export const createRoute = async (routeData: Partial<Route>): Promise<Route> => {
+  return executeOrQueue(
+    { type: 'createRoute', payload: routeData },
+    () => outboxExecutors.createRoute(routeData),
+    tempId => buildQueuedRoute(tempId, routeData)
+  );
+};
+
 export const updateRoute = async (routeId: string, routeData: Partial<Route>): Promise<Route> => {
   const response = await api.put<Route>(`/api/routes/${routeId}`, routeData);
   return response.data;
@@ -191,24 +261,62 @@ export const deleteRoute = async (routeId: string): Promise<void> => {
   await api.delete(`/api/routes/${routeId}`);
 };
 
-export const startRoute = async (routeData: { workType: string; startMile: number; estimatedIncome?: number }): Promise<Route> => {
-  const response = await api.post<Route>('/api/routes/start', routeData);
-  return response.data;
+export const startRoute = async (routeData: { workType: string; workTypeId?: string; startMile: number; estimatedIncome?: number }): Promise<Route> => {
+  return executeOrQueue(
+    { type: 'startRoute', payload: routeData },
+    () => outboxExecutors.startRoute(routeData),
+    tempId => {
+      // Mirror the server defaults for a started route: in progress now, scheduled for 8 hours
+      const now = new Date();
+      return buildQueuedRoute(tempId, {
+        ...routeData,
+        status: 'in_progress',
+        scheduleStart: now,
+        scheduleEnd: new Date(now.getTime() + 8 * 60 * 60 * 1000),
+        actualStartTime: now,
+      });
+    }
+  );
 };
 
 export const endRoute = async (routeData: { id: string; endMile: number; incomes: Array<{ source: string; amount: number }> }): Promise<Route> => {
-  const response = await api.post<Route>('/api/routes/end', routeData);
+  return executeOrQueue(
+    { type: 'endRoute', payload: routeData, routeId: routeData.id },
+    () => outboxExecutors.endRoute(routeData),
+    () => buildQueuedRoute(routeData.id, {
+      ...routeData,
+      status: 'completed',
+      actualEndTime: new Date(),
+      totalIncome: routeData.incomes.reduce((sum, income) => sum + income.amount, 0),
+    })
+  );
+};
+
+// Mileage reconciliation endpoints
+export const getMileageReconciliation = async (startDate: string, endDate: string): Promise<MileageReconciliation[]> => {
+  const response = await api.get<MileageReconciliation[]>(`/api/mileage-reconciliation?startDate=${startDate}&endDate=${endDate}`);
+  return response.data;
+};
+
+export const setMileageSource = async (routeId: string, source: MileageSource): Promise<MileageReconciliation> => {
+  const response = await api.put<MileageReconciliation>(`/api/mileage-reconciliation/${routeId}`, { source });
+  return response.data;
+};
+
+// Analytics endpoints
+export const getEarningsHeatmap = async (query: EarningsHeatmapQuery): Promise<EarningsHeatmap> => {
+  const response = await api.get<EarningsHeatmap>('/api/analytics/earnings-heatmap', { params: query });
   return response.data;
 };
 
 // Location endpoints
-export const getLocationsByRouteId = async (routeId: string) => {
-  const response = await api.get(`/api/locations?routeId=${routeId}`);
+export const getLocationsByRouteId = async (routeId: string): Promise<Location[]> => {
+  const response = await withRetry(() => api.get<Location[]>('/api/locations', { params: { routeId } }));
   return response.data;
 };
 
-export const getLocationById = async (locationId: string) => {
-  const response = await api.get(`/api/locations/${locationId}`);
+export const getLocationById = async (locationId: string): Promise<Location> => {
+  const response = await withRetry(() => api.get<Location>(`/api/locations/${locationId}`));
   return response.data;
 };
 
@@ -220,8 +328,11 @@ export const createLocation = async (locationData: {
   accuracy?: number;
   speed?: number;
 }) => {
-  const response = await api.post('/api/locations', locationData);
-  return response.data;
+  return executeOrQueue(
+    { type: 'createLocation', payload: locationData, routeId: locationData.routeId },
+    () => outboxExecutors.createLocation(locationData),
+    (tempId): Location => ({ ...locationData, id: tempId, userId: '' })
+  );
 };
 
 export const updateLocation = async (locationId: string, locationData: {
@@ -231,8 +342,8 @@ export const updateLocation = async (locationId: string, locationData: {
   accuracy?: number;
   speed?: number;
   address?: string;
-}) => {
-  const response = await api.put(`/api/locations/${locationId}`, locationData);
+}): Promise<Location> => {
+  const response = await api.put<Location>(`/api/locations/${locationId}`, locationData);
   return response.data;
 };
 
@@ -244,22 +355,122 @@ export const deleteLocationsByRouteId = async (routeId: string): Promise<void> =
   await api.delete(`/api/locations/route/${routeId}`);
 };
 
-// Work Type Configuration endpoints
-export const getWorkTypeConfigs = async (): Promise<WorkTypeConfig[]> => {
-  const response = await api.get<WorkTypeConfig[]>('/api/work-type-configs');
+export const importRouteLocations = async (routeId: string, points: ImportLocationPoint[], replaceExisting: boolean): Promise<LocationImportResult> => {
+  const response = await api.post<LocationImportResult>(`/api/locations/route/${routeId}/import`, { points, replaceExisting });
+  return response.data;
+};
+
+export const getRouteStops = async (routeId: string): Promise<RouteStops> => {
+  const response = await api.get<RouteStops>(`/api/locations/route/${routeId}/stops`);
+  return response.data;
+};
+
+// Expense endpoints
+export const getExpenses = async (startDate?: string, endDate?: string): Promise<Expense[]> => {
+  const query = startDate && endDate ? `?startDate=${startDate}&endDate=${endDate}` : '';
+  const response = await api.get<Expense[]>(`/api/expenses${query}`);
   return response.data;
 };
 
-export const getActiveWorkTypeConfigs = async (): Promise<WorkTypeConfig[]> => {
-  const response = await api.get<WorkTypeConfig[]>('/api/work-type-configs/active');
+export const getExpensesByRouteId = async (routeId: string): Promise<Expense[]> => {
+  const response = await api.get<Expense[]>(`/api/expenses/route/${routeId}`);
   return response.data;
 };
 
-export const getWorkTypeConfigById = async (id: string): Promise<WorkTypeConfig> => {
-  const response = await api.get<WorkTypeConfig>(`/api/work-type-configs/${id}`);
+export const createExpense = async (expenseData: CreateExpenseRequest): Promise<Expense> => {
+  // Spread into a plain object so it fits the outbox payload type
+  const payload = { ...expenseData };
+  return executeOrQueue(
+    { type: 'createExpense', payload, routeId: expenseData.routeId },
+    () => outboxExecutors.createExpense(payload),
+    (tempId): Expense => {
+      const now = new Date();
+      return { ...expenseData, id: tempId, userId: '', createdAt: now, updatedAt: now };
+    }
+  );
+};
+
+export const updateExpense = async (expenseId: string, expenseData: UpdateExpenseRequest): Promise<Expense> => {
+  const response = await api.put<Expense>(`/api/expenses/${expenseId}`, expenseData);
   return response.data;
 };
 
+export const deleteExpense = async (expenseId: string): Promise<void> => {
+  await api.delete(`/api/expenses/${expenseId}`);
+};
+
+// Attachment endpoints
+export const getAttachmentsByRouteId = async (routeId: string): Promise<Attachment[]> => {
+  const response = await api.get<Attachment[]>(`/api/attachments/route/${routeId}`);
+  return response.data;
+};
+
+export const uploadAttachment = async (data: {
+  routeId: string;
+  file: File;
+  thumbnail?: File;
+  incomeSource?: string;
+  expenseId?: string;
+}): Promise<Attachment> => {
+  const formData = new FormData();
+  formData.append('routeId', data.routeId);
+  formData.append('file', data.file);
+  if (data.thumbnail) formData.append('thumbnail', data.thumbnail);
+  if (data.incomeSource) formData.append('incomeSource', data.incomeSource);
+  if (data.expenseId) formData.append('expenseId', data.expenseId);
+
+  const response = await api.post<Attachment>('/api/attachments', formData, {
+    headers: { 'Content-Type': 'multipart/form-data' },
+  });
+  return response.data;
+};
+
+// Images need the bearer token, so they are fetched as blobs rather than linked directly
+export const getAttachmentImage = async (attachmentId: string, size: 'thumbnail' | 'content'): Promise<Blob> => {
+  const response = await api.get<Blob>(`/api/attachments/${attachmentId}/${size}`, { responseType: 'blob' });
+  return response.data;
+};
+
+export const deleteAttachment = async (attachmentId: string): Promise<void> => {
+  await api.delete(`/api/attachments/${attachmentId}`);
+};
+
+// Offline outbox - route, location and expense mutations queued while offline are replayed through these
+const outboxExecutors = {
+  createRoute: async (payload) => (await api.post<Route>('/api/routes', payload)).data,
+  startRoute: async (payload) => (await api.post<Route>('/api/routes/start', payload)).data,
+  endRoute: async (payload) => (await api.post<Route>('/api/routes/end', payload)).data,
+  createLocation: async (payload) => (await api.post<Location>('/api/locations', payload)).data,
+  createExpense: async (payload) => (await api.post<Expense>('/api/expenses', payload)).data,
+} satisfies OutboxExecutors;
+
+export const buildQueuedRoute = (id: string, routeData: Partial<Route>): Route => {
+  const now = new Date();
+  const incomes = routeData.incomes ?? [];
+  return {
+    userId: '',
+    status: 'scheduled',
+    scheduleStart: now,
+    scheduleEnd: now,
+    distance: 0,
+    totalIncome: incomes.reduce((sum, income) => sum + income.amount, 0),
+    createdAt: now,
+    updatedAt: now,
+    ...routeData,
+    incomes,
+    id,
+  };
+};
+
+export const syncOfflineOutbox = (): Promise<OutboxReplayResult> => replayOutbox(outboxExecutors);
+
+// Work Type Configuration endpoints
+export const getWorkTypeConfigs = (): Promise<WorkTypeConfig[]> => apiClient.workTypeConfigs.getWorkTypeConfigs();
+
+export const getActiveWorkTypeConfigs = (): Promise<WorkTypeConfig[]> => apiClient.workTypeConfigs.getActiveWorkTypeConfigs();
+
+export const getWorkTypeConfigById = (id: string): Promise<WorkTypeConfig> => apiClient.workTypeConfigs.getWorkTypeConfigById(id);
+
 export const createWorkTypeConfig = async (data: CreateWorkTypeConfigRequest): Promise<WorkTypeConfig> => {
   const response = await api.post<WorkTypeConfig>('/api/work-type-configs', data);
   return response.data;
@@ -274,6 +485,31 @@ export const deleteWorkTypeConfig = async (id: string): Promise<void> => {
   await api.delete(`/api/work-type-configs/${id}`);
 };
 
+// Recurring schedule endpoints
+export const getRecurringSchedules = async (): Promise<RecurringSchedule[]> => {
+  const response = await api.get<RecurringSchedule[]>('/api/recurring-schedules');
+  return response.data;
+};
+
+export const createRecurringSchedule = async (data: CreateRecurringScheduleRequest): Promise<RecurringSchedule> => {
+  const response = await api.post<RecurringSchedule>('/api/recurring-schedules', data);
+  return response.data;
+};
+
+export const updateRecurringSchedule = async (id: string, data: UpdateRecurringScheduleRequest): Promise<RecurringSchedule> => {
+  const response = await api.put<RecurringSchedule>(`/api/recurring-schedules/${id}`, data);
+  return response.data;
+};
+
+export const deleteRecurringSchedule = async (id: string): Promise<void> => {
+  await api.delete(`/api/recurring-schedules/${id}`);
+};
+
+export const materializeRecurringSchedules = async (): Promise<{ routesCreated: number }> => {
+  const response = await api.post<{ routesCreated: number }>('/api/recurring-schedules/materialize');
+  return response.data;
+};
+
 // API Key endpoints
 export const generateApiKey = async (description: string): Promise<{ apiKey: string; apiKeyDetails: Record<string, unknown> }> => {
   const response = await api.post('/api/users/me/apikeys', { description });
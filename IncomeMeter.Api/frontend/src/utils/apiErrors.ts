@@ -0,0 +1,75 @@
+import axios from 'axios';
+import { isNetworkError } from './offlineOutbox';
+
+/**
+ * Failure handling shared by the pages that call the API.
+ * Errors are sorted into a few kinds the UI can word for the user, and reads are retried through
+ * the blips a driver sees on a patchy connection or while the API restarts behind its proxy.
+ */
+
+export type ApiErrorKind = 'network' | 'unauthorized' | 'notFound' | 'validation' | 'server' | 'unknown';
+
+export interface RetryOptions {
+  attempts?: number;
+  baseDelayMs?: number;
+}
+
+// Gateway responses seen while the API is restarting; worth another try
+const RETRYABLE_STATUSES = [502, 503, 504];
+
+const getStatus = (error: unknown): number | undefined =>
+  axios.isAxiosError(error) ? error.response?.status : undefined;
+
+export const getApiErrorKind = (error: unknown): ApiErrorKind => {
+  if (isNetworkError(error)) return 'network';
+
+  const status = getStatus(error);
+  if (status === undefined) return 'unknown';
+  if (status === 401 || status === 403) return 'unauthorized';
+  if (status === 404) return 'notFound';
+  if (status >= 500) return 'server';
+  if (status >= 400) return 'validation';
+  return 'unknown';
+};
+
+/**
+ * Message the API sent with a failed response - controllers answer with `{ error }` or `{ message }`
+ */
+export const getApiErrorMessage = (error: unknown): string | undefined => {
+  if (!axios.isAxiosError(error)) return undefined;
+
+  const data: unknown = error.response?.data;
+  if (typeof data === 'string') return data || undefined;
+  if (data && typeof data === 'object') {
+    const { error: errorText, message } = data as { error?: unknown; message?: unknown };
+    if (typeof errorText === 'string' && errorText) return errorText;
+    if (typeof message === 'string' && message) return message;
+  }
+  return undefined;
+};
+
+export const isRetryableError = (error: unknown): boolean => {
+  // Offline requests fail straight away; retrying only delays telling the user
+  if (typeof navigator !== 'undefined' && navigator.onLine === false) return false;
+  if (axios.isAxiosError(error) && !error.response) return true;
+
+  const status = getStatus(error);
+  return status !== undefined && RETRYABLE_STATUSES.includes(status);
+};
+
+/**
+ * Run a request, retrying transient failures with exponential backoff.
+ * Only for reads - a write that timed out may already have been applied.
+ */
+export const withRetry = async <T>(request: () => Promise<T>, { attempts = 3, baseDelayMs = 500 }: RetryOptions = {}): Promise<T> => {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await request();
+    } catch (error) {
+      if (attempt >= attempts || !isRetryableError(error)) {
+        throw error;
+      }
+      await new Promise(resolve => setTimeout(resolve, baseDelayMs * 2 ** (attempt - 1)));
+    }
+  }
+};
@@ -0,0 +1,237 @@
+import type { Route } from '../types';
+import { createDateInTimezone } from './timezoneUtils';
+
+/**
+ * Route Calendar Utilities
+ * Builds the month/week/day grids and places routes on them in the user's timezone.
+ * Days are handled as 'YYYY-MM-DD' keys so the grid never depends on the browser's own timezone.
+ */
+
+export type CalendarView = 'month' | 'week' | 'day';
+
+export interface CalendarEvent {
+  route: Route;
+  startMinutes: number; // minutes after midnight on this day
+  endMinutes: number;
+  continuesBefore: boolean; // started on an earlier day
+  continuesAfter: boolean; // carries on into the next day
+  column: number; // lane used when events overlap
+  columns: number;
+}
+
+export const MINUTES_PER_DAY = 24 * 60;
+export const DEFAULT_SLOT_START_MINUTES = 9 * 60; // clicking a day in month view starts at 09:00
+export const DEFAULT_ROUTE_DURATION_MINUTES = 8 * 60; // matches the RouteForm default for new routes
+
+const pad = (value: number): string => String(value).padStart(2, '0');
+
+const keyToUtcDate = (dayKey: string): Date => new Date(`${dayKey}T00:00:00Z`);
+
+const utcDateToKey = (date: Date): string => date.toISOString().slice(0, 10);
+
+export const addDays = (dayKey: string, days: number): string => {
+  const date = keyToUtcDate(dayKey);
+  date.setUTCDate(date.getUTCDate() + days);
+  return utcDateToKey(date);
+};
+
+// Weeks start on Monday, in line with the weekly dashboard period
+const getWeekStart = (dayKey: string): string => {
+  const dayOfWeek = keyToUtcDate(dayKey).getUTCDay();
+  return addDays(dayKey, dayOfWeek === 0 ? -6 : 1 - dayOfWeek);
+};
+
+/**
+ * Day and minute of the day a moment falls on in the given timezone
+ */
+export const getZonedParts = (date: Date | string, timezone: string): { dayKey: string; minutes: number } => {
+  const parts = new Intl.DateTimeFormat('en-GB', {
+    timeZone: timezone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23',
+  }).formatToParts(typeof date === 'string' ? new Date(date) : date);
+
+  const get = (type: Intl.DateTimeFormatPartTypes) => parts.find(part => part.type === type)?.value ?? '00';
+  return {
+    dayKey: `${get('year')}-${get('month')}-${get('day')}`,
+    minutes: parseInt(get('hour'), 10) * 60 + parseInt(get('minute'), 10),
+  };
+};
+
+export const getTodayKey = (timezone: string): string => getZonedParts(new Date(), timezone).dayKey;
+
+/**
+ * Days shown for a view: whole Monday-Sunday weeks covering the month, the week, or the single day
+ */
+export const getVisibleDays = (view: CalendarView, anchorKey: string): string[] => {
+  if (view === 'day') return [anchorKey];
+
+  let first: string;
+  let last: string;
+  if (view === 'week') {
+    first = getWeekStart(anchorKey);
+    last = addDays(first, 6);
+  } else {
+    const anchor = keyToUtcDate(anchorKey);
+    const monthStart = utcDateToKey(new Date(Date.UTC(anchor.getUTCFullYear(), anchor.getUTCMonth(), 1)));
+    const monthEnd = utcDateToKey(new Date(Date.UTC(anchor.getUTCFullYear(), anchor.getUTCMonth() + 1, 0)));
+    first = getWeekStart(monthStart);
+    last = addDays(getWeekStart(monthEnd), 6);
+  }
+
+  const days: string[] = [];
+  for (let day = first; day <= last; day = addDays(day, 1)) {
+    days.push(day);
+  }
+  return days;
+};
+
+/**
+ * Anchor day after moving one month/week/day forwards or backwards
+ */
+export const shiftAnchor = (view: CalendarView, anchorKey: string, direction: number): string => {
+  if (view === 'day') return addDays(anchorKey, direction);
+  if (view === 'week') return addDays(anchorKey, direction * 7);
+
+  const anchor = keyToUtcDate(anchorKey);
+  return utcDateToKey(new Date(Date.UTC(anchor.getUTCFullYear(), anchor.getUTCMonth() + direction, 1)));
+};
+
+export const isSameMonth = (dayKey: string, anchorKey: string): boolean => dayKey.slice(0, 7) === anchorKey.slice(0, 7);
+
+// Gives each event the first lane not used by an overlapping event, then records how many lanes each cluster needs
+const assignColumns = (events: CalendarEvent[]): CalendarEvent[] => {
+  const sorted = [...events].sort((a, b) => a.startMinutes - b.startMinutes || b.endMinutes - a.endMinutes);
+  let cluster: CalendarEvent[] = [];
+  let clusterEnd = -1;
+  let laneEnds: number[] = [];
+
+  const closeCluster = () => {
+    cluster.forEach(event => { event.columns = laneEnds.length; });
+    cluster = [];
+    laneEnds = [];
+  };
+
+  for (const event of sorted) {
+    if (event.startMinutes >= clusterEnd) {
+      closeCluster();
+    }
+
+    const lane = laneEnds.findIndex(end => end <= event.startMinutes);
+    event.column = lane === -1 ? laneEnds.length : lane;
+    laneEnds[event.column] = event.endMinutes;
+    cluster.push(event);
+    clusterEnd = Math.max(clusterEnd, event.endMinutes);
+  }
+  closeCluster();
+
+  return sorted;
+};
+
+/**
+ * Places routes on the visible days by scheduleStart/scheduleEnd in the user's timezone.
+ * Routes running past midnight appear on every day they cover.
+ */
+export const layoutRoutes = (routes: Route[], days: string[], timezone: string): Map<string, CalendarEvent[]> => {
+  const byDay = new Map<string, CalendarEvent[]>(days.map(day => [day, []]));
+
+  for (const route of routes) {
+    const start = getZonedParts(route.scheduleStart, timezone);
+    const end = getZonedParts(route.scheduleEnd, timezone);
+    // A route ending exactly at midnight doesn't spill into the next day
+    const lastDay = end.minutes === 0 && end.dayKey > start.dayKey ? addDays(end.dayKey, -1) : end.dayKey;
+
+    for (let day = start.dayKey; day <= lastDay; day = addDays(day, 1)) {
+      const dayEvents = byDay.get(day);
+      if (!dayEvents) continue;
+
+      const startMinutes = day === start.dayKey ? start.minutes : 0;
+      const endMinutes = day === end.dayKey ? end.minutes : MINUTES_PER_DAY;
+      dayEvents.push({
+        route,
+        startMinutes,
+        endMinutes: Math.max(endMinutes, startMinutes),
+        continuesBefore: day !== start.dayKey,
+        continuesAfter: day !== lastDay,
+        column: 0,
+        columns: 1,
+      });
+    }
+  }
+
+  byDay.forEach((events, day) => byDay.set(day, assignColumns(events)));
+  return byDay;
+};
+
+const toDateTimeInput = (dayKey: string, minutes: number): string => {
+  const dayOffset = Math.floor(minutes / MINUTES_PER_DAY);
+  const minuteOfDay = minutes - dayOffset * MINUTES_PER_DAY;
+  return `${addDays(dayKey, dayOffset)}T${pad(Math.floor(minuteOfDay / 60))}:${pad(minuteOfDay % 60)}`;
+};
+
+/**
+ * datetime-local values (in the user's timezone) to prefill RouteForm when clicking an empty slot
+ */
+export const getSlotSchedule = (
+  dayKey: string,
+  startMinutes: number = DEFAULT_SLOT_START_MINUTES,
+  durationMinutes: number = DEFAULT_ROUTE_DURATION_MINUTES
+): { scheduleStart: string; scheduleEnd: string } => ({
+  scheduleStart: toDateTimeInput(dayKey, startMinutes),
+  scheduleEnd: toDateTimeInput(dayKey, startMinutes + durationMinutes),
+});
+
+/**
+ * New schedule after dropping a route on a day (keeping its time of day) or a time slot, keeping its duration
+ */
+export const rescheduleRoute = (
+  route: Pick<Route, 'scheduleStart' | 'scheduleEnd'>,
+  targetDayKey: string,
+  targetMinutes: number | null,
+  timezone: string
+): { scheduleStart: Date; scheduleEnd: Date } => {
+  const duration = new Date(route.scheduleEnd).getTime() - new Date(route.scheduleStart).getTime();
+  const minutes = targetMinutes ?? getZonedParts(route.scheduleStart, timezone).minutes;
+  const scheduleStart = createDateInTimezone(toDateTimeInput(targetDayKey, minutes), timezone);
+
+  return {
+    scheduleStart,
+    scheduleEnd: new Date(scheduleStart.getTime() + Math.max(duration, 0)),
+  };
+};
+
+// Tailwind classes for each status, matching the badges on the route list
+export const STATUS_COLORS: Record<Route['status'], string> = {
+  scheduled: 'bg-blue-100 text-blue-900',
+  in_progress: 'bg-orange-100 text-orange-900',
+  completed: 'bg-green-100 text-green-900',
+  cancelled: 'bg-gray-100 text-gray-500 line-through',
+};
+
+const WORK_TYPE_COLORS = [
+  'border-blue-500',
+  'border-emerald-500',
+  'border-purple-500',
+  'border-amber-500',
+  'border-pink-500',
+  'border-cyan-500',
+  'border-lime-500',
+  'border-rose-500',
+];
+
+/**
+ * Stable accent colour for a work type (work type configs have no colour of their own)
+ */
+export const getWorkTypeColor = (workType?: string): string => {
+  if (!workType) return 'border-gray-400';
+
+  let hash = 0;
+  for (const char of workType) {
+    hash = (hash * 31 + char.charCodeAt(0)) | 0;
+  }
+  return WORK_TYPE_COLORS[Math.abs(hash) % WORK_TYPE_COLORS.length];
+};
@@ -89,4 +89,18 @@ export function getDisplaySpeed(speed: number, sourceUnit: 'km' | 'mi', userUnit
     value: convertedSpeed,
     formatted: formatSpeed(convertedSpeed, userUnit)
   };
-}
\ No newline at end of file
+}
+/**
+ * Great-circle distance between two coordinates in kilometers
+ */
+export function haversineDistanceKm(
+  from: { latitude: number; longitude: number },
+  to: { latitude: number; longitude: number }
+): number {
+  const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+  const dLat = toRadians(to.latitude - from.latitude);
+  const dLon = toRadians(to.longitude - from.longitude);
+  const a = Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(from.latitude)) * Math.cos(toRadians(to.latitude)) * Math.sin(dLon / 2) ** 2;
+  return 2 * 6371 * Math.asin(Math.sqrt(a));
+}
@@ -0,0 +1,48 @@
+import type { EarningsHeatmapCell } from '../types';
+
+/**
+ * Earnings Heatmap Utilities
+ * Colours and ranks the grid cells returned by the earnings heatmap endpoint
+ */
+
+// Cells with only a few minutes of trail make for noisy rates, so they are hidden by default
+export const DEFAULT_MIN_CELL_HOURS = 0.5;
+
+export type LatLngBounds = [[number, number], [number, number]];
+
+export interface RateRange {
+  min: number;
+  max: number;
+}
+
+export const getVisibleCells = (cells: EarningsHeatmapCell[], minHours: number = DEFAULT_MIN_CELL_HOURS): EarningsHeatmapCell[] =>
+  cells.filter(cell => cell.hours >= minHours);
+
+export const getRateRange = (cells: EarningsHeatmapCell[]): RateRange | null => {
+  if (cells.length === 0) return null;
+  const rates = cells.map(cell => cell.incomePerHour);
+  return { min: Math.min(...rates), max: Math.max(...rates) };
+};
+
+/**
+ * Red for the lowest income per hour through amber to green for the highest
+ */
+export const getHeatColor = (incomePerHour: number, range: RateRange): string => {
+  const ratio = range.max > range.min ? (incomePerHour - range.min) / (range.max - range.min) : 1;
+  const hue = Math.round(Math.max(0, Math.min(1, ratio)) * 120);
+  return `hsl(${hue}, 80%, 45%)`;
+};
+
+/**
+ * More time spent in a cell makes it more opaque, so one lucky order doesn't outshine a regular patch
+ */
+export const getHeatOpacity = (hours: number, maxHours: number): number =>
+  maxHours > 0 ? 0.25 + 0.5 * Math.min(1, hours / maxHours) : 0.25;
+
+export const getCellBounds = (cell: EarningsHeatmapCell, cellSizeDegrees: number): LatLngBounds => [
+  [cell.latitude, cell.longitude],
+  [cell.latitude + cellSizeDegrees, cell.longitude + cellSizeDegrees],
+];
+
+export const getTopCells = (cells: EarningsHeatmapCell[], count: number): EarningsHeatmapCell[] =>
+  [...cells].sort((a, b) => b.incomePerHour - a.incomePerHour || b.hours - a.hours).slice(0, count);
@@ -0,0 +1,27 @@
+import type { ExpenseCategory } from '../types';
+
+/**
+ * Expense Utilities
+ * Category list and totals shared by the route form, route details and expense list
+ */
+
+// Same order and values as ExpenseCategories on the API
+export const EXPENSE_CATEGORIES: ExpenseCategory[] = ['fuel', 'parking', 'tolls', 'maintenance', 'phone'];
+
+const roundCurrency = (amount: number): number => Math.round(amount * 100) / 100;
+
+export const sumExpenses = (expenses: Array<{ amount: number }>): number =>
+  roundCurrency(expenses.reduce((sum, expense) => sum + expense.amount, 0));
+
+/**
+ * Total expenses per category, in EXPENSE_CATEGORIES order, skipping categories with nothing spent
+ */
+export const summarizeExpensesByCategory = (
+  expenses: Array<{ category: ExpenseCategory; amount: number }>
+): Array<{ category: ExpenseCategory; amount: number }> =>
+  EXPENSE_CATEGORIES
+    .map(category => ({
+      category,
+      amount: sumExpenses(expenses.filter(expense => expense.category === category)),
+    }))
+    .filter(line => line.amount > 0);
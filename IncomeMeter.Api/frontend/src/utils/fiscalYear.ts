@@ -62,6 +62,24 @@ export const getCurrentFiscalYear = (fiscalStartDate: string): FiscalYearInfo =>
   return getFiscalYearInfo(new Date(), fiscalStartDate);
 };
 
+/**
+ * Get the start and end dates of a specific fiscal year
+ */
+export const getFiscalYearRange = (fiscalYear: number, fiscalStartDate: string): FiscalYearInfo => {
+  const { month, day } = parseFiscalYearStartDate(fiscalStartDate);
+  return getFiscalYearInfo(new Date(fiscalYear, month, day), fiscalStartDate);
+};
+
+/**
+ * Format a fiscal year label, e.g. "2024/25" (or "2024" when it follows the calendar year)
+ */
+export const formatFiscalYearLabel = (fiscalYear: number, fiscalStartDate: string): string => {
+  if (fiscalStartDate === '01-01') {
+    return `${fiscalYear}`;
+  }
+  return `${fiscalYear}/${String((fiscalYear + 1) % 100).padStart(2, '0')}`;
+};
+
 /**
  * Get fiscal week number (1-based) within the fiscal year
  */
@@ -0,0 +1,112 @@
+import { haversineDistanceKm } from './distance';
+
+/**
+ * Continuous Location Tracking Utilities
+ * Filtering and batching rules for watchPosition fixes recorded while a route is in progress
+ */
+
+const PROFILE_KEY = 'locationTracking:profile';
+const ACTIVE_ROUTE_KEY = 'locationTracking:routeId';
+
+export type TrackingProfile = 'precise' | 'balanced' | 'batterySaver';
+
+export interface TrackingSettings {
+  enableHighAccuracy: boolean; // GPS rather than wifi/cell positioning - the biggest battery cost
+  maxAccuracyMeters: number;   // fixes less accurate than this are dropped
+  minDistanceMeters: number;   // ignore jitter while parked
+  minIntervalMs: number;       // at most one point per interval
+  heartbeatMs: number;         // still record a point this often when stationary, so long stops show up
+  batchSize: number;           // send once this many points are waiting...
+  flushIntervalMs: number;     // ...or this long after the oldest one was recorded
+}
+
+export const TRACKING_PROFILES: Record<TrackingProfile, TrackingSettings> = {
+  precise: {
+    enableHighAccuracy: true,
+    maxAccuracyMeters: 30,
+    minDistanceMeters: 25,
+    minIntervalMs: 10 * 1000,
+    heartbeatMs: 5 * 60 * 1000,
+    batchSize: 10,
+    flushIntervalMs: 60 * 1000,
+  },
+  balanced: {
+    enableHighAccuracy: true,
+    maxAccuracyMeters: 50,
+    minDistanceMeters: 75,
+    minIntervalMs: 30 * 1000,
+    heartbeatMs: 10 * 60 * 1000,
+    batchSize: 10,
+    flushIntervalMs: 2 * 60 * 1000,
+  },
+  batterySaver: {
+    enableHighAccuracy: false,
+    maxAccuracyMeters: 150,
+    minDistanceMeters: 250,
+    minIntervalMs: 2 * 60 * 1000,
+    heartbeatMs: 20 * 60 * 1000,
+    batchSize: 5,
+    flushIntervalMs: 5 * 60 * 1000,
+  },
+};
+
+export const DEFAULT_TRACKING_PROFILE: TrackingProfile = 'balanced';
+
+export interface TrackedPoint {
+  latitude: number;
+  longitude: number;
+  accuracy: number;
+  speed?: number;
+  timestamp: string;
+}
+
+export type FixDecision = 'accepted' | 'inaccurate' | 'tooSoon' | 'notMoved';
+
+/**
+ * Decides whether a new fix is worth recording given the last recorded point
+ */
+export const evaluateFix = (point: TrackedPoint, lastRecorded: TrackedPoint | null, settings: TrackingSettings): FixDecision => {
+  if (point.accuracy > settings.maxAccuracyMeters) return 'inaccurate';
+  if (!lastRecorded) return 'accepted';
+
+  const elapsedMs = new Date(point.timestamp).getTime() - new Date(lastRecorded.timestamp).getTime();
+  if (elapsedMs < settings.minIntervalMs) return 'tooSoon';
+  if (elapsedMs >= settings.heartbeatMs) return 'accepted';
+
+  const movedMeters = haversineDistanceKm(lastRecorded, point) * 1000;
+  return movedMeters < settings.minDistanceMeters ? 'notMoved' : 'accepted';
+};
+
+export const shouldFlush = (pending: TrackedPoint[], settings: TrackingSettings, now: Date = new Date()): boolean => {
+  if (pending.length === 0) return false;
+  if (pending.length >= settings.batchSize) return true;
+  return now.getTime() - new Date(pending[0].timestamp).getTime() >= settings.flushIntervalMs;
+};
+
+export const toTrackedPoint = (position: GeolocationPosition): TrackedPoint => ({
+  latitude: Number(position.coords.latitude.toFixed(6)),
+  longitude: Number(position.coords.longitude.toFixed(6)),
+  accuracy: position.coords.accuracy,
+  speed: position.coords.speed ?? undefined,
+  timestamp: new Date(position.timestamp).toISOString(),
+});
+
+export const loadTrackingProfile = (): TrackingProfile => {
+  const stored = localStorage.getItem(PROFILE_KEY);
+  return stored && stored in TRACKING_PROFILES ? stored as TrackingProfile : DEFAULT_TRACKING_PROFILE;
+};
+
+export const saveTrackingProfile = (profile: TrackingProfile): void => {
+  localStorage.setItem(PROFILE_KEY, profile);
+};
+
+// Tracking is opt-in per shift; remembering the route keeps it on across a reload of the same shift
+export const isTrackingRoute = (routeId: string): boolean => localStorage.getItem(ACTIVE_ROUTE_KEY) === routeId;
+
+export const setTrackingRoute = (routeId: string | null): void => {
+  if (routeId) {
+    localStorage.setItem(ACTIVE_ROUTE_KEY, routeId);
+  } else {
+    localStorage.removeItem(ACTIVE_ROUTE_KEY);
+  }
+};
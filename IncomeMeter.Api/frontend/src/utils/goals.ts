@@ -0,0 +1,96 @@
+import type { EarningsGoal, PeriodIncomeData, PeriodType } from '../types';
+
+/**
+ * Earnings Goal Utilities
+ * Progress, pace projection and hit history for the goals stored in user settings
+ */
+
+export interface GoalProgress {
+  goal: EarningsGoal;
+  earned: number;
+  percent: number;    // 0-100, capped for the progress ring
+  remaining: number;
+  projected: number;  // end-of-period income at the current pace
+  hit: boolean;
+  onPace: boolean;
+}
+
+export interface GoalHistorySummary {
+  periods: number;
+  hits: number;
+  currentStreak: number;
+  bestStreak: number;
+}
+
+const roundCurrency = (amount: number): number => Math.round(amount * 100) / 100;
+
+export const getGoalsForPeriod = (goals: EarningsGoal[] | undefined, period: PeriodType): EarningsGoal[] =>
+  (goals ?? []).filter(goal => goal.period === period && goal.amount > 0);
+
+/**
+ * Income that counts towards a goal - the work type's income, or total income for an all-work goal
+ */
+export const getGoalEarnings = (
+  goal: EarningsGoal,
+  data: Pick<PeriodIncomeData, 'totalIncome' | 'incomeBySource'>
+): number => {
+  if (!goal.workType) return data.totalIncome ?? 0;
+  return data.incomeBySource?.[goal.workType]?.income ?? 0;
+};
+
+/**
+ * Share of the period that has elapsed (0-1); past periods are 1 and future periods 0
+ */
+export const getElapsedFraction = (startDate: Date, endDate: Date, now: Date = new Date()): number => {
+  const total = endDate.getTime() - startDate.getTime();
+  if (total <= 0) return 1;
+  return Math.min(1, Math.max(0, (now.getTime() - startDate.getTime()) / total));
+};
+
+/**
+ * Straight-line projection of what the period will end on if earnings continue at the same pace
+ */
+export const projectPeriodIncome = (earned: number, elapsedFraction: number): number => {
+  if (elapsedFraction <= 0) return earned;
+  return roundCurrency(earned / elapsedFraction);
+};
+
+export const calculateGoalProgress = (
+  goal: EarningsGoal,
+  data: Pick<PeriodIncomeData, 'startDate' | 'endDate' | 'totalIncome' | 'incomeBySource'>,
+  now: Date = new Date()
+): GoalProgress => {
+  const earned = roundCurrency(getGoalEarnings(goal, data));
+  const elapsed = getElapsedFraction(new Date(data.startDate), new Date(data.endDate), now);
+  const projected = projectPeriodIncome(earned, elapsed);
+
+  return {
+    goal,
+    earned,
+    percent: goal.amount > 0 ? Math.min(100, (earned / goal.amount) * 100) : 0,
+    remaining: roundCurrency(Math.max(0, goal.amount - earned)),
+    projected,
+    hit: earned >= goal.amount,
+    onPace: projected >= goal.amount,
+  };
+};
+
+/**
+ * Hit rate and streaks for one goal, with results ordered oldest to newest
+ */
+export const summarizeGoalHistory = (results: boolean[]): GoalHistorySummary => {
+  let run = 0;
+  let bestStreak = 0;
+
+  results.forEach(hit => {
+    run = hit ? run + 1 : 0;
+    bestStreak = Math.max(bestStreak, run);
+  });
+
+  return {
+    periods: results.length,
+    hits: results.filter(Boolean).length,
+    currentStreak: run,
+    bestStreak,
+  };
+};
@@ -0,0 +1,105 @@
+import type { Route } from '../types';
+import type { RateRange } from './earningsHeatmap';
+
+/**
+ * Hour-of-day Earnings Utilities
+ * Spreads each completed route's income evenly over the time it was actually worked and totals it
+ * into a weekday × hour grid in the user's timezone
+ */
+
+const SLICE_MINUTES = 15; // every timezone offset in use is a multiple of this
+const WEEKDAYS = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'];
+
+export interface HourlyEarningsSlot {
+  income: number;
+  hours: number;
+  routes: number;
+}
+
+export interface HourlyEarningsGrid {
+  slots: HourlyEarningsSlot[][]; // [weekday, Monday first][hour 0-23]
+  routeCount: number;
+  skippedRoutes: number;         // completed routes without both actual times
+}
+
+export interface RankedSlot extends HourlyEarningsSlot {
+  weekday: number;
+  hour: number;
+  average: number;
+}
+
+type EarningsRoute = Pick<Route, 'status' | 'actualStartTime' | 'actualEndTime' | 'totalIncome'>;
+
+const createEmptySlots = (): HourlyEarningsSlot[][] =>
+  WEEKDAYS.map(() => Array.from({ length: 24 }, () => ({ income: 0, hours: 0, routes: 0 })));
+
+const createSlotLocator = (timeZone: string) => {
+  const formatter = new Intl.DateTimeFormat('en-US', { timeZone, weekday: 'short', hour: 'numeric', hourCycle: 'h23' });
+  return (date: Date): { weekday: number; hour: number } => {
+    const parts = formatter.formatToParts(date);
+    const weekday = WEEKDAYS.indexOf(parts.find(part => part.type === 'weekday')?.value ?? '');
+    const hour = parseInt(parts.find(part => part.type === 'hour')?.value ?? '0', 10) % 24;
+    return { weekday, hour };
+  };
+};
+
+export const buildHourlyEarningsGrid = (routes: EarningsRoute[], timeZone: string): HourlyEarningsGrid => {
+  const slots = createEmptySlots();
+  const locate = createSlotLocator(timeZone);
+  const sliceMs = SLICE_MINUTES * 60_000;
+  let routeCount = 0;
+  let skippedRoutes = 0;
+
+  for (const route of routes) {
+    if (route.status !== 'completed') continue;
+    if (!route.actualStartTime || !route.actualEndTime) {
+      skippedRoutes++;
+      continue;
+    }
+
+    const start = new Date(route.actualStartTime).getTime();
+    const end = new Date(route.actualEndTime).getTime();
+    if (!(end > start)) {
+      skippedRoutes++;
+      continue;
+    }
+
+    routeCount++;
+    const income = route.totalIncome || 0;
+    const touched = new Set<HourlyEarningsSlot>();
+
+    for (let sliceStart = start; sliceStart < end;) {
+      const sliceEnd = Math.min(end, (Math.floor(sliceStart / sliceMs) + 1) * sliceMs);
+      const { weekday, hour } = locate(new Date(sliceStart));
+      const slot = slots[weekday]?.[hour];
+      if (slot) {
+        slot.hours += (sliceEnd - sliceStart) / 3_600_000;
+        slot.income += income * (sliceEnd - sliceStart) / (end - start);
+        touched.add(slot);
+      }
+      sliceStart = sliceEnd;
+    }
+
+    touched.forEach(slot => slot.routes++);
+  }
+
+  return { slots, routeCount, skippedRoutes };
+};
+
+// Income per hour worked in the slot, or null when nothing was worked then
+export const getSlotAverage = (slot: HourlyEarningsSlot): number | null =>
+  slot.hours > 0 ? slot.income / slot.hours : null;
+
+// Spread of slot averages, for colouring the grid
+export const getAverageRange = (grid: HourlyEarningsGrid): RateRange | null => {
+  const averages = grid.slots.flat().map(getSlotAverage).filter((average): average is number => average !== null);
+  if (averages.length === 0) return null;
+  return { min: Math.min(...averages), max: Math.max(...averages) };
+};
+
+export const getBestSlots = (grid: HourlyEarningsGrid, count: number, minHours: number = 1): RankedSlot[] =>
+  grid.slots
+    .flatMap((hours, weekday) => hours.map((slot, hour) => ({ ...slot, weekday, hour, average: getSlotAverage(slot) ?? 0 })))
+    .filter(slot => slot.hours >= minHours)
+    .sort((a, b) => b.average - a.average)
+    .slice(0, count);
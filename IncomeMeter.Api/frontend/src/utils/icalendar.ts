@@ -0,0 +1,331 @@
+import type { Route, WorkTypeConfig } from '../types';
+import { createDateInTimezone, getTimezoneOffsetAt, isValidTimezone } from './timezoneUtils';
+
+/**
+ * iCalendar (RFC 5545) export and import for scheduled routes.
+ * Exported times carry a TZID for the user's timezone, with a VTIMEZONE built from the
+ * browser's timezone data so calendar apps show shifts at the right local time.
+ */
+
+export interface ICalendarEvent {
+  uid?: string;
+  summary: string;
+  description?: string;
+  location?: string;
+  start: Date;
+  end: Date;
+  allDay: boolean;
+  recurring: boolean; // has an RRULE/RDATE or overrides one occurrence of a series
+}
+
+export interface ICalendarExportOptions {
+  timeZone: string;
+  calendarName: string;
+  untitled: string; // summary for routes without a work type
+  now?: Date;
+}
+
+const CRLF = '\r\n';
+const MAX_LINE_OCTETS = 75;
+const MS_PER_MINUTE = 60 * 1000;
+const MS_PER_DAY = 24 * 60 * MS_PER_MINUTE;
+
+const pad = (value: number, length = 2): string => String(value).padStart(length, '0');
+
+// UID written for an exported route, so importing our own export is recognised as a duplicate
+const routeUid = (routeId: string): string => `${routeId}@incomemeter`;
+
+/**
+ * Escape a TEXT value (backslash, semicolon, comma and newlines)
+ */
+export const escapeText = (text: string): string =>
+  text
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+
+const unescapeText = (text: string): string =>
+  text.replace(/\\([\\;,nN])/g, (_, char: string) => (char === 'n' || char === 'N' ? '\n' : char));
+
+// UTF-8 length of a single character
+const utf8Length = (char: string): number => {
+  const codePoint = char.codePointAt(0) ?? 0;
+  if (codePoint < 0x80) return 1;
+  if (codePoint < 0x800) return 2;
+  return codePoint < 0x10000 ? 3 : 4;
+};
+
+/**
+ * Fold a content line at 75 octets; continuation lines start with a space.
+ * Splits on whole characters so multi-byte text (e.g. Chinese work types) stays valid UTF-8.
+ */
+export const foldLine = (line: string): string => {
+  const chunks: string[] = [];
+  let current = '';
+  let currentOctets = 0;
+
+  for (const char of line) {
+    const octets = utf8Length(char);
+    const limit = chunks.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+    if (currentOctets + octets > limit) {
+      chunks.push(current);
+      current = '';
+      currentOctets = 0;
+    }
+    current += char;
+    currentOctets += octets;
+  }
+  chunks.push(current);
+
+  return chunks.join(`${CRLF} `);
+};
+
+const formatUtcDateTime = (date: Date): string =>
+  `${date.getUTCFullYear()}${pad(date.getUTCMonth() + 1)}${pad(date.getUTCDate())}T` +
+  `${pad(date.getUTCHours())}${pad(date.getUTCMinutes())}${pad(date.getUTCSeconds())}Z`;
+
+// Wall-clock time in the timezone, as used with a TZID parameter
+const formatLocalDateTime = (date: Date, timeZone: string): string =>
+  formatUtcDateTime(new Date(date.getTime() + getTimezoneOffsetAt(date, timeZone) * MS_PER_MINUTE)).slice(0, -1);
+
+const formatOffset = (minutes: number): string => {
+  const sign = minutes < 0 ? '-' : '+';
+  const absolute = Math.abs(minutes);
+  return `${sign}${pad(Math.floor(absolute / 60))}${pad(absolute % 60)}`;
+};
+
+/**
+ * Offset changes (daylight saving transitions) in a timezone during a year, to the minute
+ */
+const findOffsetTransitions = (year: number, timeZone: string): Array<{ at: Date; from: number; to: number }> => {
+  const transitions: Array<{ at: Date; from: number; to: number }> = [];
+  const yearEnd = Date.UTC(year + 1, 0, 1);
+  let previousTime = Date.UTC(year, 0, 1);
+  let previousOffset = getTimezoneOffsetAt(new Date(previousTime), timeZone);
+
+  for (let time = previousTime + MS_PER_DAY; time <= yearEnd; time += MS_PER_DAY) {
+    const offset = getTimezoneOffsetAt(new Date(time), timeZone);
+    if (offset !== previousOffset) {
+      // Narrow the day down to the minute the offset changed
+      let low = previousTime;
+      let high = time;
+      while (high - low > MS_PER_MINUTE) {
+        const middle = low + Math.floor((high - low) / 2 / MS_PER_MINUTE) * MS_PER_MINUTE;
+        if (getTimezoneOffsetAt(new Date(middle), timeZone) === previousOffset) {
+          low = middle;
+        } else {
+          high = middle;
+        }
+      }
+      transitions.push({ at: new Date(high), from: previousOffset, to: offset });
+    }
+    previousTime = time;
+    previousOffset = offset;
+  }
+
+  return transitions;
+};
+
+/**
+ * VTIMEZONE covering the years the events fall in
+ */
+export const buildTimezoneComponent = (timeZone: string, years: number[]): string[] => {
+  const lines = ['BEGIN:VTIMEZONE', `TZID:${timeZone}`];
+  const transitions = [...new Set(years)].sort().flatMap(year => findOffsetTransitions(year, timeZone));
+
+  if (transitions.length === 0) {
+    const offset = formatOffset(getTimezoneOffsetAt(new Date(Date.UTC(years[0] ?? 1970, 0, 1)), timeZone));
+    lines.push('BEGIN:STANDARD', 'DTSTART:19700101T000000', `TZOFFSETFROM:${offset}`, `TZOFFSETTO:${offset}`, 'END:STANDARD');
+  }
+
+  transitions.forEach(({ at, from, to }) => {
+    const type = to > from ? 'DAYLIGHT' : 'STANDARD';
+    // DTSTART is the local time the change happens, in the offset in force before it
+    const localStart = formatUtcDateTime(new Date(at.getTime() + from * MS_PER_MINUTE)).slice(0, -1);
+    lines.push(`BEGIN:${type}`, `DTSTART:${localStart}`, `TZOFFSETFROM:${formatOffset(from)}`, `TZOFFSETTO:${formatOffset(to)}`, `END:${type}`);
+  });
+
+  lines.push('END:VTIMEZONE');
+  return lines;
+};
+
+/**
+ * Build an .ics calendar with one event per route
+ */
+export const buildRouteCalendar = (routes: Route[], options: ICalendarExportOptions): string => {
+  const { timeZone, calendarName, untitled, now = new Date() } = options;
+  const years = routes.flatMap(route => [new Date(route.scheduleStart).getUTCFullYear(), new Date(route.scheduleEnd).getUTCFullYear()]);
+
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//IncomeMeter//Route Schedule//EN',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(calendarName)}`,
+    `X-WR-TIMEZONE:${timeZone}`,
+    ...(routes.length > 0 ? buildTimezoneComponent(timeZone, years) : []),
+  ];
+
+  routes.forEach(route => {
+    lines.push(
+      'BEGIN:VEVENT',
+      `UID:${routeUid(route.id)}`,
+      `DTSTAMP:${formatUtcDateTime(now)}`,
+      `DTSTART;TZID=${timeZone}:${formatLocalDateTime(new Date(route.scheduleStart), timeZone)}`,
+      `DTEND;TZID=${timeZone}:${formatLocalDateTime(new Date(route.scheduleEnd), timeZone)}`,
+      `SUMMARY:${escapeText(route.workType || untitled)}`,
+      `STATUS:${route.status === 'cancelled' ? 'CANCELLED' : 'CONFIRMED'}`,
+      'END:VEVENT'
+    );
+  });
+
+  lines.push('END:VCALENDAR');
+  return lines.map(foldLine).join(CRLF) + CRLF;
+};
+
+interface ContentLine {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+}
+
+// NAME;PARAM=value;PARAM="quoted:value":VALUE
+const parseContentLine = (line: string): ContentLine | null => {
+  const match = line.match(/^([A-Za-z0-9-]+)((?:;[A-Za-z0-9-]+=(?:"[^"]*"|[^;:]*))*):(.*)$/);
+  if (!match) return null;
+
+  const params: Record<string, string> = {};
+  for (const param of match[2].matchAll(/;([A-Za-z0-9-]+)=("[^"]*"|[^;:]*)/g)) {
+    params[param[1].toUpperCase()] = param[2].replace(/^"|"$/g, '');
+  }
+
+  return { name: match[1].toUpperCase(), params, value: match[3] };
+};
+
+/**
+ * Parse DATE or DATE-TIME values. UTC ("Z") times are absolute; TZID times use that timezone;
+ * floating times and dates are read in the user's timezone.
+ */
+const parseDateValue = (line: ContentLine, fallbackTimeZone: string): { date: Date; allDay: boolean } | null => {
+  const match = line.value.trim().match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})?(Z)?)?$/);
+  if (!match) return null;
+
+  const [, year, month, day, hour, minute, second, utc] = match;
+  const allDay = line.params.VALUE === 'DATE' || hour === undefined;
+
+  if (utc) {
+    return {
+      date: new Date(Date.UTC(+year, +month - 1, +day, +hour, +minute, +(second ?? 0))),
+      allDay: false,
+    };
+  }
+
+  const timeZone = line.params.TZID && isValidTimezone(line.params.TZID) ? line.params.TZID : fallbackTimeZone;
+  return {
+    date: createDateInTimezone(+year, +month, +day, allDay ? 0 : +hour, allDay ? 0 : +minute, timeZone),
+    allDay,
+  };
+};
+
+// Durations such as PT8H, PT4H30M or P1D
+const parseDuration = (value: string): number | null => {
+  const match = value.trim().match(/^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/);
+  if (!match) return null;
+
+  const [, sign, weeks, days, hours, minutes, seconds] = match;
+  const total = ((+(weeks ?? 0) * 7 + +(days ?? 0)) * 24 * 60 + +(hours ?? 0) * 60 + +(minutes ?? 0)) * MS_PER_MINUTE + +(seconds ?? 0) * 1000;
+  return sign === '-' ? -total : total;
+};
+
+const buildEvent = (lines: ContentLine[], timeZone: string): ICalendarEvent | null => {
+  const find = (name: string) => lines.find(line => line.name === name);
+  if (find('STATUS')?.value.toUpperCase() === 'CANCELLED') return null;
+
+  const startLine = find('DTSTART');
+  const start = startLine ? parseDateValue(startLine, timeZone) : null;
+  if (!start) return null;
+
+  const endLine = find('DTEND');
+  const durationLine = find('DURATION');
+  const duration = durationLine ? parseDuration(durationLine.value) : null;
+  let end = endLine ? parseDateValue(endLine, timeZone)?.date : undefined;
+  if (!end) {
+    // Without an end, all-day events last the day and timed events are instantaneous (RFC 5545 3.6.1)
+    end = new Date(start.date.getTime() + (duration ?? (start.allDay ? MS_PER_DAY : 0)));
+  }
+
+  const text = (name: string) => {
+    const line = find(name);
+    return line ? unescapeText(line.value).trim() : undefined;
+  };
+
+  return {
+    uid: find('UID')?.value,
+    summary: text('SUMMARY') ?? '',
+    description: text('DESCRIPTION') || undefined,
+    location: text('LOCATION') || undefined,
+    start: start.date,
+    end,
+    allDay: start.allDay,
+    recurring: ['RRULE', 'RDATE', 'RECURRENCE-ID'].some(name => find(name) !== undefined),
+  };
+};
+
+/**
+ * Read the events from .ics text. Cancelled events and events without a start are skipped;
+ * recurring events are read at their first occurrence and flagged, as the series isn't expanded.
+ */
+export const parseICalendar = (text: string, timeZone: string): ICalendarEvent[] => {
+  // Unfold continuation lines before splitting into content lines
+  const lines = text.replace(/^\uFEFF/, '').replace(/\r?\n[ \t]/g, '').split(/\r?\n/);
+  const events: ICalendarEvent[] = [];
+  let current: ContentLine[] | null = null;
+
+  for (const rawLine of lines) {
+    const line = parseContentLine(rawLine);
+    if (!line) continue;
+
+    if (line.name === 'BEGIN' && line.value.toUpperCase() === 'VEVENT') {
+      current = [];
+    } else if (line.name === 'END' && line.value.toUpperCase() === 'VEVENT') {
+      const event = current ? buildEvent(current, timeZone) : null;
+      if (event) events.push(event);
+      current = null;
+    } else if (current) {
+      current.push(line);
+    }
+  }
+
+  return events.sort((a, b) => a.start.getTime() - b.start.getTime());
+};
+
+/**
+ * Routes need a positive length, so instantaneous events can't be imported. Recurring events
+ * aren't either: importing only their first occurrence would silently drop the rest.
+ */
+export const isImportableEvent = (event: ICalendarEvent): boolean => event.end > event.start && !event.recurring;
+
+/**
+ * UIDs of events the given routes came from: those imported from a calendar, and the routes'
+ * own UIDs from an IncomeMeter export
+ */
+export const getImportedUids = (routes: Route[]): Set<string> =>
+  new Set(routes.flatMap(route => [routeUid(route.id), ...(route.calendarUid ? [route.calendarUid] : [])]));
+
+/**
+ * Scheduled route payloads for imported events, all under the chosen work type
+ */
+export const buildRoutesFromEvents = (events: ICalendarEvent[], workType: WorkTypeConfig): Partial<Route>[] =>
+  events
+    .filter(isImportableEvent)
+    .map(event => ({
+      workType: workType.name,
+      workTypeId: workType.id,
+      status: 'scheduled' as const,
+      scheduleStart: event.start,
+      scheduleEnd: event.end,
+      incomes: [],
+      calendarUid: event.uid,
+    }));
@@ -0,0 +1,100 @@
+/**
+ * Image Compression Utilities
+ * Shrinks receipt photos in the browser before upload - phone photos are often 4-8 MB,
+ * which is far more detail than a receipt needs
+ */
+
+export interface CompressionOptions {
+  maxDimension: number;
+  quality: number; // 0-1, JPEG quality
+}
+
+export const RECEIPT_IMAGE_OPTIONS: CompressionOptions = { maxDimension: 1600, quality: 0.75 };
+export const RECEIPT_THUMBNAIL_OPTIONS: CompressionOptions = { maxDimension: 240, quality: 0.6 };
+
+export interface CompressedReceipt {
+  image: File;
+  thumbnail: File;
+}
+
+/**
+ * Scale width/height down so the longest side fits maxDimension, keeping the aspect ratio.
+ * Images already small enough are left alone.
+ */
+export const calculateScaledDimensions = (
+  width: number,
+  height: number,
+  maxDimension: number
+): { width: number; height: number } => {
+  const longestSide = Math.max(width, height);
+  if (longestSide <= maxDimension) {
+    return { width, height };
+  }
+
+  const scale = maxDimension / longestSide;
+  return {
+    width: Math.max(1, Math.round(width * scale)),
+    height: Math.max(1, Math.round(height * scale)),
+  };
+};
+
+// "IMG_1234.HEIC" -> "IMG_1234.jpg"
+export const toJpegFileName = (fileName: string, suffix = ''): string => {
+  const baseName = fileName.replace(/\.[^./\\]+$/, '') || 'receipt';
+  return `${baseName}${suffix}.jpg`;
+};
+
+const loadImage = (file: Blob): Promise<HTMLImageElement> =>
+  new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(file);
+    const image = new Image();
+    image.onload = () => {
+      URL.revokeObjectURL(url);
+      resolve(image);
+    };
+    image.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error('Could not read image'));
+    };
+    image.src = url;
+  });
+
+const renderToJpeg = (image: HTMLImageElement, options: CompressionOptions): Promise<Blob> => {
+  const { width, height } = calculateScaledDimensions(image.naturalWidth, image.naturalHeight, options.maxDimension);
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+
+  const context = canvas.getContext('2d');
+  if (!context) {
+    return Promise.reject(new Error('Canvas is not supported'));
+  }
+  // JPEG has no transparency - paint PNG backgrounds white rather than black
+  context.fillStyle = '#ffffff';
+  context.fillRect(0, 0, width, height);
+  context.drawImage(image, 0, 0, width, height);
+
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(
+      blob => (blob ? resolve(blob) : reject(new Error('Image compression failed'))),
+      'image/jpeg',
+      options.quality
+    );
+  });
+};
+
+/**
+ * Compress a photo into an upload-sized JPEG plus a thumbnail
+ */
+export const compressReceiptImage = async (file: File): Promise<CompressedReceipt> => {
+  const image = await loadImage(file);
+  const [imageBlob, thumbnailBlob] = await Promise.all([
+    renderToJpeg(image, RECEIPT_IMAGE_OPTIONS),
+    renderToJpeg(image, RECEIPT_THUMBNAIL_OPTIONS),
+  ]);
+
+  return {
+    image: new File([imageBlob], toJpegFileName(file.name), { type: 'image/jpeg' }),
+    thumbnail: new File([thumbnailBlob], toJpegFileName(file.name, '-thumb'), { type: 'image/jpeg' }),
+  };
+};
@@ -0,0 +1,82 @@
+import type { Location, Route } from '../types';
+import { haversineDistanceKm } from './distance';
+
+/**
+ * Live Shift Tracker Utilities
+ * Running totals for an in-progress route and the income draft kept while the shift is running
+ */
+
+export type IncomeEntry = Route['incomes'][number];
+
+const DRAFT_KEY_PREFIX = 'liveTracker:incomes:';
+const MIN_RATE_ELAPSED_MS = 60 * 1000; // an hourly rate over the first minute is just noise
+
+const roundCurrency = (amount: number): number => Math.round(amount * 100) / 100;
+
+/**
+ * When the shift actually started - the schedule start for routes started without a recorded time
+ */
+export const getShiftStart = (route: Pick<Route, 'actualStartTime' | 'scheduleStart'>): Date =>
+  new Date(route.actualStartTime ?? route.scheduleStart);
+
+export const getElapsedMs = (route: Pick<Route, 'actualStartTime' | 'scheduleStart'>, now: Date = new Date()): number =>
+  Math.max(0, now.getTime() - getShiftStart(route).getTime());
+
+/**
+ * Formats a duration as H:MM:SS for the running clock
+ */
+export const formatElapsed = (ms: number): string => {
+  const totalSeconds = Math.floor(ms / 1000);
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  return `${hours}:${String(minutes).padStart(2, '0')}:${String(seconds).padStart(2, '0')}`;
+};
+
+export const getHourlyRate = (income: number, elapsedMs: number): number =>
+  elapsedMs < MIN_RATE_ELAPSED_MS ? 0 : roundCurrency(income / (elapsedMs / 3_600_000));
+
+/**
+ * Distance covered by the posted location points, in km. Uses the server's per-point distance where
+ * it has one and falls back to the straight line from the previous point (e.g. for queued points).
+ */
+export const getTrackedDistanceKm = (locations: Pick<Location, 'latitude' | 'longitude' | 'timestamp' | 'distanceFromLastKm'>[]): number => {
+  const ordered = [...locations].sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
+  return ordered.reduce((total, location, index) => {
+    if (index === 0) return total;
+    const step = location.distanceFromLastKm ?? haversineDistanceKm(ordered[index - 1], location);
+    return total + step;
+  }, 0);
+};
+
+export const sumIncomes = (incomes: IncomeEntry[]): number =>
+  roundCurrency(incomes.reduce((sum, income) => sum + income.amount, 0));
+
+/**
+ * Adds an amount to a source, keeping one entry per source like the end-of-shift income list
+ */
+export const addIncome = (incomes: IncomeEntry[], source: string, amount: number): IncomeEntry[] => {
+  const existing = incomes.find(income => income.source === source);
+  if (!existing) {
+    return [...incomes, { source, amount: roundCurrency(amount) }];
+  }
+  return incomes.map(income => income === existing ? { ...income, amount: roundCurrency(income.amount + amount) } : income);
+};
+
+// The draft lives in localStorage so incomes added mid-shift survive a reload or a closed tab
+export const loadIncomeDraft = (routeId: string): IncomeEntry[] | null => {
+  try {
+    const stored = localStorage.getItem(`${DRAFT_KEY_PREFIX}${routeId}`);
+    return stored ? JSON.parse(stored) as IncomeEntry[] : null;
+  } catch {
+    return null;
+  }
+};
+
+export const saveIncomeDraft = (routeId: string, incomes: IncomeEntry[]): void => {
+  localStorage.setItem(`${DRAFT_KEY_PREFIX}${routeId}`, JSON.stringify(incomes));
+};
+
+export const clearIncomeDraft = (routeId: string): void => {
+  localStorage.removeItem(`${DRAFT_KEY_PREFIX}${routeId}`);
+};
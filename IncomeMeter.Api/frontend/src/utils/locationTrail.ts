@@ -0,0 +1,170 @@
+import type { ImportLocationPoint, Location } from '../types';
+import { escapeXml } from './spreadsheetExport';
+
+/**
+ * GPX and KML files for a route's location trail.
+ * Exports keep each point's time, speed (m/s) and accuracy (m) so other tracker and mapping apps
+ * can replay the trail; GPX tracks recorded elsewhere can be read back in as location points.
+ */
+
+export interface TrailFileOptions {
+  name: string;
+  creator?: string;
+  now?: Date;
+}
+
+export interface ParsedTrail {
+  name?: string;
+  points: ImportLocationPoint[];
+  skipped: number; // track points without a valid position or time
+}
+
+type TrailPoint = Pick<Location, 'latitude' | 'longitude' | 'timestamp' | 'speed' | 'accuracy'>;
+
+const GPX_NAMESPACE = 'http://www.topografix.com/GPX/1/1';
+const GPX_TRACKPOINT_EXTENSION = 'http://www.garmin.com/xmlschemas/TrackPointExtension/v2';
+const KML_NAMESPACE = 'http://www.opengis.net/kml/2.2';
+const KML_EXTENSION = 'http://www.google.com/kml/ext/2.2';
+// Accuracy has no standard GPX element, so it goes in an extension of our own
+const INCOME_METER_NAMESPACE = 'urn:incomemeter:trail:1';
+
+export const TRAIL_MIME_TYPES = {
+  gpx: 'application/gpx+xml',
+  kml: 'application/vnd.google-earth.kml+xml',
+};
+
+const sortByTime = <T extends TrailPoint>(points: T[]): T[] =>
+  [...points].sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
+
+const toIsoTime = (timestamp: string): string => new Date(timestamp).toISOString();
+
+const hasValue = (value: number | null | undefined): value is number =>
+  value !== null && value !== undefined && Number.isFinite(value);
+
+/**
+ * Build a GPX 1.1 document with the trail as a single track segment
+ */
+export const buildGpx = (locations: TrailPoint[], options: TrailFileOptions): string => {
+  const { name, creator = 'IncomeMeter', now = new Date() } = options;
+
+  const trackPoints = sortByTime(locations).map(location => {
+    const extensions: string[] = [];
+    if (hasValue(location.speed)) {
+      extensions.push(`<gpxtpx:TrackPointExtension><gpxtpx:speed>${location.speed}</gpxtpx:speed></gpxtpx:TrackPointExtension>`);
+    }
+    if (hasValue(location.accuracy)) {
+      extensions.push(`<im:accuracy>${location.accuracy}</im:accuracy>`);
+    }
+
+    return [
+      `      <trkpt lat="${location.latitude}" lon="${location.longitude}">`,
+      `        <time>${toIsoTime(location.timestamp)}</time>`,
+      ...(extensions.length > 0 ? [`        <extensions>${extensions.join('')}</extensions>`] : []),
+      '      </trkpt>',
+    ].join('\n');
+  });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<gpx version="1.1" creator="${escapeXml(creator)}" xmlns="${GPX_NAMESPACE}" xmlns:gpxtpx="${GPX_TRACKPOINT_EXTENSION}" xmlns:im="${INCOME_METER_NAMESPACE}">`,
+    '  <metadata>',
+    `    <name>${escapeXml(name)}</name>`,
+    `    <time>${now.toISOString()}</time>`,
+    '  </metadata>',
+    '  <trk>',
+    `    <name>${escapeXml(name)}</name>`,
+    '    <trkseg>',
+    ...trackPoints,
+    '    </trkseg>',
+    '  </trk>',
+    '</gpx>',
+    '',
+  ].join('\n');
+};
+
+/**
+ * Build a KML document with the trail as a timed gx:Track, with speed and accuracy
+ * as per-point extended data
+ */
+export const buildKml = (locations: TrailPoint[], options: TrailFileOptions): string => {
+  const sorted = sortByTime(locations);
+  const valueArray = (field: 'speed' | 'accuracy') => [
+    `            <gx:SimpleArrayData name="${field}">`,
+    ...sorted.map(location => {
+      const value = location[field];
+      return hasValue(value) ? `              <gx:value>${value}</gx:value>` : '              <gx:value/>';
+    }),
+    '            </gx:SimpleArrayData>',
+  ];
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<kml xmlns="${KML_NAMESPACE}" xmlns:gx="${KML_EXTENSION}">`,
+    '  <Document>',
+    `    <name>${escapeXml(options.name)}</name>`,
+    '    <Schema id="trailData">',
+    '      <gx:SimpleArrayField name="speed" type="float"><displayName>Speed (m/s)</displayName></gx:SimpleArrayField>',
+    '      <gx:SimpleArrayField name="accuracy" type="float"><displayName>Accuracy (m)</displayName></gx:SimpleArrayField>',
+    '    </Schema>',
+    '    <Placemark>',
+    `      <name>${escapeXml(options.name)}</name>`,
+    '      <gx:Track>',
+    ...sorted.map(location => `        <when>${toIsoTime(location.timestamp)}</when>`),
+    ...sorted.map(location => `        <gx:coord>${location.longitude} ${location.latitude} 0</gx:coord>`),
+    '        <ExtendedData>',
+    '          <SchemaData schemaUrl="#trailData">',
+    ...valueArray('speed'),
+    ...valueArray('accuracy'),
+    '          </SchemaData>',
+    '        </ExtendedData>',
+    '      </gx:Track>',
+    '    </Placemark>',
+    '  </Document>',
+    '</kml>',
+    '',
+  ].join('\n');
+};
+
+// Tracker apps put speed and accuracy in different extension namespaces, so match on the local name
+const findNumber = (element: Element, localName: string): number | undefined => {
+  const match = element.getElementsByTagNameNS('*', localName)[0];
+  const value = match ? parseFloat(match.textContent ?? '') : NaN;
+  return Number.isFinite(value) ? value : undefined;
+};
+
+/**
+ * Read the track points of a GPX file. Returns null when the text is not a GPX document.
+ */
+export const parseGpx = (text: string): ParsedTrail | null => {
+  const xml = new DOMParser().parseFromString(text, 'application/xml');
+  const root = xml.documentElement;
+  if (!root || root.localName !== 'gpx' || xml.getElementsByTagName('parsererror').length > 0) {
+    return null;
+  }
+
+  const points: ImportLocationPoint[] = [];
+  let skipped = 0;
+
+  for (const trackPoint of Array.from(root.getElementsByTagNameNS('*', 'trkpt'))) {
+    const latitude = parseFloat(trackPoint.getAttribute('lat') ?? '');
+    const longitude = parseFloat(trackPoint.getAttribute('lon') ?? '');
+    const time = new Date(trackPoint.getElementsByTagNameNS('*', 'time')[0]?.textContent?.trim() ?? '');
+
+    if (!Number.isFinite(latitude) || !Number.isFinite(longitude) || Math.abs(latitude) > 90 || Math.abs(longitude) > 180 || isNaN(time.getTime())) {
+      skipped++;
+      continue;
+    }
+
+    const point: ImportLocationPoint = { latitude, longitude, timestamp: time.toISOString() };
+    const speed = findNumber(trackPoint, 'speed');
+    const accuracy = findNumber(trackPoint, 'accuracy');
+    if (speed !== undefined) point.speed = speed;
+    if (accuracy !== undefined) point.accuracy = accuracy;
+    points.push(point);
+  }
+
+  const trackName = root.getElementsByTagNameNS('*', 'trk')[0]?.getElementsByTagNameNS('*', 'name')[0]?.textContent?.trim();
+  const metadataName = root.getElementsByTagNameNS('*', 'metadata')[0]?.getElementsByTagNameNS('*', 'name')[0]?.textContent?.trim();
+
+  return { name: trackName || metadataName || undefined, points: sortByTime(points), skipped };
+};
@@ -0,0 +1,58 @@
+import type { MileageReconciliation, MileageSource } from '../types';
+import { convertDistance } from './distance';
+
+/**
+ * Mileage Reconciliation Utilities
+ * Flags routes whose odometer and GPS mileage disagree by more than the user's tolerance
+ */
+
+const TOLERANCE_KEY = 'mileageReconciliation:tolerance';
+
+export interface MileageTolerance {
+  distance: number;      // in `unit`, so the setting reads the way the user entered it
+  unit: 'km' | 'mi';
+  percent: number;       // differences under this share of the longer reading are ignored as well
+}
+
+export const DEFAULT_MILEAGE_TOLERANCE: MileageTolerance = {
+  distance: 1,
+  unit: 'mi',
+  percent: 5,
+};
+
+export interface MileageDifference {
+  miles: number;         // GPS minus odometer
+  percent: number;       // of the longer reading
+}
+
+export const getMileageDifference = (item: Pick<MileageReconciliation, 'odometerMiles' | 'gpsMiles'>): MileageDifference => {
+  const miles = item.gpsMiles - item.odometerMiles;
+  const longer = Math.max(item.odometerMiles, item.gpsMiles);
+  return { miles, percent: longer > 0 ? Math.abs(miles) / longer * 100 : 0 };
+};
+
+/**
+ * A route diverges when the readings differ by more than both the distance and the percentage tolerance,
+ * so a short trip isn't flagged for a fraction of a mile and a long one isn't flagged for a few percent
+ */
+export const isDiverging = (item: Pick<MileageReconciliation, 'odometerMiles' | 'gpsMiles'>, tolerance: MileageTolerance): boolean => {
+  const { miles, percent } = getMileageDifference(item);
+  const toleranceMiles = convertDistance(tolerance.distance, tolerance.unit, 'mi');
+  return Math.abs(miles) > toleranceMiles && percent > tolerance.percent;
+};
+
+export const getMilesForSource = (item: Pick<MileageReconciliation, 'odometerMiles' | 'gpsMiles'>, source: MileageSource): number =>
+  source === 'gps' ? item.gpsMiles : item.odometerMiles;
+
+export const loadMileageTolerance = (): MileageTolerance => {
+  try {
+    const stored = localStorage.getItem(TOLERANCE_KEY);
+    return stored ? { ...DEFAULT_MILEAGE_TOLERANCE, ...JSON.parse(stored) as Partial<MileageTolerance> } : DEFAULT_MILEAGE_TOLERANCE;
+  } catch {
+    return DEFAULT_MILEAGE_TOLERANCE;
+  }
+};
+
+export const saveMileageTolerance = (tolerance: MileageTolerance): void => {
+  localStorage.setItem(TOLERANCE_KEY, JSON.stringify(tolerance));
+};
@@ -0,0 +1,309 @@
+import axios from 'axios';
+import type { OutboxEntry, OutboxMutationType } from '../types';
+
+/**
+ * Offline outbox for route, location and expense mutations.
+ * Drivers often lose signal mid-shift, so mutations made while offline are stored in
+ * IndexedDB and replayed in their original order once the connection comes back.
+ */
+
+const DB_NAME = 'incomemeter-offline';
+const DB_VERSION = 1;
+const STORE_NAME = 'outbox';
+
+export const OFFLINE_ID_PREFIX = 'offline-';
+
+// Mutations that create a route on the server; their tempId stands in for the real route id
+const ROUTE_CREATING_MUTATIONS: OutboxMutationType[] = ['createRoute', 'startRoute'];
+
+// Payload field holding the route id for mutations that act on an existing route
+const ROUTE_REFERENCE_FIELDS: Partial<Record<OutboxMutationType, string>> = {
+  endRoute: 'id',
+  createLocation: 'routeId',
+  createExpense: 'routeId',
+};
+
+export type OutboxExecutors = Record<OutboxMutationType, (payload: Record<string, unknown>) => Promise<{ id: string }>>;
+
+export interface OutboxReplayResult {
+  synced: number;
+  failed: number;
+  remaining: number;
+}
+
+export interface QueuedMutation {
+  type: OutboxMutationType;
+  payload: Record<string, unknown>;
+  routeId?: string;
+}
+
+type OutboxListener = () => void;
+
+const listeners = new Set<OutboxListener>();
+const resolvedRouteIds = new Map<string, string>();
+let dbPromise: Promise<IDBDatabase> | null = null;
+let activeReplay: Promise<OutboxReplayResult> | null = null;
+
+const notifyListeners = () => {
+  listeners.forEach(listener => listener());
+};
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error('IndexedDB is not available'));
+        return;
+      }
+
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        if (!request.result.objectStoreNames.contains(STORE_NAME)) {
+          request.result.createObjectStore(STORE_NAME, { keyPath: 'id', autoIncrement: true });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    dbPromise.catch(() => {
+      dbPromise = null;
+    });
+  }
+  return dbPromise;
+};
+
+const runTransaction = async <T>(
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(STORE_NAME, mode);
+    const request = operation(transaction.objectStore(STORE_NAME));
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+};
+
+const putEntry = (entry: OutboxEntry) => runTransaction('readwrite', store => store.put(entry));
+
+const deleteEntry = (id: number) => runTransaction('readwrite', store => store.delete(id));
+
+/**
+ * Generate a placeholder id for an entity created while offline
+ */
+export const createOfflineId = (): string =>
+  `${OFFLINE_ID_PREFIX}${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+/**
+ * Check whether an id is a placeholder for an entity that has not reached the server yet
+ */
+export const isOfflineId = (id: string | undefined): boolean => !!id && id.startsWith(OFFLINE_ID_PREFIX);
+
+/**
+ * A network error is one where the request never got a response (offline, DNS, timeout)
+ */
+export const isNetworkError = (error: unknown): boolean => {
+  if (typeof navigator !== 'undefined' && navigator.onLine === false) {
+    return true;
+  }
+  return axios.isAxiosError(error) && !error.response;
+};
+
+/**
+ * Get the server id a placeholder route id was replaced with during replay
+ */
+export const getResolvedRouteId = (tempId: string): string | undefined => resolvedRouteIds.get(tempId);
+
+/**
+ * Get all queued entries in replay order
+ */
+export const getOutboxEntries = async (): Promise<OutboxEntry[]> => {
+  const entries = await runTransaction<OutboxEntry[]>('readonly', store => store.getAll());
+  return entries.sort((a, b) => (a.id ?? 0) - (b.id ?? 0));
+};
+
+/**
+ * Subscribe to outbox changes; returns an unsubscribe function
+ */
+export const subscribeToOutbox = (listener: OutboxListener): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+// Whether the outbox still holds mutations for a route that have to reach the server first
+const hasPendingEntriesForRoute = async (routeId: string): Promise<boolean> => {
+  // A replay in progress may be sending them right now
+  await activeReplay?.catch(() => undefined);
+  try {
+    const entries = await getOutboxEntries();
+    return entries.some(entry => entry.status === 'pending' && entry.routeId === routeId);
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Run a mutation, or queue it when the device is offline or the mutation depends on a
+ * route that is itself still queued. Mutations for a route with entries still waiting to be
+ * replayed are queued behind them, so the server sees them in the order they were made.
+ * Returns the server result or the placeholder.
+ */
+export const executeOrQueue = async <T>(
+  mutation: QueuedMutation,
+  execute: () => Promise<T>,
+  buildPlaceholder: (tempId: string) => T
+): Promise<T> => {
+  const dependsOnQueuedRoute = isOfflineId(mutation.routeId)
+    || (!!mutation.routeId && await hasPendingEntriesForRoute(mutation.routeId));
+  let networkError: unknown = null;
+
+  if (!dependsOnQueuedRoute && navigator.onLine !== false) {
+    try {
+      return await execute();
+    } catch (error) {
+      if (!isNetworkError(error)) {
+        throw error;
+      }
+      networkError = error;
+    }
+  }
+
+  const tempId = createOfflineId();
+  const placeholder = buildPlaceholder(tempId);
+
+  try {
+    await putEntry({
+      type: mutation.type,
+      payload: mutation.payload,
+      tempId,
+      routeId: mutation.routeId,
+      placeholder: placeholder as OutboxEntry['placeholder'],
+      status: 'pending',
+      attempts: 0,
+      createdAt: new Date().toISOString(),
+    });
+  } catch (queueError) {
+    console.error('Failed to queue offline mutation:', queueError);
+    throw networkError ?? queueError;
+  }
+
+  notifyListeners();
+  return placeholder;
+};
+
+/**
+ * Mark a failed entry as pending again so the next replay picks it up
+ */
+export const retryOutboxEntry = async (id: number): Promise<void> => {
+  const entry = await runTransaction<OutboxEntry | undefined>('readonly', store => store.get(id));
+  if (!entry) return;
+
+  await putEntry({ ...entry, status: 'pending', lastError: undefined });
+  notifyListeners();
+};
+
+/**
+ * Drop an entry from the outbox, along with anything queued against the route it creates
+ */
+export const discardOutboxEntry = async (id: number): Promise<void> => {
+  const entries = await getOutboxEntries();
+  const entry = entries.find(e => e.id === id);
+  if (!entry) return;
+
+  const dependents = ROUTE_CREATING_MUTATIONS.includes(entry.type)
+    ? entries.filter(e => e.routeId === entry.tempId)
+    : [];
+
+  for (const item of [entry, ...dependents]) {
+    await deleteEntry(item.id!);
+  }
+  notifyListeners();
+};
+
+const getErrorMessage = (error: unknown): string => {
+  if (axios.isAxiosError(error)) {
+    const data = error.response?.data as { message?: string } | string | undefined;
+    if (typeof data === 'string' && data) return data;
+    if (data && typeof data === 'object' && data.message) return data.message;
+    return error.message;
+  }
+  return error instanceof Error ? error.message : String(error);
+};
+
+const replayEntries = async (executors: OutboxExecutors): Promise<OutboxReplayResult> => {
+  const entries = await getOutboxEntries();
+  const failedRouteIds = new Set(
+    entries.filter(e => e.status === 'failed' && ROUTE_CREATING_MUTATIONS.includes(e.type)).map(e => e.tempId)
+  );
+  let synced = 0;
+  let failed = 0;
+
+  for (const entry of entries) {
+    if (entry.status === 'failed') continue;
+
+    // A mutation against a route that could not be created cannot succeed either
+    if (entry.routeId && failedRouteIds.has(entry.routeId)) {
+      await putEntry({ ...entry, status: 'failed', lastError: 'Route could not be created' });
+      failed++;
+      continue;
+    }
+
+    try {
+      const result = await executors[entry.type](entry.payload);
+      await deleteEntry(entry.id!);
+      synced++;
+
+      if (ROUTE_CREATING_MUTATIONS.includes(entry.type)) {
+        resolvedRouteIds.set(entry.tempId, result.id);
+        await rewriteRouteReferences(entries, entry.tempId, result.id);
+      }
+    } catch (error) {
+      if (isNetworkError(error)) {
+        // Still offline - keep the remaining entries pending for the next attempt
+        break;
+      }
+
+      console.error('Failed to replay offline mutation:', entry.type, error);
+      await putEntry({ ...entry, status: 'failed', attempts: entry.attempts + 1, lastError: getErrorMessage(error) });
+      failed++;
+
+      if (ROUTE_CREATING_MUTATIONS.includes(entry.type)) {
+        failedRouteIds.add(entry.tempId);
+      }
+    }
+  }
+
+  const remaining = (await getOutboxEntries()).length;
+  return { synced, failed, remaining };
+};
+
+// Point queued mutations at the server id of a route that has just been created
+const rewriteRouteReferences = async (entries: OutboxEntry[], tempId: string, routeId: string) => {
+  for (const entry of entries) {
+    if (entry.routeId !== tempId) continue;
+
+    const field = ROUTE_REFERENCE_FIELDS[entry.type];
+    entry.routeId = routeId;
+    if (field) {
+      entry.payload = { ...entry.payload, [field]: routeId };
+    }
+    await putEntry(entry);
+  }
+};
+
+/**
+ * Replay queued mutations in order. Concurrent calls share the same replay.
+ */
+export const replayOutbox = (executors: OutboxExecutors): Promise<OutboxReplayResult> => {
+  if (!activeReplay) {
+    activeReplay = replayEntries(executors).finally(() => {
+      activeReplay = null;
+      notifyListeners();
+    });
+  }
+  return activeReplay;
+};
@@ -0,0 +1,104 @@
+import type { ComparisonMode, PeriodIncomeData, PeriodType } from '../types';
+
+/**
+ * Period Comparison Utilities
+ * Works out which period to compare against and the deltas shown beside the chart
+ */
+
+export interface PeriodMetrics {
+  income: number;
+  routes: number;
+  distance: number;
+  hourlyRate: number;
+}
+
+export interface MetricDelta {
+  current: number;
+  previous: number;
+  difference: number;
+  percentChange: number | null; // null when the comparison period had nothing to compare against
+}
+
+export type PeriodComparison = Record<keyof PeriodMetrics, MetricDelta>;
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+// How many periods back the same period last year is
+const PERIODS_PER_YEAR: Record<PeriodType, number> = {
+  weekly: 52, // 52 weeks keeps the days of the week lined up
+  monthly: 12,
+  annual: 1,
+};
+
+/**
+ * Offset of the period to compare the selected weekly/monthly/annual period against
+ */
+export const getComparisonOffset = (period: PeriodType, offset: number, mode: Exclude<ComparisonMode, 'none'>): number =>
+  mode === 'previous' ? offset - 1 : offset - PERIODS_PER_YEAR[period];
+
+// Same calendar day a year earlier; 29 February falls back to the 28th
+const shiftYearBack = (date: Date): Date => {
+  const lastDayOfMonth = new Date(date.getFullYear() - 1, date.getMonth() + 1, 0).getDate();
+  return new Date(date.getFullYear() - 1, date.getMonth(), Math.min(date.getDate(), lastDayOfMonth));
+};
+
+/**
+ * Comparison range for a custom from/to range (whole local days, inclusive): the same number of days
+ * immediately before it, or the same dates last year
+ */
+export const getComparisonRange = (
+  range: { start: Date; end: Date },
+  mode: Exclude<ComparisonMode, 'none'>
+): { start: Date; end: Date } => {
+  const start = new Date(range.start.getFullYear(), range.start.getMonth(), range.start.getDate());
+  const end = new Date(range.end.getFullYear(), range.end.getMonth(), range.end.getDate());
+
+  if (mode === 'lastYear') {
+    return { start: shiftYearBack(start), end: shiftYearBack(end) };
+  }
+
+  const days = Math.round((end.getTime() - start.getTime()) / MS_PER_DAY) + 1;
+  return {
+    start: new Date(start.getFullYear(), start.getMonth(), start.getDate() - days),
+    end: new Date(start.getFullYear(), start.getMonth(), start.getDate() - 1),
+  };
+};
+
+/**
+ * Headline numbers for a period; hourly rate is across all work types
+ */
+export const summarizePeriodMetrics = (
+  data: Pick<PeriodIncomeData, 'totalIncome' | 'chartData' | 'incomeBySource'>
+): PeriodMetrics => {
+  const workTypes = Object.values(data.incomeBySource ?? {});
+  const hours = workTypes.reduce((sum, stats) => sum + (stats.totalWorkingHours || 0), 0);
+
+  return {
+    income: data.totalIncome ?? 0,
+    routes: data.chartData.reduce((sum, item) => sum + item.routes, 0),
+    distance: data.chartData.reduce((sum, item) => sum + item.distance, 0),
+    hourlyRate: hours > 0 ? (data.totalIncome ?? 0) / hours : 0,
+  };
+};
+
+export const calculateDelta = (current: number, previous: number): MetricDelta => ({
+  current,
+  previous,
+  difference: current - previous,
+  percentChange: previous !== 0 ? ((current - previous) / Math.abs(previous)) * 100 : null,
+});
+
+export const comparePeriods = (
+  current: Pick<PeriodIncomeData, 'totalIncome' | 'chartData' | 'incomeBySource'>,
+  comparison: Pick<PeriodIncomeData, 'totalIncome' | 'chartData' | 'incomeBySource'>
+): PeriodComparison => {
+  const currentMetrics = summarizePeriodMetrics(current);
+  const comparisonMetrics = summarizePeriodMetrics(comparison);
+
+  return {
+    income: calculateDelta(currentMetrics.income, comparisonMetrics.income),
+    routes: calculateDelta(currentMetrics.routes, comparisonMetrics.routes),
+    distance: calculateDelta(currentMetrics.distance, comparisonMetrics.distance),
+    hourlyRate: calculateDelta(currentMetrics.hourlyRate, comparisonMetrics.hourlyRate),
+  };
+};
@@ -0,0 +1,190 @@
+/**
+ * Shared cache for data read from the API.
+ * Each query is stored under a key such as ['routes', 'detail', id]. Pages show what is cached straight
+ * away and refetch in the background once it is stale, and mutations invalidate or patch every query
+ * under a key prefix so an edit on one page shows up on all of them.
+ */
+
+export type QueryKey = readonly unknown[];
+
+export interface QueryState<T> {
+  data?: T;
+  error?: unknown;
+  updatedAt: number;    // when data was last written, 0 before the first success
+  isFetching: boolean;
+  isInvalidated: boolean;
+}
+
+export interface FetchQueryOptions {
+  staleTime?: number;
+  force?: boolean;      // fetch even if the cached data is still fresh or a fetch is in flight
+}
+
+interface CacheEntry {
+  key: QueryKey;
+  state: QueryState<unknown>;
+  fetcher?: () => Promise<unknown>;
+  promise?: Promise<unknown>;
+  fetchId: number;
+  listeners: Set<() => void>;
+}
+
+// Cached data is served without a refetch for this long
+export const DEFAULT_STALE_TIME_MS = 30 * 1000;
+
+// Queries no page is showing are dropped, oldest first, beyond this many
+export const MAX_CACHED_QUERIES = 100;
+
+const INITIAL_STATE: QueryState<unknown> = { updatedAt: 0, isFetching: false, isInvalidated: false };
+
+const entries = new Map<string, CacheEntry>();
+
+export const hashQueryKey = (key: QueryKey): string => JSON.stringify(key);
+
+const matchesPrefix = (key: QueryKey, prefix: QueryKey): boolean =>
+  prefix.length <= key.length && prefix.every((part, index) => hashQueryKey([part]) === hashQueryKey([key[index]]));
+
+const findEntries = (prefix: QueryKey): CacheEntry[] =>
+  Array.from(entries.values()).filter(entry => matchesPrefix(entry.key, prefix));
+
+const evictUnusedEntries = () => {
+  for (const [hash, entry] of entries) {
+    if (entries.size <= MAX_CACHED_QUERIES) return;
+    if (entry.listeners.size === 0 && !entry.promise) {
+      entries.delete(hash);
+    }
+  }
+};
+
+// Map order doubles as recency, so each use moves the entry to the back
+const getEntry = (key: QueryKey): CacheEntry => {
+  const hash = hashQueryKey(key);
+  const entry = entries.get(hash) ?? { key, state: INITIAL_STATE, fetchId: 0, listeners: new Set<() => void>() };
+  entries.delete(hash);
+  entries.set(hash, entry);
+  evictUnusedEntries();
+  return entry;
+};
+
+// Results of a fetch already in flight are dropped once the entry is written to directly
+const cancelFetch = (entry: CacheEntry) => {
+  entry.fetchId++;
+  entry.promise = undefined;
+};
+
+// States are replaced rather than mutated so subscribers can compare snapshots by identity
+const setState = (entry: CacheEntry, patch: Partial<QueryState<unknown>>) => {
+  entry.state = { ...entry.state, ...patch };
+  entry.listeners.forEach(listener => listener());
+};
+
+export const getQueryState = <T>(key: QueryKey): QueryState<T> | undefined =>
+  entries.get(hashQueryKey(key))?.state as QueryState<T> | undefined;
+
+export const getQueryData = <T>(key: QueryKey): T | undefined => getQueryState<T>(key)?.data;
+
+export const isQueryStale = (state: QueryState<unknown> | undefined, staleTime: number = DEFAULT_STALE_TIME_MS, now: number = Date.now()): boolean =>
+  !state || state.updatedAt === 0 || state.isInvalidated || now - state.updatedAt > staleTime;
+
+/**
+ * Resolve a query from the cache, fetching it when missing or stale.
+ * Callers asking for the same key while a fetch is in flight share it; a forced fetch replaces it.
+ */
+export const fetchQuery = <T>(key: QueryKey, fetcher: () => Promise<T>, { staleTime = DEFAULT_STALE_TIME_MS, force = false }: FetchQueryOptions = {}): Promise<T> => {
+  const entry = getEntry(key);
+  entry.fetcher = fetcher;
+
+  if (!force) {
+    if (entry.promise) return entry.promise as Promise<T>;
+    if (!isQueryStale(entry.state, staleTime)) return Promise.resolve(entry.state.data as T);
+  }
+
+  const fetchId = ++entry.fetchId;
+  const promise = fetcher()
+    .then(data => {
+      // A newer fetch or a direct write has superseded this one
+      if (entry.fetchId === fetchId) {
+        setState(entry, { data, error: undefined, updatedAt: Date.now(), isFetching: false, isInvalidated: false });
+      }
+      return data;
+    })
+    .catch(error => {
+      if (entry.fetchId === fetchId) {
+        setState(entry, { error, isFetching: false });
+      }
+      throw error;
+    })
+    .finally(() => {
+      if (entry.promise === promise) {
+        entry.promise = undefined;
+      }
+    });
+
+  entry.promise = promise;
+  setState(entry, { isFetching: true });
+  return promise;
+};
+
+export const subscribeToQuery = (key: QueryKey, listener: () => void): (() => void) => {
+  const entry = getEntry(key);
+  entry.listeners.add(listener);
+  return () => {
+    entry.listeners.delete(listener);
+  };
+};
+
+/**
+ * Write a query's data directly, e.g. with the copy a mutation returned. A fetch already in flight for it is discarded.
+ */
+export const setQueryData = <T>(key: QueryKey, updater: T | ((previous: T | undefined) => T)) => {
+  const entry = getEntry(key);
+  const data = typeof updater === 'function'
+    ? (updater as (previous: T | undefined) => T)(entry.state.data as T | undefined)
+    : updater;
+  cancelFetch(entry);
+  setState(entry, { data, error: undefined, updatedAt: Date.now(), isFetching: false, isInvalidated: false });
+};
+
+/**
+ * Patch every cached query under the prefix. Returns a rollback, so an optimistic update can be undone if its mutation fails.
+ */
+export const setQueriesData = <T>(prefix: QueryKey, updater: (data: T) => T): (() => void) => {
+  const previousStates = findEntries(prefix)
+    .filter(entry => entry.state.data !== undefined)
+    .map(entry => {
+      const previous = entry.state;
+      cancelFetch(entry);
+      setState(entry, { data: updater(previous.data as T), isFetching: false });
+      return { entry, previous };
+    });
+
+  return () => {
+    previousStates.forEach(({ entry, previous }) => setState(entry, { ...previous, isFetching: false }));
+  };
+};
+
+/**
+ * Mark every query under the prefix stale. Queries a page is showing refetch now; the rest on their next use.
+ */
+export const invalidateQueries = (prefix: QueryKey) => {
+  findEntries(prefix).forEach(entry => {
+    setState(entry, { isInvalidated: true });
+    if (entry.listeners.size > 0 && entry.fetcher) {
+      // Failures are kept in the query state for the page to show
+      fetchQuery(entry.key, entry.fetcher, { force: true }).catch(() => undefined);
+    }
+  });
+};
+
+// Entries a page is subscribed to are emptied rather than dropped so the page still hears about the next fetch
+export const removeQueries = (prefix: QueryKey) => {
+  findEntries(prefix).forEach(entry => {
+    if (entry.listeners.size === 0) {
+      entries.delete(hashQueryKey(entry.key));
+    }
+    cancelFetch(entry);
+    setState(entry, INITIAL_STATE);
+  });
+};
+
+export const clearQueryCache = () => removeQueries([]);
@@ -0,0 +1,111 @@
+import type { Route } from '../types';
+import { getDisplayDistance } from './distance';
+import type { SpreadsheetCell } from './spreadsheetExport';
+
+export interface RouteExportOptions {
+  t: (key: string) => string;
+  currency: string;
+  timeZone: string;
+  mileageUnit: 'km' | 'mi';
+}
+
+/**
+ * Format a date as "YYYY-MM-DD HH:mm" in the given timezone so spreadsheets sort it correctly
+ */
+export const formatExportDateTime = (date: Date | string | undefined, timeZone: string): string => {
+  if (!date) return '';
+
+  const dateObj = typeof date === 'string' ? new Date(date) : date;
+  if (isNaN(dateObj.getTime())) return '';
+
+  const options: Intl.DateTimeFormatOptions = {
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23',
+  };
+
+  let parts: Intl.DateTimeFormatPart[];
+  try {
+    parts = new Intl.DateTimeFormat('en-GB', { ...options, timeZone }).formatToParts(dateObj);
+  } catch {
+    // Fallback to browser timezone if the stored timezone is invalid
+    parts = new Intl.DateTimeFormat('en-GB', options).formatToParts(dateObj);
+  }
+
+  const part = (type: Intl.DateTimeFormatPartTypes) => parts.find(p => p.type === type)?.value ?? '';
+  return `${part('year')}-${part('month')}-${part('day')} ${part('hour')}:${part('minute')}`;
+};
+
+const roundAmount = (amount: number): number => Math.round(amount * 100) / 100;
+
+/**
+ * Collect the income sources used across routes, in alphabetical order
+ */
+export const getIncomeSourceColumns = (routes: Route[]): string[] => {
+  const sources = new Set<string>();
+  routes.forEach(route => {
+    route.incomes.forEach(income => {
+      if (income.source.trim()) {
+        sources.add(income.source);
+      }
+    });
+  });
+  return Array.from(sources).sort();
+};
+
+/**
+ * Build spreadsheet rows for routes: a header row, then one row per route with a column per income source
+ */
+export const buildRouteExportRows = (routes: Route[], options: RouteExportOptions): SpreadsheetCell[][] => {
+  const { t, currency, timeZone, mileageUnit } = options;
+  const incomeSources = getIncomeSourceColumns(routes);
+
+  const header: SpreadsheetCell[] = [
+    t('routes.export.columns.workType'),
+    t('routes.export.columns.status'),
+    t('routes.export.columns.scheduleStart'),
+    t('routes.export.columns.scheduleEnd'),
+    t('routes.export.columns.actualStart'),
+    t('routes.export.columns.actualEnd'),
+    `${t('routes.export.columns.startOdometer')} (${mileageUnit})`,
+    `${t('routes.export.columns.endOdometer')} (${mileageUnit})`,
+    `${t('routes.export.columns.distance')} (${mileageUnit})`,
+    `${t('routes.export.columns.estimatedIncome')} (${currency})`,
+    ...incomeSources.map(source => `${source} (${currency})`),
+    `${t('routes.export.columns.totalIncome')} (${currency})`,
+  ];
+
+  // Distances and odometer readings are stored in miles, matching the route list display
+  const toUserUnit = (miles: number | undefined) =>
+    miles === undefined || miles === null ? null : roundAmount(getDisplayDistance(miles, 'mi', mileageUnit).value);
+
+  const rows = routes.map(route => {
+    const incomeBySource = new Map<string, number>();
+    route.incomes.forEach(income => {
+      incomeBySource.set(income.source, (incomeBySource.get(income.source) || 0) + income.amount);
+    });
+
+    return [
+      route.workType || '',
+      t(`routes.status.${route.status === 'in_progress' ? 'inProgress' : route.status}`),
+      formatExportDateTime(route.scheduleStart, timeZone),
+      formatExportDateTime(route.scheduleEnd, timeZone),
+      formatExportDateTime(route.actualStartTime, timeZone),
+      formatExportDateTime(route.actualEndTime, timeZone),
+      toUserUnit(route.startMile),
+      toUserUnit(route.endMile),
+      toUserUnit(route.distance),
+      route.estimatedIncome !== undefined ? roundAmount(route.estimatedIncome) : null,
+      ...incomeSources.map(source => {
+        const amount = incomeBySource.get(source);
+        return amount !== undefined ? roundAmount(amount) : null;
+      }),
+      roundAmount(route.totalIncome || 0),
+    ];
+  });
+
+  return [header, ...rows];
+};
@@ -0,0 +1,333 @@
+import type { Route, WorkTypeConfig } from '../types';
+import { convertDistance } from './distance';
+import { createDateInTimezone } from './timezoneUtils';
+
+export type RouteImportField =
+  | 'ignore'
+  | 'scheduleStart'
+  | 'scheduleEnd'
+  | 'workType'
+  | 'startMile'
+  | 'endMile'
+  | 'estimatedIncome'
+  | 'income';
+
+export interface ColumnMapping {
+  field: RouteImportField;
+  incomeSource?: string; // source name when field is 'income'
+}
+
+export interface ImportIssue {
+  key: string; // i18n key under routes.import.errors
+  params?: Record<string, string | number>;
+}
+
+export interface ImportRowResult {
+  rowNumber: number; // 1-based line number in the CSV the row starts on
+  route: Partial<Route> | null;
+  errors: ImportIssue[];
+}
+
+export interface RouteImportOptions {
+  workTypes: WorkTypeConfig[];
+  defaultWorkTypeId?: string;
+  timeZone: string;
+  dateFormat: string;
+  mileageUnit: 'km' | 'mi';
+}
+
+export interface CsvRow {
+  lineNumber: number; // 1-based line the row starts on, so blank lines and multi-line fields are counted
+  values: string[];
+}
+
+/**
+ * Parse CSV text (RFC 4180: quoted fields, escaped quotes, embedded newlines) into rows
+ */
+export const parseCsv = (text: string): CsvRow[] => {
+  const rows: CsvRow[] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  let line = 1;
+  let rowLine = 1;
+  const input = text.replace(/^\uFEFF/, '');
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    const isLineBreak = char === '\n' || (char === '\r' && input[i + 1] !== '\n');
+
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+        if (isLineBreak) line++;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push({ lineNumber: rowLine, values: row });
+      row = [];
+      field = '';
+      line++;
+      rowLine = line;
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push({ lineNumber: rowLine, values: row });
+  }
+
+  // Drop blank lines
+  return rows.filter(r => r.values.some(value => value.trim() !== ''));
+};
+
+// Header aliases, including the column names produced by the route export
+const FIELD_ALIASES: Array<{ field: RouteImportField; patterns: RegExp[] }> = [
+  { field: 'scheduleStart', patterns: [/^schedul\w*\s*start/, /^start\s*(time|date)?$/, /^shift\s*start/] },
+  { field: 'scheduleEnd', patterns: [/^schedul\w*\s*end/, /^end\s*(time|date)?$/, /^finish/, /^shift\s*end/] },
+  { field: 'workType', patterns: [/^work\s*type/, /^job/, /^platform/] },
+  { field: 'startMile', patterns: [/^start\s*(odometer|mile)/] },
+  { field: 'endMile', patterns: [/^end\s*(odometer|mile)/] },
+  { field: 'estimatedIncome', patterns: [/^estimated\s*income/] },
+  // Computed on save, so never imported
+  { field: 'ignore', patterns: [/^total\s*income/, /^status/, /^distance/, /^actual\s*(start|end)/, /^id$/] },
+];
+
+/**
+ * Strip a trailing unit or currency suffix such as " (GBP)" from a header
+ */
+const stripHeaderSuffix = (header: string): string => header.replace(/\s*\([^)]*\)\s*$/, '').trim();
+
+/**
+ * Guess column mappings from header names. Columns that match an income source of an
+ * active work type, or carry a currency suffix, are mapped as income sources.
+ */
+export const autoDetectMapping = (headers: string[], workTypes: WorkTypeConfig[]): ColumnMapping[] => {
+  const knownSources = new Map<string, string>();
+  workTypes.forEach(workType => {
+    workType.incomeSourceTemplates.forEach(template => {
+      knownSources.set(template.name.toLowerCase(), template.name);
+    });
+  });
+
+  return headers.map(header => {
+    const name = stripHeaderSuffix(header);
+    const normalized = name.toLowerCase();
+
+    const alias = FIELD_ALIASES.find(entry => entry.patterns.some(pattern => pattern.test(normalized)));
+    if (alias) {
+      return { field: alias.field };
+    }
+
+    const source = knownSources.get(normalized);
+    if (source || /\([A-Z]{3}\)\s*$/.test(header)) {
+      return { field: 'income', incomeSource: source || name };
+    }
+
+    return { field: 'ignore' };
+  });
+};
+
+/**
+ * Parse a date/time cell in the user's timezone. Accepts ISO dates ("2024-06-01 09:00"),
+ * full ISO timestamps with an offset, and slash dates ordered by the user's date format.
+ */
+export const parseImportDateTime = (value: string, dateFormat: string, timeZone: string): Date | null => {
+  const text = value.trim();
+  if (!text) return null;
+
+  // Timestamps with an explicit offset are already unambiguous
+  if (/\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})$/.test(text)) {
+    const date = new Date(text);
+    return isNaN(date.getTime()) ? null : date;
+  }
+
+  let year: number, month: number, day: number;
+  let timePart: string | undefined;
+
+  const isoMatch = text.match(/^(\d{4})-(\d{1,2})-(\d{1,2})(?:[ T](.*))?$/);
+  const slashMatch = text.match(/^(\d{1,2})[/.-](\d{1,2})[/.-](\d{2}|\d{4})(?:[ T](.*))?$/);
+
+  if (isoMatch) {
+    year = parseInt(isoMatch[1]);
+    month = parseInt(isoMatch[2]);
+    day = parseInt(isoMatch[3]);
+    timePart = isoMatch[4];
+  } else if (slashMatch) {
+    const first = parseInt(slashMatch[1]);
+    const second = parseInt(slashMatch[2]);
+    const monthFirst = dateFormat === 'MM/DD/YYYY';
+    month = monthFirst ? first : second;
+    day = monthFirst ? second : first;
+    year = parseInt(slashMatch[3]);
+    if (year < 100) year += 2000;
+    timePart = slashMatch[4];
+  } else {
+    return null;
+  }
+
+  let hour = 0;
+  let minute = 0;
+  if (timePart) {
+    const timeMatch = timePart.trim().match(/^(\d{1,2}):(\d{2})(?::\d{2})?\s*([ap]m)?$/i);
+    if (!timeMatch) return null;
+    hour = parseInt(timeMatch[1]);
+    minute = parseInt(timeMatch[2]);
+    const meridiem = timeMatch[3]?.toLowerCase();
+    if (meridiem) {
+      if (hour < 1 || hour > 12) return null;
+      hour = (hour % 12) + (meridiem === 'pm' ? 12 : 0);
+    }
+  }
+
+  const daysInMonth = new Date(Date.UTC(year, month, 0)).getUTCDate();
+  if (month < 1 || month > 12 || day < 1 || day > daysInMonth || hour > 23 || minute > 59) {
+    return null;
+  }
+
+  return createDateInTimezone(year, month, day, hour, minute, timeZone);
+};
+
+/**
+ * Parse a numeric cell, ignoring currency symbols and thousands separators.
+ * Returns undefined for empty cells and NaN for unparseable ones.
+ */
+export const parseImportNumber = (value: string): number | undefined => {
+  const text = value.trim();
+  if (!text) return undefined;
+
+  const cleaned = text.replace(/[^\d.-]/g, '');
+  if (!/^-?\d*\.?\d+$/.test(cleaned)) return NaN;
+  return parseFloat(cleaned);
+};
+
+/**
+ * Validate data rows against the column mapping and the active work type templates,
+ * producing a route payload for each valid row and a list of issues for each invalid one
+ */
+export const validateImportRows = (
+  rows: CsvRow[],
+  mapping: ColumnMapping[],
+  options: RouteImportOptions
+): ImportRowResult[] => {
+  const { workTypes, defaultWorkTypeId, timeZone, dateFormat, mileageUnit } = options;
+  const defaultWorkType = workTypes.find(workType => workType.id === defaultWorkTypeId);
+  const columnsFor = (field: RouteImportField) =>
+    mapping.map((column, index) => (column.field === field ? index : -1)).filter(index => index >= 0);
+  const firstColumn = (field: RouteImportField) => columnsFor(field)[0];
+
+  return rows.map(({ lineNumber, values }) => {
+    const errors: ImportIssue[] = [];
+    const cell = (index: number | undefined) => (index === undefined ? '' : (values[index] ?? '').trim());
+
+    // Schedule
+    const startText = cell(firstColumn('scheduleStart'));
+    const endText = cell(firstColumn('scheduleEnd'));
+    const scheduleStart = parseImportDateTime(startText, dateFormat, timeZone);
+    const scheduleEnd = parseImportDateTime(endText, dateFormat, timeZone);
+
+    if (!startText) {
+      errors.push({ key: 'missingScheduleStart' });
+    } else if (!scheduleStart) {
+      errors.push({ key: 'invalidDate', params: { value: startText } });
+    }
+    if (!endText) {
+      errors.push({ key: 'missingScheduleEnd' });
+    } else if (!scheduleEnd) {
+      errors.push({ key: 'invalidDate', params: { value: endText } });
+    }
+    if (scheduleStart && scheduleEnd && scheduleEnd <= scheduleStart) {
+      errors.push({ key: 'endBeforeStart' });
+    }
+
+    // Work type must be one of the active configurations
+    const workTypeText = cell(firstColumn('workType'));
+    const workType = workTypeText
+      ? workTypes.find(config => config.name.toLowerCase() === workTypeText.toLowerCase())
+      : defaultWorkType;
+    if (!workType) {
+      errors.push(workTypeText ? { key: 'unknownWorkType', params: { value: workTypeText } } : { key: 'missingWorkType' });
+    }
+
+    // Odometer readings are entered in the user's unit and stored in miles
+    const readMiles = (field: RouteImportField): number | undefined => {
+      const text = cell(firstColumn(field));
+      const value = parseImportNumber(text);
+      if (value === undefined) return undefined;
+      if (isNaN(value) || value < 0) {
+        errors.push({ key: 'invalidNumber', params: { value: text } });
+        return undefined;
+      }
+      return Math.round(convertDistance(value, mileageUnit, 'mi') * 100) / 100;
+    };
+    const startMile = readMiles('startMile');
+    const endMile = readMiles('endMile');
+    if (startMile !== undefined && endMile !== undefined && endMile < startMile) {
+      errors.push({ key: 'endMileBeforeStartMile' });
+    }
+
+    const estimatedText = cell(firstColumn('estimatedIncome'));
+    const estimatedIncome = parseImportNumber(estimatedText);
+    if (estimatedIncome !== undefined && (isNaN(estimatedIncome) || estimatedIncome < 0)) {
+      errors.push({ key: 'invalidNumber', params: { value: estimatedText } });
+    }
+
+    // Income sources must belong to the work type's templates (when it defines any)
+    const incomes: Array<{ source: string; amount: number }> = [];
+    columnsFor('income').forEach(index => {
+      const text = cell(index);
+      const amount = parseImportNumber(text);
+      if (amount === undefined || amount === 0) return;
+
+      const sourceName = mapping[index].incomeSource?.trim() || '';
+      if (isNaN(amount) || amount < 0) {
+        errors.push({ key: 'invalidAmount', params: { source: sourceName, value: text } });
+        return;
+      }
+
+      const templates = workType?.incomeSourceTemplates ?? [];
+      const template = templates.find(item => item.name.toLowerCase() === sourceName.toLowerCase());
+      if (workType && templates.length > 0 && !template) {
+        errors.push({ key: 'unknownIncomeSource', params: { source: sourceName, workType: workType.name } });
+        return;
+      }
+
+      incomes.push({ source: template?.name ?? sourceName, amount });
+    });
+
+    if (errors.length > 0 || !scheduleStart || !scheduleEnd || !workType) {
+      return { rowNumber: lineNumber, route: null, errors };
+    }
+
+    // Historic shifts are imported as completed, with the schedule as the actual time
+    const route: Partial<Route> = {
+      workType: workType.name,
+      workTypeId: workType.id,
+      status: 'completed',
+      scheduleStart,
+      scheduleEnd,
+      actualStartTime: scheduleStart,
+      actualEndTime: scheduleEnd,
+      startMile,
+      endMile,
+      estimatedIncome,
+      incomes,
+      totalIncome: incomes.reduce((sum, income) => sum + income.amount, 0),
+    };
+
+    return { rowNumber: lineNumber, route, errors };
+  });
+};
@@ -0,0 +1,193 @@
+import type { Route, RoutePage, RoutePageQuery } from '../types';
+import { buildQueuedRoute, createRoute, deleteRoute, getRoutePage, getRoutes, getRoutesByDateRange, getRoutesByStatus, updateRoute } from './api';
+import { isOfflineId } from './offlineOutbox';
+import { getQueryData, invalidateQueries, removeQueries, setQueriesData, setQueryData } from './queryCache';
+
+/**
+ * Cache keys for routes and the dashboard, and route mutations that keep them in step.
+ * Mutations patch every cached copy of a route before the request goes out and roll back if it fails,
+ * then refetch so lists pick up server-side changes such as recalculated totals.
+ */
+
+export interface RouteListQuery {
+  status?: string;
+  startDate?: string; // YYYY-MM-DD
+  endDate?: string;
+}
+
+export const routeKeys = {
+  all: ['routes'] as const,
+  lists: ['routes', 'list'] as const,
+  list: (query: RouteListQuery = {}) => ['routes', 'list', query] as const,
+  feeds: ['routes', 'feed'] as const,
+  feed: (query: RoutePageQuery) => ['routes', 'feed', query] as const,
+  detail: (id: string) => ['routes', 'detail', id] as const,
+};
+
+export const dashboardKeys = {
+  all: ['dashboard'] as const,
+  stats: ['dashboard', 'stats'] as const,
+  todaysRoutes: ['dashboard', 'todaysRoutes'] as const,
+  period: (period: string, offset: number, fiscalStartDate: string) => ['dashboard', 'period', period, offset, fiscalStartDate] as const,
+  range: (startDate: string, endDate: string) => ['dashboard', 'range', startDate, endDate] as const,
+};
+
+// Pages of the infinite route list, fetched as the user scrolls
+export interface RouteFeed {
+  routes: Route[];
+  nextCursor: string | null;
+  totalCount: number;
+  pageCount: number;
+}
+
+export const ROUTE_PAGE_SIZE = 50;
+const MAX_ROUTE_PAGE_SIZE = 200; // the API's limit
+
+// Optimistic routes stand in for a new route until the server returns it
+const PENDING_ID_PREFIX = 'pending-';
+
+// The API sends dates as strings; the pages work with Date objects
+export const withRouteDates = (route: Route): Route => ({
+  ...route,
+  scheduleStart: new Date(route.scheduleStart),
+  scheduleEnd: new Date(route.scheduleEnd),
+  actualStartTime: route.actualStartTime ? new Date(route.actualStartTime) : undefined,
+  actualEndTime: route.actualEndTime ? new Date(route.actualEndTime) : undefined,
+  createdAt: new Date(route.createdAt),
+  updatedAt: new Date(route.updatedAt),
+});
+
+export const fetchRouteList = async ({ status, startDate, endDate }: RouteListQuery = {}): Promise<Route[]> => {
+  const routes = status
+    ? await getRoutesByStatus(status)
+    : startDate && endDate
+      ? await getRoutesByDateRange(startDate, endDate)
+      : await getRoutes();
+  return routes.map(withRouteDates);
+};
+
+export const appendRoutePage = (feed: RouteFeed | undefined, page: RoutePage): RouteFeed => {
+  // A route edited while the user scrolls can move onto a later page; the copy already shown is kept
+  const shownIds = new Set(feed?.routes.map(route => route.id));
+  return {
+    routes: [...(feed?.routes ?? []), ...page.items.filter(route => !shownIds.has(route.id)).map(withRouteDates)],
+    nextCursor: page.nextCursor ?? null,
+    totalCount: page.totalCount ?? feed?.totalCount ?? 0,
+    pageCount: (feed?.pageCount ?? 0) + 1,
+  };
+};
+
+// A refetch reloads as many pages as were shown, so an invalidated list doesn't shrink under the user
+export const fetchRouteFeed = async (query: RoutePageQuery, pageCount: number = 1): Promise<RouteFeed> => {
+  let feed = appendRoutePage(undefined, await getRoutePage(query, undefined, ROUTE_PAGE_SIZE));
+  while (feed.nextCursor && feed.pageCount < pageCount) {
+    feed = appendRoutePage(feed, await getRoutePage(query, feed.nextCursor, ROUTE_PAGE_SIZE));
+  }
+  return feed;
+};
+
+/**
+ * Append the next page to the cached feed. The page is dropped if the feed was refetched from the start while it loaded.
+ */
+export const fetchNextRoutePage = async (query: RoutePageQuery): Promise<void> => {
+  const key = routeKeys.feed(query);
+  const cursor = getQueryData<RouteFeed>(key)?.nextCursor;
+  if (!cursor) return;
+
+  const page = await getRoutePage(query, cursor, ROUTE_PAGE_SIZE);
+  const feed = getQueryData<RouteFeed>(key);
+  if (feed?.nextCursor === cursor) {
+    setQueryData(key, appendRoutePage(feed, page));
+  }
+};
+
+// Every route matching the query, in its sort order, e.g. for an export
+export const fetchAllRoutes = async (query: RoutePageQuery): Promise<Route[]> => {
+  const routes: Route[] = [];
+  let cursor: string | undefined;
+  do {
+    const page = await getRoutePage(query, cursor, MAX_ROUTE_PAGE_SIZE);
+    routes.push(...page.items.map(withRouteDates));
+    cursor = page.nextCursor ?? undefined;
+  } while (cursor);
+  return routes;
+};
+
+// Dashboard figures are built from routes, so they go stale with every route change
+export const invalidateRouteQueries = () => {
+  invalidateQueries(routeKeys.all);
+  invalidateQueries(dashboardKeys.all);
+};
+
+// Lists are cached whole and as paged feeds; a feed's total follows the routes added or removed
+const patchRouteLists = (updateLists: (routes: Route[]) => Route[]) => {
+  const rollbacks = [
+    setQueriesData<Route[]>(routeKeys.lists, updateLists),
+    setQueriesData<RouteFeed>(routeKeys.feeds, feed => {
+      const routes = updateLists(feed.routes);
+      return { ...feed, routes, totalCount: Math.max(0, feed.totalCount + routes.length - feed.routes.length) };
+    }),
+  ];
+  return () => rollbacks.forEach(rollback => rollback());
+};
+
+const patchCachedRoutes = (updateLists: (routes: Route[]) => Route[], routeId?: string, updateDetail?: (route: Route) => Route) => {
+  const rollbacks = [patchRouteLists(updateLists)];
+  if (routeId && updateDetail) {
+    rollbacks.push(setQueriesData<Route>(routeKeys.detail(routeId), updateDetail));
+  }
+  return () => rollbacks.forEach(rollback => rollback());
+};
+
+export const createCachedRoute = async (routeData: Partial<Route>): Promise<Route> => {
+  const pendingId = `${PENDING_ID_PREFIX}${Date.now()}`;
+  const rollback = patchCachedRoutes(routes => [buildQueuedRoute(pendingId, routeData), ...routes]);
+
+  try {
+    const created = withRouteDates(await createRoute(routeData));
+    // Routes queued offline are listed from the outbox instead
+    patchRouteLists(routes => isOfflineId(created.id)
+      ? routes.filter(route => route.id !== pendingId)
+      : routes.map(route => route.id === pendingId ? created : route));
+    if (!isOfflineId(created.id)) {
+      setQueryData(routeKeys.detail(created.id), created);
+    }
+    return created;
+  } catch (error) {
+    rollback();
+    throw error;
+  } finally {
+    invalidateRouteQueries();
+  }
+};
+
+export const updateCachedRoute = async (routeId: string, routeData: Partial<Route>): Promise<Route> => {
+  const applyChanges = (route: Route): Route => route.id === routeId ? { ...route, ...routeData } : route;
+  const rollback = patchCachedRoutes(routes => routes.map(applyChanges), routeId, applyChanges);
+
+  try {
+    const updated = withRouteDates(await updateRoute(routeId, routeData));
+    patchRouteLists(routes => routes.map(route => route.id === routeId ? updated : route));
+    setQueryData(routeKeys.detail(routeId), updated);
+    return updated;
+  } catch (error) {
+    rollback();
+    throw error;
+  } finally {
+    invalidateRouteQueries();
+  }
+};
+
+export const deleteCachedRoute = async (routeId: string): Promise<void> => {
+  const rollback = patchCachedRoutes(routes => routes.filter(route => route.id !== routeId));
+
+  try {
+    await deleteRoute(routeId);
+    removeQueries(routeKeys.detail(routeId));
+  } catch (error) {
+    rollback();
+    throw error;
+  } finally {
+    invalidateRouteQueries();
+  }
+};
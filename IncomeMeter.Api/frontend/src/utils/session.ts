@@ -0,0 +1,172 @@
+import { isNetworkError } from './offlineOutbox';
+
+/**
+ * Web session handling for the API client.
+ * Access tokens are short-lived, so they are renewed from the refresh token - ahead of expiry where
+ * possible and after a 401 otherwise. The refresh token is an HttpOnly cookie the API sets and only the
+ * refresh endpoint receives, so it is never stored here. Concurrent callers share a single renewal. When renewal is refused
+ * the session is marked expired and requests wait for the user to sign in again rather than the page
+ * being thrown away with whatever was being typed into it.
+ */
+
+const ACCESS_TOKEN_KEY = 'accessToken';
+// Where earlier builds kept the refresh token; removed wherever a session is stored or cleared
+const LEGACY_REFRESH_TOKEN_KEY = 'refreshToken';
+
+// Window the session-expired prompt signs in through, so the page behind it keeps its state
+export const SIGN_IN_WINDOW_NAME = 'incomemeter-sign-in';
+
+// Renew this long before the access token runs out
+export const REFRESH_LEEWAY_MS = 2 * 60 * 1000;
+
+export type SessionStatus = 'active' | 'expired';
+
+export interface RenewedSession {
+  accessToken: string;
+}
+
+export type SessionRenewal = () => Promise<RenewedSession>;
+
+type SessionListener = (status: SessionStatus) => void;
+
+interface SignInWaiter {
+  resolve: (accessToken: string) => void;
+  reject: (error: Error) => void;
+}
+
+const listeners = new Set<SessionListener>();
+let status: SessionStatus = 'active';
+let activeRenewal: Promise<string> | null = null;
+let signInWaiters: SignInWaiter[] = [];
+
+const setStatus = (next: SessionStatus) => {
+  if (status === next) return;
+  status = next;
+  listeners.forEach(listener => listener(status));
+};
+
+export const getAccessToken = (): string | null => localStorage.getItem(ACCESS_TOKEN_KEY);
+
+export const storeSession = (accessToken: string) => {
+  localStorage.setItem(ACCESS_TOKEN_KEY, accessToken);
+  localStorage.removeItem(LEGACY_REFRESH_TOKEN_KEY);
+};
+
+export const clearSession = () => {
+  localStorage.removeItem(ACCESS_TOKEN_KEY);
+  localStorage.removeItem(LEGACY_REFRESH_TOKEN_KEY);
+};
+
+/**
+ * Expiry of a JWT in epoch milliseconds, or null when it can't be read
+ */
+export const getTokenExpiry = (token: string): number | null => {
+  try {
+    const payload = token.split('.')[1].replace(/-/g, '+').replace(/_/g, '/');
+    const { exp } = JSON.parse(atob(payload)) as { exp?: number };
+    return typeof exp === 'number' ? exp * 1000 : null;
+  } catch {
+    return null;
+  }
+};
+
+export const isTokenExpiring = (token: string, now: number = Date.now(), leeway: number = REFRESH_LEEWAY_MS): boolean => {
+  const expiry = getTokenExpiry(token);
+  return expiry !== null && expiry - now <= leeway;
+};
+
+export const getSessionStatus = (): SessionStatus => status;
+
+export const subscribeToSession = (listener: SessionListener): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+// Tabs share the stored access token and the refresh cookie and renew them at the same moment, so renewals
+// queue on this lock across tabs; otherwise the server's refresh token rotation would refuse every tab but the first
+const RENEWAL_LOCK_NAME = 'incomemeter-session-renewal';
+
+const withRenewalLock = <T>(task: () => Promise<T>): Promise<T> =>
+  typeof navigator !== 'undefined' && 'locks' in navigator
+    ? navigator.locks.request(RENEWAL_LOCK_NAME, task)
+    : task();
+
+/**
+ * Swap the refresh token for a new access token. Calls made while a renewal is in flight share it, and
+ * a token another tab renewed in the meantime is used as is. A refused renewal marks the session expired;
+ * a network failure leaves it alone so offline handling still sees a network error.
+ */
+export const renewSession = (renew: SessionRenewal): Promise<string> => {
+  if (activeRenewal) return activeRenewal;
+  if (status === 'expired') return Promise.reject(new Error('Session expired'));
+
+  const staleAccessToken = getAccessToken();
+  activeRenewal = withRenewalLock(async () => {
+    const storedAccessToken = getAccessToken();
+    if (storedAccessToken && storedAccessToken !== staleAccessToken) {
+      return storedAccessToken;
+    }
+
+    try {
+      const renewed = await renew();
+      storeSession(renewed.accessToken);
+      return renewed.accessToken;
+    } catch (error) {
+      // Refused because a tab without the lock rotated the token first - the session it stored is ours too
+      const rotatedAccessToken = getAccessToken();
+      if (rotatedAccessToken && rotatedAccessToken !== staleAccessToken) {
+        return rotatedAccessToken;
+      }
+      if (!isNetworkError(error)) {
+        setStatus('expired');
+      }
+      throw error;
+    }
+  }).finally(() => {
+    activeRenewal = null;
+  });
+
+  return activeRenewal;
+};
+
+/**
+ * Resolves with the new access token once the user has signed in again, here or in another tab
+ */
+export const waitForSignIn = (): Promise<string> => {
+  const accessToken = getAccessToken();
+  if (status === 'active' && accessToken) return Promise.resolve(accessToken);
+
+  return new Promise((resolve, reject) => {
+    signInWaiters.push({ resolve, reject });
+  });
+};
+
+export const completeSignIn = (accessToken: string) => {
+  storeSession(accessToken);
+  const waiters = signInWaiters;
+  signInWaiters = [];
+  setStatus('active');
+  waiters.forEach(waiter => waiter.resolve(accessToken));
+};
+
+/**
+ * Give up on the expired session: waiting requests fail and the stored tokens are dropped
+ */
+export const abandonSession = () => {
+  const waiters = signInWaiters;
+  signInWaiters = [];
+  clearSession();
+  setStatus('active');
+  waiters.forEach(waiter => waiter.reject(new Error('Session expired')));
+};
+
+/**
+ * Pick up a sign-in completed in another tab or the sign-in popup, which share localStorage
+ */
+export const handleSessionStorageEvent = (event: Pick<StorageEvent, 'key' | 'newValue'>) => {
+  if (event.key === ACCESS_TOKEN_KEY && event.newValue && status === 'expired') {
+    completeSignIn(event.newValue);
+  }
+};
@@ -0,0 +1,130 @@
+import type { ExpenseCategory, Route } from '../types';
+
+/**
+ * Tax Summary Utilities
+ * Aggregates a fiscal year of routes into the figures needed for the self-employment pages
+ */
+
+// HMRC simplified expenses for cars and goods vehicles: 45p for the first 10,000 business miles, 25p after
+export const HMRC_MILEAGE_RATES = {
+  thresholdMiles: 10000,
+  firstTierRate: 0.45,
+  secondTierRate: 0.25,
+};
+
+// Running costs the mileage rate already covers, so they can't be claimed on top of it
+export const VEHICLE_COST_CATEGORIES: ExpenseCategory[] = ['fuel', 'maintenance'];
+
+export interface MileageAllowance {
+  totalMiles: number;
+  firstTierMiles: number;
+  secondTierMiles: number;
+  firstTierAmount: number;
+  secondTierAmount: number;
+  totalAllowance: number;
+}
+
+export interface TaxSummaryLine {
+  name: string;
+  income: number;
+  routes: number;
+  miles: number;
+}
+
+export interface TaxSummary {
+  grossIncome: number;
+  totalRoutes: number;
+  incomeBySource: TaxSummaryLine[];
+  incomeByWorkType: TaxSummaryLine[];
+  mileageAllowance: MileageAllowance;
+  allowableExpenses: number;  // recorded expenses other than vehicle running costs
+  vehicleExpenses: number;    // fuel and maintenance, left out in favour of the mileage allowance
+  netProfit: number;
+}
+
+const roundCurrency = (amount: number): number => Math.round(amount * 100) / 100;
+
+/**
+ * Calculate the HMRC simplified mileage allowance for a tax year's business miles
+ */
+export const calculateMileageAllowance = (totalMiles: number): MileageAllowance => {
+  const { thresholdMiles, firstTierRate, secondTierRate } = HMRC_MILEAGE_RATES;
+  const miles = Math.max(0, totalMiles);
+  const firstTierMiles = Math.min(miles, thresholdMiles);
+  const secondTierMiles = Math.max(0, miles - thresholdMiles);
+  const firstTierAmount = roundCurrency(firstTierMiles * firstTierRate);
+  const secondTierAmount = roundCurrency(secondTierMiles * secondTierRate);
+
+  return {
+    totalMiles: miles,
+    firstTierMiles,
+    secondTierMiles,
+    firstTierAmount,
+    secondTierAmount,
+    totalAllowance: roundCurrency(firstTierAmount + secondTierAmount),
+  };
+};
+
+const toSortedLines = (lines: Map<string, TaxSummaryLine>): TaxSummaryLine[] =>
+  Array.from(lines.values())
+    .map(line => ({ ...line, income: roundCurrency(line.income), miles: roundCurrency(line.miles) }))
+    .sort((a, b) => b.income - a.income);
+
+/**
+ * Build the tax summary for completed routes and the expenses recorded in the same period. Route
+ * distances are odometer miles, unless mileage reconciliation recorded the GPS trail as the route's
+ * tax mileage.
+ */
+export const buildTaxSummary = (
+  routes: Route[],
+  expenses: Array<{ category: ExpenseCategory; amount: number }> = []
+): TaxSummary => {
+  const completedRoutes = routes.filter(route => route.status === 'completed');
+  const bySource = new Map<string, TaxSummaryLine>();
+  const byWorkType = new Map<string, TaxSummaryLine>();
+  let grossIncome = 0;
+  let totalMiles = 0;
+
+  completedRoutes.forEach(route => {
+    const routeIncome = route.incomes.reduce((sum, income) => sum + income.amount, 0);
+    // An odometer decision keeps following the readings, in case they are corrected afterwards
+    const routeMiles = route.mileageSource === 'gps' && typeof route.taxMiles === 'number' ? route.taxMiles : route.distance || 0;
+    grossIncome += routeIncome;
+    totalMiles += routeMiles;
+
+    const workTypeName = route.workType || 'Other';
+    const workTypeLine = byWorkType.get(workTypeName) ?? { name: workTypeName, income: 0, routes: 0, miles: 0 };
+    workTypeLine.income += routeIncome;
+    workTypeLine.routes += 1;
+    workTypeLine.miles += routeMiles;
+    byWorkType.set(workTypeName, workTypeLine);
+
+    const sourcesInRoute = new Set<string>();
+    route.incomes.forEach(income => {
+      const sourceLine = bySource.get(income.source) ?? { name: income.source, income: 0, routes: 0, miles: 0 };
+      sourceLine.income += income.amount;
+      if (!sourcesInRoute.has(income.source)) {
+        sourceLine.routes += 1;
+        sourcesInRoute.add(income.source);
+      }
+      bySource.set(income.source, sourceLine);
+    });
+  });
+
+  const mileageAllowance = calculateMileageAllowance(roundCurrency(totalMiles));
+  const vehicleExpenses = expenses
+    .filter(expense => VEHICLE_COST_CATEGORIES.includes(expense.category))
+    .reduce((sum, expense) => sum + expense.amount, 0);
+  const allowableExpenses = expenses.reduce((sum, expense) => sum + expense.amount, 0) - vehicleExpenses;
+
+  return {
+    grossIncome: roundCurrency(grossIncome),
+    totalRoutes: completedRoutes.length,
+    incomeBySource: toSortedLines(bySource),
+    incomeByWorkType: toSortedLines(byWorkType),
+    mileageAllowance,
+    allowableExpenses: roundCurrency(allowableExpenses),
+    vehicleExpenses: roundCurrency(vehicleExpenses),
+    netProfit: roundCurrency(grossIncome - mileageAllowance.totalAllowance - allowableExpenses),
+  };
+};
@@ -1,4 +1,19 @@
-export const getDateRangeFromSelection = (selection: string): { start: Date; end: Date } | null => {
+export interface CustomDateRange {
+  from: string; // YYYY-MM-DD, inclusive
+  to: string;   // YYYY-MM-DD, inclusive
+}
+
+// Parse a YYYY-MM-DD input value as a local calendar date
+const parseDateInput = (value: string): Date | null => {
+  const [year, month, day] = value.split('-').map(Number);
+  if (!year || !month || !day) return null;
+  return new Date(year, month - 1, day);
+};
+
+export const getDateRangeFromSelection = (
+  selection: string,
+  customRange?: CustomDateRange
+): { start: Date; end: Date } | null => {
   const now = new Date();
   const endOfToday = new Date(now.getFullYear(), now.getMonth(), now.getDate(), 23, 59, 59, 999);
   
@@ -23,6 +38,13 @@ export const getDateRangeFromSelection = (selection: string): { start: Date; end
       start.setHours(0, 0, 0, 0);
       return { start, end: endOfToday };
     }
+    case 'custom': {
+      const start = customRange ? parseDateInput(customRange.from) : null;
+      const end = customRange ? parseDateInput(customRange.to) : null;
+      if (!start || !end || end < start) return null;
+      end.setHours(23, 59, 59, 999);
+      return { start, end };
+    }
     default:
       return null;
   }
@@ -285,6 +285,31 @@ export const getTimezoneOffset = (timezone: string): number => {
   }
 };
 
+/**
+ * Gets the UTC offset in minutes (east of UTC positive) of a timezone at a given moment,
+ * so daylight saving is taken into account
+ */
+export const getTimezoneOffsetAt = (date: Date, timezone: string): number => {
+  try {
+    const parts = new Intl.DateTimeFormat('en-US', {
+      timeZone: timezone,
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric',
+      hourCycle: 'h23',
+    }).formatToParts(date);
+    const get = (type: Intl.DateTimeFormatPartTypes) => parseInt(parts.find(part => part.type === type)?.value ?? '0', 10);
+    const wallClock = Date.UTC(get('year'), get('month') - 1, get('day'), get('hour'), get('minute'), get('second'));
+
+    return Math.round((wallClock - Math.floor(date.getTime() / 1000) * 1000) / 60000);
+  } catch {
+    return 0;
+  }
+};
+
 /**
  * Compares if two timezones are the same (handles aliases)
  */
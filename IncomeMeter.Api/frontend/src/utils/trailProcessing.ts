@@ -0,0 +1,208 @@
+import type { Location } from '../types';
+import { haversineDistanceKm } from './distance';
+import { getTrackedDistanceKm } from './liveTracker';
+
+/**
+ * GPS Trail Cleanup
+ * Drops noisy fixes from a route's location trail, optionally smooths what is left, and recomputes
+ * the distance so it can be compared with the per-point distances stored when the points were posted
+ */
+
+const OPTIONS_KEY = 'trailCleanup:options';
+const METERS_PER_DEGREE_LAT = 111_320;
+const MIN_KALMAN_ACCURACY_METERS = 1;
+
+export type TrailPoint = Pick<Location, 'latitude' | 'longitude' | 'timestamp' | 'accuracy'>;
+
+export type RejectionReason = 'inaccurate' | 'impossibleSpeed';
+
+export interface TrailCleanupOptions {
+  enabled: boolean;
+  maxAccuracyMeters: number;      // fixes reported less accurate than this are dropped
+  maxSpeedKmh: number;            // a jump from the last kept point faster than this is a bad fix
+  kalman: boolean;                // pull each fix towards the running estimate, weighted by its accuracy
+  kalmanSpeedMps: number;         // how far the true position is expected to drift per second
+  simplify: boolean;              // Douglas-Peucker: remove points that add no shape to the line
+  simplifyToleranceMeters: number;
+}
+
+export const DEFAULT_TRAIL_CLEANUP: TrailCleanupOptions = {
+  enabled: false,
+  maxAccuracyMeters: 50,
+  maxSpeedKmh: 160,
+  kalman: false,
+  kalmanSpeedMps: 3,
+  simplify: false,
+  simplifyToleranceMeters: 10,
+};
+
+export interface RejectedPoint<T extends TrailPoint> {
+  point: T;
+  reason: RejectionReason;
+}
+
+export interface ProcessedTrail<T extends TrailPoint> {
+  points: T[];                    // kept points in time order, with smoothed coordinates when enabled
+  rejected: RejectedPoint<T>[];
+  simplifiedCount: number;        // kept points removed by simplification
+  rawDistanceKm: number;          // what the stored per-point distances add up to
+  cleanedDistanceKm: number;      // haversine along the processed points
+}
+
+const timeOf = (point: TrailPoint): number => new Date(point.timestamp).getTime();
+
+const sortByTime = <T extends TrailPoint>(points: T[]): T[] => [...points].sort((a, b) => timeOf(a) - timeOf(b));
+
+/**
+ * Haversine length of a trail in the given order, in km
+ */
+export const getTrailDistanceKm = (points: TrailPoint[]): number =>
+  points.reduce((total, point, index) => (index === 0 ? total : total + haversineDistanceKm(points[index - 1], point)), 0);
+
+/**
+ * Drops fixes that are too inaccurate, then fixes that could only be reached from the last kept
+ * point at an impossible speed
+ */
+export const rejectOutliers = <T extends TrailPoint>(
+  points: T[],
+  options: Pick<TrailCleanupOptions, 'maxAccuracyMeters' | 'maxSpeedKmh'>
+): { kept: T[]; rejected: RejectedPoint<T>[] } => {
+  const kept: T[] = [];
+  const rejected: RejectedPoint<T>[] = [];
+
+  for (const point of sortByTime(points)) {
+    if (point.accuracy !== null && point.accuracy !== undefined && point.accuracy > options.maxAccuracyMeters) {
+      rejected.push({ point, reason: 'inaccurate' });
+      continue;
+    }
+
+    const previous = kept[kept.length - 1];
+    if (previous) {
+      const distanceKm = haversineDistanceKm(previous, point);
+      const hours = (timeOf(point) - timeOf(previous)) / 3_600_000;
+      const speedKmh = hours > 0 ? distanceKm / hours : distanceKm > 0 ? Infinity : 0;
+      if (speedKmh > options.maxSpeedKmh) {
+        rejected.push({ point, reason: 'impossibleSpeed' });
+        continue;
+      }
+    }
+
+    kept.push(point);
+  }
+
+  return { kept, rejected };
+};
+
+/**
+ * One-dimensional Kalman filter applied to latitude and longitude, with each fix's reported
+ * accuracy as its measurement error and uncertainty growing with the time since the last fix
+ */
+export const kalmanSmooth = <T extends TrailPoint>(points: T[], speedMps: number = DEFAULT_TRAIL_CLEANUP.kalmanSpeedMps): T[] => {
+  let variance = -1; // square metres; negative until the first fix
+  let latitude = 0;
+  let longitude = 0;
+  let lastTime = 0;
+
+  return points.map(point => {
+    const accuracy = Math.max(point.accuracy ?? MIN_KALMAN_ACCURACY_METERS, MIN_KALMAN_ACCURACY_METERS);
+
+    if (variance < 0) {
+      variance = accuracy * accuracy;
+      latitude = point.latitude;
+      longitude = point.longitude;
+    } else {
+      const elapsedSeconds = (timeOf(point) - lastTime) / 1000;
+      if (elapsedSeconds > 0) {
+        variance += elapsedSeconds * speedMps * speedMps;
+      }
+      const gain = variance / (variance + accuracy * accuracy);
+      latitude += gain * (point.latitude - latitude);
+      longitude += gain * (point.longitude - longitude);
+      variance = (1 - gain) * variance;
+    }
+
+    lastTime = timeOf(point);
+    return { ...point, latitude: Number(latitude.toFixed(6)), longitude: Number(longitude.toFixed(6)) };
+  });
+};
+
+// Distance from p to the segment a-b in metres, on a flat projection around a - fine at trail scale
+const perpendicularDistanceMeters = (p: TrailPoint, a: TrailPoint, b: TrailPoint): number => {
+  const metersPerDegreeLng = METERS_PER_DEGREE_LAT * Math.cos(a.latitude * Math.PI / 180);
+  const toXY = (point: TrailPoint) => ({
+    x: (point.longitude - a.longitude) * metersPerDegreeLng,
+    y: (point.latitude - a.latitude) * METERS_PER_DEGREE_LAT,
+  });
+  const point = toXY(p);
+  const end = toXY(b);
+  const lengthSquared = end.x * end.x + end.y * end.y;
+  if (lengthSquared === 0) return Math.hypot(point.x, point.y);
+
+  const t = Math.max(0, Math.min(1, (point.x * end.x + point.y * end.y) / lengthSquared));
+  return Math.hypot(point.x - t * end.x, point.y - t * end.y);
+};
+
+/**
+ * Douglas-Peucker line simplification, keeping the first and last points
+ */
+export const simplifyTrail = <T extends TrailPoint>(points: T[], toleranceMeters: number = DEFAULT_TRAIL_CLEANUP.simplifyToleranceMeters): T[] => {
+  if (points.length < 3) return points;
+
+  const keep = new Array<boolean>(points.length).fill(false);
+  keep[0] = true;
+  keep[points.length - 1] = true;
+
+  // Iterative rather than recursive so a long shift's trail can't overflow the stack
+  const stack: [number, number][] = [[0, points.length - 1]];
+  while (stack.length > 0) {
+    const [start, end] = stack.pop()!;
+    let furthest = -1;
+    let furthestDistance = 0;
+    for (let i = start + 1; i < end; i++) {
+      const distance = perpendicularDistanceMeters(points[i], points[start], points[end]);
+      if (distance > furthestDistance) {
+        furthest = i;
+        furthestDistance = distance;
+      }
+    }
+    if (furthest >= 0 && furthestDistance > toleranceMeters) {
+      keep[furthest] = true;
+      stack.push([start, furthest], [furthest, end]);
+    }
+  }
+
+  return points.filter((_, index) => keep[index]);
+};
+
+/**
+ * Runs the enabled cleanup steps over a trail and works out the distance before and after
+ */
+export const processTrail = <T extends TrailPoint & Pick<Location, 'distanceFromLastKm'>>(
+  locations: T[],
+  options: TrailCleanupOptions = DEFAULT_TRAIL_CLEANUP
+): ProcessedTrail<T> => {
+  const { kept, rejected } = rejectOutliers(locations, options);
+  const smoothed = options.kalman ? kalmanSmooth(kept, options.kalmanSpeedMps) : kept;
+  const points = options.simplify ? simplifyTrail(smoothed, options.simplifyToleranceMeters) : smoothed;
+
+  return {
+    points,
+    rejected,
+    simplifiedCount: smoothed.length - points.length,
+    rawDistanceKm: getTrackedDistanceKm(locations),
+    cleanedDistanceKm: getTrailDistanceKm(points),
+  };
+};
+
+export const loadTrailCleanupOptions = (): TrailCleanupOptions => {
+  try {
+    const stored = localStorage.getItem(OPTIONS_KEY);
+    return stored ? { ...DEFAULT_TRAIL_CLEANUP, ...JSON.parse(stored) as Partial<TrailCleanupOptions> } : DEFAULT_TRAIL_CLEANUP;
+  } catch {
+    return DEFAULT_TRAIL_CLEANUP;
+  }
+};
+
+export const saveTrailCleanupOptions = (options: TrailCleanupOptions): void => {
+  localStorage.setItem(OPTIONS_KEY, JSON.stringify(options));
+};
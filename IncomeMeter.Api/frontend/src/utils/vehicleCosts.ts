@@ -0,0 +1,93 @@
+import type { PeriodIncomeData, VehicleCostModel } from '../types';
+
+/**
+ * Vehicle Cost Utilities
+ * Turns the cost-per-mile model from settings into effective hourly rates per work type and income source,
+ * after route expenses and the running cost of the miles driven
+ */
+
+const LITRES_PER_GALLON = 4.54609; // imperial, as quoted in UK MPG figures
+
+export interface EffectiveRate {
+  name: string;
+  income: number;
+  expenses: number;
+  hours: number;
+  miles: number;
+  vehicleCost: number;
+  netIncome: number;      // income less expenses and vehicle cost
+  grossHourlyRate: number;
+  netHourlyRate: number;
+}
+
+type IncomeBySource = PeriodIncomeData['incomeBySource'];
+
+const roundCurrency = (amount: number): number => Math.round(amount * 100) / 100;
+
+export const isVehicleCostModelSet = (model: VehicleCostModel | undefined): model is VehicleCostModel =>
+  !!model && (model.fuelPricePerLitre > 0 && model.milesPerGallon > 0 || model.depreciationPerMile > 0);
+
+export const getFuelCostPerMile = (model: VehicleCostModel): number =>
+  model.milesPerGallon > 0 ? model.fuelPricePerLitre * LITRES_PER_GALLON / model.milesPerGallon : 0;
+
+export const getCostPerMile = (model: VehicleCostModel | undefined): number =>
+  model ? getFuelCostPerMile(model) + Math.max(0, model.depreciationPerMile || 0) : 0;
+
+const createRate = (name: string, income: number, expenses: number, hours: number, miles: number, costPerMile: number): EffectiveRate => {
+  const vehicleCost = miles * costPerMile;
+  const netIncome = income - expenses - vehicleCost;
+  return {
+    name,
+    income: roundCurrency(income),
+    expenses: roundCurrency(expenses),
+    hours,
+    miles,
+    vehicleCost: roundCurrency(vehicleCost),
+    netIncome: roundCurrency(netIncome),
+    grossHourlyRate: hours > 0 ? roundCurrency(income / hours) : 0,
+    netHourlyRate: hours > 0 ? roundCurrency(netIncome / hours) : 0,
+  };
+};
+
+const byNetHourlyRate = (a: EffectiveRate, b: EffectiveRate) => b.netHourlyRate - a.netHourlyRate || b.income - a.income;
+
+export const getWorkTypeRates = (incomeBySource: IncomeBySource, costPerMile: number): EffectiveRate[] =>
+  Object.entries(incomeBySource)
+    .map(([workType, stats]) => createRate(
+      workType,
+      stats.income || 0,
+      stats.expenses || 0,
+      stats.totalWorkingHours || 0,
+      stats.totalMileage || 0,
+      costPerMile
+    ))
+    .sort(byNetHourlyRate);
+
+/**
+ * Income sources have no hours or miles of their own, so each takes a share of its work type's hours,
+ * miles and expenses in proportion to the income it brought in; a source used across several work types
+ * sums its shares from each
+ */
+export const getIncomeSourceRates = (incomeBySource: IncomeBySource, costPerMile: number): EffectiveRate[] => {
+  const totals = new Map<string, { income: number; expenses: number; hours: number; miles: number }>();
+
+  Object.values(incomeBySource).forEach(stats => {
+    const sources = Object.entries(stats.incomeBySource ?? {});
+    const sourceIncome = sources.reduce((sum, [, amount]) => sum + amount, 0);
+    if (sourceIncome <= 0) return;
+
+    sources.forEach(([source, amount]) => {
+      const share = amount / sourceIncome;
+      const total = totals.get(source) ?? { income: 0, expenses: 0, hours: 0, miles: 0 };
+      total.income += amount;
+      total.expenses += (stats.expenses || 0) * share;
+      total.hours += (stats.totalWorkingHours || 0) * share;
+      total.miles += (stats.totalMileage || 0) * share;
+      totals.set(source, total);
+    });
+  });
+
+  return Array.from(totals.entries())
+    .map(([source, total]) => createRate(source, total.income, total.expenses, total.hours, total.miles, costPerMile))
+    .sort(byNetHourlyRate);
+};
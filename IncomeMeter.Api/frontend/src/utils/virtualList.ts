@@ -0,0 +1,48 @@
+/**
+ * Which rows of a long list to render for the current scroll position. Rows above and below the
+ * window are replaced by padding of the same height, so the scrollbar still reflects the whole list.
+ */
+
+export interface VirtualWindowOptions {
+  itemCount: number;
+  getItemHeight: (index: number) => number; // measured height, or an estimate for rows not rendered yet
+  scrollOffset: number;   // distance from the top of the list to the top of the viewport, negative while the list is below it
+  viewportHeight: number;
+  overscan?: number;      // rows rendered beyond each edge so fast scrolling doesn't show blank space
+}
+
+export interface VirtualWindow {
+  start: number;          // first row to render
+  end: number;            // one past the last row to render
+  paddingTop: number;
+  paddingBottom: number;
+}
+
+const sumHeights = (heights: number[]) => heights.reduce((sum, height) => sum + height, 0);
+
+export const getVirtualWindow = ({ itemCount, getItemHeight, scrollOffset, viewportHeight, overscan = 5 }: VirtualWindowOptions): VirtualWindow => {
+  const heights = Array.from({ length: itemCount }, (_, index) => getItemHeight(index));
+
+  let firstVisible = 0;
+  let top = 0;
+  while (firstVisible < itemCount && top + heights[firstVisible] <= scrollOffset) {
+    top += heights[firstVisible];
+    firstVisible++;
+  }
+
+  let endVisible = firstVisible;
+  let bottom = top;
+  while (endVisible < itemCount && bottom < scrollOffset + viewportHeight) {
+    bottom += heights[endVisible];
+    endVisible++;
+  }
+
+  const start = Math.max(0, firstVisible - overscan);
+  const end = Math.min(itemCount, endVisible + overscan);
+  return {
+    start,
+    end,
+    paddingTop: sumHeights(heights.slice(0, start)),
+    paddingBottom: sumHeights(heights.slice(end)),
+  };
+};
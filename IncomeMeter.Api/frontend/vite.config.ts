@@ -1,4 +1,4 @@
-import { defineConfig } from 'vite'
+import { defineConfig, searchForWorkspaceRoot } from 'vite'
 import react from '@vitejs/plugin-react'
 
 // https://vite.dev/config/
@@ -14,6 +14,10 @@ export default defineConfig({
     watch: {
       usePolling: true,
       interval: 1000
+    },
+    fs: {
+      // The shared API client is linked from outside the frontend folder
+      allow: [searchForWorkspaceRoot(process.cwd()), '../../shared/api-client']
     }
   },
   build: {
@@ -1,3 +1,4 @@
+const path = require('path');
 const { getDefaultConfig, mergeConfig } = require('@react-native/metro-config');
 
 /**
@@ -6,6 +7,9 @@ const { getDefaultConfig, mergeConfig } = require('@react-native/metro-config');
  *
  * @type {import('@react-native/metro-config').MetroConfig}
  */
-const config = {};
+const config = {
+  // The shared API client is linked from outside the app folder
+  watchFolders: [path.resolve(__dirname, '../shared/api-client')],
+};
 
 module.exports = mergeConfig(getDefaultConfig(__dirname), config);
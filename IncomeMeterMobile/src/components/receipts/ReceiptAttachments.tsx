@@ -0,0 +1,268 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  View,
+  Text,
+  Image,
+  Modal,
+  TouchableOpacity,
+  ScrollView,
+  StyleSheet,
+  Alert,
+  ImageURISource,
+} from 'react-native';
+import { COLORS, TYPOGRAPHY, RECEIPT_CONFIG, ACCESSIBILITY_CONFIG } from '../../constants/config';
+import { getApiClient } from '../../services/api/client';
+import { captureReceiptPhoto, ReceiptSource } from '../../services/media/ReceiptCapture';
+import { Attachment, IncomeItem } from '../../types';
+import { AccessibleButton } from '../UI';
+
+interface ReceiptAttachmentsProps {
+  routeId: string;
+  incomes: Pick<IncomeItem, 'source'>[];
+  testID?: string;
+}
+
+// Authenticated image source - Image sends the bearer header with the request
+const useAttachmentSource = (attachmentId: string | null, size: 'thumbnail' | 'content') => {
+  const [source, setSource] = useState<ImageURISource | null>(null);
+
+  useEffect(() => {
+    if (!attachmentId) {
+      setSource(null);
+      return;
+    }
+
+    let cancelled = false;
+    getApiClient()
+      .getAttachmentImageSource(attachmentId, size)
+      .then(imageSource => !cancelled && setSource(imageSource));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [attachmentId, size]);
+
+  return source;
+};
+
+const Thumbnail: React.FC<{
+  attachment: Attachment;
+  onOpen: () => void;
+  onDelete: () => void;
+}> = ({ attachment, onOpen, onDelete }) => {
+  const source = useAttachmentSource(attachment.id, 'thumbnail');
+
+  return (
+    <TouchableOpacity
+      onPress={onOpen}
+      onLongPress={onDelete}
+      style={styles.thumbnail}
+      accessibilityRole="imagebutton"
+      accessibilityLabel={attachment.incomeSource ? `Receipt for ${attachment.incomeSource}` : 'Route receipt'}
+      accessibilityHint="Opens the full-size photo. Long press to delete."
+    >
+      {source && <Image source={source} style={styles.thumbnailImage} resizeMode="cover" />}
+    </TouchableOpacity>
+  );
+};
+
+/**
+ * Receipt and pay-slip photos for a route. Photos are compressed on the device before upload.
+ */
+const ReceiptAttachments: React.FC<ReceiptAttachmentsProps> = ({ routeId, incomes, testID }) => {
+  const [attachments, setAttachments] = useState<Attachment[]>([]);
+  const [incomeSource, setIncomeSource] = useState<string | undefined>(undefined);
+  const [uploading, setUploading] = useState(false);
+  const [viewing, setViewing] = useState<Attachment | null>(null);
+  const fullSizeSource = useAttachmentSource(viewing?.id ?? null, 'content');
+
+  const loadAttachments = useCallback(async () => {
+    try {
+      setAttachments(await getApiClient().getAttachmentsByRoute(routeId));
+    } catch (error) {
+      console.error('Error loading attachments:', error);
+    }
+  }, [routeId]);
+
+  useEffect(() => {
+    loadAttachments();
+  }, [loadAttachments]);
+
+  const handleAdd = async (source: ReceiptSource) => {
+    try {
+      const photo = await captureReceiptPhoto(source);
+      if (!photo) return;
+
+      setUploading(true);
+      const attachment = await getApiClient().uploadAttachment(routeId, photo, { incomeSource });
+      setAttachments(prev => [...prev, attachment]);
+    } catch (error) {
+      console.error('Error uploading receipt:', error);
+      Alert.alert('Upload Failed', 'The photo could not be uploaded. Please try again.');
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  const handleDelete = (attachment: Attachment) => {
+    Alert.alert('Delete Photo', 'Delete this photo?', [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Delete',
+        style: 'destructive',
+        onPress: async () => {
+          try {
+            await getApiClient().deleteAttachment(attachment.id);
+            setAttachments(prev => prev.filter(item => item.id !== attachment.id));
+          } catch (error) {
+            console.error('Error deleting receipt:', error);
+          }
+        },
+      },
+    ]);
+  };
+
+  return (
+    <View style={styles.container} testID={testID}>
+      <Text style={styles.title} accessibilityRole="header">Receipts & Pay Slips</Text>
+
+      {/* Which income item the next photo belongs to */}
+      <ScrollView horizontal showsHorizontalScrollIndicator={false} style={styles.targets}>
+        {[undefined, ...incomes.map(income => income.source)].map(source => (
+          <TouchableOpacity
+            key={source ?? 'route'}
+            onPress={() => setIncomeSource(source)}
+            style={[styles.target, incomeSource === source && styles.targetSelected]}
+            accessibilityRole="radio"
+            accessibilityState={{ selected: incomeSource === source }}
+          >
+            <Text style={[styles.targetText, incomeSource === source && styles.targetTextSelected]}>
+              {source ?? 'Whole route'}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </ScrollView>
+
+      <View style={styles.actions}>
+        <AccessibleButton
+          title="Take Photo"
+          onPress={() => handleAdd('camera')}
+          loading={uploading}
+          disabled={uploading}
+          size="small"
+          style={styles.actionButton}
+          accessibilityHint="Opens the camera to photograph a receipt"
+        />
+        <AccessibleButton
+          title="Choose Photo"
+          onPress={() => handleAdd('library')}
+          disabled={uploading}
+          variant="secondary"
+          size="small"
+          style={styles.actionButton}
+          accessibilityHint="Picks an existing photo from your library"
+        />
+      </View>
+
+      {attachments.length === 0 ? (
+        <Text style={styles.emptyText}>No photos attached yet</Text>
+      ) : (
+        <View style={styles.grid}>
+          {attachments.map(attachment => (
+            <Thumbnail
+              key={attachment.id}
+              attachment={attachment}
+              onOpen={() => setViewing(attachment)}
+              onDelete={() => handleDelete(attachment)}
+            />
+          ))}
+        </View>
+      )}
+
+      <Modal visible={viewing !== null} transparent animationType="fade" onRequestClose={() => setViewing(null)}>
+        <View style={styles.viewer}>
+          {fullSizeSource && <Image source={fullSizeSource} style={styles.viewerImage} resizeMode="contain" />}
+          <AccessibleButton title="Close" onPress={() => setViewing(null)} variant="secondary" style={styles.viewerClose} />
+        </View>
+      </Modal>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    paddingVertical: 12,
+  },
+  title: {
+    fontSize: TYPOGRAPHY.heading,
+    fontWeight: TYPOGRAPHY.fontWeight.semibold as '600',
+    color: COLORS.primary.text,
+    marginBottom: 12,
+  },
+  targets: {
+    marginBottom: 12,
+  },
+  target: {
+    minHeight: ACCESSIBILITY_CONFIG.minimumTouchTarget,
+    justifyContent: 'center',
+    paddingHorizontal: 14,
+    marginRight: 8,
+    borderRadius: 22,
+    borderWidth: 1,
+    borderColor: '#d1d5db',
+  },
+  targetSelected: {
+    backgroundColor: '#2563eb',
+    borderColor: '#2563eb',
+  },
+  targetText: {
+    fontSize: TYPOGRAPHY.small,
+    color: COLORS.primary.text,
+  },
+  targetTextSelected: {
+    color: '#ffffff',
+  },
+  actions: {
+    flexDirection: 'row',
+    marginBottom: 12,
+  },
+  actionButton: {
+    flex: 1,
+    marginRight: 8,
+  },
+  emptyText: {
+    fontSize: TYPOGRAPHY.small,
+    color: '#6b7280',
+  },
+  grid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+  },
+  thumbnail: {
+    width: RECEIPT_CONFIG.thumbnailSize,
+    height: RECEIPT_CONFIG.thumbnailSize,
+    marginRight: 8,
+    marginBottom: 8,
+    borderRadius: 8,
+    overflow: 'hidden',
+    backgroundColor: '#f3f4f6',
+  },
+  thumbnailImage: {
+    width: '100%',
+    height: '100%',
+  },
+  viewer: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.9)',
+    justifyContent: 'center',
+    padding: 16,
+  },
+  viewerImage: {
+    flex: 1,
+  },
+  viewerClose: {
+    marginTop: 16,
+  },
+});
+
+export default ReceiptAttachments;
@@ -0,0 +1 @@
+export { default as ReceiptAttachments } from './ReceiptAttachments';
@@ -22,6 +22,12 @@ export const LOCATION_CONFIG = {
   maxWaitTime: 30000,    // 30 seconds
 };
 
+export const RECEIPT_CONFIG = {
+  maxDimension: 1600, // px, longest side after on-device compression
+  quality: 0.7,       // JPEG quality, 0-1 in steps of 0.1
+  thumbnailSize: 96,  // px, shown in attachment lists
+};
+
 export const STORAGE_CONFIG = {
   databaseName: 'IncomeMeterMobile.db',
   databaseVersion: 1,
@@ -1,28 +1,34 @@
 import axios, { AxiosInstance, AxiosRequestConfig, AxiosResponse } from 'axios';
+import { createApiClient, ApiClient } from '@incomemeter/api-client';
 import { API_CONFIG } from '../../constants/config';
 import { 
   MobilePlatform, 
   DeviceInfo, 
   MobileTokenResponse,
   MobileLoginRequest,
-  ApiResponse,
   NetworkError,
-  AuthenticationError
+  AuthenticationError,
+  Attachment,
+  ReactNativeFile,
+  ReceiptPhoto
 } from '../../types';
 import { AuthService } from '../auth/AuthService';
 import { Platform } from 'react-native';
 
 class IncomeMeterMobileApiClient {
   private client: AxiosInstance;
+  private api: ApiClient;
   private authService: AuthService;
   private platform: MobilePlatform;
   private deviceInfo: DeviceInfo;
+  private baseUrl: string;
 
   constructor(platform: MobilePlatform, deviceInfo: DeviceInfo) {
     const config = __DEV__ ? API_CONFIG.development : API_CONFIG.production;
     
     this.platform = platform;
     this.deviceInfo = deviceInfo;
+    this.baseUrl = config.baseUrl;
     this.authService = new AuthService();
     
     this.client = axios.create({
@@ -38,6 +44,9 @@ class IncomeMeterMobileApiClient {
     });
 
     this.setupInterceptors();
+
+    // Endpoints shared with the web app come from the generated client, over this axios instance
+    this.api = createApiClient(this.client);
   }
 
   private setupInterceptors(): void {
@@ -147,11 +156,11 @@ class IncomeMeterMobileApiClient {
 
   // Route management methods
   async getRoutes() {
-    return this.get('/api/routes');
+    return this.api.routes.getRoutes();
   }
 
   async getRouteById(id: string) {
-    return this.get(`/api/routes/${id}`);
+    return this.api.routes.getRouteById(id);
   }
 
   async startRoute(routeData: any) {
@@ -177,21 +186,25 @@ class IncomeMeterMobileApiClient {
   }
 
   async getRoutesByStatus(status: string) {
-    return this.get(`/api/routes/status/${status}`);
+    return this.api.routes.getRoutesByStatus(status);
   }
 
   async getRoutesByDateRange(startDate: string, endDate: string) {
-    return this.get(`/api/routes/date-range?startDate=${startDate}&endDate=${endDate}`);
+    return this.api.routes.getRoutesByDateRange({ startDate, endDate });
   }
 
   // Work type configuration
   async getWorkTypeConfigs() {
-    return this.get('/api/worktype-configs');
+    return this.api.workTypeConfigs.getWorkTypeConfigs();
+  }
+
+  async getActiveWorkTypeConfigs() {
+    return this.api.workTypeConfigs.getActiveWorkTypeConfigs();
   }
 
-  // Dashboard and analytics
-  async getDashboardAnalytics() {
-    return this.get('/api/dashboard/analytics');
+  // Dashboard
+  async getDashboardStats() {
+    return this.api.dashboard.getDashboardStats();
   }
 
   // Mobile-specific features
@@ -203,6 +216,44 @@ class IncomeMeterMobileApiClient {
     return this.post(`/api/mobile/routes/${routeId}/waypoints`, { waypoints });
   }
 
+  // Receipt attachments
+  async getAttachmentsByRoute(routeId: string): Promise<Attachment[]> {
+    const response = await this.client.get<Attachment[]>(`/api/attachments/route/${routeId}`);
+    return response.data;
+  }
+
+  async uploadAttachment(
+    routeId: string,
+    photo: ReceiptPhoto,
+    link: { incomeSource?: string; expenseId?: string } = {}
+  ): Promise<Attachment> {
+    const formData = new FormData();
+    formData.append('routeId', routeId);
+    // React Native's FormData takes a { uri, name, type } descriptor for files, which the DOM typings don't know
+    const file: ReactNativeFile = { uri: photo.uri, name: photo.fileName, type: photo.type };
+    formData.append('file', file as unknown as Blob);
+    if (link.incomeSource) formData.append('incomeSource', link.incomeSource);
+    if (link.expenseId) formData.append('expenseId', link.expenseId);
+
+    const response = await this.client.post<Attachment>('/api/attachments', formData, {
+      headers: { 'Content-Type': 'multipart/form-data' },
+    });
+    return response.data;
+  }
+
+  async deleteAttachment(attachmentId: string): Promise<void> {
+    await this.client.delete(`/api/attachments/${attachmentId}`);
+  }
+
+  // Image source for <Image>, which sends the auth header itself
+  async getAttachmentImageSource(attachmentId: string, size: 'thumbnail' | 'content') {
+    const token = await this.authService.getStoredToken();
+    return {
+      uri: `${this.baseUrl}/api/attachments/${attachmentId}/${size}`,
+      headers: token ? { Authorization: `Bearer ${token}` } : undefined,
+    };
+  }
+
   async reportBatteryStatus(batteryLevel: number, lowPowerMode: boolean) {
     return this.post('/api/mobile/device/battery', { batteryLevel, lowPowerMode });
   }
@@ -212,25 +263,25 @@ class IncomeMeterMobileApiClient {
     return this.post('/api/mobile/device/update', deviceInfo);
   }
 
-  // Generic HTTP methods
+  // Generic HTTP methods - the API returns payloads directly, without a wrapping envelope
   private async get<T>(endpoint: string, config?: AxiosRequestConfig): Promise<T> {
-    const response = await this.client.get<ApiResponse<T>>(endpoint, config);
-    return response.data.data;
+    const response = await this.client.get<T>(endpoint, config);
+    return response.data;
   }
 
   private async post<T>(endpoint: string, data?: any, config?: AxiosRequestConfig): Promise<T> {
-    const response = await this.client.post<ApiResponse<T>>(endpoint, data, config);
-    return response.data.data;
+    const response = await this.client.post<T>(endpoint, data, config);
+    return response.data;
   }
 
   private async put<T>(endpoint: string, data?: any, config?: AxiosRequestConfig): Promise<T> {
-    const response = await this.client.put<ApiResponse<T>>(endpoint, data, config);
-    return response.data.data;
+    const response = await this.client.put<T>(endpoint, data, config);
+    return response.data;
   }
 
   private async delete<T>(endpoint: string, config?: AxiosRequestConfig): Promise<T> {
-    const response = await this.client.delete<ApiResponse<T>>(endpoint, config);
-    return response.data.data;
+    const response = await this.client.delete<T>(endpoint, config);
+    return response.data;
   }
 
   // Helper methods
@@ -0,0 +1,53 @@
+import {
+  launchCamera,
+  launchImageLibrary,
+  CameraOptions,
+  ImagePickerResponse,
+} from 'react-native-image-picker';
+import { RECEIPT_CONFIG } from '../../constants/config';
+import { ReceiptPhoto } from '../../types';
+
+export type ReceiptSource = 'camera' | 'library';
+
+// The picker resizes and re-encodes on the device, so uploads are already compressed
+const PICKER_OPTIONS: CameraOptions = {
+  mediaType: 'photo',
+  maxWidth: RECEIPT_CONFIG.maxDimension,
+  maxHeight: RECEIPT_CONFIG.maxDimension,
+  quality: RECEIPT_CONFIG.quality as CameraOptions['quality'],
+  saveToPhotos: false,
+};
+
+const toReceiptPhoto = (response: ImagePickerResponse): ReceiptPhoto | null => {
+  if (response.didCancel) {
+    return null;
+  }
+  if (response.errorCode) {
+    throw new Error(response.errorMessage || `Photo capture failed (${response.errorCode})`);
+  }
+
+  const asset = response.assets?.[0];
+  if (!asset?.uri) {
+    return null;
+  }
+
+  return {
+    uri: asset.uri,
+    fileName: asset.fileName || `receipt-${Date.now()}.jpg`,
+    type: asset.type || 'image/jpeg',
+    width: asset.width,
+    height: asset.height,
+    fileSize: asset.fileSize,
+  };
+};
+
+/**
+ * Take or pick a receipt photo. Resolves null if the user cancels.
+ */
+export const captureReceiptPhoto = async (source: ReceiptSource): Promise<ReceiptPhoto | null> => {
+  const response = source === 'camera'
+    ? await launchCamera(PICKER_OPTIONS)
+    : await launchImageLibrary({ ...PICKER_OPTIONS, selectionLimit: 1 });
+
+  return toReceiptPhoto(response);
+};
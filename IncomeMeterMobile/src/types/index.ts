@@ -13,13 +13,6 @@ export interface BaseEntity {
 }
 
 // API response types
-export interface ApiResponse<T> {
-  data: T;
-  success: boolean;
-  message?: string;
-  errors?: string[];
-}
-
 export interface PaginatedResponse<T> {
   items: T[];
   totalCount: number;
@@ -91,7 +84,7 @@ export interface IncomeItem {
   timestamp: Date;
   entryMethod: IncomeEntryMethod;
   gpsLocation?: LocationPoint;
-  photo?: string;
+  photo?: string; // id of the receipt/pay-slip Attachment
   notes?: string;
 }
 
@@ -103,6 +96,36 @@ export enum IncomeEntryMethod {
   SHORTCUT = 'shortcut'
 }
 
+// Receipt and pay-slip photos, stored server-side per route
+export interface Attachment {
+  id: string;
+  routeId: string;
+  incomeSource?: string;
+  expenseId?: string;
+  fileName: string;
+  contentType: string;
+  size: number;
+  hasThumbnail: boolean;
+  createdAt: string;
+}
+
+// File descriptor React Native's FormData accepts in place of a Blob
+export interface ReactNativeFile {
+  uri: string;
+  name: string;
+  type: string;
+}
+
+// A compressed photo on the device, ready to upload
+export interface ReceiptPhoto {
+  uri: string;
+  fileName: string;
+  type: string;
+  width?: number;
+  height?: number;
+  fileSize?: number;
+}
+
 // User types
 export interface User extends BaseEntity {
   email: string;
@@ -0,0 +1,187 @@
+/**
+ * Generates src/generated.ts from the API's OpenAPI document.
+ *
+ *   npm run generate                      regenerate from the committed openapi.json
+ *   npm run generate -- --from <url>      refresh openapi.json first, e.g. from a local API at
+ *                                         http://localhost:5005/swagger/v1/swagger.json
+ *   npm run check [-- --from <url>]       write nothing; exit 1 when src/generated.ts (and, with --from,
+ *                                         openapi.json) differ from what would be generated
+ *
+ * Operations are grouped by tag (the controller) and named after their operationId (the action).
+ * Only operations that declare a JSON 200 response are generated - that's what the client validates.
+ */
+import { readFile, writeFile } from 'node:fs/promises';
+import { fileURLToPath } from 'node:url';
+
+const DOCUMENT_PATH = fileURLToPath(new URL('../openapi.json', import.meta.url));
+const OUTPUT_PATH = fileURLToPath(new URL('../src/generated.ts', import.meta.url));
+const REF_PREFIX = '#/components/schemas/';
+
+const camelCase = (name) => name.charAt(0).toLowerCase() + name.slice(1);
+
+const fromIndex = process.argv.indexOf('--from');
+const source = fromIndex === -1 ? undefined : process.argv[fromIndex + 1];
+const checkOnly = process.argv.includes('--check');
+
+const readDocument = async (location) =>
+  /^https?:/.test(location)
+    ? await (await fetch(location)).json()
+    : JSON.parse(await readFile(location, 'utf8'));
+
+const formatDocument = (document) => `${JSON.stringify(document, null, 2)}\n`;
+
+// Single-entry allOf is how a nullable reference is written in OpenAPI 3.0
+const unwrap = (schema) =>
+  schema.allOf?.length === 1 ? { ...schema.allOf[0], nullable: schema.nullable } : schema;
+
+const refName = (ref) => ref.slice(REF_PREFIX.length);
+
+/** The validator's view of a schema: just the keywords validation.ts understands */
+const toRuntimeSchema = (input) => {
+  const schema = unwrap(input);
+  if (schema.$ref) return { $ref: refName(schema.$ref) };
+
+  const runtime = { type: schema.type };
+  if (schema.format) runtime.format = schema.format;
+  if (schema.enum) runtime.enum = schema.enum;
+  if (schema.nullable) runtime.nullable = true;
+  if (schema.type === 'array') runtime.items = toRuntimeSchema(schema.items);
+  if (schema.properties) {
+    runtime.properties = Object.fromEntries(
+      Object.entries(schema.properties).map(([name, property]) => [name, toRuntimeSchema(property)]));
+  }
+  if (schema.additionalProperties && typeof schema.additionalProperties === 'object') {
+    runtime.additionalProperties = toRuntimeSchema(schema.additionalProperties);
+  }
+  return runtime;
+};
+
+const toType = (input) => {
+  const schema = unwrap(input);
+  const type = (() => {
+    if (schema.$ref) return refName(schema.$ref);
+    switch (schema.type) {
+      case 'string':
+        return schema.enum ? schema.enum.map((value) => JSON.stringify(value)).join(' | ') : 'string';
+      case 'number':
+      case 'integer':
+        return 'number';
+      case 'boolean':
+        return 'boolean';
+      case 'array': {
+        const items = toType(schema.items);
+        return /[ |]/.test(items) ? `Array<${items}>` : `${items}[]`;
+      }
+      case 'object':
+        if (schema.properties) return `{ ${toProperties(schema).join(' ')} }`;
+        if (typeof schema.additionalProperties === 'object') return `Record<string, ${toType(schema.additionalProperties)}>`;
+        return 'Record<string, unknown>';
+      default:
+        return 'unknown';
+    }
+  })();
+  return schema.nullable ? `${type} | null` : type;
+};
+
+// Nullable members may be left out; everything else the API always sends
+const toProperties = (schema) =>
+  Object.entries(schema.properties ?? {}).map(([name, property]) =>
+    `${name}${unwrap(property).nullable ? '?' : ''}: ${toType(property)};`);
+
+const renderInterface = (name, schema) => {
+  if (schema.type !== 'object' || !schema.properties) {
+    return `export type ${name} = ${toType(schema)};`;
+  }
+  return [`export interface ${name} {`, ...toProperties(schema).map((line) => `  ${line}`), '}'].join('\n');
+};
+
+const renderOperation = (path, method, operation) => {
+  const schema = operation.responses?.['200']?.content?.['application/json']?.schema;
+  if (!schema || !operation.operationId) return null;
+
+  const parameters = operation.parameters ?? [];
+  const pathParams = parameters.filter((p) => p.in === 'path');
+  const queryParams = parameters.filter((p) => p.in === 'query');
+  const body = operation.requestBody?.content?.['application/json']?.schema;
+
+  const args = pathParams.map((p) => `${p.name}: ${toType(p.schema)}`);
+  if (queryParams.length > 0) {
+    const fields = queryParams.map((p) => `${p.name}${p.required ? '' : '?'}: ${toType(p.schema)}`).join('; ');
+    args.push(`query${queryParams.some((p) => p.required) ? '' : '?'}: { ${fields} }`);
+  }
+  if (body) {
+    args.push(`body: ${toType(body)}`);
+  }
+
+  const url = pathParams.length > 0
+    ? `\`${path.replace(/\{(\w+)\}/g, (_, name) => `\${encodeURIComponent(${name})}`)}\``
+    : `'${path}'`;
+  const config = [`method: '${method}'`, `url: ${url}`];
+  if (queryParams.length > 0) config.push('params: query');
+  if (body) config.push('data: body');
+
+  return {
+    tag: operation.tags?.[0] ?? 'default',
+    code: `    ${camelCase(operation.operationId)}: (${args.join(', ')}) =>\n` +
+      `      send<${toType(schema)}>(http, { ${config.join(', ')} }, ${JSON.stringify(toRuntimeSchema(schema))}, schemas),`,
+  };
+};
+
+const render = (document) => {
+  const componentSchemas = document.components?.schemas ?? {};
+  const names = Object.keys(componentSchemas).sort();
+
+  const operationsByTag = new Map();
+  Object.entries(document.paths ?? {}).forEach(([path, methods]) => {
+    ['get', 'post', 'put', 'delete'].forEach((method) => {
+      if (!methods[method]) return;
+      const operation = renderOperation(path, method, methods[method]);
+      if (!operation) return;
+      operationsByTag.set(operation.tag, [...(operationsByTag.get(operation.tag) ?? []), operation.code]);
+    });
+  });
+
+  const runtimeSchemas = names.map((name) => `  ${name}: ${JSON.stringify(toRuntimeSchema(componentSchemas[name]))},`);
+  const groups = [...operationsByTag.keys()].sort().map((tag) =>
+    [`  ${camelCase(tag)}: {`, ...operationsByTag.get(tag), '  },'].join('\n'));
+
+  return [
+    `// Generated by scripts/generate.js from openapi.json (${document.info?.title} ${document.info?.version}) - do not edit by hand`,
+    '',
+    "import { send, type HttpClient } from './request';",
+    "import type { SchemaMap } from './validation';",
+    '',
+    names.map((name) => renderInterface(name, componentSchemas[name])).join('\n\n'),
+    '',
+    'export const schemas: SchemaMap = {',
+    ...runtimeSchemas,
+    '};',
+    '',
+    'export const createApiClient = (http: HttpClient) => ({',
+    ...groups,
+    '});',
+    '',
+    'export type ApiClient = ReturnType<typeof createApiClient>;',
+    '',
+  ].join('\n');
+};
+
+const committedDocument = await readFile(DOCUMENT_PATH, 'utf8');
+const document = source ? await readDocument(source) : JSON.parse(committedDocument);
+const output = render(document);
+
+if (checkOnly) {
+  const outdated = [];
+  if (source && formatDocument(document) !== committedDocument) outdated.push('openapi.json');
+  if (output !== await readFile(OUTPUT_PATH, 'utf8').catch(() => '')) outdated.push('src/generated.ts');
+
+  if (outdated.length > 0) {
+    console.error(`Out of date: ${outdated.join(', ')}. Run npm run generate${source ? ` -- --from ${source}` : ''} and commit the result.`);
+    process.exit(1);
+  }
+  console.log(source ? `openapi.json and src/generated.ts match ${source}` : 'src/generated.ts matches openapi.json');
+} else {
+  if (source) await writeFile(DOCUMENT_PATH, formatDocument(document));
+  await writeFile(OUTPUT_PATH, output);
+  console.log(`Wrote ${OUTPUT_PATH}`);
+}
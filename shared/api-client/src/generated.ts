@@ -0,0 +1,134 @@
+// Generated by scripts/generate.js from openapi.json (IncomeMeter.Api 1.0) - do not edit by hand
+
+import { send, type HttpClient } from './request';
+import type { SchemaMap } from './validation';
+
+export interface DailyIncomeDto {
+  date: string;
+  income: number;
+}
+
+export interface DashboardStatsDto {
+  last7DaysIncome: number;
+  previous7DaysIncome: number;
+  currentMonthIncome: number;
+  currentMonthExpenses: number;
+  netIncome: number;
+  last7DaysMileage: number;
+  currentMonthMileage: number;
+  incomeBySource: Record<string, WorkTypeStatsDto>;
+  dailyIncomeData: DailyIncomeDto[];
+}
+
+export interface IncomeItem {
+  source: string;
+  amount: number;
+}
+
+export interface IncomeSourceTemplateDto {
+  name: string;
+  category?: string | null;
+  defaultAmount?: number | null;
+  isRequired: boolean;
+  description?: string | null;
+  displayOrder: number;
+}
+
+export interface Route {
+  id?: string | null;
+  userId: string;
+  workType?: string | null;
+  workTypeId?: string | null;
+  recurringScheduleId?: string | null;
+  calendarUid?: string | null;
+  status: string;
+  scheduleStart: string;
+  scheduleEnd: string;
+  actualStartTime?: string | null;
+  actualEndTime?: string | null;
+  incomes: IncomeItem[];
+  totalIncome: number;
+  estimatedIncome: number;
+  distance: number;
+  startMile?: number | null;
+  endMile?: number | null;
+  mileageSource?: string | null;
+  taxMiles?: number | null;
+  mileageReconciledAt?: string | null;
+  notes?: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface RoutePageDto {
+  items: Route[];
+  nextCursor?: string | null;
+  totalCount?: number | null;
+}
+
+export interface WorkTypeConfigResponseDto {
+  id: string;
+  name: string;
+  description?: string | null;
+  incomeSourceTemplates: IncomeSourceTemplateDto[];
+  isActive: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface WorkTypeStatsDto {
+  income: number;
+  expenses: number;
+  netIncome: number;
+  routes: number;
+  totalWorkingHours: number;
+  totalMileage: number;
+  hourlyRate: number;
+  earningsPerMile: number;
+  drivingHours: number;
+  waitingHours: number;
+  trackedRoutes: number;
+  incomeBySource: Record<string, number>;
+}
+
+export const schemas: SchemaMap = {
+  DailyIncomeDto: {"type":"object","properties":{"date":{"type":"string"},"income":{"type":"number","format":"double"}}},
+  DashboardStatsDto: {"type":"object","properties":{"last7DaysIncome":{"type":"number","format":"double"},"previous7DaysIncome":{"type":"number","format":"double"},"currentMonthIncome":{"type":"number","format":"double"},"currentMonthExpenses":{"type":"number","format":"double"},"netIncome":{"type":"number","format":"double"},"last7DaysMileage":{"type":"number","format":"double"},"currentMonthMileage":{"type":"number","format":"double"},"incomeBySource":{"type":"object","additionalProperties":{"$ref":"WorkTypeStatsDto"}},"dailyIncomeData":{"type":"array","items":{"$ref":"DailyIncomeDto"}}}},
+  IncomeItem: {"type":"object","properties":{"source":{"type":"string"},"amount":{"type":"number","format":"double"}}},
+  IncomeSourceTemplateDto: {"type":"object","properties":{"name":{"type":"string"},"category":{"type":"string","nullable":true},"defaultAmount":{"type":"number","format":"double","nullable":true},"isRequired":{"type":"boolean"},"description":{"type":"string","nullable":true},"displayOrder":{"type":"integer","format":"int32"}}},
+  Route: {"type":"object","properties":{"id":{"type":"string","nullable":true},"userId":{"type":"string"},"workType":{"type":"string","nullable":true},"workTypeId":{"type":"string","nullable":true},"recurringScheduleId":{"type":"string","nullable":true},"calendarUid":{"type":"string","nullable":true},"status":{"type":"string"},"scheduleStart":{"type":"string","format":"date-time"},"scheduleEnd":{"type":"string","format":"date-time"},"actualStartTime":{"type":"string","format":"date-time","nullable":true},"actualEndTime":{"type":"string","format":"date-time","nullable":true},"incomes":{"type":"array","items":{"$ref":"IncomeItem"}},"totalIncome":{"type":"number","format":"double"},"estimatedIncome":{"type":"number","format":"double"},"distance":{"type":"number","format":"double"},"startMile":{"type":"number","format":"double","nullable":true},"endMile":{"type":"number","format":"double","nullable":true},"mileageSource":{"type":"string","nullable":true},"taxMiles":{"type":"number","format":"double","nullable":true},"mileageReconciledAt":{"type":"string","format":"date-time","nullable":true},"notes":{"type":"string","nullable":true},"createdAt":{"type":"string","format":"date-time"},"updatedAt":{"type":"string","format":"date-time"}}},
+  RoutePageDto: {"type":"object","properties":{"items":{"type":"array","items":{"$ref":"Route"}},"nextCursor":{"type":"string","nullable":true},"totalCount":{"type":"integer","format":"int64","nullable":true}}},
+  WorkTypeConfigResponseDto: {"type":"object","properties":{"id":{"type":"string"},"name":{"type":"string"},"description":{"type":"string","nullable":true},"incomeSourceTemplates":{"type":"array","items":{"$ref":"IncomeSourceTemplateDto"}},"isActive":{"type":"boolean"},"createdAt":{"type":"string","format":"date-time"},"updatedAt":{"type":"string","format":"date-time"}}},
+  WorkTypeStatsDto: {"type":"object","properties":{"income":{"type":"number","format":"double"},"expenses":{"type":"number","format":"double"},"netIncome":{"type":"number","format":"double"},"routes":{"type":"integer","format":"int32"},"totalWorkingHours":{"type":"number","format":"double"},"totalMileage":{"type":"number","format":"double"},"hourlyRate":{"type":"number","format":"double"},"earningsPerMile":{"type":"number","format":"double"},"drivingHours":{"type":"number","format":"double"},"waitingHours":{"type":"number","format":"double"},"trackedRoutes":{"type":"integer","format":"int32"},"incomeBySource":{"type":"object","additionalProperties":{"type":"number","format":"double"}}}},
+};
+
+export const createApiClient = (http: HttpClient) => ({
+  dashboard: {
+    getDashboardStats: () =>
+      send<DashboardStatsDto>(http, { method: 'get', url: '/api/Dashboard/stats' }, {"$ref":"DashboardStatsDto"}, schemas),
+    getTodaysRoutes: () =>
+      send<Route[]>(http, { method: 'get', url: '/api/Dashboard/todays-routes' }, {"type":"array","items":{"$ref":"Route"}}, schemas),
+  },
+  routes: {
+    getRoutes: () =>
+      send<Route[]>(http, { method: 'get', url: '/api/Routes' }, {"type":"array","items":{"$ref":"Route"}}, schemas),
+    getRouteById: (id: string) =>
+      send<Route>(http, { method: 'get', url: `/api/Routes/${encodeURIComponent(id)}` }, {"$ref":"Route"}, schemas),
+    getRoutesByStatus: (status: string) =>
+      send<Route[]>(http, { method: 'get', url: `/api/Routes/status/${encodeURIComponent(status)}` }, {"type":"array","items":{"$ref":"Route"}}, schemas),
+    getRoutesByDateRange: (query?: { startDate?: string; endDate?: string }) =>
+      send<Route[]>(http, { method: 'get', url: '/api/Routes/date-range', params: query }, {"type":"array","items":{"$ref":"Route"}}, schemas),
+    getRoutePage: (query?: { Status?: string; StartDate?: string; EndDate?: string; WorkTypes?: string[]; IncomeSources?: string[]; Search?: string; Sort?: string; Cursor?: string; Limit?: number }) =>
+      send<RoutePageDto>(http, { method: 'get', url: '/api/Routes/page', params: query }, {"$ref":"RoutePageDto"}, schemas),
+  },
+  workTypeConfigs: {
+    getWorkTypeConfigs: () =>
+      send<WorkTypeConfigResponseDto[]>(http, { method: 'get', url: '/api/work-type-configs' }, {"type":"array","items":{"$ref":"WorkTypeConfigResponseDto"}}, schemas),
+    getActiveWorkTypeConfigs: () =>
+      send<WorkTypeConfigResponseDto[]>(http, { method: 'get', url: '/api/work-type-configs/active' }, {"type":"array","items":{"$ref":"WorkTypeConfigResponseDto"}}, schemas),
+    getWorkTypeConfigById: (id: string) =>
+      send<WorkTypeConfigResponseDto>(http, { method: 'get', url: `/api/work-type-configs/${encodeURIComponent(id)}` }, {"$ref":"WorkTypeConfigResponseDto"}, schemas),
+  },
+});
+
+export type ApiClient = ReturnType<typeof createApiClient>;
@@ -0,0 +1,3 @@
+export * from './generated';
+export { ApiValidationError, validate, type Schema, type SchemaMap } from './validation';
+export type { HttpClient, HttpRequest } from './request';
@@ -0,0 +1,22 @@
+import { validate, type Schema, type SchemaMap } from './validation';
+
+export interface HttpRequest {
+  method: 'get' | 'post' | 'put' | 'delete';
+  url: string;
+  params?: object;
+  data?: unknown;
+}
+
+/**
+ * The part of an axios instance the client needs. Each app passes its own instance, so base URL, auth
+ * headers and token renewal stay with the app's interceptors.
+ */
+export interface HttpClient {
+  request<T = unknown>(config: HttpRequest): Promise<{ data: T }>;
+}
+
+export const send = async <T>(http: HttpClient, config: HttpRequest, schema: Schema, schemas: SchemaMap): Promise<T> => {
+  const response = await http.request<unknown>(config);
+  validate(response.data, schema, schemas);
+  return response.data as T;
+};
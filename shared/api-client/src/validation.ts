@@ -0,0 +1,105 @@
+/**
+ * Runtime checks that API responses match the OpenAPI schemas the client was generated from.
+ * Only the subset of OpenAPI the backend actually emits is understood. Properties the schema doesn't
+ * know about are let through, so an API that has gained fields doesn't break older clients.
+ */
+
+interface SchemaBase {
+  nullable?: boolean;
+}
+
+export type Schema =
+  | { $ref: string }
+  | (SchemaBase & { type: 'string'; format?: string; enum?: string[] })
+  | (SchemaBase & { type: 'number' | 'integer'; format?: string })
+  | (SchemaBase & { type: 'boolean' })
+  | (SchemaBase & { type: 'array'; items: Schema })
+  | (SchemaBase & { type: 'object'; properties?: Record<string, Schema>; additionalProperties?: Schema });
+
+export type SchemaMap = Record<string, Schema>;
+
+type ValueSchema = Exclude<Schema, { $ref: string }>;
+
+export class ApiValidationError extends Error {
+  readonly path: string;
+
+  constructor(path: string, message: string) {
+    super(`${path}: ${message}`);
+    this.name = 'ApiValidationError';
+    this.path = path;
+  }
+}
+
+const resolve = (schema: Schema, schemas: SchemaMap): ValueSchema => {
+  if (!('$ref' in schema)) return schema;
+
+  const target: Schema | undefined = schemas[schema.$ref];
+  if (!target) {
+    throw new Error(`Unknown schema ${schema.$ref}`);
+  }
+  return resolve(target, schemas);
+};
+
+const describe = (value: unknown): string =>
+  value === null ? 'null' : Array.isArray(value) ? 'array' : typeof value;
+
+/**
+ * Throws an ApiValidationError naming the first value that doesn't match the schema
+ */
+export const validate = (value: unknown, schema: Schema, schemas: SchemaMap, path = 'response'): void => {
+  const resolved = resolve(schema, schemas);
+
+  if (value === null || value === undefined) {
+    if (resolved.nullable) return;
+    throw new ApiValidationError(path, `expected ${resolved.type}, got ${describe(value)}`);
+  }
+
+  switch (resolved.type) {
+    case 'string':
+      if (typeof value !== 'string') {
+        throw new ApiValidationError(path, `expected string, got ${describe(value)}`);
+      }
+      if (resolved.format === 'date-time' && Number.isNaN(Date.parse(value))) {
+        throw new ApiValidationError(path, `expected a date-time, got "${value}"`);
+      }
+      if (resolved.enum && !resolved.enum.includes(value)) {
+        throw new ApiValidationError(path, `expected one of ${resolved.enum.join(', ')}, got "${value}"`);
+      }
+      return;
+
+    case 'number':
+    case 'integer':
+      if (typeof value !== 'number' || (resolved.type === 'integer' && !Number.isInteger(value))) {
+        throw new ApiValidationError(path, `expected ${resolved.type}, got ${describe(value)}`);
+      }
+      return;
+
+    case 'boolean':
+      if (typeof value !== 'boolean') {
+        throw new ApiValidationError(path, `expected boolean, got ${describe(value)}`);
+      }
+      return;
+
+    case 'array':
+      if (!Array.isArray(value)) {
+        throw new ApiValidationError(path, `expected array, got ${describe(value)}`);
+      }
+      value.forEach((item, index) => validate(item, resolved.items, schemas, `${path}[${index}]`));
+      return;
+
+    case 'object': {
+      if (typeof value !== 'object' || Array.isArray(value)) {
+        throw new ApiValidationError(path, `expected object, got ${describe(value)}`);
+      }
+      const record = value as Record<string, unknown>;
+      Object.entries(resolved.properties ?? {}).forEach(([name, property]) =>
+        validate(record[name], property, schemas, `${path}.${name}`));
+      const { additionalProperties } = resolved;
+      if (additionalProperties) {
+        Object.entries(record).forEach(([name, entry]) =>
+          validate(entry, additionalProperties, schemas, `${path}.${name}`));
+      }
+      return;
+    }
+  }
+};